@@ -9,22 +9,35 @@
  *
  * What it does:
  *   1. Reads the "individual stableford" sheet from the Golf Genius export
- *   2. Matches player names to profiles in the database (fuzzy matching on first+last name)
+ *   2. Matches player names to profiles in the database (saved aliases, then first+last name)
  *   3. Shows a preview of all matches for confirmation
  *   4. Inserts scores into the league_scores table
  *
+ * Prefer the admin League Scores page (/admin/events/{id}/scores), which does
+ * the same upload with a match preview and no service-role key. This script is
+ * kept for bulk back-fills.
+ *
  * Notes:
  *   - Expects the Golf Genius XLS format with columns: Pos., Player, Club, Stableford Points, Thru
- *   - Matches are case-insensitive on first_name + last_name
+ *   - Name aliases saved for the event (league_name_aliases) are checked first,
+ *     then first_name + last_name (case- and punctuation-insensitive)
  *   - If a score already exists for a golfer on that date, it will be updated (upsert)
  *   - Unmatched players are reported — you may need to check spelling or add them to the system
  *   - Requires NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in .env.local
  */
 
 import { createClient } from "@supabase/supabase-js";
-import * as XLSX from "xlsx";
+import * as fs from "fs";
 import * as path from "path";
 import * as readline from "readline";
+import {
+  readGolfGeniusRows,
+  parseGolfGeniusRows,
+  matchScoresToProfiles,
+  type ParsedScore,
+} from "../src/lib/score-import";
+import { pickSeasonForDate } from "../src/lib/league";
+import type { LeagueSeason } from "../src/types/events";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -41,33 +54,8 @@ const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
   auth: { autoRefreshToken: false, persistSession: false },
 });
 
-// --- Name Alias Map ---
-// Golf Genius sometimes uses different names than what's in our database.
-// Add entries here when a mismatch is discovered.
-// Format: "golf genius full name (lowercase)" -> { firstName, lastName } as stored in DB.
-// If only the first name differs, you can omit lastName.
-const NAME_ALIASES: Record<string, { firstName: string; lastName?: string }> = {
-  "douglas irwin": { firstName: "Doug" },
-  "mike leiby": { firstName: "Michael" },
-  "samuel dagan": { firstName: "Sam" },
-  "bradley schluter": { firstName: "Brad" },
-  "tony dambrosia": { firstName: "Tony", lastName: "D'Ambrosia" },
-};
-
 // --- Helpers ---
 
-function resolveName(firstName: string, lastName: string): { firstName: string; lastName: string } {
-  const key = `${firstName.trim().toLowerCase()} ${lastName.trim().toLowerCase()}`;
-  const alias = NAME_ALIASES[key];
-  if (alias) {
-    return {
-      firstName: alias.firstName,
-      lastName: alias.lastName || lastName,
-    };
-  }
-  return { firstName, lastName };
-}
-
 function askConfirmation(question: string): Promise<boolean> {
   const rl = readline.createInterface({
     input: process.stdin,
@@ -81,33 +69,14 @@ function askConfirmation(question: string): Promise<boolean> {
   });
 }
 
-function normalizeNameKey(firstName: string, lastName: string): string {
-  return `${firstName.trim().toLowerCase()}|${lastName.trim().toLowerCase()}`;
-}
-
-interface ParsedScore {
-  playerName: string;
-  firstName: string;
-  lastName: string;
-  stablefordPoints: number;
-}
-
-function parseGolfGeniusXls(filePath: string): ParsedScore[] {
-  // Try xlsx (SheetJS) first — works well with .xlsx files
+function readScoreFile(filePath: string): ParsedScore[] {
+  // Try xlsx (SheetJS) first — works well with .xlsx and .csv files
   // Falls back to Python xlrd for old .xls binary files that SheetJS can't parse
   let rows: unknown[][] = [];
-  let sheetName = "";
 
   try {
-    const workbook = XLSX.readFile(filePath);
-
-    // Find the stableford sheet (case-insensitive)
-    sheetName = workbook.SheetNames.find(
-      (name) => name.toLowerCase().includes("stableford")
-    ) || workbook.SheetNames[0];
-
-    const sheet = workbook.Sheets[sheetName];
-    rows = XLSX.utils.sheet_to_json(sheet, { header: 1 });
+    const { sheetName, rows: sheetRows } = readGolfGeniusRows(fs.readFileSync(filePath));
+    rows = sheetRows;
 
     // If SheetJS read the file but got no usable data, fall back to xlrd
     const dataRows = rows.filter((r) => r && (r as unknown[]).length >= 4);
@@ -121,33 +90,7 @@ function parseGolfGeniusXls(filePath: string): ParsedScore[] {
     rows = parseWithXlrd(filePath);
   }
 
-  // Skip header row, parse player data
-  const scores: ParsedScore[] = [];
-  for (let i = 1; i < rows.length; i++) {
-    const row = rows[i] as unknown[];
-    if (!row || row.length < 4) continue;
-
-    const playerName = String(row[1] || "").trim();
-    const points = Number(row[3]);
-
-    if (!playerName || isNaN(points)) continue;
-
-    // Split "First Last" name
-    const nameParts = playerName.split(/\s+/);
-    if (nameParts.length < 2) {
-      console.warn(`  Skipping row ${i + 1}: can't parse name "${playerName}"`);
-      continue;
-    }
-
-    const rawFirstName = nameParts[0];
-    const rawLastName = nameParts.slice(1).join(" ");
-    // Resolve aliases (e.g., "Douglas" -> "Doug", "Dambrosia" -> "D'Ambrosia")
-    const { firstName, lastName } = resolveName(rawFirstName, rawLastName);
-
-    scores.push({ playerName, firstName, lastName, stablefordPoints: points });
-  }
-
-  return scores;
+  return parseGolfGeniusRows(rows);
 }
 
 /**
@@ -211,7 +154,7 @@ async function main() {
   console.log(`📅 Game date: ${gameDate}\n`);
 
   // 1. Parse the Excel file
-  const parsedScores = parseGolfGeniusXls(filePath);
+  const parsedScores = readScoreFile(filePath);
   console.log(`Found ${parsedScores.length} scores in the spreadsheet.\n`);
 
   // 2. Get the Thursday League event
@@ -226,7 +169,20 @@ async function main() {
   }
 
   const event = events[0];
-  console.log(`🏌️ Event: ${event.name} (${event.id})\n`);
+  console.log(`🏌️ Event: ${event.name} (${event.id})`);
+
+  // Scores belong to the season containing the game date (else the current one)
+  const { data: seasons } = await supabase
+    .from("league_seasons")
+    .select("*")
+    .eq("event_id", event.id);
+
+  const season = pickSeasonForDate((seasons || []) as LeagueSeason[], gameDate);
+  if (!season) {
+    console.error("The league has no seasons — set one up in Event Settings first.");
+    process.exit(1);
+  }
+  console.log(`🗓️  Season: ${season.name}\n`);
 
   // 3. Fetch all active profiles (not just subscribed — golfers may play as guests or
   //    might have data under slightly different subscription states)
@@ -240,26 +196,30 @@ async function main() {
     process.exit(1);
   }
 
-  // Build lookup map: "first|last" -> profile
-  const profileMap = new Map<string, typeof profiles[0]>();
-  for (const p of profiles) {
-    const key = normalizeNameKey(p.first_name, p.last_name);
-    profileMap.set(key, p);
-  }
+  // Saved name aliases (managed from the admin League Scores page)
+  const { data: aliases } = await supabase
+    .from("league_name_aliases")
+    .select("source_name, profile_id")
+    .eq("event_id", event.id);
+
+  const aliasMap = new Map<string, string>(
+    (aliases || []).map((a) => [a.source_name, a.profile_id])
+  );
+  const profileById = new Map(profiles.map((p) => [p.id, p]));
 
-  // 4. Match scores to profiles
+  // 4. Match scores to profiles (saved aliases first, then first + last name)
   const matched: { profile: typeof profiles[0]; points: number; playerName: string }[] = [];
   const unmatched: ParsedScore[] = [];
 
-  for (const score of parsedScores) {
-    const key = normalizeNameKey(score.firstName, score.lastName);
-    const profile = profileMap.get(key);
+  const matches = matchScoresToProfiles(parsedScores, profiles, aliasMap);
+  matches.forEach((match, i) => {
+    const profile = match.profileId ? profileById.get(match.profileId) : undefined;
     if (profile) {
-      matched.push({ profile, points: score.stablefordPoints, playerName: score.playerName });
+      matched.push({ profile, points: match.stablefordPoints, playerName: match.playerName });
     } else {
-      unmatched.push(score);
+      unmatched.push(parsedScores[i]);
     }
-  }
+  });
 
   // 5. Display results
   console.log(`✅ Matched: ${matched.length} / ${parsedScores.length}`);
@@ -296,7 +256,8 @@ async function main() {
   // 7. Confirm
   if (unmatched.length > 0) {
     console.log(`\n⚠️  ${unmatched.length} player(s) could not be matched. Their scores will be skipped.`);
-    console.log("   You may need to check spelling or add them to the system.\n");
+    console.log("   Check spelling, add them to the system, or match them by hand on the");
+    console.log("   admin League Scores page (which remembers the name for next time).\n");
   }
 
   const confirmed = await askConfirmation(`\nInsert ${matched.length} scores for ${gameDate}? (y/n) `);
@@ -318,6 +279,7 @@ async function main() {
         {
           event_id: event.id,
           profile_id: m.profile.id,
+          season_id: season.id,
           game_date: gameDate,
           stableford_points: m.points,
           metadata: { source: "golf_genius", imported_at: new Date().toISOString() },
@@ -342,7 +304,8 @@ async function main() {
   const { data: allScores } = await supabase
     .from("league_scores")
     .select("profile_id, stableford_points")
-    .eq("event_id", event.id);
+    .eq("event_id", event.id)
+    .eq("season_id", season.id);
 
   if (allScores) {
     const totals = new Map<string, { total: number; rounds: number }>();
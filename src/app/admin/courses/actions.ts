@@ -0,0 +1,63 @@
+"use server";
+
+import { requireSuperAdmin } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { parseCourseInput } from "@/lib/courses";
+
+/** Add a course (courseId null) or update one */
+export async function saveCourse(
+  courseId: string | null,
+  fields: {
+    name: string;
+    address: string;
+    latitude: string;
+    longitude: string;
+    timezone: string;
+  }
+) {
+  const { supabase } = await requireSuperAdmin();
+
+  const parsed = parseCourseInput(fields);
+  if ("error" in parsed) {
+    return { error: parsed.error };
+  }
+  const { course } = parsed;
+
+  try {
+    const { error } = courseId
+      ? await supabase.from("courses").update(course).eq("id", courseId)
+      : await supabase.from("courses").insert(course);
+
+    if (error) {
+      if (error.code === "23505") {
+        return { error: `A course named "${course.name}" already exists` };
+      }
+      throw error;
+    }
+
+    revalidatePath("/admin/courses");
+    return { success: true };
+  } catch (error) {
+    console.error("Save course error:", error);
+    return { error: "Failed to save course" };
+  }
+}
+
+/**
+ * Delete a course. Events and games that used it are left without a
+ * course (no weather) until an admin picks another.
+ */
+export async function deleteCourse(courseId: string) {
+  const { supabase } = await requireSuperAdmin();
+
+  try {
+    const { error } = await supabase.from("courses").delete().eq("id", courseId);
+    if (error) throw error;
+
+    revalidatePath("/admin/courses");
+    return { success: true };
+  } catch (error) {
+    console.error("Delete course error:", error);
+    return { error: "Failed to delete course" };
+  }
+}
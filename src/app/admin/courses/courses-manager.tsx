@@ -0,0 +1,196 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import type { Course } from "@/types/events";
+import { saveCourse, deleteCourse } from "./actions";
+
+const INPUT_CLASS =
+  "mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500";
+
+interface CourseFormValues {
+  name: string;
+  address: string;
+  latitude: string;
+  longitude: string;
+  timezone: string;
+}
+
+export function CoursesManager({
+  courses,
+  eventsByCourse,
+}: {
+  courses: Course[];
+  /** Event names playing at each course, by course id */
+  eventsByCourse: Record<string, string[]>;
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [message, setMessage] = useState<string | null>(null);
+  // Course id being edited, "new" for the add form
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const run = (action: () => Promise<{ error?: string }>, onSuccess?: () => void) => {
+    startTransition(async () => {
+      const result = await action();
+      if (result.error) {
+        setMessage(result.error);
+      } else {
+        setMessage(null);
+        onSuccess?.();
+        router.refresh();
+      }
+    });
+  };
+
+  const handleSave = (courseId: string | null, values: CourseFormValues) => {
+    run(
+      () => saveCourse(courseId, values),
+      () => setEditingId(null)
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {courses.length === 0 ? (
+        <p className="text-sm text-gray-500">No courses yet. Events without a course don&apos;t show a weather forecast.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {courses.map((course) => {
+            const events = eventsByCourse[course.id] || [];
+            return (
+              <li key={course.id} className="py-3">
+                <div className="flex items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-gray-900">{course.name}</p>
+                    <p className="truncate text-xs text-gray-500">
+                      {course.address || "No address"} · {Number(course.latitude).toFixed(4)}, {Number(course.longitude).toFixed(4)} · {course.timezone}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {events.length > 0 ? `Home course for ${events.join(", ")}` : "Not an event's home course"}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(editingId === course.id ? null : course.id)}
+                    className="shrink-0 text-sm font-medium text-teal-600 hover:text-teal-800"
+                  >
+                    {editingId === course.id ? "Close" : "Edit"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      const warning = events.length > 0
+                        ? ` ${events.join(", ")} will have no course and no weather forecast until you pick another.`
+                        : "";
+                      if (confirm(`Delete ${course.name}?${warning}`)) {
+                        run(() => deleteCourse(course.id));
+                      }
+                    }}
+                    disabled={isPending}
+                    className="shrink-0 text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+
+                {editingId === course.id && (
+                  <CourseEditor
+                    key={course.updated_at}
+                    course={course}
+                    isPending={isPending}
+                    onSave={(values) => handleSave(course.id, values)}
+                  />
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="border-t border-gray-100 pt-5">
+        {editingId === "new" ? (
+          <CourseEditor
+            course={null}
+            isPending={isPending}
+            onSave={(values) => handleSave(null, values)}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setEditingId("new")}
+            className="rounded-md bg-teal-600 px-4 py-2 text-sm font-medium text-white hover:bg-teal-700"
+          >
+            Add Course
+          </button>
+        )}
+      </div>
+
+      {message && <p className="text-sm text-red-600">{message}</p>}
+    </div>
+  );
+}
+
+function CourseEditor({
+  course,
+  isPending,
+  onSave,
+}: {
+  course: Course | null;
+  isPending: boolean;
+  onSave: (values: CourseFormValues) => void;
+}) {
+  const [values, setValues] = useState<CourseFormValues>({
+    name: course?.name ?? "",
+    address: course?.address ?? "",
+    latitude: course ? String(course.latitude) : "",
+    longitude: course ? String(course.longitude) : "",
+    timezone: course?.timezone ?? "America/Los_Angeles",
+  });
+
+  const field = (key: keyof CourseFormValues) => ({
+    value: values[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) =>
+      setValues((prev) => ({ ...prev, [key]: e.target.value })),
+    className: INPUT_CLASS,
+  });
+
+  return (
+    <div className="mt-3 space-y-4 rounded-md border border-gray-200 bg-gray-50 p-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Course Name</label>
+          <input {...field("name")} placeholder="e.g., Torrey Pines South" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Address</label>
+          <input {...field("address")} placeholder="Street, city, state" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Latitude</label>
+          <input {...field("latitude")} inputMode="decimal" placeholder="32.9881" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Longitude</label>
+          <input {...field("longitude")} inputMode="decimal" placeholder="-117.1935" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Timezone</label>
+          <input {...field("timezone")} placeholder="America/Los_Angeles" />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Right-click the clubhouse in Google Maps to copy its coordinates. West longitudes are negative.
+      </p>
+
+      <button
+        type="button"
+        onClick={() => onSave(values)}
+        disabled={isPending || !values.name.trim()}
+        className="rounded-md bg-teal-600 px-4 py-2 text-sm font-medium text-white hover:bg-teal-700 disabled:opacity-50"
+      >
+        Save Course
+      </button>
+    </div>
+  );
+}
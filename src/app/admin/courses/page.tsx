@@ -0,0 +1,47 @@
+import { requireSuperAdmin } from "@/lib/auth";
+import { Breadcrumbs } from "@/components/breadcrumbs";
+import { getCourses } from "@/lib/courses";
+import { CoursesManager } from "./courses-manager";
+
+export default async function CoursesPage() {
+  const { supabase } = await requireSuperAdmin();
+
+  const [courses, { data: events }] = await Promise.all([
+    getCourses(supabase),
+    supabase.from("events").select("name, course_id").eq("is_active", true).order("name"),
+  ]);
+
+  const eventsByCourse: Record<string, string[]> = {};
+  for (const event of events || []) {
+    if (!event.course_id) continue;
+    (eventsByCourse[event.course_id] ||= []).push(event.name);
+  }
+
+  return (
+    <main className="min-h-screen px-4 py-8">
+      <div className="mx-auto max-w-3xl">
+        <Breadcrumbs
+          items={[
+            { label: "Admin", href: "/admin" },
+            { label: "Courses" },
+          ]}
+        />
+
+        <div className="mt-6">
+          <h1 className="text-2xl font-serif uppercase tracking-wide font-bold text-navy-900">
+            Courses
+          </h1>
+          <p className="text-sm text-gray-500">
+            Where events play. Each event has a home course in Event Settings, and any
+            game can switch to another course for an away day on the Schedule page.
+            Weather forecasts use the game&apos;s course.
+          </p>
+        </div>
+
+        <div className="mt-6 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <CoursesManager courses={courses} eventsByCourse={eventsByCourse} />
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -4,14 +4,28 @@ import { requireAdmin, hasEventAccess } from "@/lib/auth";
 import { sendEmail, rateLimitDelay } from "@/lib/email";
 import { revalidatePath } from "next/cache";
 import { getSiteUrl } from "@/lib/format";
-import { formatGameDate } from "@/lib/format";
-
-export type EmailTarget =
-  | "in"
-  | "out"
-  | "not_sure_no_response"
-  | "waitlisted"
-  | "everyone";
+import { isPastSendWindow } from "@/lib/timezone";
+import {
+  renderTemplate,
+  validateForSend,
+  type TemplateValues,
+} from "@/lib/email-template-library";
+import {
+  EMAIL_TARGET_STATUSES,
+  bodyToHtml,
+  buildCustomEmailHtml,
+  getPrimaryAdminEmail,
+  loadGameTemplateValues,
+  sendCustomEmailToSchedule,
+  type EmailTarget,
+} from "@/lib/custom-email";
+import {
+  SCHEDULED_SEND_TIMES,
+  type ScheduledEmailCondition,
+  type ScheduledEmailRecurrence,
+} from "@/lib/scheduled-emails";
+
+export type { EmailTarget };
 
 export type EmailTemplate =
   | "extra_spots"
@@ -22,64 +36,12 @@ export type EmailTemplate =
 
 export type ProfileField = "phone" | "ghin" | "playing_partners";
 
-/** Shared email header with FRCC branding (matches lib/email.ts) */
-function emailHeader(title: string, subtitle?: string) {
-  return `
-    <div style="border-bottom: 3px solid #3d7676; padding-bottom: 16px; margin-bottom: 20px;">
-      <h2 style="font-family: Georgia, 'Times New Roman', serif; color: #1b2a4a; margin: 0 0 4px 0; text-transform: uppercase; letter-spacing: 1px; font-size: 20px;">${title}</h2>
-      ${subtitle ? `<p style="color: #6b7280; font-size: 16px; margin: 0;">${subtitle}</p>` : ""}
-    </div>`;
-}
-
-/** Build the email HTML wrapper — shared by send and test flows */
-function buildEmailHtml(
-  eventName: string,
-  bodyHtml: string,
-  ctaUrl: string,
-  ctaLabel: string,
-  siteUrl: string,
-  subtitle?: string
-) {
-  return `
-    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 0 auto; padding: 24px;">
-      ${emailHeader(eventName, subtitle)}
-
-      ${bodyHtml}
-
-      <div style="margin: 24px 0; text-align: center;">
-        <a href="${ctaUrl}" style="display: inline-block; background: #3d7676; color: white; text-align: center; padding: 12px 32px; border-radius: 8px; text-decoration: none; font-weight: 600; font-size: 15px;">${ctaLabel}</a>
-      </div>
-
-      <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
-        <p style="font-size: 12px; color: #6b7280; text-align: center; margin: 0 0 12px 0;">
-          📱 <strong>Tip:</strong> Add FRCC Golf Games to your home screen for quick access.
-          <a href="${siteUrl}/install" style="color: #0d9488; text-decoration: underline;">Learn how →</a>
-        </p>
-        <p style="font-size: 12px; color: #9ca3af; text-align: center; margin: 0;">
-          FRCC Golf Games<br>
-          Fairbanks Ranch Country Club
-        </p>
-      </div>
-    </div>
-  `;
-}
-
-/** Convert plain text body to HTML paragraphs */
-function bodyToHtml(text: string) {
-  return text
-    .split("\n")
-    .map(
-      (line: string) =>
-        `<p style="color: #374151; margin: 0 0 12px 0;">${line}</p>`
-    )
-    .join("");
-}
-
 export async function sendTestEmail(
   eventId: string,
   template: EmailTemplate,
   subject: string,
-  body: string
+  body: string,
+  scheduleId?: string
 ) {
   const { supabase, profile, adminEvents } = await requireAdmin();
   if (!hasEventAccess(profile, adminEvents, eventId)) {
@@ -90,6 +52,9 @@ export async function sendTestEmail(
     return { error: "Subject and body are required" };
   }
 
+  const variableError = validateForSend(subject, body);
+  if (variableError) return { error: variableError };
+
   const siteUrl = getSiteUrl();
 
   const { data: event } = await supabase
@@ -100,15 +65,24 @@ export async function sendTestEmail(
 
   if (!event) return { error: "Event not found" };
 
+  // Fill template variables as the admin would see them
+  const values: TemplateValues = {
+    ...(scheduleId ? await loadGameTemplateValues(supabase, scheduleId) : {}),
+    first_name: profile.first_name || "Admin",
+    event_name: event.name,
+    rsvp_link: `${siteUrl}/home`,
+  };
+  const testSubject = renderTemplate(subject, values);
+
   // Replace [FIRST_NAME] with the admin's own name
-  const personalizedBody = body.replace(/\[FIRST_NAME\]/g, profile.first_name || "Admin");
+  const personalizedBody = renderTemplate(body, values).replace(/\[FIRST_NAME\]/g, profile.first_name || "Admin");
   const html = bodyToHtml(personalizedBody);
 
   const isProfileMode = template === "complete_profile";
   const ctaUrl = isProfileMode ? `${siteUrl}/profile` : `${siteUrl}/home`;
   const ctaLabel = isProfileMode ? "Complete Your Profile" : "View RSVP & Respond";
 
-  const emailHtml = buildEmailHtml(
+  const emailHtml = buildCustomEmailHtml(
     event.name,
     html,
     ctaUrl,
@@ -120,7 +94,7 @@ export async function sendTestEmail(
   try {
     const result = await sendEmail({
       to: profile.email,
-      subject: `[TEST] ${subject}`,
+      subject: `[TEST] ${testSubject}`,
       html: emailHtml,
     });
 
@@ -152,125 +126,25 @@ export async function sendTargetedEmail(
     return { error: "Subject and body are required" };
   }
 
-  const siteUrl = getSiteUrl();
-
-  // Get the event for reply-to setup
-  const { data: event } = await supabase
-    .from("events")
-    .select("id, name")
-    .eq("id", eventId)
-    .single();
-
-  if (!event) return { error: "Event not found" };
-
-  // Get the schedule for game date
-  const { data: schedule } = await supabase
-    .from("event_schedules")
-    .select("id, game_date")
-    .eq("id", scheduleId)
-    .single();
-
-  const formattedDate = schedule ? formatGameDate(schedule.game_date) : null;
-
-  // Get primary admin for reply-to
-  const { data: eventAdmins } = await supabase
-    .from("event_admins")
-    .select("role, profile:profiles(email)")
-    .eq("event_id", eventId);
-
-  const primaryAdmin = eventAdmins?.find(
-    (a: Record<string, unknown>) => a.role === "primary"
-  );
-  const replyTo = (primaryAdmin?.profile as unknown as { email: string } | null)?.email;
-
-  // Get recipients based on target — now including token for RSVP links
-  let statusFilter: string[];
-  switch (target) {
-    case "in":
-      statusFilter = ["in"];
-      break;
-    case "out":
-      statusFilter = ["out"];
-      break;
-    case "not_sure_no_response":
-      statusFilter = ["not_sure", "no_response"];
-      break;
-    case "waitlisted":
-      statusFilter = ["waitlisted"];
-      break;
-    case "everyone":
-      statusFilter = ["in", "out", "not_sure", "no_response", "waitlisted"];
-      break;
-    default:
-      return { error: "Invalid target audience" };
-  }
-
-  const { data: rsvps } = await supabase
-    .from("rsvps")
-    .select("token, status, profile:profiles(email, first_name)")
-    .eq("schedule_id", scheduleId)
-    .in("status", statusFilter);
-
-  if (!rsvps || rsvps.length === 0) {
-    return { error: "No recipients found for this target audience" };
-  }
-
-  const validRsvps = rsvps.filter((r: Record<string, unknown>) => {
-    const p = r.profile as { email: string; first_name: string } | null;
-    return !!p?.email;
-  });
-
-  if (validRsvps.length === 0) {
-    return { error: "No valid email addresses found" };
-  }
-
-  const bHtml = bodyToHtml(body);
+  const variableError = validateForSend(subject, body);
+  if (variableError) return { error: variableError };
 
   try {
-    // Send individually so each golfer gets their personalized RSVP link
-    let sentCount = 0;
-    for (const rsvp of validRsvps) {
-      const rsvpProfile = rsvp.profile as unknown as {
-        email: string;
-        first_name: string;
-      };
-      const token = rsvp.token as string;
-      const rsvpUrl = `${siteUrl}/rsvp/${token}`;
-
-      const emailHtml = buildEmailHtml(
-        event.name,
-        bHtml,
-        rsvpUrl,
-        "View RSVP &amp; Respond",
-        siteUrl,
-        formattedDate || undefined
-      );
-
-      const result = await sendEmail({
-        to: rsvpProfile.email,
-        replyTo: replyTo || undefined,
-        subject,
-        html: emailHtml,
-      });
-      if (result.success) sentCount++;
-      await rateLimitDelay();
-    }
-
-    // Log to email_log
-    await supabase.from("email_log").insert({
-      event_id: eventId,
-      schedule_id: scheduleId,
-      email_type: "custom",
+    const result = await sendCustomEmailToSchedule(supabase, {
+      eventId,
+      scheduleId,
+      target,
       subject,
-      recipient_count: sentCount,
-      sent_by: profile.id,
+      body,
+      sentBy: profile.id,
     });
+    if ("error" in result) return { error: result.error };
 
     revalidatePath(`/admin/events/${eventId}/email/compose`);
 
     return {
       success: true,
-      recipientCount: sentCount,
+      recipientCount: result.recipientCount,
     };
   } catch (err) {
     console.error("Failed to send targeted email:", err);
@@ -299,6 +173,9 @@ export async function sendProfileCompletionEmail(
     return { error: "Select at least one profile field" };
   }
 
+  const variableError = validateForSend(subject, body);
+  if (variableError) return { error: variableError };
+
   const siteUrl = getSiteUrl();
 
   const { data: event } = await supabase
@@ -309,15 +186,7 @@ export async function sendProfileCompletionEmail(
 
   if (!event) return { error: "Event not found" };
 
-  const { data: eventAdmins } = await supabase
-    .from("event_admins")
-    .select("role, profile:profiles(email)")
-    .eq("event_id", eventId);
-
-  const primaryAdmin = eventAdmins?.find(
-    (a: Record<string, unknown>) => a.role === "primary"
-  );
-  const replyTo = (primaryAdmin?.profile as unknown as { email: string } | null)?.email;
+  const replyTo = await getPrimaryAdminEmail(supabase, eventId);
 
   // Fetch all active subscribers with profile data
   const { data: subscriptions } = await supabase
@@ -382,10 +251,11 @@ export async function sendProfileCompletionEmail(
       const p = sub.profile as unknown as ProfileRow;
 
       // Replace [FIRST_NAME] with the golfer's actual first name
-      const personalizedBody = body.replace(/\[FIRST_NAME\]/g, p.first_name || "");
+      const values: TemplateValues = { first_name: p.first_name || "", event_name: event.name };
+      const personalizedBody = renderTemplate(body, values).replace(/\[FIRST_NAME\]/g, p.first_name || "");
       const bHtml = bodyToHtml(personalizedBody);
 
-      const emailHtml = buildEmailHtml(
+      const emailHtml = buildCustomEmailHtml(
         event.name,
         bHtml,
         profileUrl,
@@ -396,7 +266,7 @@ export async function sendProfileCompletionEmail(
       const result = await sendEmail({
         to: p.email,
         replyTo: replyTo || undefined,
-        subject,
+        subject: renderTemplate(subject, values),
         html: emailHtml,
       });
       if (result.success) sentCount++;
@@ -422,3 +292,164 @@ export async function sendProfileCompletionEmail(
     };
   }
 }
+
+// ============================================================
+// Scheduled & Recurring Emails
+// ============================================================
+
+export interface ScheduledEmailInput {
+  target: EmailTarget;
+  subject: string;
+  body: string;
+  recurrence: ScheduledEmailRecurrence;
+  /** Game week (once only) */
+  scheduleId?: string;
+  /** YYYY-MM-DD Pacific (once only) */
+  sendDate?: string;
+  /** Day of week 0=Sun..6=Sat before the game (weekly only) */
+  sendDay?: number;
+  sendTime: string;
+  sendCondition: ScheduledEmailCondition;
+}
+
+/** Queue a custom email (scheduledEmailId omitted) or edit a queued one */
+export async function saveScheduledEmail(
+  eventId: string,
+  input: ScheduledEmailInput,
+  scheduledEmailId?: string
+) {
+  const { supabase, profile, adminEvents } = await requireAdmin();
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    return { error: "Not authorized for this event" };
+  }
+
+  if (!input.subject.trim() || !input.body.trim()) {
+    return { error: "Subject and body are required" };
+  }
+
+  const variableError = validateForSend(input.subject, input.body);
+  if (variableError) return { error: variableError };
+
+  if (!EMAIL_TARGET_STATUSES[input.target]) {
+    return { error: "Invalid target audience" };
+  }
+  if (!SCHEDULED_SEND_TIMES.includes(input.sendTime)) {
+    return { error: "Choose one of the available send times" };
+  }
+
+  const { data: event } = await supabase
+    .from("events")
+    .select("id, day_of_week, min_players")
+    .eq("id", eventId)
+    .single();
+
+  if (!event) return { error: "Event not found" };
+
+  if (input.sendCondition === "below_min_players" && !event.min_players) {
+    return { error: "Set Minimum Players in event settings to use this condition" };
+  }
+
+  const row: Record<string, unknown> = {
+    event_id: eventId,
+    target: input.target,
+    subject: input.subject.trim(),
+    body: input.body.trim(),
+    recurrence: input.recurrence,
+    send_time: input.sendTime,
+    send_condition: input.sendCondition,
+  };
+
+  if (input.recurrence === "once") {
+    if (!input.scheduleId || !input.sendDate || !/^\d{4}-\d{2}-\d{2}$/.test(input.sendDate)) {
+      return { error: "Choose a game week and send date" };
+    }
+
+    const { data: schedule } = await supabase
+      .from("event_schedules")
+      .select("id, game_date")
+      .eq("id", input.scheduleId)
+      .eq("event_id", eventId)
+      .single();
+
+    if (!schedule) return { error: "Game not found" };
+    if (input.sendDate > schedule.game_date) {
+      return { error: "Send date must be on or before the game date" };
+    }
+    if (isPastSendWindow(input.sendDate, input.sendTime)) {
+      return { error: "That send time has already passed" };
+    }
+
+    row.schedule_id = schedule.id;
+    row.send_date = input.sendDate;
+    row.send_day_offset = null;
+  } else if (input.recurrence === "weekly") {
+    if (input.sendDay === undefined || input.sendDay < 0 || input.sendDay > 6) {
+      return { error: "Choose a send day" };
+    }
+
+    // Send day must be on or before game day
+    let offset = input.sendDay - event.day_of_week;
+    if (offset > 0) offset -= 7;
+
+    row.schedule_id = null;
+    row.send_date = null;
+    row.send_day_offset = offset;
+  } else {
+    return { error: "Invalid schedule" };
+  }
+
+  try {
+    if (scheduledEmailId) {
+      // Only queued emails can be edited — guard against a concurrent send
+      const { data: updated, error } = await supabase
+        .from("scheduled_emails")
+        .update(row)
+        .eq("id", scheduledEmailId)
+        .eq("event_id", eventId)
+        .eq("status", "scheduled")
+        .select("id");
+      if (error) throw error;
+      if (!updated || updated.length === 0) {
+        return { error: "This email has already been sent or cancelled" };
+      }
+    } else {
+      const { error } = await supabase
+        .from("scheduled_emails")
+        .insert({ ...row, created_by: profile.id });
+      if (error) throw error;
+    }
+
+    revalidatePath(`/admin/events/${eventId}/email/compose`);
+    return { success: true };
+  } catch (err) {
+    console.error("Save scheduled email error:", err);
+    return { error: "Failed to schedule email" };
+  }
+}
+
+export async function cancelScheduledEmail(eventId: string, scheduledEmailId: string) {
+  const { supabase, profile, adminEvents } = await requireAdmin();
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    return { error: "Not authorized for this event" };
+  }
+
+  try {
+    const { data: updated, error } = await supabase
+      .from("scheduled_emails")
+      .update({ status: "cancelled" })
+      .eq("id", scheduledEmailId)
+      .eq("event_id", eventId)
+      .eq("status", "scheduled")
+      .select("id");
+    if (error) throw error;
+    if (!updated || updated.length === 0) {
+      return { error: "This email has already been sent or cancelled" };
+    }
+
+    revalidatePath(`/admin/events/${eventId}/email/compose`);
+    return { success: true };
+  } catch (err) {
+    console.error("Cancel scheduled email error:", err);
+    return { error: "Failed to cancel scheduled email" };
+  }
+}
@@ -5,15 +5,22 @@ import {
   sendTargetedEmail,
   sendProfileCompletionEmail,
   sendTestEmail,
+  saveScheduledEmail,
   type EmailTarget,
   type EmailTemplate,
   type ProfileField,
 } from "./actions";
 import { formatGameDate, formatGameDateShort } from "@/lib/format";
+import { validateForSend } from "@/lib/email-template-library";
+import type { ScheduledEmail, ScheduledEmailRecurrence } from "@/lib/scheduled-emails";
+import type { SavedEmailTemplate } from "@/types/events";
+import { ScheduledEmailList } from "./scheduled-email-list";
+import { TemplatePreview, TemplateVariableHelp } from "../templates/template-manager";
 
 interface Schedule {
   id: string;
   gameDate: string;
+  openSpots: number;
 }
 
 const TEMPLATES: {
@@ -54,6 +61,35 @@ const TEMPLATES: {
   },
 ];
 
+// Must match the cron slots in vercel.json — emails fire ~15 min after these times.
+// See components.tsx in event settings for the full mapping.
+const TIME_OPTIONS = [
+  { value: "04:45", label: "4:45 AM" },
+  { value: "05:45", label: "5:45 AM" },
+  { value: "10:45", label: "10:45 AM" },
+  { value: "11:45", label: "11:45 AM" },
+  { value: "16:45", label: "4:45 PM" },
+  { value: "17:45", label: "5:45 PM" },
+];
+
+const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+type SendMode = "now" | ScheduledEmailRecurrence;
+
+const SEND_MODE_OPTIONS: { key: SendMode; label: string }[] = [
+  { key: "now", label: "Send Now" },
+  { key: "once", label: "Send Later" },
+  { key: "weekly", label: "Every Week" },
+];
+
 const PROFILE_FIELDS: {
   key: ProfileField;
   label: string;
@@ -111,10 +147,24 @@ const TARGET_OPTIONS: {
 export function EmailComposerForm({
   eventId,
   eventName,
+  adminFirstName,
+  siteUrl,
+  savedTemplates,
+  scheduledEmails,
+  gameDayOfWeek,
+  minPlayers,
+  today,
   schedules,
 }: {
   eventId: string;
   eventName: string;
+  adminFirstName: string;
+  siteUrl: string;
+  savedTemplates: SavedEmailTemplate[];
+  scheduledEmails: ScheduledEmail[];
+  gameDayOfWeek: number;
+  minPlayers: number | null;
+  today: string;
   schedules: Schedule[];
 }) {
   const [isPending, startTransition] = useTransition();
@@ -128,8 +178,15 @@ export function EmailComposerForm({
     "ghin",
     "playing_partners",
   ]);
+  const [savedTemplateId, setSavedTemplateId] = useState("");
   const [subject, setSubject] = useState("");
   const [body, setBody] = useState("");
+  const [sendMode, setSendMode] = useState<SendMode>("now");
+  const [sendDate, setSendDate] = useState(today);
+  const [sendDay, setSendDay] = useState((gameDayOfWeek + 5) % 7);
+  const [sendTime, setSendTime] = useState("16:45");
+  const [onlyBelowMin, setOnlyBelowMin] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [isSendingTest, setIsSendingTest] = useState(false);
   const [testResult, setTestResult] = useState<{
     success?: boolean;
@@ -140,14 +197,20 @@ export function EmailComposerForm({
     success?: boolean;
     error?: string;
     recipientCount?: number;
+    scheduled?: boolean;
   } | null>(null);
 
   const isProfileMode = template === "complete_profile";
-  const selectedDate = schedules.find((s) => s.id === selectedSchedule)?.gameDate;
+  const isWeekly = !isProfileMode && sendMode === "weekly";
+  const selected = schedules.find((s) => s.id === selectedSchedule);
+  const selectedDate = selected?.gameDate;
   const formattedDate = selectedDate ? formatGameDate(selectedDate) : "";
+  const variableError = validateForSend(subject, body);
+  const usesVariables = /\{\{/.test(subject + body);
 
   const applyTemplate = (templateKey: EmailTemplate) => {
     setTemplate(templateKey);
+    setSavedTemplateId("");
     setResult(null);
     const tmpl = TEMPLATES.find((t) => t.key === templateKey);
     if (!tmpl || templateKey === "custom") return;
@@ -164,6 +227,45 @@ export function EmailComposerForm({
     );
   };
 
+  // Saved templates keep their {{variables}} — they're filled per recipient on send
+  const loadSavedTemplate = (templateId: string) => {
+    setSavedTemplateId(templateId);
+    const saved = savedTemplates.find((t) => t.id === templateId);
+    if (!saved) return;
+    setTemplate("custom");
+    setResult(null);
+    setSubject(saved.subject);
+    setBody(saved.body);
+  };
+
+  // Load a queued email back into the composer for editing
+  const editScheduledEmail = (email: ScheduledEmail) => {
+    setTemplate("custom");
+    setSavedTemplateId("");
+    setResult(null);
+    setEditingId(email.id);
+    setSubject(email.subject);
+    setBody(email.body);
+    setTarget(email.target);
+    setSendMode(email.recurrence);
+    setSendTime(email.send_time.slice(0, 5));
+    setOnlyBelowMin(email.send_condition === "below_min_players");
+    if (email.recurrence === "once") {
+      if (email.schedule_id) setSelectedSchedule(email.schedule_id);
+      if (email.send_date) setSendDate(email.send_date);
+    } else {
+      setSendDay((((gameDayOfWeek + (email.send_day_offset ?? 0)) % 7) + 7) % 7);
+    }
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setSendMode("now");
+    setSubject("");
+    setBody("");
+  };
+
   const toggleProfileField = (field: ProfileField) => {
     setProfileFields((prev) =>
       prev.includes(field) ? prev.filter((f) => f !== field) : [...prev, field]
@@ -175,7 +277,13 @@ export function EmailComposerForm({
     setIsSendingTest(true);
     setTestResult(null);
     try {
-      const res = await sendTestEmail(eventId, template, subject, body);
+      const res = await sendTestEmail(
+        eventId,
+        template,
+        subject,
+        body,
+        isProfileMode ? undefined : selectedSchedule || undefined
+      );
       setTestResult(res);
     } finally {
       setIsSendingTest(false);
@@ -197,6 +305,31 @@ export function EmailComposerForm({
         );
         setResult(res);
       });
+    } else if (sendMode !== "now") {
+      if (sendMode === "once" && !selectedSchedule) return;
+      startTransition(async () => {
+        const res = await saveScheduledEmail(
+          eventId,
+          {
+            target,
+            subject,
+            body,
+            recurrence: sendMode,
+            scheduleId: sendMode === "once" ? selectedSchedule : undefined,
+            sendDate: sendMode === "once" ? sendDate : undefined,
+            sendDay: sendMode === "weekly" ? sendDay : undefined,
+            sendTime,
+            sendCondition: onlyBelowMin ? "below_min_players" : "always",
+          },
+          editingId || undefined
+        );
+        setResult(res.error ? res : { success: true, scheduled: true });
+        if (res.success) {
+          setEditingId(null);
+          setSubject("");
+          setBody("");
+        }
+      });
     } else {
       if (!selectedSchedule) return;
       startTransition(async () => {
@@ -216,7 +349,14 @@ export function EmailComposerForm({
     !isPending &&
     !!subject.trim() &&
     !!body.trim() &&
-    (isProfileMode ? profileFields.length > 0 : !!selectedSchedule);
+    !variableError &&
+    (isProfileMode ? profileFields.length > 0 : isWeekly || !!selectedSchedule);
+
+  const sendLabel = editingId
+    ? "Save Changes"
+    : !isProfileMode && sendMode !== "now"
+      ? "Schedule Email"
+      : "Send Email";
 
   return (
     <div className="space-y-6">
@@ -224,11 +364,28 @@ export function EmailComposerForm({
       {result?.success && (
         <div className="rounded-lg border border-teal-200 bg-navy-50 p-4">
           <p className="text-sm font-medium text-teal-600">
-            Email sent to {result.recipientCount} recipient
-            {result.recipientCount !== 1 ? "s" : ""}!
+            {result.scheduled ? (
+              "Email scheduled — see Scheduled Emails below."
+            ) : (
+              <>
+                Email sent to {result.recipientCount} recipient
+                {result.recipientCount !== 1 ? "s" : ""}!
+              </>
+            )}
           </p>
         </div>
       )}
+      {editingId && (
+        <div className="flex items-center justify-between rounded-lg border border-amber-200 bg-amber-50 p-4">
+          <p className="text-sm text-amber-800">Editing a scheduled email.</p>
+          <button
+            onClick={stopEditing}
+            className="text-sm font-medium text-amber-800 underline hover:text-amber-900"
+          >
+            Stop editing
+          </button>
+        </div>
+      )}
       {result?.error && (
         <div className="rounded-lg border border-red-200 bg-red-50 p-4">
           <p className="text-sm text-red-700">{result.error}</p>
@@ -255,10 +412,30 @@ export function EmailComposerForm({
             </button>
           ))}
         </div>
+        {savedTemplates.length > 0 && (
+          <div className="mt-4">
+            <label className="block text-xs font-medium text-gray-500">
+              Or load a saved template
+            </label>
+            <select
+              value={savedTemplateId}
+              onChange={(e) => loadSavedTemplate(e.target.value)}
+              className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm"
+            >
+              <option value="">Select a template...</option>
+              {savedTemplates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                  {t.event_id === null ? " (global)" : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
-      {/* Step 2a: Game Week (standard templates) */}
-      {!isProfileMode && (
+      {/* Step 2a: Game Week (standard templates; weekly emails use each upcoming game) */}
+      {!isProfileMode && !isWeekly && (
         <div className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
           <label className="block text-sm font-semibold text-gray-700">
             2. Select Game Week
@@ -404,9 +581,133 @@ export function EmailComposerForm({
               className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm"
             />
           </div>
+
+          {!isProfileMode && <TemplateVariableHelp />}
+
+          {usesVariables && (
+            <TemplatePreview
+              subject={subject}
+              body={body}
+              values={{
+                first_name: adminFirstName,
+                event_name: eventName,
+                ...(isProfileMode
+                  ? {}
+                  : {
+                      game_date: formattedDate || undefined,
+                      open_spots: selected ? String(selected.openSpots) : undefined,
+                      rsvp_link: `${siteUrl}/rsvp/…`,
+                    }),
+              }}
+            />
+          )}
         </div>
       </div>
 
+      {/* Step 5: When to Send (standard templates only) */}
+      {!isProfileMode && (
+        <div className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
+          <label className="block text-sm font-semibold text-gray-700">
+            5. When to Send
+          </label>
+          <div className="mt-3 grid grid-cols-3 gap-2">
+            {SEND_MODE_OPTIONS.map((opt) => (
+              <button
+                key={opt.key}
+                type="button"
+                disabled={!!editingId && opt.key === "now"}
+                onClick={() => setSendMode(opt.key)}
+                className={`rounded-lg border px-3 py-2 text-sm font-medium transition disabled:opacity-50 ${
+                  sendMode === opt.key
+                    ? "border-teal-500 bg-teal-50 text-teal-700"
+                    : "border-gray-200 bg-white text-gray-600 hover:bg-gray-50"
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+
+          {sendMode !== "now" && (
+            <div className="mt-4 space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                {sendMode === "once" ? (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500">
+                      Date
+                    </label>
+                    <input
+                      type="date"
+                      value={sendDate}
+                      min={today}
+                      max={selectedDate}
+                      onChange={(e) => setSendDate(e.target.value)}
+                      className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm"
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500">
+                      Day (each game week)
+                    </label>
+                    <select
+                      value={sendDay}
+                      onChange={(e) => setSendDay(parseInt(e.target.value))}
+                      className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm"
+                    >
+                      {DAY_NAMES.map((name, i) => (
+                        <option key={i} value={i}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-xs font-medium text-gray-500">
+                    Time (Pacific)
+                  </label>
+                  <select
+                    value={sendTime}
+                    onChange={(e) => setSendTime(e.target.value)}
+                    className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm"
+                  >
+                    {TIME_OPTIONS.map((opt) => (
+                      <option key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <label className="flex cursor-pointer items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={onlyBelowMin}
+                  disabled={!minPlayers}
+                  onChange={(e) => setOnlyBelowMin(e.target.checked)}
+                  className="mt-0.5 text-teal-600 focus:ring-teal-500"
+                />
+                <span className="text-sm text-gray-700">
+                  Only send if fewer than {minPlayers || "the minimum"} golfers
+                  are confirmed
+                  {!minPlayers && (
+                    <span className="block text-xs text-gray-500">
+                      Set Minimum Players in event settings to use this.
+                    </span>
+                  )}
+                </span>
+              </label>
+
+              <p className="text-xs text-gray-500">
+                Emails go out within about 15 minutes after the selected time.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Test Result */}
       {testResult?.success && (
         <div className="rounded-lg border border-blue-200 bg-blue-50 p-4">
@@ -425,7 +726,7 @@ export function EmailComposerForm({
       <div className="flex items-center gap-3">
         <button
           onClick={handleSendTest}
-          disabled={!subject.trim() || !body.trim() || isSendingTest || isPending}
+          disabled={!subject.trim() || !body.trim() || !!variableError || isSendingTest || isPending}
           className="rounded-lg border border-gray-300 px-4 py-2.5 text-sm font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-50"
         >
           {isSendingTest ? "Sending..." : "Send Test to Me"}
@@ -436,9 +737,18 @@ export function EmailComposerForm({
           disabled={!canSend}
           className="rounded-lg bg-teal-600 px-6 py-2.5 text-sm font-medium text-white hover:bg-teal-500 disabled:opacity-50"
         >
-          {isPending ? "Sending..." : "Send Email"}
+          {isPending ? "Sending..." : sendLabel}
         </button>
       </div>
+
+      <ScheduledEmailList
+        eventId={eventId}
+        scheduledEmails={scheduledEmails}
+        schedules={schedules}
+        gameDayOfWeek={gameDayOfWeek}
+        editingId={editingId}
+        onEdit={editScheduledEmail}
+      />
     </div>
   );
 }
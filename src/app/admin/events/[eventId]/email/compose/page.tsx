@@ -4,6 +4,9 @@ import Link from "next/link";
 import { Breadcrumbs } from "@/components/breadcrumbs";
 import { EmailComposerForm } from "./email-composer-form";
 import { getTodayPacific } from "@/lib/timezone";
+import { getSiteUrl } from "@/lib/format";
+import type { SavedEmailTemplate } from "@/types/events";
+import type { ScheduledEmail } from "@/lib/scheduled-emails";
 
 export default async function EmailComposerPage({
   params,
@@ -20,7 +23,7 @@ export default async function EmailComposerPage({
   // Get event info
   const { data: event } = await supabase
     .from("events")
-    .select("id, name, day_of_week")
+    .select("id, name, day_of_week, default_capacity, min_players")
     .eq("id", eventId)
     .single();
 
@@ -30,13 +33,44 @@ export default async function EmailComposerPage({
   const today = getTodayPacific();
   const { data: schedules } = await supabase
     .from("event_schedules")
-    .select("id, game_date, status")
+    .select("id, game_date, status, capacity")
     .eq("event_id", eventId)
     .gte("game_date", today)
     .eq("status", "scheduled")
     .order("game_date", { ascending: true })
     .limit(8);
 
+  // Confirmed counts for the {{open_spots}} preview
+  const scheduleIds = (schedules || []).map((s) => s.id);
+  const { data: confirmed } = scheduleIds.length
+    ? await supabase
+        .from("rsvps")
+        .select("schedule_id")
+        .in("schedule_id", scheduleIds)
+        .eq("status", "in")
+    : { data: [] };
+
+  const inCounts = new Map<string, number>();
+  for (const r of confirmed || []) {
+    inCounts.set(r.schedule_id, (inCounts.get(r.schedule_id) || 0) + 1);
+  }
+
+  // Saved templates: global plus this event's own
+  const { data: templates } = await supabase
+    .from("email_templates")
+    .select("*")
+    .or(`event_id.is.null,event_id.eq.${eventId}`)
+    .eq("is_active", true)
+    .order("name", { ascending: true });
+
+  // Queued emails plus the most recent finished ones
+  const { data: scheduledEmails } = await supabase
+    .from("scheduled_emails")
+    .select("*")
+    .eq("event_id", eventId)
+    .order("created_at", { ascending: false })
+    .limit(20);
+
   return (
     <main className="min-h-screen px-4 py-8">
       <div className="mx-auto max-w-2xl">
@@ -51,16 +85,33 @@ export default async function EmailComposerPage({
           <h1 className="text-2xl font-serif uppercase tracking-wide font-bold text-navy-900">
             Send Email
           </h1>
+          <Link
+            href={`/admin/events/${eventId}/email/templates`}
+            className="mt-1 inline-block text-sm text-teal-600 hover:text-teal-500"
+          >
+            Manage email templates &rarr;
+          </Link>
         </div>
 
         <div className="mt-6">
           <EmailComposerForm
             eventId={eventId}
             eventName={event.name}
+            adminFirstName={profile.first_name || "Admin"}
+            siteUrl={getSiteUrl()}
+            savedTemplates={(templates || []) as SavedEmailTemplate[]}
+            scheduledEmails={(scheduledEmails || []) as ScheduledEmail[]}
+            gameDayOfWeek={event.day_of_week}
+            minPlayers={event.min_players}
+            today={today}
             schedules={
               (schedules || []).map((s) => ({
                 id: s.id,
                 gameDate: s.game_date,
+                openSpots: Math.max(
+                  0,
+                  (s.capacity || event.default_capacity || 16) - (inCounts.get(s.id) || 0)
+                ),
               }))
             }
           />
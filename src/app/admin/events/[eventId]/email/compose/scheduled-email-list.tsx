@@ -0,0 +1,162 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useToast } from "@/components/toast";
+import { ConfirmModal } from "@/components/confirm-modal";
+import { formatGameDateShort } from "@/lib/format";
+import type { ScheduledEmail, ScheduledEmailStatus } from "@/lib/scheduled-emails";
+import { cancelScheduledEmail } from "./actions";
+
+const TARGET_LABELS: Record<string, string> = {
+  in: "Confirmed (In)",
+  out: "Out",
+  not_sure_no_response: "Not Sure + No Response",
+  waitlisted: "Waitlisted",
+  everyone: "Everyone",
+};
+
+const STATUS_BADGES: Record<ScheduledEmailStatus, { label: string; className: string }> = {
+  scheduled: { label: "Scheduled", className: "bg-teal-100 text-teal-700" },
+  sent: { label: "Sent", className: "bg-gray-100 text-gray-600" },
+  skipped: { label: "Skipped", className: "bg-gray-100 text-gray-600" },
+  missed: { label: "Missed", className: "bg-amber-100 text-amber-700" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-700" },
+  cancelled: { label: "Cancelled", className: "bg-gray-100 text-gray-500" },
+};
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/** "16:45" or "16:45:00" → "4:45 PM" */
+function formatSlot(time: string): string {
+  const [h, m] = time.split(":").map(Number);
+  const ampm = h >= 12 ? "PM" : "AM";
+  const hour = h % 12 || 12;
+  return `${hour}:${String(m).padStart(2, "0")} ${ampm}`;
+}
+
+function describeTiming(
+  email: ScheduledEmail,
+  schedules: { id: string; gameDate: string }[],
+  gameDayOfWeek: number
+): string {
+  const time = formatSlot(email.send_time);
+  if (email.recurrence === "weekly") {
+    const day = (((gameDayOfWeek + (email.send_day_offset ?? 0)) % 7) + 7) % 7;
+    return `Every ${DAY_NAMES[day]} at ${time} PT`;
+  }
+  const game = schedules.find((s) => s.id === email.schedule_id);
+  const sendOn = email.send_date ? formatGameDateShort(email.send_date) : "";
+  return `${sendOn} at ${time} PT${game ? ` · for ${formatGameDateShort(game.gameDate)}` : ""}`;
+}
+
+export function ScheduledEmailList({
+  eventId,
+  scheduledEmails,
+  schedules,
+  gameDayOfWeek,
+  editingId,
+  onEdit,
+}: {
+  eventId: string;
+  scheduledEmails: ScheduledEmail[];
+  schedules: { id: string; gameDate: string }[];
+  gameDayOfWeek: number;
+  editingId: string | null;
+  onEdit: (email: ScheduledEmail) => void;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [cancelTarget, setCancelTarget] = useState<ScheduledEmail | null>(null);
+  const { showToast } = useToast();
+
+  if (scheduledEmails.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
+      <h2 className="text-sm font-semibold text-gray-700">Scheduled Emails</h2>
+      <ul className="mt-3 space-y-2">
+        {scheduledEmails.map((email) => {
+          const badge = STATUS_BADGES[email.status];
+          const isQueued = email.status === "scheduled";
+          return (
+            <li
+              key={email.id}
+              className={`rounded-md border px-3 py-2 ${
+                editingId === email.id
+                  ? "border-amber-300 bg-amber-50"
+                  : "border-gray-100 bg-gray-50"
+              }`}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-gray-900">
+                    {email.subject}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {describeTiming(email, schedules, gameDayOfWeek)} ·{" "}
+                    {TARGET_LABELS[email.target] || email.target}
+                    {email.send_condition === "below_min_players" &&
+                      " · only if below minimum"}
+                  </p>
+                  {email.last_result && (
+                    <p className="mt-0.5 text-xs text-gray-400">
+                      Last run: {email.last_result}
+                    </p>
+                  )}
+                </div>
+                <div className="flex shrink-0 items-center gap-3">
+                  <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${badge.className}`}>
+                    {email.recurrence === "weekly" && isQueued ? "Weekly" : badge.label}
+                  </span>
+                  {isQueued && (
+                    <>
+                      <button
+                        onClick={() => onEdit(email)}
+                        disabled={isPending}
+                        className="text-xs font-medium text-teal-600 hover:text-teal-500 disabled:opacity-50"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => setCancelTarget(email)}
+                        disabled={isPending}
+                        className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <ConfirmModal
+        open={cancelTarget !== null}
+        title="Cancel Scheduled Email"
+        message={`Cancel "${cancelTarget?.subject}"? It will not be sent${
+          cancelTarget?.recurrence === "weekly" ? " in future weeks" : ""
+        }.`}
+        confirmLabel="Cancel Email"
+        cancelLabel="Keep"
+        variant="danger"
+        loading={isPending}
+        onCancel={() => setCancelTarget(null)}
+        onConfirm={() => {
+          const target = cancelTarget;
+          setCancelTarget(null);
+          if (!target) return;
+          startTransition(async () => {
+            const result = await cancelScheduledEmail(eventId, target.id);
+            if (result.error) {
+              showToast(result.error, "error");
+            } else {
+              showToast("Scheduled email cancelled");
+            }
+          });
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use server";
+
+import { requireAdmin, hasEventAccess } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { validateTemplateText } from "@/lib/email-template-library";
+import type { EmailTemplateCategory } from "@/types/events";
+
+export type TemplateScope = "event" | "global";
+
+export interface EmailTemplateInput {
+  name: string;
+  subject: string;
+  body: string;
+  category: EmailTemplateCategory;
+  scope: TemplateScope;
+}
+
+const CATEGORIES: EmailTemplateCategory[] = [
+  "cancellation",
+  "extra_spots",
+  "weather",
+  "course_update",
+  "custom",
+];
+
+function revalidateTemplatePages(eventId: string) {
+  revalidatePath(`/admin/events/${eventId}/email/templates`);
+  revalidatePath(`/admin/events/${eventId}/email/compose`);
+}
+
+/**
+ * Auth for editing an existing template: global templates are super admin
+ * only; event templates must belong to this event.
+ */
+async function requireTemplateAccess(eventId: string, templateId: string) {
+  const { supabase, profile, adminEvents } = await requireAdmin();
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    return { error: "Not authorized for this event" } as const;
+  }
+
+  const { data: template } = await supabase
+    .from("email_templates")
+    .select("id, event_id")
+    .eq("id", templateId)
+    .single();
+
+  if (!template) return { error: "Template not found" } as const;
+
+  if (template.event_id === null ? !profile.is_super_admin : template.event_id !== eventId) {
+    return { error: "Not authorized to edit this template" } as const;
+  }
+
+  return { supabase, profile, template } as const;
+}
+
+/** Create a template (templateId omitted) or update an existing one */
+export async function saveEmailTemplate(
+  eventId: string,
+  input: EmailTemplateInput,
+  templateId?: string
+) {
+  const { supabase, profile, adminEvents } = await requireAdmin();
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    return { error: "Not authorized for this event" };
+  }
+
+  const name = input.name.trim();
+  const subject = input.subject.trim();
+  const body = input.body.trim();
+
+  if (!name || !subject || !body) {
+    return { error: "Name, subject and body are required" };
+  }
+  if (!CATEGORIES.includes(input.category)) {
+    return { error: "Invalid category" };
+  }
+  if (input.scope === "global" && !profile.is_super_admin) {
+    return { error: "Only super admins can manage global templates" };
+  }
+
+  const variableError = validateTemplateText(subject, body);
+  if (variableError) return { error: variableError };
+
+  const row = {
+    event_id: input.scope === "global" ? null : eventId,
+    name,
+    subject,
+    body,
+    category: input.category,
+  };
+
+  try {
+    if (templateId) {
+      const access = await requireTemplateAccess(eventId, templateId);
+      if ("error" in access) return { error: access.error };
+
+      const { error } = await supabase
+        .from("email_templates")
+        .update(row)
+        .eq("id", templateId);
+      if (error) throw error;
+
+      revalidateTemplatePages(eventId);
+      return { success: true, templateId };
+    }
+
+    const { data, error } = await supabase
+      .from("email_templates")
+      .insert(row)
+      .select("id")
+      .single();
+    if (error) throw error;
+
+    revalidateTemplatePages(eventId);
+    return { success: true, templateId: data.id as string };
+  } catch (error) {
+    console.error("Save email template error:", error);
+    return { error: "Failed to save template" };
+  }
+}
+
+/** Hide a template from the composer picker without deleting it */
+export async function setEmailTemplateActive(
+  eventId: string,
+  templateId: string,
+  isActive: boolean
+) {
+  const access = await requireTemplateAccess(eventId, templateId);
+  if ("error" in access) return { error: access.error };
+
+  try {
+    const { error } = await access.supabase
+      .from("email_templates")
+      .update({ is_active: isActive })
+      .eq("id", templateId);
+    if (error) throw error;
+
+    revalidateTemplatePages(eventId);
+    return { success: true };
+  } catch (error) {
+    console.error("Update email template error:", error);
+    return { error: "Failed to update template" };
+  }
+}
+
+export async function deleteEmailTemplate(eventId: string, templateId: string) {
+  const access = await requireTemplateAccess(eventId, templateId);
+  if ("error" in access) return { error: access.error };
+
+  try {
+    const { error } = await access.supabase
+      .from("email_templates")
+      .delete()
+      .eq("id", templateId);
+    if (error) throw error;
+
+    revalidateTemplatePages(eventId);
+    return { success: true };
+  } catch (error) {
+    console.error("Delete email template error:", error);
+    return { error: "Failed to delete template" };
+  }
+}
@@ -0,0 +1,91 @@
+import { requireAdmin, hasEventAccess } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { Breadcrumbs } from "@/components/breadcrumbs";
+import { formatGameDate, getSiteUrl } from "@/lib/format";
+import { getTodayPacific } from "@/lib/timezone";
+import type { SavedEmailTemplate } from "@/types/events";
+import { TemplateManager } from "./template-manager";
+
+export default async function EmailTemplatesPage({
+  params,
+}: {
+  params: Promise<{ eventId: string }>;
+}) {
+  const { eventId } = await params;
+  const { supabase, profile, adminEvents } = await requireAdmin();
+
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    redirect("/admin");
+  }
+
+  const { data: event } = await supabase
+    .from("events")
+    .select("id, name")
+    .eq("id", eventId)
+    .single();
+
+  if (!event) redirect("/admin");
+
+  // Global templates plus this event's own
+  const { data: templates } = await supabase
+    .from("email_templates")
+    .select("*")
+    .or(`event_id.is.null,event_id.eq.${eventId}`)
+    .order("name", { ascending: true });
+
+  // Next game supplies realistic preview values
+  const { data: nextGame } = await supabase
+    .from("event_schedules")
+    .select("game_date")
+    .eq("event_id", eventId)
+    .eq("status", "scheduled")
+    .gte("game_date", getTodayPacific())
+    .order("game_date", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  return (
+    <main className="min-h-screen px-4 py-8">
+      <div className="mx-auto max-w-2xl">
+        <div>
+          <Breadcrumbs
+            items={[
+              { label: "Admin", href: "/admin" },
+              { label: event.name, href: `/admin/events/${eventId}` },
+              { label: "Send Email", href: `/admin/events/${eventId}/email/compose` },
+              { label: "Templates" },
+            ]}
+          />
+          <h1 className="text-2xl font-serif uppercase tracking-wide font-bold text-navy-900">
+            Email Templates
+          </h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Saved messages you can load in the{" "}
+            <Link
+              href={`/admin/events/${eventId}/email/compose`}
+              className="text-teal-600 hover:text-teal-500"
+            >
+              email composer
+            </Link>
+            .
+          </p>
+        </div>
+
+        <div className="mt-6">
+          <TemplateManager
+            eventId={eventId}
+            templates={(templates || []) as SavedEmailTemplate[]}
+            isSuperAdmin={profile.is_super_admin}
+            sampleValues={{
+              first_name: profile.first_name || "Golfer",
+              event_name: event.name,
+              game_date: nextGame ? formatGameDate(nextGame.game_date) : undefined,
+              rsvp_link: `${getSiteUrl()}/rsvp/…`,
+            }}
+          />
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,393 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useToast } from "@/components/toast";
+import { ConfirmModal } from "@/components/confirm-modal";
+import {
+  FILL_IN_VARIABLES,
+  TEMPLATE_CATEGORY_LABELS,
+  TEMPLATE_VARIABLES,
+  findUnfilledVariables,
+  findUnknownVariables,
+  renderTemplate,
+  type TemplateValues,
+} from "@/lib/email-template-library";
+import type { EmailTemplateCategory, SavedEmailTemplate } from "@/types/events";
+import {
+  deleteEmailTemplate,
+  saveEmailTemplate,
+  setEmailTemplateActive,
+  type TemplateScope,
+} from "./actions";
+
+/** Rendered subject/body with warnings for unknown or unfilled variables */
+export function TemplatePreview({
+  subject,
+  body,
+  values,
+}: {
+  subject: string;
+  body: string;
+  values: TemplateValues;
+}) {
+  const unknown = findUnknownVariables(subject, body);
+  const unfilled = findUnfilledVariables(subject, body);
+
+  return (
+    <div className="space-y-2">
+      <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
+        <p className="text-xs font-medium uppercase tracking-wide text-gray-400">
+          Preview
+        </p>
+        <p className="mt-2 text-sm font-semibold text-gray-900">
+          {renderTemplate(subject, values) || (
+            <span className="text-gray-400">(no subject)</span>
+          )}
+        </p>
+        <div className="mt-2 space-y-2 text-sm text-gray-700">
+          {renderTemplate(body, values)
+            .split("\n")
+            .map((line, i) => (
+              <p key={i} className="min-h-[1em] break-words">
+                {line}
+              </p>
+            ))}
+        </div>
+      </div>
+      {unknown.length > 0 && (
+        <p className="text-xs text-red-600">
+          Unknown variable{unknown.length > 1 ? "s" : ""}:{" "}
+          {unknown.map((v) => `{{${v}}}`).join(", ")}
+        </p>
+      )}
+      {unfilled.length > 0 && (
+        <p className="text-xs text-amber-700">
+          Replace {unfilled.map((v) => `{{${v}}}`).join(", ")} with your own
+          text before sending.
+        </p>
+      )}
+    </div>
+  );
+}
+
+/** Reference list of supported variables */
+export function TemplateVariableHelp() {
+  return (
+    <div className="text-xs text-gray-500">
+      <p>
+        Filled in for each recipient:{" "}
+        {TEMPLATE_VARIABLES.map((v, i) => (
+          <span key={v.key}>
+            {i > 0 && ", "}
+            <code className="rounded bg-gray-100 px-1 font-mono" title={v.description}>
+              {`{{${v.key}}}`}
+            </code>
+          </span>
+        ))}
+      </p>
+      <p className="mt-1">
+        Blanks to fill in before sending:{" "}
+        {FILL_IN_VARIABLES.map((v, i) => (
+          <span key={v.key}>
+            {i > 0 && ", "}
+            <code className="rounded bg-gray-100 px-1 font-mono" title={v.description}>
+              {`{{${v.key}}}`}
+            </code>
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+}
+
+const EMPTY_FORM = {
+  name: "",
+  subject: "",
+  body: "",
+  category: "custom" as EmailTemplateCategory,
+  scope: "event" as TemplateScope,
+};
+
+export function TemplateManager({
+  eventId,
+  templates,
+  isSuperAdmin,
+  sampleValues,
+}: {
+  eventId: string;
+  templates: SavedEmailTemplate[];
+  isSuperAdmin: boolean;
+  sampleValues: TemplateValues;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const { showToast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<SavedEmailTemplate | null>(null);
+
+  const eventTemplates = templates.filter((t) => t.event_id !== null);
+  const globalTemplates = templates.filter((t) => t.event_id === null);
+
+  const canEdit = (t: SavedEmailTemplate) => t.event_id !== null || isSuperAdmin;
+
+  const openNew = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setError(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (t: SavedEmailTemplate) => {
+    setEditingId(t.id);
+    setForm({
+      name: t.name,
+      subject: t.subject,
+      body: t.body,
+      category: t.category,
+      scope: t.event_id === null ? "global" : "event",
+    });
+    setError(null);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await saveEmailTemplate(eventId, form, editingId || undefined);
+      if (result.error) {
+        setError(result.error);
+      } else {
+        showToast(editingId ? "Template updated" : "Template created");
+        closeForm();
+      }
+    });
+  };
+
+  const handleToggleActive = (t: SavedEmailTemplate) => {
+    startTransition(async () => {
+      const result = await setEmailTemplateActive(eventId, t.id, !t.is_active);
+      if (result.error) showToast(result.error, "error");
+    });
+  };
+
+  const renderList = (list: SavedEmailTemplate[], emptyText: string) =>
+    list.length === 0 ? (
+      <p className="text-sm text-gray-500">{emptyText}</p>
+    ) : (
+      <ul className="space-y-2">
+        {list.map((t) => (
+          <li
+            key={t.id}
+            className="flex items-start justify-between gap-3 rounded-md border border-gray-100 bg-gray-50 px-3 py-2"
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900">
+                {t.name}
+                {!t.is_active && (
+                  <span className="ml-2 rounded-full bg-gray-200 px-2 py-0.5 text-xs font-medium text-gray-600">
+                    Hidden
+                  </span>
+                )}
+              </p>
+              <p className="truncate text-xs text-gray-500">
+                {TEMPLATE_CATEGORY_LABELS[t.category]} — {t.subject}
+              </p>
+            </div>
+            {canEdit(t) && (
+              <div className="flex shrink-0 items-center gap-3">
+                <button
+                  onClick={() => openEdit(t)}
+                  disabled={isPending}
+                  className="text-xs font-medium text-teal-600 hover:text-teal-500 disabled:opacity-50"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleToggleActive(t)}
+                  disabled={isPending}
+                  className="text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                >
+                  {t.is_active ? "Hide" : "Show"}
+                </button>
+                <button
+                  onClick={() => setDeleteTarget(t)}
+                  disabled={isPending}
+                  className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    );
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-gray-700">This Event</h2>
+          {!showForm && (
+            <button
+              onClick={openNew}
+              className="text-sm font-medium text-teal-600 hover:text-teal-500"
+            >
+              + New Template
+            </button>
+          )}
+        </div>
+        <div className="mt-3">
+          {renderList(eventTemplates, "No templates for this event yet.")}
+        </div>
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
+        <h2 className="text-sm font-semibold text-gray-700">Global Templates</h2>
+        <p className="mt-1 text-xs text-gray-500">
+          Available to every event.
+          {!isSuperAdmin && " Only super admins can edit these."}
+        </p>
+        <div className="mt-3">
+          {renderList(globalTemplates, "No global templates.")}
+        </div>
+      </section>
+
+      {showForm && (
+        <section className="rounded-lg border border-teal-200 bg-white p-5 shadow-sm">
+          <h2 className="text-sm font-semibold text-gray-700">
+            {editingId ? "Edit Template" : "New Template"}
+          </h2>
+
+          <div className="mt-3 space-y-3">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-500">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Extra Spots Available"
+                  className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500">Category</label>
+                <select
+                  value={form.category}
+                  onChange={(e) =>
+                    setForm({ ...form, category: e.target.value as EmailTemplateCategory })
+                  }
+                  className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm"
+                >
+                  {(Object.keys(TEMPLATE_CATEGORY_LABELS) as EmailTemplateCategory[]).map((c) => (
+                    <option key={c} value={c}>
+                      {TEMPLATE_CATEGORY_LABELS[c]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {isSuperAdmin && (
+              <div className="grid grid-cols-2 gap-2">
+                {(["event", "global"] as TemplateScope[]).map((scope) => (
+                  <button
+                    key={scope}
+                    type="button"
+                    onClick={() => setForm({ ...form, scope })}
+                    className={`rounded-lg border px-3 py-2 text-sm font-medium transition ${
+                      form.scope === scope
+                        ? "border-teal-500 bg-teal-50 text-teal-700"
+                        : "border-gray-200 bg-white text-gray-600 hover:bg-gray-50"
+                    }`}
+                  >
+                    {scope === "event" ? "This event only" : "All events (global)"}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-xs font-medium text-gray-500">Subject</label>
+              <input
+                type="text"
+                value={form.subject}
+                onChange={(e) => setForm({ ...form, subject: e.target.value })}
+                placeholder="{{event_name}}: {{game_date}} — ..."
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-500">Body</label>
+              <textarea
+                value={form.body}
+                onChange={(e) => setForm({ ...form, body: e.target.value })}
+                rows={8}
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm"
+              />
+            </div>
+
+            <TemplateVariableHelp />
+
+            <TemplatePreview
+              subject={form.subject}
+              body={form.body}
+              values={sampleValues}
+            />
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleSave}
+                disabled={isPending || !form.name.trim() || !form.subject.trim() || !form.body.trim()}
+                className="rounded-md bg-teal-600 px-4 py-2 text-sm font-medium text-white hover:bg-teal-500 disabled:opacity-50"
+              >
+                {isPending ? "Saving..." : "Save Template"}
+              </button>
+              <button
+                onClick={closeForm}
+                className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </section>
+      )}
+
+      <ConfirmModal
+        open={deleteTarget !== null}
+        title="Delete Template"
+        message={`Delete "${deleteTarget?.name}"? This cannot be undone.`}
+        confirmLabel="Delete"
+        variant="danger"
+        loading={isPending}
+        onCancel={() => setDeleteTarget(null)}
+        onConfirm={() => {
+          const target = deleteTarget;
+          setDeleteTarget(null);
+          if (!target) return;
+          startTransition(async () => {
+            const result = await deleteEmailTemplate(eventId, target.id);
+            if (result.error) {
+              showToast(result.error, "error");
+            } else {
+              showToast("Template deleted");
+            }
+          });
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { formatDateTime } from "@/lib/format";
+import { DELIVERY_STATUS_LABELS, type EmailDeliveryStatus } from "@/lib/email-delivery";
+import {
+  DeliveryStatusBadge,
+  type EmailDeliveryRow,
+} from "@/components/email-delivery-history";
+
+const EMAIL_TYPE_LABELS: Record<string, string> = {
+  invite: "Invite",
+  reminder: "Reminder",
+  confirmation_golfer: "Golfer Confirmation",
+  confirmation_proshop: "Pro Shop Detail",
+  custom: "Custom Messages",
+  waitlist_promoted: "Waitlist Promotions",
+  waitlist_offer: "Waitlist Offers",
+};
+
+/** Statuses worth calling out in each group's summary line */
+const SUMMARY_STATUSES: EmailDeliveryStatus[] = [
+  "delivered",
+  "opened",
+  "delivery_delayed",
+  "bounced",
+  "complained",
+  "failed",
+];
+
+/**
+ * Per-recipient delivery status for one game, grouped by email type.
+ * Server component — rows come from email_deliveries for the schedule.
+ */
+export function DeliveryStatusSection({
+  deliveries,
+  namesByEmail,
+}: {
+  deliveries: EmailDeliveryRow[];
+  namesByEmail: Record<string, string>;
+}) {
+  const groups = new Map<string, EmailDeliveryRow[]>();
+  for (const d of deliveries) {
+    const key = d.email_type || "other";
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(d);
+  }
+
+  return (
+    <section className="mt-6">
+      <h2 className="text-lg font-semibold text-gray-700">Delivery Status</h2>
+      {deliveries.length === 0 ? (
+        <p className="mt-2 text-sm text-gray-500">
+          No emails sent for this game yet.
+        </p>
+      ) : (
+        <div className="mt-3 space-y-3">
+          {[...groups.entries()].map(([type, rows]) => {
+            const problems = rows.filter((r) =>
+              ["bounced", "complained", "failed"].includes(r.status)
+            ).length;
+            const counts = SUMMARY_STATUSES.map((status) => ({
+              status,
+              count: rows.filter((r) => r.status === status).length,
+            })).filter((c) => c.count > 0);
+
+            return (
+              <details
+                key={type}
+                open={problems > 0}
+                className="rounded-lg border border-gray-200 bg-white shadow-sm"
+              >
+                <summary className="flex cursor-pointer items-center justify-between gap-3 px-4 py-3">
+                  <span className="font-semibold text-gray-900">
+                    {EMAIL_TYPE_LABELS[type] || "Other"}
+                    <span className="ml-2 text-xs font-normal text-gray-500">
+                      {rows.length} recipient{rows.length === 1 ? "" : "s"}
+                    </span>
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {counts
+                      .map((c) => `${c.count} ${DELIVERY_STATUS_LABELS[c.status].toLowerCase()}`)
+                      .join(" · ")}
+                  </span>
+                </summary>
+                <ul className="divide-y divide-gray-100 border-t border-gray-100 px-4">
+                  {rows.map((d) => (
+                    <li key={d.id} className="flex items-start justify-between gap-3 py-2">
+                      <div className="min-w-0">
+                        <p className="truncate text-sm text-gray-900">
+                          {namesByEmail[d.recipient] || d.recipient}
+                        </p>
+                        <p className="truncate text-xs text-gray-400">
+                          {namesByEmail[d.recipient] ? `${d.recipient} · ` : ""}
+                          {formatDateTime(d.sent_at)}
+                        </p>
+                        {d.error_message && (
+                          <p className="text-xs text-red-600">{d.error_message}</p>
+                        )}
+                      </div>
+                      <DeliveryStatusBadge status={d.status} />
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
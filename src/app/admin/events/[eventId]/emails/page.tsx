@@ -2,9 +2,11 @@ import { requireAdmin, hasEventAccess } from "@/lib/auth";
 import { redirect, notFound } from "next/navigation";
 import Link from "next/link";
 import { Breadcrumbs } from "@/components/breadcrumbs";
-import { formatGameDate } from "@/lib/format";
+import { formatGameDate, formatFullName } from "@/lib/format";
 import { getTodayPacific, calculateSendDateString } from "@/lib/timezone";
 import { EmailStatusPanel } from "@/app/admin/rsvp/[scheduleId]/email-controls";
+import type { EmailDeliveryRow } from "@/components/email-delivery-history";
+import { DeliveryStatusSection } from "./delivery-status";
 
 export default async function EventEmailsPage({
   params,
@@ -116,6 +118,25 @@ export default async function EventEmailsPage({
     }
   }
 
+  // Per-recipient delivery status for this game
+  const { data: deliveries } = await supabase
+    .from("email_deliveries")
+    .select("id, recipient, subject, email_type, status, error_message, sent_at")
+    .eq("schedule_id", schedule.id)
+    .order("sent_at", { ascending: false });
+
+  // Golfer names for recipient rows (pro shop / CC recipients fall back to the address)
+  const { data: rsvpProfiles } = await supabase
+    .from("rsvps")
+    .select("profile:profiles(email, first_name, last_name)")
+    .eq("schedule_id", schedule.id);
+
+  const namesByEmail: Record<string, string> = {};
+  for (const r of rsvpProfiles || []) {
+    const p = r.profile as unknown as { email: string; first_name: string; last_name: string } | null;
+    if (p?.email) namesByEmail[p.email.toLowerCase()] = formatFullName(p.first_name, p.last_name);
+  }
+
   // Fetch email schedules for this event (all, not just enabled — we need enabled state)
   const { data: emailSchedules } = await supabase
     .from("email_schedules")
@@ -226,6 +247,11 @@ export default async function EventEmailsPage({
               </div>
             </section>
 
+            <DeliveryStatusSection
+              deliveries={(deliveries || []) as EmailDeliveryRow[]}
+              namesByEmail={namesByEmail}
+            />
+
             {/* Custom Email Composer */}
             <section className="mt-6">
               <Link
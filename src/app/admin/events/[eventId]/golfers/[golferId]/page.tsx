@@ -3,6 +3,11 @@ import { formatPhoneDisplay, formatDateTimeDateOnly } from "@/lib/format";
 import { notFound, redirect } from "next/navigation";
 import Link from "next/link";
 import { Breadcrumbs } from "@/components/breadcrumbs";
+import {
+  EmailBounceWarning,
+  EmailDeliveryHistory,
+  type EmailDeliveryRow,
+} from "@/components/email-delivery-history";
 import { EventRemoveGolferButton } from "./remove-golfer-button";
 import {
   ApproveButton,
@@ -60,6 +65,14 @@ export default async function EventGolferDetailPage({
     notFound();
   }
 
+  // Recent per-recipient deliveries (RLS limits event admins to their events)
+  const { data: deliveries } = await supabase
+    .from("email_deliveries")
+    .select("id, recipient, subject, email_type, status, error_message, sent_at")
+    .eq("recipient", golfer.email.toLowerCase())
+    .order("sent_at", { ascending: false })
+    .limit(10);
+
   const isPending = golfer.status === "pending_approval" || golfer.status === "pending_email";
 
   const statusLabel =
@@ -127,7 +140,9 @@ export default async function EventGolferDetailPage({
             <dl className="mt-4 space-y-2 text-sm">
               <div className="flex justify-between">
                 <dt className="text-gray-500">Email</dt>
-                <dd className="font-medium text-gray-900">{golfer.email}</dd>
+                <dd className={`font-medium ${golfer.email_bounced_at ? "text-red-700" : "text-gray-900"}`}>
+                  {golfer.email}
+                </dd>
               </div>
               <div className="flex justify-between">
                 <dt className="text-gray-500">Phone</dt>
@@ -181,6 +196,13 @@ export default async function EventGolferDetailPage({
                 </div>
               )}
             </dl>
+
+            {golfer.email_bounced_at && (
+              <EmailBounceWarning
+                bouncedAt={golfer.email_bounced_at}
+                reason={golfer.email_bounce_reason}
+              />
+            )}
           </div>
 
           {/* Event-Specific Actions */}
@@ -203,6 +225,10 @@ export default async function EventGolferDetailPage({
             </div>
           </div>
 
+          <EmailDeliveryHistory
+            deliveries={(deliveries || []) as EmailDeliveryRow[]}
+          />
+
           {/* Future RSVP History */}
           <div className="mt-4 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
             <h2 className="font-serif text-lg font-semibold uppercase tracking-wide text-navy-900">
@@ -13,6 +13,7 @@ import {
 import { JoinLinkSection } from "./settings/components";
 import { SendToPenaltyBoxForm, ActivePenaltiesAdmin } from "./penalty-box-admin";
 import { getActivePenalties, formatTimeServed, getEventAdmin } from "@/lib/penalty-box";
+import { getLeagueConfigByEventId } from "@/lib/league";
 
 export default async function EventDashboardPage({
   params,
@@ -180,6 +181,8 @@ export default async function EventDashboardPage({
   // Check if guest requests feature is enabled for this event
   const guestRequestsEnabled = event.allow_guest_requests;
 
+  const leagueConfig = await getLeagueConfigByEventId(eventId);
+
   // Penalty Box data (only fetch when enabled)
   let penaltyBoxData: {
     activePenalties: Awaited<ReturnType<typeof getActivePenalties>>;
@@ -620,6 +623,54 @@ export default async function EventDashboardPage({
                   <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
                 </svg>
               </Link>
+              {leagueConfig && (
+                <Link
+                  href={`/admin/events/${eventId}/scores`}
+                  className="flex items-center justify-between rounded-lg border border-gray-200 bg-white p-4 shadow-sm hover:border-teal-300 hover:shadow-md transition"
+                >
+                  <div>
+                    <h3 className="font-semibold text-gray-900">League Scores</h3>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Upload the Golf Genius export or enter weekly Stableford points
+                    </p>
+                  </div>
+                  <svg className="h-5 w-5 text-gray-400" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
+                  </svg>
+                </Link>
+              )}
+              {leagueConfig && (
+                <Link
+                  href={`/admin/events/${eventId}/payouts`}
+                  className="flex items-center justify-between rounded-lg border border-gray-200 bg-white p-4 shadow-sm hover:border-teal-300 hover:shadow-md transition"
+                >
+                  <div>
+                    <h3 className="font-semibold text-gray-900">Season Payouts</h3>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Calculate and post season prize money from the final standings
+                    </p>
+                  </div>
+                  <svg className="h-5 w-5 text-gray-400" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
+                  </svg>
+                </Link>
+              )}
+              {leagueConfig && (
+                <Link
+                  href={`/admin/events/${eventId}/side-games`}
+                  className="flex items-center justify-between rounded-lg border border-gray-200 bg-white p-4 shadow-sm hover:border-teal-300 hover:shadow-md transition"
+                >
+                  <div>
+                    <h3 className="font-semibold text-gray-900">Side Games</h3>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Record weekly buy-ins and winners, and post them to the money leaderboard
+                    </p>
+                  </div>
+                  <svg className="h-5 w-5 text-gray-400" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
+                  </svg>
+                </Link>
+              )}
             </div>
           </section>
         </div>
@@ -0,0 +1,96 @@
+"use server";
+
+import { requireAdmin, hasEventAccess } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import {
+  getLeagueConfigByEventId,
+  getLeagueScores,
+  getSubscribedGolfers,
+  buildLeaderboard,
+  calculateSeasonPayouts,
+  getSeasonPayoutDate,
+  getTieBreakOptions,
+} from "@/lib/league";
+
+/**
+ * Write a season's calculated payouts as season rows in
+ * league_money_scores, replacing any season rows already posted for it.
+ * Recalculated here from the season's standings — the preview is display only.
+ */
+export async function postSeasonPayouts(eventId: string, seasonId: string) {
+  const { profile, adminEvents } = await requireAdmin();
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    return { error: "Not authorized" };
+  }
+
+  try {
+    const config = await getLeagueConfigByEventId(eventId, seasonId);
+    if (!config) return { error: "League is not enabled for this event" };
+    // An unknown season id falls back to the current season — never post to that by mistake
+    if (config.season_id !== seasonId) return { error: "Season not found" };
+
+    const payoutDate = getSeasonPayoutDate(config);
+    if (!payoutDate) return { error: "Set the season dates before posting payouts" };
+
+    const [scores, golfers] = await Promise.all([
+      getLeagueScores(eventId, config.season_id),
+      getSubscribedGolfers(eventId),
+    ]);
+
+    const leaderboard = buildLeaderboard(
+      golfers,
+      scores,
+      config.best_n,
+      config.min_rounds_to_qualify,
+      0,
+      getTieBreakOptions(config)
+    );
+    const payouts = calculateSeasonPayouts(
+      leaderboard,
+      config.prize_pool_total,
+      config.payout_config
+    );
+
+    if (payouts.length === 0) {
+      return { error: "No payouts to post — check the prize pool and payout percentages" };
+    }
+
+    const supabase = createAdminClient();
+
+    // Delete and insert in one transaction (migration 056), so a failed or
+    // concurrent post never loses or duplicates the season's payout rows
+    const postedAt = new Date().toISOString();
+    const { error: postError } = await supabase.rpc("post_season_payouts", {
+      p_event_id: eventId,
+      p_season_id: config.season_id,
+      p_entered_by: profile.id,
+      p_rows: payouts.map((p) => ({
+        profile_id: p.profileId,
+        game_date: payoutDate,
+        amount: p.amount,
+        metadata: {
+          type: "season",
+          place: p.place,
+          tied: p.isTied,
+          percent: p.percent,
+          posted_at: postedAt,
+        },
+      })),
+    });
+    if (postError) throw postError;
+
+    const { data: event } = await supabase
+      .from("events")
+      .select("slug")
+      .eq("id", eventId)
+      .single();
+
+    revalidatePath(`/admin/events/${eventId}/payouts`);
+    if (event?.slug) revalidatePath(`/league/${event.slug}`);
+    return { success: true, posted: payouts.length };
+  } catch (error) {
+    console.error("Post season payouts error:", error);
+    return { error: "Failed to post season payouts" };
+  }
+}
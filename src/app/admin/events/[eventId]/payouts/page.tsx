@@ -0,0 +1,131 @@
+import { requireAdmin, hasEventAccess } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/server";
+import { redirect } from "next/navigation";
+import { Breadcrumbs } from "@/components/breadcrumbs";
+import {
+  getLeagueConfigByEventId,
+  getLeagueSeasons,
+  getLeagueScores,
+  getSeasonMoneyScores,
+  getSubscribedGolfers,
+  computeSeasonWeeks,
+  getRemainingWeeksInfo,
+  buildLeaderboard,
+  calculateSeasonPayouts,
+  getTieBreakOptions,
+} from "@/lib/league";
+import { SeasonSwitcher } from "@/app/league/[slug]/season-switcher";
+import { PayoutSheet } from "./payout-sheet";
+
+export default async function SeasonPayoutsPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ eventId: string }>;
+  searchParams: Promise<{ season?: string }>;
+}) {
+  const { eventId } = await params;
+  const { season: seasonId } = await searchParams;
+  const { profile, adminEvents } = await requireAdmin();
+
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    redirect("/admin");
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: event } = await supabase
+    .from("events")
+    .select("id, name")
+    .eq("id", eventId)
+    .single();
+
+  if (!event) redirect("/admin");
+
+  // Current season unless ?season= picks a finished (or upcoming) one
+  const [config, seasons] = await Promise.all([
+    getLeagueConfigByEventId(eventId, seasonId),
+    getLeagueSeasons(eventId),
+  ]);
+  if (!config) redirect(`/admin/events/${eventId}`);
+
+  const [scores, golfers, seasonMoneyScores] = await Promise.all([
+    getLeagueScores(eventId, config.season_id),
+    getSubscribedGolfers(eventId),
+    getSeasonMoneyScores(eventId, config.season_id),
+  ]);
+
+  const seasonWeeks =
+    config.season_start && config.total_m
+      ? computeSeasonWeeks(config.season_start, config.total_m)
+      : [];
+  const { remainingWeeks } = getRemainingWeeksInfo(seasonWeeks, scores);
+
+  const leaderboard = buildLeaderboard(
+    golfers,
+    scores,
+    config.best_n,
+    config.min_rounds_to_qualify,
+    remainingWeeks,
+    getTieBreakOptions(config)
+  );
+  const payouts = calculateSeasonPayouts(
+    leaderboard,
+    config.prize_pool_total,
+    config.payout_config
+  );
+
+  // Currently posted season rows, to show whether the preview matches them
+  const posted: Record<string, number> = {};
+  let postedAt: string | null = null;
+  for (const row of seasonMoneyScores) {
+    posted[row.profile_id] = Number(row.amount);
+    postedAt = (row.metadata?.posted_at as string | undefined) ?? postedAt;
+  }
+
+  return (
+    <main className="min-h-screen px-4 py-8">
+      <div className="mx-auto max-w-4xl">
+        <div className="print:hidden">
+          <Breadcrumbs
+            items={[
+              { label: "Admin", href: "/admin" },
+              { label: event.name, href: `/admin/events/${eventId}` },
+              { label: "Season Payouts" },
+            ]}
+          />
+        </div>
+        <h1 className="text-2xl font-serif uppercase tracking-wide font-bold text-navy-900">
+          Season Payouts
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          {event.name}
+          {seasons.length <= 1 && config.season_name ? ` — ${config.season_name}` : ""}
+        </p>
+        {seasons.length > 1 && (
+          <div className="print:hidden">
+            <SeasonSwitcher
+              basePath={`/admin/events/${eventId}/payouts`}
+              seasons={seasons.map((s) => ({ id: s.id, name: s.name, isCurrent: s.is_current }))}
+              selectedId={config.season_id}
+            />
+          </div>
+        )}
+
+        <PayoutSheet
+          eventId={eventId}
+          seasonId={config.season_id}
+          eventName={event.name}
+          seasonName={config.season_name}
+          prizePoolTotal={config.prize_pool_total}
+          payoutConfig={config.payout_config || []}
+          minRoundsToQualify={config.min_rounds_to_qualify}
+          remainingWeeks={remainingWeeks}
+          payouts={payouts}
+          posted={posted}
+          postedAt={postedAt}
+        />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import { useState } from "react";
+import { useToast } from "@/components/toast";
+import { ConfirmModal } from "@/components/confirm-modal";
+import { formatFullName, formatDateTime } from "@/lib/format";
+import type { SeasonPayout } from "@/types/events";
+import { postSeasonPayouts } from "./actions";
+
+function formatDollars(amount: number): string {
+  return `$${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatPercent(percent: number): string {
+  return `${Number(percent.toFixed(2))}%`;
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function PayoutSheet({
+  eventId,
+  seasonId,
+  eventName,
+  seasonName,
+  prizePoolTotal,
+  payoutConfig,
+  minRoundsToQualify,
+  remainingWeeks,
+  payouts,
+  posted,
+  postedAt,
+}: {
+  eventId: string;
+  seasonId: string;
+  eventName: string;
+  seasonName: string | null;
+  prizePoolTotal: number | null;
+  payoutConfig: number[];
+  minRoundsToQualify: number | null;
+  remainingWeeks: number;
+  payouts: SeasonPayout[];
+  /** profile_id → amount of the season rows already posted */
+  posted: Record<string, number>;
+  postedAt: string | null;
+}) {
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const { showToast } = useToast();
+
+  const totalPaid = payouts.reduce((sum, p) => sum + p.amount, 0);
+  const hasPosted = Object.keys(posted).length > 0;
+  const matchesPosted =
+    hasPosted &&
+    Object.keys(posted).length === payouts.length &&
+    payouts.every((p) => posted[p.profileId] === p.amount);
+
+  const handlePost = async () => {
+    setPosting(true);
+    const result = await postSeasonPayouts(eventId, seasonId);
+    setPosting(false);
+    setShowConfirm(false);
+    if ("error" in result) {
+      showToast(result.error!, "error");
+      return;
+    }
+    showToast(`Posted season payouts for ${result.posted} golfers`);
+  };
+
+  const handleExport = () => {
+    const rows = [
+      ["Place", "Golfer", "Points", "Percent", "Amount"],
+      ...payouts.map((p) => [
+        `${p.isTied ? "T" : ""}${p.place}`,
+        formatFullName(p.firstName, p.lastName),
+        p.totalPoints,
+        p.percent.toFixed(2),
+        p.amount.toFixed(2),
+      ]),
+      ["", "Total", "", "", totalPaid.toFixed(2)],
+    ];
+    const csv = rows.map((r) => r.map(csvCell).join(",")).join("\n");
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${[eventName, seasonName, "payouts"].filter(Boolean).join(" ")}.csv`
+      .toLowerCase()
+      .replace(/[^a-z0-9.]+/g, "-");
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!prizePoolTotal || payoutConfig.length === 0) {
+    return (
+      <p className="mt-6 rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+        Set a prize pool total and payout percentages in the league settings to
+        calculate season payouts.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-6">
+      <p className="text-sm text-gray-600">
+        {formatDollars(Number(prizePoolTotal))} prize pool · top {payoutConfig.length} paid
+        {minRoundsToQualify ? ` · must play ${minRoundsToQualify} weeks to qualify` : ""}
+      </p>
+
+      {remainingWeeks > 0 && (
+        <p className="mt-3 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800 print:hidden">
+          {remainingWeeks} season week{remainingWeeks === 1 ? " has" : "s have"} no
+          scores yet, so these standings aren&apos;t final.
+        </p>
+      )}
+
+      {hasPosted && (
+        <p
+          className={`mt-3 rounded-lg border p-3 text-sm print:hidden ${
+            matchesPosted
+              ? "border-teal-200 bg-teal-50 text-teal-800"
+              : "border-orange-200 bg-orange-50 text-orange-800"
+          }`}
+        >
+          {matchesPosted
+            ? `Posted${postedAt ? ` ${formatDateTime(postedAt)}` : ""} — matches the current standings.`
+            : "Posted payouts differ from the current standings. Post again to replace them."}
+        </p>
+      )}
+
+      <div className="mt-4 rounded-lg border border-gray-200 bg-white shadow-sm overflow-hidden">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-gray-50 border-b border-gray-200 text-xs font-semibold uppercase tracking-wider text-gray-500">
+              <th className="px-3 py-2 text-left">Place</th>
+              <th className="px-3 py-2 text-left">Golfer</th>
+              <th className="px-3 py-2 text-right">Points</th>
+              <th className="px-3 py-2 text-right">Share</th>
+              <th className="px-3 py-2 text-right">Payout</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {payouts.map((p) => (
+              <tr key={p.profileId}>
+                <td className="px-3 py-2.5 font-semibold text-navy-900">
+                  {p.isTied ? "T" : ""}
+                  {p.place}
+                </td>
+                <td className="px-3 py-2.5 text-gray-900">
+                  {formatFullName(p.firstName, p.lastName)}
+                </td>
+                <td className="px-3 py-2.5 text-right tabular-nums">{p.totalPoints}</td>
+                <td className="px-3 py-2.5 text-right tabular-nums text-gray-500">
+                  {formatPercent(p.percent)}
+                </td>
+                <td className="px-3 py-2.5 text-right tabular-nums font-semibold text-navy-900">
+                  {formatDollars(p.amount)}
+                  {hasPosted && posted[p.profileId] !== p.amount && (
+                    <span className="ml-2 text-xs font-normal text-orange-600 print:hidden">
+                      (posted {posted[p.profileId] !== undefined ? formatDollars(posted[p.profileId]) : "—"})
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {payouts.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No qualified golfers yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+          {payouts.length > 0 && (
+            <tfoot>
+              <tr className="border-t border-gray-300 bg-gray-50 font-semibold">
+                <td className="px-3 py-2.5" colSpan={4}>
+                  Total
+                </td>
+                <td className="px-3 py-2.5 text-right tabular-nums text-navy-900">
+                  {formatDollars(totalPaid)}
+                </td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+
+      <p className="mt-3 text-xs text-gray-400">
+        Only qualified golfers take places. Golfers tied after the league&apos;s
+        tie-break rules split the combined share of the places they occupy.
+      </p>
+
+      <div className="mt-6 flex flex-wrap gap-3 print:hidden">
+        <button
+          type="button"
+          onClick={() => setShowConfirm(true)}
+          disabled={payouts.length === 0 || matchesPosted}
+          className="rounded-lg bg-teal-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-teal-500 disabled:opacity-50"
+        >
+          {hasPosted ? "Re-post Season Payouts" : "Post Season Payouts"}
+        </button>
+        <button
+          type="button"
+          onClick={() => window.print()}
+          className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Print
+        </button>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={payouts.length === 0}
+          className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      <ConfirmModal
+        open={showConfirm}
+        title="Post Season Payouts"
+        message={
+          `Add ${formatDollars(totalPaid)} in season payouts for ${payouts.length} golfers to the money leaderboard?` +
+          (hasPosted ? " The payouts posted earlier will be replaced." : "") +
+          (remainingWeeks > 0 ? " The season isn't finished yet." : "")
+        }
+        confirmLabel="Post Payouts"
+        loading={posting}
+        onCancel={() => setShowConfirm(false)}
+        onConfirm={handlePost}
+      />
+    </div>
+  );
+}
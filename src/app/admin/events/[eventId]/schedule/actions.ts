@@ -199,6 +199,7 @@ export async function updateWeekSettings(
     capacity?: number | null;
     min_players_override?: number | null;
     admin_notes?: string | null;
+    course_id?: string | null;
   }
 ) {
   const { profile, adminEvents, supabase } = await requireAdmin();
@@ -3,6 +3,7 @@ import { redirect } from "next/navigation";
 import { Breadcrumbs } from "@/components/breadcrumbs";
 import { generateSchedulesForEvent } from "@/lib/schedule-gen";
 import { getTodayPacific } from "@/lib/timezone";
+import { getCourses } from "@/lib/courses";
 import type { Event } from "@/types/events";
 import { ScheduleRow } from "./schedule-row";
 
@@ -47,6 +48,9 @@ export default async function ScheduleManagementPage({
     .order("game_date", { ascending: true })
     .limit(8);
 
+  const courses = await getCourses(supabase);
+  const homeCourse = courses.find((c) => c.id === event.course_id) ?? null;
+
   // Get RSVP counts for each schedule
   const schedulesWithCounts = await Promise.all(
     (schedules || []).map(async (schedule) => {
@@ -94,7 +98,8 @@ export default async function ScheduleManagementPage({
         <p className="mt-4 text-sm text-gray-600">
           Manage the next 8 weeks. Toggle any week to &quot;No Game&quot; before the invite
           is sent — golfers will get a cancellation notice instead. You can also adjust
-          capacity per week and add notes that appear in emails.
+          capacity per week, add notes that appear in emails, and move a game to another
+          course for an away day.
         </p>
 
         {/* Schedule Grid */}
@@ -111,6 +116,8 @@ export default async function ScheduleManagementPage({
                 eventId={eventId}
                 defaultCapacity={event.default_capacity}
                 defaultMinPlayers={event.min_players}
+                courses={courses}
+                homeCourseName={homeCourse?.name ?? null}
               />
             ))
           )}
@@ -4,6 +4,7 @@ import { useTransition, useState, useRef, useEffect } from "react";
 import Link from "next/link";
 import { toggleGameStatus, updateWeekSettings } from "./actions";
 import { formatGameDateShort, formatGameDate } from "@/lib/format";
+import type { Course } from "@/types/events";
 
 interface ScheduleWithCounts {
   id: string;
@@ -13,6 +14,7 @@ interface ScheduleWithCounts {
   min_players_override: number | null;
   status: string;
   admin_notes: string | null;
+  course_id: string | null;
   inCount: number;
   waitlistCount: number;
   effectiveCapacity: number;
@@ -24,11 +26,15 @@ export function ScheduleRow({
   eventId,
   defaultCapacity,
   defaultMinPlayers,
+  courses,
+  homeCourseName,
 }: {
   schedule: ScheduleWithCounts;
   eventId: string;
   defaultCapacity: number;
   defaultMinPlayers: number | null;
+  courses: Course[];
+  homeCourseName: string | null;
 }) {
   const [isPending, startTransition] = useTransition();
   const [isEditing, setIsEditing] = useState(false);
@@ -39,6 +45,8 @@ export function ScheduleRow({
     schedule.min_players_override?.toString() || ""
   );
   const [notes, setNotes] = useState(schedule.admin_notes || "");
+  const [courseId, setCourseId] = useState(schedule.course_id || "");
+  const awayCourse = courses.find((c) => c.id === schedule.course_id) ?? null;
 
   // Cancellation confirmation modal state
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
@@ -94,6 +102,7 @@ export function ScheduleRow({
         capacity: capacity ? parseInt(capacity) : null,
         min_players_override: minPlayers ? parseInt(minPlayers) : null,
         admin_notes: notes.trim() || null,
+        course_id: courseId || null,
       });
       setIsEditing(false);
     });
@@ -118,6 +127,11 @@ export function ScheduleRow({
               Cancelled
             </span>
           )}
+          {awayCourse && (
+            <span className="rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-700">
+              Away: {awayCourse.name}
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
@@ -225,6 +239,29 @@ export function ScheduleRow({
             </div>
           </div>
 
+          <div>
+            <label className="block text-xs font-medium text-gray-600">
+              Course
+            </label>
+            <select
+              value={courseId}
+              onChange={(e) => setCourseId(e.target.value)}
+              className="mt-1 block w-full rounded border border-gray-300 px-2 py-1.5 text-sm"
+            >
+              <option value="">
+                {homeCourseName ? `Home course (${homeCourseName})` : "Event course (none set)"}
+              </option>
+              {courses.map((course) => (
+                <option key={course.id} value={course.id}>
+                  {course.name}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-400">
+              Pick another course for an away day. The weather forecast follows the course.
+            </p>
+          </div>
+
           <div>
             <label className="block text-xs font-medium text-gray-600">
               Admin Note
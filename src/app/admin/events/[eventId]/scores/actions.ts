@@ -0,0 +1,343 @@
+"use server";
+
+import { requireAdmin, hasEventAccess } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import {
+  parseGolfGeniusXls,
+  matchScoresToProfiles,
+  normalizeSourceName,
+  type ScoreMatch,
+} from "@/lib/score-import";
+import { getLeagueSeasons, pickSeasonForDate } from "@/lib/league";
+import {
+  resolveHandicapIndex,
+  calculateCourseHandicap,
+  calculateNetStableford,
+} from "@/lib/net-scoring";
+import type { HoleScoresMetadata } from "@/types/events";
+
+const MAX_UPLOAD_BYTES = 1024 * 1024;
+
+function isValidGameDate(gameDate: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(gameDate);
+}
+
+function isValidPoints(points: number): boolean {
+  return Number.isInteger(points) && Math.abs(points) <= 100;
+}
+
+/** Season a game date's scores belong to, or null if the league has none */
+async function getSeasonIdForDate(eventId: string, gameDate: string): Promise<string | null> {
+  const season = pickSeasonForDate(await getLeagueSeasons(eventId), gameDate);
+  return season?.id ?? null;
+}
+
+async function revalidateScorePages(eventId: string) {
+  const supabase = createAdminClient();
+  const { data: event } = await supabase
+    .from("events")
+    .select("slug")
+    .eq("id", eventId)
+    .single();
+
+  revalidatePath(`/admin/events/${eventId}/scores`);
+  if (event?.slug) revalidatePath(`/league/${event.slug}`);
+}
+
+/**
+ * Parse an uploaded Golf Genius export and match players to golfers
+ * (saved aliases first, then first + last name). Nothing is saved.
+ */
+export async function previewScoreUpload(
+  eventId: string,
+  formData: FormData
+): Promise<{ error: string } | { success: true; rows: ScoreMatch[] }> {
+  const { profile, adminEvents } = await requireAdmin();
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    return { error: "Not authorized" };
+  }
+
+  const file = formData.get("file");
+  if (!(file instanceof File) || file.size === 0) {
+    return { error: "Choose a Golf Genius .xls, .xlsx or .csv file" };
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return { error: "File is too large (1 MB max)" };
+  }
+
+  try {
+    let parsed;
+    try {
+      parsed = parseGolfGeniusXls(new Uint8Array(await file.arrayBuffer()));
+    } catch {
+      return { error: "Couldn't read that file. Re-export it from Golf Genius as .xlsx or .csv." };
+    }
+
+    if (parsed.length === 0) {
+      return { error: "No player scores found. Expected Player and Stableford Points columns." };
+    }
+
+    const supabase = createAdminClient();
+    const [{ data: profiles }, { data: aliases }] = await Promise.all([
+      supabase
+        .from("profiles")
+        .select("id, first_name, last_name")
+        .eq("status", "active"),
+      supabase
+        .from("league_name_aliases")
+        .select("source_name, profile_id")
+        .eq("event_id", eventId),
+    ]);
+
+    const aliasMap = new Map(
+      (aliases || []).map((a) => [a.source_name as string, a.profile_id as string])
+    );
+
+    return {
+      success: true,
+      rows: matchScoresToProfiles(parsed, profiles || [], aliasMap),
+    };
+  } catch (error) {
+    console.error("Preview score upload error:", error);
+    return { error: "Failed to read scores" };
+  }
+}
+
+/**
+ * Save uploaded scores after the admin has reviewed the matches.
+ * Names the admin matched by hand can be saved as aliases so next
+ * week's upload matches them automatically.
+ */
+export async function saveImportedScores(
+  eventId: string,
+  gameDate: string,
+  entries: {
+    profileId: string;
+    points: number;
+    playerName: string;
+    saveAlias: boolean;
+  }[]
+) {
+  const { profile, adminEvents } = await requireAdmin();
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    return { error: "Not authorized" };
+  }
+
+  if (!isValidGameDate(gameDate)) return { error: "Invalid game date" };
+  if (entries.length === 0) return { error: "No scores to save" };
+  if (entries.some((e) => !isValidPoints(e.points))) {
+    return { error: "Points must be whole numbers" };
+  }
+
+  const seen = new Map<string, string>();
+  for (const entry of entries) {
+    const other = seen.get(entry.profileId);
+    if (other) {
+      return { error: `${other} and ${entry.playerName} are matched to the same golfer` };
+    }
+    seen.set(entry.profileId, entry.playerName);
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const importedAt = new Date().toISOString();
+
+    const seasonId = await getSeasonIdForDate(eventId, gameDate);
+    if (!seasonId) return { error: "Set up a league season before saving scores" };
+
+    const { error: scoreError } = await supabase.from("league_scores").upsert(
+      entries.map((e) => ({
+        event_id: eventId,
+        profile_id: e.profileId,
+        season_id: seasonId,
+        game_date: gameDate,
+        stableford_points: e.points,
+        metadata: { source: "golf_genius", player_name: e.playerName, imported_at: importedAt },
+        entered_by: profile.id,
+        updated_at: importedAt,
+      })),
+      { onConflict: "event_id,profile_id,game_date" }
+    );
+
+    if (scoreError) throw scoreError;
+
+    const aliases = entries.filter((e) => e.saveAlias);
+    if (aliases.length > 0) {
+      const { error: aliasError } = await supabase.from("league_name_aliases").upsert(
+        aliases.map((e) => ({
+          event_id: eventId,
+          source_name: normalizeSourceName(e.playerName),
+          profile_id: e.profileId,
+          created_by: profile.id,
+        })),
+        { onConflict: "event_id,source_name" }
+      );
+      // Scores are already saved — a failed alias only costs a manual match next week
+      if (aliasError) console.error("Save league name aliases error:", aliasError);
+    }
+
+    await revalidateScorePages(eventId);
+    return { success: true, saved: entries.length, aliasesSaved: aliases.length };
+  } catch (error) {
+    console.error("Save imported scores error:", error);
+    return { error: "Failed to save scores" };
+  }
+}
+
+/**
+ * Manual entry grid: save changed scores for one game date.
+ * A null points value removes that golfer's score for the date.
+ */
+export async function saveManualScores(
+  eventId: string,
+  gameDate: string,
+  entries: { profileId: string; points: number | null }[]
+) {
+  const { profile, adminEvents } = await requireAdmin();
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    return { error: "Not authorized" };
+  }
+
+  if (!isValidGameDate(gameDate)) return { error: "Invalid game date" };
+  if (entries.some((e) => e.points !== null && !isValidPoints(e.points))) {
+    return { error: "Points must be whole numbers" };
+  }
+
+  const upserts = entries.filter((e) => e.points !== null);
+  const removals = entries.filter((e) => e.points === null).map((e) => e.profileId);
+
+  try {
+    const supabase = createAdminClient();
+    const enteredAt = new Date().toISOString();
+
+    if (upserts.length > 0) {
+      const seasonId = await getSeasonIdForDate(eventId, gameDate);
+      if (!seasonId) return { error: "Set up a league season before saving scores" };
+
+      const { error } = await supabase.from("league_scores").upsert(
+        upserts.map((e) => ({
+          event_id: eventId,
+          profile_id: e.profileId,
+          season_id: seasonId,
+          game_date: gameDate,
+          stableford_points: e.points,
+          metadata: { source: "manual", entered_at: enteredAt },
+          entered_by: profile.id,
+          updated_at: enteredAt,
+        })),
+        { onConflict: "event_id,profile_id,game_date" }
+      );
+      if (error) throw error;
+    }
+
+    if (removals.length > 0) {
+      const { error } = await supabase
+        .from("league_scores")
+        .delete()
+        .eq("event_id", eventId)
+        .eq("game_date", gameDate)
+        .in("profile_id", removals);
+      if (error) throw error;
+    }
+
+    await revalidateScorePages(eventId);
+    return { success: true, saved: upserts.length, removed: removals.length };
+  } catch (error) {
+    console.error("Save manual scores error:", error);
+    return { error: "Failed to save scores" };
+  }
+}
+
+/**
+ * Hole-by-hole entry: score one golfer's round from gross hole scores.
+ * Course handicap and net Stableford points are recomputed here from the
+ * tee and the golfer's current handicap index; the per-hole breakdown is
+ * kept in metadata. A null gross score is a pickup.
+ */
+export async function saveHoleScores(
+  eventId: string,
+  gameDate: string,
+  entry: { profileId: string; teeId: string; gross: (number | null)[] }
+) {
+  const { profile, adminEvents } = await requireAdmin();
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    return { error: "Not authorized" };
+  }
+
+  if (!isValidGameDate(gameDate)) return { error: "Invalid game date" };
+  if (entry.gross.some((g) => g !== null && (!Number.isInteger(g) || g < 1 || g > 20))) {
+    return { error: "Hole scores must be whole numbers from 1 to 20" };
+  }
+  if (entry.gross.every((g) => g === null)) {
+    return { error: "Enter at least one hole score" };
+  }
+
+  try {
+    const supabase = createAdminClient();
+
+    const [{ data: tee }, { data: golfer }] = await Promise.all([
+      supabase
+        .from("league_tees")
+        .select("*")
+        .eq("id", entry.teeId)
+        .eq("event_id", eventId)
+        .maybeSingle(),
+      supabase
+        .from("profiles")
+        .select("id, first_name, last_name, handicap_index, manual_handicap_index")
+        .eq("id", entry.profileId)
+        .maybeSingle(),
+    ]);
+
+    if (!tee) return { error: "Tee not found" };
+    if (!golfer) return { error: "Golfer not found" };
+    if (entry.gross.length !== tee.pars.length) {
+      return { error: `Enter a score for each of the ${tee.pars.length} holes` };
+    }
+
+    const handicapIndex = resolveHandicapIndex(golfer);
+    if (handicapIndex === null) {
+      return { error: `${golfer.first_name} ${golfer.last_name} has no handicap index on file` };
+    }
+
+    const seasonId = await getSeasonIdForDate(eventId, gameDate);
+    if (!seasonId) return { error: "Set up a league season before saving scores" };
+
+    const courseHandicap = calculateCourseHandicap(Number(handicapIndex), tee);
+    const round = calculateNetStableford(entry.gross, tee, courseHandicap);
+    const enteredAt = new Date().toISOString();
+
+    const metadata: HoleScoresMetadata = {
+      source: "hole_scores",
+      tee_id: tee.id,
+      tee_name: tee.name,
+      handicap_index: Number(handicapIndex),
+      course_handicap: courseHandicap,
+      gross_total: round.grossTotal,
+      holes: round.holes,
+      entered_at: enteredAt,
+    };
+
+    const { error } = await supabase.from("league_scores").upsert(
+      {
+        event_id: eventId,
+        profile_id: entry.profileId,
+        season_id: seasonId,
+        game_date: gameDate,
+        stableford_points: round.totalPoints,
+        metadata,
+        entered_by: profile.id,
+        updated_at: enteredAt,
+      },
+      { onConflict: "event_id,profile_id,game_date" }
+    );
+    if (error) throw error;
+
+    await revalidateScorePages(eventId);
+    return { success: true, points: round.totalPoints, courseHandicap };
+  } catch (error) {
+    console.error("Save hole scores error:", error);
+    return { error: "Failed to save scores" };
+  }
+}
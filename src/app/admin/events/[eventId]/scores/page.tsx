@@ -0,0 +1,187 @@
+import { requireAdmin, hasEventAccess } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/server";
+import { redirect } from "next/navigation";
+import { Breadcrumbs } from "@/components/breadcrumbs";
+import { computeSeasonWeeks, getLeagueSeasons, getSubscribedGolfers } from "@/lib/league";
+import { resolveHandicapIndex } from "@/lib/net-scoring";
+import { getTodayPacific } from "@/lib/timezone";
+import type { HoleScoresMetadata, LeagueTee } from "@/types/events";
+import { ScoreUpload, ManualScoreGrid, ScoreDatePicker, HoleScoreEntry } from "./score-entry";
+
+export default async function LeagueScoresPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ eventId: string }>;
+  searchParams: Promise<{ date?: string }>;
+}) {
+  const { eventId } = await params;
+  const { date } = await searchParams;
+  const { profile, adminEvents } = await requireAdmin();
+
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    redirect("/admin");
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: event } = await supabase
+    .from("events")
+    .select("id, name, slug")
+    .eq("id", eventId)
+    .single();
+
+  if (!event) redirect("/admin");
+
+  const [{ data: config }, seasons] = await Promise.all([
+    supabase
+      .from("event_league_config")
+      .select("league_enabled")
+      .eq("event_id", eventId)
+      .maybeSingle(),
+    getLeagueSeasons(eventId),
+  ]);
+
+  const season = seasons.find((s) => s.is_current);
+  const seasonWeeks =
+    season?.season_start && season.total_m
+      ? computeSeasonWeeks(season.season_start, season.total_m)
+      : [];
+
+  // Default to the most recent season week that has been played
+  const today = getTodayPacific();
+  const gameDate =
+    date && /^\d{4}-\d{2}-\d{2}$/.test(date)
+      ? date
+      : [...seasonWeeks].reverse().find((w) => w <= today) || seasonWeeks[0] || today;
+
+  const [{ data: scores }, golfers, { data: profiles }, { data: tees }] = await Promise.all([
+    supabase
+      .from("league_scores")
+      .select("profile_id, stableford_points, metadata")
+      .eq("event_id", eventId)
+      .eq("game_date", gameDate),
+    getSubscribedGolfers(eventId),
+    supabase
+      .from("profiles")
+      .select("id, first_name, last_name, handicap_index, manual_handicap_index")
+      .eq("status", "active")
+      .order("last_name", { ascending: true })
+      .order("first_name", { ascending: true }),
+    supabase
+      .from("league_tees")
+      .select("*")
+      .eq("event_id", eventId)
+      .order("name"),
+  ]);
+
+  const existingScores: Record<string, number> = {};
+  // Rounds entered hole by hole, so the form can reopen them
+  const existingRounds: Record<string, { teeId: string; gross: (number | null)[] }> = {};
+  for (const s of scores || []) {
+    existingScores[s.profile_id] = s.stableford_points;
+    const metadata = s.metadata as HoleScoresMetadata | null;
+    if (metadata?.source === "hole_scores") {
+      existingRounds[s.profile_id] = {
+        teeId: metadata.tee_id,
+        gross: metadata.holes.map((h) => h.gross),
+      };
+    }
+  }
+
+  // Manual grid: the event's roster plus anyone else who already has a score that day
+  const gridGolfers = [...golfers];
+  for (const p of profiles || []) {
+    if (existingScores[p.id] !== undefined && !gridGolfers.some((g) => g.id === p.id)) {
+      gridGolfers.push({ ...p, low_hi_value: null });
+    }
+  }
+
+  const handicapIndexes = new Map(
+    (profiles || []).map((p) => [p.id, resolveHandicapIndex(p)])
+  );
+
+  return (
+    <main className="min-h-screen px-4 py-8">
+      <div className="mx-auto max-w-4xl">
+        <div>
+          <Breadcrumbs
+            items={[
+              { label: "Admin", href: "/admin" },
+              { label: event.name, href: `/admin/events/${eventId}` },
+              { label: "League Scores" },
+            ]}
+          />
+          <h1 className="text-2xl font-serif uppercase tracking-wide font-bold text-navy-900">
+            League Scores
+          </h1>
+        </div>
+
+        <p className="mt-4 text-sm text-gray-600">
+          Upload the Golf Genius leaderboard export for a week, check the name
+          matches, and save. Names you match by hand can be remembered for
+          next time. Use the manual grid to fix a score or enter a week by hand.
+        </p>
+
+        {!config?.league_enabled && (
+          <p className="mt-4 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+            The league isn&apos;t enabled for this event, so scores won&apos;t
+            show on a league page yet.
+          </p>
+        )}
+
+        <div className="mt-6">
+          <ScoreDatePicker
+            gameDate={gameDate}
+            seasonWeeks={seasonWeeks}
+            scoreCount={Object.keys(existingScores).length}
+          />
+        </div>
+
+        <section className="mt-8">
+          <h2 className="mb-3 text-lg font-semibold text-gray-900">
+            Upload Golf Genius Export
+          </h2>
+          <ScoreUpload
+            key={`upload-${gameDate}`}
+            eventId={eventId}
+            gameDate={gameDate}
+            profiles={profiles || []}
+            existingScores={existingScores}
+          />
+        </section>
+
+        <section className="mt-10">
+          <h2 className="mb-3 text-lg font-semibold text-gray-900">
+            Hole-by-Hole Entry
+          </h2>
+          <HoleScoreEntry
+            key={`holes-${gameDate}`}
+            eventId={eventId}
+            gameDate={gameDate}
+            golfers={gridGolfers.map((g) => ({
+              ...g,
+              handicapIndex: handicapIndexes.get(g.id) ?? null,
+            }))}
+            tees={(tees || []) as LeagueTee[]}
+            existingScores={existingScores}
+            existingRounds={existingRounds}
+          />
+        </section>
+
+        <section className="mt-10 mb-12">
+          <h2 className="mb-3 text-lg font-semibold text-gray-900">
+            Manual Entry
+          </h2>
+          <ManualScoreGrid
+            key={`grid-${gameDate}`}
+            eventId={eventId}
+            gameDate={gameDate}
+            golfers={gridGolfers}
+            existingScores={existingScores}
+          />
+        </section>
+      </div>
+    </main>
+  );
+}
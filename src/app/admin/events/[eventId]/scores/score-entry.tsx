@@ -0,0 +1,610 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useToast } from "@/components/toast";
+import { formatGameDate, formatGameDateShort } from "@/lib/format";
+import { calculateCourseHandicap, calculateNetStableford } from "@/lib/net-scoring";
+import type { ScoreMatch } from "@/lib/score-import";
+import type { LeagueTee } from "@/types/events";
+import { previewScoreUpload, saveImportedScores, saveManualScores, saveHoleScores } from "./actions";
+
+interface GolferOption {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+function golferName(g: GolferOption): string {
+  return `${g.first_name} ${g.last_name}`;
+}
+
+export function ScoreDatePicker({
+  gameDate,
+  seasonWeeks,
+  scoreCount,
+}: {
+  gameDate: string;
+  seasonWeeks: string[];
+  scoreCount: number;
+}) {
+  const router = useRouter();
+  const goTo = (date: string) => {
+    if (date) router.push(`?date=${date}`);
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+      {seasonWeeks.length > 0 && (
+        <div>
+          <label className="block text-xs font-medium text-gray-600">Season Week</label>
+          <select
+            value={seasonWeeks.includes(gameDate) ? gameDate : ""}
+            onChange={(e) => goTo(e.target.value)}
+            className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            {!seasonWeeks.includes(gameDate) && <option value="">Other date</option>}
+            {seasonWeeks.map((week, i) => (
+              <option key={week} value={week}>
+                Week {i + 1} — {formatGameDateShort(week)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div>
+        <label className="block text-xs font-medium text-gray-600">Game Date</label>
+        <input
+          type="date"
+          value={gameDate}
+          onChange={(e) => goTo(e.target.value)}
+          className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+        />
+      </div>
+      <p className="pb-2 text-sm text-gray-500">
+        {scoreCount > 0
+          ? `${scoreCount} score${scoreCount === 1 ? "" : "s"} saved for ${formatGameDate(gameDate)}`
+          : `No scores yet for ${formatGameDate(gameDate)}`}
+      </p>
+    </div>
+  );
+}
+
+interface PreviewRow extends ScoreMatch {
+  selectedProfileId: string;
+  saveAlias: boolean;
+}
+
+export function ScoreUpload({
+  eventId,
+  gameDate,
+  profiles,
+  existingScores,
+}: {
+  eventId: string;
+  gameDate: string;
+  profiles: GolferOption[];
+  existingScores: Record<string, number>;
+}) {
+  const [rows, setRows] = useState<PreviewRow[] | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const { showToast } = useToast();
+
+  const profileById = new Map(profiles.map((p) => [p.id, p]));
+
+  const handleUpload = (formData: FormData) => {
+    startTransition(async () => {
+      const result = await previewScoreUpload(eventId, formData);
+      if ("error" in result) {
+        showToast(result.error, "error");
+        return;
+      }
+      setRows(
+        result.rows.map((r) => ({
+          ...r,
+          selectedProfileId: r.profileId ?? "",
+          saveAlias: false,
+        }))
+      );
+    });
+  };
+
+  const updateRow = (index: number, update: Partial<PreviewRow>) => {
+    setRows((prev) =>
+      prev ? prev.map((r, i) => (i === index ? { ...r, ...update } : r)) : prev
+    );
+  };
+
+  const selected = (rows || []).filter((r) => r.selectedProfileId);
+  const skippedCount = (rows || []).length - selected.length;
+  const selectionCounts = new Map<string, number>();
+  for (const r of selected) {
+    selectionCounts.set(r.selectedProfileId, (selectionCounts.get(r.selectedProfileId) || 0) + 1);
+  }
+  const hasDuplicates = [...selectionCounts.values()].some((n) => n > 1);
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await saveImportedScores(
+        eventId,
+        gameDate,
+        selected.map((r) => ({
+          profileId: r.selectedProfileId,
+          points: r.stablefordPoints,
+          playerName: r.playerName,
+          saveAlias: r.saveAlias && r.selectedProfileId !== r.profileId,
+        }))
+      );
+      if ("error" in result) {
+        showToast(result.error!, "error");
+        return;
+      }
+      setRows(null);
+      showToast(
+        `Saved ${result.saved} scores for ${formatGameDateShort(gameDate)}` +
+          (result.aliasesSaved ? ` · ${result.aliasesSaved} name${result.aliasesSaved === 1 ? "" : "s"} remembered` : "")
+      );
+    });
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+      <form action={handleUpload} className="flex flex-wrap items-center gap-3">
+        <input
+          type="file"
+          name="file"
+          accept=".xls,.xlsx,.csv"
+          required
+          className="text-sm text-gray-700 file:mr-3 file:rounded-md file:border-0 file:bg-gray-100 file:px-3 file:py-2 file:text-sm file:font-medium file:text-gray-700 hover:file:bg-gray-200"
+        />
+        <button
+          type="submit"
+          disabled={isPending}
+          className="rounded-md bg-teal-600 px-4 py-2 text-sm font-semibold text-white hover:bg-teal-500 disabled:opacity-50"
+        >
+          {isPending && !rows ? "Reading..." : "Preview"}
+        </button>
+      </form>
+      <p className="mt-2 text-xs text-gray-400">
+        The individual Stableford leaderboard export (.xls, .xlsx or .csv) with Player and Stableford Points columns.
+      </p>
+
+      {rows && (
+        <div className="mt-4 border-t border-gray-100 pt-4">
+          <p className="mb-3 text-sm text-gray-700">
+            {selected.length} of {rows.length} players matched
+            {skippedCount > 0 && (
+              <span className="text-orange-600"> · {skippedCount} will be skipped</span>
+            )}
+          </p>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-xs uppercase text-gray-500">
+                  <th className="py-2 pr-3">Golf Genius Name</th>
+                  <th className="py-2 pr-3 text-right">Pts</th>
+                  <th className="py-2 pr-3">Golfer</th>
+                  <th className="py-2">Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, i) => {
+                  const handMatched = !!row.selectedProfileId && row.selectedProfileId !== row.profileId;
+                  const existing = row.selectedProfileId ? existingScores[row.selectedProfileId] : undefined;
+                  const isDuplicate = (selectionCounts.get(row.selectedProfileId) || 0) > 1;
+                  return (
+                    <tr key={`${row.sourceName}-${i}`} className="border-b border-gray-100">
+                      <td className="py-2 pr-3 text-gray-900">{row.playerName}</td>
+                      <td className="py-2 pr-3 text-right font-semibold text-gray-900">
+                        {row.stablefordPoints}
+                      </td>
+                      <td className="py-2 pr-3">
+                        <select
+                          value={row.selectedProfileId}
+                          onChange={(e) => updateRow(i, { selectedProfileId: e.target.value })}
+                          className={`w-full rounded-md border px-2 py-1 text-sm ${
+                            !row.selectedProfileId || isDuplicate
+                              ? "border-orange-300 bg-orange-50"
+                              : "border-gray-300"
+                          }`}
+                        >
+                          <option value="">— Skip —</option>
+                          {row.suggestions.length > 0 && (
+                            <optgroup label="Same last name">
+                              {row.suggestions.map((id) => {
+                                const p = profileById.get(id);
+                                return p ? (
+                                  <option key={`s-${id}`} value={id}>
+                                    {golferName(p)}
+                                  </option>
+                                ) : null;
+                              })}
+                            </optgroup>
+                          )}
+                          <optgroup label="All golfers">
+                            {profiles.map((p) => (
+                              <option key={p.id} value={p.id}>
+                                {p.last_name}, {p.first_name}
+                              </option>
+                            ))}
+                          </optgroup>
+                        </select>
+                      </td>
+                      <td className="py-2 text-xs text-gray-500">
+                        <div className="flex flex-wrap items-center gap-2">
+                          {row.matchedBy === "alias" && !handMatched && <span>Saved alias</span>}
+                          {isDuplicate && <span className="text-red-600">Matched twice</span>}
+                          {existing !== undefined && existing !== row.stablefordPoints && (
+                            <span className="text-orange-600">Replaces {existing}</span>
+                          )}
+                          {handMatched && (
+                            <label className="flex items-center gap-1">
+                              <input
+                                type="checkbox"
+                                checked={row.saveAlias}
+                                onChange={(e) => updateRow(i, { saveAlias: e.target.checked })}
+                              />
+                              Remember this name
+                            </label>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 flex items-center gap-3">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isPending || selected.length === 0 || hasDuplicates}
+              className="rounded-md bg-teal-600 px-4 py-2 text-sm font-semibold text-white hover:bg-teal-500 disabled:opacity-50"
+            >
+              {isPending ? "Saving..." : `Save ${selected.length} Scores for ${formatGameDateShort(gameDate)}`}
+            </button>
+            <button
+              type="button"
+              onClick={() => setRows(null)}
+              disabled={isPending}
+              className="rounded-md border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ManualScoreGrid({
+  eventId,
+  gameDate,
+  golfers,
+  existingScores,
+}: {
+  eventId: string;
+  gameDate: string;
+  golfers: GolferOption[];
+  existingScores: Record<string, number>;
+}) {
+  // Only edited cells live in state; everything else shows the saved score
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [isPending, startTransition] = useTransition();
+  const { showToast } = useToast();
+
+  const valueFor = (id: string) =>
+    edits[id] ?? (existingScores[id] !== undefined ? String(existingScores[id]) : "");
+
+  const changes = golfers
+    .map((g) => {
+      const raw = valueFor(g.id).trim();
+      const points = raw === "" ? null : Number(raw);
+      return { profileId: g.id, points };
+    })
+    .filter((c) => c.points !== (existingScores[c.profileId] ?? null));
+
+  const invalid = changes.some(
+    (c) => c.points !== null && !Number.isInteger(c.points)
+  );
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await saveManualScores(
+        eventId,
+        gameDate,
+        changes.map((c) => ({ profileId: c.profileId, points: c.points }))
+      );
+      if ("error" in result) {
+        showToast(result.error!, "error");
+        return;
+      }
+      setEdits({});
+      const parts = [`${result.saved} saved`];
+      if (result.removed) parts.push(`${result.removed} removed`);
+      showToast(`Scores updated — ${parts.join(", ")}`);
+    });
+  };
+
+  if (golfers.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No golfers are subscribed to this event yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+      <div className="grid gap-x-6 gap-y-2 sm:grid-cols-2">
+        {golfers.map((g) => {
+          const value = valueFor(g.id);
+          const changed = changes.some((c) => c.profileId === g.id);
+          return (
+            <label key={g.id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-gray-900">
+                {g.last_name}, {g.first_name}
+              </span>
+              <input
+                type="number"
+                step={1}
+                inputMode="numeric"
+                value={value}
+                onChange={(e) => setEdits((prev) => ({ ...prev, [g.id]: e.target.value }))}
+                className={`w-20 rounded-md border px-2 py-1 text-right text-sm ${
+                  changed ? "border-teal-400 bg-teal-50" : "border-gray-300"
+                }`}
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 flex items-center gap-3 border-t border-gray-100 pt-4">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isPending || changes.length === 0 || invalid}
+          className="rounded-md bg-teal-600 px-4 py-2 text-sm font-semibold text-white hover:bg-teal-500 disabled:opacity-50"
+        >
+          {isPending ? "Saving..." : "Save Changes"}
+        </button>
+        <p className="text-xs text-gray-500">
+          {invalid
+            ? "Points must be whole numbers"
+            : changes.length > 0
+              ? `${changes.length} unsaved change${changes.length === 1 ? "" : "s"} · clear a box to remove that score`
+              : "Clear a box to remove that score"}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export function HoleScoreEntry({
+  eventId,
+  gameDate,
+  golfers,
+  tees,
+  existingScores,
+  existingRounds,
+}: {
+  eventId: string;
+  gameDate: string;
+  golfers: (GolferOption & { handicapIndex: number | null })[];
+  tees: LeagueTee[];
+  existingScores: Record<string, number>;
+  existingRounds: Record<string, { teeId: string; gross: (number | null)[] }>;
+}) {
+  const router = useRouter();
+  const [profileId, setProfileId] = useState("");
+  const [teeId, setTeeId] = useState(tees[0]?.id ?? "");
+  const [gross, setGross] = useState<string[]>([]);
+  const [isPending, startTransition] = useTransition();
+  const { showToast } = useToast();
+
+  const golfer = golfers.find((g) => g.id === profileId);
+  const tee = tees.find((t) => t.id === teeId);
+
+  const selectGolfer = (id: string) => {
+    setProfileId(id);
+    const existing = existingRounds[id];
+    if (existing && tees.some((t) => t.id === existing.teeId)) {
+      setTeeId(existing.teeId);
+      setGross(existing.gross.map((g) => (g === null ? "" : String(g))));
+    } else {
+      setGross([]);
+    }
+  };
+
+  if (tees.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Add a tee with par, stroke index and ratings in Event Settings → League
+        to enter gross hole scores.
+      </p>
+    );
+  }
+
+  const holeScores = (tee?.pars ?? []).map((_, i) => {
+    const raw = (gross[i] ?? "").trim();
+    return raw === "" ? null : Number(raw);
+  });
+  const invalid = holeScores.some((g) => g !== null && (!Number.isInteger(g) || g < 1 || g > 20));
+  const hasScores = holeScores.some((g) => g !== null);
+
+  // Live preview — the server recomputes the same numbers on save
+  const courseHandicap =
+    tee && golfer?.handicapIndex != null ? calculateCourseHandicap(golfer.handicapIndex, tee) : null;
+  const round =
+    tee && courseHandicap !== null && !invalid
+      ? calculateNetStableford(holeScores, tee, courseHandicap)
+      : null;
+
+  const handleSave = () => {
+    if (!tee) return;
+    startTransition(async () => {
+      const result = await saveHoleScores(eventId, gameDate, {
+        profileId,
+        teeId: tee.id,
+        gross: holeScores,
+      });
+      if ("error" in result) {
+        showToast(result.error!, "error");
+        return;
+      }
+      showToast(
+        `Saved ${result.points} points for ${golfer ? golferName(golfer) : "golfer"} (course handicap ${result.courseHandicap})`
+      );
+      setProfileId("");
+      setGross([]);
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-600">Golfer</label>
+          <select
+            value={profileId}
+            onChange={(e) => selectGolfer(e.target.value)}
+            className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="">— Choose golfer —</option>
+            {golfers.map((g) => (
+              <option key={g.id} value={g.id}>
+                {g.last_name}, {g.first_name}
+                {existingRounds[g.id] ? " ✓" : existingScores[g.id] !== undefined ? " •" : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600">Tee</label>
+          <select
+            value={teeId}
+            onChange={(e) => setTeeId(e.target.value)}
+            className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            {tees.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {golfer && (
+          <p className="pb-2 text-sm text-gray-600">
+            {golfer.handicapIndex != null ? (
+              <>
+                HI {golfer.handicapIndex.toFixed(1)} · Course handicap{" "}
+                <span className="font-semibold text-gray-900">{courseHandicap}</span>
+              </>
+            ) : (
+              <span className="text-orange-600">No handicap index on file</span>
+            )}
+          </p>
+        )}
+      </div>
+
+      {golfer && tee && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="text-sm">
+            <tbody>
+              <tr className="text-xs text-gray-500">
+                <th className="pr-3 text-left font-medium">Hole</th>
+                {tee.pars.map((_, i) => (
+                  <td key={i} className="px-0.5 text-center">{i + 1}</td>
+                ))}
+                <th className="pl-3 text-right font-medium">Total</th>
+              </tr>
+              <tr className="text-xs text-gray-500">
+                <th className="pr-3 text-left font-medium">Par</th>
+                {tee.pars.map((par, i) => (
+                  <td key={i} className="px-0.5 text-center">{par}</td>
+                ))}
+                <td className="pl-3 text-right">{tee.pars.reduce((sum, p) => sum + p, 0)}</td>
+              </tr>
+              <tr>
+                <th className="pr-3 text-left text-xs font-medium text-gray-500">Gross</th>
+                {tee.pars.map((_, i) => (
+                  <td key={i} className="px-0.5 py-1">
+                    <input
+                      value={gross[i] ?? ""}
+                      onChange={(e) =>
+                        setGross((prev) => {
+                          const next = [...prev];
+                          next[i] = e.target.value;
+                          return next;
+                        })
+                      }
+                      inputMode="numeric"
+                      aria-label={`Hole ${i + 1} gross score`}
+                      className="w-9 rounded border border-gray-300 px-1 py-1 text-center text-sm"
+                    />
+                  </td>
+                ))}
+                <td className="pl-3 text-right font-semibold text-gray-900">
+                  {round?.grossTotal ?? "—"}
+                </td>
+              </tr>
+              {round && (
+                <tr className="text-xs text-gray-500">
+                  <th className="pr-3 text-left font-medium">Strokes</th>
+                  {round.holes.map((h) => (
+                    <td key={h.hole} className="px-0.5 text-center">
+                      {h.strokes === 0 ? "" : h.strokes > 0 ? `+${h.strokes}` : h.strokes}
+                    </td>
+                  ))}
+                  <td className="pl-3 text-right">{courseHandicap}</td>
+                </tr>
+              )}
+              {round && (
+                <tr>
+                  <th className="pr-3 text-left text-xs font-medium text-gray-500">Pts</th>
+                  {round.holes.map((h) => (
+                    <td
+                      key={h.hole}
+                      className={`px-0.5 text-center text-sm ${h.points >= 2 ? "font-semibold text-teal-700" : h.points < 0 ? "text-red-600" : "text-gray-900"}`}
+                    >
+                      {h.gross === null && !hasScores ? "" : h.points}
+                    </td>
+                  ))}
+                  <td className="pl-3 text-right font-bold text-navy-900">
+                    {hasScores ? round.totalPoints : "—"}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {golfer && tee && (
+        <div className="mt-4 flex items-center gap-3 border-t border-gray-100 pt-4">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isPending || !round || !hasScores}
+            className="rounded-md bg-teal-600 px-4 py-2 text-sm font-semibold text-white hover:bg-teal-500 disabled:opacity-50"
+          >
+            {isPending ? "Saving..." : `Save ${round && hasScores ? `${round.totalPoints} Points` : "Round"}`}
+          </button>
+          <p className="text-xs text-gray-500">
+            {invalid
+              ? "Hole scores must be whole numbers"
+              : existingScores[golfer.id] !== undefined
+                ? `Replaces the saved score of ${existingScores[golfer.id]} · leave a hole blank for a pickup`
+                : "Leave a hole blank for a pickup (scores −1)"}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,8 +4,12 @@ import { requireAdmin, requireSuperAdmin, hasEventAccess } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
-import type { AlertType, GroupingPartnerPrefMode, GroupingTeeTimePrefMode, GroupingMethod, FlightTeamPairing } from "@/types/events";
+import type { AlertType, GroupingPartnerPrefMode, GroupingTeeTimePrefMode, GroupingMethod, FlightTeamPairing, LeagueTabContentType, TieBreakRule, GuestCapacityPolicy, GuestVisitLimitAction } from "@/types/events";
+import { TIE_BREAK_RULE_LABELS, GUEST_CAPACITY_POLICY_LABELS, GUEST_VISIT_LIMIT_ACTION_LABELS } from "@/types/events";
 import { clearWeatherCache } from "@/lib/weather";
+import { validateTeeLayout } from "@/lib/net-scoring";
+import { runHandicapSync } from "@/lib/handicap-sync";
+import { CsvHandicapProvider, readHandicapFile } from "@/lib/handicap-providers";
 
 // ============================================================
 // Event Basic Settings
@@ -57,6 +61,9 @@ export async function updateEventBasicSettings(
   const firstTeeTime = formData.get("first_tee_time") as string;
   if (firstTeeTime) updates.first_tee_time = firstTeeTime;
 
+  const courseId = formData.get("course_id") as string | null;
+  if (courseId !== null) updates.course_id = courseId || null;
+
   // Duration
   const durationMode = formData.get("duration_mode") as string;
   if (durationMode) {
@@ -611,7 +618,13 @@ export async function updateFeatureFlags(
     allow_playing_partner_preferences?: boolean;
     allow_auto_grouping?: boolean;
     max_guests_per_week?: number;
+    guest_capacity_policy?: GuestCapacityPolicy;
+    max_visits_per_guest?: number | null;
+    guest_visit_limit_action?: GuestVisitLimitAction;
     penalty_box_enabled?: boolean;
+    waitlist_auto_promote?: boolean;
+    waitlist_post_cutoff_approval?: boolean;
+    waitlist_offer_hours?: number;
   }
 ) {
   await requireSuperAdmin();
@@ -625,6 +638,34 @@ export async function updateFeatureFlags(
       }
     }
 
+    // Validate guest_capacity_policy if provided
+    if (flags.guest_capacity_policy !== undefined) {
+      if (!(flags.guest_capacity_policy in GUEST_CAPACITY_POLICY_LABELS)) {
+        return { error: "Invalid guest capacity policy" };
+      }
+    }
+
+    // Validate max_visits_per_guest if provided (null = no limit)
+    if (flags.max_visits_per_guest !== undefined && flags.max_visits_per_guest !== null) {
+      if (!Number.isInteger(flags.max_visits_per_guest) || flags.max_visits_per_guest < 1 || flags.max_visits_per_guest > 52) {
+        return { error: "Max visits per guest must be between 1 and 52" };
+      }
+    }
+
+    // Validate guest_visit_limit_action if provided
+    if (flags.guest_visit_limit_action !== undefined) {
+      if (!(flags.guest_visit_limit_action in GUEST_VISIT_LIMIT_ACTION_LABELS)) {
+        return { error: "Invalid guest visit limit action" };
+      }
+    }
+
+    // Validate waitlist_offer_hours if provided
+    if (flags.waitlist_offer_hours !== undefined) {
+      if (![0, 2, 4, 12, 24].includes(flags.waitlist_offer_hours)) {
+        return { error: "Waitlist offer window must be 0, 2, 4, 12, or 24 hours" };
+      }
+    }
+
     const { error } = await supabase
       .from("events")
       .update(flags)
@@ -719,6 +760,488 @@ export async function updateHandicapSyncEnabled(
   }
 }
 
+const MAX_HANDICAP_FILE_BYTES = 1024 * 1024;
+
+/**
+ * Update handicaps from the handicap chair's export (.csv/.xlsx) instead
+ * of GHIN. Every subscribed golfer with a GHIN number is updated, however
+ * recently they synced; golfers missing from the file count as failed.
+ */
+export async function importHandicapFile(eventId: string, formData: FormData) {
+  await requireSuperAdmin();
+
+  const file = formData.get("file");
+  if (!(file instanceof File) || file.size === 0) {
+    return { error: "Choose a .csv or .xlsx handicap file" };
+  }
+  if (file.size > MAX_HANDICAP_FILE_BYTES) {
+    return { error: "File is too large (1 MB max)" };
+  }
+
+  try {
+    let provider: CsvHandicapProvider;
+    try {
+      provider = new CsvHandicapProvider(readHandicapFile(new Uint8Array(await file.arrayBuffer())));
+    } catch {
+      return { error: "Couldn't read that file. Expected GHIN and Handicap Index columns." };
+    }
+
+    const result = await runHandicapSync(eventId, { provider, freshnessHours: 0 });
+    if (!result.success) {
+      return { error: result.errorMessage || `${result.failureCount} golfers were not in the file` };
+    }
+
+    revalidatePath(`/admin/events/${eventId}/settings`);
+    return {
+      success: true,
+      updated: result.successCount,
+      failed: result.failureCount,
+    };
+  } catch (error) {
+    console.error("Import handicap file error:", error);
+    return { error: "Failed to import handicaps" };
+  }
+}
+
+// ============================================================
+// League Configuration and Seasons (super admin only)
+// ============================================================
+
+/** Revalidate the settings page and the event's public league page */
+async function revalidateLeaguePages(eventId: string) {
+  const supabase = createAdminClient();
+  const { data: event } = await supabase
+    .from("events")
+    .select("slug")
+    .eq("id", eventId)
+    .single();
+
+  revalidatePath(`/admin/events/${eventId}/settings`);
+  if (event?.slug) revalidatePath(`/league/${event.slug}`);
+}
+
+export async function updateLeagueConfig(
+  eventId: string,
+  settings: {
+    league_enabled: boolean;
+    season_name: string | null;
+    season_start: string | null;
+    season_end: string | null;
+    best_n: number | null;
+    total_m: number | null;
+    min_rounds_to_qualify: number | null;
+    prize_pool_total: number | null;
+    payout_config: number[];
+    tie_break_rules: TieBreakRule[];
+    tie_break_countback_weeks: number;
+  }
+) {
+  await requireSuperAdmin();
+  const { supabase } = await requireAdmin();
+
+  const isDate = (d: string | null) => d === null || /^\d{4}-\d{2}-\d{2}$/.test(d);
+  const isCount = (n: number | null) => n === null || (Number.isInteger(n) && n > 0);
+
+  if (!isDate(settings.season_start) || !isDate(settings.season_end)) {
+    return { error: "Season dates must be valid dates" };
+  }
+  if (settings.season_start && settings.season_end && settings.season_end < settings.season_start) {
+    return { error: "Season end must be on or after the season start" };
+  }
+  if (!isCount(settings.best_n) || !isCount(settings.total_m) || !isCount(settings.min_rounds_to_qualify)) {
+    return { error: "Week counts must be whole numbers greater than 0" };
+  }
+  if (settings.total_m !== null) {
+    if (settings.best_n !== null && settings.best_n > settings.total_m) {
+      return { error: "Best rounds counted can't exceed the weeks in the season" };
+    }
+    if (settings.min_rounds_to_qualify !== null && settings.min_rounds_to_qualify > settings.total_m) {
+      return { error: "Rounds to qualify can't exceed the weeks in the season" };
+    }
+  }
+  if (settings.prize_pool_total !== null && !(settings.prize_pool_total >= 0)) {
+    return { error: "Prize pool must be 0 or more" };
+  }
+  if (settings.payout_config.some((p) => !(p > 0))) {
+    return { error: "Payout percentages must be greater than 0" };
+  }
+  const payoutTotal = settings.payout_config.reduce((sum, p) => sum + p, 0);
+  if (payoutTotal > 100.001) {
+    return { error: `Payout percentages add up to ${Number(payoutTotal.toFixed(2))}% — they can't exceed 100%` };
+  }
+  if (
+    settings.tie_break_rules.some((r) => !(r in TIE_BREAK_RULE_LABELS)) ||
+    new Set(settings.tie_break_rules).size !== settings.tie_break_rules.length
+  ) {
+    return { error: "Invalid tie-break rules" };
+  }
+  if (!Number.isInteger(settings.tie_break_countback_weeks) || settings.tie_break_countback_weeks < 1) {
+    return { error: "Countback weeks must be a whole number greater than 0" };
+  }
+
+  const { league_enabled, season_name, ...seasonSettings } = settings;
+
+  try {
+    const now = new Date().toISOString();
+    const { error: configError } = await supabase
+      .from("event_league_config")
+      .upsert(
+        { event_id: eventId, league_enabled, updated_at: now },
+        { onConflict: "event_id" }
+      );
+
+    if (configError) throw configError;
+
+    // Scoring settings belong to the current season (created on first save)
+    const seasonRow = {
+      ...seasonSettings,
+      payout_config: settings.payout_config.length > 0 ? settings.payout_config : null,
+      updated_at: now,
+    };
+
+    const { data: current } = await supabase
+      .from("league_seasons")
+      .select("id")
+      .eq("event_id", eventId)
+      .eq("is_current", true)
+      .maybeSingle();
+
+    const { error: seasonError } = current
+      ? await supabase
+          .from("league_seasons")
+          .update({ ...seasonRow, ...(season_name?.trim() && { name: season_name.trim() }) })
+          .eq("id", current.id)
+      : await supabase
+          .from("league_seasons")
+          .insert({
+            ...seasonRow,
+            event_id: eventId,
+            name: season_name?.trim() || "Season 1",
+            is_current: true,
+          });
+
+    if (seasonError) throw seasonError;
+
+    await revalidateLeaguePages(eventId);
+    return { success: true };
+  } catch (error) {
+    console.error("Update league config error:", error);
+    return { error: "Failed to update league settings" };
+  }
+}
+
+/**
+ * Start a new league season. The current season is kept (with its scores,
+ * money and final standings) and the new one becomes current, starting
+ * with a copy of its scoring and prize settings.
+ */
+export async function startLeagueSeason(
+  eventId: string,
+  season: { name: string; season_start: string; season_end: string | null }
+) {
+  await requireSuperAdmin();
+  const { supabase } = await requireAdmin();
+
+  const name = season.name.trim();
+  if (!name) {
+    return { error: "Season name is required" };
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(season.season_start)) {
+    return { error: "Season start date is required" };
+  }
+  if (season.season_end && season.season_end < season.season_start) {
+    return { error: "Season end must be on or after the season start" };
+  }
+
+  try {
+    const { data: current } = await supabase
+      .from("league_seasons")
+      .select("*")
+      .eq("event_id", eventId)
+      .eq("is_current", true)
+      .maybeSingle();
+
+    if (current?.season_start && season.season_start <= current.season_start) {
+      return { error: "The new season must start after the current one" };
+    }
+
+    // Only one current season per event — retire the old one first
+    if (current) {
+      const { error } = await supabase
+        .from("league_seasons")
+        .update({ is_current: false, updated_at: new Date().toISOString() })
+        .eq("id", current.id);
+      if (error) throw error;
+    }
+
+    const { error: insertError } = await supabase.from("league_seasons").insert({
+      event_id: eventId,
+      name,
+      season_start: season.season_start,
+      season_end: season.season_end || null,
+      best_n: current?.best_n ?? null,
+      total_m: current?.total_m ?? null,
+      min_rounds_to_qualify: current?.min_rounds_to_qualify ?? null,
+      prize_pool_total: current?.prize_pool_total ?? null,
+      payout_config: current?.payout_config ?? null,
+      tie_break_rules: current?.tie_break_rules ?? [],
+      tie_break_countback_weeks: current?.tie_break_countback_weeks ?? 3,
+      is_current: true,
+    });
+
+    if (insertError) {
+      if (current) {
+        await supabase.from("league_seasons").update({ is_current: true }).eq("id", current.id);
+      }
+      throw insertError;
+    }
+
+    await revalidateLeaguePages(eventId);
+    return { success: true };
+  } catch (error) {
+    console.error("Start league season error:", error);
+    return { error: "Failed to start the new season" };
+  }
+}
+
+// ============================================================
+// League Tabs (super admin only)
+// ============================================================
+
+const VALID_LEAGUE_TAB_TYPES: LeagueTabContentType[] = ['html', 'leaderboard', 'weekly_results'];
+
+export async function createLeagueTab(
+  eventId: string,
+  label: string,
+  contentType: LeagueTabContentType
+) {
+  await requireSuperAdmin();
+  const { supabase } = await requireAdmin();
+
+  const trimmed = label.trim();
+  if (!trimmed) {
+    return { error: "Tab label is required" };
+  }
+  if (!VALID_LEAGUE_TAB_TYPES.includes(contentType)) {
+    return { error: "Invalid tab type" };
+  }
+
+  const tabKey = trimmed
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+
+  try {
+    // New tabs go at the end
+    const { data: last } = await supabase
+      .from("event_league_tabs")
+      .select("sort_order")
+      .eq("event_id", eventId)
+      .order("sort_order", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { error } = await supabase
+      .from("event_league_tabs")
+      .insert({
+        event_id: eventId,
+        tab_key: tabKey || "tab",
+        label: trimmed,
+        content_type: contentType,
+        content: null,
+        sort_order: (last?.sort_order ?? 0) + 1,
+        is_active: false,
+      });
+
+    if (error) {
+      if (error.code === "23505") {
+        return { error: "A tab with this name already exists" };
+      }
+      throw error;
+    }
+
+    await revalidateLeaguePages(eventId);
+    return { success: true };
+  } catch (error) {
+    console.error("Create league tab error:", error);
+    return { error: "Failed to create tab" };
+  }
+}
+
+export async function updateLeagueTab(
+  eventId: string,
+  tabId: string,
+  updates: { label?: string; content?: string | null; is_active?: boolean }
+) {
+  await requireSuperAdmin();
+  const { supabase } = await requireAdmin();
+
+  if (updates.label !== undefined && !updates.label.trim()) {
+    return { error: "Tab label is required" };
+  }
+
+  try {
+    const { error } = await supabase
+      .from("event_league_tabs")
+      .update({
+        ...updates,
+        ...(updates.label !== undefined && { label: updates.label.trim() }),
+        ...(updates.content !== undefined && { content: updates.content?.trim() || null }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", tabId)
+      .eq("event_id", eventId);
+
+    if (error) throw error;
+
+    await revalidateLeaguePages(eventId);
+    return { success: true };
+  } catch (error) {
+    console.error("Update league tab error:", error);
+    return { error: "Failed to update tab" };
+  }
+}
+
+/**
+ * Swap a tab's sort_order with its neighbour above or below.
+ */
+export async function moveLeagueTab(
+  eventId: string,
+  tabId: string,
+  direction: "up" | "down"
+) {
+  await requireSuperAdmin();
+  const { supabase } = await requireAdmin();
+
+  try {
+    const { data: tabs, error: fetchError } = await supabase
+      .from("event_league_tabs")
+      .select("id, sort_order")
+      .eq("event_id", eventId)
+      .order("sort_order");
+
+    if (fetchError) throw fetchError;
+
+    const list = tabs || [];
+    const index = list.findIndex((t) => t.id === tabId);
+    const swapIndex = direction === "up" ? index - 1 : index + 1;
+    if (index === -1 || swapIndex < 0 || swapIndex >= list.length) {
+      return { success: true };
+    }
+
+    // Renumber in display order so duplicate sort_order values can't stall a move
+    const reordered = [...list];
+    [reordered[index], reordered[swapIndex]] = [reordered[swapIndex], reordered[index]];
+
+    for (const [i, tab] of reordered.entries()) {
+      if (tab.sort_order === i + 1) continue;
+      const { error } = await supabase
+        .from("event_league_tabs")
+        .update({ sort_order: i + 1 })
+        .eq("id", tab.id);
+      if (error) throw error;
+    }
+
+    await revalidateLeaguePages(eventId);
+    return { success: true };
+  } catch (error) {
+    console.error("Move league tab error:", error);
+    return { error: "Failed to reorder tabs" };
+  }
+}
+
+// ============================================================
+// League Tees (super admin only)
+// ============================================================
+
+/**
+ * Create or update a tee used for hole-by-hole net scoring.
+ * Pass teeId to update an existing tee.
+ */
+export async function saveLeagueTee(
+  eventId: string,
+  teeId: string | null,
+  tee: {
+    name: string;
+    pars: number[];
+    stroke_indexes: number[];
+    course_rating: number;
+    slope_rating: number;
+  }
+) {
+  await requireSuperAdmin();
+  const { supabase } = await requireAdmin();
+
+  const name = tee.name.trim();
+  if (!name) {
+    return { error: "Tee name is required" };
+  }
+  const layoutError = validateTeeLayout(tee.pars, tee.stroke_indexes);
+  if (layoutError) {
+    return { error: layoutError };
+  }
+  if (!Number.isFinite(tee.course_rating) || tee.course_rating < 25 || tee.course_rating > 80) {
+    return { error: "Enter the course rating for these holes (e.g. 35.4 for nine holes)" };
+  }
+  if (!Number.isInteger(tee.slope_rating) || tee.slope_rating < 55 || tee.slope_rating > 155) {
+    return { error: "Slope rating must be a whole number from 55 to 155" };
+  }
+
+  const row = {
+    name,
+    pars: tee.pars,
+    stroke_indexes: tee.stroke_indexes,
+    course_rating: tee.course_rating,
+    slope_rating: tee.slope_rating,
+    updated_at: new Date().toISOString(),
+  };
+
+  try {
+    const { error } = teeId
+      ? await supabase.from("league_tees").update(row).eq("id", teeId).eq("event_id", eventId)
+      : await supabase.from("league_tees").insert({ event_id: eventId, ...row });
+
+    if (error) {
+      if (error.code === "23505") {
+        return { error: `A tee named "${name}" already exists` };
+      }
+      throw error;
+    }
+
+    revalidatePath(`/admin/events/${eventId}/settings`);
+    revalidatePath(`/admin/events/${eventId}/scores`);
+    return { success: true };
+  } catch (error) {
+    console.error("Save league tee error:", error);
+    return { error: "Failed to save tee" };
+  }
+}
+
+/**
+ * Delete a tee. Scores already entered on it keep their per-hole
+ * breakdown in league_scores.metadata.
+ */
+export async function deleteLeagueTee(eventId: string, teeId: string) {
+  await requireSuperAdmin();
+  const { supabase } = await requireAdmin();
+
+  try {
+    const { error } = await supabase
+      .from("league_tees")
+      .delete()
+      .eq("id", teeId)
+      .eq("event_id", eventId);
+    if (error) throw error;
+
+    revalidatePath(`/admin/events/${eventId}/settings`);
+    revalidatePath(`/admin/events/${eventId}/scores`);
+    return { success: true };
+  } catch (error) {
+    console.error("Delete league tee error:", error);
+    return { error: "Failed to delete tee" };
+  }
+}
+
 // ============================================================
 // Deactivate Event
 // ============================================================
@@ -17,14 +17,15 @@ import {
   updateFeatureFlags,
   updateGroupingPreferences,
   updateHandicapSyncEnabled,
+  importHandicapFile,
   addDoNotPairRestriction,
   removeDoNotPairRestriction,
   deactivateEvent,
   reactivateEvent,
   permanentlyDeleteEvent,
 } from "./actions";
-import type { AlertType, GroupingPartnerPrefMode, GroupingTeeTimePrefMode, GroupingMethod, FlightTeamPairing } from "@/types/events";
-import { PARTNER_PREF_MODE_LABELS, TEE_TIME_PREF_MODE_LABELS, GROUPING_METHOD_LABELS, FLIGHT_TEAM_PAIRING_LABELS, isHandicapMethod } from "@/types/events";
+import type { Course, AlertType, GroupingPartnerPrefMode, GroupingTeeTimePrefMode, GroupingMethod, FlightTeamPairing, GuestCapacityPolicy, GuestVisitLimitAction } from "@/types/events";
+import { PARTNER_PREF_MODE_LABELS, TEE_TIME_PREF_MODE_LABELS, GROUPING_METHOD_LABELS, FLIGHT_TEAM_PAIRING_LABELS, GUEST_CAPACITY_POLICY_LABELS, GUEST_VISIT_LIMIT_ACTION_LABELS, isHandicapMethod } from "@/types/events";
 
 const DAY_NAMES = [
   "Sunday",
@@ -92,7 +93,7 @@ function snapToNearest45(time: string | undefined | null): string {
 // Basic Settings Form
 // ============================================================
 
-export function BasicSettingsForm({ event }: { event: any }) {
+export function BasicSettingsForm({ event, courses }: { event: any; courses: Course[] }) {
   const [isPending, startTransition] = useTransition();
   const [message, setMessage] = useState<string | null>(null);
   const [slug, setSlug] = useState<string>(event.slug || "");
@@ -256,6 +257,27 @@ export function BasicSettingsForm({ event }: { event: any }) {
             When the first group typically tees off. Used for weather forecasts.
           </p>
         </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Home Course
+          </label>
+          <select
+            name="course_id"
+            defaultValue={event.course_id || ""}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+          >
+            <option value="">No course (no weather forecast)</option>
+            {courses.map((course) => (
+              <option key={course.id} value={course.id}>
+                {course.name}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            Where weather forecasts are fetched for. Change a single game&apos;s course on the Schedule page.
+          </p>
+        </div>
       </div>
 
       {/* Duration Mode */}
@@ -1752,6 +1774,105 @@ export function FeatureFlagsForm({ event }: { event: any }) {
             </div>
           </div>
         )}
+
+        {/* Guest capacity policy — shown when guest requests are ON */}
+        {guestRequestsEnabled && (
+          <div className="ml-1 rounded-md border border-gray-200 bg-gray-50 p-4">
+            <p className="text-sm font-medium text-gray-700">Guests and capacity</p>
+            <p className="mb-2 text-xs text-gray-500">
+              Approved guests count toward the game&apos;s capacity. Guests who can&apos;t get a spot wait on their own guest waitlist.
+            </p>
+            <div className="space-y-2">
+              {(Object.keys(GUEST_CAPACITY_POLICY_LABELS) as GuestCapacityPolicy[]).map((policy) => (
+                <button
+                  key={policy}
+                  onClick={() => {
+                    startTransition(async () => {
+                      const result = await updateFeatureFlags(event.id, { guest_capacity_policy: policy });
+                      if (result.error) {
+                        setMessage({ text: result.error, isError: true });
+                      } else {
+                        setMessage({ text: `Guest capacity set to ${GUEST_CAPACITY_POLICY_LABELS[policy].label}`, isError: false });
+                      }
+                    });
+                  }}
+                  disabled={isPending}
+                  className={`block w-full rounded-lg border-2 px-3 py-2 text-left transition-colors ${
+                    (event.guest_capacity_policy || "members_first") === policy
+                      ? "border-teal-500 bg-teal-50"
+                      : "border-gray-200 bg-white hover:border-gray-300"
+                  } ${isPending ? "opacity-50" : ""}`}
+                >
+                  <p className="text-sm font-semibold text-gray-900">{GUEST_CAPACITY_POLICY_LABELS[policy].label}</p>
+                  <p className="text-xs text-gray-500">{GUEST_CAPACITY_POLICY_LABELS[policy].description}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Per-guest visit limit — shown when guest requests are ON */}
+        {guestRequestsEnabled && (
+          <div className="ml-1 rounded-md border border-gray-200 bg-gray-50 p-4">
+            <p className="text-sm font-medium text-gray-700">Max visits per guest per season</p>
+            <p className="mb-2 text-xs text-gray-500">
+              Counts every request for the same guest, whichever member brings them. A season is the league season, or the calendar year without one.
+            </p>
+            <div className="flex flex-wrap gap-3">
+              {[null, 3, 5, 8, 12].map((value) => (
+                <button
+                  key={value ?? "none"}
+                  onClick={() => {
+                    startTransition(async () => {
+                      const result = await updateFeatureFlags(event.id, { max_visits_per_guest: value });
+                      if (result.error) {
+                        setMessage({ text: result.error, isError: true });
+                      } else {
+                        setMessage({ text: value ? `Guests limited to ${value} visits per season` : "Guest visit limit removed", isError: false });
+                      }
+                    });
+                  }}
+                  disabled={isPending}
+                  className={`flex h-10 min-w-14 items-center justify-center rounded-lg border-2 px-3 text-sm font-semibold transition-colors ${
+                    (event.max_visits_per_guest ?? null) === value
+                      ? "border-teal-500 bg-teal-50 text-teal-700"
+                      : "border-gray-200 bg-white text-gray-600 hover:border-gray-300"
+                  } ${isPending ? "opacity-50" : ""}`}
+                >
+                  {value ?? "No limit"}
+                </button>
+              ))}
+            </div>
+            {event.max_visits_per_guest && (
+              <div className="mt-3 space-y-2">
+                {(Object.keys(GUEST_VISIT_LIMIT_ACTION_LABELS) as GuestVisitLimitAction[]).map((action) => (
+                  <button
+                    key={action}
+                    onClick={() => {
+                      startTransition(async () => {
+                        const result = await updateFeatureFlags(event.id, { guest_visit_limit_action: action });
+                        if (result.error) {
+                          setMessage({ text: result.error, isError: true });
+                        } else {
+                          setMessage({ text: `Requests over the limit: ${GUEST_VISIT_LIMIT_ACTION_LABELS[action].label}`, isError: false });
+                        }
+                      });
+                    }}
+                    disabled={isPending}
+                    className={`block w-full rounded-lg border-2 px-3 py-2 text-left transition-colors ${
+                      (event.guest_visit_limit_action || "flag") === action
+                        ? "border-teal-500 bg-teal-50"
+                        : "border-gray-200 bg-white hover:border-gray-300"
+                    } ${isPending ? "opacity-50" : ""}`}
+                  >
+                    <p className="text-sm font-semibold text-gray-900">{GUEST_VISIT_LIMIT_ACTION_LABELS[action].label}</p>
+                    <p className="text-xs text-gray-500">{GUEST_VISIT_LIMIT_ACTION_LABELS[action].description}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Penalty Box Toggle */}
@@ -1788,6 +1909,124 @@ export function FeatureFlagsForm({ event }: { event: any }) {
           />
         </button>
       </div>
+
+      {/* Waitlist Auto-Promotion Toggle */}
+      <div className="space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium text-gray-900">Automatic Waitlist Promotion</p>
+            <p className="text-xs text-gray-500">When a spot opens, offer it to the next golfer on the waitlist (or move them in) and notify them</p>
+          </div>
+          <button
+            onClick={() => {
+              startTransition(async () => {
+                const result = await updateFeatureFlags(event.id, {
+                  waitlist_auto_promote: !event.waitlist_auto_promote,
+                });
+                if (result.error) {
+                  setMessage({ text: result.error, isError: true });
+                } else {
+                  setMessage({
+                    text: event.waitlist_auto_promote ? "Automatic waitlist promotion disabled" : "Automatic waitlist promotion enabled",
+                    isError: false,
+                  });
+                }
+              });
+            }}
+            disabled={isPending}
+            className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 ${
+              event.waitlist_auto_promote ? "bg-teal-500" : "bg-gray-200"
+            } ${isPending ? "opacity-50" : ""}`}
+          >
+            <span
+              className={`inline-block h-5 w-5 rounded-full bg-white shadow transition-transform duration-200 ${
+                event.waitlist_auto_promote ? "translate-x-5" : "translate-x-0"
+              }`}
+            />
+          </button>
+        </div>
+
+        {/* Offer window selector — shown when auto-promotion is ON */}
+        {event.waitlist_auto_promote && (
+          <div className="ml-1 rounded-md border border-gray-200 bg-gray-50 p-4">
+            <p className="text-sm font-medium text-gray-700">Time to claim an open spot</p>
+            <p className="mb-2 text-xs text-gray-500">
+              The next golfer gets a claim link and the spot is held until it expires, then it passes down the list. &quot;Instant&quot; moves them in without asking.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {[0, 2, 4, 12, 24].map((hours) => (
+                <button
+                  key={hours}
+                  onClick={() => {
+                    startTransition(async () => {
+                      const result = await updateFeatureFlags(event.id, { waitlist_offer_hours: hours });
+                      if (result.error) {
+                        setMessage({ text: result.error, isError: true });
+                      } else {
+                        setMessage({
+                          text: hours === 0
+                            ? "Waitlist golfers will be promoted instantly"
+                            : `Waitlist offers will expire after ${hours} hours`,
+                          isError: false,
+                        });
+                      }
+                    });
+                  }}
+                  disabled={isPending}
+                  className={`flex h-10 items-center justify-center rounded-lg border-2 px-3 text-sm font-semibold transition-colors ${
+                    (event.waitlist_offer_hours ?? 4) === hours
+                      ? "border-teal-500 bg-teal-50 text-teal-700"
+                      : "border-gray-200 bg-white text-gray-600 hover:border-gray-300"
+                  } ${isPending ? "opacity-50" : ""}`}
+                >
+                  {hours === 0 ? "Instant" : `${hours} hrs`}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Post-cutoff approval — shown when auto-promotion is ON */}
+        {event.waitlist_auto_promote && (
+          <div className="ml-1 flex items-start justify-between gap-4 rounded-md border border-gray-200 bg-gray-50 p-4">
+            <div>
+              <p className="text-sm font-medium text-gray-700">Require admin approval after cutoff</p>
+              <p className="text-xs text-gray-500">
+                Spots that open after the RSVP cutoff are left for an admin to fill manually
+              </p>
+            </div>
+            <button
+              onClick={() => {
+                startTransition(async () => {
+                  const result = await updateFeatureFlags(event.id, {
+                    waitlist_post_cutoff_approval: !event.waitlist_post_cutoff_approval,
+                  });
+                  if (result.error) {
+                    setMessage({ text: result.error, isError: true });
+                  } else {
+                    setMessage({
+                      text: event.waitlist_post_cutoff_approval
+                        ? "Post-cutoff openings will be filled automatically"
+                        : "Post-cutoff openings now require admin approval",
+                      isError: false,
+                    });
+                  }
+                });
+              }}
+              disabled={isPending}
+              className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 ${
+                event.waitlist_post_cutoff_approval ? "bg-teal-500" : "bg-gray-200"
+              } ${isPending ? "opacity-50" : ""}`}
+            >
+              <span
+                className={`inline-block h-5 w-5 rounded-full bg-white shadow transition-transform duration-200 ${
+                  event.waitlist_post_cutoff_approval ? "translate-x-5" : "translate-x-0"
+                }`}
+              />
+            </button>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -1803,6 +2042,7 @@ interface HandicapSyncStatus {
   totalGolfers: number;
   failureCount: number;
   errorMessage: string | null;
+  provider: "ghin" | "csv_import" | "fake" | null;
 }
 
 export function HandicapSyncForm({
@@ -1822,6 +2062,25 @@ export function HandicapSyncForm({
     });
   };
 
+  const [isImporting, startImport] = useTransition();
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleImport = (formData: FormData) => {
+    setImportMessage(null);
+    startImport(async () => {
+      const result = await importHandicapFile(event.id, formData);
+      if ("error" in result) {
+        setImportMessage({ text: result.error!, isError: true });
+        return;
+      }
+      setImportMessage({
+        text: `Updated ${result.updated} handicaps` + (result.failed ? ` · ${result.failed} golfers not in the file` : ""),
+        isError: result.failed > 0,
+      });
+      router.refresh();
+    });
+  };
+
   const statusConfig = {
     healthy: { label: "Healthy", color: "bg-green-100 text-green-800", dot: "bg-green-500" },
     partial: { label: "Partial", color: "bg-amber-100 text-amber-800", dot: "bg-amber-500" },
@@ -1877,6 +2136,7 @@ export function HandicapSyncForm({
                 minute: "2-digit",
                 hour12: true,
               })} PT
+              {syncStatus.provider === "csv_import" && " from an uploaded file"}
             </p>
           )}
           {status !== "never" && (
@@ -1893,6 +2153,36 @@ export function HandicapSyncForm({
         </div>
       )}
 
+      {/* Handicap file upload */}
+      <div className="border-t border-gray-100 pt-4">
+        <p className="text-sm font-medium text-gray-900">Import from File</p>
+        <p className="text-xs text-gray-500">
+          Update handicaps from the handicap chair&apos;s export instead of GHIN. Needs
+          GHIN and Handicap Index columns; Low HI and Low HI Date are optional.
+        </p>
+        <form action={handleImport} className="mt-2 flex flex-wrap items-center gap-3">
+          <input
+            type="file"
+            name="file"
+            accept=".csv,.xls,.xlsx"
+            required
+            className="text-sm text-gray-700 file:mr-3 file:rounded-md file:border-0 file:bg-gray-100 file:px-3 file:py-2 file:text-sm file:font-medium file:text-gray-700 hover:file:bg-gray-200"
+          />
+          <button
+            type="submit"
+            disabled={isImporting}
+            className="rounded-md bg-teal-600 px-4 py-2 text-sm font-semibold text-white hover:bg-teal-500 disabled:opacity-50"
+          >
+            {isImporting ? "Importing..." : "Import"}
+          </button>
+        </form>
+        {importMessage && (
+          <p className={`mt-2 text-sm ${importMessage.isError ? "text-red-600" : "text-teal-500"}`}>
+            {importMessage.text}
+          </p>
+        )}
+      </div>
+
       {/* Info Note */}
       <p className="rounded-md bg-blue-50 p-3 text-xs text-blue-700">
         Requires GHIN credentials (GHIN_EMAIL and GHIN_PASSWORD) to be configured
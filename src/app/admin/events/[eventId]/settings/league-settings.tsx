@@ -0,0 +1,972 @@
+"use client";
+
+import { useTransition, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  updateLeagueConfig,
+  startLeagueSeason,
+  createLeagueTab,
+  updateLeagueTab,
+  moveLeagueTab,
+  saveLeagueTee,
+  deleteLeagueTee,
+} from "./actions";
+import type { LeagueSeason, LeagueTab, LeagueTee, LeagueTabContentType, TieBreakRule } from "@/types/events";
+import { TIE_BREAK_RULE_LABELS } from "@/types/events";
+import { sanitizeHtml } from "@/lib/sanitize-html";
+
+const INPUT_CLASS =
+  "mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500";
+
+const TAB_TYPE_LABELS: Record<LeagueTabContentType, string> = {
+  html: "Content",
+  leaderboard: "Leaderboard",
+  weekly_results: "Weekly Results",
+};
+
+const ALL_TIE_BREAK_RULES = Object.keys(TIE_BREAK_RULE_LABELS) as TieBreakRule[];
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] || "th";
+  return `${n}${suffix}`;
+}
+
+/** Empty input → null, otherwise the parsed number (NaN fails validation server-side) */
+function parseOptionalNumber(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+// ============================================================
+// League Configuration
+// ============================================================
+
+export function LeagueConfigForm({
+  eventId,
+  leagueEnabled,
+  season,
+}: {
+  eventId: string;
+  leagueEnabled: boolean;
+  /** Current season (null until the league is first saved) */
+  season: LeagueSeason | null;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const [enabled, setEnabled] = useState(leagueEnabled);
+  const [seasonName, setSeasonName] = useState(season?.name || "");
+  const [seasonStart, setSeasonStart] = useState(season?.season_start || "");
+  const [seasonEnd, setSeasonEnd] = useState(season?.season_end || "");
+  const [totalM, setTotalM] = useState(season?.total_m?.toString() || "");
+  const [bestN, setBestN] = useState(season?.best_n?.toString() || "");
+  const [minRounds, setMinRounds] = useState(season?.min_rounds_to_qualify?.toString() || "");
+  const [prizePool, setPrizePool] = useState(season?.prize_pool_total?.toString() || "");
+  const [payouts, setPayouts] = useState<string[]>((season?.payout_config || []).map(String));
+  const [tieBreakRules, setTieBreakRules] = useState<TieBreakRule[]>(season?.tie_break_rules || []);
+  const [countbackWeeks, setCountbackWeeks] = useState(
+    (season?.tie_break_countback_weeks ?? 3).toString()
+  );
+
+  const payoutTotal = payouts.reduce((sum, p) => sum + (Number(p) || 0), 0);
+  const pool = Number(prizePool) || 0;
+
+  const toggleRule = (rule: TieBreakRule) => {
+    setTieBreakRules((rules) =>
+      rules.includes(rule) ? rules.filter((r) => r !== rule) : [...rules, rule]
+    );
+  };
+
+  const moveRule = (index: number, offset: -1 | 1) => {
+    setTieBreakRules((rules) => {
+      const next = [...rules];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await updateLeagueConfig(eventId, {
+        league_enabled: enabled,
+        season_name: seasonName || null,
+        season_start: seasonStart || null,
+        season_end: seasonEnd || null,
+        best_n: parseOptionalNumber(bestN),
+        total_m: parseOptionalNumber(totalM),
+        min_rounds_to_qualify: parseOptionalNumber(minRounds),
+        prize_pool_total: parseOptionalNumber(prizePool),
+        payout_config: payouts.filter((p) => p.trim() !== "").map(Number),
+        tie_break_rules: tieBreakRules,
+        tie_break_countback_weeks: Number(countbackWeeks),
+      });
+      if (result.error) {
+        setMessage({ text: result.error, isError: true });
+      } else {
+        setMessage({ text: "League settings saved.", isError: false });
+        setTimeout(() => setMessage(null), 3000);
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* League toggle */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-gray-900">League Page</p>
+          <p className="text-xs text-gray-500">
+            Show the league page, standings and score tools for this event
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setEnabled(!enabled)}
+          disabled={isPending}
+          className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 ${
+            enabled ? "bg-teal-500" : "bg-gray-200"
+          } ${isPending ? "opacity-50" : ""}`}
+        >
+          <span
+            className={`inline-block h-5 w-5 rounded-full bg-white shadow transition-transform duration-200 ${
+              enabled ? "translate-x-5" : "translate-x-0"
+            }`}
+          />
+        </button>
+      </div>
+
+      {/* Season */}
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="sm:col-span-3">
+          <label className="block text-sm font-medium text-gray-700">Season Name</label>
+          <input
+            value={seasonName}
+            onChange={(e) => setSeasonName(e.target.value)}
+            placeholder="e.g., 2026 Summer Season"
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Season Start</label>
+          <input
+            type="date"
+            value={seasonStart}
+            onChange={(e) => setSeasonStart(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Season End</label>
+          <input
+            type="date"
+            value={seasonEnd}
+            onChange={(e) => setSeasonEnd(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Weeks in Season</label>
+          <input
+            type="number"
+            min={1}
+            value={totalM}
+            onChange={(e) => setTotalM(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Best Rounds Counted</label>
+          <input
+            type="number"
+            min={1}
+            value={bestN}
+            onChange={(e) => setBestN(e.target.value)}
+            placeholder="All"
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Rounds to Qualify</label>
+          <input
+            type="number"
+            min={1}
+            value={minRounds}
+            onChange={(e) => setMinRounds(e.target.value)}
+            placeholder="None"
+            className={INPUT_CLASS}
+          />
+        </div>
+      </div>
+
+      {/* Prize pool and payouts */}
+      <div className="border-t border-gray-100 pt-5">
+        <div className="max-w-xs">
+          <label className="block text-sm font-medium text-gray-700">Prize Pool ($)</label>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={prizePool}
+            onChange={(e) => setPrizePool(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </div>
+
+        <p className="mt-4 text-sm font-medium text-gray-700">Payout Percentages</p>
+        {payouts.length === 0 ? (
+          <p className="mt-1 text-xs text-gray-500">No paid places yet.</p>
+        ) : (
+          <ul className="mt-2 space-y-2">
+            {payouts.map((percent, i) => (
+              <li key={i} className="flex items-center gap-3">
+                <span className="w-10 text-sm text-gray-500">{ordinal(i + 1)}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.5"
+                  value={percent}
+                  onChange={(e) =>
+                    setPayouts(payouts.map((p, j) => (j === i ? e.target.value : p)))
+                  }
+                  className="block w-24 rounded-md border border-gray-300 px-3 py-1.5 text-sm shadow-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+                  aria-label={`${ordinal(i + 1)} place percentage`}
+                />
+                <span className="text-sm text-gray-500">%</span>
+                {pool > 0 && (
+                  <span className="text-sm tabular-nums text-gray-500">
+                    ${((pool * (Number(percent) || 0)) / 100).toFixed(2)}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="mt-3 flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => setPayouts([...payouts, ""])}
+            className="rounded-md bg-gray-100 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-200"
+          >
+            Add Place
+          </button>
+          {payouts.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setPayouts(payouts.slice(0, -1))}
+              className="text-sm text-red-600 hover:text-red-800"
+            >
+              Remove {ordinal(payouts.length)}
+            </button>
+          )}
+          {payouts.length > 0 && (
+            <span className={`ml-auto text-sm ${payoutTotal > 100 ? "font-semibold text-red-600" : "text-gray-500"}`}>
+              Total {Number(payoutTotal.toFixed(2))}%
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Tie-breaks */}
+      <div className="border-t border-gray-100 pt-5">
+        <p className="text-sm font-medium text-gray-700">Tie-Break Rules</p>
+        <p className="text-xs text-gray-500">
+          Applied in order to golfers with the same season total. With no rules
+          selected, tied golfers share a rank.
+        </p>
+        <ul className="mt-3 space-y-2">
+          {tieBreakRules.map((rule, i) => (
+            <li key={rule} className="flex items-center gap-3 rounded-md border border-teal-200 bg-teal-50 px-3 py-2">
+              <span className="w-5 text-sm font-semibold text-teal-700">{i + 1}</span>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-gray-900">{TIE_BREAK_RULE_LABELS[rule].label}</p>
+                <p className="text-xs text-gray-500">{TIE_BREAK_RULE_LABELS[rule].description}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => moveRule(i, -1)}
+                disabled={i === 0}
+                aria-label={`Move ${TIE_BREAK_RULE_LABELS[rule].label} up`}
+                className="rounded px-1.5 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => moveRule(i, 1)}
+                disabled={i === tieBreakRules.length - 1}
+                aria-label={`Move ${TIE_BREAK_RULE_LABELS[rule].label} down`}
+                className="rounded px-1.5 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => toggleRule(rule)}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+          {ALL_TIE_BREAK_RULES.filter((rule) => !tieBreakRules.includes(rule)).map((rule) => (
+            <li key={rule} className="flex items-center gap-3 rounded-md border border-gray-200 px-3 py-2">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-gray-700">{TIE_BREAK_RULE_LABELS[rule].label}</p>
+                <p className="text-xs text-gray-500">{TIE_BREAK_RULE_LABELS[rule].description}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => toggleRule(rule)}
+                className="text-sm font-medium text-teal-600 hover:text-teal-800"
+              >
+                Add
+              </button>
+            </li>
+          ))}
+        </ul>
+        {tieBreakRules.includes("countback") && (
+          <div className="mt-3 flex items-center gap-2">
+            <label className="text-sm text-gray-700">Countback over the last</label>
+            <input
+              type="number"
+              min={1}
+              value={countbackWeeks}
+              onChange={(e) => setCountbackWeeks(e.target.value)}
+              className="block w-20 rounded-md border border-gray-300 px-3 py-1.5 text-sm shadow-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+            />
+            <span className="text-sm text-gray-700">weeks played</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3 border-t border-gray-100 pt-5">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isPending}
+          className="rounded-md bg-teal-600 px-4 py-2 text-sm font-medium text-white hover:bg-teal-700 disabled:opacity-50"
+        >
+          {isPending ? "Saving..." : "Save League Settings"}
+        </button>
+        {message && (
+          <p className={`text-sm ${message.isError ? "text-red-600" : "text-teal-700"}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// League Seasons
+// ============================================================
+
+function formatSeasonDate(date: string | null): string {
+  if (!date) return "—";
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export function LeagueSeasonsSection({
+  eventId,
+  slug,
+  seasons,
+}: {
+  eventId: string;
+  slug: string | null;
+  seasons: LeagueSeason[];
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [message, setMessage] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [seasonStart, setSeasonStart] = useState("");
+  const [seasonEnd, setSeasonEnd] = useState("");
+
+  const handleStart = () => {
+    startTransition(async () => {
+      const result = await startLeagueSeason(eventId, {
+        name,
+        season_start: seasonStart,
+        season_end: seasonEnd || null,
+      });
+      if (result.error) {
+        setMessage(result.error);
+      } else {
+        setName("");
+        setSeasonStart("");
+        setSeasonEnd("");
+        setMessage(null);
+        router.refresh();
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {seasons.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No seasons yet — saving the league settings above creates the first one.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {seasons.map((season) => (
+            <li key={season.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  {season.name}
+                  {season.is_current && (
+                    <span className="ml-2 inline-flex rounded-full bg-teal-100 px-2 py-0.5 text-xs font-medium text-teal-700">
+                      Current
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {formatSeasonDate(season.season_start)} – {formatSeasonDate(season.season_end)}
+                </p>
+              </div>
+              {slug && (
+                <a
+                  href={season.is_current ? `/league/${slug}` : `/league/${slug}?season=${season.id}`}
+                  className="shrink-0 text-sm font-medium text-teal-600 hover:text-teal-800"
+                >
+                  Standings
+                </a>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {seasons.length > 0 && (
+        <div className="border-t border-gray-100 pt-5">
+          <p className="text-sm font-medium text-gray-700">Start a new season</p>
+          <p className="mb-3 text-xs text-gray-500">
+            The current season&apos;s scores and standings are kept and stay
+            browsable on the league page. The new season starts with the same
+            scoring and prize settings — adjust them above afterwards.
+          </p>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., 2027 Summer Season"
+              aria-label="New season name"
+              className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+            />
+            <input
+              type="date"
+              value={seasonStart}
+              onChange={(e) => setSeasonStart(e.target.value)}
+              aria-label="New season start"
+              className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+            />
+            <input
+              type="date"
+              value={seasonEnd}
+              onChange={(e) => setSeasonEnd(e.target.value)}
+              aria-label="New season end"
+              className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={isPending || !name.trim() || !seasonStart}
+            className="mt-3 rounded-md bg-teal-600 px-4 py-2 text-sm font-medium text-white hover:bg-teal-700 disabled:opacity-50"
+          >
+            Start Season
+          </button>
+          {message && <p className="mt-2 text-sm text-red-600">{message}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// League Tabs
+// ============================================================
+
+export function LeagueTabsSection({
+  eventId,
+  tabs,
+}: {
+  eventId: string;
+  tabs: LeagueTab[];
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [message, setMessage] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newLabel, setNewLabel] = useState("");
+  const [newType, setNewType] = useState<LeagueTabContentType>("html");
+
+  const run = (action: () => Promise<{ error?: string }>, onSuccess?: () => void) => {
+    startTransition(async () => {
+      const result = await action();
+      if (result.error) {
+        setMessage(result.error);
+      } else {
+        setMessage(null);
+        onSuccess?.();
+        router.refresh();
+      }
+    });
+  };
+
+  const handleCreate = () => {
+    run(
+      () => createLeagueTab(eventId, newLabel, newType),
+      () => setNewLabel("")
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {tabs.length === 0 ? (
+        <p className="text-sm text-gray-500">No tabs yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {tabs.map((tab, i) => (
+            <li key={tab.id} className="py-3">
+              <div className="flex items-center gap-3">
+                <div className="flex flex-col">
+                  <button
+                    type="button"
+                    onClick={() => run(() => moveLeagueTab(eventId, tab.id, "up"))}
+                    disabled={isPending || i === 0}
+                    aria-label={`Move ${tab.label} up`}
+                    className="px-1 text-xs leading-4 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                  >
+                    ▲
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => run(() => moveLeagueTab(eventId, tab.id, "down"))}
+                    disabled={isPending || i === tabs.length - 1}
+                    aria-label={`Move ${tab.label} down`}
+                    className="px-1 text-xs leading-4 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                  >
+                    ▼
+                  </button>
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className={`text-sm font-medium truncate ${tab.is_active ? "text-gray-900" : "text-gray-400"}`}>
+                    {tab.label}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {TAB_TYPE_LABELS[tab.content_type]}
+                    {!tab.is_active && " · Hidden"}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setEditingId(editingId === tab.id ? null : tab.id)}
+                  className="shrink-0 text-sm font-medium text-teal-600 hover:text-teal-800"
+                >
+                  {editingId === tab.id ? "Close" : "Edit"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => run(() => updateLeagueTab(eventId, tab.id, { is_active: !tab.is_active }))}
+                  disabled={isPending}
+                  aria-label={tab.is_active ? `Hide ${tab.label}` : `Show ${tab.label}`}
+                  className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 ${
+                    tab.is_active ? "bg-teal-500" : "bg-gray-200"
+                  } ${isPending ? "opacity-50" : ""}`}
+                >
+                  <span
+                    className={`inline-block h-5 w-5 rounded-full bg-white shadow transition-transform duration-200 ${
+                      tab.is_active ? "translate-x-5" : "translate-x-0"
+                    }`}
+                  />
+                </button>
+              </div>
+
+              {editingId === tab.id && (
+                <LeagueTabEditor
+                  key={tab.updated_at}
+                  tab={tab}
+                  isPending={isPending}
+                  onSave={(updates) =>
+                    run(
+                      () => updateLeagueTab(eventId, tab.id, updates),
+                      () => setEditingId(null)
+                    )
+                  }
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Add tab */}
+      <div className="border-t border-gray-100 pt-5">
+        <p className="mb-3 text-sm font-medium text-gray-700">Add tab</p>
+        <div className="flex flex-col gap-3 sm:flex-row">
+          <input
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            placeholder="Tab label, e.g., Rules"
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+          />
+          <select
+            value={newType}
+            onChange={(e) => setNewType(e.target.value as LeagueTabContentType)}
+            className="block rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+          >
+            {(Object.keys(TAB_TYPE_LABELS) as LeagueTabContentType[]).map((type) => (
+              <option key={type} value={type}>
+                {TAB_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={isPending || !newLabel.trim()}
+            className="shrink-0 rounded-md bg-teal-600 px-4 py-2 text-sm font-medium text-white hover:bg-teal-700 disabled:opacity-50"
+          >
+            Add Tab
+          </button>
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          New tabs start hidden so you can fill them in before golfers see them.
+        </p>
+      </div>
+
+      {message && <p className="text-sm text-red-600">{message}</p>}
+    </div>
+  );
+}
+
+function LeagueTabEditor({
+  tab,
+  isPending,
+  onSave,
+}: {
+  tab: LeagueTab;
+  isPending: boolean;
+  onSave: (updates: { label: string; content?: string | null }) => void;
+}) {
+  const [label, setLabel] = useState(tab.label);
+  const [content, setContent] = useState(tab.content || "");
+  const isHtml = tab.content_type === "html";
+
+  return (
+    <div className="mt-3 space-y-3 rounded-md border border-gray-200 bg-gray-50 p-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Label</label>
+        <input value={label} onChange={(e) => setLabel(e.target.value)} className={INPUT_CLASS} />
+      </div>
+
+      {isHtml && (
+        <div className="grid gap-4 lg:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">HTML</label>
+            <textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              rows={14}
+              spellCheck={false}
+              className={`${INPUT_CLASS} font-mono text-xs`}
+            />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700">Preview</p>
+            <div className="mt-1 max-h-[22rem] overflow-y-auto rounded-md border border-gray-200 bg-white p-4">
+              {content.trim() ? (
+                <div
+                  className="league-html-content max-w-none"
+                  dangerouslySetInnerHTML={{ __html: sanitizeHtml(content) }}
+                />
+              ) : (
+                <p className="text-sm text-gray-500">Content coming soon.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+      {isHtml && (
+        <p className="text-xs text-gray-500">
+          Scripts, event handlers and unsupported tags are removed when the tab is shown.
+        </p>
+      )}
+
+      <button
+        type="button"
+        onClick={() => onSave(isHtml ? { label, content } : { label })}
+        disabled={isPending || !label.trim()}
+        className="rounded-md bg-teal-600 px-4 py-2 text-sm font-medium text-white hover:bg-teal-700 disabled:opacity-50"
+      >
+        Save Tab
+      </button>
+    </div>
+  );
+}
+
+// ============================================================
+// League Tees
+// ============================================================
+
+export function LeagueTeesSection({
+  eventId,
+  tees,
+}: {
+  eventId: string;
+  tees: LeagueTee[];
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [message, setMessage] = useState<string | null>(null);
+  // Tee id being edited, "new" for the add form
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const run = (action: () => Promise<{ error?: string }>, onSuccess?: () => void) => {
+    startTransition(async () => {
+      const result = await action();
+      if (result.error) {
+        setMessage(result.error);
+      } else {
+        setMessage(null);
+        onSuccess?.();
+        router.refresh();
+      }
+    });
+  };
+
+  const handleSave = (teeId: string | null, tee: TeeFormValues) => {
+    run(
+      () => saveLeagueTee(eventId, teeId, tee),
+      () => setEditingId(null)
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {tees.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No tees yet. Add one to enter gross hole scores and have net
+          Stableford points calculated here instead of in Golf Genius.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {tees.map((tee) => (
+            <li key={tee.id} className="py-3">
+              <div className="flex items-center gap-3">
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-gray-900">{tee.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {tee.pars.length} holes · Par {tee.pars.reduce((sum, p) => sum + p, 0)} ·{" "}
+                    {Number(tee.course_rating).toFixed(1)} / {tee.slope_rating}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setEditingId(editingId === tee.id ? null : tee.id)}
+                  className="shrink-0 text-sm font-medium text-teal-600 hover:text-teal-800"
+                >
+                  {editingId === tee.id ? "Close" : "Edit"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (confirm(`Delete the ${tee.name} tee? Scores already entered keep their hole-by-hole breakdown.`)) {
+                      run(() => deleteLeagueTee(eventId, tee.id));
+                    }
+                  }}
+                  disabled={isPending}
+                  className="shrink-0 text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+
+              {editingId === tee.id && (
+                <LeagueTeeEditor
+                  key={tee.updated_at}
+                  tee={tee}
+                  isPending={isPending}
+                  onSave={(values) => handleSave(tee.id, values)}
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="border-t border-gray-100 pt-5">
+        {editingId === "new" ? (
+          <LeagueTeeEditor
+            tee={null}
+            isPending={isPending}
+            onSave={(values) => handleSave(null, values)}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setEditingId("new")}
+            className="rounded-md bg-teal-600 px-4 py-2 text-sm font-medium text-white hover:bg-teal-700"
+          >
+            Add Tee
+          </button>
+        )}
+      </div>
+
+      {message && <p className="text-sm text-red-600">{message}</p>}
+    </div>
+  );
+}
+
+interface TeeFormValues {
+  name: string;
+  pars: number[];
+  stroke_indexes: number[];
+  course_rating: number;
+  slope_rating: number;
+}
+
+function LeagueTeeEditor({
+  tee,
+  isPending,
+  onSave,
+}: {
+  tee: LeagueTee | null;
+  isPending: boolean;
+  onSave: (values: TeeFormValues) => void;
+}) {
+  const [name, setName] = useState(tee?.name ?? "");
+  const [holeCount, setHoleCount] = useState(tee?.pars.length ?? 9);
+  const [pars, setPars] = useState<string[]>(() =>
+    Array.from({ length: 18 }, (_, i) => String(tee?.pars[i] ?? ""))
+  );
+  const [strokeIndexes, setStrokeIndexes] = useState<string[]>(() =>
+    Array.from({ length: 18 }, (_, i) => String(tee?.stroke_indexes[i] ?? ""))
+  );
+  const [courseRating, setCourseRating] = useState(tee ? String(tee.course_rating) : "");
+  const [slopeRating, setSlopeRating] = useState(tee ? String(tee.slope_rating) : "");
+
+  const holes = Array.from({ length: holeCount }, (_, i) => i);
+  const setAt = (setter: typeof setPars, index: number, value: string) =>
+    setter((prev) => prev.map((v, i) => (i === index ? value : v)));
+
+  const handleSave = () => {
+    onSave({
+      name,
+      pars: holes.map((i) => Number(pars[i])),
+      stroke_indexes: holes.map((i) => Number(strokeIndexes[i])),
+      course_rating: Number(courseRating),
+      slope_rating: Number(slopeRating),
+    });
+  };
+
+  return (
+    <div className="mt-3 space-y-4 rounded-md border border-gray-200 bg-gray-50 p-4">
+      <div className="grid gap-3 sm:grid-cols-4">
+        <div className="sm:col-span-2">
+          <label className="block text-sm font-medium text-gray-700">Tee Name</label>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Front Nine — White"
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Course Rating</label>
+          <input
+            type="number"
+            step="0.1"
+            value={courseRating}
+            onChange={(e) => setCourseRating(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Slope</label>
+          <input
+            type="number"
+            step={1}
+            value={slopeRating}
+            onChange={(e) => setSlopeRating(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Holes</label>
+        <select
+          value={holeCount}
+          onChange={(e) => setHoleCount(Number(e.target.value))}
+          className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+        >
+          <option value={9}>9 holes</option>
+          <option value={18}>18 holes</option>
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          For a 9-hole tee use the 9-hole course rating and slope. Stroke
+          indexes can be 1–9 or the holes&apos; 18-hole indexes.
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="text-sm">
+          <tbody>
+            <tr>
+              <th className="pr-3 text-left text-xs font-medium text-gray-500">Hole</th>
+              {holes.map((i) => (
+                <td key={i} className="px-0.5 text-center text-xs text-gray-500">
+                  {i + 1}
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <th className="pr-3 text-left text-xs font-medium text-gray-500">Par</th>
+              {holes.map((i) => (
+                <td key={i} className="px-0.5 py-1">
+                  <input
+                    value={pars[i]}
+                    onChange={(e) => setAt(setPars, i, e.target.value)}
+                    inputMode="numeric"
+                    aria-label={`Hole ${i + 1} par`}
+                    className="w-9 rounded border border-gray-300 px-1 py-1 text-center text-sm"
+                  />
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <th className="pr-3 text-left text-xs font-medium text-gray-500">SI</th>
+              {holes.map((i) => (
+                <td key={i} className="px-0.5 py-1">
+                  <input
+                    value={strokeIndexes[i]}
+                    onChange={(e) => setAt(setStrokeIndexes, i, e.target.value)}
+                    inputMode="numeric"
+                    aria-label={`Hole ${i + 1} stroke index`}
+                    className="w-9 rounded border border-gray-300 px-1 py-1 text-center text-sm"
+                  />
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={isPending || !name.trim()}
+        className="rounded-md bg-teal-600 px-4 py-2 text-sm font-medium text-white hover:bg-teal-700 disabled:opacity-50"
+      >
+        Save Tee
+      </button>
+    </div>
+  );
+}
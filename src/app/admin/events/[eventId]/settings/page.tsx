@@ -13,7 +13,9 @@ import {
   RestrictedPairingsSection,
   DangerZone,
 } from "./components";
+import { LeagueConfigForm, LeagueSeasonsSection, LeagueTabsSection, LeagueTeesSection } from "./league-settings";
 import { getLatestSyncStatus } from "@/lib/handicap-sync";
+import { getCourses } from "@/lib/courses";
 
 export default async function EventSettingsPage({
   params,
@@ -92,6 +94,33 @@ export default async function EventSettingsPage({
     .eq("event_id", eventId)
     .order("created_at");
 
+  // Fetch league switch, seasons, tees and every tab, including hidden ones
+  const { data: leagueConfig } = await supabase
+    .from("event_league_config")
+    .select("league_enabled")
+    .eq("event_id", eventId)
+    .maybeSingle();
+
+  const { data: leagueSeasons } = await supabase
+    .from("league_seasons")
+    .select("*")
+    .eq("event_id", eventId)
+    .order("season_start", { ascending: false, nullsFirst: false });
+
+  const { data: leagueTabs } = await supabase
+    .from("event_league_tabs")
+    .select("*")
+    .eq("event_id", eventId)
+    .order("sort_order");
+
+  const { data: leagueTees } = await supabase
+    .from("league_tees")
+    .select("*")
+    .eq("event_id", eventId)
+    .order("name");
+
+  const courses = await getCourses(supabase);
+
   // Fetch handicap sync status (non-fatal)
   let syncStatus = null;
   try {
@@ -101,6 +130,7 @@ export default async function EventSettingsPage({
   }
 
   const isSuperAdmin = profile.is_super_admin;
+  const currentSeason = (leagueSeasons || []).find((s) => s.is_current) ?? null;
 
   return (
     <main className="min-h-screen px-4 py-8">
@@ -125,7 +155,7 @@ export default async function EventSettingsPage({
             Event Details
           </h2>
           <div className="mt-3 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
-            <BasicSettingsForm event={event} />
+            <BasicSettingsForm event={event} courses={courses} />
           </div>
         </section>
 
@@ -226,6 +256,61 @@ export default async function EventSettingsPage({
           </section>
         )}
 
+        {/* League — Super Admin Only */}
+        {isSuperAdmin && (
+          <section className="mt-8">
+            <h2 className="text-lg font-semibold text-gray-900">
+              League
+              <span className="ml-2 inline-flex rounded-full bg-purple-100 px-2 py-0.5 text-xs font-medium text-purple-700">
+                Super Admin
+              </span>
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Current season scoring and prize settings for the league page
+              {event.slug ? ` (/league/${event.slug})` : ""}.
+            </p>
+            <div className="mt-3 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+              <LeagueConfigForm
+                key={currentSeason?.id}
+                eventId={eventId}
+                leagueEnabled={leagueConfig?.league_enabled ?? false}
+                season={currentSeason}
+              />
+            </div>
+
+            <h3 className="mt-6 text-sm font-semibold text-gray-900">Seasons</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              The settings above apply to the current season. Past seasons keep
+              their own settings, scores and final standings.
+            </p>
+            <div className="mt-3 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+              <LeagueSeasonsSection
+                eventId={eventId}
+                slug={event.slug}
+                seasons={leagueSeasons || []}
+              />
+            </div>
+
+            <h3 className="mt-6 text-sm font-semibold text-gray-900">League Tabs</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Tabs shown on the league page, in order. Hidden tabs stay saved but
+              aren&apos;t shown to golfers.
+            </p>
+            <div className="mt-3 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+              <LeagueTabsSection eventId={eventId} tabs={leagueTabs || []} />
+            </div>
+
+            <h3 className="mt-6 text-sm font-semibold text-gray-900">Tees</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Par, stroke index and ratings for scoring a week from gross hole
+              scores on the League Scores page.
+            </p>
+            <div className="mt-3 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+              <LeagueTeesSection eventId={eventId} tees={leagueTees || []} />
+            </div>
+          </section>
+        )}
+
         {/* Admin Assignments — Super Admin Only */}
         {isSuperAdmin && (
           <section className="mt-8">
@@ -0,0 +1,214 @@
+"use server";
+
+import { requireAdmin, hasEventAccess } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { getLeagueSeasons, pickSeasonForDate } from "@/lib/league";
+import { calculateSideGamePayouts } from "@/lib/side-games";
+import { SIDE_GAME_TYPE_LABELS } from "@/types/events";
+import type { SideGameType } from "@/types/events";
+
+const VALID_GAME_TYPES = Object.keys(SIDE_GAME_TYPE_LABELS) as SideGameType[];
+
+export interface SideGameWeekInput {
+  buy_in: number;
+  player_ids: string[];
+  skins_carry_in: number;
+  games: {
+    game_type: SideGameType;
+    label: string;
+    share_percent: number;
+    winner_ids: string[];
+    hole_winners: (string | null)[] | null;
+  }[];
+}
+
+async function revalidateSideGamePages(eventId: string) {
+  const supabase = createAdminClient();
+  const { data: event } = await supabase
+    .from("events")
+    .select("slug")
+    .eq("id", eventId)
+    .single();
+
+  revalidatePath(`/admin/events/${eventId}/side-games`);
+  if (event?.slug) revalidatePath(`/league/${event.slug}`);
+}
+
+function validateWeek(week: SideGameWeekInput): string | null {
+  if (!Number.isFinite(week.buy_in) || week.buy_in <= 0) {
+    return "Enter the buy-in per player";
+  }
+  if (!Number.isFinite(week.skins_carry_in) || week.skins_carry_in < 0) {
+    return "Skins carry-in can't be negative";
+  }
+  if (week.player_ids.length === 0) {
+    return "Select the golfers who bought in";
+  }
+  if (week.games.length === 0) {
+    return "Add at least one game";
+  }
+  for (const game of week.games) {
+    if (!VALID_GAME_TYPES.includes(game.game_type)) return "Invalid game type";
+    if (!game.label.trim()) return "Every game needs a name";
+    if (!Number.isFinite(game.share_percent) || game.share_percent < 0 || game.share_percent > 100) {
+      return `${game.label}: share must be between 0 and 100%`;
+    }
+    if (game.game_type === "skins" && (!game.hole_winners || game.hole_winners.length === 0 || game.hole_winners.length > 18)) {
+      return `${game.label}: record a result for each hole`;
+    }
+  }
+  const totalShare = week.games.reduce((sum, g) => sum + g.share_percent, 0);
+  if (Math.abs(totalShare - 100) > 0.01) {
+    return `Game shares add up to ${Number(totalShare.toFixed(2))}% — they must total 100%`;
+  }
+  return null;
+}
+
+/**
+ * Save a week's side games and post the winnings to the money leaderboard.
+ *
+ * Payouts are recalculated here. Every golfer who bought in gets a weekly
+ * league_money_scores row (winners their total, everyone else $0) with the
+ * per-game breakdown in metadata.side_games. This replaces any weekly row
+ * already entered for them that day. Side-game rows for golfers no longer
+ * in the week are removed.
+ */
+export async function saveSideGames(eventId: string, gameDate: string, week: SideGameWeekInput) {
+  const { profile, adminEvents } = await requireAdmin();
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    return { error: "Not authorized" };
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(gameDate)) return { error: "Invalid game date" };
+
+  const playerIds = [...new Set(week.player_ids)];
+  const input = { ...week, player_ids: playerIds };
+  const validationError = validateWeek(input);
+  if (validationError) return { error: validationError };
+
+  try {
+    const supabase = createAdminClient();
+
+    const season = pickSeasonForDate(await getLeagueSeasons(eventId), gameDate);
+    if (!season) return { error: "Set up a league season before recording side games" };
+
+    const postedAt = new Date().toISOString();
+
+    const { data: savedWeek, error: weekError } = await supabase
+      .from("league_side_game_weeks")
+      .upsert(
+        {
+          event_id: eventId,
+          season_id: season.id,
+          game_date: gameDate,
+          buy_in: input.buy_in,
+          player_ids: playerIds,
+          skins_carry_in: input.skins_carry_in,
+          posted_at: postedAt,
+          entered_by: profile.id,
+          updated_at: postedAt,
+        },
+        { onConflict: "event_id,game_date" }
+      )
+      .select("id")
+      .single();
+    if (weekError) throw weekError;
+
+    // Replace the week's games
+    const { error: deleteGamesError } = await supabase
+      .from("league_side_games")
+      .delete()
+      .eq("week_id", savedWeek.id);
+    if (deleteGamesError) throw deleteGamesError;
+
+    const { error: gamesError } = await supabase.from("league_side_games").insert(
+      input.games.map((g, i) => ({
+        week_id: savedWeek.id,
+        game_type: g.game_type,
+        label: g.label.trim(),
+        share_percent: g.share_percent,
+        winner_ids: g.game_type === "skins" ? [] : [...new Set(g.winner_ids)],
+        hole_winners: g.game_type === "skins" ? g.hole_winners : null,
+        sort_order: i + 1,
+      }))
+    );
+    if (gamesError) throw gamesError;
+
+    const result = calculateSideGamePayouts(input, input.games);
+
+    const { error: moneyError } = await supabase.from("league_money_scores").upsert(
+      playerIds.map((id) => ({
+        event_id: eventId,
+        profile_id: id,
+        season_id: season.id,
+        game_date: gameDate,
+        amount: result.payouts[id]?.amount ?? 0,
+        metadata: {
+          type: "weekly",
+          source: "side_games",
+          side_games: result.payouts[id]?.winnings ?? [],
+          posted_at: postedAt,
+        },
+        entered_by: profile.id,
+        updated_at: postedAt,
+      })),
+      { onConflict: "event_id,profile_id,game_date" }
+    );
+    if (moneyError) throw moneyError;
+
+    const { error: staleError } = await supabase
+      .from("league_money_scores")
+      .delete()
+      .eq("event_id", eventId)
+      .eq("game_date", gameDate)
+      .contains("metadata", { source: "side_games" })
+      .not("profile_id", "in", `(${playerIds.join(",")})`);
+    if (staleError) throw staleError;
+
+    await revalidateSideGamePages(eventId);
+    return {
+      success: true,
+      paid: Object.keys(result.payouts).length,
+      skinsCarryOut: result.skinsCarryOut,
+    };
+  } catch (error) {
+    console.error("Save side games error:", error);
+    return { error: "Failed to save side games" };
+  }
+}
+
+/**
+ * Remove a week's side games and the money rows they posted.
+ */
+export async function deleteSideGames(eventId: string, gameDate: string) {
+  const { profile, adminEvents } = await requireAdmin();
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    return { error: "Not authorized" };
+  }
+
+  try {
+    const supabase = createAdminClient();
+
+    const { error: moneyError } = await supabase
+      .from("league_money_scores")
+      .delete()
+      .eq("event_id", eventId)
+      .eq("game_date", gameDate)
+      .contains("metadata", { source: "side_games" });
+    if (moneyError) throw moneyError;
+
+    const { error } = await supabase
+      .from("league_side_game_weeks")
+      .delete()
+      .eq("event_id", eventId)
+      .eq("game_date", gameDate);
+    if (error) throw error;
+
+    await revalidateSideGamePages(eventId);
+    return { success: true };
+  } catch (error) {
+    console.error("Delete side games error:", error);
+    return { error: "Failed to delete side games" };
+  }
+}
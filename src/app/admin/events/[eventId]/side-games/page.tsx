@@ -0,0 +1,178 @@
+import { requireAdmin, hasEventAccess } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/server";
+import { redirect } from "next/navigation";
+import { Breadcrumbs } from "@/components/breadcrumbs";
+import { computeSeasonWeeks, getLeagueSeasons, getSubscribedGolfers } from "@/lib/league";
+import { calculateSideGamePayouts, DEFAULT_SIDE_GAMES, DEFAULT_SIDE_GAME_BUY_IN } from "@/lib/side-games";
+import { getTodayPacific } from "@/lib/timezone";
+import type { HoleScoresMetadata, LeagueSideGame, LeagueSideGameWeek } from "@/types/events";
+import { SideGamesEditor, SideGameDatePicker } from "./side-games-editor";
+
+export default async function SideGamesPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ eventId: string }>;
+  searchParams: Promise<{ date?: string }>;
+}) {
+  const { eventId } = await params;
+  const { date } = await searchParams;
+  const { profile, adminEvents } = await requireAdmin();
+
+  if (!hasEventAccess(profile, adminEvents, eventId)) {
+    redirect("/admin");
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: event } = await supabase
+    .from("events")
+    .select("id, name, slug")
+    .eq("id", eventId)
+    .single();
+
+  if (!event) redirect("/admin");
+
+  const seasons = await getLeagueSeasons(eventId);
+  const season = seasons.find((s) => s.is_current);
+  const seasonWeeks =
+    season?.season_start && season.total_m
+      ? computeSeasonWeeks(season.season_start, season.total_m)
+      : [];
+
+  // Default to the most recent season week that has been played
+  const today = getTodayPacific();
+  const gameDate =
+    date && /^\d{4}-\d{2}-\d{2}$/.test(date)
+      ? date
+      : [...seasonWeeks].reverse().find((w) => w <= today) || seasonWeeks[0] || today;
+
+  const [{ data: weeks }, { data: scores }, golfers, { data: profiles }] = await Promise.all([
+    // This week and the one before it (defaults and skins carry-in)
+    supabase
+      .from("league_side_game_weeks")
+      .select("*, games:league_side_games(*)")
+      .eq("event_id", eventId)
+      .lte("game_date", gameDate)
+      .order("game_date", { ascending: false })
+      .limit(2),
+    supabase
+      .from("league_scores")
+      .select("profile_id, metadata")
+      .eq("event_id", eventId)
+      .eq("game_date", gameDate),
+    getSubscribedGolfers(eventId),
+    supabase
+      .from("profiles")
+      .select("id, first_name, last_name")
+      .eq("status", "active")
+      .order("last_name", { ascending: true })
+      .order("first_name", { ascending: true }),
+  ]);
+
+  type WeekWithGames = LeagueSideGameWeek & { games: LeagueSideGame[] };
+  const sortGames = (w: WeekWithGames) => [...w.games].sort((a, b) => a.sort_order - b.sort_order);
+  const savedWeek = ((weeks || []) as WeekWithGames[]).find((w) => w.game_date === gameDate) ?? null;
+  const previousWeek = ((weeks || []) as WeekWithGames[]).find((w) => w.game_date < gameDate) ?? null;
+
+  // Skins nobody won last week roll into this week
+  const carryIn = previousWeek
+    ? calculateSideGamePayouts(previousWeek, sortGames(previousWeek)).skinsCarryOut
+    : 0;
+
+  // Rounds entered hole by hole, for filling in winners
+  const rounds = (scores || []).flatMap((s) => {
+    const metadata = s.metadata as HoleScoresMetadata | null;
+    if (metadata?.source !== "hole_scores") return [];
+    return [{
+      profileId: s.profile_id as string,
+      gross: metadata.holes.map((h) => h.gross),
+      grossTotal: metadata.gross_total,
+      courseHandicap: metadata.course_handicap,
+    }];
+  });
+
+  // Golfers to choose from: the roster plus anyone who played or bought in that day
+  const scoredIds = new Set((scores || []).map((s) => s.profile_id as string));
+  const pickable = new Set([...scoredIds, ...(savedWeek?.player_ids || [])]);
+  const golferOptions = golfers.map((g) => ({ id: g.id, first_name: g.first_name, last_name: g.last_name }));
+  for (const p of profiles || []) {
+    if (pickable.has(p.id) && !golferOptions.some((g) => g.id === p.id)) {
+      golferOptions.push(p);
+    }
+  }
+
+  const template = previousWeek ? sortGames(previousWeek) : DEFAULT_SIDE_GAMES;
+  const initial = savedWeek
+    ? {
+        buy_in: Number(savedWeek.buy_in),
+        player_ids: savedWeek.player_ids,
+        skins_carry_in: Number(savedWeek.skins_carry_in),
+        games: sortGames(savedWeek).map((g) => ({
+          game_type: g.game_type,
+          label: g.label,
+          share_percent: Number(g.share_percent),
+          winner_ids: g.winner_ids,
+          hole_winners: g.hole_winners,
+        })),
+      }
+    : {
+        buy_in: previousWeek ? Number(previousWeek.buy_in) : DEFAULT_SIDE_GAME_BUY_IN,
+        player_ids: [...scoredIds],
+        skins_carry_in: carryIn,
+        games: template.map((g) => ({
+          game_type: g.game_type,
+          label: g.label,
+          share_percent: Number(g.share_percent),
+          winner_ids: [],
+          hole_winners: null,
+        })),
+      };
+
+  return (
+    <main className="min-h-screen px-4 py-8">
+      <div className="mx-auto max-w-4xl">
+        <div>
+          <Breadcrumbs
+            items={[
+              { label: "Admin", href: "/admin" },
+              { label: event.name, href: `/admin/events/${eventId}` },
+              { label: "Side Games" },
+            ]}
+          />
+          <h1 className="text-2xl font-serif uppercase tracking-wide font-bold text-navy-900">
+            Side Games
+          </h1>
+        </div>
+
+        <p className="mt-4 text-sm text-gray-600">
+          Record who bought in and the winners of each game. The pot is split
+          between the games by share, tied winners split a prize, and unwon
+          skins carry over. Saving posts each player&apos;s winnings to the
+          money leaderboard for that week.
+        </p>
+
+        <div className="mt-6">
+          <SideGameDatePicker
+            gameDate={gameDate}
+            seasonWeeks={seasonWeeks}
+            postedAt={savedWeek?.posted_at ?? null}
+          />
+        </div>
+
+        <div className="mt-6 mb-12">
+          <SideGamesEditor
+            key={`${gameDate}-${savedWeek?.updated_at ?? "new"}`}
+            eventId={eventId}
+            gameDate={gameDate}
+            golfers={golferOptions}
+            rounds={rounds}
+            initial={initial}
+            isSaved={!!savedWeek}
+            carryInFrom={!savedWeek && carryIn > 0 ? previousWeek?.game_date ?? null : null}
+          />
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,490 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useToast } from "@/components/toast";
+import { ConfirmModal } from "@/components/confirm-modal";
+import { formatDateTime, formatGameDate, formatGameDateShort } from "@/lib/format";
+import {
+  calculateSideGamePayouts,
+  calculateSideGamePot,
+  findLowScoreWinners,
+  findSkinWinners,
+} from "@/lib/side-games";
+import { SIDE_GAME_TYPE_LABELS } from "@/types/events";
+import type { SideGameType } from "@/types/events";
+import { saveSideGames, deleteSideGames, type SideGameWeekInput } from "./actions";
+
+interface GolferOption {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+interface HoleRound {
+  profileId: string;
+  gross: (number | null)[];
+  grossTotal: number | null;
+  courseHandicap: number;
+}
+
+type GameInput = SideGameWeekInput["games"][number];
+
+const INPUT_CLASS = "rounded-md border border-gray-300 px-3 py-2 text-sm";
+
+function formatDollars(amount: number): string {
+  return `$${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function SideGameDatePicker({
+  gameDate,
+  seasonWeeks,
+  postedAt,
+}: {
+  gameDate: string;
+  seasonWeeks: string[];
+  postedAt: string | null;
+}) {
+  const router = useRouter();
+  const goTo = (date: string) => {
+    if (date) router.push(`?date=${date}`);
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+      {seasonWeeks.length > 0 && (
+        <div>
+          <label className="block text-xs font-medium text-gray-600">Season Week</label>
+          <select
+            value={seasonWeeks.includes(gameDate) ? gameDate : ""}
+            onChange={(e) => goTo(e.target.value)}
+            className={`mt-1 ${INPUT_CLASS}`}
+          >
+            {!seasonWeeks.includes(gameDate) && <option value="">Other date</option>}
+            {seasonWeeks.map((week, i) => (
+              <option key={week} value={week}>
+                Week {i + 1} — {formatGameDateShort(week)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div>
+        <label className="block text-xs font-medium text-gray-600">Game Date</label>
+        <input
+          type="date"
+          value={gameDate}
+          onChange={(e) => goTo(e.target.value)}
+          className={`mt-1 ${INPUT_CLASS}`}
+        />
+      </div>
+      <p className="pb-2 text-sm text-gray-500">
+        {postedAt
+          ? `Posted ${formatDateTime(postedAt)}`
+          : `No side games recorded for ${formatGameDate(gameDate)}`}
+      </p>
+    </div>
+  );
+}
+
+export function SideGamesEditor({
+  eventId,
+  gameDate,
+  golfers,
+  rounds,
+  initial,
+  isSaved,
+  carryInFrom,
+}: {
+  eventId: string;
+  gameDate: string;
+  golfers: GolferOption[];
+  rounds: HoleRound[];
+  initial: SideGameWeekInput;
+  isSaved: boolean;
+  /** Date of the week whose unwon skins were carried in (new weeks only) */
+  carryInFrom: string | null;
+}) {
+  const router = useRouter();
+  const [buyIn, setBuyIn] = useState(String(initial.buy_in));
+  const [carryIn, setCarryIn] = useState(String(initial.skins_carry_in));
+  const [playerIds, setPlayerIds] = useState<string[]>(initial.player_ids);
+  const [games, setGames] = useState<GameInput[]>(initial.games);
+  const [newGameType, setNewGameType] = useState<SideGameType>("closest_to_pin");
+  const [showDelete, setShowDelete] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const { showToast } = useToast();
+
+  const golferById = new Map(golfers.map((g) => [g.id, g]));
+  const nameOf = (id: string) => {
+    const g = golferById.get(id);
+    return g ? `${g.first_name} ${g.last_name}` : "Unknown golfer";
+  };
+  const players = golfers.filter((g) => playerIds.includes(g.id));
+  const playerRounds = rounds.filter((r) => playerIds.includes(r.profileId));
+  const holeCount = playerRounds[0]?.gross.length ?? 9;
+
+  const week = {
+    buy_in: Number(buyIn) || 0,
+    player_ids: playerIds,
+    skins_carry_in: Number(carryIn) || 0,
+  };
+  const pot = calculateSideGamePot(week.buy_in, playerIds.length);
+  const result = calculateSideGamePayouts(week, games);
+  const totalShare = games.reduce((sum, g) => sum + (Number(g.share_percent) || 0), 0);
+  const sharesValid = Math.abs(totalShare - 100) <= 0.01;
+
+  const updateGame = (index: number, update: Partial<GameInput>) => {
+    setGames((prev) => prev.map((g, i) => (i === index ? { ...g, ...update } : g)));
+  };
+
+  const togglePlayer = (id: string) => {
+    setPlayerIds((prev) => (prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]));
+  };
+
+  const addGame = () => {
+    setGames((prev) => [
+      ...prev,
+      {
+        game_type: newGameType,
+        label: SIDE_GAME_TYPE_LABELS[newGameType].label,
+        share_percent: 0,
+        winner_ids: [],
+        hole_winners: newGameType === "skins" ? Array(holeCount).fill(null) : null,
+      },
+    ]);
+  };
+
+  /** Winners from the hole-by-hole rounds of golfers who bought in */
+  const fillFromScores = (index: number) => {
+    const game = games[index];
+    if (game.game_type === "skins") {
+      updateGame(index, { hole_winners: findSkinWinners(playerRounds, holeCount) });
+    } else if (game.game_type === "low_gross") {
+      updateGame(index, {
+        winner_ids: findLowScoreWinners(playerRounds.map((r) => ({ profileId: r.profileId, score: r.grossTotal }))),
+      });
+    } else if (game.game_type === "low_net") {
+      updateGame(index, {
+        winner_ids: findLowScoreWinners(
+          playerRounds.map((r) => ({
+            profileId: r.profileId,
+            score: r.grossTotal === null ? null : r.grossTotal - r.courseHandicap,
+          }))
+        ),
+      });
+    }
+  };
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const saved = await saveSideGames(eventId, gameDate, {
+        ...week,
+        games: games.map((g) => ({
+          ...g,
+          share_percent: Number(g.share_percent),
+          hole_winners:
+            g.game_type === "skins" && !g.hole_winners?.length ? Array(holeCount).fill(null) : g.hole_winners,
+        })),
+      });
+      if ("error" in saved) {
+        showToast(saved.error!, "error");
+        return;
+      }
+      showToast(
+        `Posted side games for ${formatGameDateShort(gameDate)} — ${saved.paid} winner${saved.paid === 1 ? "" : "s"}` +
+          (saved.skinsCarryOut ? ` · ${formatDollars(saved.skinsCarryOut)} skins carry to next week` : "")
+      );
+      router.refresh();
+    });
+  };
+
+  const handleDelete = () => {
+    startTransition(async () => {
+      const deleted = await deleteSideGames(eventId, gameDate);
+      setShowDelete(false);
+      if ("error" in deleted) {
+        showToast(deleted.error!, "error");
+        return;
+      }
+      showToast("Side games removed");
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Buy-in */}
+      <section className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900">Buy-In</h2>
+        <div className="mt-3 flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600">Per Player ($)</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={buyIn}
+              onChange={(e) => setBuyIn(e.target.value)}
+              className={`mt-1 w-28 ${INPUT_CLASS}`}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600">Skins Carried In ($)</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={carryIn}
+              onChange={(e) => setCarryIn(e.target.value)}
+              className={`mt-1 w-28 ${INPUT_CLASS}`}
+            />
+          </div>
+          <p className="pb-2 text-sm text-gray-700">
+            {playerIds.length} player{playerIds.length === 1 ? "" : "s"} ·{" "}
+            <span className="font-semibold text-navy-900">{formatDollars(pot)}</span> pot
+          </p>
+        </div>
+        {carryInFrom && (
+          <p className="mt-2 text-xs text-gray-500">
+            Nobody won the skins on {formatGameDateShort(carryInFrom)}, so that
+            money carries into this week&apos;s skins.
+          </p>
+        )}
+
+        <div className="mt-4 grid gap-x-6 gap-y-1 sm:grid-cols-3">
+          {golfers.map((g) => (
+            <label key={g.id} className="flex items-center gap-2 text-sm text-gray-900">
+              <input
+                type="checkbox"
+                checked={playerIds.includes(g.id)}
+                onChange={() => togglePlayer(g.id)}
+              />
+              {g.last_name}, {g.first_name}
+            </label>
+          ))}
+        </div>
+      </section>
+
+      {/* Games */}
+      <section className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900">Games</h2>
+        <div className="mt-3 space-y-4">
+          {games.map((game, i) => (
+            <div key={i} className="rounded-md border border-gray-200 bg-gray-50 p-3">
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="min-w-0 flex-1">
+                  <label className="block text-xs font-medium text-gray-600">
+                    {SIDE_GAME_TYPE_LABELS[game.game_type].label}
+                  </label>
+                  <input
+                    value={game.label}
+                    onChange={(e) => updateGame(i, { label: e.target.value })}
+                    className={`mt-1 w-full ${INPUT_CLASS}`}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600">Share (%)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.5"
+                    value={game.share_percent}
+                    onChange={(e) => updateGame(i, { share_percent: e.target.value === "" ? 0 : Number(e.target.value) })}
+                    className={`mt-1 w-24 ${INPUT_CLASS}`}
+                  />
+                </div>
+                <p className="pb-2 text-sm font-semibold text-navy-900 tabular-nums">
+                  {formatDollars(result.gamePrizes[i] ?? 0)}
+                </p>
+                <button
+                  type="button"
+                  onClick={() => setGames((prev) => prev.filter((_, j) => j !== i))}
+                  className="pb-2 text-sm font-medium text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">{SIDE_GAME_TYPE_LABELS[game.game_type].description}</p>
+
+              {game.game_type === "skins" ? (
+                <div className="mt-3">
+                  <div className="grid grid-cols-3 gap-2 sm:grid-cols-6">
+                    {(game.hole_winners?.length ? game.hole_winners : Array(holeCount).fill(null)).map(
+                      (winnerId: string | null, hole: number) => (
+                        <label key={hole} className="text-xs text-gray-600">
+                          Hole {hole + 1}
+                          <select
+                            value={winnerId ?? ""}
+                            onChange={(e) => {
+                              const next = [...(game.hole_winners?.length ? game.hole_winners : Array(holeCount).fill(null))];
+                              next[hole] = e.target.value || null;
+                              updateGame(i, { hole_winners: next });
+                            }}
+                            className="mt-0.5 w-full rounded-md border border-gray-300 px-1 py-1 text-xs"
+                          >
+                            <option value="">Tied</option>
+                            {players.map((p) => (
+                              <option key={p.id} value={p.id}>
+                                {p.first_name[0]}. {p.last_name}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      )
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  {game.winner_ids.map((id) => (
+                    <span
+                      key={id}
+                      className="inline-flex items-center gap-1 rounded-full bg-teal-100 px-2.5 py-0.5 text-xs font-medium text-teal-800"
+                    >
+                      {nameOf(id)}
+                      <button
+                        type="button"
+                        onClick={() => updateGame(i, { winner_ids: game.winner_ids.filter((w) => w !== id) })}
+                        aria-label={`Remove ${nameOf(id)}`}
+                        className="text-teal-600 hover:text-teal-900"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      if (e.target.value) updateGame(i, { winner_ids: [...game.winner_ids, e.target.value] });
+                    }}
+                    className="rounded-md border border-gray-300 px-2 py-1 text-xs"
+                  >
+                    <option value="">{game.winner_ids.length > 0 ? "+ Add tied winner" : "+ Add winner"}</option>
+                    {players
+                      .filter((p) => !game.winner_ids.includes(p.id))
+                      .map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.last_name}, {p.first_name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              )}
+
+              {game.game_type !== "closest_to_pin" && playerRounds.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => fillFromScores(i)}
+                  className="mt-2 text-xs font-medium text-teal-600 hover:text-teal-800"
+                >
+                  Fill from hole scores ({playerRounds.length} round{playerRounds.length === 1 ? "" : "s"})
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center gap-3 border-t border-gray-100 pt-4">
+          <select
+            value={newGameType}
+            onChange={(e) => setNewGameType(e.target.value as SideGameType)}
+            className={INPUT_CLASS}
+          >
+            {(Object.keys(SIDE_GAME_TYPE_LABELS) as SideGameType[]).map((type) => (
+              <option key={type} value={type}>
+                {SIDE_GAME_TYPE_LABELS[type].label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={addGame}
+            className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Add Game
+          </button>
+          <p className={`text-sm ${sharesValid ? "text-gray-500" : "text-orange-600"}`}>
+            Shares total {Number(totalShare.toFixed(2))}%{sharesValid ? "" : " — must be 100%"}
+          </p>
+        </div>
+      </section>
+
+      {/* Payouts */}
+      <section className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900">Payouts</h2>
+        {Object.keys(result.payouts).length === 0 ? (
+          <p className="mt-2 text-sm text-gray-500">No winners recorded yet.</p>
+        ) : (
+          <table className="mt-3 w-full text-sm">
+            <tbody className="divide-y divide-gray-100">
+              {Object.entries(result.payouts)
+                .sort(([, a], [, b]) => b.amount - a.amount)
+                .map(([id, payout]) => (
+                  <tr key={id}>
+                    <td className="py-2 pr-3 text-gray-900">{nameOf(id)}</td>
+                    <td className="py-2 pr-3 text-xs text-gray-500">
+                      {payout.winnings
+                        .map((w) => `${w.label}${w.detail ? ` (${w.detail})` : ""} ${formatDollars(w.amount)}`)
+                        .join(" · ")}
+                    </td>
+                    <td className="py-2 text-right font-semibold tabular-nums text-navy-900">
+                      {formatDollars(payout.amount)}
+                    </td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        )}
+        {result.skinsCarryOut > 0 && (
+          <p className="mt-3 text-sm text-gray-600">
+            No skins won — {formatDollars(result.skinsCarryOut)} carries to next week.
+          </p>
+        )}
+        {result.unawarded > 0 && (
+          <p className="mt-3 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+            {formatDollars(result.unawarded)} isn&apos;t paid out — a game has no winner
+            among the players who bought in.
+          </p>
+        )}
+
+        <div className="mt-4 flex flex-wrap items-center gap-3 border-t border-gray-100 pt-4">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isPending || playerIds.length === 0 || games.length === 0 || !sharesValid}
+            className="rounded-md bg-teal-600 px-4 py-2 text-sm font-semibold text-white hover:bg-teal-500 disabled:opacity-50"
+          >
+            {isPending ? "Saving..." : isSaved ? "Save & Re-post" : "Save & Post to Money Leaderboard"}
+          </button>
+          {isSaved && (
+            <button
+              type="button"
+              onClick={() => setShowDelete(true)}
+              disabled={isPending}
+              className="rounded-md border border-gray-300 px-4 py-2 text-sm text-red-600 hover:bg-red-50"
+            >
+              Delete Week
+            </button>
+          )}
+          <p className="text-xs text-gray-500">
+            Every player who bought in gets this week&apos;s money row — $0 if
+            they didn&apos;t win.
+          </p>
+        </div>
+      </section>
+
+      <ConfirmModal
+        open={showDelete}
+        title="Delete Side Games"
+        message={`Remove the side games for ${formatGameDate(gameDate)} and the winnings they posted to the money leaderboard?`}
+        confirmLabel="Delete"
+        variant="danger"
+        loading={isPending}
+        onCancel={() => setShowDelete(false)}
+        onConfirm={handleDelete}
+      />
+    </div>
+  );
+}
@@ -41,6 +41,7 @@ export async function createEvent(formData: FormData) {
     // Game time settings
     game_type: (formData.get("game_type") as string) || "18_holes",
     first_tee_time: (formData.get("first_tee_time") as string) || "07:30",
+    course_id: (formData.get("course_id") as string) || null,
 
     // Feature flags — all OFF for MVP
     allow_guest_requests: false,
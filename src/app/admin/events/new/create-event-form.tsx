@@ -2,6 +2,7 @@
 
 import { useTransition, useState } from "react";
 import { createEvent } from "./actions";
+import type { Course } from "@/types/events";
 
 const DAY_NAMES = [
   "Sunday",
@@ -26,8 +27,10 @@ const TIME_OPTIONS = [
 
 export function CreateEventForm({
   activeGolfers,
+  courses,
 }: {
   activeGolfers: { id: string; first_name: string; last_name: string; email: string }[];
+  courses: Course[];
 }) {
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState<string | null>(null);
@@ -205,6 +208,24 @@ export function CreateEventForm({
               Used for weather forecasts.
             </p>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Home Course
+            </label>
+            <select
+              name="course_id"
+              defaultValue={courses[0]?.id ?? ""}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            >
+              <option value="">No course (no weather forecast)</option>
+              {courses.map((course) => (
+                <option key={course.id} value={course.id}>
+                  {course.name}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
       </section>
 
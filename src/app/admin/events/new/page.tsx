@@ -2,6 +2,7 @@ import { requireSuperAdmin } from "@/lib/auth";
 import { createClient } from "@/lib/supabase/server";
 import Link from "next/link";
 import { Breadcrumbs } from "@/components/breadcrumbs";
+import { getCourses } from "@/lib/courses";
 import { CreateEventForm } from "./create-event-form";
 
 export default async function CreateEventPage() {
@@ -16,6 +17,8 @@ export default async function CreateEventPage() {
     .eq("is_guest", false)
     .order("last_name");
 
+  const courses = await getCourses(supabase);
+
   return (
     <main className="min-h-screen px-4 py-8">
       <div className="mx-auto max-w-3xl">
@@ -33,7 +36,7 @@ export default async function CreateEventPage() {
         </p>
 
         <div className="mt-6 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
-          <CreateEventForm activeGolfers={activeGolfers || []} />
+          <CreateEventForm activeGolfers={activeGolfers || []} courses={courses} />
         </div>
       </div>
     </main>
@@ -4,6 +4,17 @@ import { formatPhoneDisplay, formatDateTimeDateOnly } from "@/lib/format";
 import { notFound } from "next/navigation";
 import Link from "next/link";
 import { Breadcrumbs } from "@/components/breadcrumbs";
+import { HandicapTrendChart } from "@/components/handicap-trend-chart";
+import {
+  buildHandicapSeries,
+  largestHandicapMove,
+  HANDICAP_MOVE_WINDOW_DAYS,
+} from "@/lib/handicap-trends";
+import {
+  EmailBounceWarning,
+  EmailDeliveryHistory,
+  type EmailDeliveryRow,
+} from "@/components/email-delivery-history";
 import { SubscribeButton, AdminUnsubscribeButton } from "./subscription-toggles";
 import {
   ApproveButton,
@@ -40,6 +51,25 @@ export default async function GolferDetailPage({
     golferId
   );
 
+  // Recent per-recipient deliveries (RLS limits event admins to their events)
+  const { data: deliveries } = await supabase
+    .from("email_deliveries")
+    .select("id, recipient, subject, email_type, status, error_message, sent_at")
+    .eq("recipient", golfer.email.toLowerCase())
+    .order("sent_at", { ascending: false })
+    .limit(10);
+
+  // Handicap Index readings over the past year, for the trend chart
+  const { data: handicapRows } = await supabase
+    .from("handicap_history")
+    .select("recorded_at, handicap_index")
+    .eq("profile_id", golferId)
+    .gte("recorded_at", new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString())
+    .order("recorded_at", { ascending: true });
+
+  const handicapSeries = buildHandicapSeries(handicapRows || []);
+  const biggestMove = largestHandicapMove(handicapSeries);
+
   const isPending = golfer.status === "pending_approval" || golfer.status === "pending_email";
 
   const statusLabel =
@@ -103,7 +133,9 @@ export default async function GolferDetailPage({
             <dl className="mt-4 space-y-2 text-sm">
               <div className="flex justify-between">
                 <dt className="text-gray-500">Email</dt>
-                <dd className="font-medium text-gray-900">{golfer.email}</dd>
+                <dd className={`font-medium ${golfer.email_bounced_at ? "text-red-700" : "text-gray-900"}`}>
+                  {golfer.email}
+                </dd>
               </div>
               <div className="flex justify-between">
                 <dt className="text-gray-500">Phone</dt>
@@ -157,8 +189,45 @@ export default async function GolferDetailPage({
                 </div>
               )}
             </dl>
+
+            {golfer.email_bounced_at && (
+              <EmailBounceWarning
+                bouncedAt={golfer.email_bounced_at}
+                reason={golfer.email_bounce_reason}
+              />
+            )}
           </div>
 
+          {/* Handicap Trend */}
+          {handicapSeries.length > 0 && (
+            <div className="mt-4 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+              <h2 className="font-serif text-lg font-semibold uppercase tracking-wide text-navy-900">
+                Handicap Trend
+              </h2>
+              <div className="mt-3">
+                <HandicapTrendChart
+                  points={handicapSeries}
+                  lowHi={golfer.low_hi_value != null ? Number(golfer.low_hi_value) : null}
+                />
+              </div>
+              {biggestMove && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Largest {HANDICAP_MOVE_WINDOW_DAYS}-day move this year:{" "}
+                  <span className="font-medium text-gray-900">
+                    {biggestMove.change > 0 ? "+" : ""}
+                    {biggestMove.change.toFixed(1)}
+                  </span>{" "}
+                  ({biggestMove.from.handicapIndex.toFixed(1)} → {biggestMove.to.handicapIndex.toFixed(1)},{" "}
+                  {formatDateTimeDateOnly(biggestMove.from.recordedAt)} to {formatDateTimeDateOnly(biggestMove.to.recordedAt)})
+                </p>
+              )}
+            </div>
+          )}
+
+          <EmailDeliveryHistory
+            deliveries={(deliveries || []) as EmailDeliveryRow[]}
+          />
+
           {/* Event Subscriptions */}
           <div className="mt-4 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
             <h2 className="font-serif text-lg font-semibold uppercase tracking-wide text-navy-900">
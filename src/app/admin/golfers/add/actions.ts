@@ -3,7 +3,7 @@
 import { createClient } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/schedule";
 import { revalidatePath } from "next/cache";
-import { subscribeToEvent, subscribeToAllActiveEvents } from "@/lib/subscriptions";
+import { createActiveGolfer } from "@/lib/golfer-accounts";
 
 export type AddGolferFormState = {
   error?: string;
@@ -99,56 +99,17 @@ export async function addGolfer(
   // Use admin client (service role) to create the auth user directly
   const adminSupabase = createAdminClient();
 
-  const { data: authData, error: authError } =
-    await adminSupabase.auth.admin.createUser({
-      email,
-      email_confirm: true,
-      user_metadata: {
-        first_name: firstName,
-        last_name: lastName,
-        phone: phoneDigits,
-        ghin_number: ghin,
-        role: "golfer",
-      },
-    });
-
-  if (authError) {
-    console.error("Admin create user error:", authError);
-    if (authError.message?.includes("already been registered")) {
-      return {
-        error: `Email ${email} is already registered in auth. The profile may not exist yet — try refreshing.`,
-      };
-    }
-    return { error: "Failed to create user. Please try again." };
-  }
-
-  const newUserId = authData.user.id;
-
-  // Wait a moment for the handle_new_user trigger to fire
-  await new Promise((resolve) => setTimeout(resolve, 500));
-
-  // Set status to active (the trigger creates as pending_approval)
-  await adminSupabase
-    .from("profiles")
-    .update({
-      status: "active",
-      phone: phoneDigits,
-      ghin_number: ghin,
-    })
-    .eq("id", newUserId);
-
-  // Subscribe to event(s)
-  if (eventIds.includes("all")) {
-    // Subscribe to all active events
-    await subscribeToAllActiveEvents(adminSupabase, newUserId);
-  } else if (eventIds.length > 0) {
-    // Subscribe to specific selected events
-    for (const eid of eventIds) {
-      await subscribeToEvent(adminSupabase, newUserId, eid);
-    }
-  } else {
-    // No events selected (shouldn't happen if form is working correctly)
-    await subscribeToAllActiveEvents(adminSupabase, newUserId);
+  const created = await createActiveGolfer(adminSupabase, {
+    firstName,
+    lastName,
+    email,
+    phone: phoneDigits,
+    ghinNumber: ghin,
+    eventIds,
+  });
+
+  if ("error" in created) {
+    return { error: created.error };
   }
 
   revalidatePath("/admin/golfers");
@@ -0,0 +1,103 @@
+"use server";
+
+import { requireSuperAdmin } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/server";
+import { createActiveGolfer } from "@/lib/golfer-accounts";
+import { normalizeGuestEmail } from "@/lib/guest-registry";
+import { revalidatePath } from "next/cache";
+
+export type ConvertGuestFormState = {
+  error?: string;
+  success?: boolean;
+  profileId?: string;
+};
+
+/**
+ * Convert a registry guest to a member: creates an active golfer account
+ * (same flow as Add Golfer), subscribes it to the selected events, and
+ * links the guest record and their past guest requests to the new profile.
+ */
+export async function convertGuestToMember(
+  guestId: string,
+  _prevState: ConvertGuestFormState,
+  formData: FormData
+): Promise<ConvertGuestFormState> {
+  await requireSuperAdmin();
+  const supabase = createAdminClient();
+
+  const { data: guest } = await supabase
+    .from("guests")
+    .select("id, first_name, last_name, converted_profile_id")
+    .eq("id", guestId)
+    .single();
+
+  if (!guest) return { error: "Guest not found" };
+  if (guest.converted_profile_id) {
+    return { error: `${guest.first_name} ${guest.last_name} is already a member.` };
+  }
+
+  const email = normalizeGuestEmail(formData.get("email") as string);
+  const phoneRaw = (formData.get("phone") as string) || "";
+  const ghin = (formData.get("ghin") as string)?.trim() || null;
+  const eventIds = formData.getAll("eventId") as string[];
+
+  if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return { error: "A valid email address is required to create a member account." };
+  }
+
+  const phoneDigits = phoneRaw.trim() ? phoneRaw.replace(/\D/g, "") : null;
+  if (phoneDigits && phoneDigits.length !== 10) {
+    return { error: "Please enter a valid 10-digit US phone number." };
+  }
+
+  const { data: existingProfile } = await supabase
+    .from("profiles")
+    .select("id, status")
+    .eq("email", email)
+    .maybeSingle();
+
+  if (existingProfile) {
+    return {
+      error: `A golfer with email ${email} already exists (status: ${existingProfile.status}). Use the golfer directory to manage them.`,
+    };
+  }
+
+  const created = await createActiveGolfer(supabase, {
+    firstName: guest.first_name,
+    lastName: guest.last_name,
+    email,
+    phone: phoneDigits,
+    ghinNumber: ghin,
+    eventIds,
+  });
+
+  if ("error" in created) {
+    return { error: created.error };
+  }
+
+  try {
+    const { error: guestError } = await supabase
+      .from("guests")
+      .update({
+        converted_profile_id: created.profileId,
+        converted_at: new Date().toISOString(),
+      })
+      .eq("id", guestId);
+    if (guestError) throw guestError;
+
+    const { error: requestsError } = await supabase
+      .from("guest_requests")
+      .update({ guest_profile_id: created.profileId })
+      .eq("guest_id", guestId);
+    if (requestsError) throw requestsError;
+  } catch (err) {
+    // The account exists; only the registry link is missing
+    console.error("Convert guest link error:", err);
+    return { error: "Member account created, but linking the guest record failed. Check the golfer directory." };
+  }
+
+  revalidatePath(`/admin/guests/${guestId}`);
+  revalidatePath("/admin/guests");
+  revalidatePath("/admin/golfers");
+  return { success: true, profileId: created.profileId };
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useActionState } from "react";
+import Link from "next/link";
+import { convertGuestToMember, type ConvertGuestFormState } from "./actions";
+
+type Event = {
+  id: string;
+  name: string;
+};
+
+export function ConvertGuestForm({
+  guestId,
+  guestName,
+  email,
+  phone,
+  ghin,
+  events,
+}: {
+  guestId: string;
+  guestName: string;
+  email: string | null;
+  phone: string | null;
+  ghin: string | null;
+  events: Event[];
+}) {
+  const [state, formAction, isPending] = useActionState<ConvertGuestFormState, FormData>(
+    convertGuestToMember.bind(null, guestId),
+    {}
+  );
+
+  if (state.success && state.profileId) {
+    return (
+      <div className="mt-3 rounded-lg border border-teal-200 bg-teal-50 p-4">
+        <p className="text-sm text-teal-700">
+          <strong>{guestName}</strong> is now a member and subscribed to the
+          selected event(s). They&apos;ll receive weekly invites going forward.
+        </p>
+        <Link
+          href={`/admin/golfers/${state.profileId}`}
+          className="mt-2 inline-block text-sm font-medium text-teal-700 underline hover:text-teal-600"
+        >
+          View golfer profile
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form action={formAction} className="mt-3 space-y-4">
+      {state.error && (
+        <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{state.error}</p>
+      )}
+
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+          Email <span className="text-red-500">*</span>
+        </label>
+        <input
+          id="email"
+          name="email"
+          type="email"
+          required
+          defaultValue={email ?? ""}
+          className="mt-1 block w-full rounded-lg border border-gray-300 px-4 py-2.5 text-gray-900 shadow-sm focus:border-teal-500 focus:ring-teal-500"
+        />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="phone" className="block text-sm font-medium text-gray-700">
+            Phone
+          </label>
+          <input
+            id="phone"
+            name="phone"
+            type="tel"
+            defaultValue={phone ?? ""}
+            placeholder="(555) 555-5555"
+            className="mt-1 block w-full rounded-lg border border-gray-300 px-4 py-2.5 text-gray-900 shadow-sm focus:border-teal-500 focus:ring-teal-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="ghin" className="block text-sm font-medium text-gray-700">
+            GHIN Number
+          </label>
+          <input
+            id="ghin"
+            name="ghin"
+            type="text"
+            defaultValue={ghin ?? ""}
+            className="mt-1 block w-full rounded-lg border border-gray-300 px-4 py-2.5 text-gray-900 shadow-sm focus:border-teal-500 focus:ring-teal-500"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Subscribe to Events</label>
+        <div className="mt-2 space-y-2">
+          <label className="flex cursor-pointer items-center gap-2 rounded-lg border border-gray-300 p-3">
+            <input
+              type="checkbox"
+              name="eventId"
+              value="all"
+              defaultChecked
+              className="h-4 w-4 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+            />
+            <span className="text-sm font-medium text-gray-700">All Active Events</span>
+          </label>
+          {events.map((event) => (
+            <label
+              key={event.id}
+              className="flex cursor-pointer items-center gap-2 rounded-lg border border-gray-300 p-3 hover:bg-gray-50"
+            >
+              <input
+                type="checkbox"
+                name="eventId"
+                value={event.id}
+                className="h-4 w-4 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+              />
+              <span className="text-sm text-gray-700">{event.name}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isPending}
+        className="w-full rounded-lg bg-teal-600 px-4 py-3 text-sm font-semibold text-white shadow-sm hover:bg-teal-500 disabled:opacity-50"
+      >
+        {isPending ? "Converting..." : "Convert to Member"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,258 @@
+import { requireSuperAdmin } from "@/lib/auth";
+import { formatPhoneDisplay, formatGameDate, formatDateTimeDateOnly } from "@/lib/format";
+import { guestVisitSeason, GUEST_VISIT_STATUSES } from "@/lib/guest-registry";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { Breadcrumbs } from "@/components/breadcrumbs";
+import type { Guest, GuestRequestStatus } from "@/types/events";
+import { ConvertGuestForm } from "./convert-guest-form";
+
+type HistoryRow = {
+  id: string;
+  status: GuestRequestStatus;
+  visit_limit_exceeded: boolean;
+  requester: { id: string; first_name: string; last_name: string } | null;
+  schedule: {
+    id: string;
+    game_date: string;
+    event: { id: string; name: string; max_visits_per_guest: number | null } | null;
+  } | null;
+};
+
+const STATUS_STYLES: Record<GuestRequestStatus, string> = {
+  approved: "bg-teal-100 text-teal-700",
+  pending: "bg-yellow-100 text-yellow-700",
+  waitlisted: "bg-orange-100 text-orange-700",
+  denied: "bg-gray-100 text-gray-600",
+};
+
+export default async function GuestDetailPage({
+  params,
+}: {
+  params: Promise<{ guestId: string }>;
+}) {
+  const { guestId } = await params;
+  const { supabase } = await requireSuperAdmin();
+
+  const { data: guestRow } = await supabase
+    .from("guests")
+    .select("*")
+    .eq("id", guestId)
+    .single();
+
+  if (!guestRow) {
+    notFound();
+  }
+  const guest = guestRow as Guest;
+
+  const { data: requestRows } = await supabase
+    .from("guest_requests")
+    .select(
+      "id, status, visit_limit_exceeded, requester:profiles!requested_by(id, first_name, last_name), schedule:event_schedules(id, game_date, event:events(id, name, max_visits_per_guest))"
+    )
+    .eq("guest_id", guestId);
+
+  const history = ((requestRows || []) as unknown as HistoryRow[])
+    .filter((r) => r.schedule)
+    .sort((a, b) => b.schedule!.game_date.localeCompare(a.schedule!.game_date));
+
+  // Seasons for every event the guest has been requested for
+  const eventIds = [...new Set(history.map((r) => r.schedule!.event?.id).filter((id): id is string => !!id))];
+  const { data: seasonRows } = await supabase
+    .from("league_seasons")
+    .select("event_id, name, season_start, season_end")
+    .in("event_id", eventIds.length > 0 ? eventIds : ["00000000-0000-0000-0000-000000000000"]);
+
+  // Visits per event per season: played (approved) and counted toward the limit
+  const counted = new Set<string>(GUEST_VISIT_STATUSES);
+  const seasons = new Map<string, { event: string; season: string; start: string; played: number; counted: number; limit: number | null }>();
+  for (const r of history) {
+    const event = r.schedule!.event;
+    if (!event) continue;
+    const season = guestVisitSeason(
+      r.schedule!.game_date,
+      (seasonRows || []).filter((s) => s.event_id === event.id)
+    );
+    const key = `${event.id}|${season.start}`;
+    const row = seasons.get(key) || {
+      event: event.name,
+      season: season.label,
+      start: season.start,
+      played: 0,
+      counted: 0,
+      limit: event.max_visits_per_guest,
+    };
+    if (r.status === "approved") row.played++;
+    if (counted.has(r.status)) row.counted++;
+    seasons.set(key, row);
+  }
+  const seasonSummary = [...seasons.values()].sort(
+    (a, b) => b.start.localeCompare(a.start) || a.event.localeCompare(b.event)
+  );
+
+  const hosts = new Map<string, string>();
+  for (const r of history) {
+    if (r.requester) hosts.set(r.requester.id, `${r.requester.first_name} ${r.requester.last_name}`);
+  }
+
+  const { data: activeEvents } = guest.converted_profile_id
+    ? { data: [] }
+    : await supabase.from("events").select("id, name").eq("is_active", true).order("name");
+
+  const guestName = `${guest.first_name} ${guest.last_name}`;
+
+  return (
+    <main className="min-h-screen px-4 py-8">
+      <div className="mx-auto max-w-2xl">
+        <Breadcrumbs
+          items={[
+            { label: "Admin", href: "/admin" },
+            { label: "Guests", href: "/admin/guests" },
+            { label: guestName },
+          ]}
+        />
+
+        {/* Guest Info */}
+        <div className="mt-4 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <h1 className="font-serif text-xl font-bold uppercase tracking-wide text-navy-900">
+            {guestName}
+          </h1>
+          {guest.converted_profile_id && (
+            <Link
+              href={`/admin/golfers/${guest.converted_profile_id}`}
+              className="mt-1 inline-flex rounded-full bg-teal-100 px-2 py-0.5 text-xs font-medium text-teal-700 hover:bg-teal-200"
+            >
+              Member since {guest.converted_at ? formatDateTimeDateOnly(guest.converted_at) : "conversion"}
+            </Link>
+          )}
+
+          <dl className="mt-4 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Email</dt>
+              <dd className="font-medium text-gray-900">{guest.email || "Not set"}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Phone</dt>
+              <dd className="font-medium text-gray-900">{formatPhoneDisplay(guest.phone) || "Not set"}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-500">GHIN</dt>
+              <dd className="font-medium text-gray-900">{guest.ghin_number || "Not set"}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Brought by</dt>
+              <dd className="text-right font-medium text-gray-900">
+                {hosts.size > 0 ? [...hosts.values()].join(", ") : "—"}
+              </dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-500">First requested</dt>
+              <dd className="font-medium text-gray-900">{formatDateTimeDateOnly(guest.created_at)}</dd>
+            </div>
+          </dl>
+        </div>
+
+        {/* Visits per season */}
+        <div className="mt-4 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="font-serif text-lg font-semibold uppercase tracking-wide text-navy-900">
+            Visits by Season
+          </h2>
+          {seasonSummary.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">No visits yet.</p>
+          ) : (
+            <table className="mt-3 min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wider text-gray-500">
+                  <th className="py-1 font-medium">Season</th>
+                  <th className="py-1 font-medium">Event</th>
+                  <th className="py-1 text-right font-medium">Played</th>
+                  <th className="py-1 text-right font-medium">Toward limit</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {seasonSummary.map((s) => (
+                  <tr key={`${s.event}|${s.start}`}>
+                    <td className="py-2 text-gray-900">{s.season}</td>
+                    <td className="py-2 text-gray-600">{s.event}</td>
+                    <td className="py-2 text-right font-medium text-gray-900">{s.played}</td>
+                    <td
+                      className={`py-2 text-right ${
+                        s.limit !== null && s.counted > s.limit ? "font-semibold text-amber-700" : "text-gray-600"
+                      }`}
+                    >
+                      {s.counted}
+                      {s.limit !== null && ` of ${s.limit}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="mt-3 text-xs text-gray-400">
+            Pending, approved and waitlisted requests count toward an event&apos;s limit. A season is the event&apos;s league season, or the calendar year without one.
+          </p>
+        </div>
+
+        {/* Play history */}
+        <div className="mt-4 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="font-serif text-lg font-semibold uppercase tracking-wide text-navy-900">
+            Play History
+          </h2>
+          {history.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">No guest requests yet.</p>
+          ) : (
+            <ul className="mt-3 divide-y divide-gray-100">
+              {history.map((r) => (
+                <li key={r.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <Link
+                      href={`/admin/rsvp/${r.schedule!.id}`}
+                      className="font-medium text-gray-900 hover:text-teal-700"
+                    >
+                      {formatGameDate(r.schedule!.game_date)}
+                    </Link>
+                    <span className="block text-xs text-gray-500">
+                      {r.schedule!.event?.name}
+                      {r.requester && ` · guest of ${r.requester.first_name} ${r.requester.last_name}`}
+                    </span>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    {r.visit_limit_exceeded && (
+                      <span className="inline-flex rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                        Over limit
+                      </span>
+                    )}
+                    <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium capitalize ${STATUS_STYLES[r.status]}`}>
+                      {r.status}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Convert to member */}
+        {!guest.converted_profile_id && (
+          <div className="mt-4 mb-12 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+            <h2 className="font-serif text-lg font-semibold uppercase tracking-wide text-navy-900">
+              Convert to Member
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Creates an active golfer account for {guest.first_name} and subscribes them to the
+              selected events. Their guest history stays linked to the new profile.
+            </p>
+            <ConvertGuestForm
+              guestId={guest.id}
+              guestName={guestName}
+              email={guest.email}
+              phone={guest.phone}
+              ghin={guest.ghin_number}
+              events={activeEvents || []}
+            />
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
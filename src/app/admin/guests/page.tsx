@@ -0,0 +1,133 @@
+import { requireSuperAdmin } from "@/lib/auth";
+import Link from "next/link";
+import { Breadcrumbs } from "@/components/breadcrumbs";
+import { formatGameDate } from "@/lib/format";
+import type { Guest } from "@/types/events";
+
+export default async function GuestRegistryPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string }>;
+}) {
+  const { supabase } = await requireSuperAdmin();
+  const params = await searchParams;
+  const searchQuery = params.q?.trim() || "";
+
+  const [{ data: guestRows }, { data: requestRows }] = await Promise.all([
+    supabase
+      .from("guests")
+      .select("*")
+      .order("last_name", { ascending: true })
+      .order("first_name", { ascending: true }),
+    supabase
+      .from("guest_requests")
+      .select("guest_id, status, requested_by, schedule:event_schedules(game_date)")
+      .not("guest_id", "is", null),
+  ]);
+
+  const allGuests = (guestRows || []) as Guest[];
+  const thisYear = new Date().toLocaleDateString("en-CA", { timeZone: "America/Los_Angeles" }).slice(0, 4);
+
+  // Visits (approved requests), distinct hosts and last game per guest
+  const stats = new Map<string, { visits: number; visitsThisYear: number; hosts: Set<string>; lastPlayed: string | null }>();
+  for (const r of requestRows || []) {
+    const gameDate = (r.schedule as unknown as { game_date: string } | null)?.game_date ?? null;
+    const s = stats.get(r.guest_id) || { visits: 0, visitsThisYear: 0, hosts: new Set<string>(), lastPlayed: null };
+    s.hosts.add(r.requested_by);
+    if (r.status === "approved") {
+      s.visits++;
+      if (gameDate?.startsWith(thisYear)) s.visitsThisYear++;
+      if (gameDate && (!s.lastPlayed || gameDate > s.lastPlayed)) s.lastPlayed = gameDate;
+    }
+    stats.set(r.guest_id, s);
+  }
+
+  const guests = searchQuery
+    ? allGuests.filter((g) => {
+        const q = searchQuery.toLowerCase();
+        return (
+          `${g.first_name} ${g.last_name}`.toLowerCase().includes(q) ||
+          g.email?.toLowerCase().includes(q) ||
+          g.ghin_number?.includes(q)
+        );
+      })
+    : allGuests;
+
+  return (
+    <main className="min-h-screen px-4 py-8">
+      <div className="mx-auto max-w-5xl">
+        <Breadcrumbs
+          items={[
+            { label: "Admin", href: "/admin" },
+            { label: "Guests" },
+          ]}
+        />
+
+        <div className="mt-6">
+          <h1 className="text-2xl font-serif uppercase tracking-wide font-bold text-navy-900">
+            Guest Registry
+          </h1>
+          <p className="text-sm text-gray-500">
+            {allGuests.length} guests &mdash; one record per guest, matched on email, GHIN number, then name, whichever member brings them
+          </p>
+        </div>
+
+        <form method="get" className="mt-4">
+          <input
+            type="search"
+            name="q"
+            defaultValue={searchQuery}
+            placeholder="Search by name, email or GHIN"
+            className="w-full rounded-lg border border-gray-300 px-4 py-2 text-sm text-gray-900 shadow-sm focus:border-teal-500 focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+        </form>
+
+        <div className="mt-4">
+          {guests.length === 0 ? (
+            <p className="mt-4 text-sm text-gray-500">
+              {searchQuery ? `No guests match "${searchQuery}".` : "No guests have been requested yet."}
+            </p>
+          ) : (
+            <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm divide-y divide-gray-200">
+              {guests.map((guest) => {
+                const s = stats.get(guest.id);
+                return (
+                  <Link
+                    key={guest.id}
+                    href={`/admin/guests/${guest.id}`}
+                    className="flex items-center justify-between gap-3 px-4 py-3 hover:bg-gray-50"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <span className="text-sm font-medium text-gray-900">
+                        {guest.first_name} {guest.last_name}
+                      </span>
+                      <span className="block truncate text-xs text-gray-400">
+                        {[guest.email, guest.ghin_number && `GHIN ${guest.ghin_number}`].filter(Boolean).join(" · ") || "No email or GHIN"}
+                      </span>
+                      <span className="block text-xs text-gray-500">
+                        {s?.visitsThisYear ?? 0} visit{s?.visitsThisYear === 1 ? "" : "s"} in {thisYear}
+                        {" · "}{s?.visits ?? 0} total
+                        {" · "}{s?.hosts.size ?? 0} host{s?.hosts.size === 1 ? "" : "s"}
+                        {s?.lastPlayed && ` · last played ${formatGameDate(s.lastPlayed)}`}
+                      </span>
+                    </div>
+                    {guest.converted_profile_id && (
+                      <span className="inline-flex shrink-0 rounded-full bg-teal-100 px-2 py-0.5 text-xs font-medium text-teal-700">
+                        Member
+                      </span>
+                    )}
+                  </Link>
+                );
+              })}
+            </div>
+          )}
+
+          <p className="mt-3 text-xs text-gray-400">
+            Showing {guests.length} of {allGuests.length} guests
+            {searchQuery ? ` matching "${searchQuery}"` : ""}
+          </p>
+        </div>
+      </div>
+    </main>
+  );
+}
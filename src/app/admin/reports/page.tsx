@@ -2,8 +2,18 @@ import { requireSuperAdmin } from "@/lib/auth";
 import { Breadcrumbs } from "@/components/breadcrumbs";
 import { formatInitialLastName, formatFullName } from "@/lib/format";
 import { getTodayPacific } from "@/lib/timezone";
+import {
+  buildHandicapSeries,
+  findHandicapMoves,
+  HANDICAP_MOVE_LOOKBACK_DAYS,
+  HANDICAP_MOVE_WINDOW_DAYS,
+  type HandicapPoint,
+} from "@/lib/handicap-trends";
 import { ReportsClient } from "./reports-client";
 
+/** PostgREST's default max rows per request */
+const HANDICAP_HISTORY_PAGE_SIZE = 1000;
+
 export default async function AdminReportsPage() {
   const { supabase } = await requireSuperAdmin();
 
@@ -406,6 +416,68 @@ export default async function AdminReportsPage() {
     events: (allEvents || []).map((e) => ({ id: e.id, name: e.name })),
   };
 
+  // ============================================================
+  // 5. Handicap Movement — big index moves in a short window
+  // ============================================================
+  // Every sync writes a row per golfer, so this runs past PostgREST's
+  // 1000-row cap quickly — page through it rather than lose the newest rows
+  const handicapSince = new Date(Date.now() - HANDICAP_MOVE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const recentHandicaps: { profile_id: string; recorded_at: string; handicap_index: number }[] = [];
+  for (let from = 0; ; from += HANDICAP_HISTORY_PAGE_SIZE) {
+    const { data: page, error: pageError } = await supabase
+      .from("handicap_history")
+      .select("profile_id, recorded_at, handicap_index")
+      .gte("recorded_at", handicapSince)
+      .order("recorded_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + HANDICAP_HISTORY_PAGE_SIZE - 1);
+
+    if (pageError) {
+      console.error("Handicap history error:", pageError);
+      break;
+    }
+    recentHandicaps.push(...(page || []));
+    if (!page || page.length < HANDICAP_HISTORY_PAGE_SIZE) break;
+  }
+
+  const handicapRowsByProfile = new Map<string, { recorded_at: string; handicap_index: number }[]>();
+  for (const row of recentHandicaps) {
+    const rows = handicapRowsByProfile.get(row.profile_id) || [];
+    rows.push(row);
+    handicapRowsByProfile.set(row.profile_id, rows);
+  }
+  const historyByProfile = new Map<string, HandicapPoint[]>();
+  for (const [profileId, rows] of handicapRowsByProfile) {
+    historyByProfile.set(profileId, buildHandicapSeries(rows));
+  }
+
+  // Anything over a stroke; the report's threshold picker narrows it down
+  const golferById = new Map(allProfilesMapped.map((p) => [p.id, p]));
+  const handicapMoves = findHandicapMoves(historyByProfile, { thresholdStrokes: 1, asOf: new Date() })
+    .filter((m) => golferById.has(m.profileId))
+    .map((m) => {
+      const golfer = golferById.get(m.profileId)!;
+      const current = historyByProfile.get(m.profileId)!;
+      return {
+        id: m.profileId,
+        name: golfer.name,
+        eventIds: golfer.eventIds,
+        change: m.change,
+        fromIndex: m.from.handicapIndex,
+        toIndex: m.to.handicapIndex,
+        fromDate: m.from.recordedAt,
+        toDate: m.to.recordedAt,
+        currentIndex: current[current.length - 1].handicapIndex,
+      };
+    });
+
+  const handicapMovementData = {
+    moves: handicapMoves,
+    windowDays: HANDICAP_MOVE_WINDOW_DAYS,
+    lookbackDays: HANDICAP_MOVE_LOOKBACK_DAYS,
+    events: (allEvents || []).map((e) => ({ id: e.id, name: e.name })),
+  };
+
   return (
     <main className="min-h-screen px-4 py-8">
       <div className="mx-auto max-w-4xl">
@@ -435,6 +507,7 @@ export default async function AdminReportsPage() {
           activity={activityData}
           responseTiming={responseTimingData}
           profileCompleteness={profileCompletenessData}
+          handicapMovement={handicapMovementData}
         />
       </div>
     </main>
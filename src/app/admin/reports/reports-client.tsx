@@ -81,6 +81,26 @@ interface ProfileCompletenessData {
   events: { id: string; name: string }[];
 }
 
+interface HandicapMoveRow {
+  id: string;
+  name: string;
+  eventIds: string[];
+  /** Strokes, positive when the index went up */
+  change: number;
+  fromIndex: number;
+  toIndex: number;
+  fromDate: string;
+  toDate: string;
+  currentIndex: number;
+}
+
+interface HandicapMovementData {
+  moves: HandicapMoveRow[];
+  windowDays: number;
+  lookbackDays: number;
+  events: { id: string; name: string }[];
+}
+
 // ============================================================
 // Helpers
 // ============================================================
@@ -135,7 +155,7 @@ function pageLabel(path: string): string {
 }
 
 // ============================================================
-// Main Component — new order: Engagement → Activity → Timing → Profile
+// Main Component — new order: Engagement → Activity → Timing → Profile → Handicap
 // ============================================================
 
 export function ReportsClient({
@@ -143,11 +163,13 @@ export function ReportsClient({
   activity,
   responseTiming,
   profileCompleteness,
+  handicapMovement,
 }: {
   engagement: EngagementData;
   activity: ActivityData;
   responseTiming: ResponseTimingData;
   profileCompleteness: ProfileCompletenessData;
+  handicapMovement: HandicapMovementData;
 }) {
   return (
     <div className="mt-6 space-y-2">
@@ -155,6 +177,7 @@ export function ReportsClient({
       <ActivityReport data={activity} />
       <ResponseTimingReport data={responseTiming} />
       <ProfileCompletenessReport data={profileCompleteness} />
+      <HandicapMovementReport data={handicapMovement} />
     </div>
   );
 }
@@ -690,3 +713,114 @@ function ProfileCompletenessReport({ data }: { data: ProfileCompletenessData })
     </CollapsibleSection>
   );
 }
+
+// ============================================================
+// 5. Handicap Movement Report
+// ============================================================
+
+const MOVE_THRESHOLDS = [1, 2, 3, 4, 5];
+
+function formatShortDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    timeZone: "America/Los_Angeles",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function HandicapMovementReport({ data }: { data: HandicapMovementData }) {
+  const [threshold, setThreshold] = useState(3);
+  const [eventFilter, setEventFilter] = useState<string>("all");
+
+  const flagged = data.moves.filter(
+    (m) =>
+      Math.abs(m.change) > threshold &&
+      (eventFilter === "all" || m.eventIds.includes(eventFilter))
+  );
+  const risingCount = flagged.filter((m) => m.change > 0).length;
+
+  return (
+    <CollapsibleSection
+      title="Handicap Movement"
+      count={flagged.length}
+      defaultOpen={flagged.length > 0}
+      badge={
+        risingCount > 0
+          ? { label: `${risingCount} Rising`, className: "bg-amber-100 text-amber-700" }
+          : undefined
+      }
+    >
+      <p className="text-xs text-gray-500 mb-3">
+        Golfers whose Handicap Index moved more than {threshold} stroke{threshold !== 1 ? "s" : ""} within{" "}
+        {data.windowDays} days, over the last {data.lookbackDays} days of GHIN syncs. A fast rise
+        can be a sandbagging signal — worth a look before grouping by handicap flights.
+      </p>
+
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-1.5">
+          <span className="text-xs font-medium text-gray-600">More than</span>
+          {MOVE_THRESHOLDS.map((t) => (
+            <button
+              key={t}
+              onClick={() => setThreshold(t)}
+              className={`rounded-full px-3 py-1.5 text-xs font-medium transition-colors ${
+                threshold === t
+                  ? "bg-navy-900 text-white"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              {t}
+            </button>
+          ))}
+          <span className="text-xs font-medium text-gray-600">strokes</span>
+        </div>
+        {data.events.length > 1 && (
+          <select
+            value={eventFilter}
+            onChange={(e) => setEventFilter(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="all">All Events</option>
+            {data.events.map((ev) => (
+              <option key={ev.id} value={ev.id}>{ev.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {flagged.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No golfer&apos;s index moved more than {threshold} stroke{threshold !== 1 ? "s" : ""} in {data.windowDays} days.
+        </p>
+      ) : (
+        <div className="rounded-lg border border-gray-200 bg-white">
+          {flagged.map((move, i) => (
+            <Link
+              key={move.id}
+              href={`/admin/golfers/${move.id}`}
+              className={`flex items-center justify-between gap-3 px-4 py-3 transition-colors hover:bg-gray-50 ${
+                i > 0 ? "border-t border-gray-100" : ""
+              }`}
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">{move.name}</p>
+                <p className="text-xs text-gray-500">
+                  {move.fromIndex.toFixed(1)} ({formatShortDate(move.fromDate)}) → {move.toIndex.toFixed(1)} (
+                  {formatShortDate(move.toDate)}) · now {move.currentIndex.toFixed(1)}
+                </p>
+              </div>
+              <span
+                className={`inline-flex flex-shrink-0 rounded-full px-2 py-0.5 text-xs font-semibold ${
+                  move.change > 0 ? "bg-amber-100 text-amber-800" : "bg-teal-100 text-teal-700"
+                }`}
+              >
+                {move.change > 0 ? "+" : ""}
+                {move.change.toFixed(1)}
+              </span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </CollapsibleSection>
+  );
+}
@@ -2,6 +2,9 @@
 
 import { createClient, createAdminClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
+import { fillOpenSpotsFromWaitlist } from "@/lib/waitlist";
+import { fillGuestSpots } from "@/lib/guest-waitlist";
+import { applyRsvpStatus } from "@/lib/rsvp-capacity";
 
 /**
  * Verify the current user is a super admin or event admin.
@@ -85,56 +88,47 @@ export async function adminUpdateRsvpStatus(
       return { success: true }; // No change needed
     }
 
-    // Build update data
-    const updateData: Record<string, unknown> = {
-      status: newStatus,
-      responded_at: new Date().toISOString(),
-    };
-
-    // Handle waitlist position
-    if (newStatus === "waitlisted") {
-      // Get next waitlist position
-      const { data: lastWaitlisted } = await supabase
-        .from("rsvps")
-        .select("waitlist_position")
-        .eq("schedule_id", rsvp.schedule_id)
-        .eq("status", "waitlisted")
-        .order("waitlist_position", { ascending: false })
-        .limit(1)
-        .single();
-
-      updateData.waitlist_position =
-        (lastWaitlisted?.waitlist_position || 0) + 1;
-    } else {
-      // Clear waitlist position when leaving waitlist
-      if (rsvp.status === "waitlisted") {
-        updateData.waitlist_position = null;
-      }
+    // Atomic update: "in" on a full game goes to the waitlist instead
+    // (adminPromoteFromWaitlist overrides capacity)
+    let applied;
+    try {
+      applied = await applyRsvpStatus(supabase, {
+        scheduleId: rsvp.schedule_id,
+        profileId: rsvp.profile_id,
+        status: newStatus,
+        changedBy: adminId,
+      });
+    } catch (applyError) {
+      console.error("RSVP update error:", applyError);
+      return { error: "Failed to update RSVP" };
     }
 
-    // Update the RSVP
-    const { error: updateError } = await supabase
-      .from("rsvps")
-      .update(updateData)
-      .eq("id", rsvpId);
-
-    if (updateError) {
-      console.error("RSVP update error:", updateError);
-      return { error: "Failed to update RSVP" };
+    if (newStatus === "in" && applied.newStatus === "waitlisted") {
+      revalidatePath(`/admin/rsvp/${scheduleId}`);
+      return { success: true, waitlisted: true };
     }
 
-    // Log to history with admin as changed_by
-    await supabase.from("rsvp_history").insert({
-      rsvp_id: rsvp.id,
-      schedule_id: rsvp.schedule_id,
-      profile_id: rsvp.profile_id,
-      old_status: rsvp.status,
-      new_status: newStatus,
-      changed_by: adminId,
-    });
+    // A spot opened — let auto-promotion fill (or offer) it if the event allows
+    let promotedNames: string[] = [];
+    let offeredNames: string[] = [];
+    if (rsvp.status === "in") {
+      try {
+        const openSpot = await fillOpenSpotsFromWaitlist(supabase, rsvp.schedule_id);
+        promotedNames = openSpot.promoted.map((p) => `${p.firstName} ${p.lastName}`);
+        offeredNames = openSpot.offered.map((p) => `${p.firstName} ${p.lastName}`);
+
+        // No member waiting — the spot can go to the guest waitlist
+        if (openSpot.outcome === "no_waitlist") {
+          const promotedGuests = await fillGuestSpots(supabase, rsvp.schedule_id);
+          promotedNames.push(...promotedGuests.map((g) => `${g.guestName} (guest)`));
+        }
+      } catch (err) {
+        console.error("Waitlist auto-promotion error (non-fatal):", err);
+      }
+    }
 
     revalidatePath(`/admin/rsvp/${scheduleId}`);
-    return { success: true };
+    return { success: true, promotedNames, offeredNames };
   } catch (err) {
     const message = err instanceof Error ? err.message : "Unknown error";
     return { error: message };
@@ -168,48 +162,25 @@ export async function adminPromoteFromWaitlist(
     const eventId = (rsvp.schedule as unknown as { event_id: string })?.event_id;
     if (eventId) verifyEventAccess(isSuperAdmin, adminEventIds, eventId);
 
-    // Promote to "in"
-    const { error: updateError } = await supabase
-      .from("rsvps")
-      .update({
+    // Promote to "in" — an explicit admin promotion overrides capacity.
+    // Also renumbers the remaining waitlist.
+    let applied;
+    try {
+      applied = await applyRsvpStatus(supabase, {
+        scheduleId: rsvp.schedule_id,
+        profileId: rsvp.profile_id,
         status: "in",
-        waitlist_position: null,
-        responded_at: new Date().toISOString(),
-      })
-      .eq("id", rsvpId);
-
-    if (updateError) {
-      console.error("Promote error:", updateError);
+        changedBy: adminId,
+        enforceCapacity: false,
+        expectedStatus: "waitlisted",
+      });
+    } catch (applyError) {
+      console.error("Promote error:", applyError);
       return { error: "Failed to promote from waitlist" };
     }
 
-    // Log to history
-    await supabase.from("rsvp_history").insert({
-      rsvp_id: rsvp.id,
-      schedule_id: rsvp.schedule_id,
-      profile_id: rsvp.profile_id,
-      old_status: "waitlisted",
-      new_status: "in",
-      changed_by: adminId,
-    });
-
-    // Reorder remaining waitlist positions
-    const { data: remainingWaitlisted } = await supabase
-      .from("rsvps")
-      .select("id, waitlist_position")
-      .eq("schedule_id", rsvp.schedule_id)
-      .eq("status", "waitlisted")
-      .order("waitlist_position", { ascending: true });
-
-    if (remainingWaitlisted) {
-      for (let i = 0; i < remainingWaitlisted.length; i++) {
-        if (remainingWaitlisted[i].waitlist_position !== i + 1) {
-          await supabase
-            .from("rsvps")
-            .update({ waitlist_position: i + 1 })
-            .eq("id", remainingWaitlisted[i].id);
-        }
-      }
+    if (!applied.changed) {
+      return { error: "Golfer is no longer on the waitlist" };
     }
 
     revalidatePath(`/admin/rsvp/${scheduleId}`);
@@ -349,33 +320,23 @@ export async function adminAddGolferToGame(
       return { error: "Golfer already has an RSVP for this game" };
     }
 
-    // Create the RSVP row
-    const { error: insertError } = await supabase
-      .from("rsvps")
-      .insert({
-        schedule_id: scheduleId,
-        profile_id: profileId,
+    // Create the RSVP row and log history atomically. A full game (approved
+    // guests count) puts the golfer on the waitlist instead of "in".
+    let applied;
+    try {
+      applied = await applyRsvpStatus(supabase, {
+        scheduleId,
+        profileId,
         status,
-        responded_at: new Date().toISOString(),
+        changedBy: adminId,
       });
-
-    if (insertError) {
-      console.error("Add golfer to game error:", insertError);
+    } catch (applyError) {
+      console.error("Add golfer to game error:", applyError);
       return { error: "Failed to add golfer to game" };
     }
 
-    // Log to history
-    await supabase.from("rsvp_history").insert({
-      rsvp_id: null, // We don't have the new RSVP ID easily
-      schedule_id: scheduleId,
-      profile_id: profileId,
-      old_status: null,
-      new_status: status,
-      changed_by: adminId,
-    });
-
     revalidatePath(`/admin/rsvp/${scheduleId}`);
-    return { success: true };
+    return { success: true, waitlisted: status === "in" && applied.newStatus === "waitlisted" };
   } catch (err) {
     const message = err instanceof Error ? err.message : "Unknown error";
     return { error: message };
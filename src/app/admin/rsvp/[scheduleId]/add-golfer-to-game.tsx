@@ -67,7 +67,11 @@ export function AddGolferToGame({
         const name = selectedGolfer
           ? `${selectedGolfer.first_name} ${selectedGolfer.last_name}`
           : "Golfer";
-        showToast(`${name} added to game${addAsIn ? " as In" : ""}`);
+        if ("waitlisted" in result && result.waitlisted) {
+          showToast(`Game is full — ${name} added to the waitlist`);
+        } else {
+          showToast(`${name} added to game${addAsIn ? " as In" : ""}`);
+        }
         setSelectedId(null);
         setSearch("");
         setIsOpen(false);
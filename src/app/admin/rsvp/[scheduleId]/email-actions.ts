@@ -11,15 +11,11 @@ import {
   generateProShopEmail,
 } from "@/lib/email";
 import { sendPushToUsers } from "@/lib/push";
-import { generateGroupings } from "@/lib/grouping-engine";
-import {
-  fetchConfirmedGolfers,
-  fetchPartnerPreferences,
-  fetchDoNotPairRestrictions,
-  storeGroupings,
-  fetchStoredGroupings,
-  fetchApprovedGuests,
-} from "@/lib/grouping-db";
+import { getRsvpReplyAddress } from "@/lib/email-reply-parser";
+import { buildGameIcsAttachment } from "@/lib/ical";
+import { resolveGameCourse, formatCourseLocation } from "@/lib/courses";
+import { fetchStoredGroupings } from "@/lib/grouping-db";
+import { buildGroupingsForSchedule } from "@/lib/grouping-service";
 import { ensureRsvps } from "@/lib/schedule";
 import { formatGameDateMonthDay, formatSponsorName, getSiteUrl } from "@/lib/format";
 
@@ -118,6 +114,7 @@ export async function sendInviteNow(scheduleId: string) {
       };
       if (!profile?.email) continue;
 
+      const replyTo = getRsvpReplyAddress(rsvp.token);
       const html = generateInviteEmail({
         golferName: profile.first_name,
         eventName: event.name,
@@ -127,12 +124,15 @@ export async function sendInviteNow(scheduleId: string) {
         adminNote: schedule.admin_notes,
         cutoffDay: event.cutoff_day,
         cutoffTime: event.cutoff_time,
+        acceptsReplies: !!replyTo,
       });
 
       await sendEmail({
         to: profile.email,
+        replyTo,
         subject: `${event.name}: ${formatGameDateMonthDay(schedule.game_date)} — Are You In?`,
         html,
+        tracking: { emailType: "invite", eventId: event.id, scheduleId: schedule.id },
       });
       await rateLimitDelay();
       sent++;
@@ -214,6 +214,7 @@ export async function sendReminderNow(scheduleId: string) {
       };
       if (!profile?.email) continue;
 
+      const replyTo = getRsvpReplyAddress(rsvp.token);
       const html = generateReminderEmail({
         golferName: profile.first_name,
         eventName: event.name,
@@ -224,12 +225,15 @@ export async function sendReminderNow(scheduleId: string) {
         adminNote: schedule.admin_notes,
         cutoffDay: event.cutoff_day,
         cutoffTime: event.cutoff_time,
+        acceptsReplies: !!replyTo,
       });
 
       await sendEmail({
         to: profile.email,
+        replyTo,
         subject: `${event.name}: ${formatGameDateMonthDay(schedule.game_date)} — Last Chance to RSVP`,
         html,
+        tracking: { emailType: "reminder", eventId: event.id, scheduleId: schedule.id },
       });
       await rateLimitDelay();
       sent++;
@@ -292,32 +296,13 @@ export async function sendGolferConfirmationNow(scheduleId: string) {
       return { error: "No confirmed golfers found" };
     }
 
-    // Run grouping engine if enabled
-    if (event.allow_auto_grouping) {
-      try {
-        const golfers = await fetchConfirmedGolfers(supabase, schedule.id);
-        const preferences = await fetchPartnerPreferences(supabase, event.id);
-        const restrictedPairs = await fetchDoNotPairRestrictions(supabase, event.id);
-        const groupingResult = generateGroupings(golfers, preferences, {
-          groupingMethod: 'harmony',
-          flightTeamPairing: 'similar',
-          partnerPreferenceMode: 'full',
-          teeTimePreferenceMode: 'full',
-          promoteVariety: false,
-          teeTimeHistory: new Map(),
-          recentPairings: new Map(),
-          shuffle: true,
-          restrictedPairs,
-        });
-        const approvedGuestsForGrouping = await fetchApprovedGuests(supabase, schedule.id);
-        const guestPairs = approvedGuestsForGrouping.map((g) => ({
-          guestRequestId: g.guestRequestId,
-          hostProfileId: g.hostProfileId,
-        }));
-        await storeGroupings(supabase, schedule.id, groupingResult, guestPairs);
-      } catch (err) {
-        console.error("Grouping engine error (non-fatal):", err);
-      }
+    // Run grouping engine if enabled (final groupings are kept as-is) —
+    // the same pipeline and event settings the scheduled email uses
+    try {
+      const run = await buildGroupingsForSchedule(supabase, schedule.id);
+      if (run.error) console.error("Failed to store groupings:", run.error);
+    } catch (err) {
+      console.error("Grouping engine error (non-fatal):", err);
     }
 
     // Get approved guests
@@ -396,6 +381,18 @@ export async function sendGolferConfirmationNow(scheduleId: string) {
       siteUrl,
     });
 
+    const course = await resolveGameCourse(supabase, event.id, schedule.game_date);
+    const calendarAttachment = buildGameIcsAttachment({
+      scheduleId: schedule.id,
+      eventName: event.name,
+      gameDate: schedule.game_date,
+      firstTeeTime: event.first_tee_time || "07:30",
+      gameType: event.game_type || "18_holes",
+      location: course ? formatCourseLocation(course) : null,
+      adminNote: schedule.admin_notes,
+      url: `${siteUrl}/home`,
+    });
+
     const formattedDate = formatGameDateMonthDay(schedule.game_date);
 
     await sendEmail({
@@ -404,6 +401,8 @@ export async function sendGolferConfirmationNow(scheduleId: string) {
       replyTo: primaryAdminEmail,
       subject: `${event.name}: ${formattedDate}: Registration Confirmation`,
       html: confirmationHtml,
+      attachments: [calendarAttachment],
+      tracking: { emailType: "confirmation_golfer", eventId: event.id, scheduleId: schedule.id },
     });
 
     // Mark as sent
@@ -566,16 +565,26 @@ export async function sendProShopDetailNow(scheduleId: string) {
       return { error: "No recipients configured for the suggested groupings email" };
     }
 
-    // Fetch stored groupings if auto-grouping is enabled
-    const groupings = event.allow_auto_grouping
+    // Fetch stored groupings if auto-grouping is enabled. They're normally
+    // built with the golfer confirmation; build them now if that didn't happen.
+    let groupings = event.allow_auto_grouping
       ? await fetchStoredGroupings(supabase, schedule.id)
       : [];
+    if (event.allow_auto_grouping && groupings.length === 0) {
+      try {
+        const run = await buildGroupingsForSchedule(supabase, schedule.id);
+        if (run.stored) groupings = await fetchStoredGroupings(supabase, schedule.id);
+      } catch (err) {
+        console.error("Grouping engine error (non-fatal):", err);
+      }
+    }
 
     const proShopHtml = generateProShopEmail({
       eventName: event.name,
       gameDate: schedule.game_date,
       players: allPlayers,
       groupings,
+      groupingMethod: event.grouping_method || "harmony",
     });
 
     const formattedDate = formatGameDateMonthDay(schedule.game_date);
@@ -585,6 +594,7 @@ export async function sendProShopDetailNow(scheduleId: string) {
       replyTo: primaryAdminEmail,
       subject: `${event.name}: ${formattedDate}: Suggested Groups`,
       html: proShopHtml,
+      tracking: { emailType: "confirmation_proshop", eventId: event.id, scheduleId: schedule.id },
     });
 
     // Mark as sent
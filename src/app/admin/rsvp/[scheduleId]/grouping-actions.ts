@@ -0,0 +1,184 @@
+"use server";
+
+import { requireAdmin, hasEventAccess } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { buildPairScores, groupHarmonyScore } from "@/lib/grouping-engine";
+import { fetchPartnerPreferences } from "@/lib/grouping-db";
+
+/** One group from the grouping editor, in tee order */
+export interface GroupingEditInput {
+  locked: boolean;
+  players: { profileId: string | null; guestRequestId: string | null }[];
+}
+
+function revalidateGroupingPages(scheduleId: string, slug: string | null | undefined, gameDate: string) {
+  revalidatePath(`/admin/rsvp/${scheduleId}`);
+  revalidatePath("/home");
+  if (slug) revalidatePath(`/event/${slug}/tee-sheet/${gameDate}`);
+}
+
+/**
+ * Mark a game's groupings final (published to golfers on the tee sheet and
+ * home page) or move them back to draft.
+ */
+export async function setGroupingsFinal(scheduleId: string, isFinal: boolean) {
+  const { profile, adminEvents } = await requireAdmin();
+  const supabase = createAdminClient();
+
+  const { data: schedule } = await supabase
+    .from("event_schedules")
+    .select("event_id, game_date, event:events(slug)")
+    .eq("id", scheduleId)
+    .single();
+
+  if (!schedule) {
+    return { error: "Schedule not found" };
+  }
+
+  if (!hasEventAccess(profile, adminEvents, schedule.event_id)) {
+    return { error: "Not authorized for this event" };
+  }
+
+  if (isFinal) {
+    const { count } = await supabase
+      .from("groupings")
+      .select("id", { count: "exact", head: true })
+      .eq("schedule_id", scheduleId);
+
+    if (!count) {
+      return { error: "No groupings to publish yet" };
+    }
+  }
+
+  const { error } = await supabase
+    .from("event_schedules")
+    .update({
+      groupings_final_at: isFinal ? new Date().toISOString() : null,
+      groupings_final_by: isFinal ? profile.id : null,
+    })
+    .eq("id", scheduleId);
+
+  if (error) {
+    console.error("Set groupings final error:", error);
+    return { error: "Failed to update groupings" };
+  }
+
+  const slug = (schedule.event as unknown as { slug: string | null } | null)?.slug;
+  revalidateGroupingPages(scheduleId, slug, schedule.game_date);
+  return { success: true };
+}
+
+/**
+ * Save an admin's manual edits to a game's groupings.
+ *
+ * Groups arrive in tee order and are renumbered 1..n. Harmony scores are
+ * recalculated from partner preferences, and a group keeps its team numbers
+ * only if its players are unchanged. Do-not-pair restrictions are warned
+ * about in the editor but not enforced here — the admin has the final say.
+ */
+export async function saveGroupingEdits(scheduleId: string, groups: GroupingEditInput[]) {
+  const { profile, adminEvents } = await requireAdmin();
+  const supabase = createAdminClient();
+
+  const { data: schedule } = await supabase
+    .from("event_schedules")
+    .select("event_id, game_date, event:events(slug)")
+    .eq("id", scheduleId)
+    .single();
+
+  if (!schedule) {
+    return { error: "Schedule not found" };
+  }
+
+  if (!hasEventAccess(profile, adminEvents, schedule.event_id)) {
+    return { error: "Not authorized for this event" };
+  }
+
+  const nonEmpty = groups.filter((g) => g.players.length > 0);
+  if (nonEmpty.length === 0) {
+    return { error: "Every group is empty" };
+  }
+
+  const profileIds = nonEmpty.flatMap((g) => g.players.flatMap((p) => (p.profileId ? [p.profileId] : [])));
+  const guestIds = nonEmpty.flatMap((g) => g.players.flatMap((p) => (p.guestRequestId ? [p.guestRequestId] : [])));
+  if (
+    new Set(profileIds).size !== profileIds.length ||
+    new Set(guestIds).size !== guestIds.length
+  ) {
+    return { error: "A player can only be in one group" };
+  }
+
+  try {
+    const [{ data: rsvps }, { data: guests }, { data: existing }] = await Promise.all([
+      supabase
+        .from("rsvps")
+        .select("profile_id")
+        .eq("schedule_id", scheduleId)
+        .eq("status", "in"),
+      supabase
+        .from("guest_requests")
+        .select("id")
+        .eq("schedule_id", scheduleId)
+        .eq("status", "approved"),
+      supabase
+        .from("groupings")
+        .select("group_number, profile_id, guest_request_id, team_number")
+        .eq("schedule_id", scheduleId),
+    ]);
+
+    // Only golfers who are in and approved guests can be grouped
+    const confirmedIds = new Set((rsvps || []).map((r) => r.profile_id as string));
+    const approvedGuestIds = new Set((guests || []).map((g) => g.id as string));
+    if (profileIds.some((id) => !confirmedIds.has(id)) || guestIds.some((id) => !approvedGuestIds.has(id))) {
+      return { error: "Some players are no longer playing — move them out of their groups first" };
+    }
+
+    // Where each player was before, for keeping team numbers
+    type ExistingRow = { group_number: number; profile_id: string | null; guest_request_id: string | null; team_number: number | null };
+    const playerKey = (profileId: string | null, guestRequestId: string | null) =>
+      profileId ?? `guest:${guestRequestId}`;
+    const existingByPlayer = new Map<string, ExistingRow>();
+    const existingGroupSizes = new Map<number, number>();
+    for (const row of (existing || []) as ExistingRow[]) {
+      existingByPlayer.set(playerKey(row.profile_id, row.guest_request_id), row);
+      existingGroupSizes.set(row.group_number, (existingGroupSizes.get(row.group_number) || 0) + 1);
+    }
+
+    const preferences = await fetchPartnerPreferences(supabase, schedule.event_id);
+    const pairScores = buildPairScores(preferences, new Set(profileIds));
+
+    const rows = nonEmpty.flatMap((group, i) => {
+      const golferIds = group.players.flatMap((p) => (p.profileId ? [p.profileId] : []));
+      const before = group.players.map((p) => existingByPlayer.get(playerKey(p.profileId, p.guestRequestId)));
+      const unchanged =
+        before.every((row) => row && row.group_number === before[0]?.group_number) &&
+        existingGroupSizes.get(before[0]!.group_number) === group.players.length;
+
+      return group.players.map((p, j) => ({
+        group_number: i + 1,
+        tee_order: i + 1,
+        profile_id: p.profileId,
+        guest_request_id: p.profileId ? null : p.guestRequestId,
+        harmony_score: groupHarmonyScore(golferIds, pairScores),
+        team_number: unchanged ? before[j]?.team_number ?? null : null,
+        is_locked: group.locked,
+      }));
+    });
+
+    // Delete and insert in one transaction (migration 055), so a failed
+    // save leaves the previous groupings and locks in place
+    const { error: replaceError } = await supabase.rpc("replace_schedule_groupings", {
+      p_schedule_id: scheduleId,
+      p_rows: rows,
+    });
+    if (replaceError) throw replaceError;
+
+    const slug = (schedule.event as unknown as { slug: string | null } | null)?.slug;
+    revalidateGroupingPages(scheduleId, slug, schedule.game_date);
+    return { success: true, groups: nonEmpty.length };
+  } catch (error) {
+    console.error("Save grouping edits error:", error);
+    return { error: "Failed to save groupings" };
+  }
+}
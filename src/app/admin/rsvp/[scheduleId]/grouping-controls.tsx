@@ -0,0 +1,116 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useToast } from "@/components/toast";
+import { ConfirmModal } from "@/components/confirm-modal";
+import { setGroupingsFinal } from "./grouping-actions";
+import { sendProShopDetailNow } from "./email-actions";
+
+export function GroupingsFinalButton({
+  scheduleId,
+  isFinal,
+}: {
+  scheduleId: string;
+  isFinal: boolean;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [showConfirm, setShowConfirm] = useState(false);
+  const { showToast } = useToast();
+
+  return (
+    <>
+      <button
+        onClick={() => setShowConfirm(true)}
+        disabled={isPending}
+        className={`rounded-md px-3 py-2 text-xs font-semibold disabled:opacity-50 ${
+          isFinal
+            ? "border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+            : "bg-teal-600 text-white hover:bg-teal-500"
+        }`}
+      >
+        {isPending ? "Saving…" : isFinal ? "Unpublish" : "Mark Final & Publish"}
+      </button>
+      <ConfirmModal
+        open={showConfirm}
+        title={isFinal ? "Unpublish Groupings" : "Publish Groupings"}
+        message={
+          isFinal
+            ? "Hide these groupings from golfers? They'll go back to draft and may be regenerated with the confirmation email."
+            : "Mark these groupings final? Golfers will see their group and tee order on the tee sheet and home page."
+        }
+        confirmLabel={isFinal ? "Unpublish" : "Publish"}
+        loading={isPending}
+        onCancel={() => setShowConfirm(false)}
+        onConfirm={() => {
+          setShowConfirm(false);
+          startTransition(async () => {
+            const result = await setGroupingsFinal(scheduleId, !isFinal);
+            if (result.error) {
+              showToast(result.error, "error");
+            } else {
+              showToast(isFinal ? "Groupings unpublished" : "Groupings published to golfers");
+            }
+          });
+        }}
+      />
+    </>
+  );
+}
+
+/**
+ * Send the suggested groupings email again with the groupings as they are
+ * now (after manual edits). Doesn't re-run the grouping engine.
+ */
+export function ResendGroupingsButton({ scheduleId }: { scheduleId: string }) {
+  const [isPending, startTransition] = useTransition();
+  const [showConfirm, setShowConfirm] = useState(false);
+  const { showToast } = useToast();
+
+  return (
+    <>
+      <button
+        onClick={() => setShowConfirm(true)}
+        disabled={isPending}
+        className="rounded-md border border-gray-300 bg-white px-3 py-2 text-xs font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+      >
+        {isPending ? "Sending…" : "Re-send Suggested Groupings"}
+      </button>
+      <ConfirmModal
+        open={showConfirm}
+        title="Re-send Suggested Groupings"
+        message="Email the current groupings to this event's suggested groupings recipients (pro shop, admins and golfers, per the event settings)? Unsaved edits aren't included."
+        confirmLabel="Send"
+        loading={isPending}
+        onCancel={() => setShowConfirm(false)}
+        onConfirm={() => {
+          setShowConfirm(false);
+          startTransition(async () => {
+            const result = await sendProShopDetailNow(scheduleId);
+            if (result.error) {
+              showToast(result.error, "error");
+            } else {
+              showToast(`Suggested groupings sent to ${result.sent} recipient(s)`);
+            }
+          });
+        }}
+      />
+    </>
+  );
+}
+
+/** Run the grouping preview again (the engine shuffles ties) */
+export function RerunPreviewButton() {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  return (
+    <button
+      onClick={() => startTransition(() => router.refresh())}
+      disabled={isPending}
+      className="rounded-md border border-gray-300 bg-white px-3 py-2 text-xs font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+    >
+      {isPending ? "Running…" : "Run Again"}
+    </button>
+  );
+}
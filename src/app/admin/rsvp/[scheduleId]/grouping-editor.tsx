@@ -0,0 +1,348 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useToast } from "@/components/toast";
+import { ConfirmModal } from "@/components/confirm-modal";
+import { buildPairScores, findRestrictedPairs, groupHarmonyScore } from "@/lib/grouping-engine";
+import { formatTeeOrder } from "@/lib/tee-sheet";
+import type { PartnerPreference } from "@/types/events";
+import { saveGroupingEdits } from "./grouping-actions";
+
+export interface EditorPlayer {
+  key: string;
+  profileId: string | null;
+  guestRequestId: string | null;
+  name: string;
+  hostProfileId: string | null;
+  hostName: string | null;
+  /** false once a golfer drops out or a guest is no longer approved */
+  isPlaying: boolean;
+}
+
+export interface EditorGroup {
+  id: string;
+  locked: boolean;
+  /** Harmony score as last saved, to flag edits that lower it */
+  savedHarmony: number | null;
+  players: EditorPlayer[];
+}
+
+const UNGROUPED = "ungrouped";
+
+/**
+ * Drag-and-drop editor for a game's groupings. Groups are listed in tee
+ * order. Do-not-pair and harmony warnings update as players move; nothing
+ * is stored until the admin saves.
+ */
+export function GroupingEditor({
+  scheduleId,
+  initialGroups,
+  initialUngrouped,
+  preferences,
+  restrictedPairs,
+}: {
+  scheduleId: string;
+  initialGroups: EditorGroup[];
+  initialUngrouped: EditorPlayer[];
+  preferences: PartnerPreference[];
+  restrictedPairs: string[];
+}) {
+  const [groups, setGroups] = useState(initialGroups);
+  const [ungrouped, setUngrouped] = useState(initialUngrouped);
+  const [dirty, setDirty] = useState(false);
+  const [dragKey, setDragKey] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const { showToast } = useToast();
+
+  const restricted = new Set(restrictedPairs);
+  const nameById = new Map<string, string>();
+  for (const p of [...groups.flatMap((g) => g.players), ...ungrouped]) {
+    if (p.profileId) nameById.set(p.profileId, p.name);
+  }
+
+  const golferIdsOf = (g: EditorGroup) => g.players.flatMap((p) => (p.profileId ? [p.profileId] : []));
+  const groupedIds = new Set(groups.flatMap(golferIdsOf));
+  const pairScores = buildPairScores(preferences, groupedIds);
+
+  const analysis = groups.map((group) => {
+    const golferIds = golferIdsOf(group);
+    const conflicts = findRestrictedPairs(golferIds, restricted);
+    const warnings: string[] = conflicts.map(
+      ([a, b]) => `Do-not-pair: ${nameById.get(a) ?? "Golfer"} and ${nameById.get(b) ?? "Golfer"}`
+    );
+    for (const p of group.players) {
+      if (!p.isPlaying) {
+        warnings.push(`${p.name} is no longer playing`);
+      } else if (p.hostProfileId && groupedIds.has(p.hostProfileId) && !golferIds.includes(p.hostProfileId)) {
+        warnings.push(`${p.name} isn't with their host, ${p.hostName}`);
+      }
+    }
+    if (group.players.length > 5) {
+      warnings.push(`${group.players.length} players — more than a fivesome`);
+    }
+    return { harmony: groupHarmonyScore(golferIds, pairScores), conflicts: conflicts.length, warnings };
+  });
+
+  const conflictCount = analysis.reduce((sum, a) => sum + a.conflicts, 0);
+  const notPlayingCount = groups.reduce((sum, g) => sum + g.players.filter((p) => !p.isPlaying).length, 0);
+
+  function update(nextGroups: EditorGroup[], nextUngrouped = ungrouped) {
+    setGroups(nextGroups);
+    setUngrouped(nextUngrouped);
+    setDirty(true);
+  }
+
+  function movePlayer(key: string, target: string) {
+    const player =
+      ungrouped.find((p) => p.key === key) ??
+      groups.flatMap((g) => g.players).find((p) => p.key === key);
+    if (!player) return;
+
+    const nextGroups = groups.map((g) => {
+      const players = g.players.filter((p) => p.key !== key);
+      return { ...g, players: g.id === target ? [...players, player] : players };
+    });
+    const nextUngrouped = ungrouped.filter((p) => p.key !== key);
+    if (target === UNGROUPED) nextUngrouped.push(player);
+    update(nextGroups, nextUngrouped);
+  }
+
+  function moveGroup(index: number, direction: -1 | 1) {
+    const next = [...groups];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    update(next);
+  }
+
+  function toggleLock(index: number) {
+    update(groups.map((g, i) => (i === index ? { ...g, locked: !g.locked } : g)));
+  }
+
+  function addGroup() {
+    update([...groups, { id: `new-${Date.now()}`, locked: false, savedHarmony: null, players: [] }]);
+  }
+
+  function discard() {
+    setGroups(initialGroups);
+    setUngrouped(initialUngrouped);
+    setDirty(false);
+  }
+
+  function save() {
+    startTransition(async () => {
+      const result = await saveGroupingEdits(
+        scheduleId,
+        groups.map((g) => ({
+          locked: g.locked,
+          players: g.players.map((p) => ({ profileId: p.profileId, guestRequestId: p.guestRequestId })),
+        }))
+      );
+      if ("error" in result) {
+        showToast(result.error!, "error");
+        return;
+      }
+      setGroups(
+        groups
+          .filter((g) => g.players.length > 0)
+          .map((g) => ({ ...g, savedHarmony: groupHarmonyScore(golferIdsOf(g), pairScores) }))
+      );
+      setDirty(false);
+      showToast("Groupings saved");
+    });
+  }
+
+  const dropProps = (target: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (dropTarget !== target) setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (dragKey) movePlayer(dragKey, target);
+      setDragKey(null);
+      setDropTarget(null);
+    },
+  });
+
+  const renderPlayer = (player: EditorPlayer, current: string) => (
+    <li
+      key={player.key}
+      draggable
+      onDragStart={() => setDragKey(player.key)}
+      onDragEnd={() => {
+        setDragKey(null);
+        setDropTarget(null);
+      }}
+      className={`flex cursor-move items-center justify-between gap-2 px-4 py-2 text-sm ${
+        dragKey === player.key ? "opacity-40" : ""
+      } ${player.isPlaying ? "text-gray-900" : "text-gray-400 line-through"}`}
+    >
+      <span>
+        {player.name}
+        {player.hostName && (
+          <span className="ml-1 text-xs text-gray-400">(Guest of {player.hostName})</span>
+        )}
+      </span>
+      <select
+        value={current}
+        onChange={(e) => movePlayer(player.key, e.target.value)}
+        aria-label={`Move ${player.name}`}
+        className="rounded border border-gray-200 bg-white px-1 py-0.5 text-xs text-gray-600"
+      >
+        {groups.map((g, i) => (
+          <option key={g.id} value={g.id}>
+            Group {i + 1}
+          </option>
+        ))}
+        <option value={UNGROUPED}>Not grouped</option>
+      </select>
+    </li>
+  );
+
+  return (
+    <div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {groups.map((group, i) => {
+          const { harmony, warnings } = analysis[i];
+          const harmonyDropped = group.savedHarmony !== null && harmony < group.savedHarmony;
+          return (
+            <div
+              key={group.id}
+              {...dropProps(group.id)}
+              className={`overflow-hidden rounded-lg border bg-white shadow-sm ${
+                dropTarget === group.id
+                  ? "border-teal-400 ring-2 ring-teal-100"
+                  : warnings.length > 0
+                    ? "border-amber-300"
+                    : "border-gray-200"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2 bg-gray-50 px-4 py-2">
+                <p className="text-sm font-semibold text-navy-900">
+                  Group {i + 1}
+                  <span className="ml-2 text-xs font-normal text-gray-500">{formatTeeOrder(i + 1)} off</span>
+                </p>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => moveGroup(i, -1)}
+                    disabled={i === 0}
+                    aria-label="Tee off earlier"
+                    className="rounded px-1.5 text-gray-500 hover:bg-gray-200 disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => moveGroup(i, 1)}
+                    disabled={i === groups.length - 1}
+                    aria-label="Tee off later"
+                    className="rounded px-1.5 text-gray-500 hover:bg-gray-200 disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => toggleLock(i)}
+                    className={`ml-1 rounded-full px-2 py-0.5 text-xs font-medium ${
+                      group.locked
+                        ? "bg-navy-900 text-white"
+                        : "bg-gray-200 text-gray-600 hover:bg-gray-300"
+                    }`}
+                  >
+                    {group.locked ? "Locked" : "Lock"}
+                  </button>
+                </div>
+              </div>
+              {group.players.length > 0 ? (
+                <ul className="divide-y divide-gray-100">
+                  {group.players.map((p) => renderPlayer(p, group.id))}
+                </ul>
+              ) : (
+                <p className="px-4 py-3 text-xs text-gray-400">Drag golfers here</p>
+              )}
+              <div className="border-t border-gray-100 px-4 py-2 text-xs">
+                <span className={harmonyDropped ? "text-amber-700" : "text-gray-500"}>
+                  Harmony {harmony}
+                  {harmonyDropped && ` (was ${group.savedHarmony})`}
+                </span>
+                {warnings.map((w) => (
+                  <p key={w} className="mt-1 text-amber-700">
+                    ⚠ {w}
+                  </p>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div
+        {...dropProps(UNGROUPED)}
+        className={`mt-3 rounded-lg border border-dashed bg-gray-50 ${
+          dropTarget === UNGROUPED ? "border-teal-400" : "border-gray-300"
+        }`}
+      >
+        <p className="px-4 pt-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+          Not grouped ({ungrouped.length})
+        </p>
+        {ungrouped.length > 0 ? (
+          <ul className="divide-y divide-gray-100">
+            {ungrouped.map((p) => renderPlayer(p, UNGROUPED))}
+          </ul>
+        ) : (
+          <p className="px-4 pb-3 pt-1 text-xs text-gray-400">
+            Everyone playing is in a group. Drag a golfer here to take them out.
+          </p>
+        )}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button
+          onClick={addGroup}
+          className="rounded-md border border-gray-300 bg-white px-3 py-2 text-xs font-semibold text-gray-700 hover:bg-gray-50"
+        >
+          + Add Group
+        </button>
+        <div className="ml-auto flex items-center gap-2">
+          {dirty && <span className="text-xs text-amber-700">Unsaved changes</span>}
+          <button
+            onClick={discard}
+            disabled={!dirty || isPending}
+            className="rounded-md border border-gray-300 bg-white px-3 py-2 text-xs font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Discard
+          </button>
+          <button
+            onClick={() => {
+              if (notPlayingCount > 0) {
+                showToast("Move golfers who are no longer playing out of their groups first", "error");
+              } else if (conflictCount > 0) {
+                setShowConfirm(true);
+              } else {
+                save();
+              }
+            }}
+            disabled={!dirty || isPending}
+            className="rounded-md bg-teal-600 px-3 py-2 text-xs font-semibold text-white hover:bg-teal-500 disabled:opacity-50"
+          >
+            {isPending ? "Saving…" : "Save Groupings"}
+          </button>
+        </div>
+      </div>
+
+      <ConfirmModal
+        open={showConfirm}
+        title="Save With Do-Not-Pair Conflicts"
+        message={`${conflictCount} do-not-pair ${conflictCount === 1 ? "pair is" : "pairs are"} grouped together. Save anyway?`}
+        confirmLabel="Save Anyway"
+        variant="danger"
+        loading={isPending}
+        onCancel={() => setShowConfirm(false)}
+        onConfirm={() => {
+          setShowConfirm(false);
+          save();
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { requireAdmin, hasEventAccess } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/server";
+import { notFound, redirect } from "next/navigation";
+import { Breadcrumbs } from "@/components/breadcrumbs";
+import { buildGroupingsForSchedule } from "@/lib/grouping-service";
+import { formatGameDate, formatInitialLastName } from "@/lib/format";
+import { formatTeeOrder } from "@/lib/tee-sheet";
+import {
+  GROUPING_METHOD_LABELS,
+  FLIGHT_TEAM_PAIRING_LABELS,
+  PARTNER_PREF_MODE_LABELS,
+  TEE_TIME_PREF_MODE_LABELS,
+  isTeamMethod,
+} from "@/types/events";
+import { RerunPreviewButton } from "../grouping-controls";
+
+export default async function GroupingsPreviewPage({
+  params,
+}: {
+  params: Promise<{ scheduleId: string }>;
+}) {
+  const { scheduleId } = await params;
+  const { profile, adminEvents } = await requireAdmin();
+  const supabase = createAdminClient();
+
+  const { data: schedule } = await supabase
+    .from("event_schedules")
+    .select("id, event_id, game_date, event:events(id, name)")
+    .eq("id", scheduleId)
+    .single();
+
+  if (!schedule) notFound();
+
+  if (!hasEventAccess(profile, adminEvents, schedule.event_id)) {
+    redirect("/admin");
+  }
+
+  const event = schedule.event as unknown as { id: string; name: string } | null;
+
+  // Dry run: the same pipeline the emails use, without storing anything
+  const run = await buildGroupingsForSchedule(supabase, scheduleId, { dryRun: true });
+  const { inputs, result } = run;
+  if (!inputs || !result) notFound();
+
+  // Names for everyone the preview mentions
+  const profileIds = [
+    ...new Set([
+      ...inputs.golferIds,
+      ...inputs.restrictedPairs.flat(),
+      ...inputs.lockedGroups.flatMap((g) => g.profileIds),
+      ...inputs.guests.map((g) => g.hostProfileId),
+    ]),
+  ];
+  const guestIds = inputs.guests.map((g) => g.guestRequestId);
+  const [{ data: profiles }, { data: guestRows }] = await Promise.all([
+    supabase
+      .from("profiles")
+      .select("id, first_name, last_name")
+      .in("id", profileIds.length > 0 ? profileIds : ["00000000-0000-0000-0000-000000000000"]),
+    supabase
+      .from("guest_requests")
+      .select("id, guest_first_name, guest_last_name")
+      .in("id", guestIds.length > 0 ? guestIds : ["00000000-0000-0000-0000-000000000000"]),
+  ]);
+  const nameOf = new Map<string, string>();
+  for (const p of profiles || []) {
+    nameOf.set(p.id, formatInitialLastName(p.first_name, p.last_name));
+  }
+  const guestName = new Map<string, string>();
+  for (const g of guestRows || []) {
+    guestName.set(g.id, `${g.guest_first_name} ${g.guest_last_name}`);
+  }
+  const name = (id: string) => nameOf.get(id) ?? "Unknown golfer";
+  const guestsOf = (hostId: string) =>
+    inputs.guests.filter((g) => g.hostProfileId === hostId).map((g) => guestName.get(g.guestRequestId) ?? "Guest");
+
+  const { settings } = inputs;
+  const settingRows: [string, string][] = [
+    ["Grouping method", GROUPING_METHOD_LABELS[settings.groupingMethod].label],
+    ...(isTeamMethod(settings.groupingMethod)
+      ? [["Team pairing", FLIGHT_TEAM_PAIRING_LABELS[settings.flightTeamPairing].label] as [string, string]]
+      : []),
+    ["Partner preferences", PARTNER_PREF_MODE_LABELS[settings.partnerPreferenceMode].label],
+    ["Tee time preferences", TEE_TIME_PREF_MODE_LABELS[settings.teeTimePreferenceMode].label],
+    ["Group variety", settings.promoteVariety ? "On" : "Off"],
+    [
+      "Tee time history",
+      settings.needsTeeTimeHistory
+        ? `Last ${inputs.historyWeeks} weeks — ${inputs.teeTimeHistoryGolfers} golfers with history`
+        : "Not used",
+    ],
+    [
+      "Recent pairings",
+      settings.needsRecentPairings
+        ? `Last ${inputs.historyWeeks} weeks — ${inputs.recentPairCount} pairs played together`
+        : "Not used",
+    ],
+  ];
+
+  const lockedNumbers = new Set(inputs.lockedGroups.map((g) => g.groupNumber));
+  const allGroups = [
+    ...inputs.lockedGroups.map((g) => ({
+      groupNumber: g.groupNumber,
+      teeOrder: g.teeOrder,
+      harmonyScore: g.harmonyScore,
+      golfers: g.profileIds,
+    })),
+    ...result.groups,
+  ].sort((a, b) => a.teeOrder - b.teeOrder);
+
+  return (
+    <main className="min-h-screen px-4 py-8">
+      <div className="mx-auto max-w-4xl">
+        <div>
+          <Breadcrumbs
+            items={[
+              { label: "Admin", href: "/admin" },
+              { label: event?.name || "Event", href: `/admin/events/${event?.id}` },
+              { label: "RSVP Management", href: `/admin/rsvp/${scheduleId}` },
+              { label: "Grouping Preview" },
+            ]}
+          />
+          <h1 className="text-2xl font-serif uppercase tracking-wide font-bold text-navy-900">
+            Grouping Preview
+          </h1>
+          <p className="mt-1 text-lg text-gray-600">
+            <span className="font-semibold text-gray-900">{formatGameDate(schedule.game_date)}</span>
+            {" — "}{event?.name}
+          </p>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-start justify-between gap-3">
+          <p className="max-w-2xl text-sm text-gray-600">
+            A dry run of the grouping engine with the inputs the confirmation and
+            suggested groupings emails use. Nothing is saved. Ties are shuffled, so
+            each run can differ.
+          </p>
+          <RerunPreviewButton />
+        </div>
+
+        {run.skipReason && (
+          <p className="mt-4 rounded-md border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+            {run.skipReason}, so the emails won&apos;t regenerate this game&apos;s groupings.
+          </p>
+        )}
+
+        <section className="mt-6">
+          <h2 className="text-lg font-semibold text-gray-700">Inputs</h2>
+          <dl className="mt-3 divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white text-sm shadow-sm">
+            {settingRows.map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-4 px-4 py-2">
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="text-right font-medium text-gray-900">{value}</dd>
+              </div>
+            ))}
+            <div className="flex justify-between gap-4 px-4 py-2">
+              <dt className="text-gray-500">Golfers grouped</dt>
+              <dd className="text-right font-medium text-gray-900">
+                {inputs.golferIds.length}
+                {inputs.lockedGroups.length > 0 &&
+                  ` (plus ${inputs.lockedGroups.length} locked group${inputs.lockedGroups.length === 1 ? "" : "s"} kept)`}
+                {inputs.guests.length > 0 && `, ${inputs.guests.length} guest${inputs.guests.length === 1 ? "" : "s"} with their hosts`}
+              </dd>
+            </div>
+            <div className="flex justify-between gap-4 px-4 py-2">
+              <dt className="text-gray-500">Do-not-pair restrictions</dt>
+              <dd className="text-right font-medium text-gray-900">
+                {inputs.restrictedPairs.length === 0
+                  ? "None"
+                  : inputs.restrictedPairs.map(([a, b]) => `${name(a)} & ${name(b)}`).join(", ")}
+              </dd>
+            </div>
+          </dl>
+          {settings.preferencesOverridden && (
+            <p className="mt-2 text-xs text-gray-500">
+              Handicap methods ignore partner and tee time preferences and group variety.
+            </p>
+          )}
+        </section>
+
+        <section className="mt-8 mb-12">
+          <h2 className="text-lg font-semibold text-gray-700">
+            Groups
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              Total harmony {result.totalHarmonyScore}
+            </span>
+          </h2>
+          {allGroups.length === 0 ? (
+            <p className="mt-3 text-sm text-gray-500">No confirmed golfers to group yet.</p>
+          ) : (
+            <div className="mt-3 grid gap-3 sm:grid-cols-2">
+              {allGroups.map((group) => (
+                <div key={group.groupNumber} className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+                  <div className="flex items-center justify-between bg-gray-50 px-4 py-2">
+                    <p className="text-sm font-semibold text-navy-900">
+                      Group {group.groupNumber}
+                      {lockedNumbers.has(group.groupNumber) && (
+                        <span className="ml-2 rounded-full bg-navy-900 px-2 py-0.5 text-xs font-medium text-white">
+                          Locked
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatTeeOrder(group.teeOrder)} off · Harmony {group.harmonyScore ?? "—"}
+                    </p>
+                  </div>
+                  <ul className="divide-y divide-gray-100">
+                    {group.golfers.map((id) => (
+                      <li key={id} className="px-4 py-2 text-sm text-gray-900">
+                        {name(id)}
+                        {guestsOf(id).map((g) => (
+                          <span key={g} className="ml-1 text-xs text-gray-400">+ {g} (guest)</span>
+                        ))}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
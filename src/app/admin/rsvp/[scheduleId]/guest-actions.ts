@@ -5,6 +5,8 @@ import { createAdminClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
 import { sendEmail } from "@/lib/email";
 import { formatGameDate, formatFullName } from "@/lib/format";
+import { approveGuestForGame, describeGuestWaitlist } from "@/lib/guest-waitlist";
+import { applyGuestStatus } from "@/lib/rsvp-capacity";
 
 export async function approveGuestRequest(
   guestRequestId: string,
@@ -53,21 +55,28 @@ export async function approveGuestRequest(
     guestProfileId = existingProfile?.id || null;
   }
 
-  // Update the guest request to approved
-  const { error: updateError } = await supabase
-    .from("guest_requests")
-    .update({
-      status: "approved",
-      approved_by: profile.id,
-      guest_profile_id: guestProfileId,
-    })
-    .eq("id", guestRequestId);
+  if (guestProfileId) {
+    await supabase
+      .from("guest_requests")
+      .update({ guest_profile_id: guestProfileId })
+      .eq("id", guestRequestId);
+  }
 
-  if (updateError) {
-    console.error("Error approving guest request:", updateError);
+  // Approve against capacity: the guest takes an open spot, or joins the
+  // guest waitlist when the game is full or members still have priority
+  let approval;
+  try {
+    approval = await approveGuestForGame(supabase, guestRequestId, scheduleId, profile.id);
+  } catch (approveError) {
+    console.error("Error approving guest request:", approveError);
     return { error: "Failed to approve guest request" };
   }
 
+  if (!approval.applied.changed) {
+    return { error: `This guest request has already been ${approval.applied.newStatus}` };
+  }
+  const waitlisted = approval.applied.newStatus === "waitlisted";
+
   // Fetch golfer and schedule info for email
   const { data: golferProfile } = await supabase
     .from("profiles")
@@ -114,20 +123,27 @@ export async function approveGuestRequest(
 
     // Remove duplicates and golfer's own email from CC
     const uniqueCc = [...new Set(ccList)].filter((e) => e !== golferProfile.email);
+    const subject = waitlisted
+      ? `${eventName}: Guest Waitlisted for ${gameDate}`
+      : `${eventName}: Guest Approved for ${gameDate}`;
 
     await sendEmail({
       to: golferProfile.email,
       cc: uniqueCc.length > 0 ? uniqueCc : undefined,
-      subject: `${eventName}: Guest Approved for ${gameDate}`,
+      subject,
       html: `
         <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 0 auto; padding: 24px;">
           <h2 style="color: #15803d; margin-bottom: 4px;">${eventName}</h2>
           <p style="color: #6b7280; font-size: 16px; margin-top: 0;">${gameDate}</p>
 
-          <p style="color: #374151;">Great news, ${golferProfile.first_name}!</p>
+          <p style="color: #374151;">${waitlisted ? "Hi" : "Great news,"} ${golferProfile.first_name}${waitlisted ? "," : "!"}</p>
           <p style="color: #374151;">Your guest request for <strong>${guestName}</strong> has been approved by ${actingAdminName} for ${gameDate}.</p>
           ${guestRequest.guest_ghin_number ? `<p style="color: #374151;">GHIN: ${guestRequest.guest_ghin_number}</p>` : ""}
-          <p style="color: #374151;">Your guest will be included in the confirmation email and suggested groupings.</p>
+          <p style="color: #374151;">${
+            waitlisted
+              ? describeGuestWaitlist(guestName, approval.applied.waitlistPosition, approval.heldForMembers)
+              : "Your guest will be included in the confirmation email and suggested groupings."
+          }</p>
 
           ${ghinPrompt}
 
@@ -140,13 +156,56 @@ export async function approveGuestRequest(
     await supabase.from("email_log").insert({
       event_id: event.id,
       schedule_id: scheduleId,
-      email_type: "guest_approved",
-      subject: `${eventName}: Guest Approved for ${gameDate}`,
+      email_type: waitlisted ? "guest_waitlisted" : "guest_approved",
+      subject,
       recipient_count: 1 + uniqueCc.length,
       sent_by: profile.id,
     });
   }
 
+  revalidatePath(`/admin/rsvp/${scheduleId}`);
+  return { success: true, waitlisted, waitlistPosition: approval.applied.waitlistPosition };
+}
+
+/**
+ * Admin moves a guest off the guest waitlist and into the game.
+ * Like promoting a member, an explicit admin promotion overrides capacity.
+ */
+export async function promoteGuestFromWaitlist(
+  guestRequestId: string,
+  scheduleId: string
+) {
+  const { profile, adminEvents } = await requireAdmin();
+  const supabase = createAdminClient();
+
+  const { data: scheduleCheck } = await supabase
+    .from("event_schedules")
+    .select("event_id")
+    .eq("id", scheduleId)
+    .single();
+
+  if (scheduleCheck && !hasEventAccess(profile, adminEvents, scheduleCheck.event_id)) {
+    return { error: "Not authorized for this event" };
+  }
+
+  let applied;
+  try {
+    applied = await applyGuestStatus(supabase, {
+      guestRequestId,
+      status: "approved",
+      changedBy: profile.id,
+      enforceCapacity: false,
+      expectedStatus: "waitlisted",
+    });
+  } catch (promoteError) {
+    console.error("Error promoting guest:", promoteError);
+    return { error: "Failed to promote guest" };
+  }
+
+  if (!applied.changed) {
+    return { error: "Guest is no longer on the waitlist" };
+  }
+
   revalidatePath(`/admin/rsvp/${scheduleId}`);
   return { success: true };
 }
@@ -180,21 +239,23 @@ export async function denyGuestRequest(
     return { error: "Guest request not found" };
   }
 
-  // Check if already actioned
-  if (guestRequest.status !== "pending") {
+  // Check if already actioned (waitlisted guests can still be turned away)
+  if (guestRequest.status !== "pending" && guestRequest.status !== "waitlisted") {
     return { error: `This guest request has already been ${guestRequest.status}` };
   }
 
-  // Update the guest request to denied
-  const { error: updateError } = await supabase
-    .from("guest_requests")
-    .update({
+  // Update the guest request to denied (renumbers the guest waitlist)
+  try {
+    const applied = await applyGuestStatus(supabase, {
+      guestRequestId,
       status: "denied",
-      approved_by: profile.id,
-    })
-    .eq("id", guestRequestId);
-
-  if (updateError) {
+      changedBy: profile.id,
+      expectedStatus: guestRequest.status,
+    });
+    if (!applied.changed) {
+      return { error: `This guest request has already been ${applied.newStatus}` };
+    }
+  } catch (updateError) {
     console.error("Error denying guest request:", updateError);
     return { error: "Failed to deny guest request" };
   }
@@ -3,7 +3,7 @@
 import { useState, useTransition } from "react";
 import { useToast } from "@/components/toast";
 import { ConfirmModal } from "@/components/confirm-modal";
-import { approveGuestRequest, denyGuestRequest } from "./guest-actions";
+import { approveGuestRequest, denyGuestRequest, promoteGuestFromWaitlist } from "./guest-actions";
 
 export function GuestApprovalButton({
   guestRequestId,
@@ -40,6 +40,8 @@ export function GuestApprovalButton({
             const result = await approveGuestRequest(guestRequestId, scheduleId);
             if (result.error) {
               showToast(result.error, "error");
+            } else if ("waitlisted" in result && result.waitlisted) {
+              showToast(`${guestName} approved — #${result.waitlistPosition} on the guest waitlist`);
             } else {
               showToast(`${guestName} approved`);
             }
@@ -95,3 +97,55 @@ export function GuestDenialButton({
     </>
   );
 }
+
+export function GuestPromoteButton({
+  guestRequestId,
+  scheduleId,
+  guestName,
+  gameFull,
+}: {
+  guestRequestId: string;
+  scheduleId: string;
+  guestName: string;
+  gameFull: boolean;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [showConfirm, setShowConfirm] = useState(false);
+  const { showToast } = useToast();
+
+  return (
+    <>
+      <button
+        onClick={() => setShowConfirm(true)}
+        disabled={isPending}
+        className="rounded-md bg-teal-600 px-3 py-2 text-xs font-semibold text-white hover:bg-teal-500 disabled:opacity-50"
+      >
+        {isPending ? "Moving…" : "Move In"}
+      </button>
+      <ConfirmModal
+        open={showConfirm}
+        title="Move Guest In"
+        message={
+          gameFull
+            ? `The game is full. Move ${guestName} in anyway? This puts the game over capacity.`
+            : `Move ${guestName} off the guest waitlist and into the game?`
+        }
+        confirmLabel="Move In"
+        variant={gameFull ? "danger" : "default"}
+        loading={isPending}
+        onCancel={() => setShowConfirm(false)}
+        onConfirm={() => {
+          setShowConfirm(false);
+          startTransition(async () => {
+            const result = await promoteGuestFromWaitlist(guestRequestId, scheduleId);
+            if (result.error) {
+              showToast(result.error, "error");
+            } else {
+              showToast(`${guestName} moved in`);
+            }
+          });
+        }}
+      />
+    </>
+  );
+}
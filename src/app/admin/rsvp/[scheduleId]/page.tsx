@@ -9,10 +9,17 @@ import {
   PromoteButton,
 } from "./rsvp-controls";
 import { AddGolferToGame } from "./add-golfer-to-game";
-import { GuestApprovalButton, GuestDenialButton } from "./guest-controls";
+import { GuestApprovalButton, GuestDenialButton, GuestPromoteButton } from "./guest-controls";
 import { formatPhoneDisplay, formatGameDate, formatDateTime, formatInitialLastName } from "@/lib/format";
 import { isPastCutoffPacific, calculateSendDateString } from "@/lib/timezone";
 import { EmailStatusPanel } from "./email-controls";
+import { GroupingsFinalButton, ResendGroupingsButton } from "./grouping-controls";
+import { GroupingEditor, type EditorGroup, type EditorPlayer } from "./grouping-editor";
+import {
+  fetchStoredGroupings,
+  fetchPartnerPreferences,
+  fetchDoNotPairRestrictions,
+} from "@/lib/grouping-db";
 import { RSVP_ADMIN_LABELS as statusLabels, RSVP_ADMIN_COLORS as statusBadgeColors, type RsvpStatus } from "@/lib/rsvp-status";
 
 export default async function AdminRsvpPage({
@@ -126,6 +133,26 @@ export default async function AdminRsvpPage({
   }
   const enabledCount = Object.values(enabledTypesMap).filter(Boolean).length;
 
+  // Fetch waitlist offers (most recent per RSVP) to show offer state
+  const { data: waitlistOffers } = await supabase
+    .from("waitlist_offers")
+    .select("rsvp_id, status, offered_at, expires_at")
+    .eq("schedule_id", scheduleId)
+    .order("offered_at", { ascending: false });
+
+  type WaitlistOfferEntry = { status: string; offeredAt: string; expiresAt: string };
+  const offerByRsvp: Record<string, WaitlistOfferEntry> = {};
+  for (const offer of waitlistOffers || []) {
+    if (!offerByRsvp[offer.rsvp_id]) {
+      offerByRsvp[offer.rsvp_id] = {
+        status: offer.status,
+        offeredAt: offer.offered_at,
+        expiresAt: offer.expires_at,
+      };
+    }
+  }
+  const pendingOfferCount = Object.values(offerByRsvp).filter((o) => o.status === "pending").length;
+
   // Fetch guest requests for this schedule
   const { data: guestRequests } = await supabase
     .from("guest_requests")
@@ -138,6 +165,9 @@ export default async function AdminRsvpPage({
   const allGuestRequests = guestRequests || [];
   const pendingGuests = allGuestRequests.filter((g) => g.status === "pending");
   const approvedGuests = allGuestRequests.filter((g) => g.status === "approved");
+  const waitlistedGuests = allGuestRequests
+    .filter((g) => g.status === "waitlisted")
+    .sort((a, b) => (a.waitlist_position || 999) - (b.waitlist_position || 999));
   const deniedGuests = allGuestRequests.filter((g) => g.status === "denied");
 
   // Fetch playing partner preferences for confirmed golfers
@@ -209,7 +239,66 @@ export default async function AdminRsvpPage({
   const notSureCount = grouped.not_sure.length;
   const noResponseCount = grouped.no_response.length;
   const outCount = grouped.out.length;
-  const spotsRemaining = Math.max(0, capacity - inCount);
+  // Approved guests take spots alongside members
+  const playingCount = inCount + approvedGuests.length;
+  const spotsRemaining = Math.max(0, capacity - playingCount);
+
+  // Stored groupings (draft until an admin marks them final)
+  const storedGroupings = await fetchStoredGroupings(supabase, scheduleId);
+  const groupingsFinal = !!schedule.groupings_final_at;
+
+  // Grouping editor: stored groups, plus anyone playing who isn't in one
+  const [groupingPreferences, restrictedPairs] = storedGroupings.length > 0 && event
+    ? await Promise.all([
+        fetchPartnerPreferences(supabase, event.id),
+        fetchDoNotPairRestrictions(supabase, event.id),
+      ])
+    : [[], new Set<string>()];
+  const inIds = new Set(grouped.in.map((r) => r.profile_id as string));
+  const approvedGuestIds = new Set(approvedGuests.map((g) => g.id as string));
+  const editorGroups: EditorGroup[] = storedGroupings.map((group) => ({
+    id: String(group.groupNumber),
+    locked: group.isLocked,
+    savedHarmony: group.harmonyScore === null ? null : Number(group.harmonyScore),
+    players: group.golfers.map((g) => ({
+      key: g.profileId ?? `guest:${g.guestRequestId}`,
+      profileId: g.profileId,
+      guestRequestId: g.guestRequestId,
+      name: `${g.firstName} ${g.lastName}`,
+      hostProfileId: g.hostProfileId,
+      hostName: g.hostName,
+      isPlaying: g.isGuest ? approvedGuestIds.has(g.guestRequestId!) : inIds.has(g.profileId!),
+    })),
+  }));
+  const groupedKeys = new Set(editorGroups.flatMap((g) => g.players.map((p) => p.key)));
+  const editorUngrouped: EditorPlayer[] = [
+    ...grouped.in.flatMap((r) => {
+      const p = r.profile as { id: string; first_name: string; last_name: string };
+      if (groupedKeys.has(p.id)) return [];
+      return [{
+        key: p.id,
+        profileId: p.id,
+        guestRequestId: null,
+        name: `${p.first_name} ${p.last_name}`,
+        hostProfileId: null,
+        hostName: null,
+        isPlaying: true,
+      }];
+    }),
+    ...approvedGuests.flatMap((g) => {
+      if (groupedKeys.has(`guest:${g.id}`)) return [];
+      const host = g.requestor as { first_name: string; last_name: string } | null;
+      return [{
+        key: `guest:${g.id}`,
+        profileId: null,
+        guestRequestId: g.id as string,
+        name: `${g.guest_first_name} ${g.guest_last_name}`,
+        hostProfileId: g.requested_by as string,
+        hostName: host ? formatInitialLastName(host.first_name, host.last_name) : "Golfer",
+        isPlaying: true,
+      }];
+    }),
+  ];
 
   // Check cutoff status (using Pacific Time — Vercel runs in UTC)
   let isPastCutoff = false;
@@ -274,10 +363,11 @@ export default async function AdminRsvpPage({
           <div className="rounded-lg bg-teal-50 px-3 py-3 text-center">
             <p className="text-xs font-semibold uppercase tracking-wide text-teal-600">In</p>
             <p className="mt-1">
-              <span className="text-2xl font-bold text-teal-700">{inCount}</span>
+              <span className="text-2xl font-bold text-teal-700">{playingCount}</span>
               <span className="text-base text-teal-400">/{capacity}</span>
             </p>
             <p className="mt-1 text-xs leading-snug text-teal-500">
+              {approvedGuests.length > 0 && `incl. ${approvedGuests.length} guest${approvedGuests.length === 1 ? "" : "s"} · `}
               {spotsRemaining > 0 ? `${spotsRemaining} open` : "Full"}
             </p>
           </div>
@@ -304,6 +394,11 @@ export default async function AdminRsvpPage({
           <div className={`rounded-lg px-3 py-3 text-center ${waitlistCount > 0 ? "bg-orange-50" : "bg-gray-50"}`}>
             <p className={`text-xs font-semibold uppercase tracking-wide ${waitlistCount > 0 ? "text-orange-600" : "text-gray-400"}`}>Waitlist</p>
             <p className={`mt-1 text-2xl font-bold ${waitlistCount > 0 ? "text-orange-600" : "text-gray-400"}`}>{waitlistCount}</p>
+            {waitlistedGuests.length > 0 && (
+              <p className="mt-1 text-xs leading-snug text-orange-500">
+                +{waitlistedGuests.length} guest{waitlistedGuests.length === 1 ? "" : "s"}
+              </p>
+            )}
           </div>
         </div>
 
@@ -470,6 +565,82 @@ export default async function AdminRsvpPage({
           </CollapsibleSection>
         )}
 
+        {/* Guest Waitlist — approved guests waiting for a spot, in order */}
+        {waitlistedGuests.length > 0 && (
+          <CollapsibleSection
+            title="Guest Waitlist"
+            count={waitlistedGuests.length}
+            defaultOpen={true}
+            headerColor="text-orange-800"
+          >
+            <p className="mb-3 text-sm text-gray-500">
+              {(event?.guest_capacity_policy || "members_first") === "members_first"
+                ? "Members have priority. These guests fill any open spots at the RSVP cutoff, in this order."
+                : "The game was full when these guests were approved. They move in, in this order, when a spot opens and no member is waiting."}
+            </p>
+            <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                      #
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                      Guest Name
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                      Invited By
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {waitlistedGuests.map((guest: Record<string, unknown>) => {
+                    const requestor = guest.requestor as {
+                      first_name: string;
+                      last_name: string;
+                    };
+                    const guestName = `${guest.guest_first_name} ${guest.guest_last_name}`;
+                    return (
+                      <tr key={guest.id as string}>
+                        <td className="whitespace-nowrap px-4 py-3 text-sm font-semibold text-orange-600">
+                          {guest.waitlist_position as number}
+                        </td>
+                        <td className="whitespace-nowrap px-4 py-3 text-sm font-medium text-gray-900">
+                          {guestName}
+                          <span className="ml-2 inline-block rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-700">
+                            Guest
+                          </span>
+                        </td>
+                        <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">
+                          {requestor?.first_name} {requestor?.last_name}
+                        </td>
+                        <td className="whitespace-nowrap px-4 py-3 text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <GuestPromoteButton
+                              guestRequestId={guest.id as string}
+                              scheduleId={scheduleId}
+                              guestName={guestName}
+                              gameFull={spotsRemaining === 0}
+                            />
+                            <GuestDenialButton
+                              guestRequestId={guest.id as string}
+                              scheduleId={scheduleId}
+                              guestName={guestName}
+                            />
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </CollapsibleSection>
+        )}
+
         {/* Pending Guest Requests — only shown when there are pending requests */}
         {pendingGuests.length > 0 && (
           <CollapsibleSection
@@ -480,7 +651,8 @@ export default async function AdminRsvpPage({
           >
             <p className="mb-3 text-sm text-gray-500">
               Review these guest requests and approve or deny after the RSVP
-              cutoff.
+              cutoff. Approved guests count toward capacity — if there&apos;s no
+              spot for them, they join the guest waitlist.
             </p>
             <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
               <table className="min-w-full divide-y divide-gray-200">
@@ -517,6 +689,14 @@ export default async function AdminRsvpPage({
                         </td>
                         <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-900">
                           {guestName}
+                          {!!guest.visit_limit_exceeded && (
+                            <span
+                              className="ml-2 inline-flex rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800"
+                              title={`Already at this event's limit of ${event?.max_visits_per_guest ?? "—"} visits per guest this season`}
+                            >
+                              Over visit limit
+                            </span>
+                          )}
                           <span className="block text-xs text-gray-400 sm:hidden">
                             {guest.guest_email as string}
                           </span>
@@ -735,6 +915,18 @@ export default async function AdminRsvpPage({
               time, but you can promote anyone.
             </p>
           )}
+          {waitlistCount > 0 && event?.waitlist_auto_promote && (
+            <p className="mb-3 rounded-md bg-teal-50 p-3 text-xs text-teal-700">
+              {event.waitlist_offer_hours > 0
+                ? `Waitlist offers are on: when a spot opens, the next golfer gets ${event.waitlist_offer_hours} hour${event.waitlist_offer_hours === 1 ? "" : "s"} to claim it before it passes down the list`
+                : "Auto-promotion is on: when a spot opens, #1 moves up automatically"}
+              {event.waitlist_post_cutoff_approval
+                ? " until the RSVP cutoff. After cutoff, promote manually."
+                : ", including after the RSVP cutoff."}
+              {pendingOfferCount > 0 &&
+                ` ${pendingOfferCount} spot${pendingOfferCount === 1 ? " is" : "s are"} currently held for pending offers.`}
+            </p>
+          )}
           <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
@@ -751,6 +943,9 @@ export default async function AdminRsvpPage({
                   <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 md:table-cell">
                     Responded
                   </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                    Offer
+                  </th>
                   <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
                     Actions
                   </th>
@@ -763,6 +958,7 @@ export default async function AdminRsvpPage({
                     last_name: string;
                     email: string;
                   };
+                  const offer = offerByRsvp[rsvp.id as string];
                   return (
                     <tr key={rsvp.id as string}>
                       <td className="whitespace-nowrap px-4 py-3 text-sm font-medium text-orange-600">
@@ -780,6 +976,29 @@ export default async function AdminRsvpPage({
                       <td className="hidden whitespace-nowrap px-4 py-3 text-sm text-gray-500 md:table-cell">
                         {formatDateTime(rsvp.responded_at as string | null)}
                       </td>
+                      <td className="whitespace-nowrap px-4 py-3 text-sm">
+                        {!offer ? (
+                          <span className="text-gray-400">—</span>
+                        ) : offer.status === "pending" ? (
+                          <span className="inline-flex flex-col">
+                            <span className="inline-block w-fit rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700">
+                              Offered
+                            </span>
+                            <span className="mt-0.5 text-xs text-gray-500">
+                              Expires {formatDateTime(offer.expiresAt)}
+                            </span>
+                          </span>
+                        ) : (
+                          <span className="inline-flex flex-col">
+                            <span className="inline-block w-fit rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                              {offer.status === "expired" ? "Offer expired" : "Offer cancelled"}
+                            </span>
+                            <span className="mt-0.5 text-xs text-gray-400">
+                              Sent {formatDateTime(offer.offeredAt)}
+                            </span>
+                          </span>
+                        )}
+                      </td>
                       <td className="whitespace-nowrap px-4 py-3 text-right">
                         <div className="flex items-center justify-end gap-2">
                           <PromoteButton
@@ -802,6 +1021,75 @@ export default async function AdminRsvpPage({
           </div>
         </CollapsibleSection>
 
+        {/* Groupings — shown once the grouping engine has run */}
+        {storedGroupings.length > 0 && (
+          <CollapsibleSection
+            title="Groupings"
+            count={storedGroupings.length}
+            defaultOpen={false}
+            headerColor="text-navy-900"
+            badge={
+              groupingsFinal
+                ? { label: "Final", className: "bg-teal-100 text-teal-700" }
+                : { label: "Draft", className: "bg-gray-100 text-gray-600" }
+            }
+          >
+            <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-gray-500">
+                {groupingsFinal ? (
+                  <>
+                    Published to golfers{" "}
+                    {event?.slug && (
+                      <Link
+                        href={`/event/${event.slug}/tee-sheet/${schedule.game_date}`}
+                        className="font-medium text-teal-700 hover:text-teal-600"
+                      >
+                        (view tee sheet)
+                      </Link>
+                    )}
+                    . Final groupings aren&apos;t regenerated by the confirmation email.
+                  </>
+                ) : (
+                  <>Golfers can&apos;t see these groupings until you mark them final.</>
+                )}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <ResendGroupingsButton scheduleId={scheduleId} />
+                <GroupingsFinalButton scheduleId={scheduleId} isFinal={groupingsFinal} />
+              </div>
+            </div>
+            <p className="mb-3 text-xs text-gray-500">
+              Drag golfers and guests between groups (or use each player&apos;s menu) and use the
+              arrows to change tee order. Locked groups are kept as they are when groupings are
+              regenerated.{" "}
+              <Link
+                href={`/admin/rsvp/${scheduleId}/groupings-preview`}
+                className="font-medium text-teal-700 hover:text-teal-600"
+              >
+                Preview the grouping engine
+              </Link>
+            </p>
+            <GroupingEditor
+              scheduleId={scheduleId}
+              initialGroups={editorGroups}
+              initialUngrouped={editorUngrouped}
+              preferences={groupingPreferences}
+              restrictedPairs={Array.from(restrictedPairs)}
+            />
+          </CollapsibleSection>
+        )}
+        {storedGroupings.length === 0 && event?.allow_auto_grouping && (
+          <p className="mt-8 text-sm text-gray-500">
+            Groupings are built when the confirmation email goes out.{" "}
+            <Link
+              href={`/admin/rsvp/${scheduleId}/groupings-preview`}
+              className="font-medium text-teal-700 hover:text-teal-600"
+            >
+              Preview the grouping engine
+            </Link>
+          </p>
+        )}
+
         {/* Emails & Communications — always visible */}
         <section className="mt-8">
           <h2 className="text-lg font-semibold text-gray-700">
@@ -29,6 +29,12 @@ export function StatusDropdown({
       const result = await adminUpdateRsvpStatus(rsvpId, newStatus, scheduleId);
       if (result.error) {
         showToast(result.error, "error");
+      } else if ("waitlisted" in result && result.waitlisted) {
+        showToast("Game is full — golfer is on the waitlist. Use \"Move to In\" to override capacity.");
+      } else if ("promotedNames" in result && result.promotedNames && result.promotedNames.length > 0) {
+        showToast(`Status updated — ${result.promotedNames.join(", ")} moved up from the waitlist`);
+      } else if ("offeredNames" in result && result.offeredNames && result.offeredNames.length > 0) {
+        showToast(`Status updated — spot offered to ${result.offeredNames.join(", ")}`);
       } else {
         showToast("Status updated");
       }
@@ -128,6 +134,8 @@ export function QuickActionButton({
       const result = await adminUpdateRsvpStatus(rsvpId, action, scheduleId);
       if (result.error) {
         showToast(result.error, "error");
+      } else if ("waitlisted" in result && result.waitlisted) {
+        showToast("Game is full — golfer is on the waitlist. Use \"Move to In\" to override capacity.");
       } else {
         showToast("Status updated");
       }
@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { getTodayPacific } from "@/lib/timezone";
+import { formatFullName, getSiteUrl } from "@/lib/format";
+import { buildGamesCalendar, ICS_CONTENT_TYPE, type IcsGame } from "@/lib/ical";
+import { pickGameCourse, formatCourseLocation } from "@/lib/courses";
+import type { Course, GameType } from "@/types/events";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type FeedCourse = Pick<Course, "name" | "address">;
+
+type FeedRsvp = {
+  token: string;
+  schedule: {
+    id: string;
+    game_date: string;
+    status: string;
+    admin_notes: string | null;
+    /** Away-day override */
+    course: FeedCourse | null;
+    event: { name: string; first_tee_time: string; game_type: string; course: FeedCourse | null } | null;
+  };
+};
+
+/**
+ * GET /api/calendar/[token].ics
+ *
+ * A golfer's private calendar feed: every upcoming game they're IN for,
+ * with the first tee time, their group number once groupings are set, and
+ * cancelled games as STATUS:CANCELLED. The profiles.calendar_token is the
+ * only credential, so this stays public like the RSVP links.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token: rawToken } = await params;
+  const token = rawToken.replace(/\.ics$/i, "");
+
+  if (!UUID_PATTERN.test(token)) {
+    return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("id, first_name, last_name")
+    .eq("calendar_token", token)
+    .maybeSingle();
+
+  if (!profile) {
+    return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+  }
+
+  const { data: rsvpRows, error } = await supabase
+    .from("rsvps")
+    .select(
+      "token, schedule:event_schedules!inner(id, game_date, status, admin_notes, course:courses(name, address), event:events(name, first_tee_time, game_type, course:courses(name, address)))"
+    )
+    .eq("profile_id", profile.id)
+    .eq("status", "in")
+    .gte("schedule.game_date", getTodayPacific());
+
+  if (error) {
+    console.error("Calendar feed error:", error);
+    return NextResponse.json({ error: "Failed to load calendar" }, { status: 500 });
+  }
+
+  const rsvps = ((rsvpRows || []) as unknown as FeedRsvp[]).filter((r) => r.schedule.event);
+  const scheduleIds = rsvps.map((r) => r.schedule.id);
+
+  // Group numbers, where groupings exist
+  const groupBySchedule = new Map<string, number>();
+  if (scheduleIds.length > 0) {
+    const { data: groupings } = await supabase
+      .from("groupings")
+      .select("schedule_id, group_number")
+      .eq("profile_id", profile.id)
+      .in("schedule_id", scheduleIds);
+    for (const g of groupings || []) {
+      groupBySchedule.set(g.schedule_id, g.group_number);
+    }
+  }
+
+  const siteUrl = getSiteUrl();
+  const games: IcsGame[] = rsvps
+    .sort((a, b) => a.schedule.game_date.localeCompare(b.schedule.game_date))
+    .map((r) => {
+      const course = pickGameCourse(r.schedule.course, r.schedule.event!.course);
+      return {
+        scheduleId: r.schedule.id,
+        eventName: r.schedule.event!.name,
+        gameDate: r.schedule.game_date,
+        firstTeeTime: r.schedule.event!.first_tee_time || "07:30",
+        gameType: (r.schedule.event!.game_type || "18_holes") as GameType,
+        cancelled: r.schedule.status === "cancelled",
+        groupNumber: groupBySchedule.get(r.schedule.id) ?? null,
+        adminNote: r.schedule.admin_notes,
+        url: `${siteUrl}/rsvp/${r.token}`,
+        location: course ? formatCourseLocation(course) : null,
+      };
+    });
+
+  const calendar = buildGamesCalendar(games, {
+    name: `FRCC Golf Games — ${formatFullName(profile.first_name, profile.last_name)}`,
+  });
+
+  return new NextResponse(calendar, {
+    headers: {
+      "Content-Type": ICS_CONTENT_TYPE,
+      "Content-Disposition": 'inline; filename="frcc-golf-games.ics"',
+      "Cache-Control": "private, max-age=900",
+    },
+  });
+}
@@ -16,23 +16,20 @@ import {
 } from "@/lib/timezone";
 import { sendAdminAlert } from "@/lib/admin-alerts";
 import { sendPushToUsers } from "@/lib/push";
-import { generateGroupings, DEFAULT_GROUPING_OPTIONS } from "@/lib/grouping-engine";
-import type { GroupingOptions, GroupingPartnerPrefMode, GroupingTeeTimePrefMode, GroupingMethod, FlightTeamPairing, Event } from "@/types/events";
-import { isHandicapMethod } from "@/types/events";
+import { getRsvpReplyAddress } from "@/lib/email-reply-parser";
+import { buildGameIcsAttachment } from "@/lib/ical";
+import { resolveGameCourse, formatCourseLocation } from "@/lib/courses";
+import { sendGameTexts, getRsvpShortLink, buildInviteText, buildReminderText } from "@/lib/sms";
+import type { Event } from "@/types/events";
 import { calculateEventEndDate } from "@/lib/schedule-gen";
-import {
-  fetchConfirmedGolfers,
-  fetchPartnerPreferences,
-  fetchDoNotPairRestrictions,
-  storeGroupings,
-  fetchStoredGroupings,
-  fetchApprovedGuests,
-  fetchTeeTimeHistory,
-  fetchRecentPairings,
-} from "@/lib/grouping-db";
+import { fetchStoredGroupings } from "@/lib/grouping-db";
+import { buildGroupingsForSchedule } from "@/lib/grouping-service";
+import { fillGuestSpots } from "@/lib/guest-waitlist";
 import { formatGameDate, formatSponsorName, getSiteUrl } from "@/lib/format";
 import { getGameWeather } from "@/lib/weather";
-import { needsHandicapSync, runHandicapSync, getConsecutiveFailureCount } from "@/lib/handicap-sync";
+import { needsHandicapSync, runHandicapSync, getConsecutiveFailureCount, shouldAlertSyncFailure } from "@/lib/handicap-sync";
+import { processExpiredWaitlistOffers } from "@/lib/waitlist";
+import { processScheduledEmails } from "@/lib/scheduled-emails";
 import type { GameType } from "@/types/events";
 
 /**
@@ -65,7 +62,7 @@ import type { GameType } from "@/types/events";
  * Query params:
  *   ?test=true — dry run, logs but doesn't send emails
  *   ?force=true — bypass time window check (sends immediately, still requires auth)
- *   ?type=invite|reminder|golfer_confirmation|pro_shop_detail — filter to specific email type
+ *   ?type=invite|reminder|golfer_confirmation|pro_shop_detail|scheduled_email — filter to specific email type
  */
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -137,6 +134,50 @@ export async function GET(request: Request) {
         continue;
       }
 
+      // Pass expired waitlist offers on to the next golfer (non-fatal).
+      // Runs before the email schedule check so events with no enabled
+      // emails still move their waitlist along.
+      if (!isTest && event.waitlist_auto_promote) {
+        try {
+          const offerResult = await processExpiredWaitlistOffers(supabase, event.id as string);
+          if (offerResult.schedules > 0) {
+            results.push({
+              event: event.name,
+              type: "waitlist_offers",
+              priority: 0,
+              message: `Expired offers on ${offerResult.schedules} game(s); ${offerResult.offered} new offer(s) sent`,
+              sent: offerResult.offered,
+            });
+          }
+        } catch (err) {
+          console.error(`Waitlist offer expiry failed for ${event.name} (non-fatal):`, err);
+        }
+      }
+
+      // Send custom emails queued from the composer (non-fatal).
+      // Same send slots as the automated emails below.
+      if (!testType || testType === "scheduled_email") {
+        try {
+          const queued = await processScheduledEmails(
+            supabase,
+            { id: event.id as string, min_players: event.min_players ?? null },
+            gameDateString,
+            { isTest, isForce }
+          );
+          for (const q of queued) {
+            results.push({
+              event: event.name,
+              type: "scheduled_email",
+              priority: 0,
+              message: q.message,
+              sent: q.sent,
+            });
+          }
+        } catch (err) {
+          console.error(`Scheduled emails failed for ${event.name} (non-fatal):`, err);
+        }
+      }
+
       // Get enabled email schedules for this event
       const { data: emailSchedules, error: schedulesError } = await supabase
         .from("email_schedules")
@@ -266,11 +307,10 @@ export async function GET(request: Request) {
               sent: syncResult.successCount,
             });
 
-            // Send admin alert if sync failed
-            if (!syncResult.success || (syncResult.failureCount > 0 && syncResult.successCount === 0)) {
+            // Send admin alert if sync failed: on the first failure or every 3rd consecutive failure
+            if (!syncResult.success) {
               const consecutiveFailures = await getConsecutiveFailureCount(event.id as string);
-              // Alert on first failure or every 3rd consecutive failure
-              if (consecutiveFailures === 1 || consecutiveFailures % 3 === 0) {
+              if (shouldAlertSyncFailure(syncResult, consecutiveFailures)) {
                 await sendAdminAlert("handicap_sync_failed", {
                   eventId: event.id as string,
                   eventName: event.name as string,
@@ -382,6 +422,7 @@ async function handleInviteEmails(
     if (!profile?.email) continue;
 
     try {
+      const replyTo = getRsvpReplyAddress(rsvp.token);
       const html = generateInviteEmail({
         golferName: profile.first_name,
         eventName: event.name as string,
@@ -392,13 +433,16 @@ async function handleInviteEmails(
         cutoffDay: event.cutoff_day as number | undefined,
         cutoffTime: event.cutoff_time as string | undefined,
         weather,
+        acceptsReplies: !!replyTo,
       });
 
       if (!isTest) {
         await sendEmail({
           to: profile.email,
+          replyTo,
           subject: `${event.name}: ${formatGameDate(gameDateString)} — Are You In?`,
           html,
+          tracking: { emailType: "invite", eventId: event.id as string, scheduleId: schedule.id },
         });
         await rateLimitDelay();
       }
@@ -446,6 +490,22 @@ async function handleInviteEmails(
     } catch (pushErr) {
       console.error("Push notification error (invite, non-fatal):", pushErr);
     }
+
+    // Text opted-in golfers a short RSVP link (non-fatal)
+    try {
+      await sendGameTexts(
+        supabase,
+        rsvps.map((r: { profile_id: string; token: string }) => ({ profileId: r.profile_id, token: r.token })),
+        {
+          messageType: "invite",
+          eventId: event.id as string,
+          scheduleId: schedule.id,
+          buildBody: (r) => buildInviteText(event.name as string, gameDateString, getRsvpShortLink(siteUrl, r.token)),
+        }
+      );
+    } catch (smsErr) {
+      console.error("SMS error (invite, non-fatal):", smsErr);
+    }
   }
 
   return {
@@ -554,6 +614,7 @@ async function handleReminderEmails(
     if (!profile?.email) continue;
 
     try {
+      const replyTo = getRsvpReplyAddress(rsvp.token);
       const html = generateReminderEmail({
         golferName: profile.first_name,
         eventName: event.name as string,
@@ -565,13 +626,16 @@ async function handleReminderEmails(
         cutoffDay: event.cutoff_day as number | undefined,
         cutoffTime: event.cutoff_time as string | undefined,
         weather,
+        acceptsReplies: !!replyTo,
       });
 
       if (!isTest) {
         await sendEmail({
           to: profile.email,
+          replyTo,
           subject: `${event.name}: ${formatGameDate(gameDateString)} — ${priorityOrder === 1 ? "Last Chance to RSVP" : "Final Reminder"}`,
           html,
+          tracking: { emailType: "reminder", eventId: event.id as string, scheduleId: schedule.id },
         });
         await rateLimitDelay();
       }
@@ -619,6 +683,22 @@ async function handleReminderEmails(
     } catch (pushErr) {
       console.error("Push notification error (reminder, non-fatal):", pushErr);
     }
+
+    // Text opted-in non-responders (non-fatal)
+    try {
+      await sendGameTexts(
+        supabase,
+        pendingRsvps.map((r: { profile_id: string; token: string }) => ({ profileId: r.profile_id, token: r.token })),
+        {
+          messageType: "reminder",
+          eventId: event.id as string,
+          scheduleId: schedule.id,
+          buildBody: (r) => buildReminderText(event.name as string, gameDateString, getRsvpShortLink(siteUrl, r.token)),
+        }
+      );
+    } catch (smsErr) {
+      console.error("SMS error (reminder, non-fatal):", smsErr);
+    }
   }
 
   return {
@@ -673,69 +753,45 @@ async function handleGolferConfirmation(
     return { message: "No confirmed golfers found", sent: 0 };
   }
 
-  // Run grouping engine if enabled for this event
-  if (event.allow_auto_grouping) {
+  // Cutoff has passed: waitlisted guests fill whatever spots members left
+  // open, in guest waitlist order, before the groupings and email are built
+  if (!isTest && event.allow_guest_requests) {
     try {
-      console.log(`Running grouping engine for ${event.name}...`);
-      const eventId = event.id as string;
-      const golfers = await fetchConfirmedGolfers(supabase, schedule.id);
-      const preferences = await fetchPartnerPreferences(supabase, eventId);
-
-      // Build grouping options from event settings + historical data
-      const groupingMethod = (event.grouping_method as GroupingMethod) || 'harmony';
-      const flightTeamPairing = (event.flight_team_pairing as FlightTeamPairing) || 'similar';
-      const handicapBased = isHandicapMethod(groupingMethod);
-
-      // When using handicap methods, partner prefs and tee time prefs are overridden to 'off'
-      const partnerPrefMode = handicapBased ? 'off' : ((event.grouping_partner_pref_mode as GroupingPartnerPrefMode) || 'full');
-      const teeTimePrefMode = handicapBased ? 'off' : ((event.grouping_tee_time_pref_mode as GroupingTeeTimePrefMode) || 'full');
-      const promoteVariety = handicapBased ? false : ((event.grouping_promote_variety as boolean) || false);
-
-      // Fetch historical data only when needed (not needed for handicap methods)
-      const teeTimeHistory = !handicapBased && teeTimePrefMode !== 'full' && teeTimePrefMode !== 'off'
-        ? await fetchTeeTimeHistory(supabase, eventId, 8)
-        : new Map();
-
-      const recentPairings = !handicapBased && promoteVariety
-        ? await fetchRecentPairings(supabase, eventId, 8)
-        : new Map();
-
-      const restrictedPairs = await fetchDoNotPairRestrictions(supabase, eventId);
-
-      const groupingOptions: GroupingOptions = {
-        groupingMethod,
-        flightTeamPairing,
-        partnerPreferenceMode: partnerPrefMode,
-        teeTimePreferenceMode: teeTimePrefMode,
-        promoteVariety,
-        teeTimeHistory,
-        recentPairings,
-        shuffle: true,
-        restrictedPairs,
-      };
-
-      console.log(`Grouping options: method=${groupingMethod}, partner=${partnerPrefMode}, teeTime=${teeTimePrefMode}, variety=${promoteVariety}, restrictions=${restrictedPairs.size}`);
-
-      const groupingResult = generateGroupings(golfers, preferences, groupingOptions);
-      const approvedGuestsForGrouping = await fetchApprovedGuests(supabase, schedule.id);
-      const guestPairs = approvedGuestsForGrouping.map((g) => ({
-        guestRequestId: g.guestRequestId,
-        hostProfileId: g.hostProfileId,
-      }));
-      const storeResult = await storeGroupings(supabase, schedule.id, groupingResult, guestPairs);
+      const promotedGuests = await fillGuestSpots(supabase, schedule.id);
+      if (promotedGuests.length > 0) {
+        console.log(`Guest waitlist: ${promotedGuests.length} guest(s) moved in for ${event.name}`);
+      }
+    } catch (err) {
+      console.error("Guest waitlist fill error (non-fatal):", err);
+    }
+  }
 
-      if (storeResult.success) {
+  // Run grouping engine if enabled for this event (final groupings are kept as-is).
+  // Test runs build groups without storing them.
+  try {
+    const run = await buildGroupingsForSchedule(supabase, schedule.id, { dryRun: isTest });
+    if (run.skipReason) {
+      console.log(`Grouping engine skipped for ${event.name}: ${run.skipReason}`);
+    } else if (run.inputs && run.result) {
+      const { settings } = run.inputs;
+      console.log(
+        `Grouping options: method=${settings.groupingMethod}, partner=${settings.partnerPreferenceMode}, ` +
+        `teeTime=${settings.teeTimePreferenceMode}, variety=${settings.promoteVariety}, ` +
+        `restrictions=${run.inputs.restrictedPairs.length}`
+      );
+      if (run.stored || isTest) {
         console.log(
-          `Grouping engine complete: ${groupingResult.groups.length} groups, ` +
-          `harmony score ${groupingResult.totalHarmonyScore}`
+          `${isTest ? "[TEST] " : ""}Grouping engine complete: ${run.result.groups.length} groups ` +
+          `(${run.inputs.lockedGroups.length} locked kept), ` +
+          `harmony score ${run.result.totalHarmonyScore}`
         );
       } else {
-        console.error(`Failed to store groupings: ${storeResult.error}`);
+        console.error(`Failed to store groupings: ${run.error}`);
       }
-    } catch (err) {
-      console.error("Grouping engine error (non-fatal):", err);
-      // Grouping failure should NOT block the confirmation email
     }
+  } catch (err) {
+    console.error("Grouping engine error (non-fatal):", err);
+    // Grouping failure should NOT block the confirmation email
   }
 
   // Get approved guests for this schedule
@@ -846,6 +902,18 @@ async function handleGolferConfirmation(
     weather,
   });
 
+  const course = await resolveGameCourse(supabase, event.id as string, gameDateString);
+  const calendarAttachment = buildGameIcsAttachment({
+    scheduleId: schedule.id,
+    eventName: event.name as string,
+    gameDate: gameDateString,
+    firstTeeTime: (event.first_tee_time as string) || "07:30",
+    gameType: ((event.game_type as string) || "18_holes") as GameType,
+    location: course ? formatCourseLocation(course) : null,
+    adminNote: schedule.admin_notes,
+    url: `${siteUrl}/home`,
+  });
+
   const formattedDate = formatGameDate(gameDateString);
 
   try {
@@ -856,6 +924,8 @@ async function handleGolferConfirmation(
         replyTo: primaryAdminEmail,
         subject: `${event.name}: ${formattedDate}: Registration Confirmation`,
         html: confirmationHtml,
+        attachments: [calendarAttachment],
+        tracking: { emailType: "confirmation_golfer", eventId: event.id as string, scheduleId: schedule.id },
       });
 
       await supabase
@@ -1056,10 +1126,19 @@ async function handleProShopDetail(
     return { message: "No recipients configured for suggested groupings email", sent: 0 };
   }
 
-  // Fetch stored groupings if auto-grouping is enabled
-  const groupings = event.allow_auto_grouping
+  // Fetch stored groupings if auto-grouping is enabled. They're normally
+  // built with the golfer confirmation; build them now if that didn't happen.
+  let groupings = event.allow_auto_grouping
     ? await fetchStoredGroupings(supabase, schedule.id)
     : [];
+  if (event.allow_auto_grouping && groupings.length === 0 && !isTest) {
+    try {
+      const run = await buildGroupingsForSchedule(supabase, schedule.id);
+      if (run.stored) groupings = await fetchStoredGroupings(supabase, schedule.id);
+    } catch (err) {
+      console.error("Grouping engine error (non-fatal):", err);
+    }
+  }
 
   const proShopHtml = generateProShopEmail({
     eventName: event.name as string,
@@ -1078,6 +1157,7 @@ async function handleProShopDetail(
         replyTo: primaryAdminEmail,
         subject: `${event.name}: ${formattedDate}: Suggested Groups`,
         html: proShopHtml,
+        tracking: { emailType: "confirmation_proshop", eventId: event.id as string, scheduleId: schedule.id },
       });
 
       await supabase
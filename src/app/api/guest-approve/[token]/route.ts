@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/server";
 import { sendEmail } from "@/lib/email";
 import { formatGameDate, getSiteUrl, formatFullName } from "@/lib/format";
+import { approveGuestForGame, describeGuestWaitlist, type GuestApproval } from "@/lib/guest-waitlist";
+import { applyGuestStatus } from "@/lib/rsvp-capacity";
 
 /**
  * GET /api/guest-approve/[token]?action=approve|deny
@@ -45,7 +47,12 @@ export async function GET(
 
   // Check if already actioned
   if (guestRequest.status !== "pending") {
-    const actionLabel = guestRequest.status === "approved" ? "approved" : "declined";
+    const actionLabel =
+      guestRequest.status === "approved"
+        ? "approved"
+        : guestRequest.status === "waitlisted"
+          ? "approved onto the guest waitlist"
+          : "declined";
 
     // Try to find who actioned it
     let actionedByName = "an admin";
@@ -67,27 +74,42 @@ export async function GET(
     );
   }
 
-  // Perform the action
-  const newStatus = action === "approve" ? "approved" : "denied";
-
-  const { error: updateError } = await supabase
-    .from("guest_requests")
-    .update({
-      status: newStatus,
-      // approved_by is NULL for email-based approvals since we can't verify identity
-      // The action is tracked via email_log and notification emails
-    })
-    .eq("id", guestRequest.id);
-
-  if (updateError) {
+  // Perform the action. Approval counts the guest against capacity, so a
+  // full game (or members-first before cutoff) puts them on the guest waitlist.
+  // approved_by is NULL for email-based approvals since we can't verify identity;
+  // the action is tracked via email_log and notification emails.
+  let approval: GuestApproval | null = null;
+  let changed: boolean;
+  try {
+    if (action === "approve") {
+      approval = await approveGuestForGame(supabase, guestRequest.id, schedule.id, null);
+      changed = approval.applied.changed;
+    } else {
+      const applied = await applyGuestStatus(supabase, {
+        guestRequestId: guestRequest.id,
+        status: "denied",
+        expectedStatus: "pending",
+      });
+      changed = applied.changed;
+    }
+  } catch (updateError) {
     console.error("Error updating guest request:", updateError);
     return htmlResponse("Error", "Something went wrong. Please try again or use the admin dashboard.", "error");
   }
 
+  // Another admin got there first
+  if (!changed) {
+    return htmlResponse(
+      "Already Handled",
+      `This guest request for <strong>${guestName}</strong> has already been handled by another admin.`,
+      "info"
+    );
+  }
+
   // Send notification emails
   try {
-    if (action === "approve") {
-      await sendApprovalNotifications(supabase, guestRequest, schedule);
+    if (approval) {
+      await sendApprovalNotifications(supabase, guestRequest, schedule, approval);
     } else {
       await sendDenialNotifications(supabase, guestRequest, schedule);
     }
@@ -96,6 +118,18 @@ export async function GET(
     // Don't fail the action if email fails — the status was already updated
   }
 
+  if (approval?.applied.newStatus === "waitlisted") {
+    return htmlResponse(
+      "Guest Waitlisted",
+      `<strong>${guestName}</strong> has been approved for ${eventName} on ${gameDate}. ${describeGuestWaitlist(
+        guestName,
+        approval.applied.waitlistPosition,
+        approval.heldForMembers
+      )} Notification emails have been sent.`,
+      "info"
+    );
+  }
+
   const actionLabel = action === "approve" ? "Approved" : "Declined";
   const actionColor = action === "approve" ? "#0d9488" : "#dc2626";
 
@@ -115,7 +149,8 @@ export async function GET(
 async function sendApprovalNotifications(
   supabase: ReturnType<typeof createAdminClient>,
   guestRequest: Record<string, unknown>,
-  schedule: { id: string; game_date: string; event: { id: string; name: string } }
+  schedule: { id: string; game_date: string; event: { id: string; name: string } },
+  approval: GuestApproval
 ) {
   const guestName = `${guestRequest.guest_first_name} ${guestRequest.guest_last_name}`;
   const guestEmail = guestRequest.guest_email as string | null;
@@ -157,20 +192,28 @@ async function sendApprovalNotifications(
 
   // Remove duplicates and the golfer's own email from CC
   const uniqueCc = [...new Set(ccList)].filter((e) => e !== golfer.email);
+  const waitlisted = approval.applied.newStatus === "waitlisted";
+  const subject = waitlisted
+    ? `${eventName}: Guest Waitlisted for ${gameDate}`
+    : `${eventName}: Guest Approved for ${gameDate}`;
 
   await sendEmail({
     to: golfer.email,
     cc: uniqueCc.length > 0 ? uniqueCc : undefined,
-    subject: `${eventName}: Guest Approved for ${gameDate}`,
+    subject,
     html: `
       <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 0 auto; padding: 24px;">
         <h2 style="color: #15803d; margin-bottom: 4px;">${eventName}</h2>
         <p style="color: #6b7280; font-size: 16px; margin-top: 0;">${gameDate}</p>
 
-        <p style="color: #374151;">Great news, ${golfer.first_name}!</p>
+        <p style="color: #374151;">${waitlisted ? "Hi" : "Great news,"} ${golfer.first_name}${waitlisted ? "," : "!"}</p>
         <p style="color: #374151;">Your guest request for <strong>${guestName}</strong> has been approved for ${gameDate}.</p>
         ${guestGhin ? `<p style="color: #374151;">GHIN: ${guestGhin}</p>` : ""}
-        <p style="color: #374151;">Your guest will be included in the confirmation email and suggested groupings.</p>
+        <p style="color: #374151;">${
+          waitlisted
+            ? describeGuestWaitlist(guestName, approval.applied.waitlistPosition, approval.heldForMembers)
+            : "Your guest will be included in the confirmation email and suggested groupings."
+        }</p>
 
         ${ghinPrompt}
 
@@ -183,8 +226,8 @@ async function sendApprovalNotifications(
   await supabase.from("email_log").insert({
     event_id: schedule.event.id,
     schedule_id: schedule.id,
-    email_type: "guest_approved",
-    subject: `${eventName}: Guest Approved for ${gameDate}`,
+    email_type: waitlisted ? "guest_waitlisted" : "guest_approved",
+    subject,
     recipient_count: 1 + uniqueCc.length,
   });
 }
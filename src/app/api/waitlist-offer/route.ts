@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { claimWaitlistOffer, declineWaitlistOffer } from "@/lib/waitlist";
+
+/**
+ * GET /api/waitlist-offer?token=...&action=claim|decline
+ *
+ * Answers a time-limited waitlist offer, then redirects back to the offer
+ * page showing the result. Only linked from the offer page itself (not from
+ * the email) so email link scanners can't claim or decline on a golfer's behalf.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const token = searchParams.get("token");
+  const action = searchParams.get("action");
+
+  if (!token) {
+    return NextResponse.redirect(
+      new URL("/?error=missing_token", request.url)
+    );
+  }
+
+  if (!action || !["claim", "decline"].includes(action)) {
+    return NextResponse.redirect(new URL(`/waitlist-offer/${token}`, request.url));
+  }
+
+  const supabase = createAdminClient();
+
+  try {
+    const result =
+      action === "claim"
+        ? await claimWaitlistOffer(supabase, token)
+        : await declineWaitlistOffer(supabase, token);
+
+    if (result.outcome === "invalid") {
+      return NextResponse.redirect(
+        new URL("/?error=invalid_token", request.url)
+      );
+    }
+
+    return NextResponse.redirect(
+      new URL(`/waitlist-offer/${token}?result=${result.outcome}`, request.url)
+    );
+  } catch (error) {
+    console.error("Waitlist offer response error:", error);
+    return NextResponse.redirect(
+      new URL(`/waitlist-offer/${token}?result=error`, request.url)
+    );
+  }
+}
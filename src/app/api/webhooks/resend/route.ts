@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import {
+  verifyResendSignature,
+  applyResendEvent,
+  type ResendWebhookEvent,
+} from "@/lib/email-delivery";
+
+/**
+ * POST /api/webhooks/resend
+ *
+ * Resend delivery events (delivered, opened, bounced, complained, delayed).
+ * Verifies the Svix signature against RESEND_WEBHOOK_SECRET, then updates the
+ * matching email_deliveries rows. Unknown event types are acknowledged and
+ * ignored so Resend doesn't retry them.
+ */
+export async function POST(request: Request) {
+  const secret = process.env.RESEND_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error("Resend webhook: RESEND_WEBHOOK_SECRET is not set");
+    return NextResponse.json({ error: "Webhook not configured" }, { status: 500 });
+  }
+
+  // Signature covers the raw body — read it before parsing
+  const payload = await request.text();
+  const verified = verifyResendSignature(
+    payload,
+    {
+      id: request.headers.get("svix-id"),
+      timestamp: request.headers.get("svix-timestamp"),
+      signature: request.headers.get("svix-signature"),
+    },
+    secret
+  );
+
+  if (!verified) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  let event: ResendWebhookEvent;
+  try {
+    event = JSON.parse(payload) as ResendWebhookEvent;
+  } catch {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  try {
+    const updated = await applyResendEvent(createAdminClient(), event);
+    return NextResponse.json({ received: true, updated });
+  } catch (error) {
+    // 500 so Resend retries the event later
+    console.error("Resend webhook error:", error);
+    return NextResponse.json({ error: "Failed to record event" }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { verifyTwilioSignature } from "@/lib/sms";
+import { handleInboundSms } from "@/lib/sms-replies";
+
+/** Escape text for a TwiML <Message> body */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function twiml(reply: string | null) {
+  const body = reply
+    ? `<Response><Message>${escapeXml(reply)}</Message></Response>`
+    : "<Response></Response>";
+  return new NextResponse(`<?xml version="1.0" encoding="UTF-8"?>${body}`, {
+    headers: { "Content-Type": "text/xml" },
+  });
+}
+
+/**
+ * POST /api/webhooks/sms
+ *
+ * Inbound text messages (Twilio "A message comes in" webhook, form-encoded
+ * From / Body / MessageSid). Verifies X-Twilio-Signature with
+ * TWILIO_AUTH_TOKEN, then handles IN / OUT / STOP / START / HELP replies and
+ * answers with TwiML. With SMS_PROVIDER=fake outside production the
+ * signature check is skipped so replies can be tested locally.
+ */
+export async function POST(request: Request) {
+  const form = await request.formData();
+  const params: Record<string, string> = {};
+  form.forEach((value, key) => {
+    if (typeof value === "string") params[key] = value;
+  });
+
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const isLocalFake =
+    process.env.SMS_PROVIDER === "fake" && process.env.NODE_ENV !== "production";
+
+  if (!isLocalFake) {
+    if (!authToken) {
+      console.error("SMS webhook: TWILIO_AUTH_TOKEN is not set");
+      return NextResponse.json({ error: "Webhook not configured" }, { status: 500 });
+    }
+    const verified = verifyTwilioSignature(
+      request.url,
+      params,
+      request.headers.get("x-twilio-signature"),
+      authToken
+    );
+    if (!verified) {
+      return NextResponse.json({ error: "Invalid signature" }, { status: 403 });
+    }
+  }
+
+  if (!params.From || params.Body === undefined) {
+    return NextResponse.json({ error: "Missing From or Body" }, { status: 400 });
+  }
+
+  try {
+    const reply = await handleInboundSms(createAdminClient(), {
+      from: params.From,
+      body: params.Body,
+      providerId: params.MessageSid || null,
+    });
+    return twiml(reply);
+  } catch (error) {
+    console.error("SMS webhook error:", error);
+    return twiml("Something went wrong. Please use the RSVP link in your email.");
+  }
+}
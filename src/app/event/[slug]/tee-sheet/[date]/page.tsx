@@ -0,0 +1,124 @@
+import { redirect } from "next/navigation";
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { Breadcrumbs } from "@/components/breadcrumbs";
+import { formatGameDate, formatTimeOfDay } from "@/lib/format";
+import { getTeeSheet, findGolferGroup, formatTeeOrder } from "@/lib/tee-sheet";
+
+interface PageProps {
+  params: Promise<{ slug: string; date: string }>;
+}
+
+export default async function TeeSheetPage({ params }: PageProps) {
+  const { slug, date } = await params;
+
+  // Require authentication
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    redirect("/home");
+  }
+
+  // Admin client: golfers can't read other golfers' grouping rows.
+  // getTeeSheet() only returns display names.
+  const teeSheet = await getTeeSheet(createAdminClient(), slug, date);
+  if (!teeSheet) {
+    redirect("/home");
+  }
+
+  const { event, schedule, groups } = teeSheet;
+  const myGroup = findGolferGroup(groups, user.id);
+  const playerCount = groups.reduce((sum, g) => sum + g.players.length, 0);
+
+  return (
+    <main className="min-h-screen px-4 py-8">
+      <div className="mx-auto max-w-2xl">
+        <Breadcrumbs
+          items={[
+            { label: "Home", href: "/home" },
+            { label: event.name },
+            { label: "Tee Sheet" },
+          ]}
+        />
+
+        <h1 className="text-2xl font-serif uppercase tracking-wide font-bold text-navy-900">
+          Tee Sheet
+        </h1>
+        <p className="mt-1 text-lg text-gray-600">
+          <span className="font-semibold text-gray-900">{formatGameDate(schedule.game_date)}</span>
+          {" — "}{event.name}
+        </p>
+        <p className="text-sm text-gray-500">
+          First tee time {formatTimeOfDay(event.first_tee_time)}
+          {playerCount > 0 && <> &middot; {playerCount} golfers</>}
+        </p>
+
+        {schedule.status === "cancelled" && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            This game has been cancelled.
+          </div>
+        )}
+
+        {schedule.status !== "cancelled" && groups.length === 0 && (
+          <div className="mt-6 rounded-lg border border-gray-200 bg-white p-6 text-center shadow-sm">
+            <p className="text-sm text-gray-500">
+              Groups for this game haven&apos;t been posted yet. Check back once
+              your event admin finalizes the tee sheet.
+            </p>
+          </div>
+        )}
+
+        {schedule.status !== "cancelled" && myGroup && (
+          <div className="mt-4 rounded-lg border border-teal-200 bg-teal-50 px-4 py-3 text-sm text-teal-800">
+            You&apos;re in <strong>Group {myGroup.groupNumber}</strong>, {formatTeeOrder(myGroup.teeOrder)} off.
+          </div>
+        )}
+
+        {schedule.status !== "cancelled" && groups.length > 0 && (
+          <div className="mt-6 grid gap-3 sm:grid-cols-2">
+            {groups.map((group) => {
+              const isMine = group.groupNumber === myGroup?.groupNumber;
+              return (
+                <div
+                  key={group.groupNumber}
+                  className={`overflow-hidden rounded-lg border bg-white shadow-sm ${
+                    isMine ? "border-teal-400 ring-1 ring-teal-400" : "border-gray-200"
+                  }`}
+                >
+                  <div className={`flex items-center justify-between px-4 py-2 ${isMine ? "bg-teal-50" : "bg-gray-50"}`}>
+                    <p className="font-serif font-semibold uppercase tracking-wide text-navy-900">
+                      Group {group.groupNumber}
+                    </p>
+                    <p className="text-xs font-medium text-gray-500">
+                      {formatTeeOrder(group.teeOrder)} off
+                    </p>
+                  </div>
+                  <ul className="divide-y divide-gray-100">
+                    {group.players.map((player) => (
+                      <li key={player.key} className="px-4 py-2 text-sm text-gray-900">
+                        <span className={player.profileId === user.id ? "font-semibold" : undefined}>
+                          {player.name}
+                        </span>
+                        {player.isGuest && (
+                          <span className="ml-1 text-xs text-gray-400">
+                            (Guest of {player.hostName})
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
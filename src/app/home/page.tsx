@@ -12,6 +12,7 @@ import { getGameWeather } from "@/lib/weather";
 import { WeatherForecast } from "@/components/weather-forecast";
 import type { GameType, GameWeatherForecast } from "@/types/events";
 import { isInPenaltyBox } from "@/lib/penalty-box";
+import { getPublishedGroups, findGolferGroup, formatTeeOrder, type TeeSheetGroup } from "@/lib/tee-sheet";
 
 export default async function DashboardPage() {
   const supabase = await createClient();
@@ -91,8 +92,8 @@ export default async function DashboardPage() {
     .select(
       `id, token, status, waitlist_position,
        schedule:event_schedules(
-         id, game_date, capacity, status,
-         event:events(id, name, default_capacity)
+         id, game_date, capacity, status, groupings_final_at,
+         event:events(id, name, slug, default_capacity)
        )`
     )
     .eq("profile_id", user.id)
@@ -146,6 +147,37 @@ export default async function DashboardPage() {
     })
   );
 
+  // Published groups for upcoming games the golfer is IN for
+  const myGroups: Array<{
+    scheduleId: string;
+    gameDate: string;
+    eventName: string;
+    eventSlug: string | null;
+    group: TeeSheetGroup;
+  }> = [];
+  await Promise.all(
+    upcoming.map(async (rsvp: Record<string, unknown>) => {
+      const schedule = rsvp.schedule as {
+        id: string;
+        game_date: string;
+        groupings_final_at: string | null;
+        event: { name: string; slug: string | null } | null;
+      } | null;
+      if (rsvp.status !== "in" || !schedule?.groupings_final_at || !schedule.event) return;
+      const group = findGolferGroup(await getPublishedGroups(adminClient, schedule), user.id);
+      if (group) {
+        myGroups.push({
+          scheduleId: schedule.id,
+          gameDate: schedule.game_date,
+          eventName: schedule.event.name,
+          eventSlug: schedule.event.slug,
+          group,
+        });
+      }
+    })
+  );
+  myGroups.sort((a, b) => a.gameDate.localeCompare(b.gameDate));
+
   return (
     <main className="min-h-screen px-4 py-8">
         <div className="mx-auto max-w-2xl">
@@ -204,6 +236,42 @@ export default async function DashboardPage() {
             </div>
           )}
 
+          {/* My Group — published tee sheets for games the golfer is in */}
+          {myGroups.length > 0 && (
+            <div className="mt-4 rounded-lg border border-teal-200 bg-white p-6 shadow-sm">
+              <h3 className="font-serif text-lg font-semibold uppercase tracking-wide text-navy-900">
+                My Group
+              </h3>
+              <div className="mt-3 space-y-3">
+                {myGroups.map(({ scheduleId, gameDate, eventName, eventSlug, group }) => (
+                  <div key={scheduleId} className="rounded-lg border border-gray-200 bg-gray-50 px-4 py-3">
+                    <div className="flex items-baseline justify-between">
+                      <p className="font-serif font-semibold text-navy-900">
+                        {eventName} &middot; {formatGameDateShort(gameDate)}
+                      </p>
+                      <p className="text-xs font-medium text-teal-700">
+                        Group {group.groupNumber} &middot; {formatTeeOrder(group.teeOrder)} off
+                      </p>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-600">
+                      {group.players
+                        .map((p) => (p.isGuest ? `${p.name} (guest)` : p.name))
+                        .join(", ")}
+                    </p>
+                    {eventSlug && (
+                      <Link
+                        href={`/event/${eventSlug}/tee-sheet/${gameDate}`}
+                        className="mt-2 inline-block text-sm font-medium text-teal-700 hover:text-teal-600"
+                      >
+                        View full tee sheet &rarr;
+                      </Link>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* My Events — unified section: each event with next game + RSVP + unsubscribe */}
           {profile?.status === "active" && (
             <div className="mt-4 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
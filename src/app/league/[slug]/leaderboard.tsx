@@ -2,6 +2,8 @@
 
 import { useState, useMemo } from "react";
 import { formatInitialLastName } from "@/lib/format";
+import { TIE_BREAK_RULE_LABELS } from "@/types/events";
+import type { TieBreakRule } from "@/types/events";
 import type { SerializedLeaderboardEntry } from "./league-tabs";
 
 interface LeaderboardProps {
@@ -10,6 +12,8 @@ interface LeaderboardProps {
   bestN: number | null;
   totalM: number | null;
   minRoundsToQualify: number | null;
+  /** Tie-break rules applied to equal totals (empty = ties share rank) */
+  tieBreakRules: TieBreakRule[];
   /** Earliest season week with no recorded scores yet (null if season complete) */
   nextUnplayedWeek: string | null;
 }
@@ -61,6 +65,7 @@ export function Leaderboard({
   bestN,
   totalM,
   minRoundsToQualify,
+  tieBreakRules,
   nextUnplayedWeek,
 }: LeaderboardProps) {
   const [sortField, setSortField] = useState<SortField>("total");
@@ -76,13 +81,26 @@ export function Leaderboard({
     }
   };
 
+  // Footnote numbers for ties broken by a rule, in standings order
+  const tieBreakFootnotes = useMemo(() => {
+    const notes = new Map<string, number>();
+    for (const e of entries) {
+      if (e.tieBreakNote) notes.set(e.profileId, notes.size + 1);
+    }
+    return notes;
+  }, [entries]);
+
   const sortedEntries = useMemo(() => {
+    // Standings order from the server (includes tie-break rules)
+    const standing = new Map(entries.map((e, i) => [e.profileId, i]));
     const sorted = [...entries];
     sorted.sort((a, b) => {
       let cmp = 0;
 
       if (sortField === "rank" || sortField === "total") {
-        cmp = a.totalPoints - b.totalPoints;
+        cmp =
+          a.totalPoints - b.totalPoints ||
+          standing.get(b.profileId)! - standing.get(a.profileId)!;
       } else if (sortField === "avg") {
         const aAvg = a.countingWeeks.length > 0 ? a.totalPoints / a.countingWeeks.length : -1;
         const bAvg = b.countingWeeks.length > 0 ? b.totalPoints / b.countingWeeks.length : -1;
@@ -105,24 +123,15 @@ export function Leaderboard({
       return sortDir === "desc" ? -cmp : cmp;
     });
 
-    // Re-compute display ranks based on total (always by total desc)
-    const byTotal = [...sorted].sort((a, b) => b.totalPoints - a.totalPoints);
-    const rankMap = new Map<string, number>();
-    const tiedRanks = new Set<number>();
-    let currentRank = 1;
-    for (let i = 0; i < byTotal.length; i++) {
-      if (i > 0 && byTotal[i].totalPoints < byTotal[i - 1].totalPoints) {
-        currentRank = i + 1;
-      } else if (i > 0 && byTotal[i].totalPoints === byTotal[i - 1].totalPoints && byTotal[i].roundsPlayed > 0) {
-        tiedRanks.add(currentRank);
-      }
-      rankMap.set(byTotal[i].profileId, byTotal[i].roundsPlayed > 0 ? currentRank : 0);
+    // Ranks come from the server; golfers sharing a rank are tied
+    const rankCounts = new Map<number, number>();
+    for (const e of entries) {
+      if (e.rank > 0) rankCounts.set(e.rank, (rankCounts.get(e.rank) || 0) + 1);
     }
 
     return sorted.map((e) => ({
       ...e,
-      rank: rankMap.get(e.profileId) || 0,
-      isTied: tiedRanks.has(rankMap.get(e.profileId) || 0),
+      isTied: (rankCounts.get(e.rank) || 0) > 1,
     }));
   }, [entries, sortField, sortDir]);
 
@@ -239,7 +248,14 @@ export function Leaderboard({
                     {/* Rank */}
                     <td className="sticky left-0 z-10 bg-inherit px-3 py-2.5 text-center font-semibold text-navy-900">
                       {entry.rank > 0 ? (
-                        <>{entry.isTied ? "T" : ""}{entry.rank}</>
+                        <>
+                          {entry.isTied ? "T" : ""}{entry.rank}
+                          {tieBreakFootnotes.has(entry.profileId) && (
+                            <sup className="ml-0.5 text-[10px] font-normal text-gray-400">
+                              {tieBreakFootnotes.get(entry.profileId)}
+                            </sup>
+                          )}
+                        </>
                       ) : (
                         <span className="text-gray-300">&mdash;</span>
                       )}
@@ -352,6 +368,22 @@ export function Leaderboard({
             not enough remaining weeks left to reach the minimum.
           </p>
         )}
+        {tieBreakRules.length > 0 && (
+          <p>
+            Tied totals are broken by{" "}
+            {tieBreakRules
+              .map((rule) => TIE_BREAK_RULE_LABELS[rule].label.toLowerCase())
+              .join(", then ")}
+            . Golfers still tied share a rank.
+          </p>
+        )}
+        {entries
+          .filter((e) => tieBreakFootnotes.has(e.profileId))
+          .map((e) => (
+            <p key={`tb-${e.profileId}`}>
+              <sup>{tieBreakFootnotes.get(e.profileId)}</sup> {e.tieBreakNote}
+            </p>
+          ))}
       </div>
     </div>
   );
@@ -1,10 +1,12 @@
 "use client";
 
 import { useState } from "react";
-import type { LeagueTab } from "@/types/events";
+import type { LeagueTab, TieBreakRule, WeeklyResultEntry } from "@/types/events";
+import { sanitizeHtml } from "@/lib/sanitize-html";
 import { Leaderboard } from "./leaderboard";
 import { MoneyLeaderboard } from "./money-leaderboard";
 import type { SerializedMoneyLeaderboardEntry } from "./money-leaderboard";
+import { WeeklyResults } from "./weekly-results";
 
 /** Serialized version of LeaderboardEntry (countingWeeks as string[] instead of Set) */
 export interface SerializedLeaderboardEntry {
@@ -19,16 +21,20 @@ export interface SerializedLeaderboardEntry {
   roundsPlayed: number;
   isQualified: boolean;
   qualificationStatus: "qualified" | "bubble" | "eliminated" | null;
+  tieBreakNote: string | null;
 }
 
 interface LeagueTabsProps {
   tabs: LeagueTab[];
   leaderboard: SerializedLeaderboardEntry[];
   moneyLeaderboard: SerializedMoneyLeaderboardEntry[];
+  /** game_date → that week's results (only weeks with scores) */
+  weeklyResults: Record<string, WeeklyResultEntry[]>;
   seasonWeeks: string[];
   bestN: number | null;
   totalM: number | null;
   minRoundsToQualify: number | null;
+  tieBreakRules: TieBreakRule[];
   /** Earliest season week with no recorded scores yet (null if season complete) */
   nextUnplayedWeek: string | null;
 }
@@ -39,10 +45,12 @@ export function LeagueTabs({
   tabs,
   leaderboard,
   moneyLeaderboard,
+  weeklyResults,
   seasonWeeks,
   bestN,
   totalM,
   minRoundsToQualify,
+  tieBreakRules,
   nextUnplayedWeek,
 }: LeagueTabsProps) {
   const [activeTab, setActiveTab] = useState(tabs[0]?.tab_key || "");
@@ -117,6 +125,7 @@ export function LeagueTabs({
                 bestN={bestN}
                 totalM={totalM}
                 minRoundsToQualify={minRoundsToQualify}
+                tieBreakRules={tieBreakRules}
                 nextUnplayedWeek={nextUnplayedWeek}
               />
             ) : (
@@ -132,7 +141,7 @@ export function LeagueTabs({
           <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
             <div
               className="league-html-content max-w-none"
-              dangerouslySetInnerHTML={{ __html: currentTab.content }}
+              dangerouslySetInnerHTML={{ __html: sanitizeHtml(currentTab.content) }}
             />
           </div>
         )}
@@ -144,11 +153,10 @@ export function LeagueTabs({
         )}
 
         {currentTab.content_type === "weekly_results" && (
-          <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
-            <p className="text-sm text-gray-500">
-              Weekly results will appear here once scores are entered.
-            </p>
-          </div>
+          <WeeklyResults
+            seasonWeeks={seasonWeeks}
+            weeklyResults={weeklyResults}
+          />
         )}
       </div>
     </div>
@@ -2,6 +2,7 @@
 
 import { useState, useMemo } from "react";
 import { formatInitialLastName } from "@/lib/format";
+import type { SideGameWinning } from "@/types/events";
 
 export interface SerializedMoneyLeaderboardEntry {
   rank: number;
@@ -12,6 +13,7 @@ export interface SerializedMoneyLeaderboardEntry {
   totalAmount: number;
   weeksWon: number;
   seasonAmount: number | null;
+  weeklyBreakdown: Record<string, SideGameWinning[]>;
 }
 
 interface MoneyLeaderboardProps {
@@ -32,6 +34,17 @@ function formatDollars(amount: number): string {
   return `$${amount.toLocaleString("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
 }
 
+/** Hover text listing the side games behind a week's winnings */
+function formatBreakdown(winnings: SideGameWinning[] | undefined): string | undefined {
+  if (!winnings?.length) return undefined;
+  return winnings
+    .map((w) => {
+      const amount = `$${w.amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+      return `${w.label}${w.detail ? ` (${w.detail})` : ""}: ${amount}`;
+    })
+    .join("\n");
+}
+
 export function MoneyLeaderboard({
   entries,
   seasonWeeks,
@@ -261,17 +274,19 @@ export function MoneyLeaderboard({
                       const amount = entry.weeklyAmounts[week];
                       const isDNP = amount === undefined;
                       const isZero = amount === 0;
+                      const breakdown = formatBreakdown(entry.weeklyBreakdown[week]);
 
                       return (
                         <td
                           key={week}
+                          title={breakdown}
                           className={`px-2 py-2.5 text-center tabular-nums ${
                             isDNP
                               ? "text-gray-300 text-xs italic"
                               : isZero
                                 ? "text-gray-400"
                                 : "text-green-700 font-medium"
-                          }`}
+                          } ${breakdown ? "cursor-help underline decoration-dotted underline-offset-2" : ""}`}
                         >
                           {isDNP ? "DNP" : formatDollars(amount)}
                         </td>
@@ -352,6 +367,7 @@ export function MoneyLeaderboard({
       {/* Footnotes */}
       <div className="mt-3 space-y-1 text-xs text-gray-400">
         <p>DNP = Did Not Play &bull; $0 = Played but no winnings</p>
+        <p>Hover over a dotted amount to see the side games behind it.</p>
         <p>
           Season = season-long prize payout (top finishers only), separate
           from weekly winnings. Shown once entered at season end.
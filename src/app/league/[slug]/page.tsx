@@ -8,19 +8,25 @@ import {
   getLeagueMoneyScores,
   getSeasonMoneyScores,
   getSubscribedGolfers,
+  getScoredGolfers,
   computeSeasonWeeks,
   buildLeaderboard,
   buildMoneyLeaderboard,
+  buildWeeklyResults,
   getRemainingWeeksInfo,
+  getTieBreakOptions,
 } from "@/lib/league";
 import { LeagueTabs } from "./league-tabs";
+import { SeasonSwitcher } from "./season-switcher";
 
 interface PageProps {
   params: Promise<{ slug: string }>;
+  searchParams: Promise<{ season?: string }>;
 }
 
-export default async function LeagueInfoPage({ params }: PageProps) {
+export default async function LeagueInfoPage({ params, searchParams }: PageProps) {
   const { slug } = await params;
+  const { season: seasonId } = await searchParams;
 
   // Require authentication
   const supabase = await createClient();
@@ -32,23 +38,27 @@ export default async function LeagueInfoPage({ params }: PageProps) {
     redirect("/login");
   }
 
-  // Fetch league config + event
-  const result = await getLeagueConfigBySlug(slug);
+  // Fetch league config + event (current season unless ?season= picks another)
+  const result = await getLeagueConfigBySlug(slug, seasonId);
   if (!result) {
     redirect("/home");
   }
 
-  const { config, event } = result;
+  const { config, event, seasons } = result;
 
-  // Fetch tabs, scores, money scores, and golfers in parallel
-  const [tabs, scores, moneyScores, seasonMoneyScores, golfers] = await Promise.all([
+  // Fetch tabs, scores, and money scores in parallel
+  const [tabs, scores, moneyScores, seasonMoneyScores] = await Promise.all([
     getLeagueTabs(event.id),
-    getLeagueScores(event.id, config.season_start, config.season_end),
-    getLeagueMoneyScores(event.id, config.season_start, config.season_end),
-    getSeasonMoneyScores(event.id),
-    getSubscribedGolfers(event.id),
+    getLeagueScores(event.id, config.season_id),
+    getLeagueMoneyScores(event.id, config.season_id),
+    getSeasonMoneyScores(event.id, config.season_id),
   ]);
 
+  // Past seasons list everyone who played, even golfers no longer subscribed
+  const golfers = config.is_current_season
+    ? await getSubscribedGolfers(event.id)
+    : await getScoredGolfers(scores);
+
   // Compute season weeks for leaderboard header
   const seasonWeeks =
     config.season_start && config.total_m
@@ -56,19 +66,21 @@ export default async function LeagueInfoPage({ params }: PageProps) {
       : [];
 
   // Determine how many scheduled season weeks remain unplayed, so we can
-  // tell golfers below the minimum whether they can still qualify.
-  const { remainingWeeks, nextUnplayedWeek } = getRemainingWeeksInfo(
-    seasonWeeks,
-    scores
-  );
+  // tell golfers below the minimum whether they can still qualify. A past
+  // season is over, so weeks never played (rainouts) don't count as remaining.
+  const { remainingWeeks, nextUnplayedWeek } = config.is_current_season
+    ? getRemainingWeeksInfo(seasonWeeks, scores)
+    : { remainingWeeks: 0, nextUnplayedWeek: null };
 
   // Build leaderboard data
+  const tieBreak = getTieBreakOptions(config);
   const leaderboard = buildLeaderboard(
     golfers,
     scores,
     config.best_n,
     config.min_rounds_to_qualify,
-    remainingWeeks
+    remainingWeeks,
+    tieBreak
   );
 
   // Build money leaderboard data
@@ -79,6 +91,23 @@ export default async function LeagueInfoPage({ params }: PageProps) {
     seasonMoneyScores
   );
 
+  // Single-week results for the weekly_results tab (weeks with scores only)
+  const weeklyResults: Record<string, ReturnType<typeof buildWeeklyResults>> = {};
+  if (tabs.some((t) => t.content_type === "weekly_results")) {
+    for (const week of seasonWeeks) {
+      const results = buildWeeklyResults(
+        golfers,
+        scores,
+        moneyScores,
+        seasonWeeks,
+        week,
+        config.best_n,
+        tieBreak
+      );
+      if (results.length > 0) weeklyResults[week] = results;
+    }
+  }
+
   // Serialize leaderboard for client component (Set → Array)
   const serializedLeaderboard = leaderboard.map((entry) => ({
     ...entry,
@@ -101,8 +130,21 @@ export default async function LeagueInfoPage({ params }: PageProps) {
         <h1 className="text-2xl font-serif uppercase tracking-wide font-bold text-navy-900">
           {event.name}
         </h1>
-        {config.season_name && (
-          <p className="text-sm text-gray-500 mt-1">{config.season_name}</p>
+        {seasons.length > 1 ? (
+          <SeasonSwitcher
+            basePath={`/league/${event.slug}`}
+            seasons={seasons.map((s) => ({ id: s.id, name: s.name, isCurrent: s.is_current }))}
+            selectedId={config.season_id}
+          />
+        ) : (
+          config.season_name && (
+            <p className="text-sm text-gray-500 mt-1">{config.season_name}</p>
+          )
+        )}
+        {!config.is_current_season && (
+          <p className="mt-3 rounded-lg border border-gray-200 bg-gray-50 px-4 py-2 text-sm text-gray-600">
+            Final standings from a past season.
+          </p>
         )}
 
         <div className="mt-6">
@@ -110,10 +152,12 @@ export default async function LeagueInfoPage({ params }: PageProps) {
             tabs={tabs}
             leaderboard={serializedLeaderboard}
             moneyLeaderboard={moneyLeaderboard}
+            weeklyResults={weeklyResults}
             seasonWeeks={seasonWeeks}
             bestN={config.best_n}
             totalM={config.total_m}
             minRoundsToQualify={config.min_rounds_to_qualify}
+            tieBreakRules={tieBreak.rules}
             nextUnplayedWeek={nextUnplayedWeek}
           />
         </div>
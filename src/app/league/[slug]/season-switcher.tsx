@@ -0,0 +1,41 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+
+interface SeasonSwitcherProps {
+  /** Page the picker navigates within, e.g. /league/saturday-morning */
+  basePath: string;
+  seasons: { id: string; name: string; isCurrent: boolean }[];
+  selectedId: string;
+}
+
+/**
+ * Season picker for the league and season payouts pages — the current
+ * season has no ?season= param
+ */
+export function SeasonSwitcher({ basePath, seasons, selectedId }: SeasonSwitcherProps) {
+  const router = useRouter();
+
+  const handleChange = (seasonId: string) => {
+    const season = seasons.find((s) => s.id === seasonId);
+    router.push(
+      season?.isCurrent ? basePath : `${basePath}?season=${seasonId}`
+    );
+  };
+
+  return (
+    <select
+      value={selectedId}
+      onChange={(e) => handleChange(e.target.value)}
+      aria-label="Season"
+      className="mt-2 h-10 rounded-lg border border-gray-200 bg-white px-3 text-sm font-medium text-navy-900"
+    >
+      {seasons.map((season) => (
+        <option key={season.id} value={season.id}>
+          {season.name}
+          {season.isCurrent ? " (current)" : ""}
+        </option>
+      ))}
+    </select>
+  );
+}
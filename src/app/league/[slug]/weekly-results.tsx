@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from "react";
+import { formatInitialLastName } from "@/lib/format";
+import type { WeeklyResultEntry } from "@/types/events";
+
+interface WeeklyResultsProps {
+  seasonWeeks: string[];
+  /** game_date → that week's results (only weeks with scores) */
+  weeklyResults: Record<string, WeeklyResultEntry[]>;
+}
+
+function formatWeekDate(dateStr: string): string {
+  const [, month, day] = dateStr.split("-").map(Number);
+  return `${month}/${day}`;
+}
+
+function formatDollars(amount: number): string {
+  if (amount === 0) return "—";
+  return `$${amount.toLocaleString("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+}
+
+function Movement({ movement }: { movement: number | null }) {
+  if (movement === null) {
+    return <span className="text-[10px] font-semibold uppercase text-gray-400">New</span>;
+  }
+  if (movement === 0) {
+    return <span className="text-gray-300">–</span>;
+  }
+  return movement > 0 ? (
+    <span className="text-xs font-semibold text-teal-600" title={`Up ${movement}`}>
+      ▲{movement}
+    </span>
+  ) : (
+    <span className="text-xs font-semibold text-red-600" title={`Down ${-movement}`}>
+      ▼{-movement}
+    </span>
+  );
+}
+
+export function WeeklyResults({ seasonWeeks, weeklyResults }: WeeklyResultsProps) {
+  const playedWeeks = seasonWeeks.filter((w) => weeklyResults[w]?.length);
+  // Default to the most recent week with scores
+  const [week, setWeek] = useState(playedWeeks[playedWeeks.length - 1] || "");
+
+  if (playedWeeks.length === 0) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <p className="text-sm text-gray-500">
+          Weekly results will appear here once scores are entered.
+        </p>
+      </div>
+    );
+  }
+
+  const entries = weeklyResults[week] || [];
+  const playedIndex = playedWeeks.indexOf(week);
+  const hasMoney = entries.some((e) => e.amount > 0);
+  // No previous week to compare against in week 1
+  const showMovement = seasonWeeks.indexOf(week) > 0;
+  const rankCounts = new Map<number, number>();
+  for (const e of entries) rankCounts.set(e.rank, (rankCounts.get(e.rank) || 0) + 1);
+
+  return (
+    <div>
+      {/* Week picker */}
+      <div className="mb-4 flex items-center gap-2">
+        <button
+          onClick={() => setWeek(playedWeeks[playedIndex - 1])}
+          disabled={playedIndex <= 0}
+          aria-label="Previous week"
+          className="flex h-11 w-11 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 disabled:opacity-30"
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5L8.25 12l7.5-7.5" />
+          </svg>
+        </button>
+        <select
+          value={week}
+          onChange={(e) => setWeek(e.target.value)}
+          className="h-11 flex-1 rounded-lg border border-gray-200 bg-white px-3 text-sm font-medium text-navy-900"
+        >
+          {seasonWeeks.map((w, i) => (
+            <option key={w} value={w} disabled={!weeklyResults[w]?.length}>
+              Week {i + 1} — {formatWeekDate(w)}
+              {weeklyResults[w]?.length ? "" : " (not played)"}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setWeek(playedWeeks[playedIndex + 1])}
+          disabled={playedIndex >= playedWeeks.length - 1}
+          aria-label="Next week"
+          className="flex h-11 w-11 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 disabled:opacity-30"
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="rounded-lg border border-gray-200 bg-white shadow-sm overflow-hidden">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-gray-50 border-b border-gray-200 text-xs font-semibold uppercase tracking-wider text-gray-500">
+              <th className="px-3 py-2 text-left w-[48px]">Pos</th>
+              <th className="px-2 py-2 text-left">Golfer</th>
+              <th className="px-2 py-2 text-center">Pts</th>
+              {hasMoney && <th className="px-2 py-2 text-right">Won</th>}
+              <th className="px-3 py-2 text-right">Season</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.profileId} className="border-b border-gray-100 last:border-0">
+                <td className="px-3 py-2.5 text-gray-500">
+                  {(rankCounts.get(entry.rank) || 0) > 1 ? `T${entry.rank}` : entry.rank}
+                </td>
+                <td className="px-2 py-2.5 font-medium text-gray-900">
+                  {formatInitialLastName(entry.firstName, entry.lastName)}
+                </td>
+                <td className="px-2 py-2.5 text-center font-semibold text-navy-900">
+                  {entry.points}
+                </td>
+                {hasMoney && (
+                  <td className={`px-2 py-2.5 text-right ${entry.amount > 0 ? "font-medium text-teal-700" : "text-gray-300"}`}>
+                    {formatDollars(entry.amount)}
+                  </td>
+                )}
+                <td className="px-3 py-2.5 text-right whitespace-nowrap">
+                  <span className="text-gray-700">#{entry.seasonRank}</span>
+                  {showMovement && (
+                    <span className="ml-2 inline-block w-8 text-left">
+                      <Movement movement={entry.movement} />
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500">
+        {entries.length} golfer{entries.length === 1 ? "" : "s"} played {formatWeekDate(week)}.
+        Season = standings rank after this week; arrows show the change from the week before.
+      </p>
+    </div>
+  );
+}
@@ -2,6 +2,9 @@
 
 import { createClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
+import { getGolferSeasonHistory } from "@/lib/league";
+import { buildHandicapSeries, type HandicapPoint } from "@/lib/handicap-trends";
+import type { GolferSeasonFinish } from "@/types/events";
 
 export type ProfileFormState = {
   error?: string;
@@ -26,6 +29,7 @@ export async function updateProfile(
   const email = formData.get("email") as string;
   const phoneRaw = formData.get("phone") as string;
   const ghin = formData.get("ghin") as string;
+  const smsOptIn = formData.get("smsOptIn") === "on";
 
   // Validate required fields
   if (
@@ -43,6 +47,10 @@ export async function updateProfile(
     return { error: "Please enter a valid 10-digit US phone number." };
   }
 
+  if (smsOptIn && !phone.digits) {
+    return { error: "Add your mobile number to get game texts." };
+  }
+
   // Validate email format
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   if (!emailRegex.test(email.trim())) {
@@ -59,6 +67,15 @@ export async function updateProfile(
     return { error: "Not authenticated. Please sign in again." };
   }
 
+  // Record when texts were turned on (consent), keep it while they stay on
+  const { data: current } = await supabase
+    .from("profiles")
+    .select("sms_opt_in")
+    .eq("id", user.id)
+    .single();
+  const smsOptInAt =
+    smsOptIn && !current?.sms_opt_in ? { sms_opt_in_at: new Date().toISOString() } : {};
+
   // Check if email is changing
   const newEmail = email.trim().toLowerCase();
   const emailChanged = newEmail !== user.email;
@@ -72,6 +89,8 @@ export async function updateProfile(
       email: newEmail,
       phone: phone.digits || null,
       ghin_number: ghin.trim(),
+      sms_opt_in: smsOptIn,
+      ...smsOptInAt,
     })
     .eq("id", user.id);
 
@@ -116,3 +135,81 @@ export async function updateProfile(
   revalidatePath("/home");
   return { success: true };
 }
+
+/**
+ * Replace the golfer's calendar feed token. The old feed URL stops
+ * working, so any calendar subscribed to it must re-subscribe.
+ */
+export async function resetCalendarLink(): Promise<{ error?: string; calendarToken?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated. Please sign in again." };
+  }
+
+  const calendarToken = crypto.randomUUID();
+  const { error } = await supabase
+    .from("profiles")
+    .update({ calendar_token: calendarToken })
+    .eq("id", user.id);
+
+  if (error) {
+    console.error("Calendar link reset error:", error);
+    return { error: "Failed to reset calendar link. Please try again." };
+  }
+
+  revalidatePath("/profile");
+  return { calendarToken };
+}
+
+/**
+ * The signed-in golfer's finish in every league season they've played.
+ */
+export async function getMySeasonHistory(): Promise<GolferSeasonFinish[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  try {
+    return await getGolferSeasonHistory(user.id);
+  } catch (error) {
+    console.error("Season history error:", error);
+    return [];
+  }
+}
+
+/**
+ * The signed-in golfer's Handicap Index readings over the past year,
+ * oldest first.
+ */
+export async function getMyHandicapHistory(): Promise<HandicapPoint[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  const since = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from("handicap_history")
+    .select("recorded_at, handicap_index")
+    .eq("profile_id", user.id)
+    .gte("recorded_at", since)
+    .order("recorded_at", { ascending: true });
+
+  if (error) {
+    console.error("Handicap history error:", error);
+    return [];
+  }
+  return buildHandicapSeries(data || []);
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { useToast } from "@/components/toast";
+import { ConfirmModal } from "@/components/confirm-modal";
+import { getCalendarFeedUrl } from "@/lib/ical";
+import { resetCalendarLink } from "./actions";
+
+/**
+ * Private calendar feed link: subscribe once and every game the golfer is
+ * IN for shows up in their calendar (and drops off if they switch to OUT).
+ */
+export function CalendarFeedSection({ calendarToken }: { calendarToken: string }) {
+  const [token, setToken] = useState(calendarToken);
+  const [copied, setCopied] = useState(false);
+  const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const [resetting, setResetting] = useState(false);
+  const { showToast } = useToast();
+
+  const siteUrl =
+    typeof window !== "undefined"
+      ? window.location.origin
+      : "https://frccgolfgames.com";
+  const feedUrl = getCalendarFeedUrl(siteUrl, token);
+  const webcalUrl = feedUrl.replace(/^https?:\/\//, "webcal://");
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      showToast("Couldn't copy — select the link and copy it instead", "error");
+    }
+  };
+
+  const handleReset = async () => {
+    setResetting(true);
+    const result = await resetCalendarLink();
+    setResetting(false);
+    setShowResetConfirm(false);
+    if (result.error || !result.calendarToken) {
+      showToast(result.error || "Failed to reset calendar link", "error");
+      return;
+    }
+    setToken(result.calendarToken);
+    showToast("Calendar link reset — subscribe again with the new link");
+  };
+
+  return (
+    <div className="mt-12 border-t border-gray-200 pt-12">
+      <h2 className="mb-2 text-2xl font-serif uppercase tracking-wide font-bold text-navy-900">
+        Calendar
+      </h2>
+      <p className="mb-4 text-sm text-gray-500">
+        Subscribe to get every game you&apos;re in for — with tee time and your
+        group — in Apple, Google or Outlook Calendar. Games you drop out of
+        disappear, and cancelled games are marked cancelled.
+      </p>
+
+      <a
+        href={webcalUrl}
+        className="block w-full rounded-lg bg-teal-600 px-4 py-3 text-center text-base font-semibold text-white shadow-sm hover:bg-teal-500"
+      >
+        Subscribe in Calendar App
+      </a>
+
+      <div className="mt-3 flex items-center gap-2">
+        <input
+          type="text"
+          readOnly
+          value={feedUrl}
+          aria-label="Calendar feed link"
+          className="flex-1 rounded-lg border border-gray-300 bg-gray-50 px-4 py-2.5 text-sm text-gray-700"
+          onClick={(e) => (e.target as HTMLInputElement).select()}
+        />
+        <button
+          type="button"
+          onClick={handleCopy}
+          className={`rounded-lg px-4 py-2.5 text-sm font-medium transition-colors ${
+            copied
+              ? "bg-teal-100 text-teal-700"
+              : "border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+          }`}
+        >
+          {copied ? "Copied!" : "Copy"}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-gray-400">
+        For Google Calendar, paste this link under Other calendars → From URL.
+        Keep it private — anyone with the link can see your games.{" "}
+        <button
+          type="button"
+          onClick={() => setShowResetConfirm(true)}
+          className="text-teal-700 underline hover:text-teal-600"
+        >
+          Reset link
+        </button>
+      </p>
+
+      <ConfirmModal
+        open={showResetConfirm}
+        title="Reset Calendar Link"
+        message="Your current calendar link will stop working. Any calendar subscribed to it will need to subscribe again with the new link."
+        confirmLabel="Reset"
+        variant="danger"
+        loading={resetting}
+        onCancel={() => setShowResetConfirm(false)}
+        onConfirm={handleReset}
+      />
+    </div>
+  );
+}
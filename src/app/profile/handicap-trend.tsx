@@ -0,0 +1,35 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { HandicapTrendChart } from "@/components/handicap-trend-chart";
+import type { HandicapPoint } from "@/lib/handicap-trends";
+import { getMyHandicapHistory } from "./actions";
+
+/**
+ * The golfer's Handicap Index over the past year. Hidden until at least
+ * one index has been synced from GHIN.
+ */
+export function HandicapTrendSection({ lowHi }: { lowHi: number | null }) {
+  const [points, setPoints] = useState<HandicapPoint[] | null>(null);
+
+  useEffect(() => {
+    getMyHandicapHistory().then(setPoints);
+  }, []);
+
+  if (!points || points.length === 0) return null;
+
+  return (
+    <div className="mt-12 border-t border-gray-200 pt-12">
+      <h2 className="mb-2 text-2xl font-serif uppercase tracking-wide font-bold text-navy-900">
+        Handicap Trend
+      </h2>
+      <p className="mb-4 text-sm text-gray-500">
+        Your Handicap Index over the past year, as synced from GHIN.
+      </p>
+
+      <div className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+        <HandicapTrendChart points={points} lowHi={lowHi} />
+      </div>
+    </div>
+  );
+}
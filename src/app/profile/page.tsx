@@ -5,6 +5,9 @@ import { updateProfile, type ProfileFormState } from "./actions";
 import { createClient } from "@/lib/supabase/client";
 import { getSubscribedEvents } from "./preferences-actions";
 import { PlayingPartnerPreferencesSection } from "./playing-partner-preferences";
+import { CalendarFeedSection } from "./calendar-feed";
+import { SeasonHistorySection } from "./season-history";
+import { HandicapTrendSection } from "./handicap-trend";
 import Link from "next/link";
 import Image from "next/image";
 import { Breadcrumbs } from "@/components/breadcrumbs";
@@ -47,6 +50,8 @@ type Profile = {
   handicap_updated_at: string | null;
   low_hi_value: number | null;
   low_hi_date: string | null;
+  sms_opt_in: boolean;
+  calendar_token: string;
   status: string;
 };
 
@@ -266,6 +271,21 @@ export default function ProfilePage() {
             />
             <FieldError error={errors.phone} touched={touched.phone} />
             {!errors.phone && <p className="mt-1 text-xs text-gray-400">US 10-digit format</p>}
+
+            <label className="mt-3 flex items-start gap-2">
+              <input
+                type="checkbox"
+                name="smsOptIn"
+                defaultChecked={profile.sms_opt_in}
+                className="mt-0.5 h-4 w-4 rounded border-gray-300 text-teal-600 focus:ring-teal-600"
+              />
+              <span className="text-sm text-gray-700">
+                Text me game invites and reminders
+                <span className="block text-xs text-gray-400">
+                  Reply IN or OUT to RSVP. Reply STOP anytime to opt out. Msg &amp; data rates may apply.
+                </span>
+              </span>
+            </label>
           </div>
 
           {/* GHIN Number */}
@@ -408,6 +428,21 @@ export default function ProfilePage() {
             </div>
           </div>
         )}
+
+        {/* Handicap trend */}
+        {profile.handicap_index != null && (
+          <HandicapTrendSection
+            lowHi={profile.low_hi_value != null ? Number(profile.low_hi_value) : null}
+          />
+        )}
+
+        {/* League season history */}
+        <SeasonHistorySection />
+
+        {/* Calendar feed */}
+        {profile.calendar_token && (
+          <CalendarFeedSection calendarToken={profile.calendar_token} />
+        )}
         </div>
       </main>
   );
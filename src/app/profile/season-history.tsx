@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { GolferSeasonFinish } from "@/types/events";
+import { getMySeasonHistory } from "./actions";
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] || "th";
+  return `${n}${suffix}`;
+}
+
+function formatDollars(amount: number): string {
+  return `$${amount.toLocaleString("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Season-over-season league finishes. Hidden until the golfer has played a
+ * league season.
+ */
+export function SeasonHistorySection() {
+  const [history, setHistory] = useState<GolferSeasonFinish[] | null>(null);
+
+  useEffect(() => {
+    getMySeasonHistory().then(setHistory);
+  }, []);
+
+  if (!history || history.length === 0) return null;
+
+  return (
+    <div className="mt-12 border-t border-gray-200 pt-12">
+      <h2 className="mb-2 text-2xl font-serif uppercase tracking-wide font-bold text-navy-900">
+        League History
+      </h2>
+      <p className="mb-4 text-sm text-gray-500">
+        Where you finished each league season.
+      </p>
+
+      <div className="rounded-lg border border-gray-200 bg-white shadow-sm overflow-hidden">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-gray-50 border-b border-gray-200 text-xs font-semibold uppercase tracking-wider text-gray-500">
+              <th className="px-3 py-2 text-left">Season</th>
+              <th className="px-2 py-2 text-center">Finish</th>
+              <th className="px-2 py-2 text-center">Pts</th>
+              <th className="px-2 py-2 text-center">Rds</th>
+              <th className="px-3 py-2 text-right">Won</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.map((h) => (
+              <tr key={h.seasonId} className="border-b border-gray-100 last:border-0">
+                <td className="px-3 py-2.5">
+                  {h.eventSlug ? (
+                    <Link
+                      href={h.isCurrent ? `/league/${h.eventSlug}` : `/league/${h.eventSlug}?season=${h.seasonId}`}
+                      className="font-medium text-teal-700 hover:text-teal-800"
+                    >
+                      {h.seasonName}
+                    </Link>
+                  ) : (
+                    <span className="font-medium text-gray-900">{h.seasonName}</span>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    {h.eventName}
+                    {h.isCurrent ? " · in progress" : ""}
+                  </p>
+                </td>
+                <td className="px-2 py-2.5 text-center whitespace-nowrap">
+                  <span className="font-semibold text-navy-900">
+                    {h.isTied ? "T" : ""}
+                    {ordinal(h.rank)}
+                  </span>
+                  <span className="text-xs text-gray-500"> of {h.fieldSize}</span>
+                  {!h.isQualified && (
+                    <p className="text-[10px] uppercase text-gray-400">Not qualified</p>
+                  )}
+                </td>
+                <td className="px-2 py-2.5 text-center text-gray-700">{h.totalPoints}</td>
+                <td className="px-2 py-2.5 text-center text-gray-700">{h.roundsPlayed}</td>
+                <td className={`px-3 py-2.5 text-right ${h.moneyWon > 0 ? "font-medium text-teal-700" : "text-gray-300"}`}>
+                  {h.moneyWon > 0 ? formatDollars(h.moneyWon) : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
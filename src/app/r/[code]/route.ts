@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { decodeShortToken } from "@/lib/sms";
+
+/**
+ * GET /r/[code]
+ *
+ * Short RSVP link used in text messages. The code is the golfer's
+ * rsvps.token in base64url (22 chars instead of 36), so no lookup table is
+ * needed — just expand it and redirect to the normal RSVP page.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code } = await params;
+  const token = decodeShortToken(code);
+
+  if (!token) {
+    return NextResponse.redirect(new URL("/?error=invalid_token", request.url));
+  }
+
+  return NextResponse.redirect(new URL(`/rsvp/${token}`, request.url));
+}
@@ -2,6 +2,14 @@
 
 import { revalidatePath } from "next/cache";
 import { createAdminClient } from "@/lib/supabase/server";
+import {
+  resolveGuestRecord,
+  countGuestVisits,
+  guestVisitSeason,
+  fetchSeasonsForVisits,
+  checkGuestVisitLimit,
+} from "@/lib/guest-registry";
+import type { GuestVisitLimitAction } from "@/types/events";
 
 export async function createGuestRequest(formData: FormData) {
   const token = formData.get("token") as string;
@@ -35,14 +43,19 @@ export async function createGuestRequest(formData: FormData) {
     };
   }
 
-  // Look up event's max_guests_per_week setting
+  // Look up the event's guest limits
   const { data: schedule } = await supabase
     .from("event_schedules")
-    .select("event:events(max_guests_per_week)")
+    .select("game_date, event:events(id, max_guests_per_week, max_visits_per_guest, guest_visit_limit_action)")
     .eq("id", rsvp.schedule_id)
     .single();
 
-  const event = schedule?.event as unknown as { max_guests_per_week: number } | null;
+  const event = schedule?.event as unknown as {
+    id: string;
+    max_guests_per_week: number;
+    max_visits_per_guest: number | null;
+    guest_visit_limit_action: GuestVisitLimitAction | null;
+  } | null;
   const maxGuests = event?.max_guests_per_week || 1;
 
   // Check how many guest requests this golfer already has for this week
@@ -51,7 +64,7 @@ export async function createGuestRequest(formData: FormData) {
     .select("*", { count: "exact", head: true })
     .eq("schedule_id", rsvp.schedule_id)
     .eq("requested_by", rsvp.profile_id)
-    .in("status", ["pending", "approved"]);
+    .in("status", ["pending", "approved", "waitlisted"]);
 
   if ((existingCount || 0) >= maxGuests) {
     return {
@@ -59,6 +72,47 @@ export async function createGuestRequest(formData: FormData) {
     };
   }
 
+  // Find the guest in the registry (or register them) so visits are
+  // counted across every member who brings them
+  let guestId: string;
+  try {
+    const guest = await resolveGuestRecord(supabase, {
+      firstName: guestFirstName,
+      lastName: guestLastName,
+      email: guestEmail,
+      phone: guestPhone,
+      ghinNumber: guestGhin,
+    });
+    guestId = guest.id;
+  } catch (err) {
+    console.error("Guest registry error:", err);
+    return { error: "Failed to create guest request" };
+  }
+
+  // Check the event's per-guest visit limit for the season
+  let visitNote: string | null = null;
+  let visitLimitExceeded = false;
+  if (event?.max_visits_per_guest && schedule) {
+    try {
+      const season = guestVisitSeason(schedule.game_date, await fetchSeasonsForVisits(supabase, event.id));
+      const visits = await countGuestVisits(supabase, guestId, event.id, season);
+      const limit = checkGuestVisitLimit(visits, event.max_visits_per_guest, event.guest_visit_limit_action);
+
+      if (limit.blocked) {
+        return {
+          error: `${guestFirstName} ${guestLastName} already has ${visits} guest visit${visits !== 1 ? "s" : ""} this season. Guests can play up to ${event.max_visits_per_guest} time${event.max_visits_per_guest !== 1 ? "s" : ""} per season.`,
+        };
+      }
+      if (limit.overLimit) {
+        visitLimitExceeded = true;
+        visitNote = `This guest already has ${visits} visit${visits !== 1 ? "s" : ""} in ${season.label}, and the limit is ${event.max_visits_per_guest} per season.`;
+      }
+    } catch (err) {
+      console.error("Guest visit count error:", err);
+      return { error: "Failed to create guest request" };
+    }
+  }
+
   // Create the guest request (approval_token auto-generated by DB default)
   const { data: newRequest, error: insertError } = await supabase
     .from("guest_requests")
@@ -70,6 +124,8 @@ export async function createGuestRequest(formData: FormData) {
       guest_email: guestEmail,
       guest_phone: guestPhone,
       guest_ghin_number: guestGhin,
+      guest_id: guestId,
+      visit_limit_exceeded: visitLimitExceeded,
       status: "pending",
     })
     .select("id, approval_token")
@@ -91,7 +147,8 @@ export async function createGuestRequest(formData: FormData) {
       guestLastName,
       guestEmail,
       guestPhone,
-      guestGhin
+      guestGhin,
+      visitNote
     );
   } catch (err) {
     // Don't fail the guest request if the admin alert fails
@@ -116,6 +173,7 @@ async function sendGuestRequestAdminAlert(
   guestEmail: string | null,
   guestPhone: string | null,
   guestGhin: string | null,
+  visitNote: string | null,
 ) {
   const supabase = createAdminClient();
 
@@ -217,6 +275,8 @@ async function sendGuestRequestAdminAlert(
           ${guestDetails.map(d => `<p style="margin: 4px 0; color: #374151;">${d}</p>`).join("")}
         </div>
 
+        ${visitNote ? `<p style="background: #fffbeb; border: 1px solid #fde68a; border-radius: 8px; padding: 12px; color: #92400e; font-size: 14px;">⚠ ${visitNote}</p>` : ""}
+
         <div style="margin: 24px 0; text-align: center;">
           <a href="${approveUrl}" style="display: inline-block; background: #0d9488; color: white; padding: 12px 32px; border-radius: 8px; text-decoration: none; font-weight: 600; font-size: 16px; margin-right: 12px;">Approve Guest</a>
           <a href="${denyUrl}" style="display: inline-block; background: #dc2626; color: white; padding: 12px 32px; border-radius: 8px; text-decoration: none; font-weight: 600; font-size: 16px;">Decline Guest</a>
@@ -276,28 +336,50 @@ export async function getPastGuests(token: string) {
     return [];
   }
 
-  // Fetch all unique past guests for this golfer
-  // Group by guest email to get unique guests (most recent request per guest)
-  const { data: pastGuests } = await supabase
+  // Fetch this golfer's past guests, with the registry's details for each
+  const { data: pastRequests } = await supabase
     .from("guest_requests")
-    .select("guest_first_name, guest_last_name, guest_email, guest_phone, guest_ghin_number")
+    .select("guest_id, guest_first_name, guest_last_name, guest_email, guest_phone, guest_ghin_number, guest:guests(first_name, last_name, email, phone, ghin_number)")
     .eq("requested_by", rsvp.profile_id)
     .order("created_at", { ascending: false });
 
-  if (!pastGuests) {
+  if (!pastRequests) {
     return [];
   }
 
-  // Deduplicate by name + email combo (keep most recent)
-  const uniqueGuests = pastGuests.reduce((acc, guest) => {
-    const key = `${guest.guest_first_name}|${guest.guest_last_name}|${guest.guest_email || ""}`;
-    if (!acc.find((g: typeof guest) =>
-      `${g.guest_first_name}|${g.guest_last_name}|${g.guest_email || ""}` === key
-    )) {
-      acc.push(guest);
-    }
-    return acc;
-  }, [] as typeof pastGuests);
+  // One entry per registry guest (most recent request first). The registry
+  // fills in details another member may have added since, e.g. a GHIN number.
+  const seen = new Set<string>();
+  const uniqueGuests: Array<{
+    guest_first_name: string;
+    guest_last_name: string;
+    guest_email: string | null;
+    guest_phone: string | null;
+    guest_ghin_number: string | null;
+  }> = [];
+
+  for (const request of pastRequests) {
+    const key = request.guest_id ||
+      `${request.guest_first_name}|${request.guest_last_name}|${request.guest_email || ""}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const guest = request.guest as unknown as {
+      first_name: string;
+      last_name: string;
+      email: string | null;
+      phone: string | null;
+      ghin_number: string | null;
+    } | null;
+
+    uniqueGuests.push({
+      guest_first_name: guest?.first_name ?? request.guest_first_name,
+      guest_last_name: guest?.last_name ?? request.guest_last_name,
+      guest_email: guest?.email ?? request.guest_email,
+      guest_phone: guest?.phone ?? request.guest_phone,
+      guest_ghin_number: guest?.ghin_number ?? request.guest_ghin_number,
+    });
+  }
 
   return uniqueGuests;
 }
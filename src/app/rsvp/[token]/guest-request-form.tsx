@@ -313,6 +313,7 @@ export function GuestRequestStatus({
     guest_first_name: string;
     guest_last_name: string;
     status: string;
+    waitlist_position?: number | null;
   }>;
   remainingSlots: number;
   maxGuestsPerWeek: number;
@@ -320,18 +321,21 @@ export function GuestRequestStatus({
   const statusColors: Record<string, string> = {
     pending: "border-yellow-200 bg-yellow-50 text-yellow-700",
     approved: "border-teal-200 bg-navy-50 text-teal-600",
+    waitlisted: "border-orange-200 bg-orange-50 text-orange-700",
     denied: "border-red-200 bg-red-50 text-red-700",
   };
 
   const statusLabels: Record<string, string> = {
     pending: "Pending Review",
     approved: "Approved",
+    waitlisted: "Guest Waitlist",
     denied: "Denied",
   };
 
   const statusIcons: Record<string, string> = {
     pending: "⏳",
     approved: "✓",
+    waitlisted: "⏸",
     denied: "✗",
   };
 
@@ -358,6 +362,7 @@ export function GuestRequestStatus({
               </span>
               <span className="text-xs">
                 {statusLabels[guest.status] || "Unknown"}
+                {guest.status === "waitlisted" && guest.waitlist_position ? ` #${guest.waitlist_position}` : ""}
               </span>
             </div>
           </li>
@@ -368,6 +373,11 @@ export function GuestRequestStatus({
           Guest requests will be reviewed by an event admin. You'll be notified when approved or declined.
         </p>
       )}
+      {guestRequests.some((g) => g.status === "waitlisted") && (
+        <p className="mt-3 text-xs text-gray-500">
+          Guests count toward the game&apos;s capacity. Waitlisted guests are added in order if a spot is open — you&apos;ll get an email if yours gets in.
+        </p>
+      )}
     </div>
   );
 }
@@ -76,6 +76,7 @@ export default async function RsvpPage({
   // Fetch "In" list — only show if this golfer is "in"
   let inList: { id: string; first_name: string; last_name: string }[] = [];
   let inCount = 0;
+  let guestCount = 0;
   const penalizedProfileIds = new Set<string>();
   if (currentStatus === "in" || currentStatus === "waitlisted") {
     const { data: inRsvps } = await supabase
@@ -92,6 +93,14 @@ export default async function RsvpPage({
       inCount = inList.length;
     }
 
+    // Approved guests take spots too
+    const { count: approvedGuestCount } = await supabase
+      .from("guest_requests")
+      .select("*", { count: "exact", head: true })
+      .eq("schedule_id", rsvp.schedule_id)
+      .eq("status", "approved");
+    guestCount = approvedGuestCount || 0;
+
     // Fetch penalty box inmates for badge display
     if (event?.penalty_box_enabled && inList.length > 0) {
       const adminClient = createAdminClient();
@@ -115,12 +124,27 @@ export default async function RsvpPage({
     .eq("schedule_id", rsvp.schedule_id)
     .eq("status", "waitlisted");
 
+  // Open waitlist offer for this golfer, if any
+  let pendingOfferToken: string | null = null;
+  if (currentStatus === "waitlisted") {
+    const { data: pendingOffer } = await supabase
+      .from("waitlist_offers")
+      .select("token, expires_at")
+      .eq("rsvp_id", rsvp.id)
+      .eq("status", "pending")
+      .maybeSingle();
+
+    if (pendingOffer && new Date(pendingOffer.expires_at) > new Date()) {
+      pendingOfferToken = pendingOffer.token;
+    }
+  }
+
   // Fetch guest requests if user is "in"
   const guestRequests =
     currentStatus === "in" ? await getGuestRequests(token) : [];
   const maxGuestsPerWeek = event?.max_guests_per_week || 1;
   const activeGuestCount = guestRequests.filter(
-    (g: { status: string }) => g.status === "pending" || g.status === "approved"
+    (g: { status: string }) => g.status === "pending" || g.status === "approved" || g.status === "waitlisted"
   ).length;
   const remainingSlots = maxGuestsPerWeek - activeGuestCount;
 
@@ -209,6 +233,21 @@ export default async function RsvpPage({
           )}
         </div>
 
+        {/* Open waitlist offer */}
+        {pendingOfferToken && !isCancelled && (
+          <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-center">
+            <p className="text-sm font-medium text-amber-800">
+              A spot opened up and is being held for you
+            </p>
+            <Link
+              href={`/waitlist-offer/${pendingOfferToken}`}
+              className="mt-2 inline-block rounded-md bg-amber-600 px-4 py-1.5 text-sm font-semibold text-white hover:bg-amber-700 transition"
+            >
+              Claim or Pass
+            </Link>
+          </div>
+        )}
+
         {/* Response buttons */}
         {!isPastCutoff && !isCancelled && (
           <div className="mt-6 space-y-3">
@@ -256,7 +295,10 @@ export default async function RsvpPage({
         <div className="mt-6 rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
           <div className="flex items-center justify-between text-sm">
             <span className="text-gray-600">
-              {inCount} / {capacity} spots filled
+              {inCount + guestCount} / {capacity} spots filled
+              {guestCount > 0 && (
+                <span className="text-gray-400"> (incl. {guestCount} guest{guestCount === 1 ? "" : "s"})</span>
+              )}
             </span>
             {(waitlistCount || 0) > 0 && (
               <span className="text-orange-600">
@@ -267,9 +309,9 @@ export default async function RsvpPage({
           <div className="mt-2 h-2 w-full overflow-hidden rounded-full bg-gray-200">
             <div
               className={`h-full rounded-full transition-all ${
-                inCount >= capacity ? "bg-red-500" : "bg-teal-500"
+                inCount + guestCount >= capacity ? "bg-red-500" : "bg-teal-500"
               }`}
-              style={{ width: `${Math.min((inCount / capacity) * 100, 100)}%` }}
+              style={{ width: `${Math.min(((inCount + guestCount) / capacity) * 100, 100)}%` }}
             />
           </div>
         </div>
@@ -0,0 +1,171 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { HelpText } from "@/components/help-text";
+import { formatGameDate, formatDateTimeFull } from "@/lib/format";
+import { createAdminClient } from "@/lib/supabase/server";
+
+const RESULT_MESSAGES: Record<string, { text: string; tone: "success" | "info" | "error" }> = {
+  claimed: { text: "You're in! The spot is yours.", tone: "success" },
+  declined: { text: "Got it — you've passed on this spot and it will be offered to the next golfer.", tone: "info" },
+  expired: { text: "Sorry, this offer expired and has moved to the next golfer on the waitlist.", tone: "error" },
+  unavailable: { text: "Sorry, this spot is no longer available. Check your RSVP for your current status.", tone: "error" },
+  already_responded: { text: "This offer has already been answered.", tone: "info" },
+  error: { text: "Something went wrong. Please try again or contact an event administrator.", tone: "error" },
+};
+
+const TONE_CLASSES = {
+  success: "border-teal-200 bg-teal-50 text-teal-700",
+  info: "border-gray-200 bg-gray-50 text-gray-700",
+  error: "border-red-200 bg-red-50 text-red-700",
+};
+
+export default async function WaitlistOfferPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ result?: string }>;
+}) {
+  const { token } = await params;
+  const { result } = await searchParams;
+
+  const supabase = createAdminClient();
+
+  const { data: offer, error } = await supabase
+    .from("waitlist_offers")
+    .select(
+      `status, expires_at, responded_at,
+       rsvp:rsvps(token, status),
+       profile:profiles(first_name),
+       schedule:event_schedules(
+         game_date, status,
+         event:events(name)
+       )`
+    )
+    .eq("token", token)
+    .single();
+
+  if (error || !offer) {
+    notFound();
+  }
+
+  const rsvp = offer.rsvp as unknown as { token: string; status: string } | null;
+  const profile = offer.profile as unknown as { first_name: string } | null;
+  const schedule = offer.schedule as unknown as {
+    game_date: string;
+    status: string;
+    event: { name: string } | null;
+  } | null;
+
+  const golferName = profile?.first_name || "Golfer";
+  const isCancelled = schedule?.status === "cancelled";
+  const isExpired = offer.status === "expired" ||
+    (offer.status === "pending" && new Date(offer.expires_at) <= new Date());
+  const canRespond = offer.status === "pending" && !isExpired && !isCancelled;
+  const resultMessage = result ? RESULT_MESSAGES[result] : null;
+
+  const baseUrl = `/api/waitlist-offer?token=${token}`;
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        {/* Header */}
+        <div className="text-center">
+          <h1 className="text-2xl font-serif uppercase tracking-wide font-bold text-navy-900">
+            {schedule?.event?.name || "FRCC Golf Games"}
+          </h1>
+          <p className="mt-1 text-lg text-gray-600">
+            {schedule ? formatGameDate(schedule.game_date) : "Upcoming Game"}
+          </p>
+          <p className="mt-1 text-sm text-gray-400">
+            Hey {golferName}, a spot opened up for you.
+          </p>
+        </div>
+
+        {/* Result of a claim/decline */}
+        {resultMessage && (
+          <div className={`mt-4 rounded-lg border px-4 py-3 text-center text-sm ${TONE_CLASSES[resultMessage.tone]}`}>
+            {resultMessage.text}
+          </div>
+        )}
+
+        {/* Cancelled */}
+        {isCancelled && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-center text-sm text-red-700">
+            This game has been cancelled.
+          </div>
+        )}
+
+        {/* Offer state (when not just answered) */}
+        {!resultMessage && !isCancelled && (
+          <div className="mt-6 rounded-lg border border-gray-200 bg-white p-4 text-center shadow-sm">
+            {canRespond ? (
+              <>
+                <p className="text-sm font-medium text-gray-900">
+                  You&apos;re next on the waitlist — we&apos;re holding a spot for you.
+                </p>
+                <p className="mt-1 text-xs text-amber-700">
+                  Offer expires {formatDateTimeFull(offer.expires_at)}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">
+                {isExpired
+                  ? "This offer expired and has moved to the next golfer on the waitlist."
+                  : offer.status === "claimed"
+                    ? "You claimed this spot — you're in."
+                    : offer.status === "declined"
+                      ? "You passed on this spot."
+                      : "This offer is no longer available."}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Claim / decline */}
+        {canRespond && (
+          <div className="mt-6 space-y-3">
+            <a
+              href={`${baseUrl}&action=claim`}
+              className="block w-full rounded-lg bg-teal-600 px-4 py-3.5 text-center text-base font-semibold text-white shadow-sm transition hover:bg-teal-700"
+            >
+              Claim My Spot
+            </a>
+            <a
+              href={`${baseUrl}&action=decline`}
+              className="block w-full rounded-lg border-2 border-red-300 px-4 py-3.5 text-center text-base font-semibold text-red-700 shadow-sm transition hover:bg-red-50"
+            >
+              No Thanks
+            </a>
+            <div className="mt-1">
+              <HelpText>
+                &quot;No Thanks&quot; takes you off the waitlist for this game. If you don&apos;t answer before the offer expires, the spot goes to the next golfer and you stay on the waitlist.
+              </HelpText>
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="mt-8 flex items-center justify-center gap-4 text-sm">
+          {rsvp?.token && (
+            <>
+              <Link
+                href={`/rsvp/${rsvp.token}`}
+                className="text-teal-700 hover:text-teal-600"
+              >
+                View My RSVP
+              </Link>
+              <span className="text-gray-300">|</span>
+            </>
+          )}
+          <Link
+            href="/help"
+            className="text-gray-400 hover:text-gray-600"
+          >
+            Need help?
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
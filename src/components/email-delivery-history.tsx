@@ -0,0 +1,93 @@
+/**
+ * Email Delivery Display Components
+ *
+ * Per-recipient delivery status from the email_deliveries table, kept
+ * current by the Resend webhook. Used on the admin golfer pages and the
+ * event Emails & Communications page.
+ */
+
+import { formatDateTime } from "@/lib/format";
+import {
+  DELIVERY_STATUS_LABELS,
+  DELIVERY_STATUS_COLORS,
+  type EmailDeliveryStatus,
+} from "@/lib/email-delivery";
+
+export interface EmailDeliveryRow {
+  id: string;
+  recipient: string;
+  subject: string;
+  email_type: string | null;
+  status: EmailDeliveryStatus;
+  error_message: string | null;
+  sent_at: string;
+}
+
+export function DeliveryStatusBadge({
+  status,
+  title,
+}: {
+  status: EmailDeliveryStatus;
+  title?: string | null;
+}) {
+  return (
+    <span
+      title={title || undefined}
+      className={`inline-flex shrink-0 rounded-full px-2 py-0.5 text-xs font-medium ${DELIVERY_STATUS_COLORS[status]}`}
+    >
+      {DELIVERY_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+/** Hard-bounce warning shown next to a golfer's email address */
+export function EmailBounceWarning({
+  bouncedAt,
+  reason,
+}: {
+  bouncedAt: string;
+  reason: string | null;
+}) {
+  return (
+    <div className="mt-4 rounded-md border border-red-200 bg-red-50 px-4 py-3">
+      <p className="text-sm font-semibold text-red-700">
+        Email address is bouncing
+      </p>
+      <p className="mt-1 text-xs text-red-600">
+        Hard bounce on {formatDateTime(bouncedAt)}
+        {reason ? ` — ${reason}` : ""}. This golfer is not receiving game
+        emails; ask them to update their email address.
+      </p>
+    </div>
+  );
+}
+
+/** Recent emails sent to one golfer, newest first */
+export function EmailDeliveryHistory({
+  deliveries,
+}: {
+  deliveries: EmailDeliveryRow[];
+}) {
+  return (
+    <div className="mt-4 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="font-serif text-lg font-semibold uppercase tracking-wide text-navy-900">
+        Recent Emails
+      </h2>
+      {deliveries.length === 0 ? (
+        <p className="mt-2 text-sm text-gray-500">No emails recorded yet.</p>
+      ) : (
+        <ul className="mt-3 divide-y divide-gray-100">
+          {deliveries.map((d) => (
+            <li key={d.id} className="flex items-start justify-between gap-3 py-2">
+              <div className="min-w-0">
+                <p className="truncate text-sm text-gray-900">{d.subject}</p>
+                <p className="text-xs text-gray-400">{formatDateTime(d.sent_at)}</p>
+              </div>
+              <DeliveryStatusBadge status={d.status} title={d.error_message} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
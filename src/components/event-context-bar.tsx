@@ -117,7 +117,7 @@ export function EventContextBar() {
   };
 
   return (
-    <div className="border-b border-teal-200 bg-teal-50 px-4 py-3">
+    <div className="border-b border-teal-200 bg-teal-50 px-4 py-3 print:hidden">
       <div className="mx-auto flex max-w-5xl items-center justify-between">
         <div className="flex items-center gap-2">
           <span className="text-xs font-semibold uppercase tracking-wide text-teal-700">
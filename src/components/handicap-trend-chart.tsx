@@ -0,0 +1,114 @@
+/**
+ * Handicap Trend Chart
+ *
+ * Handicap Index over time from handicap_history, with the golfer's Low
+ * H.I. as a dashed reference line. Plain SVG so it renders on the server
+ * (admin golfer page) and in client components (profile) alike. Used on
+ * the profile and admin golfer pages.
+ */
+
+import type { HandicapPoint } from "@/lib/handicap-trends";
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PAD = { top: 12, right: 16, bottom: 24, left: 36 };
+
+function formatShortDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    timeZone: "America/Los_Angeles",
+    month: "short",
+    day: "numeric",
+    year: "2-digit",
+  });
+}
+
+export function HandicapTrendChart({
+  points,
+  lowHi,
+}: {
+  points: HandicapPoint[];
+  lowHi: number | null;
+}) {
+  if (points.length < 2) {
+    return (
+      <p className="text-sm text-gray-500">
+        Not enough handicap history yet. The chart fills in as the index syncs from GHIN.
+      </p>
+    );
+  }
+
+  const times = points.map((p) => new Date(p.recordedAt).getTime());
+  const values = points.map((p) => p.handicapIndex);
+  if (lowHi != null) values.push(lowHi);
+
+  const minValue = Math.floor(Math.min(...values) - 0.5);
+  const maxValue = Math.ceil(Math.max(...values) + 0.5);
+  const firstTime = times[0];
+  const timeSpan = Math.max(times[times.length - 1] - firstTime, 1);
+
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (t: number) => PAD.left + ((t - firstTime) / timeSpan) * plotWidth;
+  const y = (v: number) => PAD.top + ((maxValue - v) / (maxValue - minValue)) * plotHeight;
+
+  const line = points
+    .map((p, i) => `${i === 0 ? "M" : "L"}${x(times[i]).toFixed(1)},${y(p.handicapIndex).toFixed(1)}`)
+    .join(" ");
+
+  const ticks = [maxValue, (maxValue + minValue) / 2, minValue];
+  const current = points[points.length - 1].handicapIndex;
+
+  return (
+    <figure>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="h-auto w-full"
+        role="img"
+        aria-label={`Handicap Index trend from ${formatShortDate(points[0].recordedAt)} to ${formatShortDate(points[points.length - 1].recordedAt)}, currently ${current.toFixed(1)}`}
+      >
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" strokeWidth={1} />
+            <text x={PAD.left - 6} y={y(tick) + 4} textAnchor="end" fontSize={11} fill="#6b7280">
+              {tick.toFixed(1)}
+            </text>
+          </g>
+        ))}
+
+        {lowHi != null && (
+          <g>
+            <line
+              x1={PAD.left}
+              x2={WIDTH - PAD.right}
+              y1={y(lowHi)}
+              y2={y(lowHi)}
+              stroke="#d97706"
+              strokeWidth={1.5}
+              strokeDasharray="6 4"
+            />
+            <text x={WIDTH - PAD.right} y={y(lowHi) - 4} textAnchor="end" fontSize={11} fill="#b45309">
+              Low H.I. {lowHi.toFixed(1)}
+            </text>
+          </g>
+        )}
+
+        <path d={line} fill="none" stroke="#0d9488" strokeWidth={2} strokeLinejoin="round" />
+        {points.map((p, i) => (
+          <circle key={p.recordedAt} cx={x(times[i])} cy={y(p.handicapIndex)} r={3} fill="#0d9488">
+            <title>{`${formatShortDate(p.recordedAt)}: ${p.handicapIndex.toFixed(1)}`}</title>
+          </circle>
+        ))}
+
+        <text x={PAD.left} y={HEIGHT - 6} fontSize={11} fill="#6b7280">
+          {formatShortDate(points[0].recordedAt)}
+        </text>
+        <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end" fontSize={11} fill="#6b7280">
+          {formatShortDate(points[points.length - 1].recordedAt)}
+        </text>
+      </svg>
+      <figcaption className="mt-1 text-xs text-gray-500">
+        Handicap Index over time{lowHi != null ? " — dashed line is the Low H.I. (lowest index in the past year)" : ""}.
+      </figcaption>
+    </figure>
+  );
+}
@@ -32,7 +32,7 @@ export default async function Header() {
   const isAdmin = profile?.is_super_admin || isEventAdmin;
 
   return (
-    <header className="border-b border-navy-200 bg-white">
+    <header className="border-b border-navy-200 bg-white print:hidden">
       <div className="mx-auto flex max-w-5xl items-center justify-between px-4 py-3">
         <Link href={user ? "/home" : "/"} className="flex items-center gap-3">
           <Image
@@ -138,7 +138,7 @@ export function WeatherForecast({
       {/* Footer */}
       <div className="border-t border-gray-200/50 bg-white/30 px-4 py-2">
         <p className="text-center text-[11px] text-gray-400">
-          FRCC, Rancho Santa Fe &middot; {confidenceLabel}
+          {forecast.courseName} &middot; {confidenceLabel}
           {daysUntilGame > 3 ? " — updates as game day approaches" : ""}
         </p>
       </div>
@@ -20,6 +20,10 @@ interface AlertContext {
   gameDate?: string;
   currentCount?: number;
   capacity?: number;
+  // For spot_opened (waitlist auto-promotion)
+  promotedGolferNames?: string[];
+  offeredGolferNames?: string[];
+  promotionAwaitingApproval?: boolean;
   // For low_response
   respondedCount?: number;
   totalSubscribers?: number;
@@ -221,7 +225,13 @@ function generateAlertEmail(
               <p style="margin: 0; color: #374151;">${context.eventName} — ${context.gameDate ? formatGameDate(context.gameDate) : "upcoming game"}</p>
             </div>
             <p style="color: #374151;"><strong>${context.golferName || "A player"}</strong> has changed from "In" to "Out." Current count: <strong>${context.currentCount}/${context.capacity}</strong>.</p>
-            <p style="color: #374151; font-size: 14px;">Check the waitlist in the admin dashboard to see if anyone should be moved up.</p>
+            ${context.promotedGolferNames && context.promotedGolferNames.length > 0
+              ? `<p style="color: #374151; font-size: 14px;">Automatically moved up from the waitlist: <strong>${context.promotedGolferNames.join(", ")}</strong>.</p>`
+              : context.offeredGolferNames && context.offeredGolferNames.length > 0
+                ? `<p style="color: #374151; font-size: 14px;">The spot was offered to <strong>${context.offeredGolferNames.join(", ")}</strong> from the waitlist. If the offer expires or is declined, it moves to the next golfer.</p>`
+                : context.promotionAwaitingApproval
+                ? `<p style="color: #374151; font-size: 14px;">It's past the RSVP cutoff, so the waitlist was <strong>not</strong> promoted automatically. Check the waitlist in the admin dashboard to approve the next golfer.</p>`
+                : `<p style="color: #374151; font-size: 14px;">Check the waitlist in the admin dashboard to see if anyone should be moved up.</p>`}
           </div>
         `,
       };
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for courses: validating the course form and picking a
+ * game's course (away-day override, else the event's course).
+ *
+ * Run with: npx tsx --test src/lib/courses.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCourseInput, pickGameCourse, isValidTimezone, formatCourseLocation } from './courses';
+
+describe('parseCourseInput', () => {
+  const valid = {
+    name: '  Torrey Pines South ',
+    address: '11480 N Torrey Pines Rd, La Jolla, CA 92037',
+    latitude: '32.8990',
+    longitude: '-117.2519',
+    timezone: 'America/Los_Angeles',
+  };
+
+  it('trims and parses a valid course', () => {
+    const result = parseCourseInput(valid);
+    assert.ok('course' in result);
+    assert.equal(result.course.name, 'Torrey Pines South');
+    assert.equal(result.course.latitude, 32.899);
+    assert.equal(result.course.longitude, -117.2519);
+  });
+
+  it('defaults the timezone and treats a blank address as none', () => {
+    const result = parseCourseInput({ ...valid, address: ' ', timezone: '' });
+    assert.ok('course' in result);
+    assert.equal(result.course.address, null);
+    assert.equal(result.course.timezone, 'America/Los_Angeles');
+  });
+
+  it('rejects missing or out-of-range coordinates', () => {
+    assert.ok('error' in parseCourseInput({ ...valid, latitude: '' }));
+    assert.ok('error' in parseCourseInput({ ...valid, latitude: '95' }));
+    assert.ok('error' in parseCourseInput({ ...valid, longitude: 'west' }));
+  });
+
+  it('rejects unknown timezones', () => {
+    assert.equal(isValidTimezone('America/Phoenix'), true);
+    assert.equal(isValidTimezone('Pacific Time'), false);
+    assert.ok('error' in parseCourseInput({ ...valid, timezone: 'Pacific Time' }));
+  });
+});
+
+describe('pickGameCourse', () => {
+  it("uses the game's override, else the event's course", () => {
+    assert.equal(pickGameCourse('away', 'home'), 'away');
+    assert.equal(pickGameCourse(null, 'home'), 'home');
+    assert.equal(pickGameCourse(null, null), null);
+  });
+});
+
+describe('formatCourseLocation', () => {
+  it('joins the name and address, or uses the name alone', () => {
+    assert.equal(
+      formatCourseLocation({ name: 'Torrey Pines South', address: 'La Jolla, CA' }),
+      'Torrey Pines South, La Jolla, CA'
+    );
+    assert.equal(formatCourseLocation({ name: 'Torrey Pines South', address: null }), 'Torrey Pines South');
+  });
+});
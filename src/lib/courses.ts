@@ -0,0 +1,114 @@
+/**
+ * Courses — where a game is played.
+ *
+ * A game's course is its schedule's away-day override
+ * (event_schedules.course_id), else the event's course (events.course_id).
+ * The weather service fetches and caches forecasts for that course.
+ * Courses are managed by super admins on /admin/courses (migration 054).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Course } from "../types/events";
+
+export interface CourseInput {
+  name: string;
+  address: string | null;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+}
+
+/** True if Intl knows the IANA timezone name (e.g. "America/Phoenix") */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate the course form. Coordinates are decimal degrees — copy them
+ * from a map pin, west longitudes negative.
+ */
+export function parseCourseInput(
+  fields: Record<string, string | null | undefined>
+): { course: CourseInput } | { error: string } {
+  const name = (fields.name || "").trim();
+  if (!name) return { error: "Course name is required" };
+
+  const latitude = Number((fields.latitude || "").trim());
+  const longitude = Number((fields.longitude || "").trim());
+  if (!fields.latitude?.trim() || isNaN(latitude) || latitude < -90 || latitude > 90) {
+    return { error: "Latitude must be a number between -90 and 90" };
+  }
+  if (!fields.longitude?.trim() || isNaN(longitude) || longitude < -180 || longitude > 180) {
+    return { error: "Longitude must be a number between -180 and 180" };
+  }
+
+  const timezone = (fields.timezone || "").trim() || "America/Los_Angeles";
+  if (!isValidTimezone(timezone)) {
+    return { error: `Unknown timezone "${timezone}". Use a name like America/Los_Angeles.` };
+  }
+
+  return {
+    course: {
+      name,
+      address: (fields.address || "").trim() || null,
+      latitude: Math.round(latitude * 1e6) / 1e6,
+      longitude: Math.round(longitude * 1e6) / 1e6,
+      timezone,
+    },
+  };
+}
+
+/** The game's override if set, else the event's course */
+export function pickGameCourse<T>(scheduleCourse: T | null, eventCourse: T | null): T | null {
+  return scheduleCourse ?? eventCourse;
+}
+
+/**
+ * Load the course a game is played at. Returns null when neither the
+ * game nor the event has a course.
+ */
+export async function resolveGameCourse(
+  supabase: SupabaseClient,
+  eventId: string,
+  gameDate: string
+): Promise<Course | null> {
+  const [{ data: schedule }, { data: event }] = await Promise.all([
+    supabase
+      .from("event_schedules")
+      .select("course:courses(*)")
+      .eq("event_id", eventId)
+      .eq("game_date", gameDate)
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("events")
+      .select("course:courses(*)")
+      .eq("id", eventId)
+      .single(),
+  ]);
+
+  const course = pickGameCourse(
+    (schedule?.course as unknown as Course | null) ?? null,
+    (event?.course as unknown as Course | null) ?? null
+  );
+  if (!course) return null;
+
+  // numeric columns come back as strings
+  return { ...course, latitude: Number(course.latitude), longitude: Number(course.longitude) };
+}
+
+/** "Name, address" for calendar LOCATION lines; just the name without an address */
+export function formatCourseLocation(course: Pick<Course, "name" | "address">): string {
+  return course.address ? `${course.name}, ${course.address}` : course.name;
+}
+
+/** All courses, by name, for pickers */
+export async function getCourses(supabase: SupabaseClient): Promise<Course[]> {
+  const { data } = await supabase.from("courses").select("*").order("name");
+  return (data || []) as Course[];
+}
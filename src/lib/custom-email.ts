@@ -0,0 +1,246 @@
+/**
+ * Custom (admin-written) emails to a game's golfers.
+ *
+ * Shared by the email composer's "send now" action and the scheduled-email
+ * queue processed by the email-scheduler cron. Callers do their own auth
+ * checks; pass whichever Supabase client they already hold.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sendEmail, rateLimitDelay } from "./email";
+import { formatGameDate, getSiteUrl } from "./format";
+import { renderTemplate, type TemplateValues } from "./email-template-library";
+import type { RsvpStatus } from "./rsvp-status";
+
+export type EmailTarget =
+  | "in"
+  | "out"
+  | "not_sure_no_response"
+  | "waitlisted"
+  | "everyone";
+
+/** RSVP statuses included in each target audience */
+export const EMAIL_TARGET_STATUSES: Record<EmailTarget, RsvpStatus[]> = {
+  in: ["in"],
+  out: ["out"],
+  not_sure_no_response: ["not_sure", "no_response"],
+  waitlisted: ["waitlisted"],
+  everyone: ["in", "out", "not_sure", "no_response", "waitlisted"],
+};
+
+/** Shared email header with FRCC branding (matches lib/email.ts) */
+function emailHeader(title: string, subtitle?: string) {
+  return `
+    <div style="border-bottom: 3px solid #3d7676; padding-bottom: 16px; margin-bottom: 20px;">
+      <h2 style="font-family: Georgia, 'Times New Roman', serif; color: #1b2a4a; margin: 0 0 4px 0; text-transform: uppercase; letter-spacing: 1px; font-size: 20px;">${title}</h2>
+      ${subtitle ? `<p style="color: #6b7280; font-size: 16px; margin: 0;">${subtitle}</p>` : ""}
+    </div>`;
+}
+
+/** Build the email HTML wrapper — shared by send and test flows */
+export function buildCustomEmailHtml(
+  eventName: string,
+  bodyHtml: string,
+  ctaUrl: string,
+  ctaLabel: string,
+  siteUrl: string,
+  subtitle?: string
+) {
+  return `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 0 auto; padding: 24px;">
+      ${emailHeader(eventName, subtitle)}
+
+      ${bodyHtml}
+
+      <div style="margin: 24px 0; text-align: center;">
+        <a href="${ctaUrl}" style="display: inline-block; background: #3d7676; color: white; text-align: center; padding: 12px 32px; border-radius: 8px; text-decoration: none; font-weight: 600; font-size: 15px;">${ctaLabel}</a>
+      </div>
+
+      <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+        <p style="font-size: 12px; color: #6b7280; text-align: center; margin: 0 0 12px 0;">
+          📱 <strong>Tip:</strong> Add FRCC Golf Games to your home screen for quick access.
+          <a href="${siteUrl}/install" style="color: #0d9488; text-decoration: underline;">Learn how →</a>
+        </p>
+        <p style="font-size: 12px; color: #9ca3af; text-align: center; margin: 0;">
+          FRCC Golf Games<br>
+          Fairbanks Ranch Country Club
+        </p>
+      </div>
+    </div>
+  `;
+}
+
+/** Convert plain text body to HTML paragraphs */
+export function bodyToHtml(text: string) {
+  return text
+    .split("\n")
+    .map(
+      (line: string) =>
+        `<p style="color: #374151; margin: 0 0 12px 0;">${line}</p>`
+    )
+    .join("");
+}
+
+/** Game date and open spots for {{game_date}} / {{open_spots}} */
+export async function loadGameTemplateValues(
+  supabase: SupabaseClient,
+  scheduleId: string
+): Promise<TemplateValues> {
+  const { data: schedule } = await supabase
+    .from("event_schedules")
+    .select("id, game_date, capacity, event:events(default_capacity)")
+    .eq("id", scheduleId)
+    .single();
+
+  if (!schedule) return {};
+
+  const { count: inCount } = await supabase
+    .from("rsvps")
+    .select("*", { count: "exact", head: true })
+    .eq("schedule_id", scheduleId)
+    .eq("status", "in");
+
+  const event = schedule.event as unknown as { default_capacity: number | null } | null;
+  const capacity = schedule.capacity || event?.default_capacity || 16;
+
+  return {
+    game_date: formatGameDate(schedule.game_date),
+    open_spots: String(Math.max(0, capacity - (inCount || 0))),
+  };
+}
+
+/** Primary admin's email, used as reply-to on custom emails */
+export async function getPrimaryAdminEmail(
+  supabase: SupabaseClient,
+  eventId: string
+): Promise<string | null> {
+  const { data: eventAdmins } = await supabase
+    .from("event_admins")
+    .select("role, profile:profiles(email)")
+    .eq("event_id", eventId);
+
+  const primaryAdmin = eventAdmins?.find(
+    (a: Record<string, unknown>) => a.role === "primary"
+  );
+  return (primaryAdmin?.profile as unknown as { email: string } | null)?.email || null;
+}
+
+export interface CustomEmailInput {
+  eventId: string;
+  scheduleId: string;
+  target: EmailTarget;
+  subject: string;
+  body: string;
+  /** Admin credited in email_log.sent_by */
+  sentBy: string | null;
+}
+
+/**
+ * Send a custom email to a game's golfers in the target audience.
+ * Each golfer gets their own {{first_name}} / {{rsvp_link}} values.
+ * Logs one email_log row ('custom') for the send.
+ */
+export async function sendCustomEmailToSchedule(
+  supabase: SupabaseClient,
+  input: CustomEmailInput
+): Promise<{ success: true; recipientCount: number } | { error: string }> {
+  const { eventId, scheduleId, target, subject, body } = input;
+  const siteUrl = getSiteUrl();
+
+  const statusFilter = EMAIL_TARGET_STATUSES[target];
+  if (!statusFilter) return { error: "Invalid target audience" };
+
+  const { data: event } = await supabase
+    .from("events")
+    .select("id, name")
+    .eq("id", eventId)
+    .single();
+
+  if (!event) return { error: "Event not found" };
+
+  // Get the schedule for game date
+  const { data: schedule } = await supabase
+    .from("event_schedules")
+    .select("id, game_date")
+    .eq("id", scheduleId)
+    .single();
+
+  const formattedDate = schedule ? formatGameDate(schedule.game_date) : null;
+
+  // Template variables shared by every recipient
+  const sharedValues: TemplateValues = {
+    ...(await loadGameTemplateValues(supabase, scheduleId)),
+    event_name: event.name,
+  };
+
+  const replyTo = await getPrimaryAdminEmail(supabase, eventId);
+
+  // Recipients include token for RSVP links
+  const { data: rsvps } = await supabase
+    .from("rsvps")
+    .select("token, status, profile:profiles(email, first_name)")
+    .eq("schedule_id", scheduleId)
+    .in("status", statusFilter);
+
+  if (!rsvps || rsvps.length === 0) {
+    return { error: "No recipients found for this target audience" };
+  }
+
+  const validRsvps = rsvps.filter((r: Record<string, unknown>) => {
+    const p = r.profile as { email: string; first_name: string } | null;
+    return !!p?.email;
+  });
+
+  if (validRsvps.length === 0) {
+    return { error: "No valid email addresses found" };
+  }
+
+  // Send individually so each golfer gets their personalized RSVP link
+  let sentCount = 0;
+  for (const rsvp of validRsvps) {
+    const rsvpProfile = rsvp.profile as unknown as {
+      email: string;
+      first_name: string;
+    };
+    const token = rsvp.token as string;
+    const rsvpUrl = `${siteUrl}/rsvp/${token}`;
+
+    const values: TemplateValues = {
+      ...sharedValues,
+      first_name: rsvpProfile.first_name || "",
+      rsvp_link: rsvpUrl,
+    };
+    const bHtml = bodyToHtml(renderTemplate(body, values));
+
+    const emailHtml = buildCustomEmailHtml(
+      event.name,
+      bHtml,
+      rsvpUrl,
+      "View RSVP &amp; Respond",
+      siteUrl,
+      formattedDate || undefined
+    );
+
+    const result = await sendEmail({
+      to: rsvpProfile.email,
+      replyTo: replyTo || undefined,
+      subject: renderTemplate(subject, values),
+      html: emailHtml,
+      tracking: { emailType: "custom", eventId, scheduleId },
+    });
+    if (result.success) sentCount++;
+    await rateLimitDelay();
+  }
+
+  // Log to email_log
+  await supabase.from("email_log").insert({
+    event_id: eventId,
+    schedule_id: scheduleId,
+    email_type: "custom",
+    subject: renderTemplate(subject, sharedValues),
+    recipient_count: sentCount,
+    sent_by: input.sentBy,
+  });
+
+  return { success: true, recipientCount: sentCount };
+}
@@ -0,0 +1,202 @@
+/**
+ * Unit tests for Resend webhook signature verification and applying
+ * webhook events to golfer profiles.
+ *
+ * Run with: npx tsx --test src/lib/email-delivery.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { verifyResendSignature, applyResendEvent } from './email-delivery';
+
+const KEY = Buffer.from('test-signing-key-0123456789');
+const SECRET = `whsec_${KEY.toString('base64')}`;
+const NOW_MS = 1_760_000_000_000;
+const TIMESTAMP = String(NOW_MS / 1000);
+const PAYLOAD = JSON.stringify({ type: 'email.delivered', data: { email_id: 'abc' } });
+
+function sign(id: string, timestamp: string, payload: string, key: Buffer = KEY) {
+  return createHmac('sha256', key).update(`${id}.${timestamp}.${payload}`).digest('base64');
+}
+
+function headers(signature: string, overrides: Partial<{ id: string | null; timestamp: string | null }> = {}) {
+  return { id: 'msg_1', timestamp: TIMESTAMP, signature, ...overrides };
+}
+
+describe('verifyResendSignature', () => {
+  it('accepts a valid v1 signature', () => {
+    const sig = sign('msg_1', TIMESTAMP, PAYLOAD);
+    assert.equal(verifyResendSignature(PAYLOAD, headers(`v1,${sig}`), SECRET, NOW_MS), true);
+  });
+
+  it('accepts when any of several space-separated signatures matches', () => {
+    const sig = sign('msg_1', TIMESTAMP, PAYLOAD);
+    const header = `v1,${sign('msg_1', TIMESTAMP, PAYLOAD, Buffer.from('old-key'))} v1,${sig}`;
+    assert.equal(verifyResendSignature(PAYLOAD, headers(header), SECRET, NOW_MS), true);
+  });
+
+  it('rejects a tampered body', () => {
+    const sig = sign('msg_1', TIMESTAMP, PAYLOAD);
+    const tampered = PAYLOAD.replace('delivered', 'bounced');
+    assert.equal(verifyResendSignature(tampered, headers(`v1,${sig}`), SECRET, NOW_MS), false);
+  });
+
+  it('rejects a signature made with a different secret', () => {
+    const sig = sign('msg_1', TIMESTAMP, PAYLOAD, Buffer.from('someone-else'));
+    assert.equal(verifyResendSignature(PAYLOAD, headers(`v1,${sig}`), SECRET, NOW_MS), false);
+  });
+
+  it('rejects timestamps outside the 5-minute tolerance', () => {
+    const old = String(NOW_MS / 1000 - 301);
+    const sig = sign('msg_1', old, PAYLOAD);
+    assert.equal(
+      verifyResendSignature(PAYLOAD, headers(`v1,${sig}`, { timestamp: old }), SECRET, NOW_MS),
+      false
+    );
+  });
+
+  it('rejects missing headers and unknown signature versions', () => {
+    const sig = sign('msg_1', TIMESTAMP, PAYLOAD);
+    assert.equal(verifyResendSignature(PAYLOAD, headers(`v1,${sig}`, { id: null }), SECRET, NOW_MS), false);
+    assert.equal(verifyResendSignature(PAYLOAD, headers(`v2,${sig}`), SECRET, NOW_MS), false);
+    assert.equal(verifyResendSignature(PAYLOAD, headers(''), SECRET, NOW_MS), false);
+  });
+});
+
+// ============================================================
+// applyResendEvent
+// ============================================================
+
+type Row = Record<string, unknown>;
+
+/** Postgres ILIKE: % and _ are wildcards unless escaped with a backslash */
+function ilikeMatches(value: unknown, pattern: string): boolean {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '\\') source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    else if (c === '%') source += '.*';
+    else if (c === '_') source += '.';
+    else source += c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+  return typeof value === 'string' && new RegExp(`^${source}$`, 'i').test(value);
+}
+
+/** In-memory stand-in for the select/update chains applyResendEvent uses */
+function fakeSupabase(tables: Record<string, Row[]>): SupabaseClient {
+  return {
+    from(table: string) {
+      const filters: ((row: Row) => boolean)[] = [];
+      let changes: Row | null = null;
+      const query = {
+        select: () => query,
+        update: (values: Row) => ((changes = values), query),
+        eq: (col: string, value: unknown) => (filters.push((r) => r[col] === value), query),
+        ilike: (col: string, pattern: string) => (filters.push((r) => ilikeMatches(r[col], pattern)), query),
+        not: (col: string, _op: string, value: unknown) => (filters.push((r) => r[col] !== value), query),
+        then(resolve: (result: { data: Row[]; error: null }) => void) {
+          const matched = (tables[table] || []).filter((r) => filters.every((f) => f(r)));
+          if (changes) matched.forEach((r) => Object.assign(r, changes));
+          resolve({ data: matched, error: null });
+        },
+      };
+      return query;
+    },
+  } as unknown as SupabaseClient;
+}
+
+describe('applyResendEvent — golfer bounce flags', () => {
+  const bounced = {
+    type: 'email.bounced',
+    created_at: '2026-10-01T12:00:00Z',
+    data: { email_id: 'e1', bounce: { type: 'Permanent', message: 'Mailbox does not exist' } },
+  };
+
+  it('flags a hard bounce on a profile whose email differs only in case', async () => {
+    const profile: Row = { id: 'p1', email: 'John.Smith@Example.com', email_bounced_at: null };
+    const supabase = fakeSupabase({
+      email_deliveries: [{ id: 'd1', resend_id: 'e1', recipient: 'john.smith@example.com', status: 'sent' }],
+      profiles: [profile],
+    });
+
+    await applyResendEvent(supabase, bounced);
+
+    assert.equal(profile.email_bounced_at, '2026-10-01T12:00:00Z');
+    assert.equal(profile.email_bounce_reason, 'Mailbox does not exist');
+  });
+
+  it('treats underscores in the address literally', async () => {
+    const other: Row = { id: 'p2', email: 'johnxsmith@example.com', email_bounced_at: null };
+    const supabase = fakeSupabase({
+      email_deliveries: [{ id: 'd1', resend_id: 'e1', recipient: 'john_smith@example.com', status: 'sent' }],
+      profiles: [other],
+    });
+
+    await applyResendEvent(supabase, bounced);
+
+    assert.equal(other.email_bounced_at, null);
+  });
+
+  it('clears the flag when mail is delivered again, whatever the case', async () => {
+    const profile: Row = { id: 'p1', email: 'John.Smith@Example.com', email_bounced_at: '2026-09-01T00:00:00Z', email_bounce_reason: 'old' };
+    const supabase = fakeSupabase({
+      email_deliveries: [{ id: 'd1', resend_id: 'e2', recipient: 'john.smith@example.com', status: 'sent' }],
+      profiles: [profile],
+    });
+
+    await applyResendEvent(supabase, { type: 'email.delivered', data: { email_id: 'e2' } });
+
+    assert.equal(profile.email_bounced_at, null);
+    assert.equal(profile.email_bounce_reason, null);
+  });
+});
+
+describe('applyResendEvent — multi-recipient sends', () => {
+  function send() {
+    return [
+      { id: 'd1', resend_id: 'e1', recipient: 'ann@example.com', status: 'delivered' },
+      { id: 'd2', resend_id: 'e1', recipient: 'bob@example.com', status: 'delivered' },
+    ];
+  }
+
+  it('marks only the recipient the bounce message names', async () => {
+    const deliveries = send();
+    const bob: Row = { id: 'p2', email: 'bob@example.com', email_bounced_at: null };
+    const supabase = fakeSupabase({ email_deliveries: deliveries, profiles: [bob] });
+
+    const updated = await applyResendEvent(supabase, {
+      type: 'email.bounced',
+      data: { email_id: 'e1', bounce: { type: 'Permanent', message: '550 bob@example.com: no such user' } },
+    });
+
+    assert.equal(updated, 1);
+    assert.equal(deliveries[0].status, 'delivered');
+    assert.equal(deliveries[1].status, 'bounced');
+    assert.notEqual(bob.email_bounced_at, null);
+  });
+
+  it('leaves every row alone when the bounce names no recipient', async () => {
+    const deliveries = send();
+    const supabase = fakeSupabase({ email_deliveries: deliveries, profiles: [] });
+
+    const updated = await applyResendEvent(supabase, {
+      type: 'email.bounced',
+      data: { email_id: 'e1', bounce: { type: 'Permanent', message: 'Mailbox unavailable' } },
+    });
+
+    assert.equal(updated, 0);
+    assert.deepEqual(deliveries.map((d) => d.status), ['delivered', 'delivered']);
+  });
+
+  it('leaves every row alone for an unattributed complaint', async () => {
+    const deliveries = send();
+    const supabase = fakeSupabase({ email_deliveries: deliveries, profiles: [] });
+
+    await applyResendEvent(supabase, { type: 'email.complained', data: { email_id: 'e1' } });
+
+    assert.deepEqual(deliveries.map((d) => d.status), ['delivered', 'delivered']);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Per-Recipient Email Delivery Tracking
+ *
+ * sendEmail() records one email_deliveries row per recipient (migration 041).
+ * Resend then posts delivery events to /api/webhooks/resend, which verifies
+ * the signature and moves each row forward:
+ *   sent → delivery_delayed → delivered → opened, or bounced / complained.
+ * A hard ("Permanent") bounce flags the golfer's profile so admins can see
+ * the address is bad; a later successful delivery clears the flag.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { likeLiteral } from "./format";
+
+export type EmailDeliveryStatus =
+  | "sent"
+  | "failed"
+  | "delivery_delayed"
+  | "delivered"
+  | "opened"
+  | "bounced"
+  | "complained";
+
+/** Optional context stored with each delivery row */
+export interface EmailTracking {
+  /** Same values as email_log.email_type */
+  emailType?: string;
+  eventId?: string | null;
+  scheduleId?: string | null;
+}
+
+export const DELIVERY_STATUS_LABELS: Record<EmailDeliveryStatus, string> = {
+  sent: "Sent",
+  failed: "Failed",
+  delivery_delayed: "Delayed",
+  delivered: "Delivered",
+  opened: "Opened",
+  bounced: "Bounced",
+  complained: "Spam Report",
+};
+
+export const DELIVERY_STATUS_COLORS: Record<EmailDeliveryStatus, string> = {
+  sent: "bg-gray-100 text-gray-600",
+  failed: "bg-red-100 text-red-700",
+  delivery_delayed: "bg-amber-100 text-amber-700",
+  delivered: "bg-teal-100 text-teal-700",
+  opened: "bg-teal-100 text-teal-800",
+  bounced: "bg-red-100 text-red-700",
+  complained: "bg-red-100 text-red-700",
+};
+
+/** Later statuses win; webhook events can arrive out of order */
+const STATUS_RANK: Record<EmailDeliveryStatus, number> = {
+  failed: 0,
+  sent: 1,
+  delivery_delayed: 2,
+  delivered: 3,
+  opened: 4,
+  bounced: 5,
+  complained: 6,
+};
+
+/** Resend webhook event type → delivery status and timestamp column */
+const RESEND_EVENTS: Record<string, { status: EmailDeliveryStatus; timestampColumn?: string }> = {
+  "email.delivery_delayed": { status: "delivery_delayed" },
+  "email.delivered": { status: "delivered", timestampColumn: "delivered_at" },
+  "email.opened": { status: "opened", timestampColumn: "opened_at" },
+  "email.bounced": { status: "bounced", timestampColumn: "bounced_at" },
+  "email.complained": { status: "complained", timestampColumn: "complained_at" },
+};
+
+/** Webhook payload fields we use (Resend sends more) */
+export interface ResendWebhookEvent {
+  type: string;
+  created_at?: string;
+  data: {
+    email_id: string;
+    to?: string[];
+    subject?: string;
+    bounce?: { type?: string; subType?: string; message?: string };
+  };
+}
+
+/** Resend webhooks are signed Svix-style; reject anything older than this */
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Verify a Resend webhook signature (Svix scheme).
+ * Signed content is "{svix-id}.{svix-timestamp}.{raw body}", HMAC-SHA256
+ * with the base64 secret after the "whsec_" prefix. The svix-signature
+ * header holds one or more space-separated "v1,{base64}" signatures.
+ */
+export function verifyResendSignature(
+  payload: string,
+  headers: { id: string | null; timestamp: string | null; signature: string | null },
+  secret: string,
+  nowMs: number = Date.now()
+): boolean {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature || !secret) return false;
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(nowMs / 1000 - sentAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const key = Buffer.from(secret.startsWith("whsec_") ? secret.slice(6) : secret, "base64");
+  const expected = Buffer.from(
+    createHmac("sha256", key).update(`${id}.${timestamp}.${payload}`).digest("base64")
+  );
+
+  return signature.split(" ").some((part) => {
+    const [version, value] = part.split(",");
+    if (version !== "v1" || !value) return false;
+    const candidate = Buffer.from(value);
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  });
+}
+
+/**
+ * Record one delivery row per recipient of a send. Non-fatal: a logging
+ * failure never blocks the email itself.
+ */
+export async function recordEmailDeliveries(
+  supabase: SupabaseClient,
+  params: {
+    recipients: string[];
+    subject: string;
+    resendId: string | null;
+    errorMessage?: string | null;
+    tracking?: EmailTracking;
+  }
+): Promise<void> {
+  const rows = params.recipients.map((recipient) => ({
+    resend_id: params.resendId,
+    recipient: recipient.trim().toLowerCase(),
+    subject: params.subject,
+    email_type: params.tracking?.emailType ?? null,
+    event_id: params.tracking?.eventId ?? null,
+    schedule_id: params.tracking?.scheduleId ?? null,
+    status: params.resendId ? "sent" : "failed",
+    error_message: params.errorMessage ?? null,
+  }));
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from("email_deliveries").insert(rows);
+  if (error) {
+    console.error("Failed to record email deliveries (non-fatal):", error);
+  }
+}
+
+/**
+ * Apply a verified Resend webhook event to the matching delivery rows.
+ * Returns the number of rows updated (0 for event types we don't track).
+ */
+export async function applyResendEvent(
+  supabase: SupabaseClient,
+  event: ResendWebhookEvent
+): Promise<number> {
+  const mapping = RESEND_EVENTS[event.type];
+  if (!mapping || !event.data?.email_id) return 0;
+
+  const { data: rows, error } = await supabase
+    .from("email_deliveries")
+    .select("id, recipient, status")
+    .eq("resend_id", event.data.email_id);
+
+  if (error) throw error;
+  if (!rows || rows.length === 0) return 0;
+
+  const occurredAt = event.created_at || new Date().toISOString();
+  const bounce = event.data.bounce;
+
+  // Bounces/complaints on a multi-recipient send only apply to the
+  // address named in the bounce message. When none is named we can't tell
+  // whose it was, so every recipient's row is left alone.
+  let targets = rows;
+  if ((mapping.status === "bounced" || mapping.status === "complained") && rows.length > 1) {
+    const message = (bounce?.message || "").toLowerCase();
+    targets = rows.filter((r) => message.includes(r.recipient));
+    if (targets.length === 0) {
+      console.warn(`Resend ${event.type} for ${event.data.email_id} names no recipient; left unapplied`);
+    }
+  }
+
+  let updated = 0;
+  for (const row of targets) {
+    const current = row.status as EmailDeliveryStatus;
+    const update: Record<string, unknown> = {};
+    if (STATUS_RANK[mapping.status] > STATUS_RANK[current]) {
+      update.status = mapping.status;
+    }
+    if (mapping.timestampColumn) update[mapping.timestampColumn] = occurredAt;
+    if (mapping.status === "bounced") {
+      update.bounce_type = bounce?.type || null;
+      update.error_message = bounce?.message || null;
+    }
+    if (Object.keys(update).length === 0) continue;
+
+    const { error: updateError } = await supabase
+      .from("email_deliveries")
+      .update(update)
+      .eq("id", row.id);
+    if (updateError) throw updateError;
+    updated++;
+  }
+
+  // Hard bounce → flag the golfer. targets only holds addresses we know bounced.
+  const isHardBounce = mapping.status === "bounced" && bounce?.type === "Permanent";
+  if (isHardBounce) {
+    for (const row of targets) {
+      await supabase
+        .from("profiles")
+        .update({
+          email_bounced_at: occurredAt,
+          email_bounce_reason: bounce?.message || bounce?.subType || "Hard bounce",
+        })
+        .ilike("email", likeLiteral(row.recipient));
+    }
+  }
+
+  // Delivered again → the address works; clear any earlier flag
+  if (mapping.status === "delivered") {
+    for (const row of targets) {
+      await supabase
+        .from("profiles")
+        .update({ email_bounced_at: null, email_bounce_reason: null })
+        .ilike("email", likeLiteral(row.recipient))
+        .not("email_bounced_at", "is", null);
+    }
+  }
+
+  return updated;
+}
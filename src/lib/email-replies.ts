@@ -0,0 +1,160 @@
+/**
+ * Reply-by-Email RSVP
+ *
+ * Invite and reminder emails set Reply-To to a plus-addressed inbound
+ * address carrying the golfer's RSVP token:
+ *   rsvp+3f2504e04f8941d39a0c0305e82c3301@reply.example.com
+ * (INBOUND_REPLY_ADDRESS = "rsvp@reply.example.com"). The inbound-mail
+ * webhook hands each reply to handleInboundEmailReply(), which finds the
+ * RSVP from the address, reads in / out / maybe from the reply text and
+ * applies it through the same path as the /api/rsvp links. The golfer gets
+ * an auto-confirmation; anything we can't act on is forwarded to the
+ * event's primary admin with the golfer as Reply-To.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  sendEmail,
+  generateReplyRsvpConfirmationEmail,
+  generateForwardedReplyEmail,
+} from "./email";
+import { formatGameDate, formatFullName, getSiteUrl } from "./format";
+import { getPrimaryAdminEmail } from "./custom-email";
+import {
+  loadRsvpByToken,
+  getRsvpLockReason,
+  applyGolferRsvpResponse,
+  type RsvpForResponse,
+} from "./rsvp-response";
+import {
+  getRsvpReplyAddress,
+  extractRsvpToken,
+  stripQuotedReply,
+  parseReplyIntent,
+  isAutoReply,
+  parseAddress,
+  type InboundEmail,
+} from "./email-reply-parser";
+
+/** rsvp_history.change_reason for RSVPs changed by email reply */
+export const EMAIL_REPLY_REASON = "email_reply";
+
+export type InboundReplyOutcome =
+  | { outcome: "applied"; status: string }
+  | { outcome: "forwarded"; reason: string }
+  | { outcome: "ignored"; reason: string };
+
+// ============================================================
+// Handling
+// ============================================================
+
+async function forwardToPrimaryAdmin(
+  supabase: SupabaseClient,
+  rsvp: RsvpForResponse,
+  golfer: { first_name: string; last_name: string; email: string },
+  email: InboundEmail,
+  reason: string
+): Promise<InboundReplyOutcome> {
+  const schedule = rsvp.schedule!;
+  const event = schedule.event!;
+  const adminEmail = await getPrimaryAdminEmail(supabase, event.id);
+
+  if (!adminEmail) {
+    console.error(`Email reply: no primary admin for event ${event.id}; dropping reply (${reason})`);
+    return { outcome: "ignored", reason: `No primary admin to forward to (${reason})` };
+  }
+
+  const golferName = formatFullName(golfer.first_name, golfer.last_name);
+  await sendEmail({
+    to: adminEmail,
+    replyTo: parseAddress(email.from),
+    subject: `${event.name}: RSVP reply from ${golferName}`,
+    html: generateForwardedReplyEmail({
+      golferName,
+      golferEmail: parseAddress(email.from),
+      eventName: event.name,
+      gameDate: schedule.game_date,
+      reason,
+      subject: email.subject,
+      replyText: stripQuotedReply(email.text) || email.text.trim(),
+      scheduleId: schedule.id,
+      siteUrl: getSiteUrl(),
+    }),
+    tracking: { emailType: "rsvp_reply_forward", eventId: event.id, scheduleId: schedule.id },
+  });
+
+  return { outcome: "forwarded", reason };
+}
+
+/**
+ * Handle one inbound reply. Never throws for bad input — returns what
+ * happened so the webhook can log it.
+ */
+export async function handleInboundEmailReply(
+  supabase: SupabaseClient,
+  email: InboundEmail
+): Promise<InboundReplyOutcome> {
+  if (isAutoReply(email)) {
+    return { outcome: "ignored", reason: "Auto-reply" };
+  }
+
+  const token = extractRsvpToken(email.recipients);
+  if (!token) return { outcome: "ignored", reason: "No RSVP address" };
+
+  const rsvp = await loadRsvpByToken(supabase, token);
+  if (!rsvp?.schedule?.event) return { outcome: "ignored", reason: "Unknown RSVP" };
+
+  const { data: golfer } = await supabase
+    .from("profiles")
+    .select("first_name, last_name, email")
+    .eq("id", rsvp.profile_id)
+    .single();
+
+  if (!golfer) return { outcome: "ignored", reason: "Golfer not found" };
+
+  // Only the golfer's own address can change their RSVP
+  if (parseAddress(email.from) !== golfer.email.toLowerCase()) {
+    return forwardToPrimaryAdmin(supabase, rsvp, golfer, email, "Sent from a different email address than the golfer's");
+  }
+
+  const lockReason = getRsvpLockReason(rsvp);
+  if (lockReason) {
+    return forwardToPrimaryAdmin(
+      supabase,
+      rsvp,
+      golfer,
+      email,
+      lockReason === "cancelled" ? "This game is cancelled" : "The RSVP deadline has passed"
+    );
+  }
+
+  const intent = parseReplyIntent(email.text);
+  if (!intent) {
+    return forwardToPrimaryAdmin(supabase, rsvp, golfer, email, "We couldn't tell if they're in or out");
+  }
+
+  const { newStatus } = await applyGolferRsvpResponse(supabase, rsvp, intent, {
+    changeReason: EMAIL_REPLY_REASON,
+  });
+
+  const schedule = rsvp.schedule;
+  const event = schedule.event!;
+  const confirmedStatus = newStatus === "waitlisted" ? "waitlisted" : intent;
+
+  await sendEmail({
+    to: golfer.email,
+    replyTo: getRsvpReplyAddress(rsvp.token),
+    subject: `${event.name}: ${formatGameDate(schedule.game_date)} — RSVP Received`,
+    html: generateReplyRsvpConfirmationEmail({
+      golferName: golfer.first_name,
+      eventName: event.name,
+      gameDate: schedule.game_date,
+      status: confirmedStatus,
+      rsvpToken: rsvp.token,
+      siteUrl: getSiteUrl(),
+    }),
+    tracking: { emailType: "rsvp_reply_confirmation", eventId: event.id, scheduleId: schedule.id },
+  });
+
+  return { outcome: "applied", status: newStatus };
+}
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for reply-by-email parsing: reply addresses, quoted-text
+ * stripping, intent detection and auto-reply filtering.
+ *
+ * Run with: npx tsx --test src/lib/email-reply-parser.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getRsvpReplyAddress,
+  extractRsvpToken,
+  stripQuotedReply,
+  parseReplyIntent,
+  isAutoReply,
+  parseAddress,
+} from './email-reply-parser';
+
+describe('reply addresses', () => {
+  const token = '3f2504e0-4f89-41d3-9a0c-0305e82c3301';
+  let saved: string | undefined;
+
+  before(() => {
+    saved = process.env.INBOUND_REPLY_ADDRESS;
+    process.env.INBOUND_REPLY_ADDRESS = 'rsvp@reply.example.com';
+  });
+
+  after(() => {
+    if (saved === undefined) delete process.env.INBOUND_REPLY_ADDRESS;
+    else process.env.INBOUND_REPLY_ADDRESS = saved;
+  });
+
+  it('plus-addresses the token as lowercase hex', () => {
+    assert.equal(
+      getRsvpReplyAddress(token),
+      'rsvp+3f2504e04f8941d39a0c0305e82c3301@reply.example.com'
+    );
+  });
+
+  it('round-trips the token, even if the address was uppercased', () => {
+    const address = getRsvpReplyAddress(token)!;
+    assert.equal(extractRsvpToken(['someone@else.com', address.toUpperCase()]), token);
+  });
+
+  it('returns undefined when inbound replies are not configured', () => {
+    delete process.env.INBOUND_REPLY_ADDRESS;
+    assert.equal(getRsvpReplyAddress(token), undefined);
+    process.env.INBOUND_REPLY_ADDRESS = 'rsvp@reply.example.com';
+  });
+
+  it('finds no token in ordinary addresses', () => {
+    assert.equal(extractRsvpToken(['rsvp@reply.example.com', 'jim+golf@example.com']), null);
+  });
+});
+
+describe('stripQuotedReply', () => {
+  it('keeps only the text above the quoted original', () => {
+    const text = "I'm in\n\nOn Mon, Mar 2, 2026 at 9:00 AM FRCC Golf Games wrote:\n> Are you in?";
+    assert.equal(stripQuotedReply(text), "I'm in");
+  });
+
+  it('stops at mobile signatures and forwarded headers', () => {
+    assert.equal(stripQuotedReply('Out this week\nSent from my iPhone'), 'Out this week');
+    assert.equal(stripQuotedReply('yes\r\n-----Original Message-----\r\nFrom: x'), 'yes');
+  });
+});
+
+describe('parseReplyIntent', () => {
+  it('reads one-word replies', () => {
+    assert.equal(parseReplyIntent('In'), 'in');
+    assert.equal(parseReplyIntent('Yes!'), 'in');
+    assert.equal(parseReplyIntent('nope'), 'out');
+    assert.equal(parseReplyIntent('Maybe.'), 'not_sure');
+  });
+
+  it('reads common phrasings', () => {
+    assert.equal(parseReplyIntent("I’m in, thanks"), 'in');
+    assert.equal(parseReplyIntent('Count me in for Saturday'), 'in');
+    assert.equal(parseReplyIntent("Sorry, I can't make it this week"), 'out');
+    assert.equal(parseReplyIntent("I'll be out of town"), 'out');
+    assert.equal(parseReplyIntent('Not sure yet, will let you know'), 'not_sure');
+  });
+
+  it('ignores the quoted invite text', () => {
+    assert.equal(parseReplyIntent('count me out\n\n> Reply in, out or maybe'), 'out');
+  });
+
+  it('returns null for mixed or missing signals', () => {
+    assert.equal(parseReplyIntent("I'm in but might be late"), null);
+    assert.equal(parseReplyIntent('What time is the shotgun?'), null);
+    assert.equal(parseReplyIntent(''), null);
+  });
+});
+
+describe('isAutoReply', () => {
+  it('detects auto-responder headers', () => {
+    assert.equal(
+      isAutoReply({ subject: 'Re: Invite', headers: [{ name: 'Auto-Submitted', value: 'auto-replied' }] }),
+      true
+    );
+    assert.equal(
+      isAutoReply({ subject: 'Re: Invite', headers: [{ name: 'Auto-Submitted', value: 'no' }] }),
+      false
+    );
+  });
+
+  it('detects out-of-office subjects', () => {
+    assert.equal(isAutoReply({ subject: 'Automatic reply: Saturday Group', headers: [] }), true);
+    assert.equal(isAutoReply({ subject: 'Out of Office', headers: [] }), true);
+    assert.equal(isAutoReply({ subject: 'Re: Saturday Group', headers: [] }), false);
+  });
+});
+
+describe('parseAddress', () => {
+  it('extracts and lowercases the bare address', () => {
+    assert.equal(parseAddress('Jim Smith <Jim.Smith@Example.com>'), 'jim.smith@example.com');
+    assert.equal(parseAddress(' jim@example.com '), 'jim@example.com');
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Reply-by-Email Parsing
+ *
+ * Pure helpers for reply-by-email RSVPs (see email-replies.ts): the
+ * plus-addressed reply address, reading in / out / maybe from a reply and
+ * spotting auto-responders. No database or mail access, so it's unit tested
+ * directly.
+ */
+
+export type ReplyIntent = "in" | "out" | "not_sure";
+
+/** Normalized inbound message (the webhook maps the provider payload) */
+export interface InboundEmail {
+  from: string;
+  /** Every To / Cc / original-recipient address */
+  recipients: string[];
+  subject: string;
+  /** Plain-text body, quoted history included */
+  text: string;
+  headers: { name: string; value: string }[];
+}
+
+// ============================================================
+// Reply address
+// ============================================================
+
+/**
+ * Plus-addressed Reply-To for a golfer's RSVP, or undefined when inbound
+ * replies aren't configured. Uses the token as 32 hex chars — some mail
+ * systems lowercase addresses, so no case-sensitive encoding.
+ */
+export function getRsvpReplyAddress(rsvpToken: string): string | undefined {
+  const base = process.env.INBOUND_REPLY_ADDRESS;
+  if (!base || !base.includes("@")) return undefined;
+  const [local, domain] = base.split("@");
+  return `${local}+${rsvpToken.replace(/-/g, "").toLowerCase()}@${domain}`;
+}
+
+/** Find the RSVP token in any plus-addressed recipient */
+export function extractRsvpToken(recipients: string[]): string | null {
+  for (const address of recipients) {
+    const match = address.toLowerCase().match(/\+([0-9a-f]{32})@/);
+    if (match) {
+      const hex = match[1];
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    }
+  }
+  return null;
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+/** Lines where the quoted original message starts */
+const QUOTE_MARKERS = [
+  /^>/,
+  /^on .+wrote:?$/i,
+  /^-{2,}\s*original message\s*-{2,}/i,
+  /^from:\s/i,
+  /^sent from my /i,
+  /^get outlook for /i,
+  /^_{5,}/,
+];
+
+/** The golfer's own words: everything above the quoted original */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const kept: string[] = [];
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (QUOTE_MARKERS.some((re) => re.test(trimmed))) break;
+    kept.push(line);
+  }
+  return kept.join("\n").trim();
+}
+
+const IN_PATTERNS = [
+  /^(yes|yep|yeah|yup)\b/,
+  /\b(i'?m|i am|im|count me|put me|sign me up|we'?re) in\b/,
+  /\bi'?ll be there\b/,
+  /\b(i'?ll|i will|i can) (play|make it)\b/,
+];
+
+const OUT_PATTERNS = [
+  /^(no|nope)\b/,
+  /\b(i'?m|i am|im) out\b/,
+  /\bcount me out\b/,
+  /\b(can'?t|cannot|can not|won'?t|will not|unable to|not able to) (make it|play|come|attend|be there|join)\b/,
+  /\b(i'?ll|i will|i'?m going to|gonna) (have to )?(pass|miss|sit this one out)\b/,
+  /\bout of town\b/,
+];
+
+const MAYBE_PATTERNS = [
+  /\bnot sure\b/,
+  /\bmaybe\b/,
+  /\bmight\b/,
+  /\btentative(ly)?\b/,
+  /\bpossibly\b/,
+  /\bdon'?t know yet\b/,
+];
+
+/** Whole-reply shortcuts: "In", "yes!", "nope", "Maybe." */
+const ONE_WORD: Record<string, ReplyIntent> = {
+  in: "in",
+  yes: "in",
+  yep: "in",
+  y: "in",
+  out: "out",
+  no: "out",
+  nope: "out",
+  n: "out",
+  maybe: "not_sure",
+};
+
+/**
+ * Read the RSVP intent from a reply. Returns null when there's no clear
+ * answer — including mixed signals like "I'm in but might be late" — so a
+ * person looks at it instead of us guessing.
+ */
+export function parseReplyIntent(text: string): ReplyIntent | null {
+  const reply = stripQuotedReply(text)
+    .toLowerCase()
+    .replace(/[‘’]/g, "'");
+  if (!reply) return null;
+
+  const firstLine = reply.split("\n")[0].replace(/[^a-z' ]/g, "").trim();
+  if (ONE_WORD[firstLine]) return ONE_WORD[firstLine];
+
+  const found = new Set<ReplyIntent>();
+  if (MAYBE_PATTERNS.some((re) => re.test(reply))) found.add("not_sure");
+  if (OUT_PATTERNS.some((re) => re.test(reply))) found.add("out");
+  if (IN_PATTERNS.some((re) => re.test(reply))) found.add("in");
+
+  return found.size === 1 ? [...found][0] : null;
+}
+
+/** Out-of-office and other auto-responders must never change an RSVP */
+export function isAutoReply(email: Pick<InboundEmail, "subject" | "headers">): boolean {
+  const header = (name: string) =>
+    email.headers.find((h) => h.name.toLowerCase() === name)?.value.toLowerCase();
+
+  const autoSubmitted = header("auto-submitted");
+  if (autoSubmitted && autoSubmitted !== "no") return true;
+  if (header("x-autoreply") || header("x-autorespond")) return true;
+  const precedence = header("precedence");
+  if (precedence && ["auto_reply", "bulk", "junk", "list"].includes(precedence)) return true;
+
+  return /^(automatic reply|auto[- ]?reply|out of (the )?office|autoreply)/i.test(email.subject.trim());
+}
+
+/** Pull the bare address out of "Name <addr@x.com>" */
+export function parseAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+}
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for email template placeholder handling.
+ *
+ * Run with: npx tsx --test src/lib/email-template-library.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  extractVariables,
+  findUnknownVariables,
+  findUnfilledVariables,
+  renderTemplate,
+  validateTemplateText,
+  validateForSend,
+} from './email-template-library';
+
+describe('extractVariables', () => {
+  it('returns unique names in order, tolerating inner whitespace', () => {
+    assert.deepEqual(
+      extractVariables('{{event_name}}: {{ game_date }}', 'See you {{game_date}}, {{first_name}}'),
+      ['event_name', 'game_date', 'first_name']
+    );
+  });
+
+  it('ignores single braces and the composer [BRACKET] style', () => {
+    assert.deepEqual(extractVariables('{first_name} [FIRST_NAME] {{}}'), []);
+  });
+});
+
+describe('findUnknownVariables', () => {
+  it('accepts merge, fill-in and legacy variables', () => {
+    assert.deepEqual(
+      findUnknownVariables('{{program_name}} {{event_name}} {{open_spots}} {{rsvp_link}} {{weather_details}}'),
+      []
+    );
+  });
+
+  it('flags typos', () => {
+    assert.deepEqual(findUnknownVariables('Hi {{firstname}}, {{game_date}} {{spots}}'), ['firstname', 'spots']);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills merge variables and the legacy program_name alias', () => {
+    const text = '{{program_name}} on {{game_date}}: {{open_spots}} spots — {{rsvp_link}}';
+    assert.equal(
+      renderTemplate(text, {
+        event_name: 'Saturday Morning Group',
+        game_date: 'Saturday, March 7',
+        open_spots: '3',
+        rsvp_link: 'https://example.com/rsvp/abc',
+      }),
+      'Saturday Morning Group on Saturday, March 7: 3 spots — https://example.com/rsvp/abc'
+    );
+  });
+
+  it('leaves placeholders without a value untouched', () => {
+    assert.equal(
+      renderTemplate('Hi {{first_name}}: {{weather_details}}', { event_name: 'X' }),
+      'Hi {{first_name}}: {{weather_details}}'
+    );
+  });
+
+  it('renders an empty value as empty', () => {
+    assert.equal(renderTemplate('Hi {{first_name}}!', { first_name: '' }), 'Hi !');
+  });
+});
+
+describe('validation', () => {
+  it('allows fill-in blanks when saving a template', () => {
+    assert.equal(validateTemplateText('{{event_name}}', 'Cancelled due to {{reason}}'), null);
+  });
+
+  it('rejects unknown variables when saving', () => {
+    assert.match(validateTemplateText('{{evnt_name}}', 'body') || '', /Unknown variable: \{\{evnt_name\}\}/);
+  });
+
+  it('rejects unfilled blanks when sending', () => {
+    assert.deepEqual(findUnfilledVariables('{{reason}} {{next_game_date}}'), ['reason', 'next_game_date']);
+    assert.match(validateForSend('Subject', 'Cancelled due to {{reason}}') || '', /Replace \{\{reason\}\}/);
+  });
+
+  it('passes a message that only uses merge variables', () => {
+    assert.equal(validateForSend('{{event_name}} — {{game_date}}', 'Hi {{first_name}}, {{rsvp_link}}'), null);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Email Template Library — {{variable}} placeholders
+ *
+ * Saved templates (email_templates table) use {{variable}} placeholders.
+ * Merge variables are filled per recipient when the composer sends;
+ * fill-in variables are blanks the admin replaces by hand before sending.
+ * Anything else is a typo and is rejected on save and on send.
+ */
+
+import type { EmailTemplateCategory } from "@/types/events";
+
+export type TemplateVariable =
+  | "first_name"
+  | "event_name"
+  | "game_date"
+  | "open_spots"
+  | "rsvp_link";
+
+/** Merge variables filled automatically for each recipient */
+export const TEMPLATE_VARIABLES: { key: TemplateVariable; description: string }[] = [
+  { key: "first_name", description: "Recipient's first name" },
+  { key: "event_name", description: "Event name" },
+  { key: "game_date", description: "Selected game date" },
+  { key: "open_spots", description: "Spots still open for the game" },
+  { key: "rsvp_link", description: "Recipient's personal RSVP link" },
+];
+
+/** Blanks the admin must replace in the composer before sending */
+export const FILL_IN_VARIABLES: { key: string; description: string }[] = [
+  { key: "reason", description: "Why the game was cancelled" },
+  { key: "next_game_date", description: "Next scheduled game" },
+  { key: "weather_details", description: "Weather details" },
+  { key: "update_details", description: "Course update details" },
+];
+
+/** Old names still accepted (seeded templates predate programs -> events) */
+const VARIABLE_ALIASES: Record<string, TemplateVariable> = {
+  program_name: "event_name",
+};
+
+export const TEMPLATE_CATEGORY_LABELS: Record<EmailTemplateCategory, string> = {
+  cancellation: "Cancellation",
+  extra_spots: "Extra Spots",
+  weather: "Weather",
+  course_update: "Course Update",
+  custom: "Custom",
+};
+
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+/** Unique variable names used in the text, in order of first appearance */
+export function extractVariables(...texts: string[]): string[] {
+  const found: string[] = [];
+  for (const text of texts) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!found.includes(match[1])) found.push(match[1]);
+    }
+  }
+  return found;
+}
+
+function isMergeVariable(name: string): boolean {
+  return TEMPLATE_VARIABLES.some((v) => v.key === name) || name in VARIABLE_ALIASES;
+}
+
+function isFillInVariable(name: string): boolean {
+  return FILL_IN_VARIABLES.some((v) => v.key === name);
+}
+
+/** Variables that are neither merge nor fill-in variables (typos) */
+export function findUnknownVariables(...texts: string[]): string[] {
+  return extractVariables(...texts).filter(
+    (name) => !isMergeVariable(name) && !isFillInVariable(name)
+  );
+}
+
+/** Fill-in variables the admin hasn't replaced yet */
+export function findUnfilledVariables(...texts: string[]): string[] {
+  return extractVariables(...texts).filter(isFillInVariable);
+}
+
+function formatVariableList(names: string[]): string {
+  return names.map((n) => `{{${n}}}`).join(", ");
+}
+
+/**
+ * Check a template before saving. Returns an error message, or null if valid.
+ * Fill-in variables are allowed — they're filled in when the template is used.
+ */
+export function validateTemplateText(subject: string, body: string): string | null {
+  const unknown = findUnknownVariables(subject, body);
+  if (unknown.length > 0) {
+    return `Unknown variable${unknown.length > 1 ? "s" : ""}: ${formatVariableList(unknown)}`;
+  }
+  return null;
+}
+
+/**
+ * Check a message before sending. Returns an error message, or null if valid.
+ * Rejects unknown variables and fill-in blanks that were never replaced.
+ */
+export function validateForSend(subject: string, body: string): string | null {
+  const unknownError = validateTemplateText(subject, body);
+  if (unknownError) return unknownError;
+
+  const unfilled = findUnfilledVariables(subject, body);
+  if (unfilled.length > 0) {
+    return `Replace ${formatVariableList(unfilled)} with your own text before sending`;
+  }
+  return null;
+}
+
+/**
+ * Substitute merge variables. Placeholders without a value are left as-is
+ * so the preview shows what still needs filling in.
+ */
+export function renderTemplate(text: string, values: TemplateValues): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const key = (VARIABLE_ALIASES[name] || name) as TemplateVariable;
+    const value = values[key];
+    return value !== undefined ? value : placeholder;
+  });
+}
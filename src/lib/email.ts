@@ -1,6 +1,6 @@
 import { Resend } from "resend";
 import type { StoredGrouping, StoredGroupGolfer } from "./grouping-db";
-import { formatPhoneDisplay, formatInitialLastName, formatFullName, formatSponsorName, formatGameDate, formatGameDayName, getSiteUrl } from "./format";
+import { formatPhoneDisplay, formatInitialLastName, formatFullName, formatSponsorName, formatGameDate, formatGameDayName, formatDateTimeFull, getSiteUrl } from "./format";
 import { formatCutoffDayTime } from "./timezone";
 import { generateWeatherEmailHtml } from "./weather";
 import type { GameWeatherForecast } from "@/types/events";
@@ -10,6 +10,7 @@ const resend = new Resend(process.env.RESEND_API_KEY);
 const FROM_EMAIL = process.env.FROM_EMAIL || "happy@frccgolfgames.com";
 
 import { createAdminClient as createEmailAdminClient } from "./supabase/server";
+import { recordEmailDeliveries, type EmailTracking } from "./email-delivery";
 
 /**
  * Delay helper to stay under Resend's 2 req/s rate limit.
@@ -24,29 +25,62 @@ type SendEmailParams = {
   replyTo?: string;
   subject: string;
   html: string;
+  attachments?: EmailAttachment[];
+  /** Context stored with each per-recipient delivery row */
+  tracking?: EmailTracking;
 };
 
-export async function sendEmail({ to, cc, replyTo, subject, html }: SendEmailParams) {
+export type EmailAttachment = {
+  filename: string;
+  content: string;
+  contentType?: string;
+};
+
+export async function sendEmail({ to, cc, replyTo, subject, html, attachments, tracking }: SendEmailParams) {
+  const toList = Array.isArray(to) ? to : [to];
+  const ccList = cc ? (Array.isArray(cc) ? cc : [cc]) : [];
+  let result: { success: boolean; data?: { id: string } | null; error?: unknown };
+
   try {
     const { data, error } = await resend.emails.send({
       from: `FRCC Golf Games <${FROM_EMAIL}>`,
-      to: Array.isArray(to) ? to : [to],
-      cc: cc ? (Array.isArray(cc) ? cc : [cc]) : undefined,
+      to: toList,
+      cc: ccList.length > 0 ? ccList : undefined,
       replyTo: replyTo || undefined,
       subject,
       html,
+      attachments: attachments?.length ? attachments : undefined,
     });
 
     if (error) {
       console.error("Resend error:", error);
-      return { success: false, error };
+      result = { success: false, error };
+    } else {
+      result = { success: true, data };
     }
-
-    return { success: true, data };
   } catch (err) {
     console.error("Email send error:", err);
-    return { success: false, error: err };
+    result = { success: false, error: err };
   }
+
+  // Per-recipient delivery log (updated later by the Resend webhook)
+  try {
+    await recordEmailDeliveries(createEmailAdminClient(), {
+      recipients: [...toList, ...ccList],
+      subject,
+      resendId: result.data?.id ?? null,
+      errorMessage: result.success
+        ? null
+        : result.error instanceof Error
+          ? result.error.message
+          : (result.error as { message?: string } | undefined)?.message || "Send failed",
+      tracking,
+    });
+  } catch (err) {
+    console.error("Email delivery log error (non-fatal):", err);
+  }
+
+  return result;
 }
 
 /** Shared email header with FRCC branding */
@@ -71,6 +105,7 @@ export function generateInviteEmail({
   cutoffDay,
   cutoffTime,
   weather,
+  acceptsReplies,
 }: {
   golferName: string;
   eventName: string;
@@ -81,6 +116,8 @@ export function generateInviteEmail({
   cutoffDay?: number;
   cutoffTime?: string;
   weather?: GameWeatherForecast | null;
+  /** Reply-To is the golfer's RSVP reply address (see lib/email-replies.ts) */
+  acceptsReplies?: boolean;
 }) {
   const formattedDate = formatGameDate(gameDate);
   const rsvpBase = `${siteUrl}/api/rsvp?token=${rsvpToken}`;
@@ -106,6 +143,8 @@ export function generateInviteEmail({
         <a href="${rsvpBase}&action=not_sure" style="display: block; background: white; color: #a16207; text-align: center; padding: 14px; border-radius: 8px; text-decoration: none; font-weight: 600; font-size: 16px; border: 2px solid #fcd34d;">Not Sure Yet (ask me again later)</a>
       </div>
 
+      ${acceptsReplies ? `<p style="color: #6b7280; font-size: 13px; text-align: center; margin: -8px 0 20px 0;">Or just reply to this email with &ldquo;in&rdquo;, &ldquo;out&rdquo; or &ldquo;maybe&rdquo;.</p>` : ""}
+
       ${weather ? generateWeatherEmailHtml(weather, "invite") : ""}
 
       <p style="color: #9ca3af; font-size: 12px;">Deadline: ${formatCutoffDayTime(cutoffDay, cutoffTime)}. After that, contact an event admin to change your RSVP.</p>
@@ -128,6 +167,7 @@ export function generateReminderEmail({
   cutoffDay,
   cutoffTime,
   weather,
+  acceptsReplies,
 }: {
   golferName: string;
   eventName: string;
@@ -139,6 +179,8 @@ export function generateReminderEmail({
   cutoffDay?: number;
   cutoffTime?: string;
   weather?: GameWeatherForecast | null;
+  /** Reply-To is the golfer's RSVP reply address (see lib/email-replies.ts) */
+  acceptsReplies?: boolean;
 }) {
   const formattedDate = formatGameDate(gameDate);
   const rsvpBase = `${siteUrl}/api/rsvp?token=${rsvpToken}`;
@@ -164,6 +206,8 @@ export function generateReminderEmail({
         <a href="${rsvpBase}&action=out" style="display: block; background: white; color: #b91c1c; text-align: center; padding: 14px; border-radius: 8px; text-decoration: none; font-weight: 600; font-size: 16px; border: 2px solid #fca5a5;">I'm Out</a>
       </div>
 
+      ${acceptsReplies ? `<p style="color: #6b7280; font-size: 13px; text-align: center; margin: -8px 0 20px 0;">Or just reply to this email with &ldquo;in&rdquo;, &ldquo;out&rdquo; or &ldquo;maybe&rdquo;.</p>` : ""}
+
       ${weather ? generateWeatherEmailHtml(weather, "reminder") : ""}
 
       <p style="color: #9ca3af; font-size: 12px;"><a href="${siteUrl}/home" style="color: #3d7676;">Go to FRCC Golf Games</a></p>
@@ -171,6 +215,190 @@ export function generateReminderEmail({
   `;
 }
 
+/**
+ * Generate the waitlist promotion email HTML.
+ * Sent when a golfer is automatically moved from the waitlist to "In".
+ */
+export function generateWaitlistPromotionEmail({
+  golferName,
+  eventName,
+  gameDate,
+  rsvpToken,
+  siteUrl,
+}: {
+  golferName: string;
+  eventName: string;
+  gameDate: string;
+  rsvpToken: string;
+  siteUrl: string;
+}) {
+  const formattedDate = formatGameDate(gameDate);
+  const rsvpBase = `${siteUrl}/api/rsvp?token=${rsvpToken}`;
+
+  return `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 0 auto; padding: 24px;">
+      ${emailHeader(eventName, formattedDate)}
+
+      <div style="background: #f0fdf4; border-left: 4px solid #10b981; padding: 16px; margin: 0 0 20px 0; border-radius: 4px;">
+        <p style="margin: 0; font-weight: 600; color: #065f46;">You're off the waitlist!</p>
+      </div>
+
+      <p style="color: #374151;">Hey ${golferName},</p>
+      <p style="color: #374151;">A spot opened up for this ${formatGameDayName(gameDate)} and you were next on the waitlist, so you've been moved to <strong>In</strong>.</p>
+      <p style="color: #374151;">If you can no longer make it, please let us know so the spot can go to the next golfer.</p>
+
+      <div style="margin: 24px 0;">
+        <a href="${siteUrl}/rsvp/${rsvpToken}" style="display: block; background: #3d7676; color: white; text-align: center; padding: 14px; border-radius: 8px; text-decoration: none; font-weight: 600; font-size: 16px; margin-bottom: 10px;">View My RSVP</a>
+        <a href="${rsvpBase}&action=out" style="display: block; background: white; color: #b91c1c; text-align: center; padding: 14px; border-radius: 8px; text-decoration: none; font-weight: 600; font-size: 16px; border: 2px solid #fca5a5;">I Can't Make It</a>
+      </div>
+
+      <p style="color: #9ca3af; font-size: 12px;"><a href="${siteUrl}/home" style="color: #3d7676;">Go to FRCC Golf Games</a></p>
+    </div>
+  `;
+}
+
+/**
+ * Generate the waitlist offer email HTML.
+ * Sent when a spot opens and is held for the next waitlisted golfer
+ * until the offer expires. Links to the offer page rather than straight to
+ * claim/decline so email link scanners can't answer the offer.
+ */
+export function generateWaitlistOfferEmail({
+  golferName,
+  eventName,
+  gameDate,
+  offerToken,
+  expiresAt,
+  siteUrl,
+}: {
+  golferName: string;
+  eventName: string;
+  gameDate: string;
+  offerToken: string;
+  expiresAt: string;
+  siteUrl: string;
+}) {
+  const formattedDate = formatGameDate(gameDate);
+
+  return `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 0 auto; padding: 24px;">
+      ${emailHeader(eventName, formattedDate)}
+
+      <div style="background: #fffbeb; border-left: 4px solid #f59e0b; padding: 16px; margin: 0 0 20px 0; border-radius: 4px;">
+        <p style="margin: 0; font-weight: 600; color: #92400e;">A spot opened up — it's yours if you want it</p>
+        <p style="margin: 4px 0 0 0; color: #92400e; font-size: 14px;">This offer expires ${formatDateTimeFull(expiresAt)}.</p>
+      </div>
+
+      <p style="color: #374151;">Hey ${golferName},</p>
+      <p style="color: #374151;">You're next on the waitlist for this ${formatGameDayName(gameDate)}. We're holding the spot for you — claim it before the offer expires or it will go to the next golfer.</p>
+
+      <div style="margin: 24px 0;">
+        <a href="${siteUrl}/waitlist-offer/${offerToken}" style="display: block; background: #3d7676; color: white; text-align: center; padding: 14px; border-radius: 8px; text-decoration: none; font-weight: 600; font-size: 16px;">Claim or Pass on This Spot</a>
+      </div>
+
+      <p style="color: #9ca3af; font-size: 12px;"><a href="${siteUrl}/home" style="color: #3d7676;">Go to FRCC Golf Games</a></p>
+    </div>
+  `;
+}
+
+/**
+ * Generate the auto-confirmation for an RSVP made by replying to an email.
+ */
+export function generateReplyRsvpConfirmationEmail({
+  golferName,
+  eventName,
+  gameDate,
+  status,
+  rsvpToken,
+  siteUrl,
+}: {
+  golferName: string;
+  eventName: string;
+  gameDate: string;
+  status: "in" | "out" | "not_sure" | "waitlisted";
+  rsvpToken: string;
+  siteUrl: string;
+}) {
+  const formattedDate = formatGameDate(gameDate);
+  const dayName = formatGameDayName(gameDate);
+  const message =
+    status === "in"
+      ? `You're <strong>In</strong> for this ${dayName}. See you on the course!`
+      : status === "waitlisted"
+        ? `This ${dayName}'s game is full, so you've been added to the <strong>waitlist</strong>. We'll let you know if a spot opens up.`
+        : status === "out"
+          ? `You're <strong>Out</strong> for this ${dayName}. Thanks for letting us know.`
+          : `We've marked you as <strong>Not Sure</strong> for this ${dayName}. We'll check back with you before the deadline.`;
+
+  return `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 0 auto; padding: 24px;">
+      ${emailHeader(eventName, formattedDate)}
+
+      <p style="color: #374151;">Hey ${golferName},</p>
+      <p style="color: #374151;">Got your reply. ${message}</p>
+      <p style="color: #374151;">Changed your mind? Reply again or use the button below before the RSVP deadline.</p>
+
+      <div style="margin: 24px 0;">
+        <a href="${siteUrl}/rsvp/${rsvpToken}" style="display: block; background: #3d7676; color: white; text-align: center; padding: 14px; border-radius: 8px; text-decoration: none; font-weight: 600; font-size: 16px;">View My RSVP</a>
+      </div>
+
+      <p style="color: #9ca3af; font-size: 12px;"><a href="${siteUrl}/home" style="color: #3d7676;">Go to FRCC Golf Games</a></p>
+    </div>
+  `;
+}
+
+/**
+ * Generate the email that forwards an RSVP reply we couldn't act on to the
+ * primary admin. Reply-To is set to the golfer so the admin can answer.
+ */
+export function generateForwardedReplyEmail({
+  golferName,
+  golferEmail,
+  eventName,
+  gameDate,
+  reason,
+  subject,
+  replyText,
+  scheduleId,
+  siteUrl,
+}: {
+  golferName: string;
+  golferEmail: string;
+  eventName: string;
+  gameDate: string;
+  reason: string;
+  subject: string;
+  replyText: string;
+  scheduleId: string;
+  siteUrl: string;
+}) {
+  // Golfer-supplied text — escape before embedding
+  const escape = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const escaped = escape(replyText);
+
+  return `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 0 auto; padding: 24px;">
+      ${emailHeader(eventName, formatGameDate(gameDate))}
+
+      <div style="background: #fffbeb; border-left: 4px solid #f59e0b; padding: 12px 16px; margin: 0 0 20px 0; border-radius: 4px;">
+        <p style="margin: 0; font-size: 14px; color: #92400e;"><strong>RSVP reply needs a look:</strong> ${reason}</p>
+      </div>
+
+      <p style="color: #374151;"><strong>${golferName}</strong> (${escape(golferEmail)}) replied to the email for this game. Their RSVP has <strong>not</strong> been changed.</p>
+
+      <p style="color: #6b7280; font-size: 13px; margin: 16px 0 4px 0;">Subject: ${escape(subject)}</p>
+      <div style="background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px 16px; white-space: pre-wrap; color: #374151; font-size: 14px;">${escaped || "(empty message)"}</div>
+
+      <p style="color: #374151; margin-top: 20px;">Reply to this email to answer ${golferName} directly, or update their RSVP from the admin RSVP page.</p>
+
+      <div style="margin: 24px 0;">
+        <a href="${siteUrl}/admin/rsvp/${scheduleId}" style="display: block; background: #3d7676; color: white; text-align: center; padding: 14px; border-radius: 8px; text-decoration: none; font-weight: 600; font-size: 16px;">Manage RSVPs</a>
+      </div>
+    </div>
+  `;
+}
+
 /**
  * Generate the golfer confirmation email HTML
  */
@@ -217,6 +445,8 @@ export function generateConfirmationEmail({
 
       <p style="color: #374151; font-size: 14px;">Reply all to this email to share tee times, game format, course conditions, or other details with the group.</p>
 
+      <p style="color: #6b7280; font-size: 13px;">Add this game to your calendar with the attached invite${siteUrl ? `, or subscribe to all your games from your <a href="${siteUrl}/profile" style="color: #3d7676;">Profile</a> page` : ""}.</p>
+
       ${siteUrl ? `<p style="color: #9ca3af; font-size: 12px;"><a href="${siteUrl}/home" style="color: #3d7676;">Go to FRCC Golf Games</a> &middot; Need to change your RSVP? Contact a event admin.</p>` : `<p style="color: #9ca3af; font-size: 12px;">See you on the course!</p>`}
     </div>
   `;
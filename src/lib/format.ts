@@ -208,6 +208,16 @@ export function formatDateTimeFull(dateStr: string | null): string {
   });
 }
 
+/**
+ * Format an HH:MM wall-clock time (e.g. events.first_tee_time) as "7:30 AM".
+ * Not a timestamp — no timezone conversion.
+ */
+export function formatTimeOfDay(time: string): string {
+  const [h, m] = time.split(":").map(Number);
+  const hour12 = h % 12 === 0 ? 12 : h % 12;
+  return `${hour12}:${String(m).padStart(2, "0")} ${h < 12 ? "AM" : "PM"}`;
+}
+
 // ─────────────────────────────────────────────────────────
 // Site URL
 // ─────────────────────────────────────────────────────────
@@ -219,3 +229,15 @@ export function formatDateTimeFull(dateStr: string | null): string {
 export function getSiteUrl(): string {
   return process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
 }
+
+// ─────────────────────────────────────────────────────────
+// Search patterns
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Escape LIKE wildcards so a value matches literally in ilike filters.
+ * Use for case-insensitive equality on names and email addresses.
+ */
+export function likeLiteral(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
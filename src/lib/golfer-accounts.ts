@@ -0,0 +1,74 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { subscribeToEvent, subscribeToAllActiveEvents } from "./subscriptions";
+
+export interface NewGolferInput {
+  firstName: string;
+  lastName: string;
+  email: string;
+  /** Digits only */
+  phone: string | null;
+  ghinNumber: string | null;
+  /** Events to subscribe to; empty or "all" subscribes to every active event */
+  eventIds: string[];
+}
+
+/**
+ * Create an active golfer account without the OTP sign-up flow.
+ * Creates the auth user with the service role (the handle_new_user trigger
+ * creates the profile as pending_approval), activates the profile and
+ * subscribes it to the given events. Used by admin "Add Golfer" and
+ * "Convert Guest to Member".
+ */
+export async function createActiveGolfer(
+  adminSupabase: SupabaseClient,
+  input: NewGolferInput
+): Promise<{ profileId: string } | { error: string }> {
+  const { data: authData, error: authError } =
+    await adminSupabase.auth.admin.createUser({
+      email: input.email,
+      email_confirm: true,
+      user_metadata: {
+        first_name: input.firstName,
+        last_name: input.lastName,
+        phone: input.phone,
+        ghin_number: input.ghinNumber,
+        role: "golfer",
+      },
+    });
+
+  if (authError) {
+    console.error("Admin create user error:", authError);
+    if (authError.message?.includes("already been registered")) {
+      return {
+        error: `Email ${input.email} is already registered in auth. The profile may not exist yet — try refreshing.`,
+      };
+    }
+    return { error: "Failed to create user. Please try again." };
+  }
+
+  const newUserId = authData.user.id;
+
+  // Wait a moment for the handle_new_user trigger to fire
+  await new Promise((resolve) => setTimeout(resolve, 500));
+
+  // Set status to active (the trigger creates as pending_approval)
+  await adminSupabase
+    .from("profiles")
+    .update({
+      status: "active",
+      phone: input.phone,
+      ghin_number: input.ghinNumber,
+    })
+    .eq("id", newUserId);
+
+  // Subscribe to event(s)
+  if (input.eventIds.length === 0 || input.eventIds.includes("all")) {
+    await subscribeToAllActiveEvents(adminSupabase, newUserId);
+  } else {
+    for (const eid of input.eventIds) {
+      await subscribeToEvent(adminSupabase, newUserId, eid);
+    }
+  }
+
+  return { profileId: newUserId };
+}
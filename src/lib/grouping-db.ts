@@ -15,7 +15,7 @@ import type {
   GroupingMethod,
 } from "../types/events";
 import { DEFAULT_HANDICAP_INDEX } from "../types/events";
-import { pairKey } from "./grouping-engine";
+import { pairKey, fitAroundLockedGroups } from "./grouping-engine";
 import { formatInitialLastName } from "./format";
 
 // ============================================================
@@ -297,39 +297,154 @@ export async function fetchRecentPairings(
 // Store Outputs
 // ============================================================
 
+/** A group an admin locked, kept as-is when groupings are regenerated */
+export interface LockedGroup {
+  groupNumber: number;
+  teeOrder: number;
+  harmonyScore: number | null;
+  profileIds: string[];
+  guestRequestIds: string[];
+}
+
+/**
+ * Fetch the locked groups for a schedule.
+ * Callers prune them against current RSVPs and guest approvals, leave the
+ * remaining golfers out of the engine input and pass the groups to
+ * storeGroupings() so they survive the re-run.
+ */
+export async function fetchLockedGroups(
+  supabase: SupabaseClient,
+  scheduleId: string
+): Promise<LockedGroup[]> {
+  const { data, error } = await supabase
+    .from("groupings")
+    .select("group_number, tee_order, harmony_score, profile_id, guest_request_id")
+    .eq("schedule_id", scheduleId)
+    .eq("is_locked", true);
+
+  if (error) {
+    console.error("Error fetching locked groupings:", error);
+    return [];
+  }
+
+  const groups = new Map<number, LockedGroup>();
+  for (const row of (data || []) as Array<{
+    group_number: number;
+    tee_order: number;
+    harmony_score: number | null;
+    profile_id: string | null;
+    guest_request_id: string | null;
+  }>) {
+    if (!groups.has(row.group_number)) {
+      groups.set(row.group_number, {
+        groupNumber: row.group_number,
+        teeOrder: row.tee_order,
+        harmonyScore: row.harmony_score,
+        profileIds: [],
+        guestRequestIds: [],
+      });
+    }
+    const group = groups.get(row.group_number)!;
+    if (row.profile_id) group.profileIds.push(row.profile_id);
+    if (row.guest_request_id) group.guestRequestIds.push(row.guest_request_id);
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Delete locked rows for golfers who are no longer "in" and guests who are
+ * no longer approved (see pruneLockedGroups), so they drop out of the
+ * stored groups, the pro shop email and the tee sheet.
+ */
+export async function deleteStaleLockedRows(
+  supabase: SupabaseClient,
+  scheduleId: string,
+  stale: { profileIds: string[]; guestRequestIds: string[] }
+): Promise<{ success: boolean; error?: string }> {
+  const deletes = [
+    stale.profileIds.length > 0
+      ? supabase
+          .from("groupings")
+          .delete()
+          .eq("schedule_id", scheduleId)
+          .eq("is_locked", true)
+          .in("profile_id", stale.profileIds)
+      : null,
+    stale.guestRequestIds.length > 0
+      ? supabase
+          .from("groupings")
+          .delete()
+          .eq("schedule_id", scheduleId)
+          .eq("is_locked", true)
+          .in("guest_request_id", stale.guestRequestIds)
+      : null,
+  ];
+
+  for (const query of deletes) {
+    if (!query) continue;
+    const { error } = await query;
+    if (error) {
+      console.error("Error deleting stale locked groupings:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  return { success: true };
+}
+
 /**
  * Store grouping results in the database, including approved guests.
  * Each guest is placed in the same group as their host golfer.
- * Deletes any existing groupings for this schedule first (idempotent).
+ * Deletes any existing unlocked groupings for this schedule first (idempotent).
+ *
+ * Locked groups are left in place: the new groups are renumbered around them,
+ * and a new guest whose host is in a locked group joins that group.
  */
 export async function storeGroupings(
   supabase: SupabaseClient,
   scheduleId: string,
-  result: GroupingResult,
-  guests: Array<{ guestRequestId: string; hostProfileId: string }> = []
+  engineResult: GroupingResult,
+  guests: Array<{ guestRequestId: string; hostProfileId: string }> = [],
+  lockedGroups: LockedGroup[] = []
 ): Promise<{ success: boolean; error?: string }> {
-  // Delete existing groupings for this schedule (idempotent re-runs)
+  // Delete existing unlocked groupings for this schedule (idempotent re-runs)
   const { error: deleteError } = await supabase
     .from("groupings")
     .delete()
-    .eq("schedule_id", scheduleId);
+    .eq("schedule_id", scheduleId)
+    .eq("is_locked", false);
 
   if (deleteError) {
     console.error("Error deleting old groupings:", deleteError);
     return { success: false, error: deleteError.message };
   }
 
+  const result = fitAroundLockedGroups(engineResult, lockedGroups);
+
   // Build a lookup: profileId → groupNumber/teeOrder
-  const golferGroupMap = new Map<string, { groupNumber: number; teeOrder: number; harmonyScore: number }>();
+  const golferGroupMap = new Map<string, { groupNumber: number; teeOrder: number; harmonyScore: number | null; isLocked: boolean }>();
   for (const group of result.groups) {
     for (const profileId of group.golfers) {
       golferGroupMap.set(profileId, {
         groupNumber: group.groupNumber,
         teeOrder: group.teeOrder,
         harmonyScore: group.harmonyScore,
+        isLocked: false,
       });
     }
   }
+  for (const group of lockedGroups) {
+    for (const profileId of group.profileIds) {
+      golferGroupMap.set(profileId, {
+        groupNumber: group.groupNumber,
+        teeOrder: group.teeOrder,
+        harmonyScore: group.harmonyScore,
+        isLocked: true,
+      });
+    }
+  }
+  const lockedGuestIds = new Set(lockedGroups.flatMap((g) => g.guestRequestIds));
 
   // Build a profileId → teamNumber lookup from group teams
   const profileTeamMap = new Map<string, number>();
@@ -350,8 +465,9 @@ export async function storeGroupings(
     tee_order: number;
     profile_id: string | null;
     guest_request_id: string | null;
-    harmony_score: number;
+    harmony_score: number | null;
     team_number: number | null;
+    is_locked: boolean;
   }> = result.groups.flatMap((group) =>
     group.golfers.map((profileId) => ({
       schedule_id: scheduleId,
@@ -361,11 +477,13 @@ export async function storeGroupings(
       guest_request_id: null,
       harmony_score: group.harmonyScore,
       team_number: profileTeamMap.get(profileId) ?? null,
+      is_locked: false,
     }))
   );
 
   // Build guest rows — place each guest in their host's group and team
   for (const guest of guests) {
+    if (lockedGuestIds.has(guest.guestRequestId)) continue;
     const hostGroup = golferGroupMap.get(guest.hostProfileId);
     if (hostGroup) {
       rows.push({
@@ -376,6 +494,7 @@ export async function storeGroupings(
         guest_request_id: guest.guestRequestId,
         harmony_score: hostGroup.harmonyScore,
         team_number: profileTeamMap.get(guest.hostProfileId) ?? null,
+        is_locked: hostGroup.isLocked,
       });
     } else {
       console.warn(`Guest ${guest.guestRequestId} host ${guest.hostProfileId} not found in any group`);
@@ -425,6 +544,7 @@ export interface StoredGrouping {
   groupNumber: number;
   teeOrder: number;
   harmonyScore: number | null;
+  isLocked: boolean;
   golfers: StoredGroupGolfer[];
 }
 
@@ -446,6 +566,7 @@ export async function fetchStoredGroupings(
       tee_order,
       harmony_score,
       team_number,
+      is_locked,
       profile_id,
       guest_request_id,
       profile:profiles(id, first_name, last_name, phone, email, ghin_number, handicap_index, low_hi_value)
@@ -470,6 +591,7 @@ export async function fetchStoredGroupings(
       tee_order,
       harmony_score,
       team_number,
+      is_locked,
       guest_request_id,
       guest:guest_requests(id, requested_by, guest_first_name, guest_last_name, guest_email, guest_phone, guest_ghin_number)
     `
@@ -558,6 +680,7 @@ export async function fetchStoredGroupings(
     tee_order: number;
     harmony_score: number | null;
     team_number: number | null;
+    is_locked: boolean | null;
     profile_id: string;
     profile: {
       id: string;
@@ -575,6 +698,7 @@ export async function fetchStoredGroupings(
         groupNumber: row.group_number,
         teeOrder: row.tee_order,
         harmonyScore: row.harmony_score,
+        isLocked: !!row.is_locked,
         golfers: [],
       });
     }
@@ -601,10 +725,13 @@ export async function fetchStoredGroupings(
     }
   }
 
-  // Add guests to their host's group
+  // Add guests to their stored group (normally their host's)
   for (const row of (guestData || []) as unknown as Array<{
     group_number: number;
+    tee_order: number;
+    harmony_score: number | null;
     team_number: number | null;
+    is_locked: boolean | null;
     guest_request_id: string;
     guest: {
       id: string;
@@ -616,8 +743,19 @@ export async function fetchStoredGroupings(
       guest_ghin_number: string;
     } | null;
   }>) {
-    const group = groupMap.get(row.group_number);
-    if (group && row.guest) {
+    // A guest can be on their own in a group after a manual edit
+    if (!groupMap.has(row.group_number)) {
+      groupMap.set(row.group_number, {
+        groupNumber: row.group_number,
+        teeOrder: row.tee_order,
+        harmonyScore: row.harmony_score,
+        isLocked: !!row.is_locked,
+        golfers: [],
+      });
+    }
+
+    const group = groupMap.get(row.group_number)!;
+    if (row.guest) {
       const hostName = profileNameMap.get(row.guest.requested_by) || "Golfer";
       group.golfers.push({
         profileId: null,
@@ -16,6 +16,8 @@ import {
   generateGroupings,
   applyScoreModifiers,
   teeTimePriorityScore,
+  findRestrictedPairs,
+  fitAroundLockedGroups,
   DEFAULT_GROUPING_OPTIONS,
 } from './grouping-engine';
 import type {
@@ -1134,3 +1136,31 @@ describe('Handicap method: harmony method still works with groupingMethod param'
     assert.ok(result.totalHarmonyScore > 0);
   });
 });
+
+describe('findRestrictedPairs', () => {
+  it('should list each restricted pair found in the group', () => {
+    const restricted = new Set([pairKey('g1', 'g3'), pairKey('g2', 'g9')]);
+    assert.deepEqual(findRestrictedPairs(['g1', 'g2', 'g3', 'g4'], restricted), [['g1', 'g3']]);
+    assert.deepEqual(findRestrictedPairs(['g1', 'g2'], restricted), []);
+  });
+});
+
+describe('fitAroundLockedGroups', () => {
+  it('should leave the result alone when nothing is locked', () => {
+    const result = generateGroupings(makeGolfers(8), [], opts({ shuffle: false }));
+    assert.equal(fitAroundLockedGroups(result, []), result);
+  });
+
+  it('should number new groups around locked group numbers and tee times', () => {
+    const result = generateGroupings(makeGolfers(8), [], opts({ shuffle: false }));
+    const fitted = fitAroundLockedGroups(result, [{ groupNumber: 1, teeOrder: 2 }]);
+
+    assert.deepEqual(fitted.groups.map((g) => [g.groupNumber, g.teeOrder]), [[2, 1], [3, 3]]);
+    assert.deepEqual(fitted.groups[1].golfers, result.groups[1].golfers);
+    for (const a of fitted.assignments) {
+      const group = fitted.groups.find((g) => g.golfers.includes(a.profileId))!;
+      assert.equal(a.groupNumber, group.groupNumber);
+      assert.equal(a.teeOrder, group.teeOrder);
+    }
+  });
+});
@@ -1118,3 +1118,63 @@ function separateRestrictedPairs(
 
   return { ...result, groups, assignments };
 }
+
+// ============================================================
+// Manual Edits & Locked Groups
+// ============================================================
+
+/**
+ * Find the do-not-pair restrictions broken by a group.
+ * Returns each restricted pair found together, as [a, b] golfer IDs.
+ */
+export function findRestrictedPairs(
+  golfers: string[],
+  restrictedPairs: Set<string>
+): [string, string][] {
+  const found: [string, string][] = [];
+  for (let i = 0; i < golfers.length; i++) {
+    for (let j = i + 1; j < golfers.length; j++) {
+      if (restrictedPairs.has(pairKey(golfers[i], golfers[j]))) {
+        found.push([golfers[i], golfers[j]]);
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Renumber an engine result so it fits around groups an admin has locked.
+ *
+ * Locked groups keep their group number and tee order. The new groups take
+ * the lowest group numbers and tee positions that are still free, keeping
+ * the engine's tee order between them.
+ */
+export function fitAroundLockedGroups(
+  result: GroupingResult,
+  lockedGroups: Array<{ groupNumber: number; teeOrder: number }>
+): GroupingResult {
+  if (lockedGroups.length === 0) return result;
+
+  const usedNumbers = new Set(lockedGroups.map((g) => g.groupNumber));
+  const usedTees = new Set(lockedGroups.map((g) => g.teeOrder));
+  const nextFree = (used: Set<number>) => {
+    let n = 1;
+    while (used.has(n)) n++;
+    used.add(n);
+    return n;
+  };
+
+  const renumbered = new Map<number, { groupNumber: number; teeOrder: number }>();
+  for (const group of [...result.groups].sort((a, b) => a.teeOrder - b.teeOrder)) {
+    renumbered.set(group.groupNumber, {
+      groupNumber: nextFree(usedNumbers),
+      teeOrder: nextFree(usedTees),
+    });
+  }
+
+  return {
+    ...result,
+    groups: result.groups.map((g) => ({ ...g, ...renumbered.get(g.groupNumber)! })),
+    assignments: result.assignments.map((a) => ({ ...a, ...renumbered.get(a.groupNumber)! })),
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the grouping service's settings resolution and locked
+ * group pruning.
+ *
+ * Run with: npx tsx --test src/lib/grouping-service.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveGroupingSettings, pruneLockedGroups } from './grouping-service';
+
+describe('resolveGroupingSettings', () => {
+  it('defaults to full-weight harmony with no history', () => {
+    const settings = resolveGroupingSettings({});
+    assert.equal(settings.groupingMethod, 'harmony');
+    assert.equal(settings.flightTeamPairing, 'similar');
+    assert.equal(settings.partnerPreferenceMode, 'full');
+    assert.equal(settings.teeTimePreferenceMode, 'full');
+    assert.equal(settings.preferencesOverridden, false);
+    assert.equal(settings.needsTeeTimeHistory, false);
+    assert.equal(settings.needsRecentPairings, false);
+  });
+
+  it('loads history only for the settings that use it', () => {
+    const settings = resolveGroupingSettings({
+      grouping_method: 'harmony',
+      grouping_tee_time_pref_mode: 'light',
+      grouping_promote_variety: true,
+    });
+    assert.equal(settings.needsTeeTimeHistory, true);
+    assert.equal(settings.needsRecentPairings, true);
+  });
+
+  it('turns preferences and variety off for handicap methods', () => {
+    const settings = resolveGroupingSettings({
+      grouping_method: 'flight_teams',
+      flight_team_pairing: 'random',
+      grouping_partner_pref_mode: 'full',
+      grouping_tee_time_pref_mode: 'light',
+      grouping_promote_variety: true,
+    });
+    assert.equal(settings.flightTeamPairing, 'random');
+    assert.equal(settings.partnerPreferenceMode, 'off');
+    assert.equal(settings.teeTimePreferenceMode, 'off');
+    assert.equal(settings.promoteVariety, false);
+    assert.equal(settings.preferencesOverridden, true);
+    assert.equal(settings.needsTeeTimeHistory, false);
+  });
+});
+
+describe('pruneLockedGroups', () => {
+  const locked = [
+    { groupNumber: 1, teeOrder: 1, harmonyScore: 10, profileIds: ['a', 'b', 'c'], guestRequestIds: ['g1'] },
+    { groupNumber: 2, teeOrder: 2, harmonyScore: 8, profileIds: ['d'], guestRequestIds: [] },
+  ];
+
+  it('keeps locked groups whose golfers and guests are all still playing', () => {
+    const { lockedGroups, stale } = pruneLockedGroups(locked, new Set(['a', 'b', 'c', 'd']), new Set(['g1']));
+    assert.deepEqual(lockedGroups, locked);
+    assert.deepEqual(stale, { profileIds: [], guestRequestIds: [] });
+  });
+
+  it('drops golfers who are no longer in and guests who were declined', () => {
+    const { lockedGroups, stale } = pruneLockedGroups(locked, new Set(['a', 'c', 'd']), new Set());
+    assert.deepEqual(lockedGroups[0].profileIds, ['a', 'c']);
+    assert.deepEqual(lockedGroups[0].guestRequestIds, []);
+    assert.equal(lockedGroups[0].groupNumber, 1);
+    assert.deepEqual(stale, { profileIds: ['b'], guestRequestIds: ['g1'] });
+  });
+
+  it('drops a locked group once everyone in it has dropped out', () => {
+    const { lockedGroups, stale } = pruneLockedGroups(locked, new Set(['a', 'b', 'c']), new Set(['g1']));
+    assert.deepEqual(lockedGroups.map((g) => g.groupNumber), [1]);
+    assert.deepEqual(stale.profileIds, ['d']);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Grouping Service — the single pipeline from a schedule to stored groupings.
+ *
+ * Reads the event's grouping settings, loads the inputs the engine needs
+ * (confirmed golfers, partner preferences, tee time history, recent
+ * pairings, do-not-pair restrictions, locked groups, guests), runs the
+ * engine and stores the result. The email scheduler cron, the manual send
+ * actions and the admin preview all go through buildGroupingsForSchedule(),
+ * so they produce groups the same way.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  FlightTeamPairing,
+  GroupingMethod,
+  GroupingOptions,
+  GroupingPartnerPrefMode,
+  GroupingResult,
+  GroupingTeeTimePrefMode,
+} from "../types/events";
+import { isHandicapMethod } from "../types/events";
+import { generateGroupings, fitAroundLockedGroups } from "./grouping-engine";
+import {
+  fetchConfirmedGolfers,
+  fetchPartnerPreferences,
+  fetchDoNotPairRestrictions,
+  fetchApprovedGuests,
+  fetchTeeTimeHistory,
+  fetchRecentPairings,
+  fetchLockedGroups,
+  deleteStaleLockedRows,
+  storeGroupings,
+  type LockedGroup,
+} from "./grouping-db";
+
+/** Weeks of tee time and pairing history the engine looks back over */
+export const GROUPING_HISTORY_WEEKS = 8;
+
+/** Event columns that control how groupings are built */
+export interface GroupingEventSettings {
+  grouping_method?: string | null;
+  flight_team_pairing?: string | null;
+  grouping_partner_pref_mode?: string | null;
+  grouping_tee_time_pref_mode?: string | null;
+  grouping_promote_variety?: boolean | null;
+}
+
+/** Engine settings resolved from an event, before history is loaded */
+export interface ResolvedGroupingSettings {
+  groupingMethod: GroupingMethod;
+  flightTeamPairing: FlightTeamPairing;
+  partnerPreferenceMode: GroupingPartnerPrefMode;
+  teeTimePreferenceMode: GroupingTeeTimePrefMode;
+  promoteVariety: boolean;
+  /** Handicap methods ignore partner and tee time preferences and variety */
+  preferencesOverridden: boolean;
+  needsTeeTimeHistory: boolean;
+  needsRecentPairings: boolean;
+}
+
+/**
+ * Resolve an event's grouping settings, applying defaults.
+ * Handicap methods force partner and tee time preferences off and skip
+ * variety, so no history is needed for them.
+ */
+export function resolveGroupingSettings(event: GroupingEventSettings): ResolvedGroupingSettings {
+  const groupingMethod = (event.grouping_method as GroupingMethod) || "harmony";
+  const handicapBased = isHandicapMethod(groupingMethod);
+
+  const partnerPreferenceMode: GroupingPartnerPrefMode = handicapBased
+    ? "off"
+    : (event.grouping_partner_pref_mode as GroupingPartnerPrefMode) || "full";
+  const teeTimePreferenceMode: GroupingTeeTimePrefMode = handicapBased
+    ? "off"
+    : (event.grouping_tee_time_pref_mode as GroupingTeeTimePrefMode) || "full";
+  const promoteVariety = handicapBased ? false : !!event.grouping_promote_variety;
+
+  return {
+    groupingMethod,
+    flightTeamPairing: (event.flight_team_pairing as FlightTeamPairing) || "similar",
+    partnerPreferenceMode,
+    teeTimePreferenceMode,
+    promoteVariety,
+    preferencesOverridden: handicapBased,
+    needsTeeTimeHistory: teeTimePreferenceMode !== "full" && teeTimePreferenceMode !== "off",
+    needsRecentPairings: promoteVariety,
+  };
+}
+
+/** Everything that went into a grouping run, for logging and the admin preview */
+export interface GroupingRunInputs {
+  settings: ResolvedGroupingSettings;
+  historyWeeks: number;
+  /** Golfers with tee time history loaded (0 when history isn't used) */
+  teeTimeHistoryGolfers: number;
+  /** Golfer pairs seen together in the history window (0 when variety is off) */
+  recentPairCount: number;
+  /** Do-not-pair restrictions as [a, b] profile IDs */
+  restrictedPairs: [string, string][];
+  /** Confirmed golfers handed to the engine (locked golfers excluded) */
+  golferIds: string[];
+  lockedGroups: LockedGroup[];
+  guests: Array<{ guestRequestId: string; hostProfileId: string }>;
+}
+
+export interface GroupingRun {
+  /** Null when a real run was skipped before loading anything */
+  inputs: GroupingRunInputs | null;
+  /** Engine output, numbered around the locked groups */
+  result: GroupingResult | null;
+  /** Why a real run leaves the stored groupings alone (dry runs still build) */
+  skipReason: string | null;
+  stored: boolean;
+  error?: string;
+}
+
+/**
+ * Drop golfers who are no longer "in" and guests who are no longer approved
+ * from the locked groups. A group left with nobody in it is dropped too.
+ * The removed IDs are returned so their stored rows can be deleted.
+ */
+export function pruneLockedGroups(
+  lockedGroups: LockedGroup[],
+  confirmedProfileIds: Set<string>,
+  approvedGuestRequestIds: Set<string>
+): { lockedGroups: LockedGroup[]; stale: { profileIds: string[]; guestRequestIds: string[] } } {
+  const stale = { profileIds: [] as string[], guestRequestIds: [] as string[] };
+  const kept: LockedGroup[] = [];
+
+  for (const group of lockedGroups) {
+    const profileIds = group.profileIds.filter((id) => confirmedProfileIds.has(id));
+    const guestRequestIds = group.guestRequestIds.filter((id) => approvedGuestRequestIds.has(id));
+    stale.profileIds.push(...group.profileIds.filter((id) => !confirmedProfileIds.has(id)));
+    stale.guestRequestIds.push(...group.guestRequestIds.filter((id) => !approvedGuestRequestIds.has(id)));
+
+    if (profileIds.length + guestRequestIds.length > 0) {
+      kept.push({ ...group, profileIds, guestRequestIds });
+    }
+  }
+
+  return { lockedGroups: kept, stale };
+}
+
+/**
+ * Build groupings for a schedule and store them.
+ *
+ * Nothing is stored when the event doesn't use auto-grouping or the
+ * groupings are final (skipReason says which). With dryRun, groups are
+ * built but never stored, so admins can preview the engine's choices.
+ */
+export async function buildGroupingsForSchedule(
+  supabase: SupabaseClient,
+  scheduleId: string,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<GroupingRun> {
+  const { data: schedule, error: scheduleError } = await supabase
+    .from("event_schedules")
+    .select("id, groupings_final_at, event:events(*)")
+    .eq("id", scheduleId)
+    .single();
+
+  if (scheduleError || !schedule) {
+    throw new Error("Schedule not found");
+  }
+
+  const event = schedule.event as unknown as (GroupingEventSettings & {
+    id: string;
+    allow_auto_grouping: boolean;
+  }) | null;
+  if (!event) throw new Error("Event not found");
+
+  const skipReason = !event.allow_auto_grouping
+    ? "Auto-grouping is off for this event"
+    : schedule.groupings_final_at
+      ? "Groupings are final"
+      : null;
+
+  if (skipReason && !dryRun) {
+    return { inputs: null, result: null, skipReason, stored: false };
+  }
+
+  const settings = resolveGroupingSettings(event);
+
+  const [storedLockedGroups, allGolfers, preferences, restrictedPairs, teeTimeHistory, recentPairings, approvedGuests] =
+    await Promise.all([
+      fetchLockedGroups(supabase, scheduleId),
+      fetchConfirmedGolfers(supabase, scheduleId),
+      fetchPartnerPreferences(supabase, event.id),
+      fetchDoNotPairRestrictions(supabase, event.id),
+      settings.needsTeeTimeHistory
+        ? fetchTeeTimeHistory(supabase, event.id, GROUPING_HISTORY_WEEKS)
+        : Promise.resolve(new Map()),
+      settings.needsRecentPairings
+        ? fetchRecentPairings(supabase, event.id, GROUPING_HISTORY_WEEKS)
+        : Promise.resolve(new Map()),
+      fetchApprovedGuests(supabase, scheduleId),
+    ]);
+
+  // Locked groups are kept, minus anyone who has since dropped out or been
+  // declined; only everyone else is regrouped
+  const { lockedGroups, stale } = pruneLockedGroups(
+    storedLockedGroups,
+    new Set(allGolfers.map((g) => g.profileId)),
+    new Set(approvedGuests.map((g) => g.guestRequestId))
+  );
+  const lockedIds = new Set(lockedGroups.flatMap((g) => g.profileIds));
+  const golfers = allGolfers.filter((g) => !lockedIds.has(g.profileId));
+
+  const options: GroupingOptions = {
+    groupingMethod: settings.groupingMethod,
+    flightTeamPairing: settings.flightTeamPairing,
+    partnerPreferenceMode: settings.partnerPreferenceMode,
+    teeTimePreferenceMode: settings.teeTimePreferenceMode,
+    promoteVariety: settings.promoteVariety,
+    teeTimeHistory,
+    recentPairings,
+    shuffle: true,
+    restrictedPairs,
+  };
+
+  const engineResult = generateGroupings(golfers, preferences, options);
+  const guests = approvedGuests.map((g) => ({
+    guestRequestId: g.guestRequestId,
+    hostProfileId: g.hostProfileId,
+  }));
+
+  const inputs: GroupingRunInputs = {
+    settings,
+    historyWeeks: GROUPING_HISTORY_WEEKS,
+    teeTimeHistoryGolfers: teeTimeHistory.size,
+    recentPairCount: recentPairings.size,
+    restrictedPairs: Array.from(restrictedPairs).map((key) => key.split(":") as [string, string]),
+    golferIds: golfers.map((g) => g.profileId),
+    lockedGroups,
+    guests,
+  };
+  const result = fitAroundLockedGroups(engineResult, lockedGroups);
+
+  if (dryRun) {
+    return { inputs, result, skipReason, stored: false };
+  }
+
+  const staleResult = await deleteStaleLockedRows(supabase, scheduleId, stale);
+  if (!staleResult.success) {
+    return { inputs, result, skipReason, stored: false, error: staleResult.error };
+  }
+
+  const storeResult = await storeGroupings(supabase, scheduleId, engineResult, guests, lockedGroups);
+  return { inputs, result, skipReason, stored: storeResult.success, error: storeResult.error };
+}
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the guest registry: matching a request to a registry
+ * guest, picking the visit season for a game date and the visit limit.
+ *
+ * Run with: npx tsx --test src/lib/guest-registry.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  findMatchingGuest,
+  guestVisitSeason,
+  checkGuestVisitLimit,
+  type GuestIdentity,
+} from './guest-registry';
+
+const registry = [
+  { id: 'g1', first_name: 'Pat', last_name: 'Jones', email: 'pat@example.com', ghin_number: '1111111' },
+  { id: 'g2', first_name: 'Sam', last_name: 'Lee', email: null, ghin_number: '2222222' },
+  { id: 'g3', first_name: 'Chris', last_name: 'Park', email: null, ghin_number: null },
+  { id: 'g4', first_name: 'Alex', last_name: 'Kim', email: 'alex1@example.com', ghin_number: null },
+  { id: 'g5', first_name: 'Alex', last_name: 'Kim', email: 'alex2@example.com', ghin_number: null },
+];
+
+function identity(overrides: Partial<GuestIdentity>): GuestIdentity {
+  return { firstName: 'New', lastName: 'Guest', email: null, phone: null, ghinNumber: null, ...overrides };
+}
+
+describe('findMatchingGuest', () => {
+  it('matches on email regardless of case, spacing or name', () => {
+    const match = findMatchingGuest(registry, identity({ firstName: 'Patrick', email: ' PAT@Example.com ' }));
+    assert.equal(match?.id, 'g1');
+  });
+
+  it('matches on GHIN number when there is no email match', () => {
+    const match = findMatchingGuest(registry, identity({ firstName: 'Samuel', ghinNumber: '2222222' }));
+    assert.equal(match?.id, 'g2');
+  });
+
+  it('skips a GHIN match whose email disagrees', () => {
+    const match = findMatchingGuest(registry, identity({ email: 'other@example.com', ghinNumber: '1111111' }));
+    assert.equal(match, null);
+  });
+
+  it('falls back to first and last name', () => {
+    const match = findMatchingGuest(registry, identity({ firstName: 'chris', lastName: 'PARK ' }));
+    assert.equal(match?.id, 'g3');
+  });
+
+  it('skips a name match whose GHIN number disagrees', () => {
+    const match = findMatchingGuest(registry, identity({ firstName: 'Sam', lastName: 'Lee', ghinNumber: '9999999' }));
+    assert.equal(match, null);
+  });
+
+  it('does not guess between guests who share a name', () => {
+    const match = findMatchingGuest(registry, identity({ firstName: 'Alex', lastName: 'Kim' }));
+    assert.equal(match, null);
+  });
+
+  it('returns null for a guest the registry has never seen', () => {
+    assert.equal(findMatchingGuest(registry, identity({ email: 'new@example.com' })), null);
+  });
+});
+
+describe('guestVisitSeason', () => {
+  const seasons = [
+    { name: '2026 Summer', season_start: '2026-05-01', season_end: '2026-09-30' },
+    { name: '2027 Season', season_start: '2027-03-01', season_end: null },
+    { name: 'Undated', season_start: null, season_end: null },
+  ];
+
+  it('uses the league season containing the game date', () => {
+    assert.deepEqual(guestVisitSeason('2026-07-04', seasons), {
+      label: '2026 Summer',
+      start: '2026-05-01',
+      end: '2026-09-30',
+    });
+  });
+
+  it('treats a season with no end date as open-ended', () => {
+    assert.deepEqual(guestVisitSeason('2028-01-15', seasons), {
+      label: '2027 Season',
+      start: '2027-03-01',
+      end: null,
+    });
+  });
+
+  it('falls back to the calendar year outside any season', () => {
+    assert.deepEqual(guestVisitSeason('2026-11-14', seasons), {
+      label: '2026',
+      start: '2026-01-01',
+      end: '2026-12-31',
+    });
+  });
+});
+
+describe('checkGuestVisitLimit', () => {
+  it('never limits when the event has no maximum', () => {
+    assert.deepEqual(checkGuestVisitLimit(40, null, 'block'), { overLimit: false, blocked: false });
+  });
+
+  it('allows visits below the maximum', () => {
+    assert.deepEqual(checkGuestVisitLimit(2, 3, 'block'), { overLimit: false, blocked: false });
+  });
+
+  it('blocks at the maximum in block mode', () => {
+    assert.deepEqual(checkGuestVisitLimit(3, 3, 'block'), { overLimit: true, blocked: true });
+  });
+
+  it('only flags at the maximum in flag mode', () => {
+    assert.deepEqual(checkGuestVisitLimit(5, 3, 'flag'), { overLimit: true, blocked: false });
+  });
+});
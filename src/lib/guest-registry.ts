@@ -0,0 +1,259 @@
+/**
+ * Guest registry — one record per guest, however many members bring them.
+ *
+ * Guest requests link to a registry guest (migration 052), matched on email,
+ * then GHIN number, then name. That gives each guest a play history across
+ * sponsors and lets an event cap how often one guest plays per season
+ * (events.max_visits_per_guest), either blocking requests over the cap or
+ * flagging them for the approving admin.
+ *
+ * findMatchingGuest, guestVisitSeason and checkGuestVisitLimit are pure so
+ * the matching and limit rules can be unit tested; the rest reads and
+ * writes Supabase.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Guest, GuestVisitLimitAction } from "../types/events";
+import { likeLiteral } from "./format";
+
+/** Who a guest request says the guest is */
+export interface GuestIdentity {
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+  ghinNumber: string | null;
+}
+
+type GuestMatchFields = Pick<Guest, "id" | "first_name" | "last_name" | "email" | "ghin_number">;
+
+/** Guest request statuses that count as a visit toward the limit */
+export const GUEST_VISIT_STATUSES = ["pending", "approved", "waitlisted"] as const;
+
+export function normalizeGuestEmail(email: string | null | undefined): string | null {
+  const trimmed = email?.trim().toLowerCase();
+  return trimmed || null;
+}
+
+export function normalizeGhin(ghin: string | null | undefined): string | null {
+  const trimmed = ghin?.trim();
+  return trimmed || null;
+}
+
+/** Two known values that differ; a missing value never conflicts */
+function conflicts(a: string | null, b: string | null): boolean {
+  return a !== null && b !== null && a !== b;
+}
+
+/**
+ * Find the registry guest a request refers to. Email wins, then GHIN
+ * number, then first and last name. GHIN and name matches are skipped
+ * when the email or GHIN on either side disagrees, and a name shared by
+ * more than one guest matches nobody.
+ */
+export function findMatchingGuest<T extends GuestMatchFields>(
+  candidates: T[],
+  identity: GuestIdentity
+): T | null {
+  const email = normalizeGuestEmail(identity.email);
+  const ghin = normalizeGhin(identity.ghinNumber);
+
+  if (email) {
+    const byEmail = candidates.find((g) => normalizeGuestEmail(g.email) === email);
+    if (byEmail) return byEmail;
+  }
+
+  if (ghin) {
+    const byGhin = candidates.find(
+      (g) => normalizeGhin(g.ghin_number) === ghin && !conflicts(normalizeGuestEmail(g.email), email)
+    );
+    if (byGhin) return byGhin;
+  }
+
+  const first = identity.firstName.trim().toLowerCase();
+  const last = identity.lastName.trim().toLowerCase();
+  const byName = candidates.filter(
+    (g) =>
+      g.first_name.trim().toLowerCase() === first &&
+      g.last_name.trim().toLowerCase() === last &&
+      !conflicts(normalizeGuestEmail(g.email), email) &&
+      !conflicts(normalizeGhin(g.ghin_number), ghin)
+  );
+  return byName.length === 1 ? byName[0] : null;
+}
+
+/** The date range guest visits are counted over */
+export interface GuestVisitSeason {
+  label: string;
+  start: string; // YYYY-MM-DD
+  /** Null for an open-ended league season */
+  end: string | null;
+}
+
+/**
+ * The season a game date falls in for visit counting: the event's league
+ * season containing the date, otherwise the calendar year.
+ */
+export function guestVisitSeason(
+  gameDate: string,
+  seasons: Array<{ name: string; season_start: string | null; season_end: string | null }>
+): GuestVisitSeason {
+  const league = seasons.find(
+    (s) => s.season_start && s.season_start <= gameDate && (!s.season_end || gameDate <= s.season_end)
+  );
+  if (league) {
+    return { label: league.name, start: league.season_start!, end: league.season_end };
+  }
+  const year = gameDate.slice(0, 4);
+  return { label: year, start: `${year}-01-01`, end: `${year}-12-31` };
+}
+
+export interface GuestVisitLimitCheck {
+  /** The guest already has the maximum visits this season */
+  overLimit: boolean;
+  /** The request must be refused (over the limit in block mode) */
+  blocked: boolean;
+}
+
+/**
+ * Compare a guest's visits this season with the event's limit. A null
+ * limit means guests can visit any number of times.
+ */
+export function checkGuestVisitLimit(
+  visits: number,
+  maxVisits: number | null,
+  action: GuestVisitLimitAction | null
+): GuestVisitLimitCheck {
+  const overLimit = maxVisits !== null && visits >= maxVisits;
+  return { overLimit, blocked: overLimit && action === "block" };
+}
+
+async function findRegistryCandidates(
+  supabase: SupabaseClient,
+  identity: GuestIdentity
+): Promise<Guest[]> {
+  const email = normalizeGuestEmail(identity.email);
+  const ghin = normalizeGhin(identity.ghinNumber);
+
+  const [byEmail, byGhin, byName] = await Promise.all([
+    email
+      ? supabase.from("guests").select("*").eq("email", email)
+      : Promise.resolve({ data: [] }),
+    ghin
+      ? supabase.from("guests").select("*").eq("ghin_number", ghin)
+      : Promise.resolve({ data: [] }),
+    supabase
+      .from("guests")
+      .select("*")
+      .ilike("first_name", likeLiteral(identity.firstName.trim()))
+      .ilike("last_name", likeLiteral(identity.lastName.trim())),
+  ]);
+
+  const byId = new Map<string, Guest>();
+  for (const g of [...(byEmail.data || []), ...(byGhin.data || []), ...(byName.data || [])] as Guest[]) {
+    byId.set(g.id, g);
+  }
+  return [...byId.values()];
+}
+
+/**
+ * Find or create the registry guest for a request. A matched guest picks
+ * up any email, phone or GHIN number the registry didn't have yet.
+ * Throws if the registry can't be read or written.
+ */
+export async function resolveGuestRecord(
+  supabase: SupabaseClient,
+  identity: GuestIdentity
+): Promise<Guest> {
+  const email = normalizeGuestEmail(identity.email);
+  const ghin = normalizeGhin(identity.ghinNumber);
+  const phone = identity.phone?.trim() || null;
+
+  const candidates = await findRegistryCandidates(supabase, identity);
+  const match = findMatchingGuest(candidates, identity);
+
+  if (match) {
+    const fill: Partial<Guest> = {};
+    if (!match.email && email) fill.email = email;
+    if (!match.phone && phone) fill.phone = phone;
+    if (!match.ghin_number && ghin && !candidates.some((g) => g.ghin_number === ghin)) {
+      fill.ghin_number = ghin;
+    }
+    if (Object.keys(fill).length === 0) return match;
+
+    const { data: updated, error } = await supabase
+      .from("guests")
+      .update(fill)
+      .eq("id", match.id)
+      .select("*")
+      .single();
+    if (error) {
+      // Missing details are a nicety; the match still stands
+      console.error("Guest registry update error:", error);
+      return match;
+    }
+    return updated as Guest;
+  }
+
+  const { data: created, error } = await supabase
+    .from("guests")
+    .insert({
+      first_name: identity.firstName.trim(),
+      last_name: identity.lastName.trim(),
+      email,
+      phone,
+      ghin_number: ghin,
+    })
+    .select("*")
+    .single();
+
+  if (error || !created) {
+    // Another request may have registered the same email or GHIN first
+    const retry = findMatchingGuest(await findRegistryCandidates(supabase, identity), identity);
+    if (retry) return retry;
+    throw error || new Error("Failed to register guest");
+  }
+  return created as Guest;
+}
+
+/**
+ * Count a guest's visits to an event within a season. Pending, approved
+ * and waitlisted requests count, so a member can't get around the limit
+ * by requesting several weeks at once.
+ */
+export async function countGuestVisits(
+  supabase: SupabaseClient,
+  guestId: string,
+  eventId: string,
+  season: GuestVisitSeason
+): Promise<number> {
+  let query = supabase
+    .from("guest_requests")
+    .select("id, schedule:event_schedules!inner(event_id, game_date)", { count: "exact", head: true })
+    .eq("guest_id", guestId)
+    .in("status", [...GUEST_VISIT_STATUSES])
+    .eq("schedule.event_id", eventId)
+    .gte("schedule.game_date", season.start);
+
+  if (season.end) query = query.lte("schedule.game_date", season.end);
+
+  const { count, error } = await query;
+  if (error) throw error;
+  return count || 0;
+}
+
+/**
+ * Fetch an event's league seasons for visit counting. With none (or on
+ * error), guestVisitSeason falls back to calendar years.
+ */
+export async function fetchSeasonsForVisits(
+  supabase: SupabaseClient,
+  eventId: string
+): Promise<Array<{ name: string; season_start: string | null; season_end: string | null }>> {
+  const { data } = await supabase
+    .from("league_seasons")
+    .select("name, season_start, season_end")
+    .eq("event_id", eventId)
+    .order("season_start", { ascending: false, nullsFirst: false });
+  return data || [];
+}
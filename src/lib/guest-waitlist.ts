@@ -0,0 +1,215 @@
+/**
+ * Guest waitlist — approving guests into a game's capacity.
+ *
+ * Approved guests take spots like members do (migration 051). Whether an
+ * approval gets a spot right away depends on events.guest_capacity_policy:
+ * "members_first" keeps approved guests on the guest waitlist until the RSVP
+ * cutoff, "first_come" gives them any open spot. Either way a guest who
+ * can't get a spot waits on the guest waitlist, which is ordered separately
+ * from the member waitlist and only moves once no member is waiting.
+ *
+ * Shared by the admin approve action and the emailed approve link
+ * (approveGuestForGame), and by the golfer confirmation cron and spot-opened
+ * paths (fillGuestSpots).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sendEmail } from "./email";
+import { isPastCutoffPacific } from "./timezone";
+import { formatGameDate } from "./format";
+import { applyGuestStatus, guestsWaitForMembers, type ApplyGuestStatusResult } from "./rsvp-capacity";
+import type { GuestCapacityPolicy } from "../types/events";
+
+export interface GuestApproval {
+  applied: ApplyGuestStatusResult;
+  /** True when the guest was waitlisted because members have priority until cutoff */
+  heldForMembers: boolean;
+}
+
+export interface PromotedGuest {
+  guestRequestId: string;
+  guestName: string;
+  hostName: string;
+}
+
+interface GuestScheduleContext {
+  id: string;
+  game_date: string;
+  status: string;
+  event: {
+    id: string;
+    name: string;
+    cutoff_day: number;
+    cutoff_time: string | null;
+    guest_capacity_policy: GuestCapacityPolicy | null;
+  } | null;
+}
+
+async function loadGuestScheduleContext(
+  supabase: SupabaseClient,
+  scheduleId: string
+): Promise<GuestScheduleContext | null> {
+  const { data: schedule } = await supabase
+    .from("event_schedules")
+    .select("id, game_date, status, event:events(id, name, cutoff_day, cutoff_time, guest_capacity_policy)")
+    .eq("id", scheduleId)
+    .single();
+
+  return (schedule as unknown as GuestScheduleContext) || null;
+}
+
+/** Whether the event's policy holds guests back for members right now */
+function holdsForMembers(schedule: GuestScheduleContext): boolean {
+  const event = schedule.event;
+  if (!event) return false;
+  const pastCutoff = isPastCutoffPacific(
+    schedule.game_date,
+    event.cutoff_day,
+    event.cutoff_time || "10:00"
+  );
+  return guestsWaitForMembers(event.guest_capacity_policy, pastCutoff);
+}
+
+/**
+ * Approve a pending guest request. The guest takes an open spot, or joins
+ * the guest waitlist when the game is full or members still have priority.
+ * Throws if the status update fails.
+ */
+export async function approveGuestForGame(
+  supabase: SupabaseClient,
+  guestRequestId: string,
+  scheduleId: string,
+  changedBy: string | null
+): Promise<GuestApproval> {
+  const schedule = await loadGuestScheduleContext(supabase, scheduleId);
+  const heldForMembers = schedule ? holdsForMembers(schedule) : false;
+
+  const applied = await applyGuestStatus(supabase, {
+    guestRequestId,
+    status: "approved",
+    changedBy,
+    holdForMembers: heldForMembers,
+    expectedStatus: "pending",
+  });
+
+  return { applied, heldForMembers: heldForMembers && applied.newStatus === "waitlisted" };
+}
+
+/** One-line explanation of a guest's waitlist spot, for emails and admin pages */
+export function describeGuestWaitlist(
+  guestName: string,
+  position: number | null,
+  heldForMembers: boolean
+): string {
+  const spot = position ? `#${position} on the guest waitlist` : "on the guest waitlist";
+  return heldForMembers
+    ? `Members have priority until the RSVP cutoff, so ${guestName} is ${spot}. They'll be added if spots are still open at cutoff.`
+    : `The game is full, so ${guestName} is ${spot}. They'll be added if a spot opens.`;
+}
+
+/**
+ * Move waitlisted guests into open spots, in guest waitlist order.
+ * Does nothing while the event's policy holds guests for members or while
+ * any member is still on the waitlist. Each promoted guest's host is
+ * emailed (non-fatal). Throws if a status update fails.
+ */
+export async function fillGuestSpots(
+  supabase: SupabaseClient,
+  scheduleId: string
+): Promise<PromotedGuest[]> {
+  const schedule = await loadGuestScheduleContext(supabase, scheduleId);
+  const event = schedule?.event;
+  if (!schedule || !event || schedule.status === "cancelled" || holdsForMembers(schedule)) {
+    return [];
+  }
+
+  // Members on the waitlist get open spots first
+  const { count: waitingMembers } = await supabase
+    .from("rsvps")
+    .select("*", { count: "exact", head: true })
+    .eq("schedule_id", scheduleId)
+    .eq("status", "waitlisted");
+
+  if ((waitingMembers || 0) > 0) return [];
+
+  const { data: waitlisted } = await supabase
+    .from("guest_requests")
+    .select("id, guest_first_name, guest_last_name, guest_email, requester:profiles!requested_by(first_name, last_name, email)")
+    .eq("schedule_id", scheduleId)
+    .eq("status", "waitlisted")
+    .order("waitlist_position", { ascending: true });
+
+  const promoted: PromotedGuest[] = [];
+
+  for (const guest of waitlisted || []) {
+    const applied = await applyGuestStatus(supabase, {
+      guestRequestId: guest.id,
+      status: "approved",
+      expectedStatus: "waitlisted",
+    });
+
+    // Still waitlisted = the game is full again; later guests can't fit either
+    if (applied.newStatus === "waitlisted") break;
+    if (!applied.changed || applied.newStatus !== "approved") continue;
+
+    const host = guest.requester as unknown as { first_name: string; last_name: string; email: string } | null;
+    const guestName = `${guest.guest_first_name} ${guest.guest_last_name}`;
+
+    promoted.push({
+      guestRequestId: guest.id,
+      guestName,
+      hostName: host ? `${host.first_name} ${host.last_name}` : "a member",
+    });
+
+    if (host?.email) {
+      try {
+        await notifyHostGuestIn(supabase, schedule, host, guestName, guest.guest_email);
+      } catch (err) {
+        console.error("Guest promotion email error (non-fatal):", err);
+      }
+    }
+  }
+
+  return promoted;
+}
+
+async function notifyHostGuestIn(
+  supabase: SupabaseClient,
+  schedule: GuestScheduleContext,
+  host: { first_name: string; email: string },
+  guestName: string,
+  guestEmail: string | null
+) {
+  const event = schedule.event!;
+  const gameDate = formatGameDate(schedule.game_date);
+  const subject = `${event.name}: Guest Approved for ${gameDate}`;
+
+  const result = await sendEmail({
+    to: host.email,
+    cc: guestEmail && guestEmail !== host.email ? [guestEmail] : undefined,
+    subject,
+    html: `
+      <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 0 auto; padding: 24px;">
+        <h2 style="color: #15803d; margin-bottom: 4px;">${event.name}</h2>
+        <p style="color: #6b7280; font-size: 16px; margin-top: 0;">${gameDate}</p>
+
+        <p style="color: #374151;">Great news, ${host.first_name}!</p>
+        <p style="color: #374151;">A spot opened up — <strong>${guestName}</strong> is off the guest waitlist and in for ${gameDate}.</p>
+        <p style="color: #374151;">Your guest will be included in the confirmation email and suggested groupings.</p>
+
+        <p style="color: #9ca3af; font-size: 12px;">See you on the course!</p>
+      </div>
+    `,
+    tracking: { emailType: "guest_approved", eventId: event.id, scheduleId: schedule.id },
+  });
+
+  if (result.success) {
+    await supabase.from("email_log").insert({
+      event_id: event.id,
+      schedule_id: schedule.id,
+      email_type: "guest_approved",
+      subject,
+      recipient_count: guestEmail && guestEmail !== host.email ? 2 : 1,
+    });
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for handicap providers: reading the handicap chair's export
+ * and parsing Handicap Index values.
+ *
+ * Run with: npx tsx --test src/lib/handicap-providers.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseHandicapValue,
+  parseHandicapRows,
+  readHandicapFile,
+  CsvHandicapProvider,
+} from './handicap-providers';
+
+describe('parseHandicapValue', () => {
+  it('parses numbers, strings and plus handicaps', () => {
+    assert.equal(parseHandicapValue(12.4), 12.4);
+    assert.equal(parseHandicapValue(' 8.0 '), 8.0);
+    assert.equal(parseHandicapValue('+1.2'), -1.2);
+  });
+
+  it('treats NH and blanks as no handicap', () => {
+    assert.equal(parseHandicapValue('NH'), null);
+    assert.equal(parseHandicapValue(''), null);
+    assert.equal(parseHandicapValue(null), null);
+    assert.equal(parseHandicapValue('n/a'), null);
+  });
+});
+
+describe('parseHandicapRows', () => {
+  it('finds the header row and optional Low HI columns', () => {
+    const lookups = parseHandicapRows([
+      ['FRCC Handicap Export'],
+      ['Name', 'GHIN #', 'Handicap Index', 'Low HI', 'Low HI Date'],
+      ['Sam Parker', '1234567', '10.2', '8.9', '2026-04-12'],
+      ['Alex Kim', '7654321', 'NH', '', ''],
+      ['Total', '', '', '', ''],
+    ]);
+    assert.equal(lookups.size, 2);
+    assert.deepEqual(lookups.get('1234567'), { handicapIndex: 10.2, lowHiValue: 8.9, lowHiDate: '2026-04-12' });
+    assert.deepEqual(lookups.get('7654321'), { handicapIndex: null, lowHiValue: null, lowHiDate: null });
+  });
+
+  it('throws without GHIN and Handicap Index columns', () => {
+    assert.throws(() => parseHandicapRows([['Name', 'Index'], ['Sam Parker', '10.2']]));
+  });
+
+  it('reads a CSV file, keeping GHIN numbers as text', async () => {
+    const csv = 'GHIN,Handicap Index\n0012345,+0.8\n"9876543","21.0"\n';
+    const provider = new CsvHandicapProvider(readHandicapFile(new TextEncoder().encode(csv)));
+    await provider.prepare();
+    assert.equal((await provider.lookup('0012345')).handicapIndex, -0.8);
+    assert.equal((await provider.lookup('9876543')).handicapIndex, 21.0);
+    await assert.rejects(provider.lookup('5555555'), /not in the handicap file/);
+  });
+});
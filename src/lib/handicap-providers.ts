@@ -0,0 +1,342 @@
+/**
+ * Handicap Providers — where runHandicapSync gets Handicap Index values.
+ *
+ * - GhinHandicapProvider: the unofficial GHIN mobile app API (same
+ *   endpoints wrapped by @spicygolf/ghin), called directly so we can
+ *   patch endpoints if USGA changes them. Needs GHIN_EMAIL and
+ *   GHIN_PASSWORD.
+ * - CsvHandicapProvider: a handicap export the club's handicap chair
+ *   uploads from the event settings page. No credentials or network.
+ * - FakeHandicapProvider: in-memory values for tests and local
+ *   development (HANDICAP_PROVIDER=fake), so sync runs without real
+ *   GHIN credentials.
+ *
+ * Providers only look values up; runHandicapSync decides who to look
+ * up and writes the results.
+ */
+
+import * as XLSX from "xlsx";
+
+export type HandicapProviderName = "ghin" | "csv_import" | "fake";
+
+export interface HandicapLookup {
+  handicapIndex: number | null;
+  lowHiValue: number | null;
+  lowHiDate: string | null;
+  /** Full provider record, only returned when captureRaw is requested */
+  rawResponse?: Record<string, unknown>;
+}
+
+export interface HandicapProvider {
+  name: HandicapProviderName;
+  /** handicap_history.source for values from this provider */
+  historySource: "ghin_sync" | "csv_import";
+  /** Max golfers looked up per sync run (default: handicap-sync BATCH_SIZE) */
+  batchSize?: number;
+  /** Delay between lookups in milliseconds */
+  throttleMs: number;
+  /** Authenticate or load data. Throwing fails the whole run. */
+  prepare(): Promise<void>;
+  /** Look up one GHIN number. Throwing counts that golfer as a failure. */
+  lookup(ghinNumber: string, options?: { captureRaw?: boolean }): Promise<HandicapLookup>;
+}
+
+/**
+ * Parse a Handicap Index as GHIN writes it: "12.4", 12.4, "NH" (none).
+ * Plus handicaps ("+1.2") are stored negative, as net-scoring expects.
+ */
+export function parseHandicapValue(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number") return isNaN(value) ? null : value;
+
+  const text = String(value).trim();
+  if (text === "" || text.toUpperCase() === "NH") return null;
+
+  const parsed = parseFloat(text.replace(/^\+/, "-"));
+  return isNaN(parsed) ? null : parsed;
+}
+
+// ============================================================
+// GHIN API
+// ============================================================
+
+const GHIN_API_BASE = "https://api2.ghin.com/api/v1";
+const GHIN_LOGIN_URL = `${GHIN_API_BASE}/golfer_login.json`;
+
+/** Delay between GHIN requests to avoid triggering rate limits */
+const GHIN_THROTTLE_MS = 2000;
+
+interface GhinAuthResponse {
+  golfer_user: {
+    golfer_user_token: string;
+    ghin_number: number;
+  };
+}
+
+interface GhinGolferResponse {
+  golfers: Array<{
+    ghin_number: string;
+    handicap_index: string | number | null;
+    low_hi_value: number | null;
+    low_hi_date: string | null;
+    first_name: string;
+    last_name: string;
+    status: string;
+  }>;
+}
+
+export class GhinHandicapProvider implements HandicapProvider {
+  name = "ghin" as const;
+  historySource = "ghin_sync" as const;
+  throttleMs = GHIN_THROTTLE_MS;
+
+  private token: string | null = null;
+  private tokenExpiresAt = 0;
+
+  /**
+   * Authenticate with the GHIN API using Digital Profile credentials.
+   * The token is reused for an hour, so the cron's per-event runs share it.
+   */
+  async prepare(): Promise<void> {
+    const email = process.env.GHIN_EMAIL;
+    const password = process.env.GHIN_PASSWORD;
+
+    if (!email || !password) {
+      throw new Error("GHIN_EMAIL and GHIN_PASSWORD environment variables are required");
+    }
+
+    // Reuse the token if still valid (with 5-minute buffer)
+    if (this.token && Date.now() < this.tokenExpiresAt - 5 * 60 * 1000) {
+      return;
+    }
+
+    const response = await fetch(GHIN_LOGIN_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Accept": "application/json",
+      },
+      body: JSON.stringify({
+        token: "recaptcha-disabled",
+        user: {
+          email_or_ghin: email,
+          password,
+          remember_me: true,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`GHIN auth failed (${response.status}): ${text}`);
+    }
+
+    const data = (await response.json()) as GhinAuthResponse;
+    const token = data?.golfer_user?.golfer_user_token;
+
+    if (!token) {
+      throw new Error("GHIN auth response missing token");
+    }
+
+    this.token = token;
+    // Tokens typically last ~24 hours; cache for 1 hour to be safe
+    this.tokenExpiresAt = Date.now() + 60 * 60 * 1000;
+  }
+
+  /**
+   * Fetch the current handicap index and Low H.I. for a single GHIN number.
+   * rawResponse is the full GHIN API golfer object (only when captureRaw is set).
+   */
+  async lookup(ghinNumber: string, { captureRaw = false } = {}): Promise<HandicapLookup> {
+    if (!this.token) {
+      throw new Error("GHIN provider used before prepare()");
+    }
+
+    const url = `${GHIN_API_BASE}/golfers/search.json?per_page=1&page=1&golfer_id=${encodeURIComponent(ghinNumber)}`;
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        "Authorization": `Bearer ${this.token}`,
+        "Accept": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`GHIN lookup failed for ${ghinNumber} (${response.status}): ${text}`);
+    }
+
+    const data = (await response.json()) as GhinGolferResponse;
+
+    if (!data.golfers || data.golfers.length === 0) {
+      console.log(`GHIN lookup: No golfer found for GHIN# ${ghinNumber}`);
+      return { handicapIndex: null, lowHiValue: null, lowHiDate: null };
+    }
+
+    const golfer = data.golfers[0];
+    const rawResponse = captureRaw ? (golfer as unknown as Record<string, unknown>) : undefined;
+
+    // Parse Low H.I. (999 = no data sentinel from GHIN API)
+    const rawLowHi = golfer.low_hi_value;
+    const lowHiValue = (rawLowHi != null && rawLowHi !== 999) ? rawLowHi : null;
+    const lowHiDate = golfer.low_hi_date || null;
+
+    const handicapIndex = parseHandicapValue(golfer.handicap_index);
+    if (handicapIndex === null) {
+      console.log(`GHIN lookup: No handicap on file for GHIN# ${ghinNumber} ("${golfer.handicap_index}")`);
+    }
+
+    return { handicapIndex, lowHiValue, lowHiDate, rawResponse };
+  }
+}
+
+// ============================================================
+// CSV Import
+// ============================================================
+
+/**
+ * Handicap export columns, matched case-insensitively on the header row
+ * so the handicap chair doesn't have to rename columns before uploading.
+ */
+const CSV_GHIN_HEADERS = ["ghin", "ghin #", "ghin number", "ghin no", "golfer id", "golfer_id"];
+const CSV_INDEX_HEADERS = ["handicap index", "hi", "index", "handicap", "handicap_index"];
+const CSV_LOW_HI_HEADERS = ["low hi", "low h.i.", "low handicap index", "low_hi_value"];
+const CSV_LOW_HI_DATE_HEADERS = ["low hi date", "low h.i. date", "low_hi_date"];
+
+/**
+ * Turn spreadsheet rows into lookups keyed by GHIN number. The header row
+ * is found in the first few rows; rows without a GHIN number are skipped.
+ * Throws if there is no GHIN or Handicap Index column.
+ */
+export function parseHandicapRows(rows: unknown[][]): Map<string, HandicapLookup> {
+  for (let i = 0; i < Math.min(rows.length, 5); i++) {
+    const cells = (rows[i] || []).map((c) => String(c ?? "").trim().toLowerCase());
+    const ghinCol = cells.findIndex((c) => CSV_GHIN_HEADERS.includes(c));
+    const indexCol = cells.findIndex((c) => CSV_INDEX_HEADERS.includes(c));
+    if (ghinCol < 0 || indexCol < 0) continue;
+
+    const lowHiCol = cells.findIndex((c) => CSV_LOW_HI_HEADERS.includes(c));
+    const lowHiDateCol = cells.findIndex((c) => CSV_LOW_HI_DATE_HEADERS.includes(c));
+    const lookups = new Map<string, HandicapLookup>();
+
+    for (const row of rows.slice(i + 1)) {
+      const ghinNumber = String(row?.[ghinCol] ?? "").trim();
+      if (!ghinNumber) continue;
+
+      const lowHiDate = lowHiDateCol >= 0 ? String(row[lowHiDateCol] ?? "").trim() : "";
+      lookups.set(ghinNumber, {
+        handicapIndex: parseHandicapValue(row[indexCol]),
+        lowHiValue: lowHiCol >= 0 ? parseHandicapValue(row[lowHiCol]) : null,
+        lowHiDate: lowHiDate || null,
+      });
+    }
+    return lookups;
+  }
+
+  throw new Error("No GHIN and Handicap Index columns found in the header row");
+}
+
+/** Read a handicap export (.csv, .xlsx or .xls) with SheetJS */
+export function readHandicapFile(data: ArrayBuffer | Uint8Array): Map<string, HandicapLookup> {
+  const workbook = XLSX.read(data, { type: "array", raw: true });
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[workbook.SheetNames[0]], {
+    header: 1,
+    raw: false,
+  });
+  return parseHandicapRows(rows);
+}
+
+export class CsvHandicapProvider implements HandicapProvider {
+  name = "csv_import" as const;
+  historySource = "csv_import" as const;
+  batchSize = Infinity;
+  throttleMs = 0;
+
+  constructor(private lookups: Map<string, HandicapLookup>) {}
+
+  async prepare(): Promise<void> {
+    if (this.lookups.size === 0) {
+      throw new Error("The handicap file has no golfers in it");
+    }
+  }
+
+  /** Golfers missing from the file count as failures, not as "no handicap" */
+  async lookup(ghinNumber: string): Promise<HandicapLookup> {
+    const lookup = this.lookups.get(ghinNumber.trim());
+    if (!lookup) {
+      throw new Error(`GHIN# ${ghinNumber} is not in the handicap file`);
+    }
+    return lookup;
+  }
+}
+
+// ============================================================
+// In-memory Fake
+// ============================================================
+
+export class FakeHandicapProvider implements HandicapProvider {
+  name = "fake" as const;
+  historySource = "ghin_sync" as const;
+  throttleMs = 0;
+
+  /** GHIN numbers looked up, in order */
+  lookedUp: string[] = [];
+  /** GHIN numbers whose lookup throws */
+  failing = new Set<string>();
+  /** Error thrown from prepare(), like a failed GHIN login */
+  prepareError: string | null = null;
+
+  /**
+   * Seeded values win. Other GHIN numbers get a stable made-up index
+   * when invent is on (local development), and "not found" otherwise.
+   */
+  constructor(
+    private lookups = new Map<string, HandicapLookup>(),
+    private invent = false
+  ) {}
+
+  set(ghinNumber: string, handicapIndex: number | null, lowHiValue: number | null = null) {
+    this.lookups.set(ghinNumber, { handicapIndex, lowHiValue, lowHiDate: null });
+  }
+
+  async prepare(): Promise<void> {
+    if (this.prepareError) throw new Error(this.prepareError);
+  }
+
+  async lookup(ghinNumber: string): Promise<HandicapLookup> {
+    this.lookedUp.push(ghinNumber);
+    if (this.failing.has(ghinNumber)) {
+      throw new Error(`Fake lookup failed for ${ghinNumber}`);
+    }
+
+    const seeded = this.lookups.get(ghinNumber);
+    if (seeded) return seeded;
+    if (!this.invent) return { handicapIndex: null, lowHiValue: null, lowHiDate: null };
+
+    const seed = [...ghinNumber].reduce((sum, c) => (sum * 31 + c.charCodeAt(0)) % 10007, 7);
+    const handicapIndex = (seed % 300) / 10;
+    return { handicapIndex, lowHiValue: Math.max(0, Math.round((handicapIndex - 1.5) * 10) / 10), lowHiDate: null };
+  }
+}
+
+// ============================================================
+// Selection
+// ============================================================
+
+let defaultProvider: HandicapProvider | null = null;
+
+/**
+ * The provider scheduled syncs use: HANDICAP_PROVIDER=fake for local
+ * development, GHIN otherwise. One instance per server process so the
+ * GHIN token is reused across events.
+ */
+export function getDefaultHandicapProvider(): HandicapProvider {
+  if (!defaultProvider) {
+    defaultProvider =
+      process.env.HANDICAP_PROVIDER === "fake"
+        ? new FakeHandicapProvider(new Map(), true)
+        : new GhinHandicapProvider();
+  }
+  return defaultProvider;
+}
@@ -0,0 +1,262 @@
+/**
+ * Tests for runHandicapSync against the in-memory FakeHandicapProvider:
+ * BATCH_SIZE paging across runs, freshness skipping, file imports and
+ * the consecutive-failure alert path.
+ *
+ * Run with: npx tsx --test src/lib/handicap-sync.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  runHandicapSync,
+  getConsecutiveFailureCount,
+  shouldAlertSyncFailure,
+  BATCH_SIZE,
+} from './handicap-sync';
+import { FakeHandicapProvider, CsvHandicapProvider, type HandicapLookup } from './handicap-providers';
+
+// ============================================================
+// In-memory Supabase stand-in
+// ============================================================
+
+type Row = Record<string, unknown>;
+
+const EVENT_ID = 'event-1';
+const HOUR_MS = 60 * 60 * 1000;
+
+function hoursAgo(hours: number): string {
+  return new Date(Date.now() - hours * HOUR_MS).toISOString();
+}
+
+/**
+ * Just enough of the query builder for handicap-sync: insert/update/select
+ * with eq/neq/gte filters, order, limit and single. event_subscriptions is
+ * a view over profiles with a GHIN number, all subscribed to EVENT_ID.
+ */
+class FakeDatabase {
+  profiles: Row[] = [];
+  syncLog: Row[] = [];
+  history: Row[] = [];
+  private nextId = 1;
+
+  addGolfer(ghinNumber: string, handicapUpdatedAt: string | null = null): Row {
+    const profile: Row = {
+      id: `p${this.nextId++}`,
+      first_name: 'Golfer',
+      last_name: ghinNumber,
+      ghin_number: ghinNumber,
+      handicap_index: null,
+      handicap_updated_at: handicapUpdatedAt,
+    };
+    this.profiles.push(profile);
+    return profile;
+  }
+
+  rows(table: string): Row[] {
+    switch (table) {
+      case 'profiles':
+        return this.profiles;
+      case 'handicap_sync_log':
+        return this.syncLog;
+      case 'handicap_history':
+        return this.history;
+      case 'event_subscriptions':
+        return this.profiles
+          .filter((p) => p.ghin_number)
+          .map((profile) => ({ event_id: EVENT_ID, is_active: true, profile }));
+      default:
+        throw new Error(`Unexpected table ${table}`);
+    }
+  }
+
+  insert(table: string, row: Row): Row {
+    // started_at a second apart so runs order the way they ran
+    const inserted = { id: `r${this.nextId++}`, started_at: new Date(Date.now() + this.nextId * 1000).toISOString(), ...row };
+    this.rows(table).push(inserted);
+    return inserted;
+  }
+
+  client(): SupabaseClient {
+    return { from: (table: string) => new FakeQuery(this, table) } as unknown as SupabaseClient;
+  }
+}
+
+class FakeQuery implements PromiseLike<{ data: unknown; error: null }> {
+  private filters: ((r: Row) => boolean)[] = [];
+  private insertRow: Row | null = null;
+  private updateFields: Row | null = null;
+  private orderBy: { column: string; ascending: boolean } | null = null;
+  private limitTo: number | null = null;
+  private one = false;
+
+  constructor(private db: FakeDatabase, private table: string) {}
+
+  select() { return this; }
+  insert(row: Row) { this.insertRow = row; return this; }
+  update(fields: Row) { this.updateFields = fields; return this; }
+  eq(column: string, value: unknown) { this.filters.push((r) => r[column] === value); return this; }
+  neq(column: string, value: unknown) { this.filters.push((r) => r[column] !== value); return this; }
+  gte(column: string, value: string) { this.filters.push((r) => String(r[column] ?? '') >= value); return this; }
+  not() { return this; } // profile.ghin_number IS NOT NULL — the view already filters
+  order(column: string, { ascending = true } = {}) { this.orderBy = { column, ascending }; return this; }
+  limit(n: number) { this.limitTo = n; return this; }
+  single() { this.one = true; return this; }
+  maybeSingle() { this.one = true; return this; }
+
+  private run(): unknown {
+    if (this.insertRow) {
+      const inserted = this.db.insert(this.table, this.insertRow);
+      return this.one ? inserted : [inserted];
+    }
+
+    let rows = this.db.rows(this.table).filter((r) => this.filters.every((f) => f(r)));
+    if (this.updateFields) {
+      rows.forEach((r) => Object.assign(r, this.updateFields));
+      return null;
+    }
+    if (this.orderBy) {
+      const { column, ascending } = this.orderBy;
+      rows = [...rows].sort((a, b) => String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1));
+    }
+    if (this.limitTo !== null) rows = rows.slice(0, this.limitTo);
+    return this.one ? rows[0] ?? null : rows;
+  }
+
+  then<T1 = { data: unknown; error: null }, T2 = never>(
+    onfulfilled?: ((value: { data: unknown; error: null }) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve()
+      .then(() => ({ data: this.run(), error: null as null }))
+      .then(onfulfilled, onrejected);
+  }
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+describe('runHandicapSync paging', () => {
+  it('looks up BATCH_SIZE golfers per run, never-synced then stalest first', async () => {
+    const db = new FakeDatabase();
+    const neverSynced = Array.from({ length: BATCH_SIZE + 2 }, (_, i) => db.addGolfer(`${1000 + i}`));
+    db.addGolfer('2000', hoursAgo(48));
+    db.addGolfer('3000', hoursAgo(72));
+    const provider = new FakeHandicapProvider(new Map(), true);
+
+    const first = await runHandicapSync(EVENT_ID, { provider, supabase: db.client() });
+    assert.equal(first.totalGolfers, BATCH_SIZE + 4);
+    assert.equal(first.successCount, BATCH_SIZE);
+    assert.equal(first.skippedCount, 0);
+    assert.deepEqual(provider.lookedUp, neverSynced.slice(0, BATCH_SIZE).map((p) => p.ghin_number));
+
+    // The next run skips the golfers just synced and picks up the rest
+    provider.lookedUp = [];
+    const second = await runHandicapSync(EVENT_ID, { provider, supabase: db.client() });
+    assert.equal(second.skippedCount, BATCH_SIZE);
+    assert.deepEqual(provider.lookedUp, ['1020', '1021', '3000', '2000']);
+    assert.ok(db.profiles.every((p) => p.handicap_index !== null));
+  });
+});
+
+describe('runHandicapSync freshness', () => {
+  it('skips golfers updated within FRESHNESS_HOURS', async () => {
+    const db = new FakeDatabase();
+    const fresh = db.addGolfer('111', hoursAgo(1));
+    const stale = db.addGolfer('222', hoursAgo(30));
+    const provider = new FakeHandicapProvider();
+    provider.set('111', 5.0);
+    provider.set('222', 14.3, 12.1);
+
+    const result = await runHandicapSync(EVENT_ID, { provider, supabase: db.client() });
+    assert.equal(result.skippedCount, 1);
+    assert.equal(result.successCount, 1);
+    assert.deepEqual(provider.lookedUp, ['222']);
+    assert.equal(fresh.handicap_index, null);
+    assert.equal(stale.handicap_index, 14.3);
+    assert.equal(stale.low_hi_value, 12.1);
+    assert.deepEqual(
+      db.history.map((h) => [h.profile_id, h.handicap_index, h.source]),
+      [[stale.id, 14.3, 'ghin_sync']]
+    );
+    assert.equal(db.syncLog[0].status, 'completed');
+    assert.equal(db.syncLog[0].provider, 'fake');
+  });
+
+  it('updates everyone from a file, failing golfers missing from it', async () => {
+    const db = new FakeDatabase();
+    const golfers = Array.from({ length: BATCH_SIZE + 5 }, (_, i) => db.addGolfer(`${500 + i}`, hoursAgo(1)));
+    const lookups = new Map<string, HandicapLookup>(
+      golfers.slice(1).map((g) => [g.ghin_number as string, { handicapIndex: 9.9, lowHiValue: null, lowHiDate: null }])
+    );
+    const provider = new CsvHandicapProvider(lookups);
+
+    const result = await runHandicapSync(EVENT_ID, { provider, supabase: db.client(), freshnessHours: 0 });
+    assert.equal(result.success, true);
+    assert.equal(result.skippedCount, 0);
+    assert.equal(result.successCount, BATCH_SIZE + 4);
+    assert.equal(result.failureCount, 1);
+    assert.ok(db.history.every((h) => h.source === 'csv_import'));
+    assert.equal(db.syncLog[0].provider, 'csv_import');
+  });
+});
+
+describe('consecutive-failure alerts', () => {
+  it('alerts on the first failure, then every third while it keeps failing', async () => {
+    const db = new FakeDatabase();
+    db.addGolfer('111');
+    const provider = new FakeHandicapProvider();
+    provider.prepareError = 'GHIN auth failed (401): bad credentials';
+
+    const alerts: boolean[] = [];
+    for (let run = 0; run < 7; run++) {
+      const result = await runHandicapSync(EVENT_ID, { provider, supabase: db.client() });
+      assert.equal(result.success, false);
+      assert.equal(result.errorMessage, 'GHIN auth failed (401): bad credentials');
+      const failures = await getConsecutiveFailureCount(EVENT_ID, db.client());
+      assert.equal(failures, run + 1);
+      alerts.push(shouldAlertSyncFailure(result, failures));
+    }
+    assert.deepEqual(alerts, [true, false, true, false, false, true, false]);
+
+    // A successful run resets the count
+    provider.prepareError = null;
+    const recovered = await runHandicapSync(EVENT_ID, { provider, supabase: db.client() });
+    assert.equal(await getConsecutiveFailureCount(EVENT_ID, db.client()), 0);
+    assert.equal(shouldAlertSyncFailure(recovered, 0), false);
+  });
+
+  it('fails the run when every lookup fails, but not when some succeed', async () => {
+    const db = new FakeDatabase();
+    db.addGolfer('111');
+    db.addGolfer('222');
+    const provider = new FakeHandicapProvider();
+    provider.failing = new Set(['111', '222']);
+
+    const allFailed = await runHandicapSync(EVENT_ID, { provider, supabase: db.client() });
+    assert.equal(allFailed.success, false);
+    assert.equal(db.syncLog[0].error_message, '2 of 2 lookups failed');
+    assert.equal(shouldAlertSyncFailure(allFailed, await getConsecutiveFailureCount(EVENT_ID, db.client())), true);
+
+    provider.failing = new Set(['111']);
+    const partial = await runHandicapSync(EVENT_ID, { provider, supabase: db.client() });
+    assert.equal(partial.success, true);
+    assert.equal(partial.failureCount, 1);
+    assert.equal(shouldAlertSyncFailure(partial, await getConsecutiveFailureCount(EVENT_ID, db.client())), false);
+  });
+
+  it('leaves failed file uploads out of the count', async () => {
+    const db = new FakeDatabase();
+    db.addGolfer('111');
+    const ghin = new FakeHandicapProvider();
+    ghin.prepareError = 'GHIN is down';
+
+    await runHandicapSync(EVENT_ID, { provider: ghin, supabase: db.client() });
+    await runHandicapSync(EVENT_ID, { provider: new CsvHandicapProvider(new Map()), supabase: db.client() });
+    assert.equal(db.syncLog.filter((l) => l.status === 'failed').length, 2);
+    assert.equal(await getConsecutiveFailureCount(EVENT_ID, db.client()), 1);
+  });
+});
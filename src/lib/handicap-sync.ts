@@ -1,185 +1,43 @@
 /**
- * GHIN Handicap Sync Service
+ * Handicap Sync Service
  *
- * Fetches current Handicap Index values from the GHIN API for golfers
- * with a GHIN number on file. Uses the unofficial GHIN mobile app API
- * (same endpoints wrapped by @spicygolf/ghin) directly — no external
- * dependency, so we can patch endpoints if USGA changes them.
+ * Updates profiles.handicap_index (and Low H.I.) for golfers with a GHIN
+ * number on file, from a HandicapProvider (see handicap-providers.ts):
+ * the GHIN API on the cron, or a handicap file an admin uploads.
  *
- * Authentication: Requires a GHIN Digital Profile (email + password)
- * stored as GHIN_EMAIL and GHIN_PASSWORD environment variables.
+ * Batching: GHIN runs look up at most BATCH_SIZE golfers, stalest first,
+ * with a 2-second delay between requests, to stay within Vercel's
+ * 60-second function timeout. Golfers updated within FRESHNESS_HOURS are
+ * skipped, so the next run picks up where this one stopped.
  *
- * Rate limiting: 2-second delay between requests to avoid triggering
- * GHIN rate limits. Batch cap of 20 golfers per invocation to stay
- * within Vercel's 60-second function timeout.
- *
- * Graceful degradation: If env vars are missing, auth fails, or the
+ * Graceful degradation: If credentials are missing, auth fails, or the
  * API is down, the sync silently skips or logs errors without
  * affecting any other app functionality.
  */
 
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { createAdminClient } from "@/lib/supabase/server";
+import {
+  getDefaultHandicapProvider,
+  type HandicapProvider,
+  type HandicapProviderName,
+} from "@/lib/handicap-providers";
 
 // ============================================================
 // Configuration
 // ============================================================
 
-const GHIN_API_BASE = "https://api2.ghin.com/api/v1";
-const GHIN_LOGIN_URL = `${GHIN_API_BASE}/golfer_login.json`;
-
-/** Max golfers to process per cron invocation (Vercel 60s timeout) */
-const BATCH_SIZE = 20;
-
-/** Delay between API requests in milliseconds */
-const THROTTLE_MS = 2000;
+/** Max golfers to process per run, unless the provider sets its own */
+export const BATCH_SIZE = 20;
 
 /** Handicap is considered fresh if updated within this many hours */
-const FRESHNESS_HOURS = 24;
-
-/** Number of consecutive failures before alerting admin */
-const CONSECUTIVE_FAILURE_THRESHOLD = 3;
-
-// ============================================================
-// GHIN API Client
-// ============================================================
-
-interface GhinAuthResponse {
-  golfer_user: {
-    golfer_user_token: string;
-    ghin_number: number;
-  };
-}
-
-interface GhinGolferResponse {
-  golfers: Array<{
-    ghin_number: string;
-    handicap_index: string | number | null;
-    low_hi_value: number | null;
-    low_hi_date: string | null;
-    first_name: string;
-    last_name: string;
-    status: string;
-  }>;
-}
-
-let cachedToken: string | null = null;
-let tokenExpiresAt: number = 0;
-
-/**
- * Authenticate with the GHIN API using Digital Profile credentials.
- * Returns a bearer token. Caches the token for reuse within the same
- * function invocation.
- */
-async function authenticateGhin(): Promise<string> {
-  const email = process.env.GHIN_EMAIL;
-  const password = process.env.GHIN_PASSWORD;
-
-  if (!email || !password) {
-    throw new Error("GHIN_EMAIL and GHIN_PASSWORD environment variables are required");
-  }
-
-  // Return cached token if still valid (with 5-minute buffer)
-  if (cachedToken && Date.now() < tokenExpiresAt - 5 * 60 * 1000) {
-    return cachedToken;
-  }
-
-  const response = await fetch(GHIN_LOGIN_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Accept": "application/json",
-    },
-    body: JSON.stringify({
-      token: "recaptcha-disabled",
-      user: {
-        email_or_ghin: email,
-        password,
-        remember_me: true,
-      },
-    }),
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`GHIN auth failed (${response.status}): ${text}`);
-  }
-
-  const data = (await response.json()) as GhinAuthResponse;
-  const token = data?.golfer_user?.golfer_user_token;
-
-  if (!token) {
-    throw new Error("GHIN auth response missing token");
-  }
-
-  cachedToken = token;
-  // Tokens typically last ~24 hours; cache for 1 hour to be safe
-  tokenExpiresAt = Date.now() + 60 * 60 * 1000;
-
-  return token;
-}
+export const FRESHNESS_HOURS = 24;
 
-/**
- * Fetch the current handicap index and Low H.I. for a single GHIN number.
- * Returns { handicapIndex, lowHiValue, lowHiDate, rawResponse } —
- * rawResponse is the full GHIN API golfer object (only captured when captureRaw is true).
- */
-async function fetchHandicapIndex(
-  ghinNumber: string,
-  token: string,
-  captureRaw: boolean = false
-): Promise<{
-  handicapIndex: number | null;
-  lowHiValue: number | null;
-  lowHiDate: string | null;
-  rawResponse?: Record<string, unknown>;
-}> {
-  const url = `${GHIN_API_BASE}/golfers/search.json?per_page=1&page=1&golfer_id=${encodeURIComponent(ghinNumber)}`;
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: {
-      "Authorization": `Bearer ${token}`,
-      "Accept": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`GHIN lookup failed for ${ghinNumber} (${response.status}): ${text}`);
-  }
-
-  const data = (await response.json()) as GhinGolferResponse;
-
-  if (!data.golfers || data.golfers.length === 0) {
-    console.log(`GHIN lookup: No golfer found for GHIN# ${ghinNumber}`);
-    return { handicapIndex: null, lowHiValue: null, lowHiDate: null };
-  }
-
-  const golfer = data.golfers[0];
-  const rawResponse = captureRaw ? (golfer as unknown as Record<string, unknown>) : undefined;
-  const handicapIndexVal = golfer.handicap_index;
+/** Alert on the first failure, then every this many consecutive failures */
+export const CONSECUTIVE_FAILURE_THRESHOLD = 3;
 
-  // Parse Low H.I. (999 = no data sentinel from GHIN API)
-  const rawLowHi = golfer.low_hi_value;
-  const lowHiValue = (rawLowHi != null && rawLowHi !== 999) ? rawLowHi : null;
-  const lowHiDate = golfer.low_hi_date || null;
-
-  if (handicapIndexVal === null || handicapIndexVal === undefined || handicapIndexVal === "NH") {
-    console.log(`GHIN lookup: No handicap on file for GHIN# ${ghinNumber}`);
-    return { handicapIndex: null, lowHiValue, lowHiDate, rawResponse };
-  }
-
-  const parsed = typeof handicapIndexVal === "string"
-    ? parseFloat(handicapIndexVal)
-    : handicapIndexVal;
-
-  if (isNaN(parsed)) {
-    console.log(`GHIN lookup: Invalid handicap value "${handicapIndexVal}" for GHIN# ${ghinNumber}`);
-    return { handicapIndex: null, lowHiValue, lowHiDate, rawResponse };
-  }
-
-  return { handicapIndex: parsed, lowHiValue, lowHiDate, rawResponse };
-}
+/** How many recent runs getConsecutiveFailureCount looks back over */
+const FAILURE_LOOKBACK_RUNS = 30;
 
 /** Throttle helper */
 function delay(ms: number): Promise<void> {
@@ -190,7 +48,7 @@ function delay(ms: number): Promise<void> {
 // Sync Orchestration
 // ============================================================
 
-interface SyncResult {
+export interface SyncResult {
   success: boolean;
   totalGolfers: number;
   successCount: number;
@@ -199,24 +57,39 @@ interface SyncResult {
   errorMessage?: string;
 }
 
+export interface HandicapSyncOptions {
+  /** Where handicaps come from (default: getDefaultHandicapProvider()) */
+  provider?: HandicapProvider;
+  /** Defaults to the admin client; tests pass an in-memory one */
+  supabase?: SupabaseClient;
+  /** Skip golfers updated within this many hours; 0 updates everyone */
+  freshnessHours?: number;
+}
+
 /**
  * Run a handicap sync for all golfers subscribed to the given event.
  *
  * - Skips golfers without GHIN numbers.
  * - Skips golfers whose handicap was updated within FRESHNESS_HOURS.
- * - Processes up to BATCH_SIZE golfers per invocation.
+ * - Processes up to BATCH_SIZE golfers per invocation (or the provider's batch size).
  * - Updates profiles.handicap_index and profiles.handicap_updated_at on success.
  * - Logs the run to handicap_sync_log for health monitoring.
  */
-export async function runHandicapSync(eventId: string): Promise<SyncResult> {
-  const supabase = createAdminClient();
-
+export async function runHandicapSync(
+  eventId: string,
+  {
+    provider = getDefaultHandicapProvider(),
+    supabase = createAdminClient(),
+    freshnessHours = FRESHNESS_HOURS,
+  }: HandicapSyncOptions = {}
+): Promise<SyncResult> {
   // Create a sync log entry
   const { data: logEntry, error: logError } = await supabase
     .from("handicap_sync_log")
     .insert({
       event_id: eventId,
       status: "running",
+      provider: provider.name,
     })
     .select("id")
     .single();
@@ -228,13 +101,12 @@ export async function runHandicapSync(eventId: string): Promise<SyncResult> {
   const logId = logEntry?.id;
 
   try {
-    // Authenticate with GHIN
-    let token: string;
+    // Authenticate with GHIN (or load the provider's data)
     try {
-      token = await authenticateGhin();
+      await provider.prepare();
     } catch (authError) {
       const errorMsg = authError instanceof Error ? authError.message : "Unknown auth error";
-      console.error("GHIN authentication failed:", errorMsg);
+      console.error(`Handicap provider ${provider.name} failed to start:`, errorMsg);
 
       // Update log entry
       if (logId) {
@@ -303,7 +175,7 @@ export async function runHandicapSync(eventId: string): Promise<SyncResult> {
 
     // Filter and sort: skip recently updated, prioritize stalest first
     const freshnessThreshold = new Date(
-      Date.now() - FRESHNESS_HOURS * 60 * 60 * 1000
+      Date.now() - freshnessHours * 60 * 60 * 1000
     ).toISOString();
 
     type GolferProfile = {
@@ -334,7 +206,7 @@ export async function runHandicapSync(eventId: string): Promise<SyncResult> {
     });
 
     // Apply batch limit
-    const batch = needsUpdate.slice(0, BATCH_SIZE);
+    const batch = needsUpdate.slice(0, provider.batchSize ?? BATCH_SIZE);
     const totalGolfers = allProfiles.length;
 
     console.log(
@@ -352,7 +224,7 @@ export async function runHandicapSync(eventId: string): Promise<SyncResult> {
     for (const profile of batch) {
       try {
         const isFirstGolfer = !capturedRawResponse;
-        const result = await fetchHandicapIndex(profile.ghin_number, token, isFirstGolfer);
+        const result = await provider.lookup(profile.ghin_number, { captureRaw: isFirstGolfer });
         const handicapIndex = result.handicapIndex;
 
         // Store raw response from first golfer in sync log for field discovery
@@ -392,7 +264,7 @@ export async function runHandicapSync(eventId: string): Promise<SyncResult> {
               .insert({
                 profile_id: profile.id,
                 handicap_index: handicapIndex,
-                source: "ghin_sync",
+                source: provider.historySource,
                 recorded_at: now,
               });
 
@@ -415,15 +287,15 @@ export async function runHandicapSync(eventId: string): Promise<SyncResult> {
         }
       } catch (err) {
         console.error(
-          `GHIN lookup error for ${profile.first_name} ${profile.last_name} (GHIN# ${profile.ghin_number}):`,
+          `Handicap lookup error for ${profile.first_name} ${profile.last_name} (GHIN# ${profile.ghin_number}):`,
           err
         );
         failureCount++;
       }
 
       // Throttle between requests
-      if (batch.indexOf(profile) < batch.length - 1) {
-        await delay(THROTTLE_MS);
+      if (provider.throttleMs > 0 && batch.indexOf(profile) < batch.length - 1) {
+        await delay(provider.throttleMs);
       }
     }
 
@@ -502,15 +374,23 @@ export function isGhinConfigured(): boolean {
   return !!(process.env.GHIN_EMAIL && process.env.GHIN_PASSWORD);
 }
 
+/**
+ * Check if the scheduled sync has a provider to run with: the local fake
+ * (HANDICAP_PROVIDER=fake) or GHIN credentials.
+ */
+export function isHandicapProviderConfigured(): boolean {
+  return process.env.HANDICAP_PROVIDER === "fake" || isGhinConfigured();
+}
+
 /**
  * Check if a handicap sync is needed for an event.
  * Returns true if:
  *   1. handicap_sync_enabled is true for the event
- *   2. GHIN credentials are configured
+ *   2. GHIN credentials (or the local fake provider) are configured
  *   3. No successful sync has run for this event within FRESHNESS_HOURS
  */
 export async function needsHandicapSync(eventId: string): Promise<boolean> {
-  if (!isGhinConfigured()) return false;
+  if (!isHandicapProviderConfigured()) return false;
 
   const supabase = createAdminClient();
 
@@ -542,18 +422,23 @@ export async function needsHandicapSync(eventId: string): Promise<boolean> {
 
 /**
  * Check the count of consecutive recent failures for an event.
- * Used to determine if an admin alert should be sent.
+ * Used to determine if an admin alert should be sent. CSV uploads are
+ * left out — the admin who uploaded the file already saw the result.
  */
-export async function getConsecutiveFailureCount(eventId: string): Promise<number> {
-  const supabase = createAdminClient();
-
-  // Get the last N sync log entries for this event
+export async function getConsecutiveFailureCount(
+  eventId: string,
+  supabase: SupabaseClient = createAdminClient()
+): Promise<number> {
+  // Get the last N sync log entries for this event. Looking back further
+  // than the alert threshold lets the count pass it, so alerts repeat
+  // every CONSECUTIVE_FAILURE_THRESHOLD failures rather than every run.
   const { data: recentLogs } = await supabase
     .from("handicap_sync_log")
     .select("status")
     .eq("event_id", eventId)
+    .neq("provider", "csv_import")
     .order("started_at", { ascending: false })
-    .limit(CONSECUTIVE_FAILURE_THRESHOLD);
+    .limit(FAILURE_LOOKBACK_RUNS);
 
   if (!recentLogs || recentLogs.length === 0) return 0;
 
@@ -569,6 +454,17 @@ export async function getConsecutiveFailureCount(eventId: string): Promise<numbe
   return consecutiveFailures;
 }
 
+/**
+ * Whether a scheduled sync's result should email the admins: on the
+ * first failure in a row, then every CONSECUTIVE_FAILURE_THRESHOLD
+ * failures while the outage lasts.
+ */
+export function shouldAlertSyncFailure(result: SyncResult, consecutiveFailures: number): boolean {
+  const failed = !result.success || (result.failureCount > 0 && result.successCount === 0);
+  if (!failed || consecutiveFailures === 0) return false;
+  return consecutiveFailures === 1 || consecutiveFailures % CONSECUTIVE_FAILURE_THRESHOLD === 0;
+}
+
 /**
  * Get the most recent sync log entry for an event.
  * Used for admin UI status display.
@@ -580,6 +476,7 @@ export async function getLatestSyncStatus(eventId: string): Promise<{
   totalGolfers: number;
   failureCount: number;
   errorMessage: string | null;
+  provider: HandicapProviderName | null;
 } | null> {
   const supabase = createAdminClient();
 
@@ -599,6 +496,7 @@ export async function getLatestSyncStatus(eventId: string): Promise<{
       totalGolfers: 0,
       failureCount: 0,
       errorMessage: null,
+      provider: null,
     };
   }
 
@@ -618,5 +516,6 @@ export async function getLatestSyncStatus(eventId: string): Promise<{
     totalGolfers: latestLog.total_golfers,
     failureCount: latestLog.failure_count,
     errorMessage: latestLog.error_message,
+    provider: latestLog.provider,
   };
 }
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for handicap trends: building the chart series from
+ * handicap_history rows and finding sharp index moves.
+ *
+ * Run with: npx tsx --test src/lib/handicap-trends.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildHandicapSeries,
+  largestHandicapMove,
+  findHandicapMoves,
+  type HandicapPoint,
+} from './handicap-trends';
+
+function point(date: string, handicapIndex: number): HandicapPoint {
+  return { recordedAt: `${date}T14:00:00+00:00`, handicapIndex };
+}
+
+describe('buildHandicapSeries', () => {
+  it('sorts oldest first and parses numeric strings', () => {
+    const series = buildHandicapSeries([
+      { recorded_at: '2026-03-01T14:00:00+00:00', handicap_index: '12.4' },
+      { recorded_at: '2026-01-01T14:00:00+00:00', handicap_index: 11.0 },
+    ]);
+    assert.deepEqual(series.map((p) => p.handicapIndex), [11.0, 12.4]);
+  });
+
+  it('keeps only the first and last reading of a repeated value', () => {
+    const rows = ['01', '02', '03', '04'].map((d) => ({
+      recorded_at: `2026-05-${d}T14:00:00+00:00`,
+      handicap_index: 9.5,
+    }));
+    rows.push({ recorded_at: '2026-05-05T14:00:00+00:00', handicap_index: 10.1 });
+    const series = buildHandicapSeries(rows);
+    assert.deepEqual(
+      series.map((p) => p.recordedAt.slice(0, 10)),
+      ['2026-05-01', '2026-05-04', '2026-05-05']
+    );
+  });
+});
+
+describe('largestHandicapMove', () => {
+  it('returns null without a change', () => {
+    assert.equal(largestHandicapMove([point('2026-05-01', 8.0)]), null);
+    assert.equal(largestHandicapMove([point('2026-05-01', 8.0), point('2026-05-10', 8.0)]), null);
+  });
+
+  it('finds the biggest change within the window', () => {
+    const move = largestHandicapMove([
+      point('2026-04-01', 10.0),
+      point('2026-04-10', 11.0),
+      point('2026-04-25', 14.2),
+      point('2026-05-20', 13.0),
+    ]);
+    assert.equal(move?.change, 4.2);
+    assert.equal(move?.from.recordedAt.slice(0, 10), '2026-04-01');
+    assert.equal(move?.to.recordedAt.slice(0, 10), '2026-04-25');
+  });
+
+  it('ignores changes spread over more than the window', () => {
+    const move = largestHandicapMove([point('2026-01-01', 10.0), point('2026-03-01', 15.0)], 30);
+    assert.equal(move, null);
+  });
+
+  it('reports drops as negative changes', () => {
+    const move = largestHandicapMove([point('2026-06-01', 18.3), point('2026-06-15', 14.0)]);
+    assert.equal(move?.change, -4.3);
+  });
+});
+
+describe('findHandicapMoves', () => {
+  const asOf = new Date('2026-07-01T12:00:00Z');
+  const history = new Map<string, HandicapPoint[]>([
+    ['steady', [point('2026-06-01', 12.0), point('2026-06-20', 12.6)]],
+    ['riser', [point('2026-06-01', 9.0), point('2026-06-21', 12.5)]],
+    ['dropper', [point('2026-05-15', 20.0), point('2026-06-05', 15.5)]],
+    ['old news', [point('2026-01-01', 5.0), point('2026-01-15', 12.0)]],
+  ]);
+
+  it('flags moves over the threshold, biggest first', () => {
+    const flagged = findHandicapMoves(history, { thresholdStrokes: 3, asOf });
+    assert.deepEqual(flagged.map((f) => f.profileId), ['dropper', 'riser']);
+  });
+
+  it('needs more than the threshold, not equal to it', () => {
+    const flagged = findHandicapMoves(history, { thresholdStrokes: 4.5, asOf });
+    assert.deepEqual(flagged, []);
+  });
+
+  it('only looks back over the lookback period', () => {
+    const flagged = findHandicapMoves(history, { thresholdStrokes: 3, asOf, lookbackDays: 365 });
+    assert.deepEqual(flagged.map((f) => f.profileId), ['old news', 'dropper', 'riser']);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Handicap Trends — reading handicap_history back out.
+ *
+ * runHandicapSync records each new Handicap Index in handicap_history
+ * (migration 021). These helpers turn those rows into a chart series for
+ * the profile and admin golfer pages, and find golfers whose index moved
+ * sharply in a short window — a sandbagging signal admins check before
+ * grouping by handicap flight.
+ *
+ * Everything here is pure; callers load the rows.
+ */
+
+/** Window a handicap move is measured over */
+export const HANDICAP_MOVE_WINDOW_DAYS = 30;
+
+/** How far back the movement report looks for moves */
+export const HANDICAP_MOVE_LOOKBACK_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface HandicapPoint {
+  recordedAt: string; // ISO timestamp
+  handicapIndex: number;
+}
+
+/**
+ * Sort history oldest first and collapse runs of the same value to their
+ * first and last readings. Keeping the last reading of a run dates a
+ * change from when the old value was last seen, and runs the line up to
+ * the latest sync.
+ */
+export function buildHandicapSeries(
+  rows: Array<{ recorded_at: string; handicap_index: number | string }>
+): HandicapPoint[] {
+  const sorted = rows
+    .map((r) => ({ recordedAt: r.recorded_at, handicapIndex: Number(r.handicap_index) }))
+    .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+
+  return sorted.filter(
+    (p, i) =>
+      i === 0 ||
+      i === sorted.length - 1 ||
+      p.handicapIndex !== sorted[i - 1].handicapIndex ||
+      p.handicapIndex !== sorted[i + 1].handicapIndex
+  );
+}
+
+export interface HandicapMove {
+  from: HandicapPoint;
+  to: HandicapPoint;
+  /** Strokes, positive when the index went up */
+  change: number;
+}
+
+/**
+ * The largest change between two readings no more than windowDays apart.
+ * Returns null with fewer than two readings or when nothing changed.
+ */
+export function largestHandicapMove(
+  points: HandicapPoint[],
+  windowDays: number = HANDICAP_MOVE_WINDOW_DAYS
+): HandicapMove | null {
+  const windowMs = windowDays * DAY_MS;
+  const times = points.map((p) => new Date(p.recordedAt).getTime());
+  let best: HandicapMove | null = null;
+
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length && times[j] - times[i] <= windowMs; j++) {
+      const change = Math.round((points[j].handicapIndex - points[i].handicapIndex) * 10) / 10;
+      if (change !== 0 && (!best || Math.abs(change) > Math.abs(best.change))) {
+        best = { from: points[i], to: points[j], change };
+      }
+    }
+  }
+  return best;
+}
+
+export interface FlaggedHandicapMove extends HandicapMove {
+  profileId: string;
+}
+
+/**
+ * Golfers whose index moved more than thresholdStrokes within the move
+ * window, looking at readings since lookbackDays before asOf. Biggest
+ * moves first.
+ */
+export function findHandicapMoves(
+  historyByProfile: Map<string, HandicapPoint[]>,
+  {
+    thresholdStrokes,
+    asOf,
+    windowDays = HANDICAP_MOVE_WINDOW_DAYS,
+    lookbackDays = HANDICAP_MOVE_LOOKBACK_DAYS,
+  }: { thresholdStrokes: number; asOf: Date; windowDays?: number; lookbackDays?: number }
+): FlaggedHandicapMove[] {
+  const since = asOf.getTime() - lookbackDays * DAY_MS;
+  const flagged: FlaggedHandicapMove[] = [];
+
+  for (const [profileId, points] of historyByProfile) {
+    const recent = points.filter((p) => new Date(p.recordedAt).getTime() >= since);
+    const move = largestHandicapMove(recent, windowDays);
+    if (move && Math.abs(move.change) > thresholdStrokes) {
+      flagged.push({ profileId, ...move });
+    }
+  }
+
+  return flagged.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+}
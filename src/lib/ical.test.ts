@@ -0,0 +1,129 @@
+/**
+ * Unit tests for iCalendar generation: text escaping, line folding, local
+ * tee times and the game VEVENTs used by the feed and email attachment.
+ *
+ * Run with: npx tsx --test src/lib/ical.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsLocalDateTime,
+  buildGamesCalendar,
+  buildGameIcsAttachment,
+  type IcsGame,
+} from './ical';
+
+const game: IcsGame = {
+  scheduleId: 'sched-1',
+  eventName: 'Saturday Morning Group',
+  gameDate: '2026-03-07',
+  firstTeeTime: '07:30',
+  gameType: '18_holes',
+  groupNumber: 3,
+  location: 'Fairbanks Ranch Country Club, 15150 San Dieguito Rd, Rancho Santa Fe, CA 92067',
+  url: 'https://example.com/rsvp/abc',
+};
+
+describe('escapeIcsText', () => {
+  it('escapes backslashes, separators and newlines', () => {
+    assert.equal(escapeIcsText('a\\b; c, d\ne'), 'a\\\\b\\; c\\, d\\ne');
+  });
+});
+
+describe('foldIcsLine', () => {
+  it('leaves short lines alone', () => {
+    assert.equal(foldIcsLine('SUMMARY:Golf'), 'SUMMARY:Golf');
+  });
+
+  it('folds long lines at 75 octets with a leading space', () => {
+    const folded = foldIcsLine('DESCRIPTION:' + 'x'.repeat(200));
+    const lines = folded.split('\r\n');
+    assert.ok(lines.length > 1);
+    assert.equal(lines[0].length, 75);
+    for (const line of lines.slice(1)) {
+      assert.ok(line.startsWith(' '));
+      assert.ok(Buffer.byteLength(line) <= 75);
+    }
+    assert.equal(folded.replace(/\r\n /g, ''), 'DESCRIPTION:' + 'x'.repeat(200));
+  });
+
+  it('never splits a multi-byte character', () => {
+    const folded = foldIcsLine('SUMMARY:' + '—'.repeat(40));
+    for (const line of folded.split('\r\n')) {
+      assert.ok(Buffer.byteLength(line) <= 75);
+      assert.ok(!line.includes('�'));
+    }
+  });
+});
+
+describe('formatIcsLocalDateTime', () => {
+  it('formats the tee time as local time', () => {
+    assert.equal(formatIcsLocalDateTime('2026-03-07', '07:30'), '20260307T073000');
+  });
+
+  it('adds the game length, rolling over the hour', () => {
+    assert.equal(formatIcsLocalDateTime('2026-03-07', '07:30', 270), '20260307T120000');
+  });
+});
+
+describe('buildGamesCalendar', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('builds a Pacific-time VEVENT with tee time and group', () => {
+    const ics = buildGamesCalendar([game], { now });
+    assert.match(ics, /^BEGIN:VCALENDAR\r\n/);
+    assert.match(ics, /END:VCALENDAR\r\n$/);
+    assert.match(ics, /UID:schedule-sched-1@frccgolfgames\.com/);
+    assert.match(ics, /DTSTAMP:20260301T120000Z/);
+    assert.match(ics, /DTSTART;TZID=America\/Los_Angeles:20260307T073000/);
+    assert.match(ics, /DTEND;TZID=America\/Los_Angeles:20260307T120000/);
+    assert.match(ics, /STATUS:CONFIRMED/);
+    assert.match(ics, /Tee time: 7:30 AM\\nGroup 3/);
+    assert.match(ics, /BEGIN:VTIMEZONE/);
+    assert.match(ics, /LOCATION:Fairbanks Ranch Country Club\\, 15150 San Dieguito Rd/);
+  });
+
+  it("uses the game's course, and leaves LOCATION out without one", () => {
+    const away = buildGamesCalendar([{ ...game, location: 'Torrey Pines South' }], { now });
+    assert.match(away, /LOCATION:Torrey Pines South\r\n/);
+    assert.doesNotMatch(away, /Fairbanks/);
+
+    const none = buildGamesCalendar([{ ...game, location: null }], { now });
+    assert.doesNotMatch(none, /LOCATION:/);
+  });
+
+  it('marks cancelled games', () => {
+    const ics = buildGamesCalendar([{ ...game, cancelled: true }], { now });
+    assert.match(ics, /STATUS:CANCELLED/);
+    assert.match(ics, /SEQUENCE:1/);
+    assert.match(ics, /SUMMARY:CANCELLED: Saturday Morning Group/);
+  });
+
+  it('names feeds and lists every game', () => {
+    const ics = buildGamesCalendar(
+      [game, { ...game, scheduleId: 'sched-2', gameDate: '2026-03-14', gameType: '9_holes' }],
+      { name: 'FRCC Golf Games', now }
+    );
+    assert.match(ics, /X-WR-CALNAME:FRCC Golf Games/);
+    assert.equal(ics.match(/BEGIN:VEVENT/g)?.length, 2);
+    assert.match(ics, /DTEND;TZID=America\/Los_Angeles:20260314T100000/);
+  });
+
+  it('uses CRLF line endings throughout', () => {
+    const ics = buildGamesCalendar([game], { now });
+    assert.ok(!/[^\r]\n/.test(ics));
+  });
+});
+
+describe('buildGameIcsAttachment', () => {
+  it('attaches a single-game calendar', () => {
+    const attachment = buildGameIcsAttachment(game);
+    assert.equal(attachment.filename, 'frcc-golf-2026-03-07.ics');
+    assert.match(attachment.contentType!, /^text\/calendar/);
+    assert.equal(attachment.content.match(/BEGIN:VEVENT/g)?.length, 1);
+  });
+});
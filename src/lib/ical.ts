@@ -0,0 +1,189 @@
+/**
+ * iCalendar (.ics) Generation
+ *
+ * Builds the golfer calendar feed (/api/calendar/[token].ics) and the
+ * single-game attachment on the golfer confirmation email. Both use the
+ * same UID per game (the schedule id), so a game added from the email is
+ * the same calendar entry the feed later updates or cancels.
+ *
+ * Times are written in Pacific time (TZID=America/Los_Angeles) with a
+ * VTIMEZONE block, so the tee time is right on either side of DST.
+ */
+
+import type { GameType } from "@/types/events";
+import type { EmailAttachment } from "./email";
+import { formatTimeOfDay } from "./format";
+
+export const ICS_CONTENT_TYPE = "text/calendar; charset=utf-8";
+
+const ICS_TZID = "America/Los_Angeles";
+const ICS_UID_DOMAIN = "frccgolfgames.com";
+
+// Calendar entry length (in hours from first tee time)
+const GAME_DURATION_HOURS: Record<GameType, number> = {
+  "18_holes": 4.5,
+  "9_holes": 2.5,
+};
+
+export interface IcsGame {
+  scheduleId: string;
+  eventName: string;
+  gameDate: string; // YYYY-MM-DD
+  firstTeeTime: string; // HH:MM
+  gameType: GameType;
+  /** The game's course, "Name, address" (see formatCourseLocation) */
+  location?: string | null;
+  cancelled?: boolean;
+  /** The golfer's group, once groupings are set */
+  groupNumber?: number | null;
+  adminNote?: string | null;
+  url?: string;
+}
+
+// ============================================================
+// Formatting helpers
+// ============================================================
+
+/** Escape a TEXT property value (RFC 5545 §3.3.11) */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Fold a content line to 75 octets, continuation lines start with a space */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/** "2026-03-07" + "07:30" (+ minutes) → "20260307T073000" (floating local) */
+export function formatIcsLocalDateTime(gameDate: string, time: string, addMinutes = 0): string {
+  const [year, month, day] = gameDate.split("-").map(Number);
+  const [h, m] = time.split(":").map(Number);
+  // Date.UTC only as calendar arithmetic — no timezone conversion happens
+  const d = new Date(Date.UTC(year, month - 1, day, h, m + addMinutes));
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}00`;
+}
+
+/** Date → "20260307T153000Z" */
+function formatIcsUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+const VTIMEZONE_LINES = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${ICS_TZID}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:-0800",
+  "TZOFFSETTO:-0700",
+  "TZNAME:PDT",
+  "DTSTART:19700308T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:-0700",
+  "TZOFFSETTO:-0800",
+  "TZNAME:PST",
+  "DTSTART:19701101T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+// ============================================================
+// Calendar builders
+// ============================================================
+
+function buildGameEventLines(game: IcsGame, stamp: string): string[] {
+  const durationMinutes = GAME_DURATION_HOURS[game.gameType] * 60;
+
+  const details = [
+    `Tee time: ${formatTimeOfDay(game.firstTeeTime)}`,
+    game.groupNumber ? `Group ${game.groupNumber}` : null,
+    game.adminNote ? `Note from admin: ${game.adminNote}` : null,
+    game.url ? `Details: ${game.url}` : null,
+  ].filter((line): line is string => !!line);
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:schedule-${game.scheduleId}@${ICS_UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${ICS_TZID}:${formatIcsLocalDateTime(game.gameDate, game.firstTeeTime)}`,
+    `DTEND;TZID=${ICS_TZID}:${formatIcsLocalDateTime(game.gameDate, game.firstTeeTime, durationMinutes)}`,
+    // Bump SEQUENCE on cancel so clients replace the earlier copy
+    `SEQUENCE:${game.cancelled ? 1 : 0}`,
+    `STATUS:${game.cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    `SUMMARY:${escapeIcsText(game.cancelled ? `CANCELLED: ${game.eventName}` : game.eventName)}`,
+    ...(game.location ? [`LOCATION:${escapeIcsText(game.location)}`] : []),
+    `DESCRIPTION:${escapeIcsText(details.join("\n"))}`,
+    ...(game.url ? [`URL:${game.url}`] : []),
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * Build a VCALENDAR for one or more games. `name` sets the calendar
+ * name shown by subscribing clients (feeds only).
+ */
+export function buildGamesCalendar(
+  games: IcsGame[],
+  options: { name?: string; now?: Date } = {}
+): string {
+  const stamp = formatIcsUtc(options.now ?? new Date());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//FRCC Golf Games//Games Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(options.name
+      ? [
+          `X-WR-CALNAME:${escapeIcsText(options.name)}`,
+          `X-WR-TIMEZONE:${ICS_TZID}`,
+          "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+          "X-PUBLISHED-TTL:PT6H",
+        ]
+      : []),
+    ...VTIMEZONE_LINES,
+    ...games.flatMap((game) => buildGameEventLines(game, stamp)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Single-game .ics for the golfer confirmation email. The email goes to
+ * the whole field, so it carries the game only (no group number).
+ */
+export function buildGameIcsAttachment(game: IcsGame): EmailAttachment {
+  return {
+    filename: `frcc-golf-${game.gameDate}.ics`,
+    content: buildGamesCalendar([game]),
+    contentType: ICS_CONTENT_TYPE,
+  };
+}
+
+/** Feed URL for a golfer's calendar token */
+export function getCalendarFeedUrl(siteUrl: string, calendarToken: string): string {
+  return `${siteUrl}/api/calendar/${calendarToken}.ics`;
+}
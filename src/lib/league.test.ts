@@ -0,0 +1,292 @@
+/**
+ * Unit tests for league standings helpers: season weeks, best-N
+ * leaderboard ranking, tie-break rules, the single-week results view,
+ * season prize payouts and season lookup/history.
+ *
+ * Run with: npx tsx --test src/lib/league.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  computeSeasonWeeks,
+  buildLeaderboard,
+  buildWeeklyResults,
+  calculateSeasonPayouts,
+  getSeasonPayoutDate,
+  pickSeasonForDate,
+  getSeasonFinish,
+} from './league';
+import type { LeagueConfig, LeagueSeason, LeagueScore, LeagueMoneyScore } from '../types/events';
+
+const golfers = [
+  { id: 'a', first_name: 'Ann', last_name: 'Adams', low_hi_value: null },
+  { id: 'b', first_name: 'Bob', last_name: 'Baker', low_hi_value: null },
+  { id: 'c', first_name: 'Cal', last_name: 'Cole', low_hi_value: null },
+];
+
+const weeks = computeSeasonWeeks('2026-05-07', 3);
+
+function score(profileId: string, gameDate: string, points: number): LeagueScore {
+  return {
+    id: `${profileId}-${gameDate}`,
+    event_id: 'e1',
+    profile_id: profileId,
+    season_id: 's1',
+    game_date: gameDate,
+    stableford_points: points,
+    metadata: null,
+    entered_by: null,
+    created_at: '',
+    updated_at: '',
+  };
+}
+
+function money(profileId: string, gameDate: string, amount: number, metadata: Record<string, unknown> | null = null): LeagueMoneyScore {
+  return {
+    id: `m-${profileId}-${gameDate}`,
+    event_id: 'e1',
+    profile_id: profileId,
+    season_id: 's1',
+    game_date: gameDate,
+    amount,
+    metadata,
+    entered_by: null,
+    created_at: '',
+    updated_at: '',
+  };
+}
+
+const scores = [
+  score('a', weeks[0], 40),
+  score('b', weeks[0], 36),
+  score('a', weeks[1], 30),
+  score('b', weeks[1], 38),
+  score('c', weeks[1], 38),
+];
+
+describe('computeSeasonWeeks', () => {
+  it('steps a week at a time across month ends', () => {
+    assert.deepEqual(computeSeasonWeeks('2026-05-28', 2), ['2026-05-28', '2026-06-04']);
+  });
+});
+
+describe('buildLeaderboard', () => {
+  it('counts only the best N scores and shares tied ranks', () => {
+    const board = buildLeaderboard(golfers, scores, 1, null);
+    assert.deepEqual(board.map((e) => [e.profileId, e.totalPoints, e.rank]), [
+      ['a', 40, 1],
+      ['b', 38, 2],
+      ['c', 38, 2],
+    ]);
+    assert.deepEqual([...board[0].countingWeeks], [weeks[0]]);
+  });
+});
+
+describe('buildLeaderboard tie-breaks', () => {
+  // a and b both total 70 with best 2 counting
+  const tied = [
+    score('a', weeks[0], 40),
+    score('a', weeks[1], 30),
+    score('b', weeks[0], 35),
+    score('b', weeks[1], 35),
+    score('b', weeks[2], 20),
+  ];
+  const ranks = (rules: Parameters<typeof buildLeaderboard>[5]) =>
+    buildLeaderboard(golfers.slice(0, 2), tied, 2, null, 0, rules).map((e) => [e.profileId, e.rank]);
+
+  it('shares the rank without rules', () => {
+    assert.deepEqual(ranks({ rules: [] }), [['a', 1], ['b', 1]]);
+  });
+
+  it('breaks on most rounds played with a footnote', () => {
+    const board = buildLeaderboard(golfers.slice(0, 2), tied, 2, null, 0, { rules: ['most_rounds'] });
+    assert.deepEqual(board.map((e) => [e.profileId, e.rank]), [['b', 1], ['a', 2]]);
+    assert.equal(board[0].tieBreakNote, null);
+    assert.equal(board[1].tieBreakNote, 'B. Baker ahead of A. Adams on most rounds played (3 vs 2)');
+  });
+
+  it('breaks on best single round', () => {
+    assert.deepEqual(ranks({ rules: ['best_round'] }), [['a', 1], ['b', 2]]);
+  });
+
+  it('treats no dropped score as worst', () => {
+    assert.deepEqual(ranks({ rules: ['best_dropped'] }), [['b', 1], ['a', 2]]);
+  });
+
+  it('counts back over the last N weeks played', () => {
+    // Last week only: a DNP (0) vs b 20
+    assert.deepEqual(ranks({ rules: ['countback'], countbackWeeks: 1 }), [['b', 1], ['a', 2]]);
+  });
+
+  it('falls through to the next rule when one is equal', () => {
+    const even = tied.filter((s) => s.game_date !== weeks[2]);
+    const board = buildLeaderboard(golfers.slice(0, 2), even, 2, null, 0, {
+      rules: ['most_rounds', 'best_round'],
+    });
+    assert.deepEqual(board.map((e) => e.profileId), ['a', 'b']);
+    assert.match(board[1].tieBreakNote!, /best single round \(40 vs 35\)/);
+  });
+});
+
+describe('buildWeeklyResults', () => {
+  it('ranks the week by points with ties sharing rank', () => {
+    const results = buildWeeklyResults(golfers, scores, [], weeks, weeks[1], null);
+    assert.deepEqual(results.map((r) => [r.profileId, r.points, r.rank]), [
+      ['b', 38, 1],
+      ['c', 38, 1],
+      ['a', 30, 3],
+    ]);
+  });
+
+  it('shows season rank after the week and movement from the week before', () => {
+    const results = buildWeeklyResults(golfers, scores, [], weeks, weeks[1], null);
+    const byId = new Map(results.map((r) => [r.profileId, r]));
+    assert.equal(byId.get('b')?.seasonRank, 1);
+    assert.equal(byId.get('b')?.seasonTotal, 74);
+    assert.equal(byId.get('b')?.movement, 1);
+    assert.equal(byId.get('a')?.movement, -1);
+    // First ranked week
+    assert.equal(byId.get('c')?.movement, null);
+  });
+
+  it('has no movement in week 1', () => {
+    const results = buildWeeklyResults(golfers, scores, [], weeks, weeks[0], null);
+    assert.ok(results.every((r) => r.movement === null));
+  });
+
+  it("adds the week's money, ignoring season payout rows", () => {
+    const results = buildWeeklyResults(
+      golfers,
+      scores,
+      [money('b', weeks[1], 45), money('a', weeks[1], 500, { type: 'season' })],
+      weeks,
+      weeks[1],
+      null
+    );
+    const byId = new Map(results.map((r) => [r.profileId, r]));
+    assert.equal(byId.get('b')?.amount, 45);
+    assert.equal(byId.get('a')?.amount, 0);
+  });
+
+  it('returns nothing for a week without scores', () => {
+    assert.deepEqual(buildWeeklyResults(golfers, scores, [], weeks, weeks[2], null), []);
+  });
+});
+
+describe('calculateSeasonPayouts', () => {
+  const field = [
+    ...golfers,
+    { id: 'd', first_name: 'Dee', last_name: 'Dunn', low_hi_value: null },
+  ];
+  const season = [
+    score('a', weeks[0], 40),
+    score('a', weeks[1], 40),
+    score('b', weeks[0], 38),
+    score('b', weeks[1], 38),
+    score('c', weeks[0], 38),
+    score('c', weeks[1], 38),
+    score('d', weeks[0], 45),
+  ];
+  // d has only one round and doesn't qualify
+  const board = buildLeaderboard(field, season, null, 2);
+
+  it('pays qualified golfers by place, skipping unqualified ones', () => {
+    const payouts = calculateSeasonPayouts(board, 1000, [50, 30, 20]);
+    assert.equal(payouts[0].profileId, 'a');
+    assert.equal(payouts[0].place, 1);
+    assert.equal(payouts[0].amount, 500);
+    assert.ok(!payouts.some((p) => p.profileId === 'd'));
+  });
+
+  it('splits tied places evenly', () => {
+    const payouts = calculateSeasonPayouts(board, 1000, [50, 30, 20]);
+    assert.deepEqual(payouts.slice(1).map((p) => [p.profileId, p.place, p.isTied, p.amount, p.percent]), [
+      ['b', 2, true, 250, 25],
+      ['c', 2, true, 250, 25],
+    ]);
+  });
+
+  it('only splits the paid places a tie covers', () => {
+    const payouts = calculateSeasonPayouts(board, 1000, [50, 30]);
+    assert.deepEqual(payouts.slice(1).map((p) => p.amount), [150, 150]);
+  });
+
+  it('keeps every cent when a split is uneven', () => {
+    const payouts = calculateSeasonPayouts(board, 100.01, [0, 50, 50]);
+    assert.deepEqual(payouts.map((p) => p.amount), [50.01, 50]);
+  });
+
+  it('pays tied golfers separately once a tie-break separates them', () => {
+    const broken = buildLeaderboard(field, [...season, score('c', weeks[2], 1)], 2, 2, 0, {
+      rules: ['most_rounds'],
+    });
+    const payouts = calculateSeasonPayouts(broken, 1000, [50, 30, 20]);
+    assert.deepEqual(payouts.map((p) => [p.profileId, p.place, p.amount]), [
+      ['a', 1, 500],
+      ['c', 2, 300],
+      ['b', 3, 200],
+    ]);
+  });
+
+  it('returns nothing without a pool or percentages', () => {
+    assert.deepEqual(calculateSeasonPayouts(board, null, [50]), []);
+    assert.deepEqual(calculateSeasonPayouts(board, 1000, []), []);
+  });
+});
+
+describe('getSeasonPayoutDate', () => {
+  const config = {
+    season_start: '2026-05-07',
+    season_end: '2026-07-09',
+    total_m: 10,
+  } as LeagueConfig;
+
+  it('uses the day after the season ends', () => {
+    assert.equal(getSeasonPayoutDate(config), '2026-07-10');
+  });
+
+  it('falls back to the last season week', () => {
+    assert.equal(getSeasonPayoutDate({ ...config, season_end: null }), '2026-07-10');
+  });
+});
+
+describe('pickSeasonForDate', () => {
+  const season = (id: string, start: string, end: string | null, isCurrent = false) =>
+    ({ id, season_start: start, season_end: end, is_current: isCurrent }) as LeagueSeason;
+  const seasons = [
+    season('2027', '2027-05-06', null, true),
+    season('2026', '2026-05-07', '2026-07-09'),
+  ];
+
+  it('uses the season whose dates contain the game', () => {
+    assert.equal(pickSeasonForDate(seasons, '2026-06-11')?.id, '2026');
+    assert.equal(pickSeasonForDate(seasons, '2027-05-13')?.id, '2027');
+  });
+
+  it('falls back to the current season', () => {
+    assert.equal(pickSeasonForDate(seasons, '2026-09-03')?.id, '2027');
+    assert.equal(pickSeasonForDate([], '2026-09-03'), null);
+  });
+});
+
+describe('getSeasonFinish', () => {
+  const board = buildLeaderboard(golfers, scores, 1, 2);
+
+  it('reports rank, ties and the ranked field', () => {
+    assert.deepEqual(getSeasonFinish(board, 'c'), {
+      rank: 2,
+      isTied: true,
+      fieldSize: 3,
+      totalPoints: 38,
+      roundsPlayed: 1,
+      isQualified: false,
+    });
+    assert.equal(getSeasonFinish(board, 'a')?.isTied, false);
+  });
+
+  it('returns null for golfers without a ranked score', () => {
+    assert.equal(getSeasonFinish(board, 'zz'), null);
+  });
+});
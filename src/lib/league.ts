@@ -1,13 +1,76 @@
 import { createClient, createAdminClient } from "@/lib/supabase/server";
-import type { LeagueConfig, LeagueTab, LeagueScore, LeaderboardEntry, LeagueMoneyScore, MoneyLeaderboardEntry, QualificationStatus } from "@/types/events";
+import { formatInitialLastName } from "@/lib/format";
+import { TIE_BREAK_RULE_LABELS } from "@/types/events";
+import type { GolferSeasonFinish, LeagueConfig, LeagueSeason, LeagueTab, LeagueScore, LeaderboardEntry, LeagueMoneyScore, MoneyLeaderboardEntry, QualificationStatus, SeasonPayout, SideGameWinning, TieBreakRule, WeeklyResultEntry } from "@/types/events";
+
+/**
+ * Combine the event-level league switch with one of its seasons.
+ */
+function toLeagueConfig(
+  row: { id: string; event_id: string; league_enabled: boolean; created_at: string; updated_at: string },
+  season: LeagueSeason
+): LeagueConfig {
+  return {
+    id: row.id,
+    event_id: row.event_id,
+    league_enabled: row.league_enabled,
+    season_id: season.id,
+    is_current_season: season.is_current,
+    season_name: season.name,
+    season_start: season.season_start,
+    season_end: season.season_end,
+    best_n: season.best_n,
+    total_m: season.total_m,
+    min_rounds_to_qualify: season.min_rounds_to_qualify,
+    prize_pool_total: season.prize_pool_total,
+    payout_config: season.payout_config,
+    tie_break_rules: season.tie_break_rules || [],
+    tie_break_countback_weeks: season.tie_break_countback_weeks,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Fetch an event's league config for one season (the current season when
+ * seasonId is omitted or unknown), plus every season for the switcher.
+ * Returns null if the league is not enabled or has no seasons.
+ */
+async function resolveLeagueConfig(
+  eventId: string,
+  seasonId?: string | null
+): Promise<{ config: LeagueConfig; seasons: LeagueSeason[] } | null> {
+  const admin = createAdminClient();
+
+  const { data: row } = await admin
+    .from("event_league_config")
+    .select("*")
+    .eq("event_id", eventId)
+    .single();
+
+  if (!row || !row.league_enabled) return null;
+
+  const seasons = await getLeagueSeasons(eventId);
+  const season =
+    (seasonId && seasons.find((s) => s.id === seasonId)) ||
+    seasons.find((s) => s.is_current) ||
+    seasons[0];
+  if (!season) return null;
+
+  return { config: toLeagueConfig(row, season), seasons };
+}
 
 /**
  * Fetch league config for an event by slug.
  * Returns null if no config exists or league is not enabled.
  */
-export async function getLeagueConfigBySlug(slug: string): Promise<{
+export async function getLeagueConfigBySlug(
+  slug: string,
+  seasonId?: string | null
+): Promise<{
   config: LeagueConfig;
   event: { id: string; name: string; slug: string };
+  seasons: LeagueSeason[];
 } | null> {
   const supabase = await createClient();
 
@@ -23,33 +86,61 @@ export async function getLeagueConfigBySlug(slug: string): Promise<{
 
   // Fetch league config (admin client bypasses RLS — session client silently
   // fails for non-admin golfers despite "authenticated read" policy)
-  const admin = createAdminClient();
-  const { data: config } = await admin
-    .from("event_league_config")
-    .select("*")
-    .eq("event_id", event.id)
-    .single();
+  const resolved = await resolveLeagueConfig(event.id, seasonId);
+  if (!resolved) return null;
 
-  if (!config || !config.league_enabled) return null;
-
-  return { config: config as LeagueConfig, event };
+  return { ...resolved, event };
 }
 
 /**
  * Fetch league config for an event by event ID.
- * Returns the config or null if not found/not enabled.
+ * Returns the config (current season unless seasonId is given) or null if
+ * not found/not enabled.
+ */
+export async function getLeagueConfigByEventId(
+  eventId: string,
+  seasonId?: string | null
+): Promise<LeagueConfig | null> {
+  const resolved = await resolveLeagueConfig(eventId, seasonId);
+  return resolved?.config ?? null;
+}
+
+/**
+ * Fetch every season for an event, newest first.
  */
-export async function getLeagueConfigByEventId(eventId: string): Promise<LeagueConfig | null> {
+export async function getLeagueSeasons(eventId: string): Promise<LeagueSeason[]> {
   const admin = createAdminClient();
 
-  const { data: config } = await admin
-    .from("event_league_config")
+  const { data } = await admin
+    .from("league_seasons")
     .select("*")
     .eq("event_id", eventId)
-    .single();
+    .order("season_start", { ascending: false, nullsFirst: false })
+    .order("created_at", { ascending: false });
 
-  if (!config || !config.league_enabled) return null;
-  return config as LeagueConfig;
+  return (data || []) as LeagueSeason[];
+}
+
+/**
+ * Pick the season a game date belongs to: the season whose dates contain
+ * it, otherwise the current season.
+ */
+export function pickSeasonForDate(
+  seasons: LeagueSeason[],
+  gameDate: string
+): LeagueSeason | null {
+  const containing = seasons.filter(
+    (s) =>
+      s.season_start &&
+      s.season_start <= gameDate &&
+      (!s.season_end || gameDate <= s.season_end)
+  );
+  return (
+    containing.find((s) => s.is_current) ||
+    containing[0] ||
+    seasons.find((s) => s.is_current) ||
+    null
+  );
 }
 
 /**
@@ -69,29 +160,21 @@ export async function getLeagueTabs(eventId: string): Promise<LeagueTab[]> {
 }
 
 /**
- * Fetch all scores for an event within the season date range.
+ * Fetch all scores for one season of an event.
  */
 export async function getLeagueScores(
   eventId: string,
-  seasonStart?: string | null,
-  seasonEnd?: string | null
+  seasonId: string
 ): Promise<LeagueScore[]> {
   const admin = createAdminClient();
 
-  let query = admin
+  const { data } = await admin
     .from("league_scores")
     .select("*")
     .eq("event_id", eventId)
+    .eq("season_id", seasonId)
     .order("game_date", { ascending: true });
 
-  if (seasonStart) {
-    query = query.gte("game_date", seasonStart);
-  }
-  if (seasonEnd) {
-    query = query.lte("game_date", seasonEnd);
-  }
-
-  const { data } = await query;
   return (data || []) as LeagueScore[];
 }
 
@@ -126,6 +209,30 @@ export async function getSubscribedGolfers(eventId: string): Promise<{
   return (profiles || []) as { id: string; first_name: string; last_name: string; low_hi_value: number | null }[];
 }
 
+/**
+ * Fetch the golfers who have scores in a season. Past seasons list these
+ * instead of current subscribers, so golfers who have since left the event
+ * keep their place in the archived standings.
+ */
+export async function getScoredGolfers(scores: LeagueScore[]): Promise<{
+  id: string;
+  first_name: string;
+  last_name: string;
+  low_hi_value: number | null;
+}[]> {
+  const profileIds = [...new Set(scores.map((s) => s.profile_id))];
+  if (profileIds.length === 0) return [];
+
+  const admin = createAdminClient();
+  const { data: profiles } = await admin
+    .from("profiles")
+    .select("id, first_name, last_name, low_hi_value")
+    .in("id", profileIds)
+    .order("last_name", { ascending: true });
+
+  return (profiles || []) as { id: string; first_name: string; last_name: string; low_hi_value: number | null }[];
+}
+
 /**
  * Compute the season week dates for the leaderboard header.
  * Returns an ordered array of YYYY-MM-DD date strings for each Thursday
@@ -180,13 +287,17 @@ export function getRemainingWeeksInfo(
  * @param remainingWeeks - Number of scheduled season weeks not yet played by
  *   the group. Used to determine whether a golfer below min_rounds_to_qualify
  *   can still reach it ("bubble") or is mathematically eliminated.
+ * @param tieBreak - Rules (from event_league_config) applied in order to
+ *   equal totals. Golfers a rule separates get their own rank and a
+ *   tieBreakNote; golfers no rule separates still share a rank.
  */
 export function buildLeaderboard(
   golfers: { id: string; first_name: string; last_name: string; low_hi_value: number | null }[],
   scores: LeagueScore[],
   bestN: number | null,
   minRoundsToQualify: number | null,
-  remainingWeeks: number = 0
+  remainingWeeks: number = 0,
+  tieBreak: TieBreakOptions = { rules: [] }
 ): LeaderboardEntry[] {
   // Group scores by profile_id
   const scoresByGolfer = new Map<string, LeagueScore[]>();
@@ -249,20 +360,32 @@ export function buildLeaderboard(
       roundsPlayed,
       isQualified,
       qualificationStatus,
+      tieBreakNote: null,
     };
   });
 
-  // Sort by total points descending, then by last name for ties
+  const breakTie = tieBreakComparator(scores, scoresByGolfer, tieBreak);
+
+  // Sort by total points descending, then tie-break rules, then by last name
   entries.sort((a, b) => {
     if (b.totalPoints !== a.totalPoints) return b.totalPoints - a.totalPoints;
-    return a.lastName.localeCompare(b.lastName);
+    return breakTie(a, b)?.result || a.lastName.localeCompare(b.lastName);
   });
 
-  // Assign ranks (ties share rank)
+  // Assign ranks (ties share rank unless a tie-break rule separates them)
   let currentRank = 1;
   for (let i = 0; i < entries.length; i++) {
     if (i > 0 && entries[i].totalPoints < entries[i - 1].totalPoints) {
       currentRank = i + 1;
+    } else if (i > 0 && entries[i].roundsPlayed > 0) {
+      const decided = breakTie(entries[i - 1], entries[i]);
+      if (decided) {
+        currentRank = i + 1;
+        entries[i].tieBreakNote =
+          `${formatInitialLastName(entries[i - 1].firstName, entries[i - 1].lastName)} ahead of ` +
+          `${formatInitialLastName(entries[i].firstName, entries[i].lastName)} on ` +
+          `${TIE_BREAK_RULE_LABELS[decided.rule].label.toLowerCase()} (${decided.detail})`;
+      }
     }
     // Golfers with 0 rounds get no rank
     entries[i].rank = entries[i].roundsPlayed > 0 ? currentRank : 0;
@@ -271,35 +394,283 @@ export function buildLeaderboard(
   return entries;
 }
 
+export interface TieBreakOptions {
+  rules: TieBreakRule[];
+  /** Weeks summed by the 'countback' rule */
+  countbackWeeks?: number | null;
+}
+
+/** Tie-break settings from a league config or season row */
+export function getTieBreakOptions(
+  config: Pick<LeagueConfig, "tie_break_rules" | "tie_break_countback_weeks">
+): TieBreakOptions {
+  return {
+    rules: config.tie_break_rules || [],
+    countbackWeeks: config.tie_break_countback_weeks,
+  };
+}
+
+/**
+ * Build a comparator for golfers with equal totals. Returns the first rule
+ * that separates them (result < 0 = a ranks higher), or null if none does.
+ */
+function tieBreakComparator(
+  scores: LeagueScore[],
+  scoresByGolfer: Map<string, LeagueScore[]>,
+  { rules, countbackWeeks }: TieBreakOptions
+): (
+  a: LeaderboardEntry,
+  b: LeaderboardEntry
+) => { rule: TieBreakRule; result: number; detail: string } | null {
+  // Countback window: the most recent weeks anyone played
+  const playedWeeks = [...new Set(scores.map((s) => s.game_date))].sort();
+  const countbackWindow = new Set(playedWeeks.slice(-(countbackWeeks || 3)));
+
+  const pointsDesc = (e: LeaderboardEntry) =>
+    (scoresByGolfer.get(e.profileId) || [])
+      .map((s) => s.stableford_points)
+      .sort((x, y) => y - x);
+  const bestDropped = (e: LeaderboardEntry) => {
+    const dropped = (scoresByGolfer.get(e.profileId) || [])
+      .filter((s) => !e.countingWeeks.has(s.game_date))
+      .map((s) => s.stableford_points);
+    return dropped.length > 0 ? Math.max(...dropped) : null;
+  };
+  const countback = (e: LeaderboardEntry) =>
+    (scoresByGolfer.get(e.profileId) || [])
+      .filter((s) => countbackWindow.has(s.game_date))
+      .reduce((sum, s) => sum + s.stableford_points, 0);
+
+  return (a, b) => {
+    for (const rule of rules) {
+      switch (rule) {
+        case "most_rounds":
+          if (a.roundsPlayed !== b.roundsPlayed) {
+            return { rule, result: b.roundsPlayed - a.roundsPlayed, detail: `${a.roundsPlayed} vs ${b.roundsPlayed}` };
+          }
+          break;
+        case "best_round": {
+          // Best round, then next-best, and so on
+          const aPts = pointsDesc(a);
+          const bPts = pointsDesc(b);
+          for (let i = 0; i < Math.max(aPts.length, bPts.length); i++) {
+            if (aPts[i] !== bPts[i]) {
+              const label = i === 0 ? "" : "next-best rounds: ";
+              return {
+                rule,
+                result: (bPts[i] ?? -Infinity) - (aPts[i] ?? -Infinity),
+                detail: `${label}${aPts[i] ?? "none"} vs ${bPts[i] ?? "none"}`,
+              };
+            }
+          }
+          break;
+        }
+        case "best_dropped": {
+          const aDrop = bestDropped(a);
+          const bDrop = bestDropped(b);
+          if (aDrop !== bDrop) {
+            return {
+              rule,
+              result: (bDrop ?? -Infinity) - (aDrop ?? -Infinity),
+              detail: `${aDrop ?? "none"} vs ${bDrop ?? "none"}`,
+            };
+          }
+          break;
+        }
+        case "countback": {
+          const aSum = countback(a);
+          const bSum = countback(b);
+          if (aSum !== bSum) {
+            return {
+              rule,
+              result: bSum - aSum,
+              detail: `last ${countbackWindow.size} weeks: ${aSum} vs ${bSum}`,
+            };
+          }
+          break;
+        }
+      }
+    }
+    return null;
+  };
+}
+
+/**
+ * Build one week's results: every golfer with a score that week, ranked by
+ * that week's points, with money won and where the week left them in the
+ * season standings compared with the previous season week.
+ *
+ * Season standings are rebuilt from scores up to each week with
+ * buildLeaderboard, so best-N drops apply exactly as on the leaderboard.
+ */
+export function buildWeeklyResults(
+  golfers: { id: string; first_name: string; last_name: string; low_hi_value: number | null }[],
+  scores: LeagueScore[],
+  moneyScores: LeagueMoneyScore[],
+  seasonWeeks: string[],
+  week: string,
+  bestN: number | null,
+  tieBreak: TieBreakOptions = { rules: [] }
+): WeeklyResultEntry[] {
+  const weekScores = scores.filter((s) => s.game_date === week);
+  if (weekScores.length === 0) return [];
+
+  const standingsThrough = (date: string) =>
+    new Map(
+      buildLeaderboard(
+        golfers,
+        scores.filter((s) => s.game_date <= date),
+        bestN,
+        null,
+        0,
+        tieBreak
+      ).map((e) => [e.profileId, e])
+    );
+
+  const current = standingsThrough(week);
+  const weekIndex = seasonWeeks.indexOf(week);
+  const previous = weekIndex > 0 ? standingsThrough(seasonWeeks[weekIndex - 1]) : null;
+
+  const amounts = new Map<string, number>();
+  for (const m of moneyScores) {
+    if (m.game_date === week && m.metadata?.type !== "season") {
+      amounts.set(m.profile_id, m.amount);
+    }
+  }
+
+  const golferById = new Map(golfers.map((g) => [g.id, g]));
+  const entries: WeeklyResultEntry[] = [];
+  for (const score of weekScores) {
+    const golfer = golferById.get(score.profile_id);
+    const standing = current.get(score.profile_id);
+    if (!golfer || !standing) continue;
+
+    const previousRank = previous?.get(score.profile_id)?.rank || 0;
+    entries.push({
+      rank: 0, // computed below
+      profileId: golfer.id,
+      firstName: golfer.first_name,
+      lastName: golfer.last_name,
+      points: score.stableford_points,
+      amount: amounts.get(golfer.id) ?? 0,
+      seasonRank: standing.rank,
+      seasonTotal: standing.totalPoints,
+      movement: previousRank > 0 ? previousRank - standing.rank : null,
+    });
+  }
+
+  // Sort by the week's points descending, then by last name for ties
+  entries.sort((a, b) => {
+    if (b.points !== a.points) return b.points - a.points;
+    return a.lastName.localeCompare(b.lastName);
+  });
+
+  // Assign ranks (ties share rank)
+  let currentRank = 1;
+  for (let i = 0; i < entries.length; i++) {
+    if (i > 0 && entries[i].points < entries[i - 1].points) {
+      currentRank = i + 1;
+    }
+    entries[i].rank = currentRank;
+  }
+
+  return entries;
+}
+
+/**
+ * Split the season prize pool by finishing place.
+ *
+ * Only qualified golfers (min_rounds_to_qualify met) take places, in
+ * leaderboard order — tie-break rules have already been applied there.
+ * Golfers still tied share their places' combined percentages evenly; any
+ * leftover cent goes to the first golfer(s) in the group.
+ *
+ * @param payoutConfig - Percent of the pool by place, e.g. [20.5, 17, ...]
+ */
+export function calculateSeasonPayouts(
+  leaderboard: LeaderboardEntry[],
+  prizePoolTotal: number | null,
+  payoutConfig: number[] | null
+): SeasonPayout[] {
+  if (!prizePoolTotal || !payoutConfig?.length) return [];
+
+  const qualified = leaderboard.filter((e) => e.isQualified && e.rank > 0);
+  const payouts: SeasonPayout[] = [];
+
+  let place = 1;
+  let i = 0;
+  while (i < qualified.length && place <= payoutConfig.length) {
+    // Group golfers sharing a rank (not separated by a tie-break)
+    let j = i + 1;
+    while (j < qualified.length && qualified[j].rank === qualified[i].rank) j++;
+    const group = qualified.slice(i, j);
+
+    const groupPercent = payoutConfig
+      .slice(place - 1, place - 1 + group.length)
+      .reduce((sum, pct) => sum + Number(pct), 0);
+    const groupCents = Math.round(Number(prizePoolTotal) * groupPercent);
+    const baseCents = Math.floor(groupCents / group.length);
+    const extraCents = groupCents - baseCents * group.length;
+
+    group.forEach((entry, k) => {
+      payouts.push({
+        place,
+        isTied: group.length > 1,
+        profileId: entry.profileId,
+        firstName: entry.firstName,
+        lastName: entry.lastName,
+        totalPoints: entry.totalPoints,
+        percent: groupPercent / group.length,
+        amount: (baseCents + (k < extraCents ? 1 : 0)) / 100,
+      });
+    });
+
+    place += group.length;
+    i = j;
+  }
+
+  return payouts.filter((p) => p.amount > 0);
+}
+
 /**
- * Fetch all money scores for an event within the season date range.
+ * game_date for season payout rows: the day after the season ends, so it
+ * never collides with a weekly row of the season.
+ */
+export function getSeasonPayoutDate(config: LeagueConfig): string | null {
+  const lastDay =
+    config.season_end ||
+    (config.season_start && config.total_m
+      ? computeSeasonWeeks(config.season_start, config.total_m).at(-1)
+      : null);
+  if (!lastDay) return null;
+
+  const [year, month, day] = lastDay.split("-").map(Number);
+  const d = new Date(year, month - 1, day + 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * Fetch the weekly money scores for one season of an event (season payout
+ * rows excluded — see getSeasonMoneyScores).
  */
 export async function getLeagueMoneyScores(
   eventId: string,
-  seasonStart?: string | null,
-  seasonEnd?: string | null
+  seasonId: string
 ): Promise<LeagueMoneyScore[]> {
   const admin = createAdminClient();
 
-  let query = admin
+  const { data } = await admin
     .from("league_money_scores")
     .select("*")
     .eq("event_id", eventId)
+    .eq("season_id", seasonId)
     .order("game_date", { ascending: true });
 
-  if (seasonStart) {
-    query = query.gte("game_date", seasonStart);
-  }
-  if (seasonEnd) {
-    query = query.lte("game_date", seasonEnd);
-  }
-
-  const { data } = await query;
-  return (data || []) as LeagueMoneyScore[];
+  return ((data || []) as LeagueMoneyScore[]).filter((m) => m.metadata?.type !== "season");
 }
 
 /**
- * Fetch the season-long payout row(s) for an event, if entered.
+ * Fetch the season-long payout row(s) for one season of an event, if entered.
  *
  * Season payouts are stored in the same `league_money_scores` table as
  * weekly winnings, distinguished by `metadata->>'type' = 'season'` rather
@@ -310,13 +681,17 @@ export async function getLeagueMoneyScores(
  * app uses to tell them apart, so the sentinel date's exact value never
  * matters and can't accidentally collide with a real week.
  */
-export async function getSeasonMoneyScores(eventId: string): Promise<LeagueMoneyScore[]> {
+export async function getSeasonMoneyScores(
+  eventId: string,
+  seasonId: string
+): Promise<LeagueMoneyScore[]> {
   const admin = createAdminClient();
 
   const { data } = await admin
     .from("league_money_scores")
     .select("*")
     .eq("event_id", eventId)
+    .eq("season_id", seasonId)
     .contains("metadata", { type: "season" });
 
   return (data || []) as LeagueMoneyScore[];
@@ -364,10 +739,15 @@ export function buildMoneyLeaderboard(
     const golferPlayed = playedWeeks.get(golfer.id) || new Set<string>();
 
     const weeklyAmounts: Record<string, number> = {};
+    const weeklyBreakdown: Record<string, SideGameWinning[]> = {};
 
     // Add money score weeks
     for (const s of golferMoney) {
       weeklyAmounts[s.game_date] = s.amount;
+      const sideGames = s.metadata?.side_games;
+      if (Array.isArray(sideGames) && sideGames.length > 0) {
+        weeklyBreakdown[s.game_date] = sideGames as SideGameWinning[];
+      }
     }
 
     // For weeks where golfer played but has no money score, show $0
@@ -393,6 +773,7 @@ export function buildMoneyLeaderboard(
       totalAmount,
       weeksWon,
       seasonAmount,
+      weeklyBreakdown,
     };
   });
 
@@ -414,3 +795,101 @@ export function buildMoneyLeaderboard(
 
   return entries;
 }
+
+/**
+ * Where a golfer finished in a season's standings, or null if they have
+ * no ranked score that season.
+ */
+export function getSeasonFinish(
+  leaderboard: LeaderboardEntry[],
+  profileId: string
+): Pick<GolferSeasonFinish, "rank" | "isTied" | "fieldSize" | "totalPoints" | "roundsPlayed" | "isQualified"> | null {
+  const entry = leaderboard.find((e) => e.profileId === profileId);
+  if (!entry || entry.rank === 0) return null;
+
+  const ranked = leaderboard.filter((e) => e.rank > 0);
+  return {
+    rank: entry.rank,
+    isTied: ranked.filter((e) => e.rank === entry.rank).length > 1,
+    fieldSize: ranked.length,
+    totalPoints: entry.totalPoints,
+    roundsPlayed: entry.roundsPlayed,
+    isQualified: entry.isQualified,
+  };
+}
+
+/**
+ * A golfer's finish in every league season they have scores in, across
+ * all events, newest first. Each season is ranked with its own best-N,
+ * qualification and tie-break settings.
+ */
+export async function getGolferSeasonHistory(profileId: string): Promise<GolferSeasonFinish[]> {
+  const admin = createAdminClient();
+
+  const { data: own } = await admin
+    .from("league_scores")
+    .select("season_id")
+    .eq("profile_id", profileId)
+    .not("season_id", "is", null);
+
+  const seasonIds = [...new Set((own || []).map((r) => r.season_id as string))];
+  if (seasonIds.length === 0) return [];
+
+  const [{ data: seasonRows }, { data: moneyRows }] = await Promise.all([
+    admin
+      .from("league_seasons")
+      .select("*, event:events(name, slug)")
+      .in("id", seasonIds),
+    admin
+      .from("league_money_scores")
+      .select("season_id, amount")
+      .eq("profile_id", profileId)
+      .in("season_id", seasonIds),
+  ]);
+
+  const moneyBySeason = new Map<string, number>();
+  for (const m of moneyRows || []) {
+    moneyBySeason.set(m.season_id, (moneyBySeason.get(m.season_id) || 0) + Number(m.amount));
+  }
+
+  const history = await Promise.all(
+    (seasonRows || []).map(async (row) => {
+      const season = row as LeagueSeason & { event: { name: string; slug: string | null } | { name: string; slug: string | null }[] | null };
+      const event = Array.isArray(season.event) ? season.event[0] : season.event;
+
+      const scores = await getLeagueScores(season.event_id, season.id);
+      const golfers = await getScoredGolfers(scores);
+      const seasonWeeks =
+        season.season_start && season.total_m
+          ? computeSeasonWeeks(season.season_start, season.total_m)
+          : [];
+      const { remainingWeeks } = getRemainingWeeksInfo(seasonWeeks, scores);
+      const leaderboard = buildLeaderboard(
+        golfers,
+        scores,
+        season.best_n,
+        season.min_rounds_to_qualify,
+        remainingWeeks,
+        getTieBreakOptions(season)
+      );
+
+      const finish = getSeasonFinish(leaderboard, profileId);
+      if (!finish) return null;
+
+      return {
+        seasonId: season.id,
+        seasonName: season.name,
+        seasonStart: season.season_start,
+        isCurrent: season.is_current,
+        eventName: event?.name || "",
+        eventSlug: event?.slug || null,
+        ...finish,
+        moneyWon: moneyBySeason.get(season.id) || 0,
+      };
+    })
+  );
+
+  return history
+    .filter((h): h is GolferSeasonFinish => h !== null)
+    .sort((a, b) => (b.seasonStart || "").localeCompare(a.seasonStart || ""));
+}
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for net Stableford scoring: tee validation, course handicap,
+ * stroke allocation and hole-by-hole points.
+ *
+ * Run with: npx tsx --test src/lib/net-scoring.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  validateTeeLayout,
+  resolveHandicapIndex,
+  calculateCourseHandicap,
+  allocateStrokes,
+  stablefordPoints,
+  calculateNetStableford,
+} from './net-scoring';
+
+// Front nine: par 36, 18-hole odd stroke indexes
+const frontNine = {
+  pars: [4, 5, 3, 4, 4, 3, 4, 5, 4],
+  stroke_indexes: [7, 3, 17, 1, 11, 15, 5, 9, 13],
+  course_rating: 35.4,
+  slope_rating: 126,
+};
+
+describe('validateTeeLayout', () => {
+  it('accepts 9-hole layouts using 18-hole stroke indexes', () => {
+    assert.equal(validateTeeLayout(frontNine.pars, frontNine.stroke_indexes), null);
+  });
+
+  it('rejects mismatched, repeated or out-of-range holes', () => {
+    assert.match(validateTeeLayout([4, 4, 4], [1, 2, 3])!, /9 or 18/);
+    assert.match(validateTeeLayout(frontNine.pars, [1, 2, 3])!, /every hole/);
+    assert.match(validateTeeLayout(frontNine.pars, [1, 1, 3, 4, 5, 6, 7, 8, 9])!, /different/);
+    assert.match(validateTeeLayout(frontNine.pars, [1, 2, 3, 4, 5, 6, 7, 8, 19])!, /1 to 18/);
+  });
+});
+
+describe('resolveHandicapIndex', () => {
+  it('prefers the manual override over the synced index', () => {
+    assert.equal(resolveHandicapIndex({ handicap_index: 12.4, manual_handicap_index: 15 }), 15);
+    assert.equal(resolveHandicapIndex({ handicap_index: 12.4, manual_handicap_index: null }), 12.4);
+    assert.equal(resolveHandicapIndex({ handicap_index: null, manual_handicap_index: null }), null);
+  });
+});
+
+describe('calculateCourseHandicap', () => {
+  it('halves the index on a 9-hole tee', () => {
+    // 14.8 / 2 × 126/113 + (35.4 − 36) = 7.65 → 8
+    assert.equal(calculateCourseHandicap(14.8, frontNine), 8);
+  });
+
+  it('uses the full index on an 18-hole tee', () => {
+    const eighteen = {
+      pars: [...frontNine.pars, ...frontNine.pars],
+      course_rating: 71.2,
+      slope_rating: 131,
+    };
+    // 20 × 131/113 + (71.2 − 72) = 22.39 → 22
+    assert.equal(calculateCourseHandicap(20, eighteen), 22);
+  });
+
+  it('comes out negative for plus handicaps', () => {
+    assert.equal(calculateCourseHandicap(-4, { ...frontNine, course_rating: 36 }), -2);
+  });
+});
+
+describe('allocateStrokes', () => {
+  it('gives strokes to the hardest holes by stroke index order', () => {
+    // Holes with SI 1, 3, 5 (holes 4, 2, 7)
+    assert.deepEqual(allocateStrokes(3, frontNine.stroke_indexes), [0, 1, 0, 1, 0, 0, 1, 0, 0]);
+  });
+
+  it('wraps around once every hole has a stroke', () => {
+    const strokes = allocateStrokes(11, frontNine.stroke_indexes);
+    assert.equal(strokes.reduce((a, b) => a + b, 0), 11);
+    assert.deepEqual(strokes, [1, 2, 1, 2, 1, 1, 1, 1, 1]);
+  });
+
+  it('gives strokes back from the easiest holes for plus handicaps', () => {
+    // SI 17 is hole 3, SI 15 is hole 6
+    assert.deepEqual(allocateStrokes(-2, frontNine.stroke_indexes), [0, 0, -1, 0, 0, -1, 0, 0, 0]);
+  });
+});
+
+describe('stablefordPoints', () => {
+  it('follows the league table', () => {
+    assert.deepEqual([-4, -3, -2, -1, 0, 1, 2, 5].map(stablefordPoints), [5, 5, 3, 2, 1, 0, -1, -1]);
+  });
+});
+
+describe('calculateNetStableford', () => {
+  it('scores each hole on net score and totals the round', () => {
+    const gross = [5, 6, 3, 5, 4, 4, 6, 5, 5];
+    const round = calculateNetStableford(gross, frontNine, 3);
+    assert.deepEqual(round.holes.map((h) => [h.strokes, h.net, h.points]), [
+      [0, 5, 0],
+      [1, 5, 1],
+      [0, 3, 1],
+      [1, 4, 1],
+      [0, 4, 1],
+      [0, 4, 0],
+      [1, 5, 0],
+      [0, 5, 1],
+      [0, 5, 0],
+    ]);
+    assert.equal(round.totalPoints, 5);
+    assert.equal(round.grossTotal, 43);
+  });
+
+  it('scores a pickup as double bogey or worse with no gross total', () => {
+    const gross = [4, 5, 3, 4, 4, 3, 4, 5, null];
+    const round = calculateNetStableford(gross, frontNine, 0);
+    assert.equal(round.holes[8].net, null);
+    assert.equal(round.holes[8].points, -1);
+    assert.equal(round.totalPoints, 7);
+    assert.equal(round.grossTotal, null);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Net Scoring — compute a golfer's net Stableford round from gross hole
+ * scores, their handicap index and the tee they played.
+ *
+ * Follows the World Handicap System: course handicap from index, slope and
+ * course rating (halved index for a 9-hole layout), strokes allocated by
+ * stroke index, and the league's Stableford table on net score to par.
+ *
+ * Pure functions — used by the admin hole-by-hole entry form for a live
+ * preview and by the save action, which recomputes before writing.
+ */
+
+import type { LeagueTee, NetStablefordHole } from "@/types/events";
+
+type TeeLayout = Pick<LeagueTee, "pars" | "stroke_indexes">;
+type TeeRatings = Pick<LeagueTee, "pars" | "course_rating" | "slope_rating">;
+
+/** Slope rating of a course of standard difficulty */
+const STANDARD_SLOPE = 113;
+
+/**
+ * Check a tee's hole data. Returns an error message, or null if valid.
+ * Stroke indexes must be distinct and between 1 and 18 — a 9-hole layout
+ * may use either 1–9 or the 18-hole indexes of its holes.
+ */
+export function validateTeeLayout(pars: number[], strokeIndexes: number[]): string | null {
+  if (pars.length !== 9 && pars.length !== 18) {
+    return "A tee must have 9 or 18 holes";
+  }
+  if (strokeIndexes.length !== pars.length) {
+    return "Enter a stroke index for every hole";
+  }
+  if (pars.some((p) => !Number.isInteger(p) || p < 3 || p > 6)) {
+    return "Par must be 3, 4, 5 or 6 on every hole";
+  }
+  if (strokeIndexes.some((si) => !Number.isInteger(si) || si < 1 || si > 18)) {
+    return "Stroke indexes must be whole numbers from 1 to 18";
+  }
+  if (new Set(strokeIndexes).size !== strokeIndexes.length) {
+    return "Each hole needs a different stroke index";
+  }
+  return null;
+}
+
+/**
+ * Handicap index used for net scoring: the admin's manual override when
+ * set, otherwise the GHIN-synced index. Null if the golfer has neither.
+ */
+export function resolveHandicapIndex(profile: {
+  handicap_index: number | null;
+  manual_handicap_index: number | null;
+}): number | null {
+  return profile.manual_handicap_index ?? profile.handicap_index ?? null;
+}
+
+/**
+ * Course handicap for a tee:
+ *   HI × (Slope ÷ 113) + (Course Rating − Par), rounded
+ * A 9-hole layout uses half the handicap index with its 9-hole ratings.
+ * Plus handicaps come out negative.
+ */
+export function calculateCourseHandicap(handicapIndex: number, tee: TeeRatings): number {
+  const par = tee.pars.reduce((sum, p) => sum + p, 0);
+  const index = tee.pars.length === 9 ? handicapIndex / 2 : handicapIndex;
+  const courseHandicap =
+    index * (tee.slope_rating / STANDARD_SLOPE) + (Number(tee.course_rating) - par);
+  // Round to one decimal first so float noise can't tip an exact .5
+  return Math.round(Math.round(courseHandicap * 10) / 10);
+}
+
+/**
+ * Handicap strokes received on each hole, in playing order.
+ *
+ * Holes are ranked by stroke index (hardest first). Every hole gets
+ * courseHandicap ÷ holes strokes, and the remainder goes one each to the
+ * hardest holes. A plus handicap gives strokes back starting from the
+ * easiest hole.
+ */
+export function allocateStrokes(courseHandicap: number, strokeIndexes: number[]): number[] {
+  const holes = strokeIndexes.length;
+  if (holes === 0) return [];
+
+  const order = strokeIndexes
+    .map((si, i) => ({ si, i }))
+    .sort((a, b) => a.si - b.si)
+    .map((h) => h.i);
+
+  const strokes = new Array<number>(holes).fill(0);
+  const total = Math.abs(courseHandicap);
+  const base = Math.floor(total / holes);
+  const extra = total % holes;
+
+  order.forEach((holeIndex, rank) => {
+    if (courseHandicap >= 0) {
+      strokes[holeIndex] = base + (rank < extra ? 1 : 0);
+    } else {
+      strokes[holeIndex] = 0 - base - (rank >= holes - extra ? 1 : 0);
+    }
+  });
+
+  return strokes;
+}
+
+/**
+ * League Stableford points for a net score relative to par:
+ * albatross or better 5, eagle 3, birdie 2, par 1, bogey 0,
+ * double bogey or worse -1.
+ */
+export function stablefordPoints(netToPar: number): number {
+  if (netToPar <= -3) return 5;
+  if (netToPar === -2) return 3;
+  if (netToPar === -1) return 2;
+  if (netToPar === 0) return 1;
+  if (netToPar === 1) return 0;
+  return -1;
+}
+
+/**
+ * Score a round hole by hole. `gross` lists one entry per hole in
+ * playing order; null means the golfer picked up, which scores as a
+ * double bogey or worse.
+ */
+export function calculateNetStableford(
+  gross: (number | null)[],
+  tee: TeeLayout,
+  courseHandicap: number
+): { holes: NetStablefordHole[]; totalPoints: number; grossTotal: number | null } {
+  const strokes = allocateStrokes(courseHandicap, tee.stroke_indexes);
+
+  const holes = tee.pars.map((par, i): NetStablefordHole => {
+    const score = gross[i] ?? null;
+    const net = score === null ? null : score - strokes[i];
+    return {
+      hole: i + 1,
+      par,
+      strokeIndex: tee.stroke_indexes[i],
+      gross: score,
+      strokes: strokes[i],
+      net,
+      points: net === null ? stablefordPoints(Infinity) : stablefordPoints(net - par),
+    };
+  });
+
+  return {
+    holes,
+    totalPoints: holes.reduce((sum, h) => sum + h.points, 0),
+    grossTotal: holes.every((h) => h.gross !== null)
+      ? holes.reduce((sum, h) => sum + h.gross!, 0)
+      : null,
+  };
+}
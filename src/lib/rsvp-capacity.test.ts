@@ -0,0 +1,347 @@
+/**
+ * Tests for race-safe RSVP status changes.
+ *
+ * The unit tests cover the TypeScript wrappers: the rpc arguments each one
+ * sends (including defaults) and how the function's jsonb result is mapped
+ * back.
+ *
+ * The capacity check, schedule lock and waitlist numbering live in the
+ * apply_rsvp_status() Postgres function (migrations 038, 051). The
+ * "against Postgres" tests fire concurrent calls at a real database with
+ * the migrations applied — a local Supabase (`supabase start`) or a
+ * throwaway test project. Each rpc goes through PostgREST on its own
+ * connection, so the calls really do race. They create their own event,
+ * game and golfers and delete them afterwards, and are skipped unless
+ * SUPABASE_TEST_URL and SUPABASE_TEST_SERVICE_ROLE_KEY are set. Never point
+ * them at production.
+ *
+ * Run with: npx tsx --test src/lib/rsvp-capacity.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ *
+ * Against local Supabase:
+ *   SUPABASE_TEST_URL=http://127.0.0.1:54321 \
+ *   SUPABASE_TEST_SERVICE_ROLE_KEY=<service_role key from `supabase status`> \
+ *   npx tsx --test src/lib/rsvp-capacity.test.ts
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { applyRsvpStatus, applyGuestStatus, guestsWaitForMembers } from './rsvp-capacity';
+
+/** SupabaseClient stand-in that records rpc() calls and returns a canned result */
+function fakeRpc(result: { data: unknown; error: { message: string } | null }) {
+  const calls: { fn: string; params: Record<string, unknown> }[] = [];
+  const supabase = {
+    rpc: async (fn: string, params: Record<string, unknown>) => {
+      calls.push({ fn, params });
+      return result;
+    },
+  } as unknown as SupabaseClient;
+  return { supabase, calls };
+}
+
+describe('applyRsvpStatus', () => {
+  it('sends defaults for a golfer self-service change', async () => {
+    const { supabase, calls } = fakeRpc({
+      data: { rsvp_id: 'r1', old_status: null, new_status: 'in', waitlist_position: null, changed: true },
+      error: null,
+    });
+
+    await applyRsvpStatus(supabase, { scheduleId: 's1', profileId: 'p1', status: 'in' });
+
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].fn, 'apply_rsvp_status');
+    assert.deepEqual(calls[0].params, {
+      p_schedule_id: 's1',
+      p_profile_id: 'p1',
+      p_status: 'in',
+      p_changed_by: null,
+      p_enforce_capacity: true,
+      p_expected_status: null,
+      p_user_agent: null,
+      p_ip_address: null,
+      p_is_suspicious: false,
+      p_change_reason: null,
+    });
+  });
+
+  it('passes admin overrides through', async () => {
+    const { supabase, calls } = fakeRpc({
+      data: { rsvp_id: 'r1', old_status: 'waitlisted', new_status: 'in', waitlist_position: null, changed: true },
+      error: null,
+    });
+
+    await applyRsvpStatus(supabase, {
+      scheduleId: 's1',
+      profileId: 'p2',
+      status: 'in',
+      changedBy: 'admin1',
+      enforceCapacity: false,
+      expectedStatus: 'waitlisted',
+      changeReason: 'promoted',
+    });
+
+    assert.equal(calls[0].params.p_changed_by, 'admin1');
+    assert.equal(calls[0].params.p_enforce_capacity, false);
+    assert.equal(calls[0].params.p_expected_status, 'waitlisted');
+    assert.equal(calls[0].params.p_change_reason, 'promoted');
+  });
+
+  it('maps the jsonb result to camelCase', async () => {
+    const { supabase } = fakeRpc({
+      data: {
+        rsvp_id: 'r1',
+        old_status: 'no_response',
+        new_status: 'waitlisted',
+        waitlist_position: 3,
+        in_count: 14,
+        guest_count: 2,
+        capacity: 16,
+        changed: true,
+      },
+      error: null,
+    });
+
+    const result = await applyRsvpStatus(supabase, { scheduleId: 's1', profileId: 'p1', status: 'in' });
+
+    assert.deepEqual(result, {
+      rsvpId: 'r1',
+      oldStatus: 'no_response',
+      newStatus: 'waitlisted',
+      waitlistPosition: 3,
+      inCount: 14,
+      guestCount: 2,
+      capacity: 16,
+      changed: true,
+    });
+  });
+
+  it('fills counts the function leaves out with null', async () => {
+    // Unchanged calls return early, without in_count / guest_count / capacity
+    const { supabase } = fakeRpc({
+      data: { rsvp_id: 'r1', old_status: 'out', new_status: 'out', waitlist_position: null, changed: false },
+      error: null,
+    });
+
+    const result = await applyRsvpStatus(supabase, { scheduleId: 's1', profileId: 'p1', status: 'out' });
+
+    assert.equal(result.changed, false);
+    assert.equal(result.inCount, null);
+    assert.equal(result.guestCount, null);
+    assert.equal(result.capacity, null);
+  });
+
+  it('surfaces database errors', async () => {
+    const { supabase } = fakeRpc({ data: null, error: { message: 'boom' } });
+
+    await assert.rejects(
+      applyRsvpStatus(supabase, { scheduleId: 's1', profileId: 'p1', status: 'in' }),
+      /apply_rsvp_status failed: boom/
+    );
+  });
+});
+
+describe('applyGuestStatus', () => {
+  it('sends defaults for an approval', async () => {
+    const { supabase, calls } = fakeRpc({
+      data: { guest_request_id: 'g1', old_status: 'pending', new_status: 'approved', waitlist_position: null, changed: true },
+      error: null,
+    });
+
+    await applyGuestStatus(supabase, { guestRequestId: 'g1', status: 'approved' });
+
+    assert.equal(calls[0].fn, 'apply_guest_status');
+    assert.deepEqual(calls[0].params, {
+      p_guest_request_id: 'g1',
+      p_status: 'approved',
+      p_changed_by: null,
+      p_enforce_capacity: true,
+      p_hold_for_members: false,
+      p_expected_status: null,
+    });
+  });
+
+  it('passes hold-for-members and overrides through', async () => {
+    const { supabase, calls } = fakeRpc({
+      data: { guest_request_id: 'g1', old_status: 'pending', new_status: 'waitlisted', waitlist_position: 1, changed: true },
+      error: null,
+    });
+
+    await applyGuestStatus(supabase, {
+      guestRequestId: 'g1',
+      status: 'approved',
+      changedBy: 'admin1',
+      enforceCapacity: false,
+      holdForMembers: true,
+      expectedStatus: 'pending',
+    });
+
+    assert.equal(calls[0].params.p_changed_by, 'admin1');
+    assert.equal(calls[0].params.p_enforce_capacity, false);
+    assert.equal(calls[0].params.p_hold_for_members, true);
+    assert.equal(calls[0].params.p_expected_status, 'pending');
+  });
+
+  it('maps the jsonb result to camelCase', async () => {
+    const { supabase } = fakeRpc({
+      data: {
+        guest_request_id: 'g1',
+        old_status: 'pending',
+        new_status: 'waitlisted',
+        waitlist_position: 2,
+        in_count: 16,
+        guest_count: 0,
+        capacity: 16,
+        changed: true,
+      },
+      error: null,
+    });
+
+    const result = await applyGuestStatus(supabase, { guestRequestId: 'g1', status: 'approved' });
+
+    assert.deepEqual(result, {
+      guestRequestId: 'g1',
+      oldStatus: 'pending',
+      newStatus: 'waitlisted',
+      waitlistPosition: 2,
+      inCount: 16,
+      guestCount: 0,
+      capacity: 16,
+      changed: true,
+    });
+  });
+
+  it('surfaces database errors', async () => {
+    const { supabase } = fakeRpc({ data: null, error: { message: 'Guest request not found' } });
+
+    await assert.rejects(
+      applyGuestStatus(supabase, { guestRequestId: 'missing', status: 'approved' }),
+      /apply_guest_status failed: Guest request not found/
+    );
+  });
+});
+
+describe('guestsWaitForMembers', () => {
+  it('holds guests for members until the cutoff under members first', () => {
+    assert.equal(guestsWaitForMembers('members_first', false), true);
+    assert.equal(guestsWaitForMembers('members_first', true), false);
+  });
+
+  it('never holds guests under first come', () => {
+    assert.equal(guestsWaitForMembers('first_come', false), false);
+  });
+
+  it('defaults to members first', () => {
+    assert.equal(guestsWaitForMembers(null, false), true);
+  });
+});
+
+// ============================================================
+// Against Postgres — concurrent calls through apply_rsvp_status()
+// ============================================================
+
+const TEST_DB_URL = process.env.SUPABASE_TEST_URL;
+const TEST_DB_KEY = process.env.SUPABASE_TEST_SERVICE_ROLE_KEY;
+
+describe('apply_rsvp_status against Postgres', {
+  skip: TEST_DB_URL && TEST_DB_KEY ? false : 'set SUPABASE_TEST_URL and SUPABASE_TEST_SERVICE_ROLE_KEY',
+}, () => {
+  const CAPACITY = 4;
+  const GOLFERS = 12;
+  const run = randomUUID().slice(0, 8);
+
+  let supabase: SupabaseClient;
+  let eventId: string;
+  let scheduleId: string;
+  const profileIds: string[] = [];
+
+  before(async () => {
+    supabase = createClient(TEST_DB_URL!, TEST_DB_KEY!, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { data: event, error: eventError } = await supabase
+      .from('events')
+      .insert({ name: `Capacity test ${run}`, default_capacity: 16, is_active: false })
+      .select('id')
+      .single();
+    if (eventError) throw eventError;
+    eventId = event.id;
+
+    const { data: schedule, error: scheduleError } = await supabase
+      .from('event_schedules')
+      .insert({ event_id: eventId, game_date: '2099-01-03', capacity: CAPACITY })
+      .select('id')
+      .single();
+    if (scheduleError) throw scheduleError;
+    scheduleId = schedule.id;
+
+    // The auth trigger (handle_new_user) creates each golfer's profile
+    for (let i = 0; i < GOLFERS; i++) {
+      const { data, error } = await supabase.auth.admin.createUser({
+        email: `capacity-${run}-${i}@example.com`,
+        email_confirm: true,
+        user_metadata: { first_name: 'Capacity', last_name: `Test ${i}` },
+      });
+      if (error) throw error;
+      profileIds.push(data.user.id);
+    }
+  });
+
+  after(async () => {
+    if (!supabase) return;
+    // Cascades to the schedule, RSVPs and rsvp_history
+    if (eventId) await supabase.from('events').delete().eq('id', eventId);
+    for (const id of profileIds) await supabase.auth.admin.deleteUser(id);
+  });
+
+  it('never puts more golfers in than capacity, and numbers the overflow 1..n', async () => {
+    const results = await Promise.all(
+      profileIds.map((profileId) => applyRsvpStatus(supabase, { scheduleId, profileId, status: 'in' }))
+    );
+
+    assert.equal(results.filter((r) => r.newStatus === 'in').length, CAPACITY);
+    for (const r of results) {
+      assert.ok((r.inCount ?? 0) <= CAPACITY, `in_count ${r.inCount} over capacity`);
+    }
+
+    const { data: rows, error } = await supabase
+      .from('rsvps')
+      .select('status, waitlist_position')
+      .eq('schedule_id', scheduleId);
+    if (error) throw error;
+
+    assert.equal(rows.filter((r) => r.status === 'in').length, CAPACITY);
+    const positions = rows
+      .filter((r) => r.status === 'waitlisted')
+      .map((r) => r.waitlist_position as number)
+      .sort((a, b) => a - b);
+    assert.deepEqual(positions, Array.from({ length: GOLFERS - CAPACITY }, (_, i) => i + 1));
+  });
+
+  it('keeps the waitlist gapless when waitlisted golfers leave at the same time', async () => {
+    const { data: waitlisted, error } = await supabase
+      .from('rsvps')
+      .select('profile_id')
+      .eq('schedule_id', scheduleId)
+      .eq('status', 'waitlisted');
+    if (error) throw error;
+
+    const leaving = waitlisted.slice(0, 3);
+    await Promise.all(
+      leaving.map((r) => applyRsvpStatus(supabase, { scheduleId, profileId: r.profile_id, status: 'out' }))
+    );
+
+    const { data: rows, error: rowsError } = await supabase
+      .from('rsvps')
+      .select('status, waitlist_position')
+      .eq('schedule_id', scheduleId)
+      .eq('status', 'waitlisted');
+    if (rowsError) throw rowsError;
+
+    const positions = rows.map((r) => r.waitlist_position as number).sort((a, b) => a - b);
+    assert.deepEqual(positions, Array.from({ length: waitlisted.length - leaving.length }, (_, i) => i + 1));
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Race-safe RSVP status changes.
+ *
+ * Thin wrapper around the apply_rsvp_status() Postgres function
+ * (migrations 038, 051). The function locks the game's event_schedules row, so
+ * the capacity check, waitlist position assignment, RSVP update and
+ * rsvp_history insert happen atomically — two golfers tapping "I'm In" at the
+ * same moment can't both get in past capacity.
+ *
+ * Approved guests take spots too. applyGuestStatus() wraps
+ * apply_guest_status(), which takes the same lock to approve a guest into an
+ * open spot or put them on the game's guest waitlist.
+ *
+ * Requires the admin (service role) client; callers do their own auth checks.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RsvpStatus } from "./rsvp-status";
+import type { GuestCapacityPolicy, GuestRequestStatus } from "../types/events";
+
+export interface ApplyRsvpStatusInput {
+  scheduleId: string;
+  profileId: string;
+  status: RsvpStatus;
+  /** Admin profile id; NULL = golfer self-service or system change */
+  changedBy?: string | null;
+  /** When false, "in" is applied even if the game is full (admin override) */
+  enforceCapacity?: boolean;
+  /** Only apply if the RSVP currently has this status; otherwise changed = false */
+  expectedStatus?: RsvpStatus;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  isSuspicious?: boolean;
+  /** rsvp_history.change_reason for system-driven changes */
+  changeReason?: string | null;
+}
+
+export interface ApplyRsvpStatusResult {
+  rsvpId: string | null;
+  /** NULL when the RSVP row was created by this call */
+  oldStatus: RsvpStatus | null;
+  /** "waitlisted" when "in" was requested but the game was full */
+  newStatus: RsvpStatus | null;
+  waitlistPosition: number | null;
+  /** Members "in" */
+  inCount: number | null;
+  /** Approved guests — they count against capacity alongside inCount */
+  guestCount: number | null;
+  capacity: number | null;
+  /** False when nothing changed (same status, or expectedStatus didn't match) */
+  changed: boolean;
+}
+
+/** Raw jsonb shape returned by apply_rsvp_status() */
+interface ApplyRsvpStatusRow {
+  rsvp_id: string | null;
+  old_status: RsvpStatus | null;
+  new_status: RsvpStatus | null;
+  waitlist_position: number | null;
+  in_count?: number | null;
+  guest_count?: number | null;
+  capacity?: number | null;
+  changed: boolean;
+}
+
+/**
+ * Change a golfer's RSVP status for a game atomically.
+ * Creates the RSVP row if the golfer doesn't have one yet.
+ * Throws if the database call fails.
+ */
+export async function applyRsvpStatus(
+  supabase: SupabaseClient,
+  input: ApplyRsvpStatusInput
+): Promise<ApplyRsvpStatusResult> {
+  const { data, error } = await supabase.rpc("apply_rsvp_status", {
+    p_schedule_id: input.scheduleId,
+    p_profile_id: input.profileId,
+    p_status: input.status,
+    p_changed_by: input.changedBy ?? null,
+    p_enforce_capacity: input.enforceCapacity ?? true,
+    p_expected_status: input.expectedStatus ?? null,
+    p_user_agent: input.userAgent ?? null,
+    p_ip_address: input.ipAddress ?? null,
+    p_is_suspicious: input.isSuspicious ?? false,
+    p_change_reason: input.changeReason ?? null,
+  });
+
+  if (error) {
+    throw new Error(`apply_rsvp_status failed: ${error.message}`);
+  }
+
+  const row = data as ApplyRsvpStatusRow;
+  return {
+    rsvpId: row.rsvp_id,
+    oldStatus: row.old_status,
+    newStatus: row.new_status,
+    waitlistPosition: row.waitlist_position ?? null,
+    inCount: row.in_count ?? null,
+    guestCount: row.guest_count ?? null,
+    capacity: row.capacity ?? null,
+    changed: row.changed,
+  };
+}
+
+// ============================================================
+// Guests
+// ============================================================
+
+/**
+ * Whether approved guests should wait on the guest waitlist instead of
+ * taking a spot. Under "members first" they wait until the RSVP cutoff.
+ */
+export function guestsWaitForMembers(
+  policy: GuestCapacityPolicy | null | undefined,
+  pastCutoff: boolean
+): boolean {
+  return (policy ?? "members_first") === "members_first" && !pastCutoff;
+}
+
+export interface ApplyGuestStatusInput {
+  guestRequestId: string;
+  status: Exclude<GuestRequestStatus, "pending">;
+  /** Admin profile id; NULL for email-link approvals and system changes */
+  changedBy?: string | null;
+  /** When false, "approved" takes a spot even if the game is full (admin override) */
+  enforceCapacity?: boolean;
+  /** Send "approved" to the guest waitlist even if there's room (see guestsWaitForMembers) */
+  holdForMembers?: boolean;
+  /** Only apply if the request currently has this status; otherwise changed = false */
+  expectedStatus?: GuestRequestStatus;
+}
+
+export interface ApplyGuestStatusResult {
+  guestRequestId: string;
+  oldStatus: GuestRequestStatus;
+  /** "waitlisted" when "approved" was requested but no spot was available */
+  newStatus: GuestRequestStatus;
+  waitlistPosition: number | null;
+  inCount: number | null;
+  guestCount: number | null;
+  capacity: number | null;
+  changed: boolean;
+}
+
+/** Raw jsonb shape returned by apply_guest_status() */
+interface ApplyGuestStatusRow {
+  guest_request_id: string;
+  old_status: GuestRequestStatus;
+  new_status: GuestRequestStatus;
+  waitlist_position: number | null;
+  in_count?: number | null;
+  guest_count?: number | null;
+  capacity?: number | null;
+  changed: boolean;
+}
+
+/**
+ * Change a guest request's status atomically, counting the guest against
+ * the game's capacity. Throws if the database call fails.
+ */
+export async function applyGuestStatus(
+  supabase: SupabaseClient,
+  input: ApplyGuestStatusInput
+): Promise<ApplyGuestStatusResult> {
+  const { data, error } = await supabase.rpc("apply_guest_status", {
+    p_guest_request_id: input.guestRequestId,
+    p_status: input.status,
+    p_changed_by: input.changedBy ?? null,
+    p_enforce_capacity: input.enforceCapacity ?? true,
+    p_hold_for_members: input.holdForMembers ?? false,
+    p_expected_status: input.expectedStatus ?? null,
+  });
+
+  if (error) {
+    throw new Error(`apply_guest_status failed: ${error.message}`);
+  }
+
+  const row = data as ApplyGuestStatusRow;
+  return {
+    guestRequestId: row.guest_request_id,
+    oldStatus: row.old_status,
+    newStatus: row.new_status,
+    waitlistPosition: row.waitlist_position ?? null,
+    inCount: row.in_count ?? null,
+    guestCount: row.guest_count ?? null,
+    capacity: row.capacity ?? null,
+    changed: row.changed,
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Golfer RSVP responses from outside the RSVP page.
+ *
+ * Shared by the tokenized /api/rsvp link and the SMS reply webhook: look up
+ * the RSVP, refuse changes to cancelled or past-cutoff games, apply the new
+ * status atomically (applyRsvpStatus), then run the same follow-ups as the
+ * RSVP page — capacity alert, waitlist fill and "spot opened" alert. Approved
+ * guests count toward capacity in both alerts.
+ *
+ * Requires the admin (service role) client.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sendAdminAlert } from "./admin-alerts";
+import { isPastCutoffPacific } from "./timezone";
+import { fillOpenSpotsFromWaitlist, type OpenSpotResult } from "./waitlist";
+import { fillGuestSpots, type PromotedGuest } from "./guest-waitlist";
+import { applyRsvpStatus } from "./rsvp-capacity";
+import type { RsvpStatus } from "./rsvp-status";
+
+export interface RsvpForResponse {
+  id: string;
+  token: string;
+  profile_id: string;
+  schedule_id: string;
+  status: RsvpStatus;
+  schedule: {
+    id: string;
+    game_date: string;
+    capacity: number | null;
+    status: string;
+    event: {
+      id: string;
+      name: string;
+      cutoff_day: number;
+      cutoff_time: string | null;
+      timezone: string | null;
+      default_capacity: number | null;
+    } | null;
+  } | null;
+}
+
+const RSVP_WITH_GAME = `id, token, profile_id, schedule_id, status,
+   schedule:event_schedules(
+     id, game_date, capacity, status,
+     event:events(id, name, cutoff_day, cutoff_time, timezone, default_capacity)
+   )`;
+
+export async function loadRsvpByToken(
+  supabase: SupabaseClient,
+  token: string
+): Promise<RsvpForResponse | null> {
+  const { data, error } = await supabase
+    .from("rsvps")
+    .select(RSVP_WITH_GAME)
+    .eq("token", token)
+    .single();
+
+  if (error || !data) return null;
+  return data as unknown as RsvpForResponse;
+}
+
+/** Why the golfer can't change this RSVP themselves, or null if they can */
+export function getRsvpLockReason(rsvp: RsvpForResponse): "cancelled" | "locked" | null {
+  const schedule = rsvp.schedule;
+  if (schedule?.status === "cancelled") return "cancelled";
+
+  // Past cutoff (using Pacific Time — Vercel runs in UTC)
+  const event = schedule?.event;
+  if (event && schedule) {
+    const pastCutoff = isPastCutoffPacific(
+      schedule.game_date,
+      event.cutoff_day,
+      event.cutoff_time || "10:00"
+    );
+    if (pastCutoff) return "locked";
+  }
+  return null;
+}
+
+/**
+ * Apply a golfer's own "in" / "out" / "not_sure" response and fire the
+ * follow-up alerts. Throws if the status update itself fails; alert and
+ * waitlist errors are logged and swallowed.
+ */
+export async function applyGolferRsvpResponse(
+  supabase: SupabaseClient,
+  rsvp: RsvpForResponse,
+  action: "in" | "out" | "not_sure",
+  meta: {
+    userAgent?: string | null;
+    ipAddress?: string | null;
+    isSuspicious?: boolean;
+    changeReason?: string | null;
+  } = {}
+): Promise<{ oldStatus: RsvpStatus; newStatus: RsvpStatus }> {
+  const schedule = rsvp.schedule;
+  const event = schedule?.event;
+
+  // Capacity check, waitlist position, update and history in one
+  // transaction — concurrent "in" taps can't push the game past capacity.
+  // A full game sends "in" to the waitlist instead.
+  const applied = await applyRsvpStatus(supabase, {
+    scheduleId: rsvp.schedule_id,
+    profileId: rsvp.profile_id,
+    status: action,
+    userAgent: meta.userAgent ?? null,
+    ipAddress: meta.ipAddress ?? null,
+    isSuspicious: meta.isSuspicious ?? false,
+    changeReason: meta.changeReason ?? null,
+  });
+
+  const oldStatus = rsvp.status;
+  const newStatus = applied.newStatus || oldStatus;
+
+  if (action === "in" && newStatus === "waitlisted") {
+    return { oldStatus, newStatus };
+  }
+
+  const capacity = schedule?.capacity || event?.default_capacity || 16;
+
+  // Fire admin alerts (non-blocking — don't delay the response)
+  if (newStatus === "in" && oldStatus !== "in" && event && schedule) {
+    // Check if capacity was just reached (approved guests take spots too)
+    const newInCount = (applied.inCount || 0) + (applied.guestCount || 0);
+    const gameCapacity = applied.capacity || capacity;
+
+    if (newInCount >= gameCapacity) {
+      sendAdminAlert("capacity_reached", {
+        eventId: event.id,
+        eventName: event.name,
+        gameDate: schedule.game_date,
+        currentCount: newInCount,
+        capacity: gameCapacity,
+      }).catch((err) => console.error("Alert error:", err));
+    }
+  }
+
+  if (oldStatus === "in" && newStatus !== "in" && event && schedule) {
+    // Spot opened — someone went from "in" to "out".
+    // Auto-promote (or offer the spot) from the waitlist first (awaited —
+    // Vercel kills fire-and-forget work once the response is returned).
+    let openSpot: OpenSpotResult = { outcome: "disabled", promoted: [], offered: [] };
+    try {
+      openSpot = await fillOpenSpotsFromWaitlist(supabase, rsvp.schedule_id);
+    } catch (err) {
+      console.error("Waitlist auto-promotion error (non-fatal):", err);
+    }
+
+    // No member waiting — the spot can go to the guest waitlist
+    let promotedGuests: PromotedGuest[] = [];
+    if (openSpot.outcome === "no_waitlist") {
+      try {
+        promotedGuests = await fillGuestSpots(supabase, rsvp.schedule_id);
+      } catch (err) {
+        console.error("Guest waitlist promotion error (non-fatal):", err);
+      }
+    }
+
+    const [{ count: remainingIn }, { count: guestCount }] = await Promise.all([
+      supabase
+        .from("rsvps")
+        .select("*", { count: "exact", head: true })
+        .eq("schedule_id", rsvp.schedule_id)
+        .eq("status", "in"),
+      supabase
+        .from("guest_requests")
+        .select("*", { count: "exact", head: true })
+        .eq("schedule_id", rsvp.schedule_id)
+        .eq("status", "approved"),
+    ]);
+
+    // Fetch golfer name so admin alert can say who dropped out
+    const { data: golferProfile } = await supabase
+      .from("profiles")
+      .select("first_name, last_name")
+      .eq("id", rsvp.profile_id)
+      .single();
+
+    const golferName = golferProfile
+      ? `${golferProfile.first_name} ${golferProfile.last_name}`
+      : "A player";
+
+    sendAdminAlert("spot_opened", {
+      eventId: event.id,
+      eventName: event.name,
+      gameDate: schedule.game_date,
+      currentCount: (remainingIn || 0) + (guestCount || 0),
+      capacity,
+      golferName,
+      promotedGolferNames: [
+        ...openSpot.promoted.map((p) => `${p.firstName} ${p.lastName}`),
+        ...promotedGuests.map((g) => `${g.guestName} (guest of ${g.hostName})`),
+      ],
+      offeredGolferNames: openSpot.offered.map((p) => `${p.firstName} ${p.lastName}`),
+      promotionAwaitingApproval: openSpot.outcome === "needs_approval",
+    }).catch((err) => console.error("Alert error:", err));
+  }
+
+  return { oldStatus, newStatus };
+}
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for the league tab HTML sanitizer.
+ *
+ * Run with: npx tsx --test src/lib/sanitize-html.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { sanitizeHtml } from './sanitize-html';
+
+describe('sanitizeHtml', () => {
+  it('keeps the formatting used by the seeded league tabs', () => {
+    const html =
+      '<h2>Payouts</h2><table style="border-collapse: collapse; width: 100%;"><tr style="border-bottom: 1px solid #e5e7eb;">' +
+      '<td style="text-align: center; padding: 8px 12px;"><strong>1st</strong></td></tr></table>';
+    assert.equal(
+      sanitizeHtml(html),
+      '<h2>Payouts</h2><table style="border-collapse: collapse; width: 100%"><tr style="border-bottom: 1px solid #e5e7eb">' +
+        '<td style="text-align: center; padding: 8px 12px"><strong>1st</strong></td></tr></table>'
+    );
+  });
+
+  it('removes scripts and other active elements with their contents', () => {
+    assert.equal(sanitizeHtml('<p>Hi</p><script>alert(1)</script><style>p{}</style>'), '<p>Hi</p>');
+    assert.equal(sanitizeHtml('<p>Hi</p><iframe src="x">'), '<p>Hi</p>');
+    assert.equal(sanitizeHtml('<p><SCRIPT>document.write("<b>")</script >ok</p>'), '<p>ok</p>');
+  });
+
+  it('drops event handlers and unknown attributes', () => {
+    assert.equal(
+      sanitizeHtml('<p onclick="steal()" class="x" title="Tip">Hi</p>'),
+      '<p title="Tip">Hi</p>'
+    );
+    assert.equal(sanitizeHtml('<img src=x onerror=alert(1)>'), '');
+  });
+
+  it('unwraps unknown tags but keeps their text', () => {
+    assert.equal(sanitizeHtml('<form><b>Bold</b> text</form>'), '<b>Bold</b> text');
+  });
+
+  it('only allows safe link URLs', () => {
+    assert.equal(
+      sanitizeHtml('<a href="https://frcc.com" target="_blank">Club</a>'),
+      '<a href="https://frcc.com" target="_blank" rel="noopener noreferrer">Club</a>'
+    );
+    assert.equal(sanitizeHtml('<a href="/league/thursday">Standings</a>'), '<a href="/league/thursday">Standings</a>');
+    assert.equal(sanitizeHtml('<a href="javascript:alert(1)">x</a>'), '<a>x</a>');
+    assert.equal(sanitizeHtml('<a href="jav&#x61;script:alert(1)">x</a>'), '<a>x</a>');
+    assert.equal(sanitizeHtml('<a href=" java\tscript:alert(1)">x</a>'), '<a>x</a>');
+  });
+
+  it('filters inline style properties and values', () => {
+    assert.equal(
+      sanitizeHtml('<p style="position: fixed; color: red; background-color: url(x)">Hi</p>'),
+      '<p style="color: red">Hi</p>'
+    );
+  });
+
+  it('escapes stray angle brackets and comments', () => {
+    assert.equal(sanitizeHtml('<p>5 < 6 <!-- note --></p>'), '<p>5 &lt; 6 </p>');
+    assert.equal(sanitizeHtml('<p title="a&quot;>b">x</p>'), '<p title="a&quot;&gt;b">x</p>');
+  });
+});
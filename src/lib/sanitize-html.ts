@@ -0,0 +1,165 @@
+/**
+ * HTML Sanitizer for admin-authored league tab content
+ *
+ * League tabs store raw HTML edited in Event Settings and render it with
+ * dangerouslySetInnerHTML. Everything outside a small allowlist of
+ * formatting tags, attributes and inline style properties is stripped:
+ * scripts and other active elements are removed with their contents,
+ * unknown tags are unwrapped (their text kept), and link URLs are limited
+ * to http(s), mailto, tel and relative paths.
+ *
+ * Pure string processing so it runs the same on the server, in the admin
+ * live preview and on the golfer-facing league page.
+ */
+
+const ALLOWED_TAGS = new Set([
+  "h2", "h3", "h4", "p", "br", "hr", "div", "span", "blockquote",
+  "strong", "b", "em", "i", "u", "small",
+  "ul", "ol", "li",
+  "table", "caption", "thead", "tbody", "tfoot", "tr", "th", "td",
+  "a",
+]);
+
+const VOID_TAGS = new Set(["br", "hr"]);
+
+/** Elements removed together with everything inside them */
+const DROP_CONTENT_TAGS = new Set([
+  "script", "style", "iframe", "object", "embed", "noscript",
+  "template", "textarea", "select", "svg", "math", "title",
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(["style", "title"]);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(["href", "target"]),
+  th: new Set(["colspan", "rowspan"]),
+  td: new Set(["colspan", "rowspan"]),
+};
+
+const ALLOWED_STYLE_PROPERTIES = new Set([
+  "color", "background-color",
+  "font-weight", "font-style", "font-size",
+  "text-align", "text-decoration", "vertical-align", "white-space",
+  "width", "max-width", "min-width",
+  "padding", "padding-top", "padding-right", "padding-bottom", "padding-left",
+  "margin", "margin-top", "margin-right", "margin-bottom", "margin-left",
+  "border", "border-top", "border-right", "border-bottom", "border-left",
+  "border-collapse", "border-color", "border-radius",
+]);
+
+const ALLOWED_URL_SCHEMES = new Set(["http", "https", "mailto", "tel"]);
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/** Decode the entities an attacker could use to hide a URL scheme */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&colon;/gi, ":")
+    .replace(/&tab;|&newline;/gi, "")
+    .replace(/&amp;/gi, "&");
+}
+
+function isSafeUrl(value: string): boolean {
+  // Browsers ignore control characters and whitespace inside a scheme
+  const url = decodeEntities(value).replace(/[\u0000- ]/g, "");
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || ALLOWED_URL_SCHEMES.has(scheme[1].toLowerCase());
+}
+
+function sanitizeStyle(style: string): string {
+  const declarations: string[] = [];
+  for (const declaration of style.split(";")) {
+    const colon = declaration.indexOf(":");
+    if (colon === -1) continue;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).trim();
+    if (!ALLOWED_STYLE_PROPERTIES.has(property) || !value) continue;
+    // No url(), expression(), escapes or entities in values
+    if (/url\s*\(|expression|javascript|[\\<>&@]/i.test(value)) continue;
+    declarations.push(`${property}: ${value}`);
+  }
+  return declarations.join("; ");
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function sanitizeAttributes(tag: string, raw: string): string {
+  const allowed = TAG_ATTRIBUTES[tag];
+  const attributes: string[] = [];
+  const seen = new Set<string>();
+
+  for (const match of raw.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? "";
+    if (seen.has(name)) continue;
+    if (!GLOBAL_ATTRIBUTES.has(name) && !allowed?.has(name)) continue;
+    seen.add(name);
+
+    if (name === "style") {
+      const style = sanitizeStyle(value);
+      if (style) attributes.push(`style="${escapeAttribute(style)}"`);
+    } else if (name === "href") {
+      if (isSafeUrl(value)) attributes.push(`href="${escapeAttribute(value)}"`);
+    } else if (name === "target") {
+      if (value === "_blank") attributes.push('target="_blank" rel="noopener noreferrer"');
+    } else if (name === "colspan" || name === "rowspan") {
+      if (/^\d{1,2}$/.test(value)) attributes.push(`${name}="${value}"`);
+    } else {
+      attributes.push(`${name}="${escapeAttribute(value)}"`);
+    }
+  }
+
+  return attributes.length > 0 ? ` ${attributes.join(" ")}` : "";
+}
+
+/** Text between tags: anything that looks like markup becomes literal text */
+function sanitizeText(text: string): string {
+  return text.replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Strip everything but allowlisted formatting markup from admin-authored HTML.
+ */
+export function sanitizeHtml(html: string): string {
+  const input = html.replace(/<!--[\s\S]*?(?:-->|$)/g, "");
+  let output = "";
+  let cursor = 0;
+
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG_PATTERN.exec(input)) !== null) {
+    output += sanitizeText(input.slice(cursor, match.index));
+    cursor = TAG_PATTERN.lastIndex;
+
+    const isClosing = match[1] === "/";
+    const tag = match[2].toLowerCase();
+
+    if (DROP_CONTENT_TAGS.has(tag)) {
+      if (!isClosing) {
+        // Skip to the matching close tag (or the end of the input)
+        const close = new RegExp(`</${tag}\\s*>`, "i");
+        const rest = input.slice(cursor);
+        const end = rest.search(close);
+        cursor = end === -1 ? input.length : cursor + end + rest.match(close)![0].length;
+        TAG_PATTERN.lastIndex = cursor;
+      }
+      continue;
+    }
+
+    if (!ALLOWED_TAGS.has(tag)) continue;
+
+    if (isClosing) {
+      if (!VOID_TAGS.has(tag)) output += `</${tag}>`;
+    } else {
+      output += `<${tag}${sanitizeAttributes(tag, match[3])}>`;
+    }
+  }
+
+  output += sanitizeText(input.slice(cursor));
+  return output;
+}
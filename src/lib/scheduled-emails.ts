@@ -0,0 +1,258 @@
+/**
+ * Scheduled & Recurring Custom Emails
+ *
+ * Admins queue composer emails in the scheduled_emails table (migration 040):
+ *   - "once": send to a chosen game week at a chosen date + send slot
+ *   - "weekly": send every game week, N days before game day at a send slot
+ * Either kind can be conditional on the confirmed count being below the
+ * game's minimum players ("spots still open" nudge).
+ *
+ * processScheduledEmails() runs inside the email-scheduler cron using the
+ * same six send slots and isWithinSendWindow() check as the automated
+ * emails. Duplicate sends are prevented by a guarded update that claims the
+ * row (status for "once", last_schedule_id for "weekly") before sending.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  calculateSendDateString,
+  isPastSendWindow,
+  isWithinSendWindow,
+} from "./timezone";
+import { sendCustomEmailToSchedule, type EmailTarget } from "./custom-email";
+import { validateForSend } from "./email-template-library";
+
+export type ScheduledEmailRecurrence = "once" | "weekly";
+export type ScheduledEmailCondition = "always" | "below_min_players";
+export type ScheduledEmailStatus =
+  | "scheduled"
+  | "sent"
+  | "skipped"
+  | "missed"
+  | "failed"
+  | "cancelled";
+
+export interface ScheduledEmail {
+  id: string;
+  event_id: string;
+  schedule_id: string | null;
+  target: EmailTarget;
+  subject: string;
+  body: string;
+  recurrence: ScheduledEmailRecurrence;
+  send_date: string | null;
+  send_day_offset: number | null;
+  send_time: string;
+  send_condition: ScheduledEmailCondition;
+  status: ScheduledEmailStatus;
+  last_schedule_id: string | null;
+  last_run_at: string | null;
+  last_result: string | null;
+  last_recipient_count: number | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Send slots — must match the cron entries in vercel.json */
+export const SCHEDULED_SEND_TIMES = ["04:45", "05:45", "10:45", "11:45", "16:45", "17:45"];
+
+export interface ScheduledEmailRunResult {
+  id: string;
+  subject: string;
+  outcome: "sent" | "skipped" | "missed" | "failed" | "test";
+  message: string;
+  sent: number;
+}
+
+interface GameForSend {
+  id: string;
+  game_date: string;
+  status: string;
+  min_players_override: number | null;
+}
+
+/**
+ * Check the send condition for a game.
+ * Returns a skip reason, or null if the email should go out.
+ */
+async function checkSendCondition(
+  supabase: SupabaseClient,
+  email: ScheduledEmail,
+  game: GameForSend,
+  eventMinPlayers: number | null
+): Promise<string | null> {
+  if (game.status === "cancelled") return "Skipped — game cancelled";
+  if (email.send_condition !== "below_min_players") return null;
+
+  const minPlayers = game.min_players_override ?? eventMinPlayers;
+  if (!minPlayers) return "Skipped — no minimum players set for this event";
+
+  const { count: inCount } = await supabase
+    .from("rsvps")
+    .select("*", { count: "exact", head: true })
+    .eq("schedule_id", game.id)
+    .eq("status", "in");
+
+  if ((inCount || 0) >= minPlayers) {
+    return `Skipped — ${inCount} confirmed (minimum ${minPlayers})`;
+  }
+  return null;
+}
+
+/**
+ * Send (or skip) every queued email for an event that is due in this cron run.
+ *
+ * @param gameDateString - The event's upcoming game (used by weekly emails)
+ * @param options.isTest - Dry run: report what would happen, change nothing
+ * @param options.isForce - Ignore the send window (still sends each email once)
+ */
+export async function processScheduledEmails(
+  supabase: SupabaseClient,
+  event: { id: string; min_players: number | null },
+  gameDateString: string,
+  options: { isTest?: boolean; isForce?: boolean } = {}
+): Promise<ScheduledEmailRunResult[]> {
+  const { data: queued, error } = await supabase
+    .from("scheduled_emails")
+    .select("*")
+    .eq("event_id", event.id)
+    .eq("status", "scheduled")
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  if (!queued || queued.length === 0) return [];
+
+  // Weekly emails target the upcoming game
+  let upcomingGame: GameForSend | null = null;
+  if (queued.some((e) => e.recurrence === "weekly")) {
+    const { data } = await supabase
+      .from("event_schedules")
+      .select("id, game_date, status, min_players_override")
+      .eq("event_id", event.id)
+      .eq("game_date", gameDateString)
+      .maybeSingle();
+    upcomingGame = data;
+  }
+
+  const results: ScheduledEmailRunResult[] = [];
+
+  for (const email of queued as ScheduledEmail[]) {
+    const sendTime = email.send_time.slice(0, 5);
+    let game: GameForSend | null;
+    let sendDate: string;
+
+    if (email.recurrence === "once") {
+      sendDate = email.send_date as string;
+
+      if (!options.isForce && !isWithinSendWindow(sendDate, sendTime)) {
+        if (isPastSendWindow(sendDate, sendTime) && !options.isTest) {
+          await supabase
+            .from("scheduled_emails")
+            .update({ status: "missed", last_run_at: new Date().toISOString(), last_result: "Send window passed" })
+            .eq("id", email.id)
+            .eq("status", "scheduled");
+          results.push({ id: email.id, subject: email.subject, outcome: "missed", message: `"${email.subject}" missed its send window`, sent: 0 });
+        }
+        continue;
+      }
+
+      const { data } = await supabase
+        .from("event_schedules")
+        .select("id, game_date, status, min_players_override")
+        .eq("id", email.schedule_id as string)
+        .maybeSingle();
+      game = data;
+    } else {
+      game = upcomingGame;
+      if (!game || email.last_schedule_id === game.id) continue;
+
+      sendDate = calculateSendDateString(game.game_date, email.send_day_offset ?? 0);
+      if (!options.isForce && !isWithinSendWindow(sendDate, sendTime)) continue;
+    }
+
+    const skipReason = game
+      ? await checkSendCondition(supabase, email, game, event.min_players)
+      : "Skipped — game no longer exists";
+    const variableError = validateForSend(email.subject, email.body);
+
+    if (options.isTest) {
+      results.push({
+        id: email.id,
+        subject: email.subject,
+        outcome: "test",
+        message: `[TEST] "${email.subject}" — ${variableError || skipReason || "would send"}`,
+        sent: 0,
+      });
+      continue;
+    }
+
+    // Claim the row before sending so an overlapping run can't send it twice
+    const claim = email.recurrence === "once"
+      ? supabase
+          .from("scheduled_emails")
+          .update({ status: "sent", last_run_at: new Date().toISOString() })
+          .eq("id", email.id)
+          .eq("status", "scheduled")
+      : supabase
+          .from("scheduled_emails")
+          .update({ last_schedule_id: game!.id, last_run_at: new Date().toISOString() })
+          .eq("id", email.id)
+          .eq("status", "scheduled")
+          .or(`last_schedule_id.is.null,last_schedule_id.neq.${game!.id}`);
+
+    const { data: claimed } = await claim.select("id");
+    if (!claimed || claimed.length === 0) continue;
+
+    let outcome: ScheduledEmailRunResult["outcome"];
+    let lastResult: string;
+    let sentCount = 0;
+
+    if (skipReason || variableError) {
+      outcome = variableError ? "failed" : "skipped";
+      lastResult = variableError || (skipReason as string);
+    } else {
+      try {
+        const sendResult = await sendCustomEmailToSchedule(supabase, {
+          eventId: event.id,
+          scheduleId: game!.id,
+          target: email.target,
+          subject: email.subject,
+          body: email.body,
+          sentBy: email.created_by,
+        });
+        if ("error" in sendResult) {
+          outcome = "failed";
+          lastResult = sendResult.error;
+        } else {
+          outcome = "sent";
+          sentCount = sendResult.recipientCount;
+          lastResult = `Sent to ${sentCount}`;
+        }
+      } catch (err) {
+        console.error(`Scheduled email ${email.id} failed:`, err);
+        outcome = "failed";
+        lastResult = err instanceof Error ? err.message : "Send failed";
+      }
+    }
+
+    await supabase
+      .from("scheduled_emails")
+      .update({
+        ...(email.recurrence === "once" ? { status: outcome } : {}),
+        last_result: lastResult,
+        last_recipient_count: sentCount,
+      })
+      .eq("id", email.id);
+
+    results.push({
+      id: email.id,
+      subject: email.subject,
+      outcome,
+      message: `"${email.subject}" — ${lastResult}`,
+      sent: sentCount,
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for Golf Genius score imports: reading the export, name
+ * normalization and matching players to golfers via aliases and names.
+ *
+ * Run with: npx tsx --test src/lib/score-import.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import {
+  normalizeSourceName,
+  normalizeNameKey,
+  splitPlayerName,
+  parseGolfGeniusRows,
+  parseGolfGeniusXls,
+  matchScoresToProfiles,
+  type ParsedScore,
+} from './score-import';
+
+const exportRows: unknown[][] = [
+  ['Pos.', 'Player', 'Club', 'Stableford Points', 'Thru'],
+  [1, 'Jesse Herrera', 'FRCC', 41, 'F'],
+  ['T2', 'Douglas Irwin', 'FRCC', 38, 'F'],
+  ['T2', 'Tony Dambrosia', 'FRCC', 38, 'F'],
+  ['', 'Cher', 'FRCC', 30, 'F'],
+  ['', 'Bob Allen', 'FRCC', '', ''],
+];
+
+describe('normalizeSourceName', () => {
+  it('lowercases and collapses whitespace', () => {
+    assert.equal(normalizeSourceName('  Douglas   Irwin '), 'douglas irwin');
+  });
+});
+
+describe('normalizeNameKey', () => {
+  it('ignores case and punctuation', () => {
+    assert.equal(normalizeNameKey('Tony', "D'Ambrosia"), normalizeNameKey('tony', 'Dambrosia'));
+    assert.equal(normalizeNameKey('Ann', 'Smith-Jones'), normalizeNameKey('Ann', 'Smith Jones'));
+  });
+});
+
+describe('splitPlayerName', () => {
+  it('splits "First Last" and "Last, First"', () => {
+    assert.deepEqual(splitPlayerName('Mary Ann Van Dyke'), { firstName: 'Mary', lastName: 'Ann Van Dyke' });
+    assert.deepEqual(splitPlayerName('Irwin, Doug'), { firstName: 'Doug', lastName: 'Irwin' });
+  });
+
+  it('returns null for a single name', () => {
+    assert.equal(splitPlayerName('Cher'), null);
+  });
+});
+
+describe('parseGolfGeniusRows', () => {
+  it('reads players and points, skipping unusable rows', () => {
+    const scores = parseGolfGeniusRows(exportRows);
+    assert.deepEqual(scores.map((s) => [s.playerName, s.stablefordPoints]), [
+      ['Jesse Herrera', 41],
+      ['Douglas Irwin', 38],
+      ['Tony Dambrosia', 38],
+    ]);
+  });
+
+  it('finds columns from the header row', () => {
+    const scores = parseGolfGeniusRows([
+      ['Golf Genius Leaderboard'],
+      ['Player', 'Stableford Points'],
+      ['Jesse Herrera', 41],
+    ]);
+    assert.equal(scores.length, 1);
+    assert.equal(scores[0].lastName, 'Herrera');
+  });
+});
+
+describe('parseGolfGeniusXls', () => {
+  it('prefers the stableford sheet in a workbook', () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Player', 'Gross'], ['Jesse Herrera', 80]]), 'Gross');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(exportRows), 'Individual Stableford');
+    const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+    assert.equal(parseGolfGeniusXls(data).length, 3);
+  });
+
+  it('reads CSV exports', () => {
+    const csv = 'Pos.,Player,Club,Stableford Points,Thru\n1,Jesse Herrera,FRCC,41,F\n';
+    const scores = parseGolfGeniusXls(new TextEncoder().encode(csv));
+    assert.deepEqual(scores.map((s) => s.stablefordPoints), [41]);
+  });
+});
+
+describe('matchScoresToProfiles', () => {
+  const scores: ParsedScore[] = parseGolfGeniusRows(exportRows);
+  const profiles = [
+    { id: 'p1', first_name: 'Jesse', last_name: 'Herrera' },
+    { id: 'p2', first_name: 'Doug', last_name: 'Irwin' },
+    { id: 'p3', first_name: 'Tony', last_name: "D'Ambrosia" },
+  ];
+
+  it('matches by name, ignoring punctuation', () => {
+    const matches = matchScoresToProfiles(scores, profiles, new Map());
+    assert.deepEqual(matches.map((m) => [m.profileId, m.matchedBy]), [
+      ['p1', 'name'],
+      [null, null],
+      ['p3', 'name'],
+    ]);
+  });
+
+  it('suggests golfers with the same last name when unmatched', () => {
+    const matches = matchScoresToProfiles(scores, profiles, new Map());
+    assert.deepEqual(matches[1].suggestions, ['p2']);
+  });
+
+  it('uses saved aliases before names', () => {
+    const matches = matchScoresToProfiles(scores, profiles, new Map([['douglas irwin', 'p2']]));
+    assert.equal(matches[1].profileId, 'p2');
+    assert.equal(matches[1].matchedBy, 'alias');
+    assert.deepEqual(matches[1].suggestions, []);
+  });
+
+  it('ignores aliases for golfers who are no longer active', () => {
+    const matches = matchScoresToProfiles(scores, profiles, new Map([['jesse herrera', 'p9']]));
+    assert.equal(matches[0].profileId, 'p1');
+    assert.equal(matches[0].matchedBy, 'name');
+  });
+});
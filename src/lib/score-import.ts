@@ -0,0 +1,178 @@
+/**
+ * Score Import — parse Golf Genius leaderboard exports and match the
+ * player names to golfer profiles.
+ *
+ * Used by the admin League Scores page (upload + preview) and by
+ * scripts/import-scores.ts. No database access here: callers load the
+ * profiles and the event's league_name_aliases and pass them in.
+ */
+
+import * as XLSX from "xlsx";
+
+export interface ParsedScore {
+  playerName: string;
+  firstName: string;
+  lastName: string;
+  stablefordPoints: number;
+}
+
+export interface ScoreMatchProfile {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+export interface ScoreMatch {
+  playerName: string;
+  /** normalizeSourceName(playerName) — the league_name_aliases key */
+  sourceName: string;
+  stablefordPoints: number;
+  profileId: string | null;
+  matchedBy: "alias" | "name" | null;
+  /** Likely profiles (same last name) when unmatched */
+  suggestions: string[];
+}
+
+// Golf Genius column layout: Pos., Player, Club, Stableford Points, Thru
+const DEFAULT_NAME_COLUMN = 1;
+const DEFAULT_POINTS_COLUMN = 3;
+
+/** "  Douglas   Irwin " → "douglas irwin" */
+export function normalizeSourceName(playerName: string): string {
+  return playerName.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Match key for a first + last name. Ignores case and punctuation so
+ * "Dambrosia" matches "D'Ambrosia" and "Smith-Jones" matches "Smith Jones".
+ */
+export function normalizeNameKey(firstName: string, lastName: string): string {
+  const clean = (s: string) =>
+    s.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return `${clean(firstName)}|${clean(lastName)}`;
+}
+
+/** Split "First Last" or "Last, First" into parts (null if only one word) */
+export function splitPlayerName(
+  playerName: string
+): { firstName: string; lastName: string } | null {
+  const name = playerName.trim();
+  if (name.includes(",")) {
+    const [last, first] = name.split(",").map((s) => s.trim());
+    return first && last ? { firstName: first, lastName: last } : null;
+  }
+  const parts = name.split(/\s+/);
+  if (parts.length < 2) return null;
+  return { firstName: parts[0], lastName: parts.slice(1).join(" ") };
+}
+
+/**
+ * Find the Player and Stableford Points columns from a header row in the
+ * first few rows. Falls back to the standard Golf Genius layout.
+ */
+function findColumns(rows: unknown[][]): {
+  headerRow: number;
+  nameCol: number;
+  pointsCol: number;
+} {
+  for (let i = 0; i < Math.min(rows.length, 5); i++) {
+    const cells = (rows[i] || []).map((c) => String(c ?? "").trim().toLowerCase());
+    const nameCol = cells.findIndex((c) => c === "player" || c === "name" || c === "player name");
+    const pointsCol = cells.findIndex((c) => c.includes("stableford") || c === "points");
+    if (nameCol >= 0 && pointsCol >= 0) {
+      return { headerRow: i, nameCol, pointsCol };
+    }
+  }
+  return { headerRow: 0, nameCol: DEFAULT_NAME_COLUMN, pointsCol: DEFAULT_POINTS_COLUMN };
+}
+
+/**
+ * Turn spreadsheet rows (first row = header) into scores. Rows without a
+ * two-part name or a numeric points value are skipped.
+ */
+export function parseGolfGeniusRows(rows: unknown[][]): ParsedScore[] {
+  const { headerRow, nameCol, pointsCol } = findColumns(rows);
+  const scores: ParsedScore[] = [];
+
+  for (let i = headerRow + 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (!row || row.length <= Math.max(nameCol, pointsCol)) continue;
+
+    const playerName = String(row[nameCol] ?? "").trim();
+    const rawPoints = row[pointsCol];
+    if (!playerName || rawPoints === "" || rawPoints == null) continue;
+
+    const points = Number(rawPoints);
+    if (!Number.isInteger(points)) continue;
+
+    const name = splitPlayerName(playerName);
+    if (!name) continue;
+
+    scores.push({ playerName, ...name, stablefordPoints: points });
+  }
+
+  return scores;
+}
+
+/**
+ * Read the stableford sheet (or the first sheet) from a workbook.
+ * SheetJS handles .xlsx, most .xls and .csv exports.
+ */
+export function readGolfGeniusRows(data: ArrayBuffer | Uint8Array): {
+  sheetName: string;
+  rows: unknown[][];
+} {
+  const workbook = XLSX.read(data, { type: "array" });
+  const sheetName =
+    workbook.SheetNames.find((name) => name.toLowerCase().includes("stableford")) ||
+    workbook.SheetNames[0];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+    header: 1,
+  });
+  return { sheetName, rows };
+}
+
+/** Parse a Golf Genius .xls/.xlsx/.csv export */
+export function parseGolfGeniusXls(data: ArrayBuffer | Uint8Array): ParsedScore[] {
+  return parseGolfGeniusRows(readGolfGeniusRows(data).rows);
+}
+
+/**
+ * Match parsed scores to profiles: the event's saved aliases first
+ * (source name → profile id), then first + last name.
+ */
+export function matchScoresToProfiles(
+  scores: ParsedScore[],
+  profiles: ScoreMatchProfile[],
+  aliases: Map<string, string>
+): ScoreMatch[] {
+  const profileIds = new Set(profiles.map((p) => p.id));
+  const byName = new Map<string, string>();
+  const byLastName = new Map<string, string[]>();
+  for (const p of profiles) {
+    byName.set(normalizeNameKey(p.first_name, p.last_name), p.id);
+    const lastKey = normalizeNameKey("", p.last_name);
+    byLastName.set(lastKey, [...(byLastName.get(lastKey) || []), p.id]);
+  }
+
+  return scores.map((score) => {
+    const sourceName = normalizeSourceName(score.playerName);
+    const aliasId = aliases.get(sourceName);
+    // Ignore aliases pointing at golfers who are no longer active
+    const aliasMatch = aliasId && profileIds.has(aliasId) ? aliasId : null;
+    const nameMatch = byName.get(normalizeNameKey(score.firstName, score.lastName)) ?? null;
+    const profileId = aliasMatch ?? nameMatch;
+    const matchedBy = aliasMatch ? "alias" : nameMatch ? "name" : null;
+
+    return {
+      playerName: score.playerName,
+      sourceName,
+      stablefordPoints: score.stablefordPoints,
+      profileId,
+      matchedBy,
+      suggestions: profileId
+        ? []
+        : byLastName.get(normalizeNameKey("", score.lastName)) || [],
+    };
+  });
+}
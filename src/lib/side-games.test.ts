@@ -0,0 +1,107 @@
+/**
+ * Unit tests for weekly side games: pot size, skins with carryovers,
+ * winner lookup from hole scores and the per-golfer payout split.
+ *
+ * Run with: npx tsx --test src/lib/side-games.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  calculateSideGamePot,
+  calculateSkins,
+  findSkinWinners,
+  findLowScoreWinners,
+  calculateSideGamePayouts,
+} from './side-games';
+
+const week = { buy_in: 25, player_ids: ['a', 'b', 'c', 'd'], skins_carry_in: 0 };
+
+describe('calculateSideGamePot', () => {
+  it('multiplies the buy-in by the players', () => {
+    assert.equal(calculateSideGamePot(25, 14), 350);
+    assert.equal(calculateSideGamePot(12.5, 3), 37.5);
+  });
+});
+
+describe('calculateSkins', () => {
+  it('carries tied holes into the next skin', () => {
+    const result = calculateSkins(['a', null, null, 'b', null]);
+    assert.deepEqual(result.holes.map((h) => h.skins), [1, 1, 2, 3, 1]);
+    assert.deepEqual(result.skinsWon, { a: 1, b: 3 });
+    assert.equal(result.unresolved, 1);
+  });
+});
+
+describe('findSkinWinners', () => {
+  it('awards holes to an outright low gross only', () => {
+    const rounds = [
+      { profileId: 'a', gross: [4, 5, 3] },
+      { profileId: 'b', gross: [5, 5, null] },
+      { profileId: 'c', gross: [5, 6, 4] },
+    ];
+    assert.deepEqual(findSkinWinners(rounds, 3), ['a', null, 'a']);
+  });
+});
+
+describe('findLowScoreWinners', () => {
+  it('returns everyone tied for low and skips missing scores', () => {
+    assert.deepEqual(
+      findLowScoreWinners([
+        { profileId: 'a', score: 40 },
+        { profileId: 'b', score: 38 },
+        { profileId: 'c', score: 38 },
+        { profileId: 'd', score: null },
+      ]),
+      ['b', 'c']
+    );
+  });
+});
+
+describe('calculateSideGamePayouts', () => {
+  it('splits the pot between games and tied winners', () => {
+    const result = calculateSideGamePayouts(week, [
+      { game_type: 'closest_to_pin', label: 'CTP #3', share_percent: 25, winner_ids: ['a'], hole_winners: null },
+      { game_type: 'low_net', label: 'Low Net', share_percent: 75, winner_ids: ['b', 'c'], hole_winners: null },
+    ]);
+    assert.equal(result.pot, 100);
+    assert.deepEqual(result.gamePrizes, [25, 75]);
+    assert.equal(result.payouts.a.amount, 25);
+    assert.equal(result.payouts.b.amount, 37.5);
+    assert.deepEqual(result.payouts.c.winnings, [
+      { label: 'Low Net', gameType: 'low_net', amount: 37.5, detail: 'Tied, 2 ways' },
+    ]);
+  });
+
+  it('divides skins by skins won, keeping every cent', () => {
+    const result = calculateSideGamePayouts({ ...week, player_ids: ['a', 'b', 'c'] }, [
+      { game_type: 'skins', label: 'Skins', share_percent: 100, winner_ids: [], hole_winners: ['a', null, 'b', 'c'] },
+    ]);
+    // $75 over 4 skins: b's hole carried one tie
+    assert.equal(result.payouts.a.amount, 18.75);
+    assert.equal(result.payouts.b.amount, 37.5);
+    assert.equal(result.payouts.b.winnings[0].detail, '2 skins');
+    assert.equal(result.payouts.c.amount, 18.75);
+  });
+
+  it('carries unwon skins to next week and adds the carry-in', () => {
+    const skins = { game_type: 'skins' as const, label: 'Skins', share_percent: 50, winner_ids: [], hole_winners: [null, null] };
+    assert.equal(calculateSideGamePayouts(week, [skins]).skinsCarryOut, 50);
+
+    const next = calculateSideGamePayouts({ ...week, skins_carry_in: 50 }, [
+      { ...skins, hole_winners: ['d', null] },
+    ]);
+    assert.deepEqual(next.gamePrizes, [100]);
+    assert.equal(next.payouts.d.amount, 100);
+    assert.equal(next.skinsCarryOut, 0);
+  });
+
+  it('ignores winners who did not buy in and reports unawarded prizes', () => {
+    const result = calculateSideGamePayouts(week, [
+      { game_type: 'low_gross', label: 'Low Gross', share_percent: 40, winner_ids: ['zz'], hole_winners: null },
+    ]);
+    assert.deepEqual(result.payouts, {});
+    assert.equal(result.unawarded, 40);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Side Games — weekly closest-to-the-pin, low net, low gross and skins
+ * games paid from the players' buy-ins.
+ *
+ * The pot is buy-in × players, split between the week's games by share.
+ * Tied winners split a prize evenly to the cent. Skins go to an outright
+ * low gross on a hole; a tied hole carries its skin to the next one, and
+ * the skins prize is divided by skins won. If nobody wins a skin, the
+ * whole skins prize carries to the next week.
+ *
+ * Pure functions — used by the admin Side Games page for a live preview
+ * and by the save action, which recomputes before posting money rows.
+ */
+
+import type { LeagueSideGame, SideGameType, SideGameWinning } from "@/types/events";
+
+type SideGameInput = Pick<LeagueSideGame, "game_type" | "label" | "share_percent" | "winner_ids" | "hole_winners">;
+
+export interface SkinsResult {
+  /** Per hole: the winner and how many skins the hole was worth */
+  holes: { hole: number; winnerId: string | null; skins: number }[];
+  /** profile_id → skins won */
+  skinsWon: Record<string, number>;
+  /** Skins still carried after the last hole (tied out) */
+  unresolved: number;
+}
+
+export interface SideGamePayoutResult {
+  pot: number;
+  /** Prize per game, in game order (skins include the carry-in) */
+  gamePrizes: number[];
+  /** profile_id → total won and the per-game breakdown */
+  payouts: Record<string, { amount: number; winnings: SideGameWinning[] }>;
+  /** Skins money nobody won, to carry into next week */
+  skinsCarryOut: number;
+  /** Money from non-skins games with no winner recorded */
+  unawarded: number;
+}
+
+/**
+ * Split a whole number of cents into `count` near-equal parts; the first
+ * parts take the odd cents.
+ */
+function splitCents(cents: number, count: number): number[] {
+  const base = Math.floor(cents / count);
+  const extra = cents - base * count;
+  return Array.from({ length: count }, (_, i) => base + (i < extra ? 1 : 0));
+}
+
+function toCents(dollars: number): number {
+  return Math.round(Number(dollars) * 100);
+}
+
+/** The week's pot: buy-in × players who bought in */
+export function calculateSideGamePot(buyIn: number, playerCount: number): number {
+  return (toCents(buyIn) * playerCount) / 100;
+}
+
+/**
+ * Skins from the winner recorded on each hole (null = tied). A tied hole
+ * carries its skin to the next hole.
+ */
+export function calculateSkins(holeWinners: (string | null)[]): SkinsResult {
+  const holes: SkinsResult["holes"] = [];
+  const skinsWon: Record<string, number> = {};
+  let carried = 0;
+
+  holeWinners.forEach((winnerId, i) => {
+    const skins = carried + 1;
+    holes.push({ hole: i + 1, winnerId, skins });
+    if (winnerId) {
+      skinsWon[winnerId] = (skinsWon[winnerId] || 0) + skins;
+      carried = 0;
+    } else {
+      carried = skins;
+    }
+  });
+
+  return { holes, skinsWon, unresolved: carried };
+}
+
+/**
+ * Skin winner per hole from gross hole scores: the only player with the
+ * lowest score wins it. Ties, and holes nobody scored, give null.
+ */
+export function findSkinWinners(
+  rounds: { profileId: string; gross: (number | null)[] }[],
+  holeCount: number
+): (string | null)[] {
+  return Array.from({ length: holeCount }, (_, hole) => {
+    const scored = rounds.filter((r) => r.gross[hole] != null);
+    if (scored.length === 0) return null;
+    const low = Math.min(...scored.map((r) => r.gross[hole]!));
+    const winners = scored.filter((r) => r.gross[hole] === low);
+    return winners.length === 1 ? winners[0].profileId : null;
+  });
+}
+
+/** Everyone sharing the lowest score (players without a score are skipped) */
+export function findLowScoreWinners(entries: { profileId: string; score: number | null }[]): string[] {
+  const scored = entries.filter((e) => e.score !== null);
+  if (scored.length === 0) return [];
+  const low = Math.min(...scored.map((e) => e.score!));
+  return scored.filter((e) => e.score === low).map((e) => e.profileId);
+}
+
+/**
+ * Pay out a week's side games. Winners who didn't buy in are ignored, and
+ * only the players who bought in are paid.
+ */
+export function calculateSideGamePayouts(
+  week: { buy_in: number; player_ids: string[]; skins_carry_in: number },
+  games: SideGameInput[]
+): SideGamePayoutResult {
+  const players = new Set(week.player_ids);
+  const potCents = toCents(week.buy_in) * players.size;
+  const payouts: SideGamePayoutResult["payouts"] = {};
+  const gamePrizes: number[] = [];
+  let skinsCarryOutCents = 0;
+  let unawardedCents = 0;
+
+  const pay = (profileId: string, cents: number, game: SideGameInput, detail: string | null) => {
+    if (cents <= 0) return;
+    const entry = (payouts[profileId] ??= { amount: 0, winnings: [] });
+    entry.amount = (toCents(entry.amount) + cents) / 100;
+    entry.winnings.push({
+      label: game.label,
+      gameType: game.game_type as SideGameType,
+      amount: cents / 100,
+      detail,
+    });
+  };
+
+  for (const game of games) {
+    let prizeCents = Math.round((potCents * Number(game.share_percent)) / 100);
+
+    if (game.game_type === "skins") {
+      prizeCents += toCents(week.skins_carry_in);
+      gamePrizes.push(prizeCents / 100);
+
+      const { skinsWon } = calculateSkins(
+        (game.hole_winners || []).map((id) => (id && players.has(id) ? id : null))
+      );
+      const winners = Object.keys(skinsWon);
+      const totalSkins = winners.reduce((sum, id) => sum + skinsWon[id], 0);
+      if (totalSkins === 0) {
+        skinsCarryOutCents += prizeCents;
+        continue;
+      }
+
+      // Whole cents per skin; odd cents go one each to the first winners
+      const perSkin = Math.floor(prizeCents / totalSkins);
+      const odd = splitCents(prizeCents - perSkin * totalSkins, winners.length);
+      winners.forEach((id, i) => {
+        const skins = skinsWon[id];
+        pay(id, perSkin * skins + odd[i], game, `${skins} skin${skins === 1 ? "" : "s"}`);
+      });
+      continue;
+    }
+
+    gamePrizes.push(prizeCents / 100);
+    const winners = [...new Set(game.winner_ids)].filter((id) => players.has(id));
+    if (winners.length === 0) {
+      unawardedCents += prizeCents;
+      continue;
+    }
+
+    const shares = splitCents(prizeCents, winners.length);
+    winners.forEach((id, i) => {
+      pay(id, shares[i], game, winners.length > 1 ? `Tied, ${winners.length} ways` : null);
+    });
+  }
+
+  return {
+    pot: potCents / 100,
+    gamePrizes,
+    payouts,
+    skinsCarryOut: skinsCarryOutCents / 100,
+    unawarded: unawardedCents / 100,
+  };
+}
+
+/** Default games for a league's first side-game week */
+export const DEFAULT_SIDE_GAMES: Pick<LeagueSideGame, "game_type" | "label" | "share_percent">[] = [
+  { game_type: "closest_to_pin", label: "Closest to the Pin", share_percent: 20 },
+  { game_type: "low_net", label: "Low Net", share_percent: 30 },
+  { game_type: "low_gross", label: "Low Gross", share_percent: 20 },
+  { game_type: "skins", label: "Low Gross Skins", share_percent: 30 },
+];
+
+/** Default buy-in per player, in dollars */
+export const DEFAULT_SIDE_GAME_BUY_IN = 25;
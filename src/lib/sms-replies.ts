@@ -0,0 +1,209 @@
+/**
+ * Inbound SMS replies ("IN", "OUT", "STOP", ...).
+ *
+ * Called by /api/webhooks/sms after the provider signature is verified.
+ * A reply applies to the game in the latest game text we sent that phone;
+ * if there isn't one, to the golfer's next upcoming game. Every inbound
+ * message and our reply are logged in sms_messages.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { formatGameDateShort, getSiteUrl } from "./format";
+import { getTodayPacific } from "./timezone";
+import {
+  parseSmsKeyword,
+  toE164,
+  toStoredPhone,
+  getRsvpShortLink,
+} from "./sms";
+import {
+  loadRsvpByToken,
+  getRsvpLockReason,
+  applyGolferRsvpResponse,
+} from "./rsvp-response";
+
+/** rsvp_history.change_reason for RSVPs changed by text reply */
+export const SMS_REPLY_REASON = "sms_reply";
+
+/** Only texts this recent count as "the message they're replying to" */
+const REPLY_LOOKBACK_DAYS = 14;
+
+const HELP_TEXT =
+  "FRCC Golf Games: reply IN or OUT to RSVP for your next game. Reply STOP to opt out.";
+
+/**
+ * Handle one inbound text. Returns the reply to send back, or null for no
+ * reply (STOP/START — the carrier/provider sends its own confirmation).
+ */
+export async function handleInboundSms(
+  supabase: SupabaseClient,
+  message: { from: string; body: string; providerId?: string | null }
+): Promise<string | null> {
+  const storedPhone = toStoredPhone(message.from);
+  const e164 = toE164(storedPhone) || message.from;
+  const keyword = parseSmsKeyword(message.body);
+
+  const { data: profiles } = storedPhone
+    ? await supabase
+        .from("profiles")
+        .select("id, sms_opt_in")
+        .eq("phone", storedPhone)
+    : { data: [] as { id: string; sms_opt_in: boolean }[] };
+
+  const profileIds = (profiles || []).map((p) => p.id);
+  const optedIn = (profiles || []).filter((p) => p.sms_opt_in);
+
+  await supabase.from("sms_messages").insert({
+    direction: "inbound",
+    profile_id: profileIds.length === 1 ? profileIds[0] : null,
+    phone: e164,
+    body: message.body,
+    message_type: "inbound",
+    provider_id: message.providerId ?? null,
+    status: "received",
+  });
+
+  let reply: string | null;
+  let replyScheduleId: string | null = null;
+  let replyEventId: string | null = null;
+
+  if (keyword === "stop" || keyword === "start") {
+    if (profileIds.length > 0) {
+      await supabase
+        .from("profiles")
+        .update(
+          keyword === "stop"
+            ? { sms_opt_in: false }
+            : { sms_opt_in: true, sms_opt_in_at: new Date().toISOString() }
+        )
+        .in("id", profileIds);
+    }
+    return null;
+  } else if (keyword === "help") {
+    reply = HELP_TEXT;
+  } else if (optedIn.length === 0) {
+    reply = "This number isn't set up for FRCC Golf Games texts. Turn on texts on your Profile page, then try again.";
+  } else if (keyword !== "in" && keyword !== "out") {
+    reply = "Sorry, we didn't catch that. Reply IN or OUT to RSVP for your next game.";
+  } else {
+    const result = await applySmsRsvp(
+      supabase,
+      e164,
+      optedIn.map((p) => p.id),
+      keyword
+    );
+    reply = result.reply;
+    replyScheduleId = result.scheduleId;
+    replyEventId = result.eventId;
+  }
+
+  await supabase.from("sms_messages").insert({
+    direction: "outbound",
+    profile_id: profileIds.length === 1 ? profileIds[0] : null,
+    phone: e164,
+    body: reply,
+    message_type: "reply",
+    event_id: replyEventId,
+    schedule_id: replyScheduleId,
+    status: "sent",
+  });
+
+  return reply;
+}
+
+/** Find the RSVP a reply refers to and apply it */
+async function applySmsRsvp(
+  supabase: SupabaseClient,
+  phone: string,
+  profileIds: string[],
+  action: "in" | "out"
+): Promise<{ reply: string; scheduleId: string | null; eventId: string | null }> {
+  const since = new Date(Date.now() - REPLY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  // The game in the latest text we sent this phone
+  const { data: lastText } = await supabase
+    .from("sms_messages")
+    .select("schedule_id, profile_id, message_type")
+    .eq("phone", phone)
+    .eq("direction", "outbound")
+    .in("message_type", ["invite", "reminder", "waitlist_promoted", "waitlist_offer"])
+    .in("profile_id", profileIds)
+    .gte("created_at", since)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  // Held waitlist spots are claimed from the offer page, not by keyword
+  if (lastText?.message_type === "waitlist_offer" && action === "in") {
+    return {
+      reply: "To claim the open spot, tap the link in our last text before the offer expires.",
+      scheduleId: lastText.schedule_id,
+      eventId: null,
+    };
+  }
+
+  let token: string | null = null;
+  if (lastText?.schedule_id) {
+    const { data } = await supabase
+      .from("rsvps")
+      .select("token")
+      .eq("schedule_id", lastText.schedule_id)
+      .eq("profile_id", lastText.profile_id)
+      .maybeSingle();
+    token = data?.token ?? null;
+  }
+
+  // Otherwise the golfer's next upcoming game
+  if (!token) {
+    const { data: upcoming } = await supabase
+      .from("rsvps")
+      .select("token, schedule:event_schedules!inner(game_date, status)")
+      .in("profile_id", profileIds)
+      .gte("schedule.game_date", getTodayPacific())
+      .neq("schedule.status", "cancelled");
+
+    const next = (upcoming || [])
+      .map((r) => ({
+        token: r.token as string,
+        gameDate: (r.schedule as unknown as { game_date: string }).game_date,
+      }))
+      .sort((a, b) => a.gameDate.localeCompare(b.gameDate))[0];
+    token = next?.token ?? null;
+  }
+
+  const rsvp = token ? await loadRsvpByToken(supabase, token) : null;
+  if (!rsvp || !rsvp.schedule?.event) {
+    return { reply: "We couldn't find an upcoming game for you to RSVP to.", scheduleId: null, eventId: null };
+  }
+
+  const schedule = rsvp.schedule;
+  const event = rsvp.schedule.event;
+  const gameLabel = `${event.name} ${formatGameDateShort(schedule.game_date)}`;
+  const ids = { scheduleId: schedule.id, eventId: event.id };
+
+  const lockReason = getRsvpLockReason(rsvp);
+  if (lockReason === "cancelled") {
+    return { reply: `${gameLabel} has been cancelled.`, ...ids };
+  }
+  if (lockReason === "locked") {
+    return { reply: `RSVPs for ${gameLabel} are closed. Please contact the event admin to make a change.`, ...ids };
+  }
+
+  try {
+    const { newStatus } = await applyGolferRsvpResponse(supabase, rsvp, action, {
+      changeReason: SMS_REPLY_REASON,
+    });
+
+    const link = getRsvpShortLink(getSiteUrl(), rsvp.token);
+    const reply =
+      newStatus === "in"
+        ? `You're IN for ${gameLabel}. See you there! Details: ${link}`
+        : newStatus === "waitlisted"
+          ? `${gameLabel} is full, so you're on the waitlist. We'll text you if a spot opens.`
+          : `Got it — you're OUT for ${gameLabel}. Changed your mind? Reply IN before the cutoff.`;
+    return { reply, ...ids };
+  } catch (err) {
+    console.error("SMS RSVP update error:", err);
+    return { reply: "Something went wrong updating your RSVP. Please use the RSVP link in your email.", ...ids };
+  }
+}
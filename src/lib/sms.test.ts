@@ -0,0 +1,124 @@
+/**
+ * Unit tests for SMS helpers: phone formats, short links, reply keywords,
+ * Twilio signature verification and the fake provider.
+ *
+ * Run with: npx tsx --test src/lib/sms.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import {
+  toE164,
+  toStoredPhone,
+  encodeShortToken,
+  decodeShortToken,
+  getRsvpShortLink,
+  parseSmsKeyword,
+  verifyTwilioSignature,
+  createFakeSmsProvider,
+  buildInviteText,
+} from './sms';
+
+describe('phone formats', () => {
+  it('converts stored 10-digit numbers to E.164', () => {
+    assert.equal(toE164('8585551234'), '+18585551234');
+    assert.equal(toE164('(858) 555-1234'), '+18585551234');
+    assert.equal(toE164('18585551234'), '+18585551234');
+  });
+
+  it('rejects numbers that are not US 10-digit', () => {
+    assert.equal(toE164('555-1234'), null);
+    assert.equal(toE164(null), null);
+  });
+
+  it('converts inbound E.164 back to the stored format', () => {
+    assert.equal(toStoredPhone('+18585551234'), '8585551234');
+    assert.equal(toStoredPhone('+447700900123'), null);
+  });
+});
+
+describe('short RSVP links', () => {
+  const token = '3f2504e0-4f89-41d3-9a0c-0305e82c3301';
+
+  it('round-trips an RSVP token through a 22-character code', () => {
+    const code = encodeShortToken(token);
+    assert.equal(code.length, 22);
+    assert.equal(decodeShortToken(code), token);
+  });
+
+  it('builds the /r/ link', () => {
+    assert.equal(
+      getRsvpShortLink('https://example.com', token),
+      `https://example.com/r/${encodeShortToken(token)}`
+    );
+  });
+
+  it('rejects malformed codes', () => {
+    assert.equal(decodeShortToken('short'), null);
+    assert.equal(decodeShortToken('!!!!!!!!!!!!!!!!!!!!!!'), null);
+  });
+});
+
+describe('parseSmsKeyword', () => {
+  it('reads IN / OUT in common forms', () => {
+    assert.equal(parseSmsKeyword('IN'), 'in');
+    assert.equal(parseSmsKeyword('  in!  '), 'in');
+    assert.equal(parseSmsKeyword("I'm in"), 'in');
+    assert.equal(parseSmsKeyword('Yes'), 'in');
+    assert.equal(parseSmsKeyword('out - sorry'), 'out');
+    assert.equal(parseSmsKeyword('im out'), 'out');
+  });
+
+  it('recognizes opt-out, opt-in and help keywords', () => {
+    assert.equal(parseSmsKeyword('STOP'), 'stop');
+    assert.equal(parseSmsKeyword('unsubscribe'), 'stop');
+    assert.equal(parseSmsKeyword('START'), 'start');
+    assert.equal(parseSmsKeyword('help'), 'help');
+  });
+
+  it('returns null for anything else', () => {
+    assert.equal(parseSmsKeyword('maybe'), null);
+    assert.equal(parseSmsKeyword(''), null);
+    assert.equal(parseSmsKeyword('inside joke'), null);
+  });
+});
+
+describe('verifyTwilioSignature', () => {
+  const url = 'https://example.com/api/webhooks/sms';
+  const params = { From: '+18585551234', Body: 'IN', MessageSid: 'SM123' };
+  const authToken = 'test-auth-token';
+  const signature = createHmac('sha1', authToken)
+    .update(url + 'BodyIN' + 'From+18585551234' + 'MessageSidSM123')
+    .digest('base64');
+
+  it('accepts a signature over the URL plus sorted params', () => {
+    assert.equal(verifyTwilioSignature(url, params, signature, authToken), true);
+  });
+
+  it('rejects changed params, a wrong token or a missing header', () => {
+    assert.equal(verifyTwilioSignature(url, { ...params, Body: 'OUT' }, signature, authToken), false);
+    assert.equal(verifyTwilioSignature(url, params, signature, 'other-token'), false);
+    assert.equal(verifyTwilioSignature(url, params, null, authToken), false);
+  });
+});
+
+describe('createFakeSmsProvider', () => {
+  it('records messages and returns ids', async () => {
+    const provider = createFakeSmsProvider();
+    const result = await provider.send({ to: '+18585551234', body: 'hello' });
+    assert.deepEqual(result, { success: true, providerId: 'fake-1' });
+    assert.deepEqual(provider.sent, [{ to: '+18585551234', body: 'hello' }]);
+  });
+});
+
+describe('message text', () => {
+  it('invite text includes the date, keywords, link and opt-out', () => {
+    const text = buildInviteText('Saturday Group', '2026-03-07', 'https://x.co/r/abc');
+    assert.match(text, /Sat, Mar 7/);
+    assert.match(text, /Reply IN or OUT/);
+    assert.match(text, /https:\/\/x\.co\/r\/abc/);
+    assert.match(text, /STOP/);
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * SMS Notifications
+ *
+ * Opt-in text messages alongside the invite, reminder and waitlist emails.
+ * Texts carry a short RSVP link built from the existing rsvps.token, and
+ * golfers can reply IN or OUT (handled by /api/webhooks/sms).
+ *
+ * Providers are pluggable behind SmsProvider:
+ *   - Twilio (TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN / TWILIO_FROM_NUMBER)
+ *   - Fake (SMS_PROVIDER=fake) — logs to the console, for local dev and tests
+ * With neither configured, getSmsProvider() returns null and texts are skipped.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { formatGameDateShort, formatDateTime } from "./format";
+
+export type SmsMessageType =
+  | "invite"
+  | "reminder"
+  | "waitlist_promoted"
+  | "waitlist_offer"
+  | "reply"
+  | "inbound";
+
+export interface OutboundSms {
+  /** E.164, e.g. +18585551234 */
+  to: string;
+  body: string;
+}
+
+export type SmsSendResult =
+  | { success: true; providerId: string | null }
+  | { success: false; error: string };
+
+export interface SmsProvider {
+  name: string;
+  send(message: OutboundSms): Promise<SmsSendResult>;
+}
+
+// ============================================================
+// Providers
+// ============================================================
+
+/** Twilio Programmable Messaging via the REST API (no SDK needed) */
+export function createTwilioProvider(config: {
+  accountSid: string;
+  authToken: string;
+  fromNumber: string;
+}): SmsProvider {
+  return {
+    name: "twilio",
+    async send({ to, body }) {
+      try {
+        const res = await fetch(
+          `https://api.twilio.com/2010-04-01/Accounts/${config.accountSid}/Messages.json`,
+          {
+            method: "POST",
+            headers: {
+              Authorization: `Basic ${Buffer.from(`${config.accountSid}:${config.authToken}`).toString("base64")}`,
+              "Content-Type": "application/x-www-form-urlencoded",
+            },
+            body: new URLSearchParams({ To: to, From: config.fromNumber, Body: body }),
+          }
+        );
+        const json = (await res.json()) as { sid?: string; message?: string };
+        if (!res.ok) {
+          return { success: false, error: json.message || `Twilio error ${res.status}` };
+        }
+        return { success: true, providerId: json.sid || null };
+      } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : "Twilio request failed" };
+      }
+    },
+  };
+}
+
+/** In-memory provider: records every message instead of sending it */
+export function createFakeSmsProvider(options: { log?: boolean } = {}): SmsProvider & {
+  sent: OutboundSms[];
+} {
+  const sent: OutboundSms[] = [];
+  return {
+    name: "fake",
+    sent,
+    async send(message) {
+      sent.push(message);
+      if (options.log) console.log(`[SMS fake] → ${message.to}: ${message.body}`);
+      return { success: true, providerId: `fake-${sent.length}` };
+    },
+  };
+}
+
+let fakeProvider: SmsProvider | null = null;
+
+/** Provider from environment, or null when SMS isn't configured */
+export function getSmsProvider(): SmsProvider | null {
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER, SMS_PROVIDER } = process.env;
+
+  if (SMS_PROVIDER === "fake") {
+    fakeProvider ??= createFakeSmsProvider({ log: true });
+    return fakeProvider;
+  }
+  if (TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_FROM_NUMBER) {
+    return createTwilioProvider({
+      accountSid: TWILIO_ACCOUNT_SID,
+      authToken: TWILIO_AUTH_TOKEN,
+      fromNumber: TWILIO_FROM_NUMBER,
+    });
+  }
+  return null;
+}
+
+// ============================================================
+// Phone numbers, short links, reply keywords
+// ============================================================
+
+/** Stored 10-digit US phone → E.164 ("8585551234" → "+18585551234") */
+export function toE164(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  let digits = phone.replace(/\D/g, "");
+  if (digits.length === 11 && digits.startsWith("1")) digits = digits.slice(1);
+  return digits.length === 10 ? `+1${digits}` : null;
+}
+
+/** E.164 or any US format → the 10 digits stored in profiles.phone */
+export function toStoredPhone(phone: string): string | null {
+  let digits = phone.replace(/\D/g, "");
+  if (digits.length === 11 && digits.startsWith("1")) digits = digits.slice(1);
+  return digits.length === 10 ? digits : null;
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** RSVP token (uuid) → 22-char base64url code for /r/[code] */
+export function encodeShortToken(token: string): string {
+  return Buffer.from(token.replace(/-/g, ""), "hex").toString("base64url");
+}
+
+/** /r/[code] → RSVP token, or null if the code isn't a valid token */
+export function decodeShortToken(code: string): string | null {
+  if (!/^[A-Za-z0-9_-]{22}$/.test(code)) return null;
+  const hex = Buffer.from(code, "base64url").toString("hex");
+  if (hex.length !== 32) return null;
+  const token = `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  return UUID_RE.test(token) ? token : null;
+}
+
+export function getRsvpShortLink(siteUrl: string, token: string): string {
+  return `${siteUrl}/r/${encodeShortToken(token)}`;
+}
+
+export type SmsKeyword = "in" | "out" | "stop" | "start" | "help";
+
+const KEYWORDS: Record<string, SmsKeyword> = {
+  in: "in",
+  yes: "in",
+  y: "in",
+  out: "out",
+  no: "out",
+  n: "out",
+  stop: "stop",
+  stopall: "stop",
+  unsubscribe: "stop",
+  cancel: "stop",
+  end: "stop",
+  quit: "stop",
+  start: "start",
+  unstop: "start",
+  help: "help",
+  info: "help",
+};
+
+/** First word of a reply → keyword ("In!" → "in", "I'm out" → "out") */
+export function parseSmsKeyword(body: string): SmsKeyword | null {
+  const words = body.trim().toLowerCase().replace(/[^a-z' ]/g, " ").split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  // "I'm in" / "im out"
+  const word = (words[0] === "i'm" || words[0] === "im") && words[1] ? words[1] : words[0];
+  return KEYWORDS[word] ?? null;
+}
+
+/**
+ * Verify Twilio's X-Twilio-Signature header: HMAC-SHA1 (auth token) of the
+ * full webhook URL followed by each POST param name+value, sorted by name.
+ */
+export function verifyTwilioSignature(
+  url: string,
+  params: Record<string, string>,
+  signature: string | null,
+  authToken: string
+): boolean {
+  if (!signature || !authToken) return false;
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+  const expected = Buffer.from(createHmac("sha1", authToken).update(data).digest("base64"));
+  const candidate = Buffer.from(signature);
+  return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+}
+
+// ============================================================
+// Message text (keep under 160 characters where possible)
+// ============================================================
+
+export function buildInviteText(eventName: string, gameDate: string, link: string): string {
+  return `${eventName} ${formatGameDateShort(gameDate)}: are you in? Reply IN or OUT, or tap ${link} (Reply STOP to opt out)`;
+}
+
+export function buildReminderText(eventName: string, gameDate: string, link: string): string {
+  return `Reminder: ${eventName} ${formatGameDateShort(gameDate)} — we haven't heard from you. Reply IN or OUT, or tap ${link}`;
+}
+
+export function buildWaitlistPromotionText(eventName: string, gameDate: string, link: string): string {
+  return `${eventName}: a spot opened up for ${formatGameDateShort(gameDate)} and you're IN! Can't make it? Reply OUT or tap ${link}`;
+}
+
+export function buildWaitlistOfferText(
+  eventName: string,
+  gameDate: string,
+  link: string,
+  expiresAt: string
+): string {
+  return `${eventName}: a spot opened up for ${formatGameDateShort(gameDate)}. Claim it by ${formatDateTime(expiresAt)}: ${link}`;
+}
+
+// ============================================================
+// Sending + logging
+// ============================================================
+
+export interface GameTextRecipient {
+  profileId: string;
+  /** RSVP token (or offer token) for this golfer's link */
+  token: string;
+}
+
+/**
+ * Text every opted-in golfer in the recipient list. Golfers without
+ * sms_opt_in or a valid phone are skipped. Non-throwing — returns counts
+ * for logging, like sendPushToUsers().
+ */
+export async function sendGameTexts(
+  supabase: SupabaseClient,
+  recipients: GameTextRecipient[],
+  params: {
+    messageType: SmsMessageType;
+    eventId: string;
+    scheduleId: string;
+    buildBody: (recipient: GameTextRecipient) => string;
+  },
+  provider: SmsProvider | null = getSmsProvider()
+): Promise<{ sent: number; failed: number }> {
+  if (!provider || recipients.length === 0) return { sent: 0, failed: 0 };
+
+  const { data: profiles, error } = await supabase
+    .from("profiles")
+    .select("id, phone")
+    .in("id", recipients.map((r) => r.profileId))
+    .eq("sms_opt_in", true)
+    .not("phone", "is", null);
+
+  if (error) {
+    console.error("SMS: Failed to fetch opted-in profiles:", error.message);
+    return { sent: 0, failed: 0 };
+  }
+
+  const phoneById = new Map<string, string>();
+  for (const p of profiles || []) {
+    const e164 = toE164(p.phone);
+    if (e164) phoneById.set(p.id, e164);
+  }
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const recipient of recipients) {
+    const phone = phoneById.get(recipient.profileId);
+    if (!phone) continue;
+
+    const body = params.buildBody(recipient);
+    const result = await provider.send({ to: phone, body });
+    if (result.success) sent++;
+    else failed++;
+
+    await supabase.from("sms_messages").insert({
+      direction: "outbound",
+      profile_id: recipient.profileId,
+      phone,
+      body,
+      message_type: params.messageType,
+      event_id: params.eventId,
+      schedule_id: params.scheduleId,
+      provider_id: result.success ? result.providerId : null,
+      status: result.success ? "sent" : "failed",
+      error_message: result.success ? null : result.error,
+    });
+  }
+
+  return { sent, failed };
+}
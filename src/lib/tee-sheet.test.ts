@@ -0,0 +1,102 @@
+/**
+ * Unit tests for the golfer-facing tee sheet: name formatting, tee order,
+ * guest handling and stripping contact details from stored groupings.
+ *
+ * Run with: npx tsx --test src/lib/tee-sheet.test.ts
+ * (Uses Node.js built-in test runner — no Vitest/Jest needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toTeeSheetGroups, findGolferGroup, formatTeeOrder } from './tee-sheet';
+import type { StoredGroupGolfer, StoredGrouping } from './grouping-db';
+
+function golfer(id: string | null, first: string, last: string, overrides: Partial<StoredGroupGolfer> = {}): StoredGroupGolfer {
+  return {
+    profileId: id,
+    guestRequestId: null,
+    firstName: first,
+    lastName: last,
+    phone: '8585551234',
+    email: `${first.toLowerCase()}@example.com`,
+    ghinNumber: '1234567',
+    handicapIndex: 12.3,
+    lowHiValue: null,
+    isGuest: false,
+    hostName: null,
+    hostProfileId: null,
+    teeTimePreference: null,
+    preferredPartnersInGroup: [],
+    teamNumber: null,
+    ...overrides,
+  };
+}
+
+const groupings: StoredGrouping[] = [
+  {
+    groupNumber: 2,
+    teeOrder: 2,
+    harmonyScore: 4,
+    isLocked: false,
+    golfers: [golfer('p3', 'Carl', 'Jones'), golfer('p4', 'Dan', 'King')],
+  },
+  {
+    groupNumber: 1,
+    teeOrder: 1,
+    harmonyScore: 6,
+    isLocked: false,
+    golfers: [
+      golfer('p1', 'Jesse', 'Herrera'),
+      golfer(null, 'Gary', 'Guest', {
+        guestRequestId: 'g1',
+        isGuest: true,
+        hostName: 'J. Herrera',
+        hostProfileId: 'p1',
+      }),
+      golfer('p2', 'Bob', 'Allen'),
+    ],
+  },
+];
+
+describe('toTeeSheetGroups', () => {
+  const groups = toTeeSheetGroups(groupings);
+
+  it('orders groups by tee order', () => {
+    assert.deepEqual(groups.map((g) => g.groupNumber), [1, 2]);
+  });
+
+  it('formats names as initial + last and keeps guests after their host', () => {
+    assert.deepEqual(groups[0].players.map((p) => p.name), ['J. Herrera', 'G. Guest', 'B. Allen']);
+    assert.equal(groups[0].players[1].isGuest, true);
+    assert.equal(groups[0].players[1].hostName, 'J. Herrera');
+    assert.equal(groups[0].players[1].key, 'guest-g1');
+  });
+
+  it('drops contact details', () => {
+    const player = groups[0].players[0] as unknown as Record<string, unknown>;
+    assert.equal(player.email, undefined);
+    assert.equal(player.phone, undefined);
+    assert.equal(player.ghinNumber, undefined);
+  });
+});
+
+describe('findGolferGroup', () => {
+  const groups = toTeeSheetGroups(groupings);
+
+  it("finds the golfer's group", () => {
+    assert.equal(findGolferGroup(groups, 'p4')?.groupNumber, 2);
+  });
+
+  it('returns null when the golfer is not grouped', () => {
+    assert.equal(findGolferGroup(groups, 'p9'), null);
+  });
+});
+
+describe('formatTeeOrder', () => {
+  it('adds ordinal suffixes', () => {
+    assert.deepEqual(
+      [1, 2, 3, 4, 11, 12, 13, 21, 22].map(formatTeeOrder),
+      ['1st', '2nd', '3rd', '4th', '11th', '12th', '13th', '21st', '22nd']
+    );
+  });
+});
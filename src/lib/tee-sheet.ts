@@ -0,0 +1,122 @@
+/**
+ * Tee Sheet — golfer-facing view of a game's published groupings.
+ *
+ * Groupings stay admin-only (pro shop email, admin RSVP page) until an
+ * admin marks them final (event_schedules.groupings_final_at). After that
+ * golfers see them on /event/[slug]/tee-sheet/[date] and the home page.
+ *
+ * Only display names leave this module — fetchStoredGroupings() also
+ * returns phones, emails and GHINs, which golfers must not see.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchStoredGroupings, type StoredGrouping } from "./grouping-db";
+import { formatInitialLastName } from "./format";
+
+export interface TeeSheetPlayer {
+  key: string;
+  name: string; // "J. Herrera"
+  profileId: string | null;
+  isGuest: boolean;
+  hostName: string | null; // "J. Herrera" for guests
+}
+
+export interface TeeSheetGroup {
+  groupNumber: number;
+  teeOrder: number;
+  players: TeeSheetPlayer[];
+}
+
+export interface TeeSheet {
+  event: { id: string; name: string; slug: string | null; first_tee_time: string };
+  schedule: { id: string; game_date: string; status: string; groupings_final_at: string | null };
+  /** Empty until the groupings are final */
+  groups: TeeSheetGroup[];
+}
+
+/** "1st", "2nd", "3rd", "4th", ... */
+export function formatTeeOrder(teeOrder: number): string {
+  const mod100 = teeOrder % 100;
+  const suffix =
+    mod100 >= 11 && mod100 <= 13
+      ? "th"
+      : teeOrder % 10 === 1
+        ? "st"
+        : teeOrder % 10 === 2
+          ? "nd"
+          : teeOrder % 10 === 3
+            ? "rd"
+            : "th";
+  return `${teeOrder}${suffix}`;
+}
+
+/**
+ * Reduce stored groupings to the golfer-facing tee sheet: names only,
+ * groups in tee order. Keeps fetchStoredGroupings' host-then-guest order.
+ */
+export function toTeeSheetGroups(groupings: StoredGrouping[]): TeeSheetGroup[] {
+  return [...groupings]
+    .sort((a, b) => a.teeOrder - b.teeOrder || a.groupNumber - b.groupNumber)
+    .map((group) => ({
+      groupNumber: group.groupNumber,
+      teeOrder: group.teeOrder,
+      players: group.golfers.map((g) => ({
+        key: g.profileId ?? `guest-${g.guestRequestId}`,
+        name: formatInitialLastName(g.firstName, g.lastName),
+        profileId: g.profileId,
+        isGuest: g.isGuest,
+        hostName: g.hostName,
+      })),
+    }));
+}
+
+/** The group a golfer is in, if any */
+export function findGolferGroup(
+  groups: TeeSheetGroup[],
+  profileId: string
+): TeeSheetGroup | null {
+  return groups.find((g) => g.players.some((p) => p.profileId === profileId)) ?? null;
+}
+
+/** Published groups for a schedule ([] while still a draft) */
+export async function getPublishedGroups(
+  supabase: SupabaseClient,
+  schedule: { id: string; groupings_final_at: string | null }
+): Promise<TeeSheetGroup[]> {
+  if (!schedule.groupings_final_at) return [];
+  return toTeeSheetGroups(await fetchStoredGroupings(supabase, schedule.id));
+}
+
+/**
+ * Look up the tee sheet for an event slug + game date. Pass an admin
+ * client — golfers can't read other golfers' groupings rows directly.
+ */
+export async function getTeeSheet(
+  supabase: SupabaseClient,
+  slug: string,
+  gameDate: string
+): Promise<TeeSheet | null> {
+  const { data: event } = await supabase
+    .from("events")
+    .select("id, name, slug, first_tee_time")
+    .eq("slug", slug)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (!event) return null;
+
+  const { data: schedule } = await supabase
+    .from("event_schedules")
+    .select("id, game_date, status, groupings_final_at")
+    .eq("event_id", event.id)
+    .eq("game_date", gameDate)
+    .maybeSingle();
+
+  if (!schedule) return null;
+
+  return {
+    event: { ...event, first_tee_time: event.first_tee_time || "07:30" },
+    schedule,
+    groups: await getPublishedGroups(supabase, schedule),
+  };
+}
@@ -162,6 +162,30 @@ export function isWithinSendWindow(
   return diffMinutes >= 0 && diffMinutes <= windowHours * 60;
 }
 
+/**
+ * Check if a scheduled send time's window has already closed — i.e. no
+ * future cron run will match it in isWithinSendWindow().
+ *
+ * @param sendDateString - YYYY-MM-DD of the scheduled send date
+ * @param sendTime - HH:MM in Pacific Time
+ * @param windowHours - Same window passed to isWithinSendWindow (default 3)
+ * @returns true if current Pacific Time is after the end of the send window
+ */
+export function isPastSendWindow(
+  sendDateString: string,
+  sendTime: string,
+  windowHours: number = 3
+): boolean {
+  const now = getNowPacific();
+  if (now.dateString !== sendDateString) {
+    return now.dateString > sendDateString;
+  }
+
+  const [sendHour, sendMinute] = sendTime.split(":").map(Number);
+  const nowMinutes = now.hour * 60 + now.minute;
+  return nowMinutes - (sendHour * 60 + sendMinute) > windowHours * 60;
+}
+
 /**
  * Check if the current time (in Pacific) is past the RSVP cutoff for a game.
  *
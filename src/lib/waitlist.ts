@@ -0,0 +1,549 @@
+/**
+ * Waitlist — automatic promotion and time-limited offers.
+ *
+ * Shared by the golfer RSVP route (/api/rsvp), the waitlist offer route
+ * (/api/waitlist-offer), the admin RSVP actions, and the cron so that
+ * "a spot opened up" is handled the same way no matter who freed it.
+ *
+ * Automatic promotion is opt-in per event (events.waitlist_auto_promote).
+ * With events.waitlist_offer_hours > 0 the next golfer is sent a claim/decline
+ * offer and the spot is held for them until it expires; with 0 they are
+ * promoted straight to "in". After the RSVP cutoff, events can require admin
+ * approval instead (events.waitlist_post_cutoff_approval) — in that case
+ * nothing is offered or promoted and the caller's spot_opened alert tells
+ * the admin to decide.
+ *
+ * Promoted and offered golfers are notified by email, push, and (if they
+ * opted in) text.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sendEmail, generateWaitlistPromotionEmail, generateWaitlistOfferEmail } from "./email";
+import { sendPushToUsers } from "./push";
+import { sendGameTexts, getRsvpShortLink, buildWaitlistPromotionText, buildWaitlistOfferText } from "./sms";
+import { isPastCutoffPacific } from "./timezone";
+import { formatGameDate, getSiteUrl } from "./format";
+import { applyRsvpStatus } from "./rsvp-capacity";
+
+/** rsvp_history.change_reason values for system-driven waitlist changes */
+export const AUTO_PROMOTION_REASON = "auto_waitlist_promotion";
+export const OFFER_CLAIMED_REASON = "waitlist_offer_claimed";
+export const OFFER_DECLINED_REASON = "waitlist_offer_declined";
+
+export type WaitlistOfferStatus = "pending" | "claimed" | "declined" | "expired" | "cancelled";
+
+export interface PromotedGolfer {
+  rsvpId: string;
+  profileId: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface OpenSpotResult {
+  /** "disabled" = auto-promotion off, "needs_approval" = past cutoff and admin must decide */
+  outcome: "disabled" | "needs_approval" | "promoted" | "offered" | "no_waitlist";
+  promoted: PromotedGolfer[];
+  offered: PromotedGolfer[];
+}
+
+export interface OfferResponseResult {
+  outcome: "claimed" | "declined" | "expired" | "already_responded" | "unavailable" | "invalid";
+  offerStatus?: WaitlistOfferStatus;
+  rsvpToken?: string;
+}
+
+interface ScheduleContext {
+  id: string;
+  game_date: string;
+  capacity: number | null;
+  status: string;
+  event: {
+    id: string;
+    name: string;
+    cutoff_day: number;
+    cutoff_time: string | null;
+    default_capacity: number | null;
+    waitlist_auto_promote: boolean;
+    waitlist_post_cutoff_approval: boolean;
+    waitlist_offer_hours: number;
+  } | null;
+}
+
+interface WaitlistedRsvp {
+  id: string;
+  profile_id: string;
+  token: string;
+  profile: unknown;
+}
+
+type GolferProfile = { first_name: string; last_name: string; email: string } | null;
+
+async function loadScheduleContext(
+  supabase: SupabaseClient,
+  scheduleId: string
+): Promise<ScheduleContext | null> {
+  const { data: schedule } = await supabase
+    .from("event_schedules")
+    .select(
+      `id, game_date, capacity, status,
+       event:events(id, name, cutoff_day, cutoff_time, default_capacity, waitlist_auto_promote, waitlist_post_cutoff_approval, waitlist_offer_hours)`
+    )
+    .eq("id", scheduleId)
+    .single();
+
+  return (schedule as unknown as ScheduleContext) || null;
+}
+
+/**
+ * Tidy up pending offers for a schedule before counting held spots:
+ * offers whose golfer already left the waitlist are cancelled, and offers
+ * past their expiry are marked expired. Returns the number expired.
+ */
+async function reconcileOffers(
+  supabase: SupabaseClient,
+  scheduleId: string
+): Promise<number> {
+  const { data: pending } = await supabase
+    .from("waitlist_offers")
+    .select("id, expires_at, rsvp:rsvps(status)")
+    .eq("schedule_id", scheduleId)
+    .eq("status", "pending");
+
+  if (!pending || pending.length === 0) return 0;
+
+  const now = new Date();
+  let expired = 0;
+
+  for (const offer of pending) {
+    const rsvpStatus = (offer.rsvp as unknown as { status: string } | null)?.status;
+
+    if (rsvpStatus !== "waitlisted") {
+      await supabase
+        .from("waitlist_offers")
+        .update({ status: "cancelled", responded_at: now.toISOString() })
+        .eq("id", offer.id)
+        .eq("status", "pending");
+    } else if (new Date(offer.expires_at) <= now) {
+      const { data: updated } = await supabase
+        .from("waitlist_offers")
+        .update({ status: "expired" })
+        .eq("id", offer.id)
+        .eq("status", "pending")
+        .select("id");
+      if (updated && updated.length > 0) expired++;
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * Fill open spots from the waitlist if the event has auto-promotion enabled.
+ * Call after any change that takes a golfer out of "in", and after an offer
+ * is declined or expires.
+ *
+ * Works down the waitlist from the lowest waitlist_position, one golfer per
+ * open spot. Spots held by pending offers are not open. Depending on
+ * events.waitlist_offer_hours, each golfer is either sent a time-limited offer
+ * or promoted immediately (rsvp_history changed_by NULL, change_reason =
+ * auto_waitlist_promotion).
+ */
+export async function fillOpenSpotsFromWaitlist(
+  supabase: SupabaseClient,
+  scheduleId: string
+): Promise<OpenSpotResult> {
+  const schedule = await loadScheduleContext(supabase, scheduleId);
+  const event = schedule?.event;
+
+  await reconcileOffers(supabase, scheduleId);
+
+  if (!schedule || !event || schedule.status === "cancelled" || !event.waitlist_auto_promote) {
+    return { outcome: "disabled", promoted: [], offered: [] };
+  }
+
+  const pastCutoff = isPastCutoffPacific(
+    schedule.game_date,
+    event.cutoff_day,
+    event.cutoff_time || "10:00"
+  );
+  if (pastCutoff && event.waitlist_post_cutoff_approval) {
+    return { outcome: "needs_approval", promoted: [], offered: [] };
+  }
+
+  const capacity = schedule.capacity || event.default_capacity || 16;
+  const { count: inCount } = await supabase
+    .from("rsvps")
+    .select("*", { count: "exact", head: true })
+    .eq("schedule_id", scheduleId)
+    .eq("status", "in");
+
+  // Spots held for golfers with an open offer
+  const { count: heldCount } = await supabase
+    .from("waitlist_offers")
+    .select("*", { count: "exact", head: true })
+    .eq("schedule_id", scheduleId)
+    .eq("status", "pending");
+
+  // Approved guests take spots too
+  const { count: guestCount } = await supabase
+    .from("guest_requests")
+    .select("*", { count: "exact", head: true })
+    .eq("schedule_id", scheduleId)
+    .eq("status", "approved");
+
+  const openSpots = capacity - (inCount || 0) - (guestCount || 0) - (heldCount || 0);
+  if (openSpots <= 0) {
+    return { outcome: "no_waitlist", promoted: [], offered: [] };
+  }
+
+  if (event.waitlist_offer_hours > 0) {
+    const offered = await sendWaitlistOffers(supabase, schedule, openSpots);
+    return { outcome: offered.length > 0 ? "offered" : "no_waitlist", promoted: [], offered };
+  }
+
+  const { data: nextUp } = await supabase
+    .from("rsvps")
+    .select("id, profile_id, token, profile:profiles(first_name, last_name, email)")
+    .eq("schedule_id", scheduleId)
+    .eq("status", "waitlisted")
+    .order("waitlist_position", { ascending: true })
+    .limit(openSpots);
+
+  if (!nextUp || nextUp.length === 0) {
+    return { outcome: "no_waitlist", promoted: [], offered: [] };
+  }
+
+  const promoted: PromotedGolfer[] = [];
+  const siteUrl = getSiteUrl();
+
+  for (const rsvp of nextUp as WaitlistedRsvp[]) {
+    const moved = await moveWaitlistedToIn(supabase, rsvp, scheduleId, AUTO_PROMOTION_REASON);
+    if (!moved) continue;
+
+    const profile = rsvp.profile as GolferProfile;
+
+    promoted.push({
+      rsvpId: rsvp.id,
+      profileId: rsvp.profile_id,
+      firstName: profile?.first_name || "",
+      lastName: profile?.last_name || "",
+    });
+
+    // Notify the promoted golfer (non-fatal)
+    if (profile?.email) {
+      const result = await sendEmail({
+        to: profile.email,
+        subject: `${event.name}: ${formatGameDate(schedule.game_date)} — You're In!`,
+        html: generateWaitlistPromotionEmail({
+          golferName: profile.first_name,
+          eventName: event.name,
+          gameDate: schedule.game_date,
+          rsvpToken: rsvp.token,
+          siteUrl,
+        }),
+        tracking: { emailType: "waitlist_promoted", eventId: event.id, scheduleId: schedule.id },
+      });
+
+      if (result.success) {
+        await supabase.from("email_log").insert({
+          event_id: event.id,
+          schedule_id: scheduleId,
+          email_type: "waitlist_promoted",
+          subject: `${event.name}: Waitlist Promotion`,
+          recipient_count: 1,
+        });
+      }
+    }
+
+    try {
+      await sendPushToUsers(supabase, [rsvp.profile_id], {
+        title: event.name,
+        body: `A spot opened up — you're in for ${formatGameDate(schedule.game_date)}!`,
+        url: `${siteUrl}/rsvp/${rsvp.token}`,
+        tag: `waitlist-${scheduleId}`,
+      });
+    } catch (pushErr) {
+      console.error("Push notification error (waitlist promotion, non-fatal):", pushErr);
+    }
+
+    try {
+      await sendGameTexts(supabase, [{ profileId: rsvp.profile_id, token: rsvp.token }], {
+        messageType: "waitlist_promoted",
+        eventId: event.id,
+        scheduleId,
+        buildBody: (r) => buildWaitlistPromotionText(event.name, schedule.game_date, getRsvpShortLink(siteUrl, r.token)),
+      });
+    } catch (smsErr) {
+      console.error("SMS error (waitlist promotion, non-fatal):", smsErr);
+    }
+  }
+
+  return { outcome: promoted.length > 0 ? "promoted" : "no_waitlist", promoted, offered: [] };
+}
+
+/**
+ * Move a waitlisted RSVP to "in" via apply_rsvp_status, which logs history
+ * and renumbers the waitlist. Guarded on status so a concurrent admin
+ * promotion can't double-promote, and on capacity so a golfer who tapped
+ * "I'm In" in the meantime isn't pushed over. Returns false if nothing moved.
+ */
+async function moveWaitlistedToIn(
+  supabase: SupabaseClient,
+  rsvp: { profile_id: string },
+  scheduleId: string,
+  reason: string
+): Promise<boolean> {
+  const applied = await applyRsvpStatus(supabase, {
+    scheduleId,
+    profileId: rsvp.profile_id,
+    status: "in",
+    expectedStatus: "waitlisted",
+    changeReason: reason,
+  });
+
+  return applied.changed && applied.newStatus === "in";
+}
+
+/**
+ * Offer held spots to the next waitlisted golfers. Golfers who already had
+ * an offer for this game (declined, expired, or still pending) are skipped
+ * so the offer keeps moving down the list.
+ */
+async function sendWaitlistOffers(
+  supabase: SupabaseClient,
+  schedule: ScheduleContext,
+  openSpots: number
+): Promise<PromotedGolfer[]> {
+  const event = schedule.event!;
+
+  const { data: priorOffers } = await supabase
+    .from("waitlist_offers")
+    .select("rsvp_id")
+    .eq("schedule_id", schedule.id);
+
+  const alreadyOffered = new Set((priorOffers || []).map((o: { rsvp_id: string }) => o.rsvp_id));
+
+  const { data: waitlisted } = await supabase
+    .from("rsvps")
+    .select("id, profile_id, token, profile:profiles(first_name, last_name, email)")
+    .eq("schedule_id", schedule.id)
+    .eq("status", "waitlisted")
+    .order("waitlist_position", { ascending: true });
+
+  const candidates = ((waitlisted || []) as WaitlistedRsvp[])
+    .filter((r) => !alreadyOffered.has(r.id))
+    .slice(0, openSpots);
+
+  const offered: PromotedGolfer[] = [];
+  const siteUrl = getSiteUrl();
+  const expiresAt = new Date(Date.now() + event.waitlist_offer_hours * 60 * 60 * 1000).toISOString();
+
+  for (const rsvp of candidates) {
+    const { data: offer, error: offerError } = await supabase
+      .from("waitlist_offers")
+      .insert({
+        schedule_id: schedule.id,
+        rsvp_id: rsvp.id,
+        profile_id: rsvp.profile_id,
+        expires_at: expiresAt,
+      })
+      .select("token")
+      .single();
+
+    // Unique pending-offer index rejects a duplicate from a concurrent fill
+    if (offerError || !offer) continue;
+
+    const profile = rsvp.profile as GolferProfile;
+
+    offered.push({
+      rsvpId: rsvp.id,
+      profileId: rsvp.profile_id,
+      firstName: profile?.first_name || "",
+      lastName: profile?.last_name || "",
+    });
+
+    // Notify the golfer (non-fatal)
+    if (profile?.email) {
+      const result = await sendEmail({
+        to: profile.email,
+        subject: `${event.name}: ${formatGameDate(schedule.game_date)} — A Spot Opened Up`,
+        html: generateWaitlistOfferEmail({
+          golferName: profile.first_name,
+          eventName: event.name,
+          gameDate: schedule.game_date,
+          offerToken: offer.token,
+          expiresAt,
+          siteUrl,
+        }),
+        tracking: { emailType: "waitlist_offer", eventId: event.id, scheduleId: schedule.id },
+      });
+
+      if (result.success) {
+        await supabase.from("email_log").insert({
+          event_id: event.id,
+          schedule_id: schedule.id,
+          email_type: "waitlist_offer",
+          subject: `${event.name}: Waitlist Offer`,
+          recipient_count: 1,
+        });
+      }
+    }
+
+    try {
+      await sendPushToUsers(supabase, [rsvp.profile_id], {
+        title: event.name,
+        body: `A spot opened up for ${formatGameDate(schedule.game_date)} — claim it before it goes to the next golfer.`,
+        url: `${siteUrl}/waitlist-offer/${offer.token}`,
+        tag: `waitlist-${schedule.id}`,
+      });
+    } catch (pushErr) {
+      console.error("Push notification error (waitlist offer, non-fatal):", pushErr);
+    }
+
+    try {
+      await sendGameTexts(supabase, [{ profileId: rsvp.profile_id, token: offer.token }], {
+        messageType: "waitlist_offer",
+        eventId: event.id,
+        scheduleId: schedule.id,
+        buildBody: (r) => buildWaitlistOfferText(event.name, schedule.game_date, `${siteUrl}/waitlist-offer/${r.token}`, expiresAt),
+      });
+    } catch (smsErr) {
+      console.error("SMS error (waitlist offer, non-fatal):", smsErr);
+    }
+  }
+
+  return offered;
+}
+
+async function loadOfferByToken(supabase: SupabaseClient, token: string) {
+  const { data: offer } = await supabase
+    .from("waitlist_offers")
+    .select("id, schedule_id, rsvp_id, profile_id, status, expires_at, rsvp:rsvps(id, status, token)")
+    .eq("token", token)
+    .single();
+
+  if (!offer) return null;
+
+  return {
+    ...offer,
+    rsvp: offer.rsvp as unknown as { id: string; status: string; token: string } | null,
+  };
+}
+
+/**
+ * Golfer claims a waitlist offer. The spot was held for them (their own
+ * pending offer doesn't count against capacity), so the claim only fails if
+ * they left the waitlist or an admin filled the game past capacity meanwhile.
+ * An expired offer is marked expired and passed to the next golfer.
+ */
+export async function claimWaitlistOffer(
+  supabase: SupabaseClient,
+  token: string
+): Promise<OfferResponseResult> {
+  const offer = await loadOfferByToken(supabase, token);
+  if (!offer || !offer.rsvp) return { outcome: "invalid" };
+
+  const rsvpToken = offer.rsvp.token;
+
+  if (offer.status !== "pending") {
+    return { outcome: "already_responded", offerStatus: offer.status, rsvpToken };
+  }
+
+  if (new Date(offer.expires_at) <= new Date()) {
+    await fillOpenSpotsFromWaitlist(supabase, offer.schedule_id);
+    return { outcome: "expired", rsvpToken };
+  }
+
+  const moved = await moveWaitlistedToIn(
+    supabase,
+    { profile_id: offer.profile_id },
+    offer.schedule_id,
+    OFFER_CLAIMED_REASON
+  );
+
+  if (!moved) {
+    // Golfer left the waitlist, or the game filled, since the offer went out
+    await supabase
+      .from("waitlist_offers")
+      .update({ status: "cancelled", responded_at: new Date().toISOString() })
+      .eq("id", offer.id)
+      .eq("status", "pending");
+    return { outcome: "unavailable", rsvpToken };
+  }
+
+  await supabase
+    .from("waitlist_offers")
+    .update({ status: "claimed", responded_at: new Date().toISOString() })
+    .eq("id", offer.id)
+    .eq("status", "pending");
+
+  return { outcome: "claimed", rsvpToken };
+}
+
+/**
+ * Golfer declines a waitlist offer. They are marked "out" (off the
+ * waitlist) and the spot is offered to the next golfer.
+ */
+export async function declineWaitlistOffer(
+  supabase: SupabaseClient,
+  token: string
+): Promise<OfferResponseResult> {
+  const offer = await loadOfferByToken(supabase, token);
+  if (!offer || !offer.rsvp) return { outcome: "invalid" };
+
+  const rsvpToken = offer.rsvp.token;
+
+  if (offer.status !== "pending") {
+    return { outcome: "already_responded", offerStatus: offer.status, rsvpToken };
+  }
+
+  const { data: updated } = await supabase
+    .from("waitlist_offers")
+    .update({ status: "declined", responded_at: new Date().toISOString() })
+    .eq("id", offer.id)
+    .eq("status", "pending")
+    .select("id");
+
+  if (!updated || updated.length === 0) {
+    return { outcome: "already_responded", rsvpToken };
+  }
+
+  await applyRsvpStatus(supabase, {
+    scheduleId: offer.schedule_id,
+    profileId: offer.profile_id,
+    status: "out",
+    expectedStatus: "waitlisted",
+    changeReason: OFFER_DECLINED_REASON,
+  });
+
+  await fillOpenSpotsFromWaitlist(supabase, offer.schedule_id);
+
+  return { outcome: "declined", rsvpToken };
+}
+
+/**
+ * Pass expired offers on to the next golfer for every schedule of an event
+ * that has one. Called from the cron; claim/decline links also expire
+ * offers lazily, so this only bounds how long a lapsed offer can sit.
+ */
+export async function processExpiredWaitlistOffers(
+  supabase: SupabaseClient,
+  eventId: string
+): Promise<{ schedules: number; offered: number }> {
+  const { data: overdue } = await supabase
+    .from("waitlist_offers")
+    .select("schedule_id, schedule:event_schedules!inner(event_id)")
+    .eq("status", "pending")
+    .eq("schedule.event_id", eventId)
+    .lte("expires_at", new Date().toISOString());
+
+  const scheduleIds = [...new Set((overdue || []).map((o: { schedule_id: string }) => o.schedule_id))];
+
+  let offered = 0;
+  for (const scheduleId of scheduleIds) {
+    const result = await fillOpenSpotsFromWaitlist(supabase, scheduleId);
+    offered += result.offered.length;
+  }
+
+  return { schedules: scheduleIds.length, offered };
+}
@@ -1,20 +1,17 @@
 /**
  * Weather Service — Open-Meteo API integration
  *
- * Fetches hyper-localized hourly weather forecasts for Fairbanks Ranch Country Club
+ * Fetches hyper-localized hourly weather forecasts for the course a game is
+ * played at (the game's away-day course, else the event's — see courses.ts),
  * scoped to the game time window (based on first_tee_time and game_type).
  *
  * Open-Meteo: Free, no API key, no rate limits for reasonable usage.
- * Coordinates: FRCC, 15150 San Dieguito Rd, Rancho Santa Fe, CA 92067
  */
 
-import type { GameType, HourlyForecast, GameWeatherForecast } from "@/types/events";
+import type { Course, GameType, HourlyForecast, GameWeatherForecast } from "@/types/events";
 import { createAdminClient } from "@/lib/supabase/server";
 import { formatGameDate } from "@/lib/format";
-
-// Fairbanks Ranch Country Club coordinates
-const FRCC_LATITUDE = 32.9881;
-const FRCC_LONGITUDE = -117.1935;
+import { resolveGameCourse } from "@/lib/courses";
 
 // Game duration assumptions (in hours from first tee time)
 const GAME_DURATION: Record<GameType, number> = {
@@ -164,6 +161,7 @@ function calculateGolfability(summary: {
  * Fetch weather forecast from Open-Meteo API
  */
 async function fetchFromOpenMeteo(
+  course: Course,
   gameDate: string,
   firstTeeTime: string,
   gameType: GameType
@@ -171,8 +169,8 @@ async function fetchFromOpenMeteo(
   const { startHour, endHour } = getGameWindow(firstTeeTime, gameType);
 
   const params = new URLSearchParams({
-    latitude: FRCC_LATITUDE.toString(),
-    longitude: FRCC_LONGITUDE.toString(),
+    latitude: course.latitude.toString(),
+    longitude: course.longitude.toString(),
     hourly: [
       "temperature_2m",
       "apparent_temperature",
@@ -187,7 +185,7 @@ async function fetchFromOpenMeteo(
     daily: "sunrise",
     start_date: gameDate,
     end_date: gameDate,
-    timezone: "America/Los_Angeles",
+    timezone: course.timezone,
     temperature_unit: "celsius", // We'll convert to F
     wind_speed_unit: "kmh",     // We'll convert to mph
   });
@@ -291,6 +289,7 @@ async function fetchFromOpenMeteo(
 
     return {
       gameDate,
+      courseName: course.name,
       fetchedAt: new Date().toISOString(),
       daysUntilGame,
       sunrise,
@@ -304,7 +303,8 @@ async function fetchFromOpenMeteo(
 }
 
 /**
- * Get weather forecast for a game — uses cache with fallback to live API
+ * Get weather forecast for a game at its course — uses cache with fallback
+ * to live API. Returns null if the game has no course.
  */
 export async function getGameWeather(
   eventId: string,
@@ -314,13 +314,18 @@ export async function getGameWeather(
 ): Promise<GameWeatherForecast | null> {
   const supabase = createAdminClient();
 
-  // Check cache first
+  const course = await resolveGameCourse(supabase, eventId, gameDate);
+  if (!course) return null;
+
+  // Check cache first (keyed by course, so an away-day change never
+  // serves the home course's forecast)
   const { data: cached } = await supabase
     .from("weather_cache")
     .select("forecast_data, fetched_at")
     .eq("event_id", eventId)
     .eq("game_date", gameDate)
-    .single();
+    .eq("course_id", course.id)
+    .maybeSingle();
 
   if (cached) {
     const fetchedAt = new Date(cached.fetched_at);
@@ -332,7 +337,7 @@ export async function getGameWeather(
   }
 
   // Fetch fresh data from Open-Meteo
-  const forecast = await fetchFromOpenMeteo(gameDate, firstTeeTime, gameType);
+  const forecast = await fetchFromOpenMeteo(course, gameDate, firstTeeTime, gameType);
   if (!forecast) return cached?.forecast_data as unknown as GameWeatherForecast ?? null;
 
   // Upsert cache
@@ -340,11 +345,12 @@ export async function getGameWeather(
     {
       event_id: eventId,
       game_date: gameDate,
+      course_id: course.id,
       forecast_data: forecast,
       fetched_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     },
-    { onConflict: "event_id,game_date" }
+    { onConflict: "event_id,game_date,course_id" }
   );
 
   return forecast;
@@ -354,6 +360,7 @@ export async function getGameWeather(
  * Clear cached weather data for an event.
  * Call this when event settings that affect the forecast window change
  * (first_tee_time, game_type) so the next fetch uses the updated window.
+ * Course changes don't need it — the cache is keyed by course.
  */
 export async function clearWeatherCache(eventId: string): Promise<void> {
   try {
@@ -453,7 +460,7 @@ export function generateWeatherEmailHtml(
       ` : ""}
 
       <p style="margin: 8px 0 0 0; font-size: 11px; color: #9ca3af; text-align: center;">
-        FRCC, Rancho Santa Fe &middot; ${confidenceLabel}${daysUntilGame > 3 ? " — updates as game day approaches" : ""}
+        ${forecast.courseName} &middot; ${confidenceLabel}${daysUntilGame > 3 ? " — updates as game day approaches" : ""}
       </p>
     </div>
   `;
@@ -107,14 +107,23 @@ export interface Event {
   // Game time settings (for weather forecast scoping)
   game_type: GameType;
   first_tee_time: string; // HH:MM — when first group tees off
+  course_id: string | null; // where the event plays; null = no weather
 
   // Feature flags (super admin only, all default OFF for MVP)
   allow_guest_requests: boolean;
   max_guests_per_week: number; // 1–3, only meaningful when allow_guest_requests is true
+  guest_capacity_policy: GuestCapacityPolicy;
+  max_visits_per_guest: number | null; // per guest per season; null = no limit
+  guest_visit_limit_action: GuestVisitLimitAction;
   allow_tee_time_preferences: boolean;
   allow_playing_partner_preferences: boolean;
   allow_auto_grouping: boolean;
 
+  // Waitlist auto-promotion (off = admin-managed waitlist)
+  waitlist_auto_promote: boolean;
+  waitlist_post_cutoff_approval: boolean; // post-cutoff openings wait for an admin
+  waitlist_offer_hours: number; // 0 = promote immediately, else claim window for offers
+
   // Grouping algorithm preference controls
   grouping_method: GroupingMethod;
   grouping_partner_pref_mode: GroupingPartnerPrefMode;
@@ -142,6 +151,7 @@ export interface EventSchedule {
   min_players_override: number | null;
   status: "scheduled" | "cancelled";
   admin_notes: string | null;
+  course_id: string | null; // away-day override; null = the event's course
   invite_sent: boolean;
   reminder_sent: boolean;
   reminder_2_sent: boolean;
@@ -149,6 +159,8 @@ export interface EventSchedule {
   golfer_confirmation_sent: boolean;
   pro_shop_sent: boolean;
   confirmation_sent: boolean;
+  groupings_final_at: string | null; // set = groupings published to golfers
+  groupings_final_by: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -387,6 +399,7 @@ export interface Grouping {
   guest_request_id: string | null;
   harmony_score: number | null;
   team_number: number | null;
+  is_locked: boolean;
   created_at: string;
 }
 
@@ -394,11 +407,38 @@ export interface Grouping {
 // League Info Types
 // ============================================================
 
-/** League configuration for an event (one row per event, optional) */
+/** A league season with its own scoring settings, scores and money */
+export interface LeagueSeason {
+  id: string;
+  event_id: string;
+  name: string;
+  season_start: string | null; // YYYY-MM-DD
+  season_end: string | null;   // YYYY-MM-DD
+  best_n: number | null;
+  total_m: number | null;
+  min_rounds_to_qualify: number | null;
+  prize_pool_total: number | null;
+  payout_config: number[] | null; // Ordered array of payout percentages by place
+  /** Tie-break rules applied in order to equal season totals (empty = ties share rank) */
+  tie_break_rules: TieBreakRule[];
+  /** Weeks summed by the 'countback' rule */
+  tie_break_countback_weeks: number;
+  /** The season shown by default and used for new scores (one per event) */
+  is_current: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * League configuration for an event: the event_league_config switch
+ * combined with one of its seasons (the current one unless asked otherwise).
+ */
 export interface LeagueConfig {
   id: string;
   event_id: string;
   league_enabled: boolean;
+  season_id: string;
+  is_current_season: boolean;
   season_name: string | null;
   season_start: string | null; // YYYY-MM-DD
   season_end: string | null;   // YYYY-MM-DD
@@ -407,10 +447,37 @@ export interface LeagueConfig {
   min_rounds_to_qualify: number | null;
   prize_pool_total: number | null;
   payout_config: number[] | null; // Ordered array of payout percentages by place
+  /** Tie-break rules applied in order to equal season totals (empty = ties share rank) */
+  tie_break_rules: TieBreakRule[];
+  /** Weeks summed by the 'countback' rule */
+  tie_break_countback_weeks: number;
   created_at: string;
   updated_at: string;
 }
 
+/** How two golfers with the same season total are separated */
+export type TieBreakRule = 'most_rounds' | 'best_round' | 'best_dropped' | 'countback';
+
+/** Labels for tie-break rules (admin settings + leaderboard footnotes) */
+export const TIE_BREAK_RULE_LABELS: Record<TieBreakRule, { label: string; description: string }> = {
+  most_rounds: {
+    label: 'Most rounds played',
+    description: 'The golfer who played more weeks ranks higher.',
+  },
+  best_round: {
+    label: 'Best single round',
+    description: 'Highest single-week score wins; if equal, the next-best round, and so on.',
+  },
+  best_dropped: {
+    label: 'Best dropped score',
+    description: 'Highest score not counted in the best-N total wins. No dropped score loses.',
+  },
+  countback: {
+    label: 'Countback',
+    description: 'Most points over the last N weeks played.',
+  },
+};
+
 /** Content type for league tabs */
 export type LeagueTabContentType = 'html' | 'leaderboard' | 'weekly_results';
 
@@ -433,6 +500,7 @@ export interface LeagueScore {
   id: string;
   event_id: string;
   profile_id: string;
+  season_id: string | null;
   game_date: string; // YYYY-MM-DD
   stableford_points: number;
   metadata: Record<string, unknown> | null;
@@ -441,6 +509,59 @@ export interface LeagueScore {
   updated_at: string;
 }
 
+/** Remembered score-export name → golfer mapping for an event */
+export interface LeagueNameAlias {
+  id: string;
+  event_id: string;
+  source_name: string; // lowercase, single spaces
+  profile_id: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+/** Course/tee layout used to score a week from gross hole scores */
+export interface LeagueTee {
+  id: string;
+  event_id: string;
+  name: string;
+  /** Par per hole in playing order (9 or 18 holes) */
+  pars: number[];
+  /** Stroke index per hole, same order as pars */
+  stroke_indexes: number[];
+  course_rating: number;
+  slope_rating: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** One hole of a net Stableford round */
+export interface NetStablefordHole {
+  hole: number;
+  par: number;
+  strokeIndex: number;
+  /** Null = no score returned (picked up) */
+  gross: number | null;
+  /** Handicap strokes received (negative for plus handicaps) */
+  strokes: number;
+  net: number | null;
+  points: number;
+}
+
+/**
+ * league_scores.metadata for a round scored in-app from gross hole
+ * scores (source = 'hole_scores').
+ */
+export interface HoleScoresMetadata {
+  source: 'hole_scores';
+  tee_id: string;
+  tee_name: string;
+  handicap_index: number;
+  course_handicap: number;
+  gross_total: number | null;
+  holes: NetStablefordHole[];
+  entered_at: string;
+}
+
 /**
  * Season-long prize qualification status for a golfer, based on
  * min_rounds_to_qualify and how many scheduled season weeks remain unplayed.
@@ -470,6 +591,67 @@ export interface LeaderboardEntry {
   isQualified: boolean;
   /** Season-prize qualification status (null if min_rounds_to_qualify is not configured) */
   qualificationStatus: QualificationStatus | null;
+  /**
+   * Why this golfer ranks below the golfer just above them despite equal
+   * totals, e.g. "J. Herrera ahead of B. Allen on most rounds played (7 vs 6)".
+   * Null when not separated by a tie-break.
+   */
+  tieBreakNote: string | null;
+}
+
+/** One golfer's row in a single week's results */
+export interface WeeklyResultEntry {
+  /** Rank by that week's points (ties share rank) */
+  rank: number;
+  profileId: string;
+  firstName: string;
+  lastName: string;
+  points: number;
+  /** Money won that week ($0 if played but won nothing) */
+  amount: number;
+  /** Season standings rank after this week */
+  seasonRank: number;
+  /** Season total (best N) after this week */
+  seasonTotal: number;
+  /**
+   * Places gained (+) or lost (−) in the season standings versus the
+   * previous week. Null in week 1 or the golfer's first ranked week.
+   */
+  movement: number | null;
+}
+
+/** One golfer's share of the season prize pool */
+export interface SeasonPayout {
+  /** Finishing place among qualified golfers (tied golfers share it) */
+  place: number;
+  isTied: boolean;
+  profileId: string;
+  firstName: string;
+  lastName: string;
+  totalPoints: number;
+  /** Share of the prize pool, in percent (tied places split evenly) */
+  percent: number;
+  amount: number;
+}
+
+/** One golfer's finish in a league season, for their profile history */
+export interface GolferSeasonFinish {
+  seasonId: string;
+  seasonName: string;
+  seasonStart: string | null;
+  isCurrent: boolean;
+  eventName: string;
+  eventSlug: string | null;
+  /** Standings rank (shared when tied) */
+  rank: number;
+  isTied: boolean;
+  /** Golfers ranked that season */
+  fieldSize: number;
+  totalPoints: number;
+  roundsPlayed: number;
+  isQualified: boolean;
+  /** Weekly winnings plus any season payout */
+  moneyWon: number;
 }
 
 /** Weekly money winnings per golfer */
@@ -477,6 +659,7 @@ export interface LeagueMoneyScore {
   id: string;
   event_id: string;
   profile_id: string;
+  season_id: string | null;
   game_date: string; // YYYY-MM-DD
   amount: number; // dollar amount (total for that week)
   metadata: Record<string, unknown> | null;
@@ -499,13 +682,97 @@ export interface MoneyLeaderboardEntry {
   weeksWon: number;
   /** Season-long prize payout (top finishers only). Null until entered post-season. */
   seasonAmount: number | null;
+  /** Map of game_date → side-game winnings behind that week's amount (posted weeks only) */
+  weeklyBreakdown: Record<string, SideGameWinning[]>;
+}
+
+/** Weekly side games paid from the players' buy-ins */
+export type SideGameType = 'closest_to_pin' | 'low_net' | 'low_gross' | 'skins';
+
+/** Labels for side game types (admin side games page) */
+export const SIDE_GAME_TYPE_LABELS: Record<SideGameType, { label: string; description: string }> = {
+  closest_to_pin: {
+    label: 'Closest to the Pin',
+    description: 'Closest tee shot on a par 3. Ties split the prize.',
+  },
+  low_net: {
+    label: 'Low Net',
+    description: 'Lowest net score for the round. Ties split the prize.',
+  },
+  low_gross: {
+    label: 'Low Gross',
+    description: 'Lowest gross score for the round. Ties split the prize.',
+  },
+  skins: {
+    label: 'Low Gross Skins',
+    description: 'Outright low gross on a hole wins a skin. Tied holes carry over; the pot is split by skins won.',
+  },
+};
+
+/** One week's side games: who bought in and for how much */
+export interface LeagueSideGameWeek {
+  id: string;
+  event_id: string;
+  season_id: string | null;
+  game_date: string; // YYYY-MM-DD
+  buy_in: number;
+  /** Golfers who bought in this week */
+  player_ids: string[];
+  /** Unwon skins money carried in from an earlier week */
+  skins_carry_in: number;
+  posted_at: string | null;
+  entered_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** One game within a side-game week */
+export interface LeagueSideGame {
+  id: string;
+  week_id: string;
+  game_type: SideGameType;
+  label: string;
+  /** Share of the week's pot, in percent */
+  share_percent: number;
+  /** Winners (tied winners split); unused for skins */
+  winner_ids: string[];
+  /** Skins only: winner per hole, null when the hole was tied */
+  hole_winners: (string | null)[] | null;
+  sort_order: number;
+}
+
+/** One side-game win in a golfer's weekly money breakdown */
+export interface SideGameWinning {
+  label: string;
+  gameType: SideGameType;
+  amount: number;
+  /** e.g. "3 skins" or "Tied, 2 ways" */
+  detail: string | null;
 }
 
 // ============================================================
 // Guest Request Types
 // ============================================================
 
-export type GuestRequestStatus = 'pending' | 'approved' | 'denied';
+export type GuestRequestStatus = 'pending' | 'approved' | 'waitlisted' | 'denied';
+
+/** How approved guests compete with members for spots */
+export type GuestCapacityPolicy = 'members_first' | 'first_come';
+
+/** Admin-facing labels for guest capacity policies */
+export const GUEST_CAPACITY_POLICY_LABELS: Record<GuestCapacityPolicy, { label: string; description: string }> = {
+  members_first: { label: 'Members First', description: 'Approved guests wait on the guest waitlist until the RSVP cutoff, then fill any spots members left open.' },
+  first_come:    { label: 'First Come',    description: 'An approved guest takes an open spot right away. When the game is full, they join the guest waitlist.' },
+};
+
+/** What happens to a guest request over the event's max visits per guest */
+export type GuestVisitLimitAction = 'block' | 'flag';
+
+/** Admin-facing labels for guest visit limit actions */
+export const GUEST_VISIT_LIMIT_ACTION_LABELS: Record<GuestVisitLimitAction, { label: string; description: string }> = {
+  flag:  { label: 'Flag', description: 'The request goes through, marked so the approving admin can see the guest is over the limit.' },
+  block: { label: 'Block', description: 'The member can\'t request a guest who has reached the limit.' },
+};
 
 /** A guest request for a specific week */
 export interface GuestRequest {
@@ -518,13 +785,34 @@ export interface GuestRequest {
   guest_phone: string | null;
   guest_ghin_number: string | null;
   guest_profile_id: string | null;
+  /** The registry guest this request is for */
+  guest_id: string | null;
+  /** Set when the guest was over the event's visit limit at request time */
+  visit_limit_exceeded: boolean;
   status: GuestRequestStatus;
+  /** Position on the guest waitlist; set only while waitlisted */
+  waitlist_position: number | null;
   approved_by: string | null;
   approval_token: string;
   created_at: string;
   updated_at: string;
 }
 
+/** A guest in the registry, shared by every member who brings them */
+export interface Guest {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string | null;
+  phone: string | null;
+  ghin_number: string | null;
+  /** Member profile created when the guest was converted to a member */
+  converted_profile_id: string | null;
+  converted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // ============================================================
 // Handicap History Types
 // ============================================================
@@ -534,7 +822,7 @@ export interface HandicapHistoryEntry {
   id: string;
   profile_id: string;
   handicap_index: number;
-  source: 'ghin_sync' | 'manual';
+  source: 'ghin_sync' | 'csv_import' | 'manual';
   recorded_at: string;
 }
 
@@ -542,8 +830,20 @@ export interface HandicapHistoryEntry {
 // Weather Forecast Types
 // ============================================================
 
+/** A course events play at; coordinates drive the weather forecast */
+export interface Course {
+  id: string;
+  name: string;
+  address: string | null;
+  latitude: number;
+  longitude: number;
+  timezone: string; // IANA, e.g. "America/Los_Angeles"
+  created_at: string;
+  updated_at: string;
+}
+
 export interface HourlyForecast {
-  hour: number;         // 0-23 in Pacific Time
+  hour: number;         // 0-23 in the course's local time
   time: string;         // "7 AM", "8 AM", etc.
   temperature: number;  // Fahrenheit
   apparentTemperature: number; // "Feels like" in Fahrenheit
@@ -558,6 +858,7 @@ export interface HourlyForecast {
 
 export interface GameWeatherForecast {
   gameDate: string;           // YYYY-MM-DD
+  courseName: string;         // course the forecast is for
   fetchedAt: string;          // ISO timestamp
   daysUntilGame: number;
   sunrise: string;            // "6:12 AM"
@@ -577,6 +878,26 @@ export interface GameWeatherForecast {
   };
 }
 
+// ============================================================
+// Email Template Types
+// ============================================================
+
+/** Category of a saved email template (email_templates.category) */
+export type EmailTemplateCategory = 'cancellation' | 'extra_spots' | 'weather' | 'course_update' | 'custom';
+
+/** A saved email template. event_id NULL = global template for all events */
+export interface SavedEmailTemplate {
+  id: string;
+  event_id: string | null;
+  name: string;
+  subject: string;
+  body: string;
+  category: EmailTemplateCategory;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 // ============================================================
 // Penalty Box Types
 // ============================================================
@@ -0,0 +1,43 @@
+-- Migration 036: Automatic Waitlist Promotion
+-- Opt-in per-event mode: when a confirmed golfer drops out, the golfer at the
+-- top of the waitlist (lowest waitlist_position) is moved to "in" automatically,
+-- the remaining waitlist is renumbered, and the promoted golfer is notified.
+-- Default OFF — existing events keep the admin-managed waitlist.
+
+-- ============================================================
+-- 1. Event settings
+-- ============================================================
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS waitlist_auto_promote boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS waitlist_post_cutoff_approval boolean NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.events.waitlist_auto_promote IS
+  'When true, the first waitlisted golfer is promoted to "in" automatically when a spot opens.';
+COMMENT ON COLUMN public.events.waitlist_post_cutoff_approval IS
+  'When true (default), spots that open after the RSVP cutoff are NOT auto-filled — the admin is alerted and promotes manually. Only meaningful when waitlist_auto_promote = true.';
+
+-- ============================================================
+-- 2. Record why a status changed (system-driven changes have no changed_by)
+-- ============================================================
+ALTER TABLE public.rsvp_history
+  ADD COLUMN IF NOT EXISTS change_reason text;
+
+COMMENT ON COLUMN public.rsvp_history.change_reason IS
+  'Optional reason for system-driven changes, e.g. ''auto_waitlist_promotion''. NULL for ordinary golfer/admin changes.';
+
+-- ============================================================
+-- 3. Allow the waitlist promotion email in email_log
+-- ============================================================
+ALTER TABLE public.email_log
+  DROP CONSTRAINT IF EXISTS email_log_email_type_check;
+
+ALTER TABLE public.email_log
+  ADD CONSTRAINT email_log_email_type_check
+  CHECK (email_type IN (
+    'invite', 'reminder', 'confirmation_golfer', 'confirmation_proshop',
+    'no_game', 'guest_approved', 'guest_denied', 'guest_request_pending',
+    'registration_pending', 'custom',
+    'penalty_issued', 'penalty_witness_request', 'penalty_witness_no',
+    'penalty_witness_timeout', 'penalty_apology', 'penalty_released',
+    'waitlist_promoted'
+  ));
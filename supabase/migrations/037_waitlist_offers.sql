@@ -0,0 +1,93 @@
+-- Migration 037: Time-Limited Waitlist Offers
+-- Instead of silently promoting the next waitlisted golfer, the open spot is
+-- OFFERED to them with a tokenized "Claim your spot" link that expires after a
+-- configurable window. While an offer is pending the spot is held for that
+-- golfer; if it expires (or they decline) the offer moves to the next person.
+-- A window of 0 hours keeps the instant promotion behavior from migration 036.
+
+-- ============================================================
+-- 1. Event setting: offer window
+-- ============================================================
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS waitlist_offer_hours integer NOT NULL DEFAULT 4
+    CHECK (waitlist_offer_hours >= 0 AND waitlist_offer_hours <= 48);
+
+COMMENT ON COLUMN public.events.waitlist_offer_hours IS
+  'How long a waitlist offer stays open before it passes to the next golfer. 0 = promote immediately without an offer. Only meaningful when waitlist_auto_promote = true.';
+
+-- ============================================================
+-- 2. Offers table
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.waitlist_offers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id uuid NOT NULL REFERENCES public.event_schedules(id) ON DELETE CASCADE,
+  rsvp_id uuid NOT NULL REFERENCES public.rsvps(id) ON DELETE CASCADE,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'claimed', 'declined', 'expired', 'cancelled')),
+  offered_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  responded_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.waitlist_offers IS
+  'Time-limited offers of an open spot to a waitlisted golfer. pending = spot held; claimed = golfer moved to "in"; declined = golfer moved to "out"; expired = window lapsed, offer passed on; cancelled = golfer left the waitlist some other way.';
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_schedule
+  ON public.waitlist_offers(schedule_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_pending_expiry
+  ON public.waitlist_offers(expires_at)
+  WHERE status = 'pending';
+
+-- At most one open offer per RSVP
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_offers_one_pending
+  ON public.waitlist_offers(rsvp_id)
+  WHERE status = 'pending';
+
+-- ============================================================
+-- 3. RLS: admins read; all writes go through the service role
+-- ============================================================
+ALTER TABLE public.waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read waitlist offers"
+  ON public.waitlist_offers FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND is_super_admin = true
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM public.event_admins ea
+      JOIN public.event_schedules es ON es.event_id = ea.event_id
+      WHERE es.id = waitlist_offers.schedule_id
+      AND ea.profile_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role full access to waitlist offers"
+  ON public.waitlist_offers FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================
+-- 4. Allow the waitlist offer email in email_log
+-- ============================================================
+ALTER TABLE public.email_log
+  DROP CONSTRAINT IF EXISTS email_log_email_type_check;
+
+ALTER TABLE public.email_log
+  ADD CONSTRAINT email_log_email_type_check
+  CHECK (email_type IN (
+    'invite', 'reminder', 'confirmation_golfer', 'confirmation_proshop',
+    'no_game', 'guest_approved', 'guest_denied', 'guest_request_pending',
+    'registration_pending', 'custom',
+    'penalty_issued', 'penalty_witness_request', 'penalty_witness_no',
+    'penalty_witness_timeout', 'penalty_apology', 'penalty_released',
+    'waitlist_promoted', 'waitlist_offer'
+  ));
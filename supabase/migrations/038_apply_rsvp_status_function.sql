@@ -0,0 +1,183 @@
+-- Migration 038: Atomic RSVP Status Changes
+-- The "in" path used to count status = 'in' rows and then update in separate
+-- requests, so two golfers tapping "I'm In" at the same moment could both get
+-- in past capacity. apply_rsvp_status() does the capacity check, waitlist
+-- position assignment, RSVP update and rsvp_history insert in one transaction,
+-- serialized per game by locking the event_schedules row.
+--
+-- Callers: /api/rsvp, admin RSVP actions, waitlist promotion/offers.
+-- Only the service role may call it (all callers use the admin client).
+
+-- ============================================================
+-- apply_rsvp_status
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.apply_rsvp_status(
+  p_schedule_id uuid,
+  p_profile_id uuid,
+  p_status text,
+  p_changed_by uuid DEFAULT NULL,
+  p_enforce_capacity boolean DEFAULT true,
+  p_expected_status text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL,
+  p_ip_address text DEFAULT NULL,
+  p_is_suspicious boolean DEFAULT false,
+  p_change_reason text DEFAULT NULL
+)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_capacity integer;
+  v_rsvp public.rsvps%ROWTYPE;
+  v_is_new boolean := false;
+  v_old_status text;
+  v_new_status text := p_status;
+  v_position smallint;
+  v_in_count integer;
+  v_held_count integer;
+BEGIN
+  IF p_status NOT IN ('in', 'out', 'not_sure', 'no_response', 'waitlisted') THEN
+    RAISE EXCEPTION 'Invalid RSVP status: %', p_status;
+  END IF;
+
+  -- Lock the game. Every status change for this schedule queues here until
+  -- the previous one commits, so the counts below can't go stale.
+  SELECT COALESCE(NULLIF(es.capacity, 0), NULLIF(e.default_capacity, 0), 16)
+    INTO v_capacity
+  FROM public.event_schedules es
+  JOIN public.events e ON e.id = es.event_id
+  WHERE es.id = p_schedule_id
+  FOR UPDATE OF es;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Schedule not found: %', p_schedule_id;
+  END IF;
+
+  SELECT * INTO v_rsvp
+  FROM public.rsvps
+  WHERE schedule_id = p_schedule_id AND profile_id = p_profile_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    IF p_expected_status IS NOT NULL THEN
+      RETURN jsonb_build_object('rsvp_id', NULL, 'old_status', NULL, 'new_status', NULL, 'changed', false);
+    END IF;
+
+    INSERT INTO public.rsvps (schedule_id, profile_id, status)
+    VALUES (p_schedule_id, p_profile_id, 'no_response')
+    RETURNING * INTO v_rsvp;
+    v_is_new := true;
+  END IF;
+
+  v_old_status := CASE WHEN v_is_new THEN NULL ELSE v_rsvp.status END;
+  v_position := v_rsvp.waitlist_position;
+
+  -- Caller only wants the change if the RSVP is still in the state it saw
+  -- (e.g. promoting someone who is still waitlisted).
+  IF p_expected_status IS NOT NULL AND v_rsvp.status IS DISTINCT FROM p_expected_status THEN
+    RETURN jsonb_build_object(
+      'rsvp_id', v_rsvp.id,
+      'old_status', v_old_status,
+      'new_status', v_rsvp.status,
+      'waitlist_position', v_rsvp.waitlist_position,
+      'changed', false
+    );
+  END IF;
+
+  -- Capacity check. Spots held by another golfer's pending waitlist offer
+  -- count as taken.
+  IF p_status = 'in' AND v_rsvp.status <> 'in' AND p_enforce_capacity THEN
+    SELECT count(*) INTO v_in_count
+    FROM public.rsvps
+    WHERE schedule_id = p_schedule_id AND status = 'in';
+
+    SELECT count(*) INTO v_held_count
+    FROM public.waitlist_offers
+    WHERE schedule_id = p_schedule_id
+      AND status = 'pending'
+      AND rsvp_id <> v_rsvp.id;
+
+    IF v_in_count + v_held_count >= v_capacity THEN
+      v_new_status := 'waitlisted';
+    END IF;
+  END IF;
+
+  -- No change (e.g. already waitlisted and the game is still full):
+  -- keep the existing waitlist position, don't log history.
+  IF NOT v_is_new AND v_new_status = v_rsvp.status THEN
+    SELECT count(*) INTO v_in_count
+    FROM public.rsvps
+    WHERE schedule_id = p_schedule_id AND status = 'in';
+
+    RETURN jsonb_build_object(
+      'rsvp_id', v_rsvp.id,
+      'old_status', v_old_status,
+      'new_status', v_new_status,
+      'waitlist_position', v_rsvp.waitlist_position,
+      'in_count', v_in_count,
+      'capacity', v_capacity,
+      'changed', false
+    );
+  END IF;
+
+  -- Waitlist position: join at the back, or clear when leaving
+  IF v_new_status = 'waitlisted' THEN
+    SELECT COALESCE(MAX(waitlist_position), 0) + 1 INTO v_position
+    FROM public.rsvps
+    WHERE schedule_id = p_schedule_id AND status = 'waitlisted';
+  ELSE
+    v_position := NULL;
+  END IF;
+
+  UPDATE public.rsvps
+  SET status = v_new_status,
+      waitlist_position = v_position,
+      responded_at = now(),
+      updated_at = now()
+  WHERE id = v_rsvp.id;
+
+  -- Close the gap left behind on the waitlist (1, 2, 3, ...)
+  IF v_rsvp.status = 'waitlisted' AND v_new_status <> 'waitlisted' THEN
+    UPDATE public.rsvps r
+    SET waitlist_position = ordered.pos
+    FROM (
+      SELECT id, row_number() OVER (ORDER BY waitlist_position, responded_at) AS pos
+      FROM public.rsvps
+      WHERE schedule_id = p_schedule_id AND status = 'waitlisted'
+    ) ordered
+    WHERE r.id = ordered.id
+      AND r.waitlist_position IS DISTINCT FROM ordered.pos;
+  END IF;
+
+  INSERT INTO public.rsvp_history (
+    rsvp_id, schedule_id, profile_id, old_status, new_status,
+    changed_by, user_agent, ip_address, is_suspicious, change_reason
+  ) VALUES (
+    v_rsvp.id, p_schedule_id, p_profile_id, v_old_status, v_new_status,
+    p_changed_by, p_user_agent, p_ip_address, p_is_suspicious, p_change_reason
+  );
+
+  SELECT count(*) INTO v_in_count
+  FROM public.rsvps
+  WHERE schedule_id = p_schedule_id AND status = 'in';
+
+  RETURN jsonb_build_object(
+    'rsvp_id', v_rsvp.id,
+    'old_status', v_old_status,
+    'new_status', v_new_status,
+    'waitlist_position', v_position,
+    'in_count', v_in_count,
+    'capacity', v_capacity,
+    'changed', true
+  );
+END;
+$function$;
+
+COMMENT ON FUNCTION public.apply_rsvp_status IS
+  'Atomically change an RSVP status for (schedule, golfer): creates the RSVP if missing, enforces capacity (sends "in" to the waitlist when full, counting pending waitlist offers), assigns/clears waitlist_position, renumbers the waitlist, and writes rsvp_history. Serialized per game via a row lock on event_schedules.';
+
+-- Service role only — the function trusts its caller for authorization.
+REVOKE ALL ON FUNCTION public.apply_rsvp_status(uuid, uuid, text, uuid, boolean, text, text, text, boolean, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.apply_rsvp_status(uuid, uuid, text, uuid, boolean, text, text, text, boolean, text) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_rsvp_status(uuid, uuid, text, uuid, boolean, text, text, text, boolean, text) TO service_role;
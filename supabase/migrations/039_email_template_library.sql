@@ -0,0 +1,58 @@
+-- Migration 039: Email Template Library
+-- Migration 001 created and seeded email_templates but nothing read it. The
+-- email composer now loads saved templates: global templates (event_id NULL)
+-- are managed by super admins, per-event templates by that event's admins.
+-- Placeholders use {{variable}} syntax; {{program_name}} predates the
+-- programs -> events rename, so the seeded templates are switched to
+-- {{event_name}} (the composer still accepts the old name).
+
+-- ============================================================
+-- 1. Rename the legacy placeholder in seeded templates
+-- ============================================================
+UPDATE public.email_templates
+SET
+  subject = replace(subject, '{{program_name}}', '{{event_name}}'),
+  body = replace(body, '{{program_name}}', '{{event_name}}')
+WHERE strpos(subject, '{{program_name}}') > 0
+   OR strpos(body, '{{program_name}}') > 0;
+
+-- The 001 seed stored "\n" literally (standard strings don't process escapes)
+UPDATE public.email_templates
+SET body = replace(body, '\n', E'\n')
+WHERE strpos(body, '\n') > 0;
+
+-- ============================================================
+-- 2. Lookup index
+-- ============================================================
+CREATE INDEX IF NOT EXISTS idx_email_templates_event
+  ON public.email_templates(event_id);
+
+COMMENT ON COLUMN public.email_templates.subject IS 'Subject line; may contain {{variable}} placeholders';
+COMMENT ON COLUMN public.email_templates.body IS 'Plain-text body; may contain {{variable}} placeholders filled per recipient at send time';
+
+-- ============================================================
+-- 3. RLS: event admins manage their own event's templates
+-- ============================================================
+-- Super admins keep full access via "Templates: super admin manage" (002).
+DROP POLICY IF EXISTS "Templates: event admin read" ON public.email_templates;
+CREATE POLICY "Templates: event admin read"
+  ON public.email_templates FOR SELECT
+  TO authenticated
+  USING (
+    public.is_program_admin()
+    AND (event_id IS NULL OR public.is_program_admin_for(event_id))
+  );
+
+DROP POLICY IF EXISTS "Templates: event admin manage" ON public.email_templates;
+CREATE POLICY "Templates: event admin manage"
+  ON public.email_templates FOR ALL
+  TO authenticated
+  USING (event_id IS NOT NULL AND public.is_program_admin_for(event_id))
+  WITH CHECK (event_id IS NOT NULL AND public.is_program_admin_for(event_id));
+
+DROP POLICY IF EXISTS "Service role full access to email templates" ON public.email_templates;
+CREATE POLICY "Service role full access to email templates"
+  ON public.email_templates FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,73 @@
+-- Migration 040: Scheduled & Recurring Custom Emails
+-- The email composer could only send immediately. Admins can now queue a
+-- custom email for a later send slot ("once"), or set up a weekly email that
+-- goes out every game week ("weekly") — optionally only when the confirmed
+-- count is below the game's minimum players (a "spots still open" nudge).
+-- The email-scheduler cron sends queued emails using the same six daily
+-- send slots as the automated emails.
+
+-- ============================================================
+-- 1. Queue table
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.scheduled_emails (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  -- Game week for one-time sends; NULL for weekly (uses each upcoming game)
+  schedule_id uuid REFERENCES public.event_schedules(id) ON DELETE CASCADE,
+  target text NOT NULL
+    CHECK (target IN ('in', 'out', 'not_sure_no_response', 'waitlisted', 'everyone')),
+  subject text NOT NULL,
+  body text NOT NULL,
+  recurrence text NOT NULL DEFAULT 'once'
+    CHECK (recurrence IN ('once', 'weekly')),
+  send_date date,
+  send_day_offset integer,
+  send_time time NOT NULL,
+  send_condition text NOT NULL DEFAULT 'always'
+    CHECK (send_condition IN ('always', 'below_min_players')),
+  status text NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'sent', 'skipped', 'missed', 'failed', 'cancelled')),
+  last_schedule_id uuid REFERENCES public.event_schedules(id) ON DELETE SET NULL,
+  last_run_at timestamptz,
+  last_result text,
+  last_recipient_count smallint,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT scheduled_emails_timing_check CHECK (
+    (recurrence = 'once' AND schedule_id IS NOT NULL AND send_date IS NOT NULL)
+    OR (recurrence = 'weekly' AND send_day_offset IS NOT NULL AND send_day_offset <= 0)
+  )
+);
+
+COMMENT ON TABLE public.scheduled_emails IS 'Custom emails queued from the composer. Processed by the email-scheduler cron.';
+COMMENT ON COLUMN public.scheduled_emails.send_date IS 'Pacific date to send (once only)';
+COMMENT ON COLUMN public.scheduled_emails.send_day_offset IS 'Days relative to game day to send, e.g. -2 = two days before (weekly only)';
+COMMENT ON COLUMN public.scheduled_emails.send_time IS 'Pacific send slot; must match a cron slot (04:45, 05:45, 10:45, 11:45, 16:45, 17:45)';
+COMMENT ON COLUMN public.scheduled_emails.send_condition IS 'below_min_players = only send if confirmed count < min players for the game';
+COMMENT ON COLUMN public.scheduled_emails.status IS 'Weekly emails stay scheduled until cancelled; once emails end as sent/skipped/missed/failed';
+COMMENT ON COLUMN public.scheduled_emails.last_schedule_id IS 'Game week last processed — prevents a weekly email from sending twice for the same game';
+COMMENT ON COLUMN public.scheduled_emails.last_result IS 'Outcome of the last run, shown to admins (e.g. "Sent to 12", "Skipped — 14 confirmed")';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_event_status
+  ON public.scheduled_emails(event_id, status);
+
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.scheduled_emails
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================================
+-- 2. RLS
+-- ============================================================
+ALTER TABLE public.scheduled_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage scheduled emails"
+  ON public.scheduled_emails FOR ALL
+  TO authenticated
+  USING (public.is_super_admin() OR public.is_program_admin_for(event_id))
+  WITH CHECK (public.is_super_admin() OR public.is_program_admin_for(event_id));
+
+CREATE POLICY "Service role full access to scheduled emails"
+  ON public.scheduled_emails FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,74 @@
+-- Migration 041: Per-Recipient Email Delivery Log
+-- email_log only records how many golfers an email went to, so "I never got
+-- the invite" couldn't be checked. sendEmail() now writes one row per
+-- recipient with the Resend message id, and the /api/webhooks/resend route
+-- updates each row as Resend reports delivered / opened / bounced /
+-- complained. Hard bounces are flagged on the golfer's profile.
+
+-- ============================================================
+-- 1. Delivery table
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.email_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  resend_id text,
+  recipient text NOT NULL,
+  subject text NOT NULL,
+  email_type text,
+  event_id uuid REFERENCES public.events(id) ON DELETE SET NULL,
+  schedule_id uuid REFERENCES public.event_schedules(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'sent'
+    CHECK (status IN ('sent', 'failed', 'delivery_delayed', 'delivered', 'opened', 'bounced', 'complained')),
+  bounce_type text,
+  error_message text,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  delivered_at timestamptz,
+  opened_at timestamptz,
+  bounced_at timestamptz,
+  complained_at timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.email_deliveries IS 'One row per recipient of every email sent via sendEmail(). Status is updated by the Resend webhook.';
+COMMENT ON COLUMN public.email_deliveries.resend_id IS 'Resend message id (shared by all recipients of one send). NULL if the send failed.';
+COMMENT ON COLUMN public.email_deliveries.email_type IS 'Same values as email_log.email_type; NULL for untagged sends (admin alerts, etc.)';
+COMMENT ON COLUMN public.email_deliveries.bounce_type IS 'Resend bounce type — "Permanent" is a hard bounce';
+
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_resend_id
+  ON public.email_deliveries(resend_id);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_schedule
+  ON public.email_deliveries(schedule_id, email_type);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_recipient
+  ON public.email_deliveries(lower(recipient), sent_at DESC);
+
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.email_deliveries
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================================
+-- 2. Hard-bounce flag on profiles
+-- ============================================================
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS email_bounced_at timestamptz,
+  ADD COLUMN IF NOT EXISTS email_bounce_reason text;
+
+COMMENT ON COLUMN public.profiles.email_bounced_at IS 'Set when Resend reports a hard bounce for this email address; cleared on a later delivery';
+COMMENT ON COLUMN public.profiles.email_bounce_reason IS 'Bounce message from Resend, shown on the admin golfer page';
+
+-- ============================================================
+-- 3. RLS
+-- ============================================================
+ALTER TABLE public.email_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read email deliveries"
+  ON public.email_deliveries FOR SELECT
+  TO authenticated
+  USING (
+    public.is_super_admin()
+    OR (event_id IS NOT NULL AND public.is_program_admin_for(event_id))
+    OR (event_id IS NULL AND public.is_program_admin())
+  );
+
+CREATE POLICY "Service role full access to email deliveries"
+  ON public.email_deliveries FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,63 @@
+-- Migration 042: SMS Notifications
+-- Golfers can opt in to text messages on their profile page. Opted-in
+-- golfers get a short-link RSVP text alongside the invite, reminder and
+-- waitlist promotion/offer emails, and can reply IN or OUT to RSVP.
+-- Every outbound and inbound text is logged in sms_messages (the inbound
+-- webhook uses the latest outbound text to know which game a reply is for).
+
+-- ============================================================
+-- 1. Opt-in on profiles
+-- ============================================================
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS sms_opt_in boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS sms_opt_in_at timestamptz;
+
+COMMENT ON COLUMN public.profiles.sms_opt_in IS 'Golfer agreed to receive game texts at profiles.phone. Cleared when they reply STOP.';
+COMMENT ON COLUMN public.profiles.sms_opt_in_at IS 'When the golfer last opted in (consent record)';
+
+-- ============================================================
+-- 2. Message log
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.sms_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  direction text NOT NULL CHECK (direction IN ('outbound', 'inbound')),
+  profile_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- E.164, e.g. +18585551234
+  phone text NOT NULL,
+  body text NOT NULL,
+  message_type text NOT NULL
+    CHECK (message_type IN ('invite', 'reminder', 'waitlist_promoted', 'waitlist_offer', 'reply', 'inbound')),
+  event_id uuid REFERENCES public.events(id) ON DELETE SET NULL,
+  schedule_id uuid REFERENCES public.event_schedules(id) ON DELETE SET NULL,
+  provider_id text,
+  status text NOT NULL CHECK (status IN ('sent', 'failed', 'received')),
+  error_message text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.sms_messages IS 'Outbound game texts and inbound replies. Inbound rows record the reply keyword handling.';
+COMMENT ON COLUMN public.sms_messages.provider_id IS 'Provider message id (Twilio MessageSid)';
+
+CREATE INDEX IF NOT EXISTS idx_sms_messages_phone
+  ON public.sms_messages(phone, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sms_messages_schedule
+  ON public.sms_messages(schedule_id, message_type);
+
+-- ============================================================
+-- 3. RLS
+-- ============================================================
+ALTER TABLE public.sms_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read sms messages"
+  ON public.sms_messages FOR SELECT
+  TO authenticated
+  USING (
+    public.is_super_admin()
+    OR (event_id IS NOT NULL AND public.is_program_admin_for(event_id))
+  );
+
+CREATE POLICY "Service role full access to sms messages"
+  ON public.sms_messages FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
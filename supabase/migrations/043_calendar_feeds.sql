@@ -0,0 +1,16 @@
+-- Migration 043: Calendar Feeds
+-- Each golfer gets a private iCalendar feed at /api/calendar/{token}.ics
+-- listing the upcoming games they're IN for (tee time, group number,
+-- cancellations). The token is the only credential, so golfers can reset
+-- it from their profile page if the link gets shared.
+
+-- ============================================================
+-- 1. Per-golfer feed token
+-- ============================================================
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS calendar_token uuid NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_calendar_token
+  ON public.profiles(calendar_token);
+
+COMMENT ON COLUMN public.profiles.calendar_token IS 'Secret token for the golfer''s iCalendar feed (/api/calendar/{token}.ics). Regenerated when the golfer resets their calendar link.';
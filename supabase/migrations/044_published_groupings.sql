@@ -0,0 +1,16 @@
+-- Migration 044: Published Groupings
+-- Suggested groupings were only visible in the pro shop email. Admins can
+-- now mark a week's groupings final, which publishes them to golfers on
+-- the tee sheet page (/event/{slug}/tee-sheet/{date}) and the home page.
+-- Final groupings are also left alone when the confirmation email re-runs
+-- the grouping engine.
+
+-- ============================================================
+-- 1. Final flag on event_schedules
+-- ============================================================
+ALTER TABLE public.event_schedules
+  ADD COLUMN IF NOT EXISTS groupings_final_at timestamptz,
+  ADD COLUMN IF NOT EXISTS groupings_final_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.event_schedules.groupings_final_at IS 'When an admin marked this game''s groupings final. NULL = draft (hidden from golfers, regenerated with the confirmation email).';
+COMMENT ON COLUMN public.event_schedules.groupings_final_by IS 'Admin who marked the groupings final';
@@ -0,0 +1,72 @@
+-- Migration 045: League Name Aliases
+-- Weekly Stableford scores can now be uploaded from the admin League Scores
+-- page instead of scripts/import-scores.ts. When a Golf Genius player name
+-- doesn't match a profile (e.g. "Douglas Irwin" vs. "Doug Irwin"), the admin
+-- picks the golfer once and the alias is remembered for that event. This
+-- replaces the hardcoded NAME_ALIASES map in the import script.
+
+-- ============================================================
+-- 1. Alias table
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.league_name_aliases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  -- Lowercased, whitespace-collapsed player name as it appears in the export
+  source_name text NOT NULL,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (event_id, source_name)
+);
+
+COMMENT ON TABLE public.league_name_aliases IS 'Per-event mapping from a score export player name to a golfer profile. Checked before first+last name matching.';
+COMMENT ON COLUMN public.league_name_aliases.source_name IS 'Normalized export name (lowercase, single spaces), e.g. "douglas irwin"';
+
+-- ============================================================
+-- 2. RLS
+-- ============================================================
+ALTER TABLE public.league_name_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage league name aliases"
+  ON public.league_name_aliases FOR ALL
+  TO authenticated
+  USING (
+    public.is_super_admin()
+    OR public.is_program_admin_for(event_id)
+  )
+  WITH CHECK (
+    public.is_super_admin()
+    OR public.is_program_admin_for(event_id)
+  );
+
+CREATE POLICY "Service role full access to league name aliases"
+  ON public.league_name_aliases FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================
+-- 3. Seed — aliases previously hardcoded in scripts/import-scores.ts
+-- ============================================================
+DO $$
+DECLARE
+  v_event_id uuid;
+BEGIN
+  SELECT id INTO v_event_id FROM public.events WHERE slug = 'thursday-league' LIMIT 1;
+
+  IF v_event_id IS NOT NULL THEN
+    INSERT INTO public.league_name_aliases (event_id, source_name, profile_id)
+    SELECT v_event_id, a.source_name, p.id
+    FROM (VALUES
+      ('douglas irwin', 'doug', 'irwin'),
+      ('mike leiby', 'michael', 'leiby'),
+      ('samuel dagan', 'sam', 'dagan'),
+      ('bradley schluter', 'brad', 'schluter'),
+      ('tony dambrosia', 'tony', 'd''ambrosia')
+    ) AS a(source_name, first_name, last_name)
+    JOIN public.profiles p
+      ON lower(p.first_name) = a.first_name
+     AND lower(p.last_name) = a.last_name
+    ON CONFLICT (event_id, source_name) DO NOTHING;
+  END IF;
+END $$;
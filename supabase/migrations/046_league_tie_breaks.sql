@@ -0,0 +1,28 @@
+-- Migration 046: League Tie-Break Rules
+-- Golfers tied on season points used to share a rank, which doesn't work
+-- when the season pot is paid by place (payout_config). Each league can now
+-- list tie-break rules to apply in order. The leaderboard shows a footnote
+-- for every tie a rule broke. An empty list keeps the old behavior (ties
+-- share rank).
+
+-- ============================================================
+-- 1. Tie-break settings on event_league_config
+-- ============================================================
+ALTER TABLE public.event_league_config
+  ADD COLUMN IF NOT EXISTS tie_break_rules text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS tie_break_countback_weeks integer NOT NULL DEFAULT 3;
+
+ALTER TABLE public.event_league_config
+  DROP CONSTRAINT IF EXISTS event_league_config_tie_break_rules_check;
+ALTER TABLE public.event_league_config
+  ADD CONSTRAINT event_league_config_tie_break_rules_check
+  CHECK (tie_break_rules <@ ARRAY['most_rounds', 'best_round', 'best_dropped', 'countback']::text[]);
+
+ALTER TABLE public.event_league_config
+  DROP CONSTRAINT IF EXISTS event_league_config_tie_break_countback_weeks_check;
+ALTER TABLE public.event_league_config
+  ADD CONSTRAINT event_league_config_tie_break_countback_weeks_check
+  CHECK (tie_break_countback_weeks > 0);
+
+COMMENT ON COLUMN public.event_league_config.tie_break_rules IS 'Ordered tie-break rules for equal season totals: most_rounds, best_round, best_dropped, countback. Empty = ties share rank.';
+COMMENT ON COLUMN public.event_league_config.tie_break_countback_weeks IS 'Number of most recent played weeks summed by the countback rule';
@@ -0,0 +1,126 @@
+-- Migration 047: League Seasons
+-- event_league_config held a single season's settings per event, so
+-- starting the next season meant overwriting the last one and its
+-- standings became unreachable. Seasons are now their own records with
+-- their own scoring settings, and every score and money row belongs to a
+-- season. event_league_config keeps only the event-level league switch.
+-- Exactly one season per event is current; the league page can browse
+-- the rest.
+
+-- ============================================================
+-- 1. League seasons
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.league_seasons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  season_start date,
+  season_end date,
+  best_n integer,
+  total_m integer,
+  min_rounds_to_qualify integer,
+  prize_pool_total numeric(10,2),
+  payout_config jsonb,
+  tie_break_rules text[] NOT NULL DEFAULT '{}'
+    CHECK (tie_break_rules <@ ARRAY['most_rounds', 'best_round', 'best_dropped', 'countback']::text[]),
+  tie_break_countback_weeks integer NOT NULL DEFAULT 3
+    CHECK (tie_break_countback_weeks > 0),
+  is_current boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (season_end IS NULL OR season_start IS NULL OR season_end >= season_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_league_seasons_event
+  ON public.league_seasons(event_id, season_start);
+
+-- One current season per event
+CREATE UNIQUE INDEX IF NOT EXISTS idx_league_seasons_one_current
+  ON public.league_seasons(event_id) WHERE is_current;
+
+COMMENT ON TABLE public.league_seasons IS 'One row per league season: scoring parameters, prize structure and tie-break rules. Scores and money rows reference their season.';
+COMMENT ON COLUMN public.league_seasons.is_current IS 'The season shown by default on the league page and used for new scores. One per event.';
+
+-- ============================================================
+-- 2. RLS
+-- ============================================================
+ALTER TABLE public.league_seasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "League seasons: authenticated read"
+  ON public.league_seasons FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "League seasons: super admin manage"
+  ON public.league_seasons FOR ALL
+  TO authenticated
+  USING (public.is_super_admin())
+  WITH CHECK (public.is_super_admin());
+
+CREATE POLICY "Service role full access to league seasons"
+  ON public.league_seasons FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================
+-- 3. Backfill — each existing config becomes its event's current season
+-- ============================================================
+INSERT INTO public.league_seasons (
+  event_id, name, season_start, season_end,
+  best_n, total_m, min_rounds_to_qualify,
+  prize_pool_total, payout_config,
+  tie_break_rules, tie_break_countback_weeks, is_current
+)
+SELECT
+  c.event_id, COALESCE(c.season_name, 'Season 1'), c.season_start, c.season_end,
+  c.best_n, c.total_m, c.min_rounds_to_qualify,
+  c.prize_pool_total, c.payout_config,
+  c.tie_break_rules, c.tie_break_countback_weeks, true
+FROM public.event_league_config c
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.league_seasons s WHERE s.event_id = c.event_id
+);
+
+-- ============================================================
+-- 4. Scores and money belong to a season
+-- ============================================================
+ALTER TABLE public.league_scores
+  ADD COLUMN IF NOT EXISTS season_id uuid REFERENCES public.league_seasons(id) ON DELETE CASCADE;
+ALTER TABLE public.league_money_scores
+  ADD COLUMN IF NOT EXISTS season_id uuid REFERENCES public.league_seasons(id) ON DELETE CASCADE;
+
+-- Every event has had at most one season until now
+UPDATE public.league_scores ls
+SET season_id = s.id
+FROM public.league_seasons s
+WHERE s.event_id = ls.event_id AND s.is_current AND ls.season_id IS NULL;
+
+UPDATE public.league_money_scores lm
+SET season_id = s.id
+FROM public.league_seasons s
+WHERE s.event_id = lm.event_id AND s.is_current AND lm.season_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_league_scores_season
+  ON public.league_scores(season_id, profile_id);
+CREATE INDEX IF NOT EXISTS idx_league_money_scores_season
+  ON public.league_money_scores(season_id, profile_id);
+
+COMMENT ON COLUMN public.league_scores.season_id IS 'Season the score counts toward.';
+COMMENT ON COLUMN public.league_money_scores.season_id IS 'Season the winnings (weekly or season payout) belong to.';
+
+-- ============================================================
+-- 5. Season settings move off event_league_config
+-- ============================================================
+ALTER TABLE public.event_league_config
+  DROP COLUMN IF EXISTS season_name,
+  DROP COLUMN IF EXISTS season_start,
+  DROP COLUMN IF EXISTS season_end,
+  DROP COLUMN IF EXISTS best_n,
+  DROP COLUMN IF EXISTS total_m,
+  DROP COLUMN IF EXISTS min_rounds_to_qualify,
+  DROP COLUMN IF EXISTS prize_pool_total,
+  DROP COLUMN IF EXISTS payout_config,
+  DROP COLUMN IF EXISTS tie_break_rules,
+  DROP COLUMN IF EXISTS tie_break_countback_weeks;
+
+COMMENT ON TABLE public.event_league_config IS 'Per-event league switch. Season settings live in league_seasons.';
@@ -0,0 +1,54 @@
+-- Migration 048: League Tees
+-- Weekly Stableford points have come from the Golf Genius export. To score
+-- a week in-app instead, the league needs the course data net scoring
+-- depends on: par and stroke index for each hole, plus the tee's course
+-- and slope rating. Each tee is a 9- or 18-hole layout for one event's
+-- league. Scores entered hole by hole keep their per-hole breakdown in
+-- league_scores.metadata.
+
+-- ============================================================
+-- 1. League tees
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.league_tees (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  pars smallint[] NOT NULL,
+  stroke_indexes smallint[] NOT NULL,
+  course_rating numeric(4,1) NOT NULL,
+  slope_rating smallint NOT NULL CHECK (slope_rating BETWEEN 55 AND 155),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (event_id, name),
+  CHECK (cardinality(pars) IN (9, 18)),
+  CHECK (cardinality(stroke_indexes) = cardinality(pars))
+);
+
+CREATE INDEX IF NOT EXISTS idx_league_tees_event
+  ON public.league_tees(event_id);
+
+COMMENT ON TABLE public.league_tees IS 'Course and tee data for in-app net Stableford scoring: par and stroke index per hole, course rating and slope.';
+COMMENT ON COLUMN public.league_tees.pars IS 'Par for each hole in playing order (9 or 18 entries).';
+COMMENT ON COLUMN public.league_tees.stroke_indexes IS 'Stroke index (handicap allocation) for each hole, same order as pars. On a 9-hole layout these may be the 18-hole odd/even indexes; strokes are allocated by their order.';
+COMMENT ON COLUMN public.league_tees.course_rating IS 'Course rating for the holes in this layout (the 9-hole rating for a 9-hole tee).';
+
+-- ============================================================
+-- 2. RLS
+-- ============================================================
+ALTER TABLE public.league_tees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "League tees: authenticated read"
+  ON public.league_tees FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "League tees: super admin manage"
+  ON public.league_tees FOR ALL
+  TO authenticated
+  USING (public.is_super_admin())
+  WITH CHECK (public.is_super_admin());
+
+CREATE POLICY "Service role full access to league tees"
+  ON public.league_tees FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,110 @@
+-- Migration 049: League Side Games
+-- The weekly side games (closest to the pin, low net, low gross, skins)
+-- were run outside the app and only their totals were pasted into
+-- league_money_scores. Each week's games are now recorded here: who
+-- bought in and for how much, each game's share of the pot, and its
+-- winners. Saving a week posts one weekly league_money_scores row per
+-- player with the per-game breakdown in metadata.
+
+-- ============================================================
+-- 1. Side game weeks
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.league_side_game_weeks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  season_id uuid REFERENCES public.league_seasons(id) ON DELETE CASCADE,
+  game_date date NOT NULL,
+  buy_in numeric(8,2) NOT NULL DEFAULT 25 CHECK (buy_in >= 0),
+  player_ids uuid[] NOT NULL DEFAULT '{}',
+  skins_carry_in numeric(8,2) NOT NULL DEFAULT 0 CHECK (skins_carry_in >= 0),
+  posted_at timestamptz,
+  entered_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (event_id, game_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_league_side_game_weeks_season
+  ON public.league_side_game_weeks(season_id, game_date);
+
+COMMENT ON TABLE public.league_side_game_weeks IS 'One row per league week with side games: buy-in, the golfers who bought in, and skins money carried in from an earlier week.';
+COMMENT ON COLUMN public.league_side_game_weeks.skins_carry_in IS 'Skins money nobody won in an earlier week, added to this week''s skins prize.';
+
+-- ============================================================
+-- 2. Side games
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.league_side_games (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  week_id uuid NOT NULL REFERENCES public.league_side_game_weeks(id) ON DELETE CASCADE,
+  game_type text NOT NULL
+    CHECK (game_type IN ('closest_to_pin', 'low_net', 'low_gross', 'skins')),
+  label text NOT NULL,
+  share_percent numeric(5,2) NOT NULL CHECK (share_percent >= 0 AND share_percent <= 100),
+  winner_ids uuid[] NOT NULL DEFAULT '{}',
+  hole_winners jsonb,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_league_side_games_week
+  ON public.league_side_games(week_id, sort_order);
+
+COMMENT ON TABLE public.league_side_games IS 'Games within a side-game week, each paid a share of the week''s pot.';
+COMMENT ON COLUMN public.league_side_games.winner_ids IS 'Winners of a closest-to-the-pin, low net or low gross game. Tied winners split the prize.';
+COMMENT ON COLUMN public.league_side_games.hole_winners IS 'Skins only: array with one entry per hole, the winning profile id or null when the hole was tied (the skin carries over).';
+
+-- ============================================================
+-- 3. RLS
+-- ============================================================
+ALTER TABLE public.league_side_game_weeks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.league_side_games ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "League side game weeks: authenticated read"
+  ON public.league_side_game_weeks FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage league side game weeks"
+  ON public.league_side_game_weeks FOR ALL
+  TO authenticated
+  USING (
+    public.is_super_admin()
+    OR public.is_program_admin_for(event_id)
+  )
+  WITH CHECK (
+    public.is_super_admin()
+    OR public.is_program_admin_for(event_id)
+  );
+
+CREATE POLICY "Service role full access to league side game weeks"
+  ON public.league_side_game_weeks FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "League side games: authenticated read"
+  ON public.league_side_games FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage league side games"
+  ON public.league_side_games FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.league_side_game_weeks w
+      WHERE w.id = week_id
+      AND (public.is_super_admin() OR public.is_program_admin_for(w.event_id))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.league_side_game_weeks w
+      WHERE w.id = week_id
+      AND (public.is_super_admin() OR public.is_program_admin_for(w.event_id))
+    )
+  );
+
+CREATE POLICY "Service role full access to league side games"
+  ON public.league_side_games FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
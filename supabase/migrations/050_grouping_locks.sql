@@ -0,0 +1,13 @@
+-- Migration 050: Grouping Locks
+-- Admins can now edit suggested groupings on the RSVP page (move golfers
+-- and guests between groups, change tee order) and lock groups they are
+-- happy with. When the engine regenerates groupings, locked groups are
+-- kept as they are and only the remaining golfers are regrouped.
+
+-- ============================================================
+-- 1. Lock flag on groupings
+-- ============================================================
+ALTER TABLE public.groupings
+  ADD COLUMN IF NOT EXISTS is_locked boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.groupings.is_locked IS 'Set on every row of a group an admin locked. Regenerating groupings keeps locked groups (number, tee order and players) and regroups everyone else.';
@@ -0,0 +1,395 @@
+-- Migration 051: Guests Count Against Capacity
+-- Approved guests used to sit outside the capacity math: /api/rsvp counted
+-- only member "in" rows, so a 16-player game could end up with 16 members
+-- plus guests the pro shop couldn't fit. Approved guests now take a spot
+-- like a member does, and guests who can't get one wait on their own guest
+-- waitlist (ordered separately from the member waitlist).
+--
+-- Each event picks how guests compete for spots:
+--   members_first (default) — approved guests wait until the RSVP cutoff,
+--                             then fill whatever spots members left open
+--   first_come              — an approved guest takes a spot right away if
+--                             one is open
+--
+-- apply_guest_status() approves/waitlists guests under the same
+-- event_schedules row lock apply_rsvp_status() uses, so a guest approval
+-- and a member tapping "I'm In" can't both take the last spot.
+
+-- ============================================================
+-- 1. Event setting
+-- ============================================================
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS guest_capacity_policy text NOT NULL DEFAULT 'members_first'
+    CHECK (guest_capacity_policy IN ('members_first', 'first_come'));
+
+COMMENT ON COLUMN public.events.guest_capacity_policy IS
+  'How approved guests get spots: members_first = guests wait on the guest waitlist until the RSVP cutoff, then fill leftover spots; first_come = an approved guest takes an open spot immediately.';
+
+-- ============================================================
+-- 2. Guest waitlist
+-- ============================================================
+ALTER TABLE public.guest_requests
+  DROP CONSTRAINT IF EXISTS guest_requests_status_check;
+
+ALTER TABLE public.guest_requests
+  ADD CONSTRAINT guest_requests_status_check
+  CHECK (status IN ('pending', 'approved', 'waitlisted', 'denied'));
+
+ALTER TABLE public.guest_requests
+  ADD COLUMN IF NOT EXISTS waitlist_position smallint;
+
+CREATE INDEX IF NOT EXISTS idx_guest_requests_schedule_status
+  ON public.guest_requests (schedule_id, status);
+
+COMMENT ON COLUMN public.guest_requests.waitlist_position IS
+  'Position on the game''s guest waitlist (1 = next to get a spot). Set only while status = ''waitlisted''; independent of the member waitlist.';
+
+-- ============================================================
+-- 3. Allow the guest waitlist email in email_log
+-- ============================================================
+ALTER TABLE public.email_log
+  DROP CONSTRAINT IF EXISTS email_log_email_type_check;
+
+ALTER TABLE public.email_log
+  ADD CONSTRAINT email_log_email_type_check
+  CHECK (email_type IN (
+    'invite', 'reminder', 'confirmation_golfer', 'confirmation_proshop',
+    'no_game', 'guest_approved', 'guest_denied', 'guest_request_pending',
+    'registration_pending', 'custom',
+    'penalty_issued', 'penalty_witness_request', 'penalty_witness_no',
+    'penalty_witness_timeout', 'penalty_apology', 'penalty_released',
+    'waitlist_promoted', 'waitlist_offer', 'guest_waitlisted'
+  ));
+
+-- ============================================================
+-- 4. apply_rsvp_status — count approved guests
+-- ============================================================
+-- Same as migration 038, except approved guests count as taken spots and
+-- the result includes guest_count.
+CREATE OR REPLACE FUNCTION public.apply_rsvp_status(
+  p_schedule_id uuid,
+  p_profile_id uuid,
+  p_status text,
+  p_changed_by uuid DEFAULT NULL,
+  p_enforce_capacity boolean DEFAULT true,
+  p_expected_status text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL,
+  p_ip_address text DEFAULT NULL,
+  p_is_suspicious boolean DEFAULT false,
+  p_change_reason text DEFAULT NULL
+)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_capacity integer;
+  v_rsvp public.rsvps%ROWTYPE;
+  v_is_new boolean := false;
+  v_old_status text;
+  v_new_status text := p_status;
+  v_position smallint;
+  v_in_count integer;
+  v_guest_count integer;
+  v_held_count integer;
+BEGIN
+  IF p_status NOT IN ('in', 'out', 'not_sure', 'no_response', 'waitlisted') THEN
+    RAISE EXCEPTION 'Invalid RSVP status: %', p_status;
+  END IF;
+
+  -- Lock the game. Every status change for this schedule (member or guest)
+  -- queues here until the previous one commits, so the counts below can't
+  -- go stale.
+  SELECT COALESCE(NULLIF(es.capacity, 0), NULLIF(e.default_capacity, 0), 16)
+    INTO v_capacity
+  FROM public.event_schedules es
+  JOIN public.events e ON e.id = es.event_id
+  WHERE es.id = p_schedule_id
+  FOR UPDATE OF es;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Schedule not found: %', p_schedule_id;
+  END IF;
+
+  SELECT * INTO v_rsvp
+  FROM public.rsvps
+  WHERE schedule_id = p_schedule_id AND profile_id = p_profile_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    IF p_expected_status IS NOT NULL THEN
+      RETURN jsonb_build_object('rsvp_id', NULL, 'old_status', NULL, 'new_status', NULL, 'changed', false);
+    END IF;
+
+    INSERT INTO public.rsvps (schedule_id, profile_id, status)
+    VALUES (p_schedule_id, p_profile_id, 'no_response')
+    RETURNING * INTO v_rsvp;
+    v_is_new := true;
+  END IF;
+
+  v_old_status := CASE WHEN v_is_new THEN NULL ELSE v_rsvp.status END;
+  v_position := v_rsvp.waitlist_position;
+
+  -- Caller only wants the change if the RSVP is still in the state it saw
+  -- (e.g. promoting someone who is still waitlisted).
+  IF p_expected_status IS NOT NULL AND v_rsvp.status IS DISTINCT FROM p_expected_status THEN
+    RETURN jsonb_build_object(
+      'rsvp_id', v_rsvp.id,
+      'old_status', v_old_status,
+      'new_status', v_rsvp.status,
+      'waitlist_position', v_rsvp.waitlist_position,
+      'changed', false
+    );
+  END IF;
+
+  SELECT count(*) INTO v_guest_count
+  FROM public.guest_requests
+  WHERE schedule_id = p_schedule_id AND status = 'approved';
+
+  -- Capacity check. Approved guests and spots held by another golfer's
+  -- pending waitlist offer count as taken.
+  IF p_status = 'in' AND v_rsvp.status <> 'in' AND p_enforce_capacity THEN
+    SELECT count(*) INTO v_in_count
+    FROM public.rsvps
+    WHERE schedule_id = p_schedule_id AND status = 'in';
+
+    SELECT count(*) INTO v_held_count
+    FROM public.waitlist_offers
+    WHERE schedule_id = p_schedule_id
+      AND status = 'pending'
+      AND rsvp_id <> v_rsvp.id;
+
+    IF v_in_count + v_guest_count + v_held_count >= v_capacity THEN
+      v_new_status := 'waitlisted';
+    END IF;
+  END IF;
+
+  -- No change (e.g. already waitlisted and the game is still full):
+  -- keep the existing waitlist position, don't log history.
+  IF NOT v_is_new AND v_new_status = v_rsvp.status THEN
+    SELECT count(*) INTO v_in_count
+    FROM public.rsvps
+    WHERE schedule_id = p_schedule_id AND status = 'in';
+
+    RETURN jsonb_build_object(
+      'rsvp_id', v_rsvp.id,
+      'old_status', v_old_status,
+      'new_status', v_new_status,
+      'waitlist_position', v_rsvp.waitlist_position,
+      'in_count', v_in_count,
+      'guest_count', v_guest_count,
+      'capacity', v_capacity,
+      'changed', false
+    );
+  END IF;
+
+  -- Waitlist position: join at the back, or clear when leaving
+  IF v_new_status = 'waitlisted' THEN
+    SELECT COALESCE(MAX(waitlist_position), 0) + 1 INTO v_position
+    FROM public.rsvps
+    WHERE schedule_id = p_schedule_id AND status = 'waitlisted';
+  ELSE
+    v_position := NULL;
+  END IF;
+
+  UPDATE public.rsvps
+  SET status = v_new_status,
+      waitlist_position = v_position,
+      responded_at = now(),
+      updated_at = now()
+  WHERE id = v_rsvp.id;
+
+  -- Close the gap left behind on the waitlist (1, 2, 3, ...)
+  IF v_rsvp.status = 'waitlisted' AND v_new_status <> 'waitlisted' THEN
+    UPDATE public.rsvps r
+    SET waitlist_position = ordered.pos
+    FROM (
+      SELECT id, row_number() OVER (ORDER BY waitlist_position, responded_at) AS pos
+      FROM public.rsvps
+      WHERE schedule_id = p_schedule_id AND status = 'waitlisted'
+    ) ordered
+    WHERE r.id = ordered.id
+      AND r.waitlist_position IS DISTINCT FROM ordered.pos;
+  END IF;
+
+  INSERT INTO public.rsvp_history (
+    rsvp_id, schedule_id, profile_id, old_status, new_status,
+    changed_by, user_agent, ip_address, is_suspicious, change_reason
+  ) VALUES (
+    v_rsvp.id, p_schedule_id, p_profile_id, v_old_status, v_new_status,
+    p_changed_by, p_user_agent, p_ip_address, p_is_suspicious, p_change_reason
+  );
+
+  SELECT count(*) INTO v_in_count
+  FROM public.rsvps
+  WHERE schedule_id = p_schedule_id AND status = 'in';
+
+  RETURN jsonb_build_object(
+    'rsvp_id', v_rsvp.id,
+    'old_status', v_old_status,
+    'new_status', v_new_status,
+    'waitlist_position', v_position,
+    'in_count', v_in_count,
+    'guest_count', v_guest_count,
+    'capacity', v_capacity,
+    'changed', true
+  );
+END;
+$function$;
+
+COMMENT ON FUNCTION public.apply_rsvp_status IS
+  'Atomically change an RSVP status for (schedule, golfer): creates the RSVP if missing, enforces capacity (sends "in" to the waitlist when full, counting approved guests and pending waitlist offers), assigns/clears waitlist_position, renumbers the waitlist, and writes rsvp_history. Serialized per game via a row lock on event_schedules.';
+
+-- ============================================================
+-- 5. apply_guest_status
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.apply_guest_status(
+  p_guest_request_id uuid,
+  p_status text,
+  p_changed_by uuid DEFAULT NULL,
+  p_enforce_capacity boolean DEFAULT true,
+  p_hold_for_members boolean DEFAULT false,
+  p_expected_status text DEFAULT NULL
+)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_schedule_id uuid;
+  v_capacity integer;
+  v_guest public.guest_requests%ROWTYPE;
+  v_new_status text := p_status;
+  v_position smallint;
+  v_in_count integer;
+  v_guest_count integer;
+  v_held_count integer;
+BEGIN
+  IF p_status NOT IN ('approved', 'waitlisted', 'denied') THEN
+    RAISE EXCEPTION 'Invalid guest status: %', p_status;
+  END IF;
+
+  SELECT schedule_id INTO v_schedule_id
+  FROM public.guest_requests
+  WHERE id = p_guest_request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Guest request not found: %', p_guest_request_id;
+  END IF;
+
+  -- Same game lock as apply_rsvp_status
+  SELECT COALESCE(NULLIF(es.capacity, 0), NULLIF(e.default_capacity, 0), 16)
+    INTO v_capacity
+  FROM public.event_schedules es
+  JOIN public.events e ON e.id = es.event_id
+  WHERE es.id = v_schedule_id
+  FOR UPDATE OF es;
+
+  SELECT * INTO v_guest
+  FROM public.guest_requests
+  WHERE id = p_guest_request_id
+  FOR UPDATE;
+
+  IF p_expected_status IS NOT NULL AND v_guest.status IS DISTINCT FROM p_expected_status THEN
+    RETURN jsonb_build_object(
+      'guest_request_id', v_guest.id,
+      'old_status', v_guest.status,
+      'new_status', v_guest.status,
+      'waitlist_position', v_guest.waitlist_position,
+      'changed', false
+    );
+  END IF;
+
+  SELECT count(*) INTO v_in_count
+  FROM public.rsvps
+  WHERE schedule_id = v_schedule_id AND status = 'in';
+
+  -- Approval takes a spot only when members don't have priority right now
+  -- and the game has room (members, other approved guests and pending
+  -- waitlist offers count as taken). Otherwise the guest is waitlisted.
+  IF p_status = 'approved' AND v_guest.status <> 'approved' AND p_enforce_capacity THEN
+    IF p_hold_for_members THEN
+      v_new_status := 'waitlisted';
+    ELSE
+      SELECT count(*) INTO v_guest_count
+      FROM public.guest_requests
+      WHERE schedule_id = v_schedule_id AND status = 'approved' AND id <> v_guest.id;
+
+      SELECT count(*) INTO v_held_count
+      FROM public.waitlist_offers
+      WHERE schedule_id = v_schedule_id AND status = 'pending';
+
+      IF v_in_count + v_guest_count + v_held_count >= v_capacity THEN
+        v_new_status := 'waitlisted';
+      END IF;
+    END IF;
+  END IF;
+
+  IF v_new_status = v_guest.status THEN
+    SELECT count(*) INTO v_guest_count
+    FROM public.guest_requests
+    WHERE schedule_id = v_schedule_id AND status = 'approved';
+
+    RETURN jsonb_build_object(
+      'guest_request_id', v_guest.id,
+      'old_status', v_guest.status,
+      'new_status', v_new_status,
+      'waitlist_position', v_guest.waitlist_position,
+      'in_count', v_in_count,
+      'guest_count', v_guest_count,
+      'capacity', v_capacity,
+      'changed', false
+    );
+  END IF;
+
+  IF v_new_status = 'waitlisted' THEN
+    SELECT COALESCE(MAX(waitlist_position), 0) + 1 INTO v_position
+    FROM public.guest_requests
+    WHERE schedule_id = v_schedule_id AND status = 'waitlisted';
+  ELSE
+    v_position := NULL;
+  END IF;
+
+  UPDATE public.guest_requests
+  SET status = v_new_status,
+      waitlist_position = v_position,
+      approved_by = COALESCE(p_changed_by, approved_by),
+      updated_at = now()
+  WHERE id = v_guest.id;
+
+  -- Close the gap left behind on the guest waitlist
+  IF v_guest.status = 'waitlisted' AND v_new_status <> 'waitlisted' THEN
+    UPDATE public.guest_requests g
+    SET waitlist_position = ordered.pos
+    FROM (
+      SELECT id, row_number() OVER (ORDER BY waitlist_position, created_at) AS pos
+      FROM public.guest_requests
+      WHERE schedule_id = v_schedule_id AND status = 'waitlisted'
+    ) ordered
+    WHERE g.id = ordered.id
+      AND g.waitlist_position IS DISTINCT FROM ordered.pos;
+  END IF;
+
+  SELECT count(*) INTO v_guest_count
+  FROM public.guest_requests
+  WHERE schedule_id = v_schedule_id AND status = 'approved';
+
+  RETURN jsonb_build_object(
+    'guest_request_id', v_guest.id,
+    'old_status', v_guest.status,
+    'new_status', v_new_status,
+    'waitlist_position', v_position,
+    'in_count', v_in_count,
+    'guest_count', v_guest_count,
+    'capacity', v_capacity,
+    'changed', true
+  );
+END;
+$function$;
+
+COMMENT ON FUNCTION public.apply_guest_status IS
+  'Atomically change a guest request status: "approved" takes an open spot (members, approved guests and pending waitlist offers count as taken) or joins the guest waitlist when the game is full or p_hold_for_members is set; assigns/clears waitlist_position and renumbers the guest waitlist. Serialized per game via the same event_schedules row lock as apply_rsvp_status.';
+
+REVOKE ALL ON FUNCTION public.apply_guest_status(uuid, text, uuid, boolean, boolean, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.apply_guest_status(uuid, text, uuid, boolean, boolean, text) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_guest_status(uuid, text, uuid, boolean, boolean, text) TO service_role;
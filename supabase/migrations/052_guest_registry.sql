@@ -0,0 +1,154 @@
+-- Migration 052: Guest Registry
+-- Guests only existed as rows in guest_requests, so the same guest brought
+-- by three different members looked like three strangers and nothing could
+-- say how often someone had played as a guest. Guests now have one record
+-- in a registry, matched on email, then GHIN number, then name. Every guest
+-- request links to its guest, which gives each guest a play history and
+-- visit counts per season.
+--
+-- Each event can cap visits per guest per season (events.max_visits_per_guest).
+-- Over the cap, a new request is either blocked or let through with a flag
+-- for the admin who approves it (events.guest_visit_limit_action). A season
+-- is the event's league season containing the game date, or the calendar
+-- year when there is none.
+--
+-- guests.converted_profile_id records a guest who became a member through
+-- the admin "Convert to Member" action.
+
+-- ============================================================
+-- 1. Guest registry
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.guests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  first_name text NOT NULL,
+  last_name text NOT NULL,
+  email text,
+  phone text,
+  ghin_number text,
+  converted_profile_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  converted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- A guest's email and GHIN number identify them across sponsors
+CREATE UNIQUE INDEX IF NOT EXISTS idx_guests_email
+  ON public.guests (lower(email)) WHERE email IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_guests_ghin
+  ON public.guests (ghin_number) WHERE ghin_number IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_guests_name
+  ON public.guests (lower(last_name), lower(first_name));
+
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.guests
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+COMMENT ON TABLE public.guests IS 'One row per guest, shared by every member who brings them. Matched on email, then GHIN number, then name.';
+COMMENT ON COLUMN public.guests.converted_profile_id IS 'The member profile created when an admin converted this guest to a member.';
+
+-- ============================================================
+-- 2. Link guest requests to the registry
+-- ============================================================
+ALTER TABLE public.guest_requests
+  ADD COLUMN IF NOT EXISTS guest_id uuid REFERENCES public.guests(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS visit_limit_exceeded boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_guest_requests_guest
+  ON public.guest_requests (guest_id);
+
+COMMENT ON COLUMN public.guest_requests.guest_id IS 'The registry guest this request is for.';
+COMMENT ON COLUMN public.guest_requests.visit_limit_exceeded IS 'True when the guest was already at the event''s max visits per season when this request was made (flag mode).';
+
+-- ============================================================
+-- 3. Event settings
+-- ============================================================
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS max_visits_per_guest smallint
+    CHECK (max_visits_per_guest IS NULL OR max_visits_per_guest >= 1),
+  ADD COLUMN IF NOT EXISTS guest_visit_limit_action text NOT NULL DEFAULT 'flag'
+    CHECK (guest_visit_limit_action IN ('block', 'flag'));
+
+COMMENT ON COLUMN public.events.max_visits_per_guest IS
+  'Most times one guest can be requested for this event per season (pending, approved and waitlisted requests count). NULL = no limit.';
+COMMENT ON COLUMN public.events.guest_visit_limit_action IS
+  'What happens to a request over max_visits_per_guest: block = the member can''t submit it; flag = it goes through marked for the approving admin.';
+
+-- ============================================================
+-- 4. RLS
+-- ============================================================
+ALTER TABLE public.guests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Guests: super admin manage"
+  ON public.guests FOR ALL
+  TO authenticated
+  USING (public.is_super_admin())
+  WITH CHECK (public.is_super_admin());
+
+CREATE POLICY "Service role full access to guests"
+  ON public.guests FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================
+-- 5. Backfill — register every existing guest, oldest request first
+-- ============================================================
+DO $$
+DECLARE
+  r record;
+  v_guest_id uuid;
+  v_email text;
+  v_ghin text;
+BEGIN
+  FOR r IN
+    SELECT id, guest_first_name, guest_last_name, guest_email, guest_phone,
+           guest_ghin_number, guest_profile_id
+    FROM public.guest_requests
+    WHERE guest_id IS NULL
+    ORDER BY created_at
+  LOOP
+    v_email := NULLIF(lower(trim(r.guest_email)), '');
+    v_ghin := NULLIF(trim(r.guest_ghin_number), '');
+    v_guest_id := NULL;
+
+    IF v_email IS NOT NULL THEN
+      SELECT id INTO v_guest_id FROM public.guests WHERE lower(email) = v_email;
+    END IF;
+
+    IF v_guest_id IS NULL AND v_ghin IS NOT NULL THEN
+      SELECT id INTO v_guest_id FROM public.guests
+      WHERE ghin_number = v_ghin
+        AND (email IS NULL OR v_email IS NULL OR lower(email) = v_email);
+    END IF;
+
+    -- Name only when nothing we know about either side disagrees
+    IF v_guest_id IS NULL THEN
+      SELECT id INTO v_guest_id FROM public.guests
+      WHERE lower(first_name) = lower(trim(r.guest_first_name))
+        AND lower(last_name) = lower(trim(r.guest_last_name))
+        AND (email IS NULL OR v_email IS NULL OR lower(email) = v_email)
+        AND (ghin_number IS NULL OR v_ghin IS NULL OR ghin_number = v_ghin)
+      ORDER BY created_at
+      LIMIT 1;
+    END IF;
+
+    IF v_guest_id IS NULL THEN
+      INSERT INTO public.guests (first_name, last_name, email, phone, ghin_number)
+      VALUES (trim(r.guest_first_name), trim(r.guest_last_name), v_email,
+              NULLIF(trim(r.guest_phone), ''), v_ghin)
+      RETURNING id INTO v_guest_id;
+    ELSE
+      -- Fill in details the registry didn't have yet
+      UPDATE public.guests SET
+        email = COALESCE(email, v_email),
+        phone = COALESCE(phone, NULLIF(trim(r.guest_phone), '')),
+        ghin_number = COALESCE(ghin_number,
+          CASE WHEN NOT EXISTS (SELECT 1 FROM public.guests WHERE ghin_number = v_ghin)
+               THEN v_ghin END)
+      WHERE id = v_guest_id;
+    END IF;
+
+    UPDATE public.guest_requests SET guest_id = v_guest_id WHERE id = r.id;
+  END LOOP;
+END $$;
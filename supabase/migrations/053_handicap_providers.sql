@@ -0,0 +1,25 @@
+-- Migration 053: Handicap Providers
+-- Handicap sync no longer has to come from the GHIN API. A super admin can
+-- upload the handicap chair's export file from the event settings page,
+-- and local development can run against an in-memory fake
+-- (HANDICAP_PROVIDER=fake). Each sync run records which provider it used,
+-- and handicap history records values that came from an uploaded file.
+
+-- ============================================================
+-- 1. Provider on sync runs
+-- ============================================================
+ALTER TABLE public.handicap_sync_log
+  ADD COLUMN IF NOT EXISTS provider text NOT NULL DEFAULT 'ghin'
+    CHECK (provider IN ('ghin', 'csv_import', 'fake'));
+
+COMMENT ON COLUMN public.handicap_sync_log.provider IS 'Where the run got handicaps: ghin (scheduled API sync), csv_import (admin file upload) or fake (local development). Consecutive-failure alerts ignore csv_import runs.';
+
+-- ============================================================
+-- 2. Uploaded values in handicap history
+-- ============================================================
+ALTER TABLE public.handicap_history
+  DROP CONSTRAINT IF EXISTS handicap_history_source_check;
+
+ALTER TABLE public.handicap_history
+  ADD CONSTRAINT handicap_history_source_check
+    CHECK (source IN ('ghin_sync', 'csv_import', 'manual'));
@@ -0,0 +1,100 @@
+-- Migration 054: Courses
+-- Weather was hardcoded to Fairbanks Ranch's coordinates, so away-day
+-- trips got the home course's forecast. Courses now live in their own
+-- table (name, address, coordinates, timezone). Each event plays at a
+-- course, and a single game can override it for an away day.
+--
+-- The course for a game is event_schedules.course_id, else
+-- events.course_id. Forecasts are fetched for that course's coordinates
+-- and cached per event, game date and course, so changing a game's
+-- course never serves the old course's forecast.
+
+-- ============================================================
+-- 1. Courses
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.courses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  address text,
+  latitude numeric(9,6) NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude numeric(9,6) NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  timezone text NOT NULL DEFAULT 'America/Los_Angeles',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_courses_name
+  ON public.courses (lower(name));
+
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.courses
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+COMMENT ON TABLE public.courses IS 'Golf courses events play at. Coordinates and timezone drive the game-time weather forecast.';
+
+-- The home course every existing event plays at
+INSERT INTO public.courses (name, address, latitude, longitude, timezone)
+VALUES (
+  'Fairbanks Ranch Country Club',
+  '15150 San Dieguito Rd, Rancho Santa Fe, CA 92067',
+  32.9881,
+  -117.1935,
+  'America/Los_Angeles'
+)
+ON CONFLICT DO NOTHING;
+
+-- ============================================================
+-- 2. Event course and per-game override
+-- ============================================================
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS course_id uuid REFERENCES public.courses(id) ON DELETE SET NULL;
+
+ALTER TABLE public.event_schedules
+  ADD COLUMN IF NOT EXISTS course_id uuid REFERENCES public.courses(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.events.course_id IS 'Where this event normally plays. NULL = no course, so no weather forecast.';
+COMMENT ON COLUMN public.event_schedules.course_id IS 'Away-day override for this game. NULL = the event''s course.';
+
+UPDATE public.events
+  SET course_id = (SELECT id FROM public.courses WHERE lower(name) = 'fairbanks ranch country club')
+  WHERE course_id IS NULL;
+
+-- ============================================================
+-- 3. Weather cache keyed by course
+-- ============================================================
+-- Cached forecasts are at most a few hours old; drop them rather than
+-- backfill a course for each.
+DELETE FROM public.weather_cache;
+
+ALTER TABLE public.weather_cache
+  ADD COLUMN IF NOT EXISTS course_id uuid NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE;
+
+ALTER TABLE public.weather_cache
+  DROP CONSTRAINT IF EXISTS weather_cache_event_id_game_date_key;
+
+ALTER TABLE public.weather_cache
+  ADD CONSTRAINT weather_cache_event_id_game_date_course_id_key
+    UNIQUE (event_id, game_date, course_id);
+
+COMMENT ON COLUMN public.weather_cache.course_id IS 'Course the forecast was fetched for (the game''s override, else the event''s course).';
+
+-- ============================================================
+-- 4. RLS
+-- ============================================================
+ALTER TABLE public.courses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Courses: authenticated read"
+  ON public.courses FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Courses: super admin manage"
+  ON public.courses FOR ALL
+  TO authenticated
+  USING (public.is_super_admin())
+  WITH CHECK (public.is_super_admin());
+
+CREATE POLICY "Service role full access to courses"
+  ON public.courses FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,71 @@
+-- Migration 055: Atomic Grouping Edits
+-- Saving the grouping editor used to delete every groupings row for the game
+-- and then insert the edited rows in a separate request. If the insert
+-- failed, the game was left with no groupings and no locks.
+-- replace_schedule_groupings() does the delete and insert in one
+-- transaction, so a failed save leaves the previous groupings in place.
+--
+-- Callers: saveGroupingEdits (admin RSVP page grouping editor).
+-- Only the service role may call it (the caller uses the admin client).
+
+-- ============================================================
+-- replace_schedule_groupings
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.replace_schedule_groupings(
+  p_schedule_id uuid,
+  p_rows jsonb
+)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_count integer;
+BEGIN
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' OR jsonb_array_length(p_rows) = 0 THEN
+    RAISE EXCEPTION 'p_rows must be a non-empty array';
+  END IF;
+
+  -- Serialize with other saves for the same game
+  PERFORM 1 FROM public.event_schedules WHERE id = p_schedule_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Schedule % not found', p_schedule_id;
+  END IF;
+
+  DELETE FROM public.groupings WHERE schedule_id = p_schedule_id;
+
+  INSERT INTO public.groupings (
+    schedule_id, group_number, tee_order, profile_id, guest_request_id,
+    harmony_score, team_number, is_locked
+  )
+  SELECT
+    p_schedule_id,
+    r.group_number,
+    r.tee_order,
+    r.profile_id,
+    r.guest_request_id,
+    r.harmony_score,
+    r.team_number,
+    COALESCE(r.is_locked, false)
+  FROM jsonb_to_recordset(p_rows) AS r(
+    group_number smallint,
+    tee_order smallint,
+    profile_id uuid,
+    guest_request_id uuid,
+    harmony_score numeric,
+    team_number smallint,
+    is_locked boolean
+  );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$function$;
+
+COMMENT ON FUNCTION public.replace_schedule_groupings IS
+  'Replace all groupings rows for a schedule (locked and unlocked) with p_rows in one transaction. Any error rolls back the delete, so the previous groupings survive a failed save. Returns the number of rows inserted.';
+
+-- Service role only — the function trusts its caller for authorization.
+REVOKE ALL ON FUNCTION public.replace_schedule_groupings(uuid, jsonb) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.replace_schedule_groupings(uuid, jsonb) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_schedule_groupings(uuid, jsonb) TO service_role;
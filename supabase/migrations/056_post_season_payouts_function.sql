@@ -0,0 +1,75 @@
+-- Migration 056: Atomic Season Payout Posting
+-- Posting season payouts used to delete the season's payout rows from
+-- league_money_scores and insert the new ones in two separate requests. A
+-- failed insert left the season with no payout rows, and two admins
+-- posting at once could both insert. post_season_payouts() does the
+-- delete and insert in one transaction, serialized per season by locking
+-- the league_seasons row — the same approach as replace_schedule_groupings
+-- (migration 055).
+--
+-- Callers: postSeasonPayouts (admin Season Payouts page).
+-- Only the service role may call it (the caller uses the admin client).
+
+-- ============================================================
+-- post_season_payouts
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.post_season_payouts(
+  p_event_id uuid,
+  p_season_id uuid,
+  p_rows jsonb,
+  p_entered_by uuid DEFAULT NULL
+)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_count integer;
+BEGIN
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' OR jsonb_array_length(p_rows) = 0 THEN
+    RAISE EXCEPTION 'p_rows must be a non-empty array';
+  END IF;
+
+  -- Serialize with other posts for the same season
+  PERFORM 1 FROM public.league_seasons
+  WHERE id = p_season_id AND event_id = p_event_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Season % not found for event %', p_season_id, p_event_id;
+  END IF;
+
+  DELETE FROM public.league_money_scores
+  WHERE event_id = p_event_id
+    AND season_id = p_season_id
+    AND metadata @> '{"type": "season"}';
+
+  INSERT INTO public.league_money_scores (
+    event_id, season_id, profile_id, game_date, amount, metadata, entered_by
+  )
+  SELECT
+    p_event_id,
+    p_season_id,
+    r.profile_id,
+    r.game_date,
+    r.amount,
+    r.metadata,
+    p_entered_by
+  FROM jsonb_to_recordset(p_rows) AS r(
+    profile_id uuid,
+    game_date date,
+    amount numeric,
+    metadata jsonb
+  );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$function$;
+
+COMMENT ON FUNCTION public.post_season_payouts IS
+  'Replace a season''s posted payout rows (league_money_scores with metadata type = season) with p_rows in one transaction, serialized per season via a row lock on league_seasons. Any error rolls back the delete. Returns the number of rows inserted.';
+
+-- Service role only — the function trusts its caller for authorization.
+REVOKE ALL ON FUNCTION public.post_season_payouts(uuid, uuid, jsonb, uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.post_season_payouts(uuid, uuid, jsonb, uuid) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.post_season_payouts(uuid, uuid, jsonb, uuid) TO service_role;